@@ -213,6 +213,10 @@ describe('/server', () => {
       expect(status).toBe(200);
       expect(body).toEqual({
         customCss: '',
+        productName: '',
+        primaryColor: '',
+        logoUrl: null,
+        faviconUrl: null,
       });
     });
   });
@@ -183,6 +183,18 @@ export type TagsResponse = {
     enabled: boolean;
     sidebarWeb: boolean;
 };
+export type UserFeaturesResponseDto = {
+    duplicateDetection: boolean;
+    facialRecognition: boolean;
+    ocr: boolean;
+    smartSearch: boolean;
+};
+export type UserFeaturesUpdateDto = {
+    duplicateDetection?: boolean;
+    facialRecognition?: boolean;
+    ocr?: boolean;
+    smartSearch?: boolean;
+};
 export type UserPreferencesResponseDto = {
     albums: AlbumsResponse;
     cast: CastResponse;
@@ -1282,6 +1294,13 @@ export type ServerStorageResponseDto = {
 };
 export type ServerThemeDto = {
     customCss: string;
+    faviconUrl: string | null;
+    logoUrl: string | null;
+    primaryColor: string;
+    productName: string;
+};
+export type CreateThemeAssetDto = {
+    themeData: Blob;
 };
 export type ServerVersionResponseDto = {
     major: number;
@@ -1594,6 +1613,8 @@ export type SystemConfigTemplatesDto = {
 };
 export type SystemConfigThemeDto = {
     customCss: string;
+    primaryColor: string;
+    productName: string;
 };
 export type SystemConfigTrashDto = {
     days: number;
@@ -2000,6 +2021,35 @@ export function updateUserAdmin({ id, userAdminUpdateDto }: {
         body: userAdminUpdateDto
     })));
 }
+/**
+ * Retrieve user features
+ */
+export function getUserFeaturesAdmin({ id }: {
+    id: string;
+}, opts?: Oazapfts.RequestOpts) {
+    return oazapfts.ok(oazapfts.fetchJson<{
+        status: 200;
+        data: UserFeaturesResponseDto;
+    }>(`/admin/users/${encodeURIComponent(id)}/features`, {
+        ...opts
+    }));
+}
+/**
+ * Update user features
+ */
+export function updateUserFeaturesAdmin({ id, userFeaturesUpdateDto }: {
+    id: string;
+    userFeaturesUpdateDto: UserFeaturesUpdateDto;
+}, opts?: Oazapfts.RequestOpts) {
+    return oazapfts.ok(oazapfts.fetchJson<{
+        status: 200;
+        data: UserFeaturesResponseDto;
+    }>(`/admin/users/${encodeURIComponent(id)}/features`, oazapfts.json({
+        ...opts,
+        method: "PUT",
+        body: userFeaturesUpdateDto
+    })));
+}
 /**
  * Retrieve user preferences
  */
@@ -4093,6 +4143,46 @@ export function getTheme(opts?: Oazapfts.RequestOpts) {
         ...opts
     }));
 }
+/**
+ * Delete theme asset
+ */
+export function deleteThemeAsset({ asset }: {
+    asset: ThemeAsset;
+}, opts?: Oazapfts.RequestOpts) {
+    return oazapfts.ok(oazapfts.fetchText(`/server/theme/${encodeURIComponent(asset)}`, {
+        ...opts,
+        method: "DELETE"
+    }));
+}
+/**
+ * Retrieve theme asset
+ */
+export function getThemeAsset({ asset }: {
+    asset: ThemeAsset;
+}, opts?: Oazapfts.RequestOpts) {
+    return oazapfts.ok(oazapfts.fetchBlob<{
+        status: 200;
+        data: Blob;
+    }>(`/server/theme/${encodeURIComponent(asset)}`, {
+        ...opts
+    }));
+}
+/**
+ * Upload theme asset
+ */
+export function createThemeAsset({ asset, createThemeAssetDto }: {
+    asset: ThemeAsset;
+    createThemeAssetDto: CreateThemeAssetDto;
+}, opts?: Oazapfts.RequestOpts) {
+    return oazapfts.ok(oazapfts.fetchJson<{
+        status: 200;
+        data: ServerThemeDto;
+    }>(`/server/theme/${encodeURIComponent(asset)}`, oazapfts.multipart({
+        ...opts,
+        method: "PUT",
+        body: createThemeAssetDto
+    })));
+}
 /**
  * Get server version
  */
@@ -5496,6 +5586,10 @@ export enum SearchSuggestionType {
     CameraModel = "camera-model",
     CameraLensModel = "camera-lens-model"
 }
+export enum ThemeAsset {
+    Logo = "logo",
+    Favicon = "favicon"
+}
 export enum SharedLinkType {
     Album = "ALBUM",
     Individual = "INDIVIDUAL"
@@ -147,6 +147,8 @@ export interface SystemConfig {
   };
   theme: {
     customCss: string;
+    productName: string;
+    primaryColor: string;
   };
   library: {
     scan: {
@@ -349,6 +351,8 @@ export const defaults = Object.freeze<SystemConfig>({
   },
   theme: {
     customCss: '',
+    productName: '',
+    primaryColor: '',
   },
   library: {
     scan: {
@@ -1,8 +1,15 @@
+import { NotFoundException } from '@nestjs/common';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
 import { ServerController } from 'src/controllers/server.controller';
 import { ServerService } from 'src/services/server.service';
 import { SystemMetadataService } from 'src/services/system-metadata.service';
 import { VersionService } from 'src/services/version.service';
+import { CacheControl, ThemeAsset } from 'src/enum';
+import { ImmichFileResponse } from 'src/utils/file';
 import request from 'supertest';
+import { errorDto } from 'test/medium/responses';
 import { ControllerContext, controllerSetup, mockBaseService } from 'test/utils';
 
 describe(ServerController.name, () => {
@@ -32,4 +39,59 @@ describe(ServerController.name, () => {
       expect(ctx.authenticate).toHaveBeenCalled();
     });
   });
+
+  describe('GET /server/theme/:asset', () => {
+    it('should not be an authenticated route', async () => {
+      serverService.getThemeAsset.mockRejectedValue(new NotFoundException());
+      await request(ctx.getHttpServer()).get('/server/theme/logo');
+      expect(ctx.authenticate).not.toHaveBeenCalled();
+    });
+
+    it('should send the uploaded asset', async () => {
+      const folder = mkdtempSync(join(tmpdir(), 'theme-'));
+      const path = join(folder, 'logo.png');
+      writeFileSync(path, 'logo');
+      serverService.getThemeAsset.mockResolvedValue(
+        new ImmichFileResponse({ path, contentType: 'image/png', cacheControl: CacheControl.PrivateWithCache }),
+      );
+
+      try {
+        const { status, headers, body } = await request(ctx.getHttpServer()).get('/server/theme/logo');
+        expect(status).toBe(200);
+        expect(headers['content-type']).toBe('image/png');
+        expect(headers['cache-control']).toBe('private, max-age=86400, no-transform');
+        expect(body.toString()).toBe('logo');
+        expect(serverService.getThemeAsset).toHaveBeenCalledWith(ThemeAsset.Logo);
+      } finally {
+        rmSync(folder, { recursive: true, force: true });
+      }
+    });
+
+    it('should return 404 for a missing asset', async () => {
+      serverService.getThemeAsset.mockRejectedValue(new NotFoundException('No favicon has been uploaded'));
+
+      const { status } = await request(ctx.getHttpServer()).get('/server/theme/favicon');
+      expect(status).toBe(404);
+    });
+
+    it('should reject an unknown asset', async () => {
+      const { status, body } = await request(ctx.getHttpServer()).get('/server/theme/background');
+      expect(status).toBe(400);
+      expect(body).toEqual(errorDto.badRequest(expect.arrayContaining([expect.stringContaining('asset')])));
+    });
+  });
+
+  describe('PUT /server/theme/:asset', () => {
+    it('should be an authenticated route', async () => {
+      await request(ctx.getHttpServer()).put('/server/theme/logo');
+      expect(ctx.authenticate).toHaveBeenCalled();
+    });
+  });
+
+  describe('DELETE /server/theme/:asset', () => {
+    it('should be an authenticated route', async () => {
+      await request(ctx.getHttpServer()).delete('/server/theme/favicon');
+      expect(ctx.authenticate).toHaveBeenCalled();
+    });
+  });
 });
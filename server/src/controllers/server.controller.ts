@@ -1,8 +1,23 @@
-import { Body, Controller, Delete, Get, HttpCode, HttpStatus, Put } from '@nestjs/common';
-import { ApiNotFoundResponse, ApiTags } from '@nestjs/swagger';
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Next,
+  Param,
+  Put,
+  Res,
+  UploadedFile,
+  UseInterceptors,
+} from '@nestjs/common';
+import { ApiBody, ApiConsumes, ApiNotFoundResponse, ApiTags } from '@nestjs/swagger';
+import { NextFunction, Response } from 'express';
 import { Endpoint, HistoryBuilder } from 'src/decorators';
 import { LicenseKeyDto, LicenseResponseDto } from 'src/dtos/license.dto';
 import {
+  CreateThemeAssetDto,
   ServerAboutResponseDto,
   ServerApkLinksDto,
   ServerConfigDto,
@@ -14,21 +29,26 @@ import {
   ServerThemeDto,
   ServerVersionHistoryResponseDto,
   ServerVersionResponseDto,
+  ThemeAssetParamDto,
 } from 'src/dtos/server.dto';
 import { VersionCheckStateResponseDto } from 'src/dtos/system-metadata.dto';
-import { ApiTag, Permission } from 'src/enum';
-import { Authenticated } from 'src/middleware/auth.guard';
+import { ApiTag, Permission, RouteKey } from 'src/enum';
+import { Authenticated, FileResponse } from 'src/middleware/auth.guard';
+import { FileUploadInterceptor } from 'src/middleware/file-upload.interceptor';
+import { LoggingRepository } from 'src/repositories/logging.repository';
 import { ServerService } from 'src/services/server.service';
 import { SystemMetadataService } from 'src/services/system-metadata.service';
 import { VersionService } from 'src/services/version.service';
+import { sendFile } from 'src/utils/file';
 
 @ApiTags(ApiTag.Server)
-@Controller('server')
+@Controller(RouteKey.Server)
 export class ServerController {
   constructor(
     private service: ServerService,
     private systemMetadataService: SystemMetadataService,
     private versionService: VersionService,
+    private logger: LoggingRepository,
   ) {}
 
   @Get('about')
@@ -107,13 +127,53 @@ export class ServerController {
   @Get('theme')
   @Endpoint({
     summary: 'Get theme',
-    description: 'Retrieve the custom CSS, if existent.',
+    description: 'Retrieve the custom CSS, product name, primary color and the URLs of the uploaded logo and favicon.',
     history: new HistoryBuilder().added('v1').beta('v1').stable('v2'),
   })
   getTheme(): Promise<ServerThemeDto> {
     return this.service.getTheme();
   }
 
+  @Get('theme/:asset')
+  @FileResponse()
+  @Endpoint({
+    summary: 'Retrieve theme asset',
+    description: 'Retrieve the uploaded logo or favicon.',
+    history: new HistoryBuilder().added('v2.4.0').alpha('v2.4.0'),
+  })
+  async getThemeAsset(@Res() res: Response, @Next() next: NextFunction, @Param() { asset }: ThemeAssetParamDto) {
+    await sendFile(res, next, () => this.service.getThemeAsset(asset), this.logger);
+  }
+
+  @Put('theme/:asset')
+  @Authenticated({ permission: Permission.SystemConfigUpdate, admin: true })
+  @UseInterceptors(FileUploadInterceptor)
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({ description: 'A new logo or favicon', type: CreateThemeAssetDto })
+  @Endpoint({
+    summary: 'Upload theme asset',
+    description: 'Upload a logo or favicon to replace the default one in the web app.',
+    history: new HistoryBuilder().added('v2.4.0').alpha('v2.4.0'),
+  })
+  createThemeAsset(
+    @Param() { asset }: ThemeAssetParamDto,
+    @UploadedFile() fileInfo: Express.Multer.File,
+  ): Promise<ServerThemeDto> {
+    return this.service.createThemeAsset(asset, fileInfo);
+  }
+
+  @Delete('theme/:asset')
+  @Authenticated({ permission: Permission.SystemConfigUpdate, admin: true })
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @Endpoint({
+    summary: 'Delete theme asset',
+    description: 'Delete the uploaded logo or favicon and fall back to the default one.',
+    history: new HistoryBuilder().added('v2.4.0').alpha('v2.4.0'),
+  })
+  deleteThemeAsset(@Param() { asset }: ThemeAssetParamDto): Promise<void> {
+    return this.service.deleteThemeAsset(asset);
+  }
+
   @Get('config')
   @Endpoint({
     summary: 'Get config',
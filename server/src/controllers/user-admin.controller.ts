@@ -4,6 +4,7 @@ import { Endpoint, HistoryBuilder } from 'src/decorators';
 import { AssetStatsDto, AssetStatsResponseDto } from 'src/dtos/asset.dto';
 import { AuthDto } from 'src/dtos/auth.dto';
 import { SessionResponseDto } from 'src/dtos/session.dto';
+import { UserFeaturesResponseDto, UserFeaturesUpdateDto } from 'src/dtos/user-features.dto';
 import { UserPreferencesResponseDto, UserPreferencesUpdateDto } from 'src/dtos/user-preferences.dto';
 import {
   UserAdminCreateDto,
@@ -137,6 +138,33 @@ export class UserAdminController {
     return this.service.updatePreferences(auth, id, dto);
   }
 
+  @Get(':id/features')
+  @Authenticated({ permission: Permission.AdminUserRead, admin: true })
+  @Endpoint({
+    summary: 'Retrieve user features',
+    description: 'Retrieve the machine learning features available to a specific user.',
+    history: new HistoryBuilder().added('v2.4.0').alpha('v2.4.0'),
+  })
+  getUserFeaturesAdmin(@Auth() auth: AuthDto, @Param() { id }: UUIDParamDto): Promise<UserFeaturesResponseDto> {
+    return this.service.getFeatures(auth, id);
+  }
+
+  @Put(':id/features')
+  @Authenticated({ permission: Permission.AdminUserUpdate, admin: true })
+  @Endpoint({
+    summary: 'Update user features',
+    description:
+      'Enable or disable machine learning features (smart search, facial recognition, OCR, duplicate detection) for a specific user.',
+    history: new HistoryBuilder().added('v2.4.0').alpha('v2.4.0'),
+  })
+  updateUserFeaturesAdmin(
+    @Auth() auth: AuthDto,
+    @Param() { id }: UUIDParamDto,
+    @Body() dto: UserFeaturesUpdateDto,
+  ): Promise<UserFeaturesResponseDto> {
+    return this.service.updateFeatures(auth, id, dto);
+  }
+
   @Post(':id/restore')
   @Authenticated({ permission: Permission.AdminUserDelete, admin: true })
   @HttpCode(HttpStatus.OK)
@@ -25,6 +25,7 @@ export enum UploadFieldName {
   ASSET_DATA = 'assetData',
   SIDECAR_DATA = 'sidecarData',
   PROFILE_DATA = 'file',
+  THEME_DATA = 'themeData',
 }
 
 class AssetMediaBase {
@@ -1,6 +1,9 @@
 import { ApiProperty, ApiResponseProperty } from '@nestjs/swagger';
 import { SemVer } from 'semver';
+import { UploadFieldName } from 'src/dtos/asset-media.dto';
 import { SystemConfigThemeDto } from 'src/dtos/system-config.dto';
+import { ThemeAsset } from 'src/enum';
+import { ValidateEnum } from 'src/validation';
 
 export class ServerPingResponse {
   @ApiResponseProperty({ type: String, example: 'pong' })
@@ -139,7 +142,20 @@ export class ServerMediaTypesResponseDto {
   sidecar!: string[];
 }
 
-export class ServerThemeDto extends SystemConfigThemeDto {}
+export class ServerThemeDto extends SystemConfigThemeDto {
+  logoUrl!: string | null;
+  faviconUrl!: string | null;
+}
+
+export class ThemeAssetParamDto {
+  @ValidateEnum({ enum: ThemeAsset, name: 'ThemeAsset' })
+  asset!: ThemeAsset;
+}
+
+export class CreateThemeAssetDto {
+  @ApiProperty({ type: 'string', format: 'binary' })
+  [UploadFieldName.THEME_DATA]!: Express.Multer.File;
+}
 
 export class ServerConfigDto {
   oauthButtonText!: string;
@@ -9,7 +9,9 @@ import {
   IsPositive,
   IsString,
   IsUrl,
+  Matches,
   Max,
+  MaxLength,
   Min,
   ValidateIf,
   ValidateNested,
@@ -561,6 +563,13 @@ export class SystemConfigTemplateStorageOptionDto {
 export class SystemConfigThemeDto {
   @IsString()
   customCss!: string;
+
+  @IsString()
+  @MaxLength(50)
+  productName!: string;
+
+  @Matches(/^(#[\dA-Fa-f]{6})?$/, { message: 'primaryColor must be a hex color like #4250af' })
+  primaryColor!: string;
 }
 
 class SystemConfigGeneratedImageDto {
@@ -0,0 +1,27 @@
+import { UserFeatures } from 'src/types';
+import { ValidateBoolean } from 'src/validation';
+
+export class UserFeaturesUpdateDto {
+  @ValidateBoolean({ optional: true })
+  smartSearch?: boolean;
+
+  @ValidateBoolean({ optional: true })
+  facialRecognition?: boolean;
+
+  @ValidateBoolean({ optional: true })
+  ocr?: boolean;
+
+  @ValidateBoolean({ optional: true })
+  duplicateDetection?: boolean;
+}
+
+export class UserFeaturesResponseDto {
+  smartSearch!: boolean;
+  facialRecognition!: boolean;
+  ocr!: boolean;
+  duplicateDetection!: boolean;
+}
+
+export const mapUserFeatures = (features: UserFeatures): UserFeaturesResponseDto => {
+  return features;
+};
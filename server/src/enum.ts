@@ -288,6 +288,7 @@ export enum StorageFolder {
   Profile = 'profile',
   Thumbnails = 'thumbs',
   Backups = 'backups',
+  Theme = 'theme',
 }
 
 export enum SystemMetadataKey {
@@ -301,12 +302,21 @@ export enum SystemMetadataKey {
   SystemFlags = 'system-flags',
   VersionCheckState = 'version-check-state',
   License = 'license',
+  ThemeAssets = 'theme-assets',
 }
 
 export enum UserMetadataKey {
   Preferences = 'preferences',
   License = 'license',
   Onboarding = 'onboarding',
+  Features = 'features',
+}
+
+export enum UserFeature {
+  SmartSearch = 'smartSearch',
+  FacialRecognition = 'facialRecognition',
+  Ocr = 'ocr',
+  DuplicateDetection = 'duplicateDetection',
 }
 
 export enum AssetMetadataKey {
@@ -473,6 +483,12 @@ export enum MetadataKey {
 export enum RouteKey {
   Asset = 'assets',
   User = 'users',
+  Server = 'server',
+}
+
+export enum ThemeAsset {
+  Logo = 'logo',
+  Favicon = 'favicon',
 }
 
 export enum CacheControl {
@@ -48,6 +48,7 @@ export class FileUploadInterceptor implements NestInterceptor {
   private handlers: {
     userProfile: RequestHandler;
     assetUpload: RequestHandler;
+    themeAsset: RequestHandler;
   };
   private defaultStorage: StorageEngine;
 
@@ -77,6 +78,7 @@ export class FileUploadInterceptor implements NestInterceptor {
         { name: UploadFieldName.ASSET_DATA, maxCount: 1 },
         { name: UploadFieldName.SIDECAR_DATA, maxCount: 1 },
       ]),
+      themeAsset: instance.single(UploadFieldName.THEME_DATA),
     };
   }
 
@@ -165,6 +167,10 @@ export class FileUploadInterceptor implements NestInterceptor {
         return this.handlers.userProfile;
       }
 
+      case RouteKey.Server: {
+        return this.handlers.themeAsset;
+      }
+
       default: {
         return null;
       }
@@ -8,7 +8,16 @@ select
   "duplicateId",
   "stackId",
   "visibility",
-  "smart_search"."embedding"
+  "smart_search"."embedding",
+  exists (
+    select
+    from
+      "user_metadata"
+    where
+      "user_metadata"."userId" = "asset"."ownerId"
+      and "user_metadata"."key" = 'features'
+      and "user_metadata"."value" ->> 'duplicateDetection' = 'false'
+  ) as "featureDisabled"
 from
   "asset"
   left join "smart_search" on "asset"."id" = "smart_search"."assetId"
@@ -201,6 +210,15 @@ where
   "asset"."deletedAt" is null
   and "asset"."visibility" in ('archive', 'timeline')
   and "job_status"."duplicatesDetectedAt" is null
+  and not exists (
+    select
+    from
+      "user_metadata"
+    where
+      "user_metadata"."userId" = "asset"."ownerId"
+      and "user_metadata"."key" = 'features'
+      and "user_metadata"."value" ->> 'duplicateDetection' = 'false'
+  )
 
 -- AssetJobRepository.streamForEncodeClip
 select
@@ -219,6 +237,15 @@ where
     where
       "assetId" = "asset"."id"
   )
+  and not exists (
+    select
+    from
+      "user_metadata"
+    where
+      "user_metadata"."userId" = "asset"."ownerId"
+      and "user_metadata"."key" = 'features'
+      and "user_metadata"."value" ->> 'smartSearch' = 'false'
+  )
 
 -- AssetJobRepository.getForClipEncoding
 select
@@ -239,7 +266,16 @@ select
           "asset_file"."assetId" = "asset"."id"
           and "asset_file"."type" = $1
       ) as agg
-  ) as "files"
+  ) as "files",
+  exists (
+    select
+    from
+      "user_metadata"
+    where
+      "user_metadata"."userId" = "asset"."ownerId"
+      and "user_metadata"."key" = 'features'
+      and "user_metadata"."value" ->> 'smartSearch' = 'false'
+  ) as "featureDisabled"
 from
   "asset"
 where
@@ -278,7 +314,16 @@ select
           "asset_file"."assetId" = "asset"."id"
           and "asset_file"."type" = $1
       ) as agg
-  ) as "files"
+  ) as "files",
+  exists (
+    select
+    from
+      "user_metadata"
+    where
+      "user_metadata"."userId" = "asset"."ownerId"
+      and "user_metadata"."key" = 'features'
+      and "user_metadata"."value" ->> 'facialRecognition' = 'false'
+  ) as "featureDisabled"
 from
   "asset"
   inner join "asset_exif" on "asset"."id" = "asset_exif"."assetId"
@@ -296,7 +341,16 @@ select
     where
       "asset_file"."assetId" = "asset"."id"
       and "asset_file"."type" = $1
-  ) as "previewFile"
+  ) as "previewFile",
+  exists (
+    select
+    from
+      "user_metadata"
+    where
+      "user_metadata"."userId" = "asset"."ownerId"
+      and "user_metadata"."key" = 'features'
+      and "user_metadata"."value" ->> 'ocr' = 'false'
+  ) as "featureDisabled"
 from
   "asset"
 where
@@ -497,6 +551,15 @@ where
   "asset"."visibility" != $1
   and "asset"."deletedAt" is null
   and "job_status"."previewAt" is not null
+  and not exists (
+    select
+    from
+      "user_metadata"
+    where
+      "user_metadata"."userId" = "asset"."ownerId"
+      and "user_metadata"."key" = 'features'
+      and "user_metadata"."value" ->> 'facialRecognition' = 'false'
+  )
 order by
   "asset"."fileCreatedAt" desc
 
@@ -510,6 +573,15 @@ where
   "asset_job_status"."ocrAt" is null
   and "asset"."deletedAt" is null
   and "asset"."visibility" != $1
+  and not exists (
+    select
+    from
+      "user_metadata"
+    where
+      "user_metadata"."userId" = "asset"."ownerId"
+      and "user_metadata"."key" = 'features'
+      and "user_metadata"."value" ->> 'ocr' = 'false'
+  )
 
 -- AssetJobRepository.streamForMigrationJob
 select
@@ -1064,6 +1064,7 @@ where
   "user_metadata_audit"."id" < $1
   and "user_metadata_audit"."id" > $2
   and "userId" = $3
+  and "key" != 'features'
 order by
   "user_metadata_audit"."id" asc
 
@@ -1079,5 +1080,6 @@ where
   "user_metadata"."updateId" < $1
   and "user_metadata"."updateId" > $2
   and "userId" = $3
+  and "key" != 'features'
 order by
   "user_metadata"."updateId" asc
@@ -4,12 +4,13 @@ import { jsonArrayFrom } from 'kysely/helpers/postgres';
 import { InjectKysely } from 'nestjs-kysely';
 import { Asset, columns } from 'src/database';
 import { DummyValue, GenerateSql } from 'src/decorators';
-import { AssetFileType, AssetType, AssetVisibility } from 'src/enum';
+import { AssetFileType, AssetType, AssetVisibility, UserFeature } from 'src/enum';
 import { DB } from 'src/schema';
 import { StorageAsset } from 'src/types';
 import {
   anyUuid,
   asUuid,
+  isOwnerFeatureDisabled,
   toJson,
   withDefaultVisibility,
   withExif,
@@ -18,6 +19,7 @@ import {
   withFacesAndPeople,
   withFilePath,
   withFiles,
+  withOwnerFeature,
 } from 'src/utils/database';
 
 @Injectable()
@@ -31,6 +33,7 @@ export class AssetJobRepository {
       .where('asset.id', '=', asUuid(id))
       .leftJoin('smart_search', 'asset.id', 'smart_search.assetId')
       .select(['id', 'type', 'ownerId', 'duplicateId', 'stackId', 'visibility', 'smart_search.embedding'])
+      .select((eb) => isOwnerFeatureDisabled(eb, UserFeature.DuplicateDetection).as('featureDisabled'))
       .limit(1)
       .executeTakeFirst();
   }
@@ -158,6 +161,7 @@ export class AssetJobRepository {
           .innerJoin('asset_job_status as job_status', 'job_status.assetId', 'asset.id')
           .where('job_status.duplicatesDetectedAt', 'is', null),
       )
+      .$call(withOwnerFeature(UserFeature.DuplicateDetection))
       .stream();
   }
 
@@ -168,6 +172,7 @@ export class AssetJobRepository {
       .$if(!force, (qb) =>
         qb.where((eb) => eb.not((eb) => eb.exists(eb.selectFrom('smart_search').whereRef('assetId', '=', 'asset.id')))),
       )
+      .$call(withOwnerFeature(UserFeature.SmartSearch))
       .stream();
   }
 
@@ -177,6 +182,7 @@ export class AssetJobRepository {
       .selectFrom('asset')
       .select(['asset.id', 'asset.visibility'])
       .select((eb) => withFiles(eb, AssetFileType.Preview))
+      .select((eb) => isOwnerFeatureDisabled(eb, UserFeature.SmartSearch).as('featureDisabled'))
       .where('asset.id', '=', id)
       .executeTakeFirst();
   }
@@ -189,6 +195,7 @@ export class AssetJobRepository {
       .$call(withExifInner)
       .select((eb) => withFaces(eb, true))
       .select((eb) => withFiles(eb, AssetFileType.Preview))
+      .select((eb) => isOwnerFeatureDisabled(eb, UserFeature.FacialRecognition).as('featureDisabled'))
       .where('asset.id', '=', id)
       .executeTakeFirst();
   }
@@ -197,7 +204,11 @@ export class AssetJobRepository {
   getForOcr(id: string) {
     return this.db
       .selectFrom('asset')
-      .select((eb) => ['asset.visibility', withFilePath(eb, AssetFileType.Preview).as('previewFile')])
+      .select((eb) => [
+        'asset.visibility',
+        withFilePath(eb, AssetFileType.Preview).as('previewFile'),
+        isOwnerFeatureDisabled(eb, UserFeature.Ocr).as('featureDisabled'),
+      ])
       .where('asset.id', '=', id)
       .executeTakeFirst();
   }
@@ -353,6 +364,7 @@ export class AssetJobRepository {
   streamForDetectFacesJob(force?: boolean) {
     return this.assetsWithPreviews()
       .$if(force === false, (qb) => qb.where('job_status.facesRecognizedAt', 'is', null))
+      .$call(withOwnerFeature(UserFeature.FacialRecognition))
       .select(['asset.id'])
       .orderBy('asset.fileCreatedAt', 'desc')
       .stream();
@@ -370,6 +382,7 @@ export class AssetJobRepository {
       )
       .where('asset.deletedAt', 'is', null)
       .where('asset.visibility', '!=', AssetVisibility.Hidden)
+      .$call(withOwnerFeature(UserFeature.Ocr))
       .stream();
   }
 
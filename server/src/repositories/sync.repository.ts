@@ -3,6 +3,7 @@ import { Kysely, sql } from 'kysely';
 import { InjectKysely } from 'nestjs-kysely';
 import { columns } from 'src/database';
 import { DummyValue, GenerateSql } from 'src/decorators';
+import { UserMetadataKey } from 'src/enum';
 import { DB } from 'src/schema';
 import { SyncAck } from 'src/types';
 
@@ -724,12 +725,14 @@ class UserSync extends BaseSync {
   }
 }
 
+// Features are enforced by the server and set by admins, clients don't know the key
 class UserMetadataSync extends BaseSync {
   @GenerateSql({ params: [dummyQueryOptions], stream: true })
   getDeletes(options: SyncQueryOptions) {
     return this.auditQuery('user_metadata_audit', options)
       .select(['id', 'userId', 'key'])
       .where('userId', '=', options.userId)
+      .where('key', '!=', sql.lit(UserMetadataKey.Features))
       .stream();
   }
 
@@ -742,6 +745,7 @@ class UserMetadataSync extends BaseSync {
     return this.upsertQuery('user_metadata', options)
       .select(['userId', 'key', 'value', 'updateId'])
       .where('userId', '=', options.userId)
+      .where('key', '!=', sql.lit(UserMetadataKey.Features))
       .stream();
   }
 }
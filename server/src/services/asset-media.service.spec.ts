@@ -137,6 +137,12 @@ const uploadTests = [
     valid: ['.avif', '.dng', '.heic', '.heif', '.jpeg', '.jpg', '.png', '.webp'],
     invalid: ['.arf', '.cr2', '.html', '.mov', '.mp4', '.xml'],
   },
+  {
+    label: 'theme',
+    fieldName: UploadFieldName.THEME_DATA,
+    valid: ['.avif', '.gif', '.ico', '.jpeg', '.jpg', '.png', '.webp'],
+    invalid: ['.heic', '.html', '.mp4', '.svg', '.xml'],
+  },
 ];
 
 const createDto = Object.freeze({
@@ -311,6 +317,13 @@ describe(AssetMediaService.name, () => {
       expect(mocks.storage.mkdirSync).toHaveBeenCalledWith(expect.stringContaining('/data/profile/admin_id'));
     });
 
+    it('should return theme for theme uploads', () => {
+      expect(sut.getUploadFolder(uploadFile.filename(UploadFieldName.THEME_DATA, 'logo.png'))).toEqual(
+        expect.stringContaining('/data/theme'),
+      );
+      expect(mocks.storage.mkdirSync).toHaveBeenCalledWith(expect.stringContaining('/data/theme'));
+    });
+
     it('should return upload for everything else', () => {
       expect(sut.getUploadFolder(uploadFile.filename(UploadFieldName.ASSET_DATA, 'image.jpg'))).toEqual(
         expect.stringContaining('/data/upload/admin_id/ra/nd'),
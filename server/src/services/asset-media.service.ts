@@ -77,6 +77,13 @@ export class AssetMediaService extends BaseService {
         }
         break;
       }
+
+      case UploadFieldName.THEME_DATA: {
+        if (mimeTypes.isThemeAsset(filename)) {
+          return true;
+        }
+        break;
+      }
     }
 
     this.logger.error(`Unsupported file type ${filename}`);
@@ -92,6 +99,7 @@ export class AssetMediaService extends BaseService {
       [UploadFieldName.ASSET_DATA]: extension,
       [UploadFieldName.SIDECAR_DATA]: '.xmp',
       [UploadFieldName.PROFILE_DATA]: extension,
+      [UploadFieldName.THEME_DATA]: extension,
     };
 
     return sanitize(`${file.uuid}${lookup[fieldName]}`);
@@ -104,6 +112,9 @@ export class AssetMediaService extends BaseService {
     if (fieldName === UploadFieldName.PROFILE_DATA) {
       folder = StorageCore.getFolderLocation(StorageFolder.Profile, auth.user.id);
     }
+    if (fieldName === UploadFieldName.THEME_DATA) {
+      folder = StorageCore.getBaseFolder(StorageFolder.Theme);
+    }
 
     this.storageRepository.mkdirSync(folder);
 
@@ -16,6 +16,7 @@ const hasEmbedding = {
   duplicateId: null,
   embedding: '[1, 2, 3, 4]',
   visibility: AssetVisibility.Timeline,
+  featureDisabled: false,
 };
 
 const hasDupe = {
@@ -207,6 +208,18 @@ describe(SearchService.name, () => {
       expect(mocks.logger.debug).toHaveBeenCalledWith(`Asset ${id} is not visible, skipping`);
     });
 
+    it('should skip if duplicate detection is disabled for the owner', async () => {
+      const id = hasEmbedding.id;
+      mocks.assetJob.getForSearchDuplicatesJob.mockResolvedValue({ ...hasEmbedding, featureDisabled: true });
+
+      const result = await sut.handleSearchDuplicates({ id });
+
+      expect(result).toBe(JobStatus.Skipped);
+      expect(mocks.logger.debug).toHaveBeenCalledWith(
+        `Duplicate detection is disabled for the owner of asset ${id}, skipping`,
+      );
+    });
+
     it('should fail if asset is missing embedding', async () => {
       mocks.assetJob.getForSearchDuplicatesJob.mockResolvedValue({ ...hasEmbedding, embedding: null });
 
@@ -83,6 +83,11 @@ export class DuplicateService extends BaseService {
       return JobStatus.Skipped;
     }
 
+    if (asset.featureDisabled) {
+      this.logger.debug(`Duplicate detection is disabled for the owner of asset ${id}, skipping`);
+      return JobStatus.Skipped;
+    }
+
     if (!asset.embedding) {
       this.logger.debug(`Asset ${id} is missing embedding`);
       return JobStatus.Failed;
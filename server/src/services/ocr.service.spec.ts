@@ -15,6 +15,7 @@ describe(OcrService.name, () => {
     mocks.assetJob.getForOcr.mockResolvedValue({
       visibility: AssetVisibility.Timeline,
       previewFile: assetStub.image.files[1].path,
+      featureDisabled: false,
     });
   });
 
@@ -70,7 +71,11 @@ describe(OcrService.name, () => {
     });
 
     it('should skip assets without a resize path', async () => {
-      mocks.assetJob.getForOcr.mockResolvedValue({ visibility: AssetVisibility.Timeline, previewFile: null });
+      mocks.assetJob.getForOcr.mockResolvedValue({
+        visibility: AssetVisibility.Timeline,
+        previewFile: null,
+        featureDisabled: false,
+      });
 
       expect(await sut.handleOcr({ id: assetStub.noResizePath.id })).toEqual(JobStatus.Failed);
 
@@ -166,6 +171,7 @@ describe(OcrService.name, () => {
       mocks.assetJob.getForOcr.mockResolvedValue({
         visibility: AssetVisibility.Hidden,
         previewFile: assetStub.image.files[1].path,
+        featureDisabled: false,
       });
 
       expect(await sut.handleOcr({ id: assetStub.livePhotoMotionAsset.id })).toEqual(JobStatus.Skipped);
@@ -174,6 +180,19 @@ describe(OcrService.name, () => {
       expect(mocks.ocr.upsert).not.toHaveBeenCalled();
     });
 
+    it('should skip assets of users with ocr disabled', async () => {
+      mocks.assetJob.getForOcr.mockResolvedValue({
+        visibility: AssetVisibility.Timeline,
+        previewFile: assetStub.image.files[1].path,
+        featureDisabled: true,
+      });
+
+      expect(await sut.handleOcr({ id: assetStub.image.id })).toEqual(JobStatus.Skipped);
+
+      expect(mocks.machineLearning.ocr).not.toHaveBeenCalled();
+      expect(mocks.ocr.upsert).not.toHaveBeenCalled();
+    });
+
     it('should fail if asset could not be found', async () => {
       mocks.assetJob.getForOcr.mockResolvedValue(void 0);
 
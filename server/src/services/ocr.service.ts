@@ -49,7 +49,7 @@ export class OcrService extends BaseService {
       return JobStatus.Failed;
     }
 
-    if (asset.visibility === AssetVisibility.Hidden) {
+    if (asset.visibility === AssetVisibility.Hidden || asset.featureDisabled) {
       return JobStatus.Skipped;
     }
 
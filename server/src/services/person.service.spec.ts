@@ -717,16 +717,36 @@ describe(PersonService.name, () => {
     });
 
     it('should skip when no resize path', async () => {
-      mocks.assetJob.getForDetectFacesJob.mockResolvedValue({ ...assetStub.noResizePath, files: [] });
+      mocks.assetJob.getForDetectFacesJob.mockResolvedValue({
+        ...assetStub.noResizePath,
+        files: [],
+        featureDisabled: false,
+      });
       await sut.handleDetectFaces({ id: assetStub.noResizePath.id });
       expect(mocks.machineLearning.detectFaces).not.toHaveBeenCalled();
     });
 
+    it('should skip assets of users with facial recognition disabled', async () => {
+      mocks.assetJob.getForDetectFacesJob.mockResolvedValue({
+        ...assetStub.image,
+        files: [assetStub.image.files[1]],
+        featureDisabled: true,
+      });
+
+      await expect(sut.handleDetectFaces({ id: assetStub.image.id })).resolves.toBe(JobStatus.Skipped);
+
+      expect(mocks.machineLearning.detectFaces).not.toHaveBeenCalled();
+    });
+
     it('should handle no results', async () => {
       const start = Date.now();
 
       mocks.machineLearning.detectFaces.mockResolvedValue({ imageHeight: 500, imageWidth: 400, faces: [] });
-      mocks.assetJob.getForDetectFacesJob.mockResolvedValue({ ...assetStub.image, files: [assetStub.image.files[1]] });
+      mocks.assetJob.getForDetectFacesJob.mockResolvedValue({
+        ...assetStub.image,
+        files: [assetStub.image.files[1]],
+        featureDisabled: false,
+      });
       await sut.handleDetectFaces({ id: assetStub.image.id });
       expect(mocks.machineLearning.detectFaces).toHaveBeenCalledWith(
         '/uploads/user-id/thumbs/path.jpg',
@@ -746,7 +766,11 @@ describe(PersonService.name, () => {
     it('should create a face with no person and queue recognition job', async () => {
       mocks.machineLearning.detectFaces.mockResolvedValue(detectFaceMock);
       mocks.search.searchFaces.mockResolvedValue([{ ...faceStub.face1, distance: 0.7 }]);
-      mocks.assetJob.getForDetectFacesJob.mockResolvedValue({ ...assetStub.image, files: [assetStub.image.files[1]] });
+      mocks.assetJob.getForDetectFacesJob.mockResolvedValue({
+        ...assetStub.image,
+        files: [assetStub.image.files[1]],
+        featureDisabled: false,
+      });
       mocks.person.refreshFaces.mockResolvedValue();
 
       await sut.handleDetectFaces({ id: assetStub.image.id });
@@ -766,6 +790,7 @@ describe(PersonService.name, () => {
         ...assetStub.image,
         faces: [faceStub.primaryFace1],
         files: [assetStub.image.files[1]],
+        featureDisabled: false,
       });
 
       await sut.handleDetectFaces({ id: assetStub.image.id });
@@ -782,6 +807,7 @@ describe(PersonService.name, () => {
         ...assetStub.image,
         faces: [faceStub.primaryFace1],
         files: [assetStub.image.files[1]],
+        featureDisabled: false,
       });
       mocks.person.refreshFaces.mockResolvedValue();
 
@@ -802,6 +828,7 @@ describe(PersonService.name, () => {
         ...assetStub.image,
         faces: [faceStub.fromExif1],
         files: [assetStub.image.files[1]],
+        featureDisabled: false,
       });
       mocks.person.refreshFaces.mockResolvedValue();
 
@@ -823,6 +850,7 @@ describe(PersonService.name, () => {
         ...assetStub.image,
         faces: [faceStub.fromExif2],
         files: [assetStub.image.files[1]],
+        featureDisabled: false,
       });
 
       await sut.handleDetectFaces({ id: assetStub.image.id });
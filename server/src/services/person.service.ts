@@ -311,7 +311,7 @@ export class PersonService extends BaseService {
       return JobStatus.Failed;
     }
 
-    if (asset.visibility === AssetVisibility.Hidden) {
+    if (asset.visibility === AssetVisibility.Hidden || asset.featureDisabled) {
       return JobStatus.Skipped;
     }
 
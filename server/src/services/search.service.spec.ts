@@ -1,6 +1,7 @@
 import { BadRequestException } from '@nestjs/common';
 import { mapAsset } from 'src/dtos/asset-response.dto';
 import { SearchSuggestionType } from 'src/dtos/search.dto';
+import { UserMetadataKey } from 'src/enum';
 import { SearchService } from 'src/services/search.service';
 import { assetStub } from 'test/fixtures/asset.stub';
 import { authStub } from 'test/fixtures/auth.stub';
@@ -205,6 +206,7 @@ describe(SearchService.name, () => {
     beforeEach(() => {
       mocks.search.searchSmart.mockResolvedValue({ hasNextPage: false, items: [] });
       mocks.machineLearning.encodeText.mockResolvedValue('[1, 2, 3]');
+      mocks.user.getMetadata.mockResolvedValue([]);
     });
 
     it('should raise a BadRequestException if machine learning is disabled', async () => {
@@ -227,6 +229,17 @@ describe(SearchService.name, () => {
       );
     });
 
+    it('should raise a BadRequestException if smart search is disabled for the user', async () => {
+      mocks.user.getMetadata.mockResolvedValue([{ key: UserMetadataKey.Features, value: { smartSearch: false } }]);
+
+      await expect(sut.searchSmart(authStub.user1, { query: 'test' })).rejects.toThrowError(
+        new BadRequestException('Smart search is not enabled for this user'),
+      );
+
+      expect(mocks.user.getMetadata).toHaveBeenCalledWith(authStub.user1.user.id);
+      expect(mocks.machineLearning.encodeText).not.toHaveBeenCalled();
+    });
+
     it('should work', async () => {
       await sut.searchSmart(authStub.user1, { query: 'test' });
 
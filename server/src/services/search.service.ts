@@ -23,6 +23,7 @@ import { BaseService } from 'src/services/base.service';
 import { requireElevatedPermission } from 'src/utils/access';
 import { getMyPartnerIds } from 'src/utils/asset.util';
 import { isSmartSearchEnabled } from 'src/utils/misc';
+import { getUserFeatures } from 'src/utils/user-features';
 
 @Injectable()
 export class SearchService extends BaseService {
@@ -112,6 +113,11 @@ export class SearchService extends BaseService {
       throw new BadRequestException('Smart search is not enabled');
     }
 
+    const { smartSearch } = getUserFeatures(await this.userRepository.getMetadata(auth.user.id));
+    if (!smartSearch) {
+      throw new BadRequestException('Smart search is not enabled for this user');
+    }
+
     const userIds = this.getUserIdsToSearch(auth);
     let embedding;
     if (dto.query) {
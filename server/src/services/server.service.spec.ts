@@ -1,4 +1,5 @@
-import { SystemMetadataKey } from 'src/enum';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { CacheControl, JobName, SystemMetadataKey, ThemeAsset } from 'src/enum';
 import { ServerService } from 'src/services/server.service';
 import { newTestService, ServiceMocks } from 'test/utils';
 
@@ -172,6 +173,93 @@ describe(ServerService.name, () => {
     });
   });
 
+  describe('getTheme', () => {
+    it('should respond the theme without assets', async () => {
+      await expect(sut.getTheme()).resolves.toEqual({
+        customCss: '',
+        productName: '',
+        primaryColor: '',
+        logoUrl: null,
+        faviconUrl: null,
+      });
+    });
+
+    it('should include versioned urls for uploaded assets', async () => {
+      mocks.systemMetadata.get.mockImplementation((key) =>
+        Promise.resolve(
+          key === SystemMetadataKey.ThemeAssets
+            ? { [ThemeAsset.Logo]: { path: '/data/theme/logo.png', updatedAt: '2025-01-01T00:00:00.000Z' } }
+            : null,
+        ),
+      );
+
+      await expect(sut.getTheme()).resolves.toMatchObject({
+        logoUrl: '/api/server/theme/logo?v=1735689600000',
+        faviconUrl: null,
+      });
+    });
+  });
+
+  describe('getThemeAsset', () => {
+    it('should throw if the asset was not uploaded', async () => {
+      await expect(sut.getThemeAsset(ThemeAsset.Favicon)).rejects.toBeInstanceOf(NotFoundException);
+    });
+
+    it('should return the uploaded file', async () => {
+      mocks.systemMetadata.get.mockResolvedValue({
+        [ThemeAsset.Favicon]: { path: '/data/theme/favicon.ico', updatedAt: '2025-01-01T00:00:00.000Z' },
+      });
+
+      await expect(sut.getThemeAsset(ThemeAsset.Favicon)).resolves.toEqual({
+        path: '/data/theme/favicon.ico',
+        contentType: 'image/x-icon',
+        cacheControl: CacheControl.PrivateWithCache,
+      });
+    });
+  });
+
+  describe('createThemeAsset', () => {
+    it('should store the uploaded file and delete the previous one', async () => {
+      mocks.systemMetadata.get.mockResolvedValue({
+        [ThemeAsset.Logo]: { path: '/data/theme/old.png', updatedAt: '2025-01-01T00:00:00.000Z' },
+      });
+
+      await sut.createThemeAsset(ThemeAsset.Logo, { path: '/data/theme/new.png' } as Express.Multer.File);
+
+      expect(mocks.systemMetadata.set).toHaveBeenCalledWith(SystemMetadataKey.ThemeAssets, {
+        [ThemeAsset.Logo]: { path: '/data/theme/new.png', updatedAt: expect.any(String) },
+      });
+      expect(mocks.job.queue).toHaveBeenCalledWith({
+        name: JobName.FileDelete,
+        data: { files: ['/data/theme/old.png'] },
+      });
+    });
+  });
+
+  describe('deleteThemeAsset', () => {
+    it('should throw if the asset was not uploaded', async () => {
+      await expect(sut.deleteThemeAsset(ThemeAsset.Logo)).rejects.toBeInstanceOf(BadRequestException);
+      expect(mocks.job.queue).not.toHaveBeenCalled();
+    });
+
+    it('should remove the asset and delete the file', async () => {
+      mocks.systemMetadata.get.mockResolvedValue({
+        [ThemeAsset.Logo]: { path: '/data/theme/logo.png', updatedAt: '2025-01-01T00:00:00.000Z' },
+        [ThemeAsset.Favicon]: { path: '/data/theme/favicon.ico', updatedAt: '2025-01-01T00:00:00.000Z' },
+      });
+
+      await sut.deleteThemeAsset(ThemeAsset.Logo);
+
+      expect(mocks.systemMetadata.set).toHaveBeenCalledWith(SystemMetadataKey.ThemeAssets, {
+        [ThemeAsset.Favicon]: { path: '/data/theme/favicon.ico', updatedAt: '2025-01-01T00:00:00.000Z' },
+      });
+      expect(mocks.job.queue).toHaveBeenCalledWith({
+        name: JobName.FileDelete,
+        data: { files: ['/data/theme/logo.png'] },
+      });
+    });
+  });
+
   describe('getStats', () => {
     it('should total up usage by user', async () => {
       mocks.user.getUserStats.mockResolvedValue([
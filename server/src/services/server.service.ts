@@ -12,12 +12,15 @@ import {
   ServerPingResponse,
   ServerStatsResponseDto,
   ServerStorageResponseDto,
+  ServerThemeDto,
   UsageByUserDto,
 } from 'src/dtos/server.dto';
-import { StorageFolder, SystemMetadataKey } from 'src/enum';
+import { CacheControl, JobName, StorageFolder, SystemMetadataKey, ThemeAsset } from 'src/enum';
 import { UserStatsQueryResponse } from 'src/repositories/user.repository';
 import { BaseService } from 'src/services/base.service';
+import { ThemeAssets } from 'src/types';
 import { asHumanReadable } from 'src/utils/bytes';
+import { ImmichFileResponse } from 'src/utils/file';
 import { mimeTypes } from 'src/utils/mime-types';
 import {
   isDuplicateDetectionEnabled,
@@ -26,6 +29,11 @@ import {
   isSmartSearchEnabled,
 } from 'src/utils/misc';
 
+const getThemeAssetUrl = (asset: ThemeAsset, assets: ThemeAssets) => {
+  const file = assets[asset];
+  return file ? `/api/server/theme/${asset}?v=${new Date(file.updatedAt).getTime()}` : null;
+};
+
 @Injectable()
 export class ServerService extends BaseService {
   @OnEvent({ name: 'AppBootstrap' })
@@ -109,9 +117,63 @@ export class ServerService extends BaseService {
     };
   }
 
-  async getTheme() {
+  async getTheme(): Promise<ServerThemeDto> {
     const { theme } = await this.getConfig({ withCache: false });
-    return theme;
+    const assets = await this.getThemeAssets();
+
+    return {
+      ...theme,
+      logoUrl: getThemeAssetUrl(ThemeAsset.Logo, assets),
+      faviconUrl: getThemeAssetUrl(ThemeAsset.Favicon, assets),
+    };
+  }
+
+  async getThemeAsset(asset: ThemeAsset): Promise<ImmichFileResponse> {
+    const assets = await this.getThemeAssets();
+    const file = assets[asset];
+    if (!file) {
+      throw new NotFoundException(`No ${asset} has been uploaded`);
+    }
+
+    // the url changes with every upload, so the file itself can be cached
+    return new ImmichFileResponse({
+      path: file.path,
+      contentType: mimeTypes.lookup(file.path),
+      cacheControl: CacheControl.PrivateWithCache,
+    });
+  }
+
+  async createThemeAsset(asset: ThemeAsset, file: Express.Multer.File): Promise<ServerThemeDto> {
+    const assets = await this.getThemeAssets();
+    const oldPath = assets[asset]?.path;
+
+    await this.systemMetadataRepository.set(SystemMetadataKey.ThemeAssets, {
+      ...assets,
+      [asset]: { path: file.path, updatedAt: new Date().toISOString() },
+    });
+
+    if (oldPath) {
+      await this.jobRepository.queue({ name: JobName.FileDelete, data: { files: [oldPath] } });
+    }
+
+    return this.getTheme();
+  }
+
+  async deleteThemeAsset(asset: ThemeAsset): Promise<void> {
+    const assets = await this.getThemeAssets();
+    const file = assets[asset];
+    if (!file) {
+      throw new BadRequestException(`Can't delete a missing ${asset}`);
+    }
+
+    delete assets[asset];
+    await this.systemMetadataRepository.set(SystemMetadataKey.ThemeAssets, assets);
+    await this.jobRepository.queue({ name: JobName.FileDelete, data: { files: [file.path] } });
+  }
+
+  private async getThemeAssets(): Promise<ThemeAssets> {
+    const assets = await this.systemMetadataRepository.get(SystemMetadataKey.ThemeAssets);
+    return { ...assets };
   }
 
   async getSystemConfig(): Promise<ServerConfigDto> {
@@ -190,7 +190,11 @@ describe(SmartInfoService.name, () => {
     });
 
     it('should skip assets without a resize path', async () => {
-      mocks.assetJob.getForClipEncoding.mockResolvedValue({ ...assetStub.noResizePath, files: [] });
+      mocks.assetJob.getForClipEncoding.mockResolvedValue({
+        ...assetStub.noResizePath,
+        files: [],
+        featureDisabled: false,
+      });
 
       expect(await sut.handleEncodeClip({ id: assetStub.noResizePath.id })).toEqual(JobStatus.Failed);
 
@@ -200,7 +204,11 @@ describe(SmartInfoService.name, () => {
 
     it('should save the returned objects', async () => {
       mocks.machineLearning.encodeImage.mockResolvedValue('[0.01, 0.02, 0.03]');
-      mocks.assetJob.getForClipEncoding.mockResolvedValue({ ...assetStub.image, files: [assetStub.image.files[1]] });
+      mocks.assetJob.getForClipEncoding.mockResolvedValue({
+        ...assetStub.image,
+        files: [assetStub.image.files[1]],
+        featureDisabled: false,
+      });
 
       expect(await sut.handleEncodeClip({ id: assetStub.image.id })).toEqual(JobStatus.Success);
 
@@ -215,6 +223,7 @@ describe(SmartInfoService.name, () => {
       mocks.assetJob.getForClipEncoding.mockResolvedValue({
         ...assetStub.livePhotoMotionAsset,
         files: [assetStub.image.files[1]],
+        featureDisabled: false,
       });
 
       expect(await sut.handleEncodeClip({ id: assetStub.livePhotoMotionAsset.id })).toEqual(JobStatus.Skipped);
@@ -223,6 +232,19 @@ describe(SmartInfoService.name, () => {
       expect(mocks.search.upsert).not.toHaveBeenCalled();
     });
 
+    it('should skip assets of users with smart search disabled', async () => {
+      mocks.assetJob.getForClipEncoding.mockResolvedValue({
+        ...assetStub.image,
+        files: [assetStub.image.files[1]],
+        featureDisabled: true,
+      });
+
+      expect(await sut.handleEncodeClip({ id: assetStub.image.id })).toEqual(JobStatus.Skipped);
+
+      expect(mocks.machineLearning.encodeImage).not.toHaveBeenCalled();
+      expect(mocks.search.upsert).not.toHaveBeenCalled();
+    });
+
     it('should fail if asset could not be found', async () => {
       mocks.assetJob.getForClipEncoding.mockResolvedValue(void 0);
 
@@ -235,7 +257,11 @@ describe(SmartInfoService.name, () => {
     it('should wait for database', async () => {
       mocks.machineLearning.encodeImage.mockResolvedValue('[0.01, 0.02, 0.03]');
       mocks.database.isBusy.mockReturnValue(true);
-      mocks.assetJob.getForClipEncoding.mockResolvedValue({ ...assetStub.image, files: [assetStub.image.files[1]] });
+      mocks.assetJob.getForClipEncoding.mockResolvedValue({
+        ...assetStub.image,
+        files: [assetStub.image.files[1]],
+        featureDisabled: false,
+      });
 
       expect(await sut.handleEncodeClip({ id: assetStub.image.id })).toEqual(JobStatus.Success);
 
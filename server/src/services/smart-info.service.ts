@@ -104,7 +104,7 @@ export class SmartInfoService extends BaseService {
       return JobStatus.Failed;
     }
 
-    if (asset.visibility === AssetVisibility.Hidden) {
+    if (asset.visibility === AssetVisibility.Hidden || asset.featureDisabled) {
       return JobStatus.Skipped;
     }
 
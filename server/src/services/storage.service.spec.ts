@@ -37,6 +37,7 @@ describe(StorageService.name, () => {
           'encoded-video': true,
           library: true,
           profile: true,
+          theme: true,
           thumbs: true,
           upload: true,
         },
@@ -47,6 +48,7 @@ describe(StorageService.name, () => {
       expect(mocks.storage.mkdirSync).toHaveBeenCalledWith(expect.stringContaining('/data/thumbs'));
       expect(mocks.storage.mkdirSync).toHaveBeenCalledWith(expect.stringContaining('/data/upload'));
       expect(mocks.storage.mkdirSync).toHaveBeenCalledWith(expect.stringContaining('/data/backups'));
+      expect(mocks.storage.mkdirSync).toHaveBeenCalledWith(expect.stringContaining('/data/theme'));
       expect(mocks.storage.createFile).toHaveBeenCalledWith(
         expect.stringContaining('/data/encoded-video/.immich'),
         expect.any(Buffer),
@@ -71,6 +73,10 @@ describe(StorageService.name, () => {
         expect.stringContaining('/data/backups/.immich'),
         expect.any(Buffer),
       );
+      expect(mocks.storage.createFile).toHaveBeenCalledWith(
+        expect.stringContaining('/data/theme/.immich'),
+        expect.any(Buffer),
+      );
     });
 
     it('should enable mount folder checking for a new folder type', async () => {
@@ -80,6 +86,7 @@ describe(StorageService.name, () => {
           'encoded-video': true,
           library: false,
           profile: true,
+          theme: true,
           thumbs: true,
           upload: true,
         },
@@ -102,6 +109,7 @@ describe(StorageService.name, () => {
           'encoded-video': true,
           library: true,
           profile: true,
+          theme: true,
           thumbs: true,
           upload: true,
         },
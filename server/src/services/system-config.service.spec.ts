@@ -185,6 +185,8 @@ const updatedConfig = Object.freeze<SystemConfig>({
   },
   theme: {
     customCss: '',
+    productName: '',
+    primaryColor: '',
   },
   library: {
     scan: {
@@ -1,6 +1,6 @@
 import { BadRequestException, ForbiddenException } from '@nestjs/common';
 import { mapUserAdmin } from 'src/dtos/user.dto';
-import { JobName, UserStatus } from 'src/enum';
+import { JobName, UserFeature, UserMetadataKey, UserStatus } from 'src/enum';
 import { UserAdminService } from 'src/services/user-admin.service';
 import { authStub } from 'test/fixtures/auth.stub';
 import { userStub } from 'test/fixtures/user.stub';
@@ -178,4 +178,61 @@ describe(UserAdminService.name, () => {
       expect(mocks.user.restore).toHaveBeenCalledWith(userStub.user1.id);
     });
   });
+
+  describe('getFeatures', () => {
+    it('should enable every feature by default', async () => {
+      mocks.user.getMetadata.mockResolvedValue([]);
+
+      await expect(sut.getFeatures(authStub.admin, userStub.user1.id)).resolves.toEqual({
+        smartSearch: true,
+        facialRecognition: true,
+        ocr: true,
+        duplicateDetection: true,
+      });
+    });
+
+    it('should return the stored features', async () => {
+      mocks.user.getMetadata.mockResolvedValue([
+        { key: UserMetadataKey.Features, value: { [UserFeature.Ocr]: false } },
+      ]);
+
+      await expect(sut.getFeatures(authStub.admin, userStub.user1.id)).resolves.toEqual({
+        smartSearch: true,
+        facialRecognition: true,
+        ocr: false,
+        duplicateDetection: true,
+      });
+    });
+  });
+
+  describe('updateFeatures', () => {
+    it('should throw error if user could not be found', async () => {
+      mocks.user.get.mockResolvedValue(void 0);
+
+      await expect(sut.updateFeatures(authStub.admin, 'missing', { ocr: false })).rejects.toThrowError(
+        BadRequestException,
+      );
+      expect(mocks.user.upsertMetadata).not.toHaveBeenCalled();
+    });
+
+    it('should merge the update into the stored features', async () => {
+      mocks.user.getMetadata.mockResolvedValue([
+        { key: UserMetadataKey.Features, value: { [UserFeature.Ocr]: false } },
+      ]);
+
+      await expect(
+        sut.updateFeatures(authStub.admin, userStub.user1.id, { smartSearch: false, facialRecognition: undefined }),
+      ).resolves.toEqual({
+        smartSearch: false,
+        facialRecognition: true,
+        ocr: false,
+        duplicateDetection: true,
+      });
+
+      expect(mocks.user.upsertMetadata).toHaveBeenCalledWith(userStub.user1.id, {
+        key: UserMetadataKey.Features,
+        value: { smartSearch: false, facialRecognition: true, ocr: false, duplicateDetection: true },
+      });
+    });
+  });
 });
@@ -1,8 +1,10 @@
 import { BadRequestException, ForbiddenException, Injectable } from '@nestjs/common';
+import _ from 'lodash';
 import { SALT_ROUNDS } from 'src/constants';
 import { AssetStatsDto, AssetStatsResponseDto, mapStats } from 'src/dtos/asset.dto';
 import { AuthDto } from 'src/dtos/auth.dto';
 import { SessionResponseDto, mapSession } from 'src/dtos/session.dto';
+import { UserFeaturesResponseDto, UserFeaturesUpdateDto, mapUserFeatures } from 'src/dtos/user-features.dto';
 import { UserPreferencesResponseDto, UserPreferencesUpdateDto, mapPreferences } from 'src/dtos/user-preferences.dto';
 import {
   UserAdminCreateDto,
@@ -16,6 +18,7 @@ import { JobName, UserMetadataKey, UserStatus } from 'src/enum';
 import { UserFindOptions } from 'src/repositories/user.repository';
 import { BaseService } from 'src/services/base.service';
 import { getPreferences, getPreferencesPartial, mergePreferences } from 'src/utils/preferences';
+import { getUserFeatures } from 'src/utils/user-features';
 
 @Injectable()
 export class UserAdminService extends BaseService {
@@ -150,6 +153,22 @@ export class UserAdminService extends BaseService {
     return mapPreferences(newPreferences);
   }
 
+  async getFeatures(auth: AuthDto, id: string): Promise<UserFeaturesResponseDto> {
+    await this.findOrFail(id, { withDeleted: true });
+    const metadata = await this.userRepository.getMetadata(id);
+    return mapUserFeatures(getUserFeatures(metadata));
+  }
+
+  async updateFeatures(auth: AuthDto, id: string, dto: UserFeaturesUpdateDto): Promise<UserFeaturesResponseDto> {
+    await this.findOrFail(id, { withDeleted: false });
+    const metadata = await this.userRepository.getMetadata(id);
+    const features = { ...getUserFeatures(metadata), ..._.omitBy(dto, _.isUndefined) };
+
+    await this.userRepository.upsertMetadata(id, { key: UserMetadataKey.Features, value: features });
+
+    return mapUserFeatures(features);
+  }
+
   private async findOrFail(id: string, options: UserFindOptions) {
     const user = await this.userRepository.get(id, options);
     if (!user) {
@@ -16,7 +16,9 @@ import {
   StorageFolder,
   SyncEntityType,
   SystemMetadataKey,
+  ThemeAsset,
   TranscodeTarget,
+  UserFeature,
   UserMetadataKey,
   VideoCodec,
 } from 'src/enum';
@@ -493,6 +495,8 @@ export type MemoriesState = {
   lastOnThisDayDate: string;
 };
 export type MediaLocation = { location: string };
+export type ThemeAssetFile = { path: string; updatedAt: string };
+export type ThemeAssets = Partial<Record<ThemeAsset, ThemeAssetFile>>;
 
 export interface SystemMetadata extends Record<SystemMetadataKey, Record<string, any>> {
   [SystemMetadataKey.AdminOnboarding]: { isOnboarded: boolean };
@@ -505,6 +509,7 @@ export interface SystemMetadata extends Record<SystemMetadataKey, Record<string,
   [SystemMetadataKey.SystemFlags]: DeepPartial<SystemFlags>;
   [SystemMetadataKey.VersionCheckState]: VersionCheckMetadata;
   [SystemMetadataKey.MemoriesState]: MemoriesState;
+  [SystemMetadataKey.ThemeAssets]: ThemeAssets;
 }
 
 export interface UserPreferences {
@@ -552,6 +557,8 @@ export interface UserPreferences {
   };
 }
 
+export type UserFeatures = Record<UserFeature, boolean>;
+
 export type UserMetadataItem<T extends keyof UserMetadata = UserMetadataKey> = {
   key: T;
   value: UserMetadata[T];
@@ -561,4 +568,5 @@ export interface UserMetadata extends Record<UserMetadataKey, Record<string, any
   [UserMetadataKey.Preferences]: DeepPartial<UserPreferences>;
   [UserMetadataKey.License]: { licenseKey: string; activationKey: string; activatedAt: string };
   [UserMetadataKey.Onboarding]: { isOnboarded: boolean };
+  [UserMetadataKey.Features]: Partial<UserFeatures>;
 }
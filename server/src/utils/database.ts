@@ -16,7 +16,14 @@ import { jsonArrayFrom, jsonObjectFrom } from 'kysely/helpers/postgres';
 import { parse } from 'pg-connection-string';
 import postgres, { Notice, PostgresError } from 'postgres';
 import { columns, Exif, Person } from 'src/database';
-import { AssetFileType, AssetVisibility, DatabaseExtension, DatabaseSslMode } from 'src/enum';
+import {
+  AssetFileType,
+  AssetVisibility,
+  DatabaseExtension,
+  DatabaseSslMode,
+  UserFeature,
+  UserMetadataKey,
+} from 'src/enum';
 import { AssetSearchBuilderOptions } from 'src/repositories/search.repository';
 import { DB } from 'src/schema';
 import { DatabaseConnectionParams, VectorExtension } from 'src/types';
@@ -161,6 +168,22 @@ export function withDefaultVisibility<O>(qb: SelectQueryBuilder<DB, 'asset', O>)
   return qb.where('asset.visibility', 'in', [sql.lit(AssetVisibility.Archive), sql.lit(AssetVisibility.Timeline)]);
 }
 
+// Whether the owner of the asset has the feature turned off in their user metadata
+export function isOwnerFeatureDisabled(eb: ExpressionBuilder<DB, 'asset'>, feature: UserFeature) {
+  return eb.exists(
+    eb
+      .selectFrom('user_metadata')
+      .whereRef('user_metadata.userId', '=', 'asset.ownerId')
+      .where('user_metadata.key', '=', sql.lit(UserMetadataKey.Features))
+      .where(sql`"user_metadata"."value" ->> ${sql.lit(feature)}`, '=', sql.lit('false')),
+  );
+}
+
+export function withOwnerFeature(feature: UserFeature) {
+  return <O>(qb: SelectQueryBuilder<DB, 'asset', O>) =>
+    qb.where((eb) => eb.not(isOwnerFeatureDisabled(eb, feature)));
+}
+
 // TODO come up with a better query that only selects the fields we need
 export function withExif<O>(qb: SelectQueryBuilder<DB, 'asset', O>) {
   return qb
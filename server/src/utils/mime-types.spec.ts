@@ -131,6 +131,26 @@ describe('mimeTypes', () => {
     }
   });
 
+  describe('theme', () => {
+    it('should contain only lowercase mime types', () => {
+      const keys = Object.keys(mimeTypes.theme);
+      expect(keys).toEqual(keys.map((mimeType) => mimeType.toLowerCase()));
+
+      const values = Object.values(mimeTypes.theme).flat();
+      expect(values).toEqual(values.map((mimeType) => mimeType.toLowerCase()));
+    });
+
+    it('should not allow svg', () => {
+      expect(mimeTypes.isThemeAsset('logo.svg')).toBe(false);
+    });
+
+    for (const [extension, v] of Object.entries(mimeTypes.theme)) {
+      it(`should lookup ${extension}`, () => {
+        expect(mimeTypes.lookup(`test.${extension}`)).toEqual(v[0]);
+      });
+    }
+  });
+
   describe('image', () => {
     it('should contain only lowercase mime types', () => {
       const keys = Object.keys(mimeTypes.image);
@@ -73,6 +73,11 @@ const profile: Record<string, string[]> = Object.fromEntries(
   Object.entries(image).filter(([key]) => profileExtensions.has(key)),
 );
 
+const theme: Record<string, string[]> = {
+  ...webSupportedImage,
+  '.ico': ['image/x-icon'],
+};
+
 const video: Record<string, string[]> = {
   '.3gp': ['video/3gpp'],
   '.3gpp': ['video/3gpp'],
@@ -98,7 +103,7 @@ const sidecar: Record<string, string[]> = {
   '.xmp': ['application/xml', 'text/xml'],
 };
 
-const types = { ...image, ...video, ...sidecar };
+const types = { ...image, ...video, ...sidecar, ...theme };
 
 const isType = (filename: string, r: Record<string, string[]>) => extname(filename).toLowerCase() in r;
 
@@ -113,6 +118,7 @@ export const mimeTypes = {
   image,
   profile,
   sidecar,
+  theme,
   video,
   raw,
 
@@ -121,6 +127,7 @@ export const mimeTypes = {
   isWebSupportedImage: (filename: string) => isType(filename, webSupportedImage),
   isProfile: (filename: string) => isType(filename, profile),
   isSidecar: (filename: string) => isType(filename, sidecar),
+  isThemeAsset: (filename: string) => isType(filename, theme),
   isVideo: (filename: string) => isType(filename, video),
   isRaw: (filename: string) => isType(filename, raw),
   lookup,
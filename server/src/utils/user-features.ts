@@ -0,0 +1,15 @@
+import { UserFeature, UserMetadataKey } from 'src/enum';
+import { UserFeatures, UserMetadataItem } from 'src/types';
+
+// Every feature is available unless an admin has turned it off for the user
+export const getUserFeatures = (metadata: UserMetadataItem[]): UserFeatures => {
+  const item = metadata.find(
+    (item): item is UserMetadataItem<UserMetadataKey.Features> => item.key === UserMetadataKey.Features,
+  );
+  const features = {} as UserFeatures;
+  for (const feature of Object.values(UserFeature)) {
+    features[feature] = item?.value[feature] ?? true;
+  }
+
+  return features;
+};
@@ -0,0 +1,266 @@
+// =============================================================================
+// Abuse Protection
+// =============================================================================
+// Guards the unauthenticated endpoints (free signup, portal login) against
+// scripts: rate limits per IP and email, disposable-domain blocking, email
+// verification before a free account is created, and a captcha hook.
+
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import type { Request, Response, NextFunction } from 'express';
+import { RATE_LIMITS, SIGNUP_PROTECTION, CAPTCHA } from './config';
+import type { RateLimitBucket } from './config';
+import { db, getMeta, setMeta } from './db';
+import { rateLimitRepository, emailVerificationRepository } from './repositories';
+import type { EmailVerification } from './types';
+
+const POW_SECRET_META_KEY = 'abuse.pow_secret';
+
+// Well-known throwaway mail providers; extend via BLOCKED_EMAIL_DOMAINS
+const DISPOSABLE_DOMAINS = new Set([
+  '10minutemail.com', '1secmail.com', '1secmail.net', 'burnermail.io', 'discard.email',
+  'dispostable.com', 'einrot.com', 'emailfake.com', 'emailondeck.com', 'fakeinbox.com',
+  'getnada.com', 'guerrillamail.com', 'guerrillamail.de', 'guerrillamail.net', 'guerrillamail.org',
+  'inboxkitten.com', 'mail.tm', 'mailcatch.com', 'maildrop.cc', 'mailinator.com',
+  'mailnesia.com', 'mintemail.com', 'moakt.com', 'mohmal.com', 'mytemp.email',
+  'nada.email', 'sharklasers.com', 'spambog.com', 'spamgourmet.com', 'temp-mail.org',
+  'tempinbox.com', 'tempmail.com', 'tempmailo.com', 'tempr.email', 'throwawaymail.com',
+  'trashmail.com', 'trashmail.de', 'wegwerfmail.de', 'wegwerfmail.net', 'yopmail.com',
+  'yopmail.fr',
+]);
+
+// =============================================================================
+// Rate Limiting
+// =============================================================================
+
+function hit(key: string, max: number, windowMs: number): { allowed: boolean; retryAfterSec: number } {
+  return db.transaction(() => {
+    const now = Date.now();
+    const existing = rateLimitRepository.get(key);
+
+    if (!existing || new Date(existing.resetAt).getTime() <= now) {
+      rateLimitRepository.save({ key, count: 1, resetAt: new Date(now + windowMs).toISOString() });
+      return { allowed: max >= 1, retryAfterSec: 0 };
+    }
+
+    const retryAfterSec = Math.ceil((new Date(existing.resetAt).getTime() - now) / 1000);
+    if (existing.count >= max) {
+      return { allowed: false, retryAfterSec };
+    }
+
+    existing.count++;
+    rateLimitRepository.save(existing);
+    return { allowed: true, retryAfterSec: 0 };
+  }).immediate();
+}
+
+export function checkRateLimit(
+  bucket: RateLimitBucket,
+  subject: string
+): { allowed: boolean; retryAfterSec: number } {
+  const { max, windowMinutes } = RATE_LIMITS[bucket];
+  return hit(`${bucket}:${subject.toLowerCase()}`, max, windowMinutes * 60 * 1000);
+}
+
+export function sendRateLimited(res: Response, retryAfterSec: number) {
+  res.set('Retry-After', String(retryAfterSec));
+  return res.status(429).json({ error: 'Too many requests, please try again later', retryAfter: retryAfterSec });
+}
+
+// Per-IP limit as middleware; per-email limits are checked in the handlers
+export function rateLimitByIp(bucket: RateLimitBucket) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const result = checkRateLimit(bucket, req.ip || 'unknown');
+    if (!result.allowed) {
+      console.warn(`Rate limit ${bucket} hit by ${req.ip}`);
+      return sendRateLimited(res, result.retryAfterSec);
+    }
+    next();
+  };
+}
+
+// =============================================================================
+// Email Checks
+// =============================================================================
+
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+export function isValidEmail(email: string): boolean {
+  return email.length <= 254 && /^[^\s@]+@[^\s@]+\.[^\s@]{2,}$/.test(email);
+}
+
+export function isBlockedEmailDomain(email: string): boolean {
+  const domain = email.split('@')[1]?.toLowerCase();
+  if (!domain) return true;
+
+  const matches = (blocked: string) => domain === blocked || domain.endsWith(`.${blocked}`);
+  if (SIGNUP_PROTECTION.blockedDomains.some(matches)) return true;
+  if (!SIGNUP_PROTECTION.blockDisposableDomains) return false;
+
+  // Check the domain and each parent domain against the list
+  const parts = domain.split('.');
+  for (let i = 0; i < parts.length - 1; i++) {
+    if (DISPOSABLE_DOMAINS.has(parts.slice(i).join('.'))) return true;
+  }
+  return false;
+}
+
+// =============================================================================
+// Email Verification
+// =============================================================================
+
+export function createEmailVerification(
+  email: string,
+  signup: { referralCode?: string; ip?: string } = {}
+): EmailVerification {
+  // One open link per address - a new request replaces the old one
+  for (const existing of emailVerificationRepository.listBy('email', email)) {
+    emailVerificationRepository.delete(existing.token);
+  }
+
+  const now = Date.now();
+  const verification: EmailVerification = {
+    token: randomBytes(32).toString('hex'),
+    email,
+    purpose: 'free_signup',
+    created: new Date(now).toISOString(),
+    expiresAt: new Date(now + SIGNUP_PROTECTION.verificationHours * 60 * 60 * 1000).toISOString(),
+    referralCode: signup.referralCode,
+    ip: signup.ip,
+  };
+  return emailVerificationRepository.save(verification);
+}
+
+// Single use: the token is deleted whether or not it is still valid
+export function consumeEmailVerification(token: string): EmailVerification | null {
+  return db.transaction(() => {
+    const verification = emailVerificationRepository.get(token);
+    if (!verification) return null;
+    emailVerificationRepository.delete(token);
+    return new Date(verification.expiresAt).getTime() > Date.now() ? verification : null;
+  }).immediate();
+}
+
+// =============================================================================
+// Captcha / Proof of Work
+// =============================================================================
+
+function getPowSecret(): string {
+  let secret = getMeta(POW_SECRET_META_KEY);
+  if (!secret) {
+    secret = randomBytes(32).toString('hex');
+    setMeta(POW_SECRET_META_KEY, secret);
+  }
+  return secret;
+}
+
+function signChallenge(payload: string): string {
+  return createHmac('sha256', getPowSecret()).update(payload).digest('hex');
+}
+
+function leadingZeroBits(hash: Buffer): number {
+  let bits = 0;
+  for (const byte of hash) {
+    if (byte === 0) {
+      bits += 8;
+      continue;
+    }
+    bits += Math.clz32(byte) - 24;
+    break;
+  }
+  return bits;
+}
+
+// What the signup page needs to render or solve the configured captcha
+export function getCaptchaChallenge():
+  | { provider: 'none' }
+  | { provider: 'pow'; challenge: string; difficulty: number }
+  | { provider: 'turnstile' | 'hcaptcha'; siteKey: string } {
+  if (CAPTCHA.provider === 'pow') {
+    const expiresAt = Date.now() + CAPTCHA.powTtlMinutes * 60 * 1000;
+    const payload = `${expiresAt}.${randomBytes(12).toString('hex')}`;
+    return { provider: 'pow', challenge: `${payload}.${signChallenge(payload)}`, difficulty: CAPTCHA.powDifficulty };
+  }
+  if (CAPTCHA.provider === 'turnstile' || CAPTCHA.provider === 'hcaptcha') {
+    return { provider: CAPTCHA.provider, siteKey: CAPTCHA.siteKey };
+  }
+  return { provider: 'none' };
+}
+
+function verifyProofOfWork(challenge: string, nonce: string): boolean {
+  const [expiresAt, random, signature] = challenge.split('.');
+  if (!expiresAt || !random || !signature) return false;
+
+  const expected = Buffer.from(signChallenge(`${expiresAt}.${random}`), 'hex');
+  const actual = Buffer.from(signature, 'hex');
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) return false;
+  if (parseInt(expiresAt, 10) < Date.now()) return false;
+
+  const hash = createHash('sha256').update(`${challenge}:${nonce}`).digest();
+  if (leadingZeroBits(hash) < CAPTCHA.powDifficulty) return false;
+
+  // Each solved challenge is good for one signup
+  return hit(`pow:${random}`, 1, CAPTCHA.powTtlMinutes * 60 * 1000).allowed;
+}
+
+async function verifyCaptchaToken(token: string, ip: string | undefined): Promise<boolean> {
+  const url = CAPTCHA.provider === 'turnstile'
+    ? 'https://challenges.cloudflare.com/turnstile/v0/siteverify'
+    : 'https://api.hcaptcha.com/siteverify';
+
+  const body = new URLSearchParams({ secret: CAPTCHA.secretKey, response: token });
+  if (ip) body.set('remoteip', ip);
+
+  try {
+    const response = await fetch(url, { method: 'POST', body });
+    const result = await response.json() as { success?: boolean };
+    return result.success === true;
+  } catch (err) {
+    console.error(`${CAPTCHA.provider} verification failed:`, err);
+    return false;
+  }
+}
+
+/**
+ * Check the captcha solution sent with a signup: `{ challenge, nonce }` for
+ * proof of work or `{ captchaToken }` for Turnstile/hCaptcha.
+ */
+export async function verifyCaptcha(
+  body: { challenge?: string; nonce?: string; captchaToken?: string },
+  ip: string | undefined
+): Promise<boolean> {
+  switch (CAPTCHA.provider) {
+    case 'pow':
+      return typeof body.challenge === 'string' && typeof body.nonce === 'string' &&
+        verifyProofOfWork(body.challenge, body.nonce);
+    case 'turnstile':
+    case 'hcaptcha':
+      return typeof body.captchaToken === 'string' && verifyCaptchaToken(body.captchaToken, ip);
+    default:
+      return true;
+  }
+}
+
+// =============================================================================
+// Cleanup
+// =============================================================================
+
+export function cleanupAbuseProtection(): { rateLimits: number; verifications: number } {
+  const now = Date.now();
+  let rateLimits = 0;
+  let verifications = 0;
+
+  for (const counter of rateLimitRepository.list()) {
+    if (new Date(counter.resetAt).getTime() <= now && rateLimitRepository.delete(counter.key)) {
+      rateLimits++;
+    }
+  }
+  for (const verification of emailVerificationRepository.list()) {
+    if (new Date(verification.expiresAt).getTime() <= now && emailVerificationRepository.delete(verification.token)) {
+      verifications++;
+    }
+  }
+
+  return { rateLimits, verifications };
+}
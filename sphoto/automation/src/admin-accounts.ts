@@ -0,0 +1,215 @@
+// =============================================================================
+// Admin Accounts & Roles
+// =============================================================================
+// Named admin accounts, each with its own API key and a role:
+//   viewer    read-only access to the admin API
+//   support   customer operations (instances, migrations, exports, maintenance)
+//   billing   plans, quotas, dunning and the grace policy
+//   owner     everything, including deletions and admin account management
+//
+// The legacy ADMIN_API_KEY keeps working as a built-in owner, so an existing
+// setup can create the first accounts. Unset it once named owners exist.
+
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import type { Request, Response, NextFunction } from 'express';
+import { env } from './config';
+import { adminAccountRepository } from './repositories';
+import type { AdminAccount, AdminRole } from './types';
+
+export const ADMIN_ROLES: AdminRole[] = ['viewer', 'support', 'billing', 'owner'];
+
+const API_KEY_PREFIX = 'sph_';
+const NAME_PATTERN = /^[a-z0-9._-]{2,32}$/;
+const LAST_USED_WRITE_INTERVAL_MS = 60 * 1000;
+
+// Stand-in account for requests authenticated with env.ADMIN_API_KEY
+const ENV_ADMIN: AdminAccount = {
+  id: 'env',
+  name: 'ADMIN_API_KEY',
+  role: 'owner',
+  apiKeyHash: '',
+  apiKeyPrefix: '',
+  created: new Date(0).toISOString(),
+  createdBy: 'env',
+};
+
+export type AdminAccountInfo = Omit<AdminAccount, 'apiKeyHash'>;
+
+function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+function generateApiKey(): string {
+  return API_KEY_PREFIX + randomBytes(24).toString('hex');
+}
+
+function matchesEnvKey(key: string): boolean {
+  if (!env.ADMIN_API_KEY) return false;
+  // Compare hashes so the lengths match for timingSafeEqual
+  return timingSafeEqual(
+    Buffer.from(hashApiKey(key), 'hex'),
+    Buffer.from(hashApiKey(env.ADMIN_API_KEY), 'hex')
+  );
+}
+
+export function toAdminAccountInfo(account: AdminAccount): AdminAccountInfo {
+  const { apiKeyHash: _hash, ...info } = account;
+  return info;
+}
+
+function countActiveOwners(): number {
+  return adminAccountRepository.list().filter(a => a.role === 'owner' && !a.disabled).length;
+}
+
+// =============================================================================
+// Authentication
+// =============================================================================
+
+export function authenticateAdminKey(key: string): AdminAccount | null {
+  if (matchesEnvKey(key)) return ENV_ADMIN;
+
+  const account = adminAccountRepository.findBy('api_key_hash', hashApiKey(key));
+  if (!account || account.disabled) return null;
+
+  const lastUsed = account.lastUsedAt ? new Date(account.lastUsedAt).getTime() : 0;
+  if (Date.now() - lastUsed > LAST_USED_WRITE_INTERVAL_MS) {
+    adminAccountRepository.update(account.id, a => {
+      a.lastUsedAt = new Date().toISOString();
+    });
+  }
+
+  return account;
+}
+
+export const adminAuth = (req: Request, res: Response, next: NextFunction) => {
+  const key = req.headers['x-api-key'];
+  const admin = typeof key === 'string' && key ? authenticateAdminKey(key) : null;
+  if (!admin) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  (req as any).admin = admin;
+  next();
+};
+
+export function getRequestAdmin(req: Request): AdminAccount | undefined {
+  return (req as any).admin;
+}
+
+/**
+ * Restrict a route to the given roles. Owners always pass; routes without
+ * requireRole are open to every role, including viewers.
+ */
+export function requireRole(...roles: AdminRole[]) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const admin = getRequestAdmin(req);
+    if (!admin) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+    if (admin.role !== 'owner' && !roles.includes(admin.role)) {
+      return res.status(403).json({ error: `Requires role ${['owner', ...roles].join(' or ')}` });
+    }
+    next();
+  };
+}
+
+// =============================================================================
+// Account Management
+// =============================================================================
+
+export function listAdminAccounts(): AdminAccountInfo[] {
+  return adminAccountRepository.list().map(toAdminAccountInfo);
+}
+
+export function createAdminAccount(
+  input: { name: string; email?: string; role: AdminRole },
+  createdBy: AdminAccount
+): { success: boolean; account?: AdminAccountInfo; apiKey?: string; error?: string } {
+  const name = input.name?.trim().toLowerCase();
+  if (!name || !NAME_PATTERN.test(name)) {
+    return { success: false, error: 'Name must be 2-32 characters (a-z, 0-9, ., _, -)' };
+  }
+  if (!ADMIN_ROLES.includes(input.role)) {
+    return { success: false, error: `Invalid role. Must be one of: ${ADMIN_ROLES.join(', ')}` };
+  }
+  if (adminAccountRepository.findBy('name', name)) {
+    return { success: false, error: 'An admin with this name already exists' };
+  }
+
+  const apiKey = generateApiKey();
+  const account: AdminAccount = {
+    id: crypto.randomUUID(),
+    name,
+    email: input.email || undefined,
+    role: input.role,
+    apiKeyHash: hashApiKey(apiKey),
+    apiKeyPrefix: apiKey.slice(0, API_KEY_PREFIX.length + 6),
+    created: new Date().toISOString(),
+    createdBy: createdBy.name,
+  };
+  adminAccountRepository.save(account);
+
+  console.log(`Admin account ${name} (${input.role}) created by ${createdBy.name}`);
+  return { success: true, account: toAdminAccountInfo(account), apiKey };
+}
+
+export function updateAdminAccount(
+  id: string,
+  changes: { role?: AdminRole; disabled?: boolean; email?: string },
+  actor: AdminAccount
+): { success: boolean; account?: AdminAccountInfo; error?: string } {
+  const account = adminAccountRepository.get(id);
+  if (!account) {
+    return { success: false, error: 'Admin account not found' };
+  }
+  if (changes.role !== undefined && !ADMIN_ROLES.includes(changes.role)) {
+    return { success: false, error: `Invalid role. Must be one of: ${ADMIN_ROLES.join(', ')}` };
+  }
+  if (id === actor.id && (changes.role !== undefined || changes.disabled !== undefined)) {
+    return { success: false, error: 'You cannot change your own role or disable yourself' };
+  }
+
+  const losesOwner = account.role === 'owner' && !account.disabled &&
+    ((changes.role !== undefined && changes.role !== 'owner') || changes.disabled === true);
+  if (losesOwner && !env.ADMIN_API_KEY && countActiveOwners() <= 1) {
+    return { success: false, error: 'At least one active owner is required' };
+  }
+
+  const updated = adminAccountRepository.update(id, a => {
+    if (changes.role !== undefined) a.role = changes.role;
+    if (changes.disabled !== undefined) a.disabled = changes.disabled;
+    if (changes.email !== undefined) a.email = changes.email || undefined;
+  });
+
+  return { success: true, account: toAdminAccountInfo(updated!) };
+}
+
+export function rotateAdminApiKey(id: string): { success: boolean; apiKey?: string; error?: string } {
+  const apiKey = generateApiKey();
+  const updated = adminAccountRepository.update(id, a => {
+    a.apiKeyHash = hashApiKey(apiKey);
+    a.apiKeyPrefix = apiKey.slice(0, API_KEY_PREFIX.length + 6);
+  });
+  if (!updated) {
+    return { success: false, error: 'Admin account not found' };
+  }
+
+  return { success: true, apiKey };
+}
+
+export function deleteAdminAccount(id: string, actor: AdminAccount): { success: boolean; error?: string } {
+  const account = adminAccountRepository.get(id);
+  if (!account) {
+    return { success: false, error: 'Admin account not found' };
+  }
+  if (id === actor.id) {
+    return { success: false, error: 'You cannot delete yourself' };
+  }
+  if (account.role === 'owner' && !account.disabled && !env.ADMIN_API_KEY && countActiveOwners() <= 1) {
+    return { success: false, error: 'At least one active owner is required' };
+  }
+
+  adminAccountRepository.delete(id);
+  console.log(`Admin account ${account.name} deleted by ${actor.name}`);
+  return { success: true };
+}
@@ -0,0 +1,319 @@
+// =============================================================================
+// Alert Channels
+// =============================================================================
+// Where admin-facing alerts are delivered. Each channel receives the alert
+// types listed in its routing rule. Customer emails (storage warnings,
+// inactivity reminders) are sent by alerts.ts directly and never routed here.
+//
+// Webhook requests are signed: X-SPhoto-Signature is
+// sha256=HMAC-SHA256(secret, `${X-SPhoto-Timestamp}.${body}`) in hex.
+
+import { createHmac, randomBytes } from 'crypto';
+import { env } from './config';
+import { alertChannelRepository } from './repositories';
+import { sendEmail } from './mailer';
+import { isValidEmail, normalizeEmail } from './abuse-protection';
+import { ALERT_TYPES } from './alerts';
+import type { AlertType, AlertSubjectType } from './alerts';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type AlertChannelType = 'email' | 'webhook' | 'ntfy' | 'discord' | 'slack';
+
+export type AlertSeverity = 'info' | 'warning' | 'critical';
+
+export interface AlertChannel {
+  id: string;
+  name: string;
+  type: AlertChannelType;
+  enabled: boolean;
+  alertTypes: AlertType[];       // Routing rule: alert types this channel receives
+  target: string;                // Email address, or the URL to post to
+  secret?: string;               // Webhook signing secret or ntfy access token
+  created: string;
+  lastDeliveryAt?: string;
+  lastError?: string;            // Cleared by the next successful delivery
+}
+
+// Channel as shown in the admin API, without the secret
+export type AlertChannelInfo = Omit<AlertChannel, 'secret'> & { hasSecret: boolean };
+
+export interface AlertNotification {
+  type: AlertType;
+  severity: AlertSeverity;
+  subjectType: AlertSubjectType;
+  subjectId: string;
+  title: string;
+  message: string;
+  fields: Record<string, string>;
+  triggeredAt: string;
+  test?: boolean;
+}
+
+export const ALERT_CHANNEL_TYPES: AlertChannelType[] = ['email', 'webhook', 'ntfy', 'discord', 'slack'];
+
+// Routing while no channel is configured: what used to reach the admin inbox
+const DEFAULT_ADMIN_ALERT_TYPES: AlertType[] = ['storage_100', 'instance_down', 'churn_risk', 'backup_failed', 'migration_failed'];
+
+const DELIVERY_TIMEOUT_MS = 10000;
+
+const NTFY_PRIORITIES: Record<AlertSeverity, string> = { info: '3', warning: '4', critical: '5' };
+const NTFY_TAGS: Record<AlertSeverity, string> = { info: 'information_source', warning: 'warning', critical: 'rotating_light' };
+const DISCORD_COLORS: Record<AlertSeverity, number> = { info: 0x4f46e5, warning: 0xca8a04, critical: 0xdc2626 };
+
+// =============================================================================
+// Channel Management
+// =============================================================================
+
+function generateId(): string {
+  return `chn-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`;
+}
+
+function toAlertChannelInfo(channel: AlertChannel): AlertChannelInfo {
+  const { secret, ...info } = channel;
+  return { ...info, hasSecret: Boolean(secret) };
+}
+
+function validateAlertTypes(types: unknown): AlertType[] | null {
+  if (!Array.isArray(types)) return null;
+  if (types.some(t => !ALERT_TYPES.includes(t as AlertType))) return null;
+  return [...new Set(types as AlertType[])];
+}
+
+function validateTarget(type: AlertChannelType, target: unknown): string | null {
+  if (typeof target !== 'string' || !target.trim()) return null;
+  if (type === 'email') {
+    const email = normalizeEmail(target);
+    return isValidEmail(email) ? email : null;
+  }
+  try {
+    const url = new URL(target.trim());
+    return url.protocol === 'https:' || url.protocol === 'http:' ? url.toString() : null;
+  } catch {
+    return null;
+  }
+}
+
+export function listAlertChannels(): AlertChannelInfo[] {
+  return alertChannelRepository.list().map(toAlertChannelInfo);
+}
+
+export function getAlertChannel(id: string): AlertChannelInfo | null {
+  const channel = alertChannelRepository.get(id);
+  return channel && toAlertChannelInfo(channel);
+}
+
+/**
+ * Webhook channels get a generated signing secret unless one is given. It is
+ * returned here once and never listed again.
+ */
+export function createAlertChannel(input: {
+  name: string;
+  type: AlertChannelType;
+  target: string;
+  alertTypes: AlertType[];
+  secret?: string;
+  enabled?: boolean;
+}): { success: boolean; channel?: AlertChannelInfo; secret?: string; error?: string } {
+  if (!input.name) {
+    return { success: false, error: 'name is required' };
+  }
+  if (!ALERT_CHANNEL_TYPES.includes(input.type)) {
+    return { success: false, error: `type must be one of: ${ALERT_CHANNEL_TYPES.join(', ')}` };
+  }
+  const target = validateTarget(input.type, input.target);
+  if (!target) {
+    return { success: false, error: input.type === 'email' ? 'target must be an email address' : 'target must be an http(s) URL' };
+  }
+  const alertTypes = validateAlertTypes(input.alertTypes);
+  if (!alertTypes) {
+    return { success: false, error: `alertTypes must be a list of: ${ALERT_TYPES.join(', ')}` };
+  }
+
+  const secret = input.secret || (input.type === 'webhook' ? randomBytes(32).toString('hex') : undefined);
+  const channel = alertChannelRepository.save({
+    id: generateId(),
+    name: input.name,
+    type: input.type,
+    enabled: input.enabled ?? true,
+    alertTypes,
+    target,
+    secret,
+    created: new Date().toISOString(),
+  });
+
+  return { success: true, channel: toAlertChannelInfo(channel), secret: input.type === 'webhook' ? secret : undefined };
+}
+
+// The type is fixed; an empty secret keeps the current one
+export function updateAlertChannel(
+  id: string,
+  input: { name?: string; target?: string; alertTypes?: AlertType[]; secret?: string; enabled?: boolean }
+): { success: boolean; channel?: AlertChannelInfo; error?: string } {
+  const existing = alertChannelRepository.get(id);
+  if (!existing) return { success: false, error: 'Channel not found' };
+
+  const target = input.target === undefined ? existing.target : validateTarget(existing.type, input.target);
+  if (!target) {
+    return { success: false, error: existing.type === 'email' ? 'target must be an email address' : 'target must be an http(s) URL' };
+  }
+  const alertTypes = input.alertTypes === undefined ? existing.alertTypes : validateAlertTypes(input.alertTypes);
+  if (!alertTypes) {
+    return { success: false, error: `alertTypes must be a list of: ${ALERT_TYPES.join(', ')}` };
+  }
+
+  const channel = alertChannelRepository.update(id, c => {
+    if (input.name) c.name = input.name;
+    if (input.secret) c.secret = input.secret;
+    if (input.enabled !== undefined) c.enabled = input.enabled;
+    c.target = target;
+    c.alertTypes = alertTypes;
+  });
+  return { success: true, channel: toAlertChannelInfo(channel!) };
+}
+
+export function deleteAlertChannel(id: string): boolean {
+  return alertChannelRepository.delete(id);
+}
+
+// =============================================================================
+// Delivery
+// =============================================================================
+
+function plainText(notification: AlertNotification): string {
+  const fields = Object.entries(notification.fields).map(([name, value]) => `${name}: ${value}`);
+  return [notification.message, ...fields].join('\n');
+}
+
+function titleOf(notification: AlertNotification): string {
+  return notification.test ? `[Test] ${notification.title}` : notification.title;
+}
+
+async function post(url: string, body: string, headers: Record<string, string>): Promise<void> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers,
+    body,
+    signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}`);
+  }
+}
+
+async function deliverToChannel(channel: AlertChannel, notification: AlertNotification): Promise<void> {
+  switch (channel.type) {
+    case 'email':
+      await sendEmail(channel.target, 'admin_alert', { notification });
+      return;
+
+    case 'webhook': {
+      const body = JSON.stringify({ event: 'alert', alert: notification });
+      const timestamp = Math.floor(Date.now() / 1000).toString();
+      const signature = createHmac('sha256', channel.secret || '').update(`${timestamp}.${body}`).digest('hex');
+      await post(channel.target, body, {
+        'Content-Type': 'application/json',
+        'User-Agent': 'SPhoto-Alerts',
+        'X-SPhoto-Event': 'alert',
+        'X-SPhoto-Timestamp': timestamp,
+        'X-SPhoto-Signature': `sha256=${signature}`,
+      });
+      return;
+    }
+
+    // ntfy reads the title and priority from headers, the body is the message
+    case 'ntfy':
+      await post(channel.target, plainText(notification), {
+        'Title': titleOf(notification),
+        'Priority': NTFY_PRIORITIES[notification.severity],
+        'Tags': NTFY_TAGS[notification.severity],
+        ...(channel.secret ? { 'Authorization': `Bearer ${channel.secret}` } : {}),
+      });
+      return;
+
+    case 'discord':
+      await post(channel.target, JSON.stringify({
+        username: 'SPhoto',
+        embeds: [{
+          title: titleOf(notification),
+          description: notification.message,
+          color: DISCORD_COLORS[notification.severity],
+          fields: Object.entries(notification.fields).map(([name, value]) => ({ name, value, inline: true })),
+          timestamp: notification.triggeredAt,
+        }],
+      }), { 'Content-Type': 'application/json' });
+      return;
+
+    // Incoming webhook format, also understood by Mattermost and Rocket.Chat
+    case 'slack':
+      await post(channel.target, JSON.stringify({
+        text: `*${titleOf(notification)}*\n${plainText(notification)}`,
+      }), { 'Content-Type': 'application/json' });
+      return;
+  }
+}
+
+async function deliverAndRecord(channel: AlertChannel, notification: AlertNotification): Promise<{ success: boolean; error?: string }> {
+  try {
+    await deliverToChannel(channel, notification);
+    alertChannelRepository.update(channel.id, c => {
+      c.lastDeliveryAt = new Date().toISOString();
+      c.lastError = undefined;
+    });
+    return { success: true };
+  } catch (err) {
+    const error = (err as Error).message;
+    console.error(`Alert delivery to channel ${channel.name} failed:`, error);
+    alertChannelRepository.update(channel.id, c => {
+      c.lastError = error;
+    });
+    return { success: false, error };
+  }
+}
+
+/**
+ * Send an alert to every enabled channel whose routing rule includes its
+ * type. A failing channel doesn't stop delivery to the others. Until the
+ * first channel is created, the default routing emails fallbackEmail.
+ */
+export async function deliverAlert(
+  notification: AlertNotification,
+  fallbackEmail = env.ADMIN_EMAIL
+): Promise<{ delivered: number; failed: number }> {
+  const channels = alertChannelRepository.list();
+
+  if (channels.length === 0) {
+    if (!DEFAULT_ADMIN_ALERT_TYPES.includes(notification.type)) return { delivered: 0, failed: 0 };
+    await sendEmail(fallbackEmail, 'admin_alert', { notification });
+    return { delivered: 1, failed: 0 };
+  }
+
+  let delivered = 0;
+  let failed = 0;
+  for (const channel of channels) {
+    if (!channel.enabled || !channel.alertTypes.includes(notification.type)) continue;
+    const result = await deliverAndRecord(channel, notification);
+    if (result.success) delivered++;
+    else failed++;
+  }
+  return { delivered, failed };
+}
+
+export async function testAlertChannel(id: string): Promise<{ success: boolean; error?: string }> {
+  const channel = alertChannelRepository.get(id);
+  if (!channel) return { success: false, error: 'Channel not found' };
+
+  return deliverAndRecord(channel, {
+    type: channel.alertTypes[0] || 'instance_down',
+    severity: 'info',
+    subjectType: 'instance',
+    subjectId: 'test',
+    title: `Test alert for ${channel.name}`,
+    message: 'This channel is set up correctly.',
+    fields: { Channel: channel.name, Type: channel.type },
+    triggeredAt: new Date().toISOString(),
+    test: true,
+  });
+}
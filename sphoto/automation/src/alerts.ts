@@ -1,28 +1,45 @@
 // =============================================================================
 // Usage Alerts System
 // =============================================================================
+// Evaluates the same alert rules for siloed instances, users on the shared
+// instances and the shared instances themselves. Customers get storage and
+// inactivity emails; admin alerts go out through alert-channels.ts.
 
-import { existsSync, readFileSync, writeFileSync, mkdirSync } from 'fs';
+import { existsSync } from 'fs';
 import { join } from 'path';
-import { Resend } from 'resend';
-import { env, INSTANCES_DIR, EXTERNAL_STORAGE_PATH } from './config';
+import { env, INSTANCES_DIR, EXTERNAL_STORAGE_PATH, DEPLOYMENT_MODE, SHARED_INSTANCES } from './config';
 import { listInstances, getInstance, getDirectorySize } from './instances';
-import type { InstanceMetadata } from './types';
-
-const resend = new Resend(env.RESEND_API_KEY);
+import { listSharedUsers, checkSharedInstanceHealth, effectiveQuotaGB } from './shared-users';
+import { immichRequest, adminKey } from './immich-api';
+import { listDailyStats } from './analytics';
+import { alertHistoryRepository } from './repositories';
+import { sendEmail } from './mailer';
+import { deliverAlert } from './alert-channels';
+import type { AlertNotification, AlertSeverity } from './alert-channels';
+import { recordAlertSent } from './metrics';
+import type { InstanceMetadata, Locale, SharedUser } from './types';
 
 // =============================================================================
 // Types
 // =============================================================================
 
-export type AlertType = 
+export type AlertType =
   | 'storage_80'
   | 'storage_90'
   | 'storage_100'
   | 'inactive'
   | 'churn_risk'
   | 'instance_down'
-  | 'backup_failed';
+  | 'backup_failed'
+  | 'migration_failed';
+
+export const ALERT_TYPES: AlertType[] = [
+  'storage_80', 'storage_90', 'storage_100', 'inactive', 'churn_risk', 'instance_down', 'backup_failed',
+  'migration_failed',
+];
+
+// A siloed instance, a user on a shared instance, or a shared instance itself
+export type AlertSubjectType = 'instance' | 'shared_user' | 'shared_instance';
 
 export interface AlertSettings {
   emailAlerts: boolean;
@@ -34,19 +51,45 @@ export interface AlertSettings {
 export interface AlertHistory {
   lastAlerts: Record<AlertType, string | null>;
   settings: AlertSettings;
+  // Shared users have no per-instance upload stats, so activity is a change
+  // in Immich's quotaUsageInBytes
+  usage?: { bytes: number; changedAt: string };
+  // Failed backupDatabase jobs already reported (Immich keeps failed jobs)
+  backupFailures?: number;
 }
 
 export interface AlertSummary {
-  instanceId: string;
+  instanceId: string;            // Instance id, shared user visible id or 'free'/'paid'
+  subjectType: AlertSubjectType;
   type: AlertType;
   triggeredAt: string;
   recipient: 'customer' | 'admin' | 'both';
   details: Record<string, unknown>;
 }
 
+interface AlertSubject {
+  type: AlertSubjectType;
+  id: string;
+  historyKey: string;
+  label: string;                 // Shown in admin alerts
+  email?: string;                // Customer receiving storage and inactivity emails
+  locale?: Locale;
+  instanceName?: string;         // Subdomain shown in customer emails
+}
+
+// What the checks found out about a subject; missing means not checked
+interface AlertObservations {
+  storage?: { usedBytes: number; limitBytes: number; percentage: number };
+  down?: { message: string };
+  daysSinceActivity?: number;
+  backupFailures?: number;
+}
+
 // Default cooldown period (24 hours)
 const ALERT_COOLDOWN_MS = 24 * 60 * 60 * 1000;
 
+const GB = 1024 * 1024 * 1024;
+
 const DEFAULT_SETTINGS: AlertSettings = {
   emailAlerts: true,
   storageThresholds: [80, 90, 100],
@@ -54,35 +97,37 @@ const DEFAULT_SETTINGS: AlertSettings = {
   churnRiskDays: 30,
 };
 
+const SEVERITIES: Record<AlertType, AlertSeverity> = {
+  storage_80: 'warning',
+  storage_90: 'warning',
+  storage_100: 'critical',
+  inactive: 'info',
+  churn_risk: 'warning',
+  instance_down: 'critical',
+  backup_failed: 'critical',
+  migration_failed: 'critical',
+};
+
+type JobCounts = { failed: number };
+
 // =============================================================================
 // Alert History Management
 // =============================================================================
+// Siloed instances keep their id as key; shared subjects are prefixed so they
+// can't collide with an instance id
 
-function getAlertsPath(instanceId: string): string {
-  return join(INSTANCES_DIR, instanceId, 'alerts.json');
+function sharedUserHistoryKey(visibleId: string): string {
+  return `shared_user:${visibleId}`;
 }
 
-export function getAlertHistory(instanceId: string): AlertHistory {
-  const alertsPath = getAlertsPath(instanceId);
-  
-  if (!existsSync(alertsPath)) {
-    return {
-      lastAlerts: {
-        storage_80: null,
-        storage_90: null,
-        storage_100: null,
-        inactive: null,
-        churn_risk: null,
-        instance_down: null,
-        backup_failed: null,
-      },
-      settings: { ...DEFAULT_SETTINGS },
-    };
-  }
-  
-  try {
-    return JSON.parse(readFileSync(alertsPath, 'utf-8'));
-  } catch {
+function sharedInstanceHistoryKey(instance: 'free' | 'paid'): string {
+  return `shared:${instance}`;
+}
+
+export function getAlertHistory(key: string): AlertHistory {
+  const stored = alertHistoryRepository.get(key);
+
+  if (!stored) {
     return {
       lastAlerts: {
         storage_80: null,
@@ -92,21 +137,28 @@ export function getAlertHistory(instanceId: string): AlertHistory {
         churn_risk: null,
         instance_down: null,
         backup_failed: null,
+        migration_failed: null,
       },
       settings: { ...DEFAULT_SETTINGS },
     };
   }
+
+  return {
+    lastAlerts: stored.lastAlerts,
+    settings: stored.settings,
+    usage: stored.usage,
+    backupFailures: stored.backupFailures,
+  };
 }
 
-function saveAlertHistory(instanceId: string, history: AlertHistory): void {
-  const alertsPath = getAlertsPath(instanceId);
-  writeFileSync(alertsPath, JSON.stringify(history, null, 2));
+function saveAlertHistory(key: string, history: AlertHistory): void {
+  alertHistoryRepository.save({ instanceId: key, ...history });
 }
 
-export function updateAlertSettings(instanceId: string, settings: Partial<AlertSettings>): AlertHistory {
-  const history = getAlertHistory(instanceId);
+export function updateAlertSettings(key: string, settings: Partial<AlertSettings>): AlertHistory {
+  const history = getAlertHistory(key);
   history.settings = { ...history.settings, ...settings };
-  saveAlertHistory(instanceId, history);
+  saveAlertHistory(key, history);
   return history;
 }
 
@@ -120,27 +172,31 @@ function isAlertOnCooldown(lastAlertTime: string | null): boolean {
   return Date.now() - lastTime < ALERT_COOLDOWN_MS;
 }
 
+function daysSince(date: string | Date): number {
+  return Math.floor((Date.now() - new Date(date).getTime()) / (1000 * 60 * 60 * 24));
+}
+
 async function getStorageUsage(instanceId: string): Promise<{ usedBytes: number; limitBytes: number; percentage: number }> {
   const instance = getInstance(instanceId);
   if (!instance) {
     return { usedBytes: 0, limitBytes: 0, percentage: 0 };
   }
-  
+
   let uploadsPath: string;
   if (EXTERNAL_STORAGE_PATH) {
     uploadsPath = join(EXTERNAL_STORAGE_PATH, instanceId, 'uploads');
   } else {
     uploadsPath = join(INSTANCES_DIR, instanceId, 'uploads');
   }
-  
+
   if (!existsSync(uploadsPath)) {
-    return { usedBytes: 0, limitBytes: instance.storage_gb * 1024 * 1024 * 1024, percentage: 0 };
+    return { usedBytes: 0, limitBytes: instance.storage_gb * GB, percentage: 0 };
   }
-  
+
   const usedBytes = await getDirectorySize(uploadsPath);
-  const limitBytes = instance.storage_gb * 1024 * 1024 * 1024;
+  const limitBytes = instance.storage_gb * GB;
   const percentage = Math.round((usedBytes / limitBytes) * 100);
-  
+
   return { usedBytes, limitBytes, percentage };
 }
 
@@ -149,10 +205,10 @@ async function checkInstanceHealth(instanceId: string, domain: string): Promise<
   if (!instance || instance.status !== 'active') {
     return true; // Don't alert for stopped instances
   }
-  
+
   const url = `https://${instanceId}.${domain}`;
   const endpoint = instance.platform === 'nextcloud' ? '/status.php' : '/api/server/ping';
-  
+
   try {
     const response = await fetch(`${url}${endpoint}`, {
       method: 'GET',
@@ -165,351 +221,358 @@ async function checkInstanceHealth(instanceId: string, domain: string): Promise<
 }
 
 function getLastActivityDate(instance: InstanceMetadata): Date | null {
-  // Check for last upload activity from analytics if available
-  const statsPath = join(INSTANCES_DIR, '..', 'stats', 'daily');
-  
-  if (existsSync(statsPath)) {
-    // Get most recent stats file
-    const { readdirSync } = require('fs');
-    const files = readdirSync(statsPath)
-      .filter((f: string) => f.endsWith('.json'))
-      .sort()
-      .reverse();
-    
-    for (const file of files) {
-      try {
-        const stats = JSON.parse(readFileSync(join(statsPath, file), 'utf-8'));
-        if (stats.instances && stats.instances[instance.id]) {
-          return new Date(file.replace('.json', ''));
-        }
-      } catch {
-        // Continue to next file
-      }
+  // Check for last upload activity from analytics if available (newest first)
+  const stats = listDailyStats().reverse();
+
+  for (const day of stats) {
+    if (day.instances && day.instances[instance.id]) {
+      return new Date(day.date);
     }
   }
-  
+
   // Fall back to instance creation date
   return new Date(instance.created);
 }
 
+// Failed runs of Immich's nightly database backup, or null if unknown
+async function getBackupFailures(baseUrl: string, apiKey: string): Promise<number | null> {
+  try {
+    const response = await fetch(`${baseUrl}/api/jobs`, {
+      headers: { 'x-api-key': apiKey },
+      signal: AbortSignal.timeout(10000),
+    });
+    if (!response.ok) return null;
+    const queues = await response.json() as Record<string, { jobCounts: JobCounts }>;
+    return queues.backupDatabase?.jobCounts.failed ?? null;
+  } catch {
+    return null;
+  }
+}
+
+// Usage as Immich counts it against the quota. Unlimited users fall back to
+// the quota we sold them.
+async function getSharedUserStorage(user: SharedUser): Promise<{ usedBytes: number; limitBytes: number; percentage: number } | null> {
+  try {
+    const immichUser = await immichRequest<{ quotaSizeInBytes: number | null; quotaUsageInBytes: number | null }>(
+      user.instance,
+      adminKey(user.instance),
+      `/api/admin/users/${user.immichUserId}`
+    );
+    const usedBytes = immichUser.quotaUsageInBytes ?? 0;
+    const limitBytes = immichUser.quotaSizeInBytes || effectiveQuotaGB(user) * GB;
+    return { usedBytes, limitBytes, percentage: Math.round((usedBytes / limitBytes) * 100) };
+  } catch (err) {
+    console.error(`Could not read storage usage for ${user.visibleId}:`, (err as Error).message);
+    return null;
+  }
+}
+
 // =============================================================================
-// Email Templates
+// Notifications
 // =============================================================================
 
 async function sendStorageWarningEmail(
-  email: string,
-  instanceId: string,
-  percentage: number,
-  usedGb: number,
-  limitGb: number
+  subject: AlertSubject,
+  storage: { usedBytes: number; limitBytes: number; percentage: number }
 ): Promise<void> {
-  const isWarning = percentage < 100;
-  const color = percentage >= 100 ? '#dc2626' : percentage >= 90 ? '#ea580c' : '#ca8a04';
-  const icon = percentage >= 100 ? '🔴' : percentage >= 90 ? '🟠' : '🟡';
-  
-  await resend.emails.send({
-    from: env.EMAIL_FROM,
-    to: email,
-    subject: `${icon} SPhoto: Speicher ${percentage}% belegt`,
-    html: `
-      <div style="font-family: -apple-system, BlinkMacSystemFont, sans-serif; max-width: 500px; margin: 0 auto; padding: 20px;">
-        <h1 style="color: #111;"><span style="color: #dc2626;">S</span>Photo</h1>
-        
-        <div style="background: ${color}15; border: 1px solid ${color}; border-radius: 8px; padding: 20px; margin: 20px 0;">
-          <p style="margin: 0 0 10px 0; font-weight: bold; color: ${color};">
-            ${icon} Speicherwarnung
-          </p>
-          <p style="margin: 0;">
-            Deine Instanz <strong>${instanceId}</strong> nutzt ${percentage}% des verfügbaren Speichers.
-          </p>
-        </div>
-        
-        <div style="background: #f3f4f6; padding: 15px; border-radius: 8px; margin: 20px 0;">
-          <p style="margin: 0;"><strong>Genutzt:</strong> ${usedGb.toFixed(1)} GB von ${limitGb} GB</p>
-          <div style="background: #e5e7eb; border-radius: 4px; height: 8px; margin-top: 10px;">
-            <div style="background: ${color}; border-radius: 4px; height: 8px; width: ${Math.min(percentage, 100)}%;"></div>
-          </div>
-        </div>
-        
-        ${isWarning ? `
-          <p>Empfehlungen:</p>
-          <ul>
-            <li>Lösche nicht benötigte Fotos/Videos</li>
-            <li>Upgrade auf einen grösseren Plan</li>
-          </ul>
-        ` : `
-          <p style="color: #dc2626; font-weight: bold;">
-            ⚠️ Dein Speicher ist voll. Neue Uploads sind nicht mehr möglich.
-          </p>
-          <p>
-            Bitte lösche Dateien oder upgrade deinen Plan um fortzufahren.
-          </p>
-        `}
-        
-        <p style="color: #666; font-size: 12px; margin-top: 30px;">
-          Bei Fragen: support@arturf.ch
-        </p>
-      </div>
-    `,
-  });
-  
-  console.log(`Storage warning email (${percentage}%) sent to ${email}`);
+  await sendEmail(subject.email!, 'storage_warning', {
+    instanceId: subject.instanceName!,
+    percentage: storage.percentage,
+    usedGb: storage.usedBytes / GB,
+    limitGb: storage.limitBytes / GB,
+  }, { locale: subject.locale });
 }
 
-async function sendInactiveReminderEmail(
-  email: string,
-  instanceId: string,
-  daysSinceActivity: number
-): Promise<void> {
-  await resend.emails.send({
-    from: env.EMAIL_FROM,
-    to: email,
-    subject: '👋 Wir vermissen dich bei SPhoto!',
-    html: `
-      <div style="font-family: -apple-system, BlinkMacSystemFont, sans-serif; max-width: 500px; margin: 0 auto; padding: 20px;">
-        <h1 style="color: #111;"><span style="color: #dc2626;">S</span>Photo</h1>
-        
-        <p>Hallo!</p>
-        <p>
-          Wir haben bemerkt, dass du seit <strong>${daysSinceActivity} Tagen</strong> 
-          nicht mehr bei SPhoto aktiv warst.
-        </p>
-        
-        <div style="background: #f3f4f6; padding: 15px; border-radius: 8px; margin: 20px 0;">
-          <p style="margin: 0;"><strong>Deine Instanz:</strong></p>
-          <p style="margin: 5px 0;">
-            <a href="https://${instanceId}.${env.DOMAIN}" style="color: #dc2626;">
-              ${instanceId}.${env.DOMAIN}
-            </a>
-          </p>
-        </div>
-        
-        <p>Deine Fotos und Videos sind sicher gespeichert und warten auf dich!</p>
-        
-        <div style="text-align: center; margin: 30px 0;">
-          <a href="https://${instanceId}.${env.DOMAIN}" 
-             style="display: inline-block; background: #dc2626; color: white; padding: 15px 30px; border-radius: 8px; text-decoration: none; font-weight: bold;">
-            Zur App
-          </a>
-        </div>
-        
-        <p style="color: #666; font-size: 12px; margin-top: 30px;">
-          Bei Fragen: support@arturf.ch
-        </p>
-      </div>
-    `,
-  });
-  
-  console.log(`Inactive reminder email sent to ${email}`);
+async function sendInactiveReminderEmail(subject: AlertSubject, daysSinceActivity: number): Promise<void> {
+  await sendEmail(subject.email!, 'inactive_reminder', {
+    instanceId: subject.instanceName!,
+    daysSinceActivity,
+  }, { locale: subject.locale });
 }
 
-async function sendInstanceDownEmail(
-  adminEmail: string,
-  instanceId: string,
-  platform: string
-): Promise<void> {
-  await resend.emails.send({
-    from: env.EMAIL_FROM,
-    to: adminEmail,
-    subject: `🚨 ALERT: Instance ${instanceId} is down`,
-    html: `
-      <div style="font-family: -apple-system, BlinkMacSystemFont, sans-serif; max-width: 500px; margin: 0 auto; padding: 20px;">
-        <h1 style="color: #dc2626;">⚠️ Instance Down Alert</h1>
-        
-        <div style="background: #fef2f2; border: 1px solid #dc2626; border-radius: 8px; padding: 20px; margin: 20px 0;">
-          <p style="margin: 0 0 10px 0;"><strong>Instance:</strong> ${instanceId}</p>
-          <p style="margin: 0 0 10px 0;"><strong>Platform:</strong> ${platform}</p>
-          <p style="margin: 0 0 10px 0;"><strong>URL:</strong> https://${instanceId}.${env.DOMAIN}</p>
-          <p style="margin: 0;"><strong>Time:</strong> ${new Date().toISOString()}</p>
-        </div>
-        
-        <p>Health check failed. Please investigate immediately.</p>
-        
-        <p><strong>Suggested actions:</strong></p>
-        <ul>
-          <li>Check Docker containers: <code>docker ps | grep ${instanceId}</code></li>
-          <li>Check logs: <code>docker logs sphoto-${instanceId}-server</code></li>
-          <li>Restart: <code>cd /data/instances/${instanceId} && docker compose restart</code></li>
-        </ul>
-      </div>
-    `,
-  });
-  
-  console.log(`Instance down alert sent for ${instanceId}`);
+function describeAlert(
+  subject: AlertSubject,
+  type: AlertType,
+  observations: AlertObservations
+): { title: string; message: string } {
+  switch (type) {
+    case 'storage_80':
+    case 'storage_90':
+    case 'storage_100': {
+      const { usedBytes, limitBytes, percentage } = observations.storage!;
+      return {
+        title: `Storage ${percentage}% used: ${subject.label}`,
+        message: `${(usedBytes / GB).toFixed(1)} GB of ${(limitBytes / GB).toFixed(0)} GB used.`,
+      };
+    }
+    case 'inactive':
+      return {
+        title: `Inactive: ${subject.label}`,
+        message: `No activity in ${observations.daysSinceActivity} days. An inactivity reminder was sent.`,
+      };
+    case 'churn_risk':
+      return {
+        title: `Churn risk: ${subject.label}`,
+        message: `No uploads in ${observations.daysSinceActivity} days. Consider reaching out to understand if they need help.`,
+      };
+    case 'instance_down':
+      return {
+        title: `Instance down: ${subject.label}`,
+        message: `Health check failed: ${observations.down!.message}. Please investigate immediately.`,
+      };
+    case 'backup_failed':
+      return {
+        title: `Database backup failed: ${subject.label}`,
+        message: `${observations.backupFailures} failed backupDatabase job(s) in Immich. Check the server logs.`,
+      };
+    case 'migration_failed':
+      // Raised by the library migration itself, not by the checks
+      return {
+        title: `Library move failed: ${subject.label}`,
+        message: 'The library move between the shared instances was given up. Check the migration job.',
+      };
+  }
 }
 
-async function sendChurnRiskEmail(
-  adminEmail: string,
-  instanceId: string,
-  email: string,
-  daysSinceUpload: number
+async function notifyAdmin(
+  subject: AlertSubject,
+  type: AlertType,
+  observations: AlertObservations,
+  triggeredAt: string,
+  adminEmail: string
 ): Promise<void> {
-  await resend.emails.send({
-    from: env.EMAIL_FROM,
-    to: adminEmail,
-    subject: `📉 Churn Risk: ${instanceId} (${daysSinceUpload} days inactive)`,
-    html: `
-      <div style="font-family: -apple-system, BlinkMacSystemFont, sans-serif; max-width: 500px; margin: 0 auto; padding: 20px;">
-        <h1 style="color: #ea580c;">📉 Churn Risk Alert</h1>
-        
-        <div style="background: #fff7ed; border: 1px solid #ea580c; border-radius: 8px; padding: 20px; margin: 20px 0;">
-          <p style="margin: 0 0 10px 0;"><strong>Instance:</strong> ${instanceId}</p>
-          <p style="margin: 0 0 10px 0;"><strong>Customer:</strong> ${email}</p>
-          <p style="margin: 0;"><strong>Days since last upload:</strong> ${daysSinceUpload}</p>
-        </div>
-        
-        <p>This customer hasn't uploaded any files in ${daysSinceUpload} days.</p>
-        <p>Consider reaching out to understand if they need help.</p>
-      </div>
-    `,
-  });
-  
-  console.log(`Churn risk alert sent for ${instanceId}`);
+  const fields: Record<string, string> = { Subject: subject.id, Kind: subject.type };
+  if (subject.email) fields.Customer = subject.email;
+
+  const notification: AlertNotification = {
+    type,
+    severity: SEVERITIES[type],
+    subjectType: subject.type,
+    subjectId: subject.id,
+    ...describeAlert(subject, type, observations),
+    fields,
+    triggeredAt,
+  };
+  await deliverAlert(notification, adminEmail);
+}
+
+function recipientOf(type: AlertType): AlertSummary['recipient'] {
+  if (type === 'storage_100') return 'both';
+  if (type === 'storage_80' || type === 'storage_90' || type === 'inactive') return 'customer';
+  return 'admin';
 }
 
 // =============================================================================
-// Main Alert Check Function
+// Rule Evaluation
 // =============================================================================
 
-export async function checkInstanceAlerts(
-  instanceId: string,
+async function evaluateAlerts(
+  subject: AlertSubject,
+  checked: AlertObservations,
   adminEmail: string
 ): Promise<AlertSummary[]> {
-  const instance = getInstance(instanceId);
-  if (!instance) return [];
-  
-  const history = getAlertHistory(instanceId);
+  const history = getAlertHistory(subject.historyKey);
   const alerts: AlertSummary[] = [];
   const now = new Date().toISOString();
-  
+
+  // Only failures since the last check count; the total drops when an admin
+  // clears the failed jobs in Immich
+  const observations = { ...checked };
+  if (checked.backupFailures !== undefined) {
+    observations.backupFailures = Math.max(0, checked.backupFailures - (history.backupFailures ?? 0));
+    history.backupFailures = checked.backupFailures;
+  }
+
   if (!history.settings.emailAlerts) {
+    saveAlertHistory(subject.historyKey, history);
     return alerts;
   }
-  
-  // 1. Check storage usage
-  const storage = await getStorageUsage(instanceId);
-  
-  if (storage.percentage >= 100 && !isAlertOnCooldown(history.lastAlerts.storage_100)) {
-    await sendStorageWarningEmail(
-      instance.email,
-      instanceId,
-      storage.percentage,
-      storage.usedBytes / (1024 * 1024 * 1024),
-      storage.limitBytes / (1024 * 1024 * 1024)
-    );
-    // Also notify admin
-    await sendStorageWarningEmail(
-      adminEmail,
-      instanceId,
-      storage.percentage,
-      storage.usedBytes / (1024 * 1024 * 1024),
-      storage.limitBytes / (1024 * 1024 * 1024)
-    );
-    history.lastAlerts.storage_100 = now;
-    alerts.push({
-      instanceId,
-      type: 'storage_100',
-      triggeredAt: now,
-      recipient: 'both',
-      details: { percentage: storage.percentage, usedGb: storage.usedBytes / (1024 * 1024 * 1024) },
-    });
-  } else if (storage.percentage >= 90 && storage.percentage < 100 && !isAlertOnCooldown(history.lastAlerts.storage_90)) {
-    await sendStorageWarningEmail(
-      instance.email,
-      instanceId,
-      storage.percentage,
-      storage.usedBytes / (1024 * 1024 * 1024),
-      storage.limitBytes / (1024 * 1024 * 1024)
-    );
-    history.lastAlerts.storage_90 = now;
-    alerts.push({
-      instanceId,
-      type: 'storage_90',
-      triggeredAt: now,
-      recipient: 'customer',
-      details: { percentage: storage.percentage },
-    });
-  } else if (storage.percentage >= 80 && storage.percentage < 90 && !isAlertOnCooldown(history.lastAlerts.storage_80)) {
-    await sendStorageWarningEmail(
-      instance.email,
-      instanceId,
-      storage.percentage,
-      storage.usedBytes / (1024 * 1024 * 1024),
-      storage.limitBytes / (1024 * 1024 * 1024)
-    );
-    history.lastAlerts.storage_80 = now;
-    alerts.push({
-      instanceId,
-      type: 'storage_80',
-      triggeredAt: now,
-      recipient: 'customer',
-      details: { percentage: storage.percentage },
-    });
+
+  const triggered: AlertType[] = [];
+
+  // 1. Storage usage
+  const storage = observations.storage;
+  if (storage) {
+    if (storage.percentage >= 100 && !isAlertOnCooldown(history.lastAlerts.storage_100)) {
+      triggered.push('storage_100');
+    } else if (storage.percentage >= 90 && storage.percentage < 100 && !isAlertOnCooldown(history.lastAlerts.storage_90)) {
+      triggered.push('storage_90');
+    } else if (storage.percentage >= 80 && storage.percentage < 90 && !isAlertOnCooldown(history.lastAlerts.storage_80)) {
+      triggered.push('storage_80');
+    }
   }
-  
-  // 2. Check instance health
-  const isHealthy = await checkInstanceHealth(instanceId, env.DOMAIN);
-  if (!isHealthy && !isAlertOnCooldown(history.lastAlerts.instance_down)) {
-    await sendInstanceDownEmail(adminEmail, instanceId, instance.platform);
-    history.lastAlerts.instance_down = now;
+
+  // 2. Health
+  if (observations.down && !isAlertOnCooldown(history.lastAlerts.instance_down)) {
+    triggered.push('instance_down');
+  }
+
+  // 3. Inactivity
+  const days = observations.daysSinceActivity;
+  if (days !== undefined) {
+    if (days >= history.settings.churnRiskDays && !isAlertOnCooldown(history.lastAlerts.churn_risk)) {
+      triggered.push('churn_risk');
+    } else if (days >= history.settings.inactivityDays && !isAlertOnCooldown(history.lastAlerts.inactive)) {
+      triggered.push('inactive');
+    }
+  }
+
+  // 4. Backups - every new failure is reported, no cooldown
+  if (observations.backupFailures) {
+    triggered.push('backup_failed');
+  }
+
+  for (const type of triggered) {
+    if (subject.email && storage && type.startsWith('storage_')) {
+      await sendStorageWarningEmail(subject, storage);
+    }
+    if (subject.email && type === 'inactive') {
+      await sendInactiveReminderEmail(subject, days!);
+    }
+    await notifyAdmin(subject, type, observations, now, adminEmail);
+
+    history.lastAlerts[type] = now;
     alerts.push({
-      instanceId,
-      type: 'instance_down',
+      instanceId: subject.id,
+      subjectType: subject.type,
+      type,
       triggeredAt: now,
-      recipient: 'admin',
-      details: { platform: instance.platform },
+      recipient: subject.email ? recipientOf(type) : 'admin',
+      details: type.startsWith('storage_')
+        ? { percentage: storage!.percentage, usedGb: storage!.usedBytes / GB }
+        : type === 'backup_failed'
+          ? { failedJobs: observations.backupFailures }
+          : type === 'instance_down'
+            ? { message: observations.down!.message }
+            : { daysSinceActivity: days },
     });
   }
-  
-  // 3. Check inactivity
+
+  saveAlertHistory(subject.historyKey, history);
+  for (const alert of alerts) {
+    recordAlertSent(alert.type);
+  }
+  return alerts;
+}
+
+// =============================================================================
+// Subjects
+// =============================================================================
+
+export async function checkInstanceAlerts(
+  instanceId: string,
+  adminEmail: string
+): Promise<AlertSummary[]> {
+  const instance = getInstance(instanceId);
+  if (!instance) return [];
+
+  const observations: AlertObservations = {
+    storage: await getStorageUsage(instanceId),
+  };
+
+  if (!(await checkInstanceHealth(instanceId, env.DOMAIN))) {
+    observations.down = { message: `${instance.platform} did not respond` };
+  }
+
   const lastActivity = getLastActivityDate(instance);
   if (lastActivity) {
-    const daysSinceActivity = Math.floor((Date.now() - lastActivity.getTime()) / (1000 * 60 * 60 * 24));
-    
-    if (daysSinceActivity >= history.settings.churnRiskDays && !isAlertOnCooldown(history.lastAlerts.churn_risk)) {
-      await sendChurnRiskEmail(adminEmail, instanceId, instance.email, daysSinceActivity);
-      history.lastAlerts.churn_risk = now;
-      alerts.push({
-        instanceId,
-        type: 'churn_risk',
-        triggeredAt: now,
-        recipient: 'admin',
-        details: { daysSinceActivity },
-      });
-    } else if (daysSinceActivity >= history.settings.inactivityDays && !isAlertOnCooldown(history.lastAlerts.inactive)) {
-      await sendInactiveReminderEmail(instance.email, instanceId, daysSinceActivity);
-      history.lastAlerts.inactive = now;
-      alerts.push({
-        instanceId,
-        type: 'inactive',
-        triggeredAt: now,
-        recipient: 'admin',
-        details: { daysSinceActivity },
-      });
+    observations.daysSinceActivity = daysSince(lastActivity);
+  }
+
+  if (instance.platform === 'immich' && instance.immichApiKey) {
+    const failures = await getBackupFailures(`https://${instanceId}.${env.DOMAIN}`, instance.immichApiKey);
+    if (failures !== null) observations.backupFailures = failures;
+  }
+
+  return evaluateAlerts({
+    type: 'instance',
+    id: instanceId,
+    historyKey: instanceId,
+    label: `${instanceId} (${instance.platform})`,
+    email: instance.email,
+    instanceName: instanceId,
+  }, observations, adminEmail);
+}
+
+export async function checkSharedUserAlerts(user: SharedUser, adminEmail: string): Promise<AlertSummary[]> {
+  const historyKey = sharedUserHistoryKey(user.visibleId);
+  const observations: AlertObservations = {};
+
+  const storage = await getSharedUserStorage(user);
+  if (storage) {
+    // Suspended accounts have their quota pinned to the current usage
+    if (user.billingStatus !== 'suspended') {
+      observations.storage = storage;
     }
+
+    const history = getAlertHistory(historyKey);
+    if (!history.usage || history.usage.bytes !== storage.usedBytes) {
+      history.usage = { bytes: storage.usedBytes, changedAt: new Date().toISOString() };
+      saveAlertHistory(historyKey, history);
+    }
+    observations.daysSinceActivity = daysSince(history.usage.changedAt);
   }
-  
-  saveAlertHistory(instanceId, history);
-  return alerts;
+
+  return evaluateAlerts({
+    type: 'shared_user',
+    id: user.visibleId,
+    historyKey,
+    label: `${user.visibleId} (${user.instance})`,
+    email: user.email,
+    locale: user.locale,
+    instanceName: SHARED_INSTANCES[user.instance].subdomain,
+  }, observations, adminEmail);
+}
+
+export async function checkSharedInstanceAlerts(instance: 'free' | 'paid', adminEmail: string): Promise<AlertSummary[]> {
+  const observations: AlertObservations = {};
+
+  const health = await checkSharedInstanceHealth(instance);
+  if (!health.healthy) {
+    observations.down = { message: health.message || 'no response' };
+  } else {
+    const failures = await getBackupFailures(SHARED_INSTANCES[instance].internalUrl, adminKey(instance));
+    if (failures !== null) observations.backupFailures = failures;
+  }
+
+  return evaluateAlerts({
+    type: 'shared_instance',
+    id: instance,
+    historyKey: sharedInstanceHistoryKey(instance),
+    label: `shared ${instance} instance`,
+  }, observations, adminEmail);
 }
 
 export async function runAlertCheck(adminEmail: string): Promise<AlertSummary[]> {
   console.log('Running alert check for all instances...');
-  
-  const instances = listInstances();
+
   const allAlerts: AlertSummary[] = [];
-  
-  for (const instance of instances) {
+
+  async function check(id: string, run: () => Promise<AlertSummary[]>): Promise<void> {
+    try {
+      allAlerts.push(...await run());
+    } catch (err) {
+      console.error(`Error checking alerts for ${id}:`, err);
+    }
+  }
+
+  for (const instance of listInstances()) {
     if (instance.status === 'active') {
-      try {
-        const alerts = await checkInstanceAlerts(instance.id, adminEmail);
-        allAlerts.push(...alerts);
-      } catch (err) {
-        console.error(`Error checking alerts for ${instance.id}:`, err);
+      await check(instance.id, () => checkInstanceAlerts(instance.id, adminEmail));
+    }
+  }
+
+  if (DEPLOYMENT_MODE === 'shared') {
+    for (const instance of ['free', 'paid'] as const) {
+      await check(instance, () => checkSharedInstanceAlerts(instance, adminEmail));
+    }
+    for (const user of listSharedUsers()) {
+      if (user.status === 'active') {
+        await check(user.visibleId, () => checkSharedUserAlerts(user, adminEmail));
       }
     }
   }
-  
+
   console.log(`Alert check complete. ${allAlerts.length} alerts triggered.`);
   return allAlerts;
 }
@@ -523,40 +586,67 @@ export async function sendTestAlert(
   if (!instance) {
     throw new Error('Instance not found');
   }
-  
+  if (!ALERT_TYPES.includes(alertType)) {
+    throw new Error(`Unknown alert type: ${alertType}`);
+  }
+
+  const subject: AlertSubject = {
+    type: 'instance',
+    id: instanceId,
+    historyKey: instanceId,
+    label: `${instanceId} (${instance.platform})`,
+    email: instance.email,
+    instanceName: instanceId,
+  };
+  const percentage = alertType.startsWith('storage_') ? parseInt(alertType.split('_')[1]) : 0;
+  const observations: AlertObservations = {
+    storage: { usedBytes: percentage * 2 * GB, limitBytes: 200 * GB, percentage },
+    down: { message: 'test alert' },
+    daysSinceActivity: alertType === 'churn_risk' ? 30 : 14,
+    backupFailures: 1,
+  };
+
   switch (alertType) {
     case 'storage_80':
     case 'storage_90':
     case 'storage_100':
-      await sendStorageWarningEmail(
-        instance.email,
-        instanceId,
-        parseInt(alertType.split('_')[1]),
-        50,
-        200
-      );
+      await sendStorageWarningEmail(subject, observations.storage!);
       break;
     case 'inactive':
-      await sendInactiveReminderEmail(instance.email, instanceId, 14);
-      break;
-    case 'instance_down':
-      await sendInstanceDownEmail(adminEmail, instanceId, instance.platform);
-      break;
-    case 'churn_risk':
-      await sendChurnRiskEmail(adminEmail, instanceId, instance.email, 30);
+      await sendInactiveReminderEmail(subject, 14);
       break;
-    default:
-      throw new Error(`Unknown alert type: ${alertType}`);
   }
+
+  await deliverAlert({
+    type: alertType,
+    severity: SEVERITIES[alertType],
+    subjectType: 'instance',
+    subjectId: instanceId,
+    ...describeAlert(subject, alertType, observations),
+    fields: { Subject: instanceId, Kind: 'instance', Customer: instance.email },
+    triggeredAt: new Date().toISOString(),
+    test: true,
+  }, adminEmail);
 }
 
 export function getActiveAlerts(): AlertSummary[] {
-  const instances = listInstances();
+  const subjects: Array<{ type: AlertSubjectType; id: string; historyKey: string; hasCustomer: boolean }> =
+    listInstances().map(i => ({ type: 'instance', id: i.id, historyKey: i.id, hasCustomer: true }));
+
+  if (DEPLOYMENT_MODE === 'shared') {
+    for (const instance of ['free', 'paid'] as const) {
+      subjects.push({ type: 'shared_instance', id: instance, historyKey: sharedInstanceHistoryKey(instance), hasCustomer: false });
+    }
+    for (const user of listSharedUsers()) {
+      subjects.push({ type: 'shared_user', id: user.visibleId, historyKey: sharedUserHistoryKey(user.visibleId), hasCustomer: true });
+    }
+  }
+
   const activeAlerts: AlertSummary[] = [];
-  
-  for (const instance of instances) {
-    const history = getAlertHistory(instance.id);
-    
+
+  for (const subject of subjects) {
+    const history = getAlertHistory(subject.historyKey);
+
     for (const [type, timestamp] of Object.entries(history.lastAlerts)) {
       if (timestamp && !isAlertOnCooldown(timestamp)) {
         // This alert was triggered but cooldown expired - it's still active if condition persists
@@ -564,19 +654,19 @@ export function getActiveAlerts(): AlertSummary[] {
         const alertTime = new Date(timestamp).getTime();
         if (Date.now() - alertTime < 7 * 24 * 60 * 60 * 1000) {
           activeAlerts.push({
-            instanceId: instance.id,
+            instanceId: subject.id,
+            subjectType: subject.type,
             type: type as AlertType,
             triggeredAt: timestamp,
-            recipient: type.includes('storage') && type !== 'storage_100' ? 'customer' : 
-                       type === 'storage_100' ? 'both' : 'admin',
+            recipient: subject.hasCustomer ? recipientOf(type as AlertType) : 'admin',
             details: {},
           });
         }
       }
     }
   }
-  
-  return activeAlerts.sort((a, b) => 
+
+  return activeAlerts.sort((a, b) =>
     new Date(b.triggeredAt).getTime() - new Date(a.triggeredAt).getTime()
   );
 }
@@ -2,34 +2,26 @@
 // Usage Analytics for Admin
 // =============================================================================
 
-import { existsSync, mkdirSync, readFileSync, writeFileSync, readdirSync } from 'fs';
+import { existsSync } from 'fs';
 import { stat, readdir } from 'fs/promises';
 import { join } from 'path';
-import type { DailyStats, AnalyticsData, InstanceMetadata } from './types';
+import type { DailyStats, AnalyticsData } from './types';
 import { INSTANCES_DIR, EXTERNAL_STORAGE_PATH } from './config';
+import { listInstances } from './instances';
+import { dailyStatsRepository } from './repositories';
 
-const STATS_DIR = '/data/stats';
 const STATS_RETENTION_DAYS = 90;
 
-export function getStatsFilePath(date: string): string {
-  return join(STATS_DIR, `${date}.json`);
+export function loadDailyStats(date: string): DailyStats | null {
+  return dailyStatsRepository.get(date);
 }
 
-export function loadDailyStats(date: string): DailyStats | null {
-  const filePath = getStatsFilePath(date);
-  if (!existsSync(filePath)) return null;
-  
-  try {
-    return JSON.parse(readFileSync(filePath, 'utf-8'));
-  } catch {
-    return null;
-  }
+export function listDailyStats(): DailyStats[] {
+  return dailyStatsRepository.list();
 }
 
 export function saveDailyStats(stats: DailyStats): void {
-  mkdirSync(STATS_DIR, { recursive: true });
-  const filePath = getStatsFilePath(stats.date);
-  writeFileSync(filePath, JSON.stringify(stats, null, 2));
+  dailyStatsRepository.save(stats);
 }
 
 export async function collectDailyStats(): Promise<DailyStats> {
@@ -39,18 +31,10 @@ export async function collectDailyStats(): Promise<DailyStats> {
     instances: {},
   };
   
-  if (!existsSync(INSTANCES_DIR)) {
-    return stats;
-  }
-  
-  const instanceDirs = readdirSync(INSTANCES_DIR);
-  
-  for (const instanceId of instanceDirs) {
-    const metaPath = join(INSTANCES_DIR, instanceId, 'metadata.json');
-    if (!existsSync(metaPath)) continue;
+  for (const meta of listInstances()) {
+    const instanceId = meta.id;
     
     try {
-      const meta: InstanceMetadata = JSON.parse(readFileSync(metaPath, 'utf-8'));
       if (meta.status === 'deleted') continue;
       
       // Determine upload path
@@ -182,26 +166,15 @@ export function getAnalytics(days: number = 30): AnalyticsData {
 }
 
 function countInactiveInstances(): number {
-  if (!existsSync(INSTANCES_DIR)) return 0;
-  
   let count = 0;
-  const instanceDirs = readdirSync(INSTANCES_DIR);
   const fourteenDaysAgo = Date.now() - 14 * 24 * 60 * 60 * 1000;
   
-  for (const instanceId of instanceDirs) {
-    const metaPath = join(INSTANCES_DIR, instanceId, 'metadata.json');
-    if (!existsSync(metaPath)) continue;
-    
-    try {
-      const meta: InstanceMetadata = JSON.parse(readFileSync(metaPath, 'utf-8'));
-      if (meta.status === 'stopped') {
-        const stoppedAt = meta.stopped_at ? new Date(meta.stopped_at).getTime() : 0;
-        if (stoppedAt < fourteenDaysAgo) {
-          count++;
-        }
+  for (const meta of listInstances()) {
+    if (meta.status === 'stopped') {
+      const stoppedAt = meta.stopped_at ? new Date(meta.stopped_at).getTime() : 0;
+      if (stoppedAt < fourteenDaysAgo) {
+        count++;
       }
-    } catch {
-      // Skip
     }
   }
   
@@ -249,25 +222,14 @@ function detectChurnRisk(stats: DailyStats[]): Array<{ id: string; lastActivity:
 }
 
 export function cleanupOldStats(): void {
-  if (!existsSync(STATS_DIR)) return;
-  
   const cutoffDate = new Date();
   cutoffDate.setDate(cutoffDate.getDate() - STATS_RETENTION_DAYS);
   const cutoffStr = cutoffDate.toISOString().split('T')[0];
   
-  const files = readdirSync(STATS_DIR);
-  for (const file of files) {
-    if (file.endsWith('.json')) {
-      const date = file.replace('.json', '');
-      if (date < cutoffStr) {
-        try {
-          const filePath = join(STATS_DIR, file);
-          require('fs').unlinkSync(filePath);
-          console.log(`Cleaned up old stats: ${file}`);
-        } catch {
-          // Ignore
-        }
-      }
+  for (const stats of dailyStatsRepository.list()) {
+    if (stats.date < cutoffStr) {
+      dailyStatsRepository.delete(stats.date);
+      console.log(`Cleaned up old stats: ${stats.date}`);
     }
   }
 }
@@ -284,5 +246,6 @@ export async function runDailyStatsCollection(): Promise<void> {
     cleanupOldStats();
   } catch (err) {
     console.error('Failed to collect stats:', err);
+    throw err;
   }
 }
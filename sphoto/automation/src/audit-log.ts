@@ -0,0 +1,142 @@
+// =============================================================================
+// Admin Audit Log
+// =============================================================================
+// Every mutating admin request is recorded: who did it, which route, the
+// target user/instance and a snapshot of the target before and after.
+
+import type { Request, Response, NextFunction } from 'express';
+import { getMeta } from './db';
+import {
+  auditLogRepository,
+  adminAccountRepository,
+  instanceRepository,
+  sharedUserRepository,
+  maintenanceRepository,
+  userMigrationRepository,
+  scheduledJobRepository,
+  emailOutboxRepository,
+  incidentRepository,
+  statusSubscriberRepository,
+  alertChannelRepository,
+  referralRepository,
+} from './repositories';
+import { getRequestAdmin, toAdminAccountInfo } from './admin-accounts';
+import type { AuditLogEntry, AuditTargetType } from './types';
+
+export type AuditTargetResolver = (req: Request) => { type: AuditTargetType; id: string } | null;
+
+// Never written to the log, wherever they appear
+const SENSITIVE_FIELD = /password|secret|token|apikey/i;
+
+function redact(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(redact);
+  if (!value || typeof value !== 'object') return value;
+
+  const result: Record<string, unknown> = {};
+  for (const [key, field] of Object.entries(value)) {
+    result[key] = SENSITIVE_FIELD.test(key) ? '[redacted]' : redact(field);
+  }
+  return result;
+}
+
+function snapshot(type: AuditTargetType, id: string): unknown {
+  switch (type) {
+    case 'instance':
+      return instanceRepository.get(id);
+    case 'shared_user':
+      return sharedUserRepository.get(id);
+    case 'maintenance':
+      return maintenanceRepository.get(id);
+    case 'migration': {
+      // The asset map can hold thousands of entries - keep the status only
+      const job = userMigrationRepository.get(id);
+      return job && { status: job.status, attempts: job.attempts, error: job.error };
+    }
+    case 'job':
+      return scheduledJobRepository.get(id);
+    case 'admin': {
+      const account = adminAccountRepository.get(id);
+      return account && toAdminAccountInfo(account);
+    }
+    case 'settings':
+      return getMeta(id);
+    case 'email': {
+      // The rendered body may contain passwords and login links
+      const email = emailOutboxRepository.get(id);
+      return email && { status: email.status, attempts: email.attempts, lastError: email.lastError };
+    }
+    case 'incident':
+      return incidentRepository.get(id);
+    case 'status_subscriber':
+      return statusSubscriberRepository.findBy('email', id);
+    case 'alert_channel':
+      return alertChannelRepository.get(id);
+    case 'referral':
+      return referralRepository.get(id);
+  }
+}
+
+// Target taken from a route parameter, e.g. targetParam('instance') for /:id
+export function targetParam(type: AuditTargetType, param = 'id'): AuditTargetResolver {
+  return req => (req.params[param] ? { type, id: req.params[param] } : null);
+}
+
+/**
+ * Middleware that records the request once the response is sent. Goes after
+ * adminAuth/requireRole, so rejected requests are not logged.
+ */
+export function audit(action: string, resolveTarget?: AuditTargetResolver) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const admin = getRequestAdmin(req);
+    const target = resolveTarget ? resolveTarget(req) : null;
+    const before = target ? redact(snapshot(target.type, target.id)) : undefined;
+
+    res.on('finish', () => {
+      try {
+        const timestamp = new Date().toISOString();
+        auditLogRepository.save({
+          id: `${timestamp}-${crypto.randomUUID().slice(0, 8)}`,
+          timestamp,
+          actorId: admin?.id || 'unknown',
+          actorName: admin?.name || 'unknown',
+          actorRole: admin?.role || 'viewer',
+          action,
+          method: req.method,
+          path: req.originalUrl,
+          targetType: target?.type,
+          targetId: target?.id,
+          body: req.body && Object.keys(req.body).length > 0 ? redact(req.body) : undefined,
+          before,
+          after: target ? redact(snapshot(target.type, target.id)) : undefined,
+          statusCode: res.statusCode,
+        });
+      } catch (err) {
+        console.error(`Failed to write audit log entry for ${action}:`, err);
+      }
+    });
+
+    next();
+  };
+}
+
+export function listAuditLog(filter: {
+  actorId?: string;
+  targetId?: string;
+  action?: string;
+  limit?: number;
+} = {}): AuditLogEntry[] {
+  let entries = filter.actorId
+    ? auditLogRepository.listBy('actor_id', filter.actorId)
+    : filter.targetId
+      ? auditLogRepository.listBy('target_id', filter.targetId)
+      : auditLogRepository.list();
+
+  if (filter.actorId && filter.targetId) {
+    entries = entries.filter(e => e.targetId === filter.targetId);
+  }
+  if (filter.action) {
+    entries = entries.filter(e => e.action.startsWith(filter.action!));
+  }
+
+  return entries.reverse().slice(0, filter.limit || 200);
+}
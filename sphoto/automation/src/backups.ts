@@ -0,0 +1,574 @@
+// =============================================================================
+// Siloed Instance Backups
+// =============================================================================
+// Backs up every active siloed Immich instance on a schedule. A backup is a
+// directory under BACKUPS.dir/<instance id>/<backup name> with
+//   db.sql.gz  pg_dump of the instance database, run inside its db container
+//   uploads/   copy of the upload path; files unchanged since the previous
+//              backup are hard links into it (rsync --link-dest), so every
+//              backup is a complete snapshot but only costs the new files
+// The dump runs first: media added while the uploads are copied is simply not
+// referenced by the restored database.
+//
+// A restore recreates the database from the dump and the media from the
+// snapshot, either into the same instance or into a new instance id. The
+// current database and uploads are only moved aside (*.pre-restore) and put
+// back if any step fails, so a failed restore leaves the instance as it was.
+
+import { existsSync, mkdirSync, statSync, writeFileSync } from 'fs';
+import { rename, rm } from 'fs/promises';
+import { join } from 'path';
+import { exec } from 'child_process';
+import { promisify } from 'util';
+import { env, BACKUPS, INSTANCES_DIR, EXTERNAL_STORAGE_PATH } from './config';
+import {
+  getInstance,
+  listInstances,
+  saveInstance,
+  updateInstance,
+  getInstanceStoragePath,
+  getInstanceTier,
+  getInstanceImmichVersion,
+  generateImmichCompose,
+  waitForInstance,
+} from './instances';
+import { deliverAlert } from './alert-channels';
+import { instanceBackupRepository, backupRestoreRepository } from './repositories';
+import type { InstanceMetadata } from './types';
+
+const execAsync = promisify(exec);
+
+// Database credentials set by generateImmichCompose and the shared instances
+const DB_USER = 'sphoto';
+const DB_NAME = 'sphoto';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Suffix of the database and upload directories replaced by a restore
+const PRE_RESTORE = '.pre-restore';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type BackupStatus = 'running' | 'completed' | 'failed';
+
+export interface InstanceBackup {
+  instanceId: string;
+  name: string;                  // Start time, e.g. 20261019T023000Z
+  status: BackupStatus;
+  trigger: 'schedule' | 'manual';
+  path: string;
+  instance: InstanceMetadata;    // Metadata at backup time, to restore a deleted instance
+  startedAt: string;
+  completedAt?: string;
+  dbBytes?: number;              // Compressed dump
+  newBytes?: number;             // Uploads not hard-linked from the previous backup
+  error?: string;
+}
+
+export type RestoreStatus = 'running' | 'completed' | 'failed';
+
+export interface BackupRestore {
+  id: string;
+  sourceInstanceId: string;
+  backupName: string;
+  targetInstanceId: string;
+  newInstance: boolean;
+  status: RestoreStatus;
+  step?: 'database' | 'media' | 'starting';
+  startedAt: string;
+  completedAt?: string;
+  error?: string;
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function backupName(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d+Z$/, 'Z');
+}
+
+function dbContainer(instanceId: string): string {
+  return `sphoto-${instanceId}-db`;
+}
+
+async function waitForDatabase(instanceId: string, maxAttempts = 30): Promise<void> {
+  for (let i = 0; i < maxAttempts; i++) {
+    try {
+      await execAsync(`docker exec ${dbContainer(instanceId)} pg_isready -U ${DB_USER} -d ${DB_NAME}`);
+      return;
+    } catch {
+      await new Promise(r => setTimeout(r, 2000));
+    }
+  }
+  throw new Error(`Database of ${instanceId} did not become ready`);
+}
+
+// Dumps the database of an instance (siloed, or 'free' / 'paid') to <path>.gz
+// and returns the compressed size. Plain redirect instead of a pipe, so a
+// failing pg_dump fails the command.
+export async function dumpDatabase(instanceId: string, path: string): Promise<number> {
+  await execAsync(
+    `docker exec ${dbContainer(instanceId)} pg_dump --clean --if-exists -U ${DB_USER} -d ${DB_NAME} > "${path}"`,
+    { maxBuffer: 1024 * 1024 }
+  );
+  await execAsync(`gzip -f "${path}"`);
+  return statSync(`${path}.gz`).size;
+}
+
+// Moves `path` aside to <path>.pre-restore, replacing an older copy
+async function setAside(path: string): Promise<void> {
+  await rm(`${path}${PRE_RESTORE}`, { recursive: true, force: true });
+  if (existsSync(path)) {
+    await rename(path, `${path}${PRE_RESTORE}`);
+  }
+}
+
+// Puts the copy from setAside back in place of `path`
+async function putBack(path: string): Promise<void> {
+  if (!existsSync(`${path}${PRE_RESTORE}`)) return;
+  await rm(path, { recursive: true, force: true });
+  await rename(`${path}${PRE_RESTORE}`, path);
+}
+
+// Replaces the database of a stopped instance with a dump from dumpDatabase.
+// The dump is restored into a fresh data directory; the db container is left
+// running. The previous data directory is kept until
+// discardPreRestoreDatabase, and put back right away if the restore fails.
+export async function restoreDatabase(instanceId: string, dumpPath: string): Promise<void> {
+  const dir = join(INSTANCES_DIR, instanceId);
+  await setAside(join(dir, 'db'));
+  mkdirSync(join(dir, 'db'), { recursive: true });
+
+  try {
+    await execAsync(`cd ${dir} && docker compose up -d db`);
+    await waitForDatabase(instanceId);
+
+    // pg_dump clears search_path, which breaks Immich's vector indexes on restore
+    await execAsync(
+      `gunzip -c "${dumpPath}" ` +
+      `| sed "s/SELECT pg_catalog.set_config('search_path', '', false);/SELECT pg_catalog.set_config('search_path', 'public, pg_catalog', true);/g" ` +
+      `| docker exec -i ${dbContainer(instanceId)} psql -q -U ${DB_USER} -d ${DB_NAME}`,
+      { maxBuffer: 10 * 1024 * 1024 }
+    );
+  } catch (err) {
+    await rollbackDatabase(instanceId);
+    throw err;
+  }
+}
+
+// Stops the db container and puts the data directory from before restoreDatabase back
+export async function rollbackDatabase(instanceId: string): Promise<void> {
+  const dir = join(INSTANCES_DIR, instanceId);
+  await execAsync(`cd ${dir} && docker compose stop db`);
+  await putBack(join(dir, 'db'));
+}
+
+export async function discardPreRestoreDatabase(instanceId: string): Promise<void> {
+  await rm(join(INSTANCES_DIR, instanceId, `db${PRE_RESTORE}`), { recursive: true, force: true });
+}
+
+// Copies a snapshot next to the live uploads, hard-linking unchanged files
+// from them, so the directories can be swapped once the copy is complete
+async function stageUploads(uploadsPath: string, snapshotPath: string): Promise<string> {
+  const staging = `${uploadsPath}.restoring`;
+  await rm(staging, { recursive: true, force: true });
+  mkdirSync(staging, { recursive: true });
+
+  try {
+    const linkDest = existsSync(uploadsPath) ? `--link-dest="${uploadsPath}"` : '';
+    await execAsync(`rsync -a ${linkDest} "${snapshotPath}/" "${staging}/"`);
+  } catch (err) {
+    await rm(staging, { recursive: true, force: true });
+    throw err;
+  }
+  return staging;
+}
+
+// Bytes rsync had to copy, i.e. files that could not be hard-linked
+function parseTransferredBytes(rsyncStats: string): number | undefined {
+  const match = rsyncStats.match(/Total transferred file size: ([\d,.]+) bytes/);
+  return match ? parseInt(match[1].replace(/[,.]/g, ''), 10) : undefined;
+}
+
+export function listBackups(instanceId: string): InstanceBackup[] {
+  return instanceBackupRepository.listBy('instance_id', instanceId).reverse();
+}
+
+export function getBackup(instanceId: string, name: string): InstanceBackup | null {
+  return instanceBackupRepository.get(`${instanceId}:${name}`);
+}
+
+function latestCompletedBackup(instanceId: string): InstanceBackup | null {
+  return listBackups(instanceId).find(b => b.status === 'completed') || null;
+}
+
+// =============================================================================
+// Backup
+// =============================================================================
+
+export async function backupInstance(
+  instanceId: string,
+  trigger: InstanceBackup['trigger'] = 'manual'
+): Promise<InstanceBackup> {
+  const instance = getInstance(instanceId);
+  if (!instance) throw new Error('Instance not found');
+  if (instance.platform !== 'immich') throw new Error('Backups are only supported for Immich instances');
+  if (instance.status !== 'active') throw new Error(`Instance is ${instance.status}`);
+  if (listBackups(instanceId).some(b => b.status === 'running')) {
+    throw new Error('A backup of this instance is already running');
+  }
+
+  const uploadsPath = await getInstanceStoragePath(instanceId);
+  if (!uploadsPath || !existsSync(uploadsPath)) throw new Error('Upload path not found');
+
+  const startedAt = new Date();
+  const name = backupName(startedAt);
+  const path = join(BACKUPS.dir, instanceId, name);
+  const previous = latestCompletedBackup(instanceId);
+
+  const backup: InstanceBackup = {
+    instanceId,
+    name,
+    status: 'running',
+    trigger,
+    path,
+    instance,
+    startedAt: startedAt.toISOString(),
+  };
+  instanceBackupRepository.save(backup);
+  console.log(`Backing up instance ${instanceId} to ${path}`);
+
+  try {
+    mkdirSync(join(path, 'uploads'), { recursive: true });
+
+    const dbBytes = await dumpDatabase(instanceId, join(path, 'db.sql'));
+
+    const linkDest = previous ? `--link-dest="${join(previous.path, 'uploads')}"` : '';
+    const { stdout } = await execAsync(
+      `rsync -a --delete --stats ${linkDest} "${uploadsPath}/" "${join(path, 'uploads')}/"`,
+      { maxBuffer: 10 * 1024 * 1024 }
+    );
+
+    const completed = instanceBackupRepository.update(`${instanceId}:${name}`, b => {
+      b.status = 'completed';
+      b.completedAt = new Date().toISOString();
+      b.dbBytes = dbBytes;
+      b.newBytes = parseTransferredBytes(stdout);
+    })!;
+
+    console.log(`Backup ${name} of ${instanceId} completed`);
+    await pruneBackups(instanceId);
+    return completed;
+  } catch (err) {
+    const message = (err as Error).message;
+    console.error(`Backup ${name} of ${instanceId} failed:`, err);
+
+    // Keep the record for the admin, drop the partial copy
+    await rm(path, { recursive: true, force: true });
+    const failed = instanceBackupRepository.update(`${instanceId}:${name}`, b => {
+      b.status = 'failed';
+      b.completedAt = new Date().toISOString();
+      b.error = message;
+    })!;
+
+    await deliverAlert({
+      type: 'backup_failed',
+      severity: 'critical',
+      subjectType: 'instance',
+      subjectId: instanceId,
+      title: `Instance backup failed: ${instanceId}`,
+      message,
+      fields: { Instance: instanceId, Customer: instance.email, Backup: name },
+      triggeredAt: failed.completedAt!,
+    });
+    return failed;
+  }
+}
+
+// Keeps the newest completed backups allowed by the plan, plus failed records
+// of the same period for the admin
+async function pruneBackups(instanceId: string): Promise<number> {
+  const instance = getInstance(instanceId);
+  const keep = instance ? BACKUPS.retention[getInstanceTier(instance)] : 0;
+  const backups = listBackups(instanceId);
+  const completed = backups.filter(b => b.status === 'completed');
+  if (completed.length <= keep) return 0;
+
+  const oldestKept = completed[keep - 1]?.startedAt ?? '';
+  let pruned = 0;
+  for (const backup of backups) {
+    if (backup.status === 'running' || backup.startedAt >= oldestKept) continue;
+    await rm(backup.path, { recursive: true, force: true });
+    instanceBackupRepository.delete(`${instanceId}:${backup.name}`);
+    pruned++;
+  }
+
+  if (pruned > 0) {
+    console.log(`Pruned ${pruned} backup(s) of ${instanceId}`);
+  }
+  return pruned;
+}
+
+// Backups of deleted instances are kept for BACKUPS.deletedInstanceDays after the last one
+async function pruneDeletedInstanceBackups(): Promise<number> {
+  const cutoff = new Date(Date.now() - BACKUPS.deletedInstanceDays * DAY_MS).toISOString();
+  const byInstance = new Map<string, InstanceBackup[]>();
+  for (const backup of instanceBackupRepository.list()) {
+    if (getInstance(backup.instanceId)) continue;
+    const list = byInstance.get(backup.instanceId) || [];
+    list.push(backup);
+    byInstance.set(backup.instanceId, list);
+  }
+
+  let pruned = 0;
+  for (const [instanceId, backups] of byInstance) {
+    if (backups.some(b => b.startedAt >= cutoff)) continue;
+    await rm(join(BACKUPS.dir, instanceId), { recursive: true, force: true });
+    for (const backup of backups) {
+      instanceBackupRepository.delete(`${instanceId}:${backup.name}`);
+    }
+    console.log(`Removed backups of deleted instance ${instanceId}`);
+    pruned += backups.length;
+  }
+  return pruned;
+}
+
+// Scheduled job: back up every active Immich instance one after the other
+export async function runInstanceBackups(): Promise<void> {
+  const instances = listInstances().filter(i => i.platform === 'immich' && i.status === 'active');
+  let failed = 0;
+
+  for (const instance of instances) {
+    try {
+      const backup = await backupInstance(instance.id, 'schedule');
+      if (backup.status === 'failed') failed++;
+    } catch (err) {
+      console.error(`Backup of ${instance.id} skipped: ${(err as Error).message}`);
+      failed++;
+    }
+  }
+
+  await pruneDeletedInstanceBackups();
+  console.log(`Instance backups: ${instances.length - failed} completed, ${failed} failed`);
+}
+
+// =============================================================================
+// Restore
+// =============================================================================
+
+// Directory, compose file and metadata for a new instance id. The database
+// password is new; the dump restores the data, not the role.
+function createRestoreTarget(targetId: string, source: InstanceMetadata): void {
+  const dir = join(INSTANCES_DIR, targetId);
+  const uploadsPath = EXTERNAL_STORAGE_PATH
+    ? join(EXTERNAL_STORAGE_PATH, targetId, 'uploads')
+    : join(dir, 'uploads');
+  const uploadsVolume = EXTERNAL_STORAGE_PATH ? `${uploadsPath}:/data` : './uploads:/data';
+
+  mkdirSync(uploadsPath, { recursive: true });
+  mkdirSync(join(dir, 'db'), { recursive: true });
+
+  const dbPass = Math.random().toString(36).slice(2) + Math.random().toString(36).slice(2);
+  // Same Immich version as the source, the dump is of its schema
+  writeFileSync(
+    join(dir, 'docker-compose.yml'),
+    generateImmichCompose(targetId, dbPass, uploadsVolume, [], getInstanceImmichVersion(source))
+  );
+
+  // API keys and passwords live in the restored database, so they carry over.
+  // Custom domains and the portal session stay with the source instance.
+  const {
+    storagePath: _storagePath,
+    stopped_at: _stoppedAt,
+    customDomains: _customDomains,
+    portalToken: _portalToken,
+    portalTokenExpiresAt: _portalTokenExpiresAt,
+    ...metadata
+  } = source;
+  saveInstance({
+    ...metadata,
+    id: targetId,
+    created: new Date().toISOString(),
+    status: 'stopped',
+  });
+}
+
+async function runRestore(restoreId: string): Promise<void> {
+  const restore = backupRestoreRepository.get(restoreId)!;
+  const backup = getBackup(restore.sourceInstanceId, restore.backupName)!;
+  const targetId = restore.targetInstanceId;
+  const dir = join(INSTANCES_DIR, targetId);
+  const wasActive = getInstance(targetId)?.status === 'active';
+  const setStep = (step: BackupRestore['step']) => backupRestoreRepository.update(restoreId, r => { r.step = step; });
+  // Only what this run moved aside is put back on failure
+  let databaseReplaced = false;
+  let uploadsPath: string | null = null;
+
+  try {
+    if (restore.newInstance) {
+      createRestoreTarget(targetId, backup.instance);
+    } else {
+      await execAsync(`cd ${dir} && docker compose down`);
+      updateInstance(targetId, meta => {
+        meta.status = 'stopped';
+        meta.stopped_at = new Date().toISOString();
+      });
+    }
+
+    setStep('database');
+    await restoreDatabase(targetId, join(backup.path, 'db.sql.gz'));
+    databaseReplaced = true;
+
+    setStep('media');
+    const path = await getInstanceStoragePath(targetId);
+    if (!path) throw new Error('Upload path of target not found');
+    const staging = await stageUploads(path, join(backup.path, 'uploads'));
+    await setAside(path);
+    uploadsPath = path;
+    await rename(staging, path);
+
+    setStep('starting');
+    await execAsync(`cd ${dir} && docker compose up -d`);
+    updateInstance(targetId, meta => {
+      meta.status = 'active';
+      delete meta.stopped_at;
+    });
+
+    const ready = await waitForInstance(`https://${targetId}.${env.DOMAIN}`);
+    if (!ready) throw new Error('Instance did not become reachable after the restore');
+
+    await discardPreRestoreDatabase(targetId);
+    await rm(`${path}${PRE_RESTORE}`, { recursive: true, force: true });
+
+    backupRestoreRepository.update(restoreId, r => {
+      r.status = 'completed';
+      r.completedAt = new Date().toISOString();
+      delete r.step;
+    });
+    console.log(`Restored backup ${backup.name} of ${backup.instanceId} into ${targetId}`);
+  } catch (err) {
+    console.error(`Restore ${restoreId} failed:`, err);
+    let error = (err as Error).message;
+    if (!restore.newInstance) {
+      try {
+        await rollbackRestore(targetId, databaseReplaced, uploadsPath, wasActive);
+      } catch (rollbackErr) {
+        console.error(`Rolling back restore ${restoreId} failed:`, rollbackErr);
+        error += `; rollback failed: ${(rollbackErr as Error).message}`;
+      }
+    }
+    backupRestoreRepository.update(restoreId, r => {
+      r.status = 'failed';
+      r.completedAt = new Date().toISOString();
+      r.error = error;
+    });
+  }
+}
+
+// Puts the database and uploads from before a failed restore back and starts
+// the instance again if it was running
+async function rollbackRestore(
+  targetId: string,
+  databaseReplaced: boolean,
+  uploadsPath: string | null,
+  wasActive: boolean
+): Promise<void> {
+  const dir = join(INSTANCES_DIR, targetId);
+  await execAsync(`cd ${dir} && docker compose down`);
+  if (databaseReplaced) {
+    await putBack(join(dir, 'db'));
+  }
+  if (uploadsPath) {
+    await putBack(uploadsPath);
+  }
+
+  if (wasActive) {
+    await execAsync(`cd ${dir} && docker compose up -d`);
+    updateInstance(targetId, meta => {
+      meta.status = 'active';
+      delete meta.stopped_at;
+    });
+  } else {
+    updateInstance(targetId, meta => {
+      meta.status = 'stopped';
+      meta.stopped_at = meta.stopped_at || new Date().toISOString();
+    });
+  }
+  console.log(`Rolled back the failed restore of ${targetId}`);
+}
+
+// Restores a backup into its own instance (default), another existing
+// instance or a new instance id. Runs in the background.
+export function startRestore(
+  instanceId: string,
+  name: string,
+  targetId = instanceId
+): { success: boolean; restore?: BackupRestore; error?: string } {
+  const backup = getBackup(instanceId, name);
+  if (!backup || backup.status !== 'completed') {
+    return { success: false, error: 'Backup not found' };
+  }
+  if (!/^[a-z0-9][a-z0-9-]{1,40}$/.test(targetId)) {
+    return { success: false, error: 'Invalid target instance id' };
+  }
+
+  const target = getInstance(targetId);
+  if (target && target.platform !== 'immich') {
+    return { success: false, error: 'Target instance is not an Immich instance' };
+  }
+  if (!target && existsSync(join(INSTANCES_DIR, targetId))) {
+    return { success: false, error: 'Target directory exists without an instance' };
+  }
+
+  const busy = backupRestoreRepository.listBy('status', 'running').some(r => r.targetInstanceId === targetId)
+    || listBackups(targetId).some(b => b.status === 'running');
+  if (busy) {
+    return { success: false, error: 'A backup or restore of the target instance is running' };
+  }
+
+  const restore: BackupRestore = {
+    id: `${targetId}-${Date.now()}`,
+    sourceInstanceId: instanceId,
+    backupName: name,
+    targetInstanceId: targetId,
+    newInstance: !target,
+    status: 'running',
+    startedAt: new Date().toISOString(),
+  };
+  backupRestoreRepository.save(restore);
+
+  runRestore(restore.id);
+  return { success: true, restore };
+}
+
+export function getRestore(id: string): BackupRestore | null {
+  return backupRestoreRepository.get(id);
+}
+
+export function listRestores(): BackupRestore[] {
+  return backupRestoreRepository.list().sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+}
+
+// Backups and restores cannot continue after a restart; mark them failed so
+// the next run starts clean
+export function failInterruptedBackups(): number {
+  let count = 0;
+  for (const backup of instanceBackupRepository.listBy('status', 'running')) {
+    instanceBackupRepository.update(`${backup.instanceId}:${backup.name}`, b => {
+      b.status = 'failed';
+      b.error = 'Interrupted by a restart';
+    });
+    count++;
+  }
+  for (const restore of backupRestoreRepository.listBy('status', 'running')) {
+    backupRestoreRepository.update(restore.id, r => {
+      r.status = 'failed';
+      r.error = 'Interrupted by a restart';
+    });
+    count++;
+  }
+  return count;
+}
@@ -1,108 +1,351 @@
 // =============================================================================
 // Branding/White-Label Management
 // =============================================================================
+// Branding is written to the theme section of the instance's Immich system
+// config (product name, primary colour), its login page message and the logo
+// and favicon assets served by the Immich server. The settings are kept in the
+// instance metadata so they can be shown and reapplied.
 
-import { existsSync, readFileSync, writeFileSync } from 'fs';
-import { join } from 'path';
+import { lookup } from 'dns/promises';
+import { isIP } from 'net';
 import type { BrandingSettings, InstanceMetadata } from './types';
-import { INSTANCES_DIR } from './config';
+import { getInstance, updateInstance } from './instances';
+import { env } from './config';
+
+const ASSET_FETCH_TIMEOUT_MS = 15000;
+const ASSET_MAX_BYTES = 5 * 1024 * 1024;
+const ASSET_MAX_REDIRECTS = 3;
+
+// Content types the Immich server accepts as theme assets
+const ASSET_EXTENSIONS: Record<string, string> = {
+  'image/avif': '.avif',
+  'image/gif': '.gif',
+  'image/x-icon': '.ico',
+  'image/vnd.microsoft.icon': '.ico',
+  'image/jpeg': '.jpg',
+  'image/png': '.png',
+  'image/webp': '.webp',
+};
+
+const NAMED_COLORS: Record<string, string> = {
+  red: '#ff0000',
+  blue: '#0000ff',
+  green: '#008000',
+  orange: '#ffa500',
+  purple: '#800080',
+  pink: '#ffc0cb',
+  yellow: '#ffff00',
+  black: '#000000',
+  white: '#ffffff',
+  gray: '#808080',
+};
+
+type ThemeAsset = 'logo' | 'favicon';
+
+export interface BrandingResult {
+  success: boolean;
+  branding?: BrandingSettings;
+  error?: string;
+}
 
 export function getBranding(instanceId: string): BrandingSettings | null {
-  const metaPath = join(INSTANCES_DIR, instanceId, 'metadata.json');
-  if (!existsSync(metaPath)) return null;
-  
-  const meta: InstanceMetadata = JSON.parse(readFileSync(metaPath, 'utf-8'));
+  const meta = getInstance(instanceId);
+  if (!meta) return null;
+
   return meta.branding || null;
 }
 
-export function updateBranding(instanceId: string, branding: BrandingSettings): BrandingSettings {
-  const metaPath = join(INSTANCES_DIR, instanceId, 'metadata.json');
-  if (!existsSync(metaPath)) {
-    throw new Error('Instance not found');
+export async function updateBranding(instanceId: string, branding: BrandingSettings): Promise<BrandingResult> {
+  const instance = getInstance(instanceId);
+  if (!instance) {
+    return { success: false, error: 'Instance not found' };
   }
-  
-  const meta: InstanceMetadata = JSON.parse(readFileSync(metaPath, 'utf-8'));
-  
-  // Validate and sanitize branding settings
+
+  // Only the given fields change; an empty value clears the field
   const sanitized: BrandingSettings = {};
-  
-  if (branding.logo_url) {
+
+  if (branding.logo_url !== undefined) {
     sanitized.logo_url = sanitizeUrl(branding.logo_url);
   }
-  
-  if (branding.primary_color) {
+
+  if (branding.primary_color !== undefined) {
     sanitized.primary_color = sanitizeColor(branding.primary_color);
   }
-  
-  if (branding.welcome_message) {
-    sanitized.welcome_message = branding.welcome_message.slice(0, 500); // Max 500 chars
+
+  if (branding.welcome_message !== undefined) {
+    sanitized.welcome_message = (branding.welcome_message || '').trim().slice(0, 500); // Max 500 chars
   }
-  
-  if (branding.favicon_url) {
+
+  if (branding.favicon_url !== undefined) {
     sanitized.favicon_url = sanitizeUrl(branding.favicon_url);
   }
-  
-  if (branding.app_name) {
-    sanitized.app_name = branding.app_name.slice(0, 50); // Max 50 chars
+
+  if (branding.app_name !== undefined) {
+    sanitized.app_name = (branding.app_name || '').trim().slice(0, 50); // Max 50 chars
+  }
+
+  const previous = instance.branding || {};
+  const next = compact({ ...previous, ...sanitized });
+
+  const applied = await applyBranding(instance, next, previous);
+  if (!applied.success) {
+    return applied;
+  }
+
+  const meta = updateInstance(instanceId, m => {
+    m.branding = next;
+  });
+  if (!meta) {
+    return { success: false, error: 'Instance not found' };
   }
-  
-  meta.branding = { ...meta.branding, ...sanitized };
-  writeFileSync(metaPath, JSON.stringify(meta, null, 2));
-  
-  return meta.branding;
+
+  return { success: true, branding: meta.branding };
 }
 
-export function deleteBranding(instanceId: string): void {
-  const metaPath = join(INSTANCES_DIR, instanceId, 'metadata.json');
-  if (!existsSync(metaPath)) {
-    throw new Error('Instance not found');
+export async function deleteBranding(instanceId: string): Promise<BrandingResult> {
+  const instance = getInstance(instanceId);
+  if (!instance) {
+    return { success: false, error: 'Instance not found' };
+  }
+
+  const applied = await applyBranding(instance, {}, instance.branding || {});
+  if (!applied.success) {
+    return applied;
+  }
+
+  const meta = updateInstance(instanceId, m => {
+    delete m.branding;
+  });
+  if (!meta) {
+    return { success: false, error: 'Instance not found' };
   }
-  
-  const meta: InstanceMetadata = JSON.parse(readFileSync(metaPath, 'utf-8'));
-  delete meta.branding;
-  writeFileSync(metaPath, JSON.stringify(meta, null, 2));
+
+  return { success: true };
 }
 
-export function generateCustomCss(branding: BrandingSettings): string {
-  const cssVars: string[] = [];
-  
-  if (branding.primary_color) {
-    cssVars.push(`--immich-primary: ${branding.primary_color};`);
-  }
-  
-  let css = '';
-  
-  if (cssVars.length > 0) {
-    css += `:root {\n  ${cssVars.join('\n  ')}\n}\n`;
-  }
-  
-  if (branding.logo_url) {
-    css += `
-/* Custom logo */
-.immich-logo, [data-testid="logo"] {
-  background-image: url('${branding.logo_url}') !important;
-  background-size: contain !important;
-  background-repeat: no-repeat !important;
+async function applyBranding(
+  instance: InstanceMetadata,
+  next: BrandingSettings,
+  previous: BrandingSettings
+): Promise<BrandingResult> {
+  if (instance.platform !== 'immich') {
+    return { success: false, error: 'Branding is only supported for Immich instances' };
+  }
+  if (!instance.immichApiKey) {
+    return { success: false, error: 'Instance has no Immich API key' };
+  }
+
+  const instanceUrl = `https://${instance.id}.${env.DOMAIN}`;
+  const apiKey = instance.immichApiKey;
+
+  try {
+    const configRes = await fetch(`${instanceUrl}/api/system-config`, {
+      headers: { 'x-api-key': apiKey },
+    });
+    if (!configRes.ok) {
+      return { success: false, error: `Failed to load Immich config: ${configRes.status}` };
+    }
+
+    const config = await configRes.json() as {
+      theme: Record<string, unknown>;
+      server: Record<string, unknown>;
+    };
+    config.theme = {
+      ...config.theme,
+      productName: next.app_name || '',
+      primaryColor: next.primary_color || '',
+    };
+    config.server = {
+      ...config.server,
+      loginPageMessage: next.welcome_message ? escapeHtml(next.welcome_message) : '',
+    };
+
+    const updateRes = await fetch(`${instanceUrl}/api/system-config`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': apiKey,
+      },
+      body: JSON.stringify(config),
+    });
+    if (!updateRes.ok) {
+      return { success: false, error: `Failed to update Immich config: ${updateRes.status}` };
+    }
+
+    const assets: Array<[ThemeAsset, string | undefined, string | undefined]> = [
+      ['logo', next.logo_url, previous.logo_url],
+      ['favicon', next.favicon_url, previous.favicon_url],
+    ];
+    for (const [asset, url, previousUrl] of assets) {
+      if (url === previousUrl) continue;
+
+      const error = url
+        ? await uploadThemeAsset(instanceUrl, apiKey, asset, url)
+        : await deleteThemeAsset(instanceUrl, apiKey, asset);
+      if (error) {
+        return { success: false, error };
+      }
+    }
+
+    return { success: true };
+  } catch (err) {
+    return { success: false, error: (err as Error).message };
+  }
 }
-`;
-  }
-  
-  if (branding.welcome_message) {
-    css += `
-/* Welcome message */
-.login-form::before {
-  content: '${branding.welcome_message.replace(/'/g, "\\'")}';
-  display: block;
-  text-align: center;
-  padding: 1rem;
-  margin-bottom: 1rem;
-  background: var(--immich-bg-secondary, #f3f4f6);
-  border-radius: 8px;
+
+async function uploadThemeAsset(instanceUrl: string, apiKey: string, asset: ThemeAsset, url: string): Promise<string | null> {
+  const sourceRes = await fetchPublicUrl(url);
+  if (typeof sourceRes === 'string') {
+    return `Failed to download ${asset}: ${sourceRes}`;
+  }
+  if (!sourceRes.ok) {
+    await sourceRes.body?.cancel();
+    return `Failed to download ${asset}: ${sourceRes.status}`;
+  }
+
+  const contentType = (sourceRes.headers.get('content-type') || '').split(';')[0].trim().toLowerCase();
+  const extension = ASSET_EXTENSIONS[contentType];
+  if (!extension) {
+    await sourceRes.body?.cancel();
+    return `Unsupported ${asset} type: ${contentType || 'unknown'}`;
+  }
+
+  const data = await readLimited(sourceRes, ASSET_MAX_BYTES);
+  if (!data) {
+    return `The ${asset} is larger than ${ASSET_MAX_BYTES / 1024 / 1024} MB`;
+  }
+
+  const form = new FormData();
+  form.append('themeData', new Blob([data], { type: contentType }), `${asset}${extension}`);
+
+  const uploadRes = await fetch(`${instanceUrl}/api/server/theme/${asset}`, {
+    method: 'PUT',
+    headers: { 'x-api-key': apiKey },
+    body: form,
+  });
+
+  return uploadRes.ok ? null : `Failed to upload ${asset}: ${uploadRes.status}`;
+}
+
+// The URL is fetched from inside the hosting network, so it and every
+// redirect must resolve to a public address
+async function fetchPublicUrl(url: string): Promise<Response | string> {
+  const signal = AbortSignal.timeout(ASSET_FETCH_TIMEOUT_MS);
+  let current = url;
+
+  for (let redirects = 0; redirects <= ASSET_MAX_REDIRECTS; redirects++) {
+    const parsed = new URL(current);
+    if (!['http:', 'https:'].includes(parsed.protocol)) {
+      return 'only http and https URLs are allowed';
+    }
+    if (!await isPublicHost(parsed.hostname)) {
+      return `${parsed.hostname} is not a public address`;
+    }
+
+    const res = await fetch(parsed.href, { signal, redirect: 'manual' });
+    const location = res.headers.get('location');
+    if (res.status < 300 || res.status >= 400 || !location) {
+      return res;
+    }
+    await res.body?.cancel();
+    current = new URL(location, parsed.href).href;
+  }
+
+  return 'too many redirects';
+}
+
+async function isPublicHost(hostname: string): Promise<boolean> {
+  const host = hostname.replace(/^\[|\]$/g, '');
+  try {
+    const addresses = isIP(host) ? [host] : (await lookup(host, { all: true })).map(a => a.address);
+    return addresses.length > 0 && addresses.every(isPublicAddress);
+  } catch {
+    return false;
+  }
+}
+
+function isPublicAddress(address: string): boolean {
+  if (isIP(address) === 6) {
+    const ip = address.toLowerCase();
+    const mapped = ip.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+    if (mapped) return isPublicAddress(mapped[1]);
+    return !(
+      ip === '::' || ip === '::1' ||
+      /^f[cd]/.test(ip) ||             // Unique local
+      /^fe[89ab]/.test(ip) ||          // Link-local
+      ip.startsWith('ff')              // Multicast
+    );
+  }
+
+  const [a, b] = address.split('.').map(Number);
+  return !(
+    a === 0 || a === 10 || a === 127 ||
+    (a === 100 && b >= 64 && b <= 127) ||  // Carrier-grade NAT
+    (a === 169 && b === 254) ||            // Link-local, cloud metadata
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168) ||
+    a >= 224                               // Multicast and reserved
+  );
 }
-`;
+
+// Reads the body up to maxBytes without buffering more, null if it is larger
+async function readLimited(res: Response, maxBytes: number): Promise<Uint8Array | null> {
+  const declared = Number(res.headers.get('content-length'));
+  if (declared > maxBytes || !res.body) {
+    await res.body?.cancel();
+    return declared > maxBytes ? null : new Uint8Array();
+  }
+
+  const reader = res.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    total += value.byteLength;
+    if (total > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+
+  const data = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    data.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return data;
+}
+
+async function deleteThemeAsset(instanceUrl: string, apiKey: string, asset: ThemeAsset): Promise<string | null> {
+  const deleteRes = await fetch(`${instanceUrl}/api/server/theme/${asset}`, {
+    method: 'DELETE',
+    headers: { 'x-api-key': apiKey },
+  });
+
+  // The asset may never have been uploaded
+  return deleteRes.ok || deleteRes.status === 400 ? null : `Failed to delete ${asset}: ${deleteRes.status}`;
+}
+
+function compact(branding: BrandingSettings): BrandingSettings {
+  const result: BrandingSettings = {};
+  for (const [key, value] of Object.entries(branding) as Array<[keyof BrandingSettings, string | undefined]>) {
+    if (value) {
+      result[key] = value;
+    }
   }
-  
-  return css;
+  return result;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
 }
 
 function sanitizeUrl(url: string): string {
@@ -117,15 +360,24 @@ function sanitizeUrl(url: string): string {
   }
 }
 
+// Immich only accepts #rrggbb, so short hex, rgb() and named colours are converted
 function sanitizeColor(color: string): string {
-  // Allow hex colors, rgb/rgba, and named colors
-  const hexPattern = /^#([0-9a-fA-F]{3}|[0-9a-fA-F]{6})$/;
-  const rgbPattern = /^rgba?\(\s*\d+\s*,\s*\d+\s*,\s*\d+\s*(,\s*[\d.]+\s*)?\)$/;
-  const namedColors = ['red', 'blue', 'green', 'orange', 'purple', 'pink', 'yellow', 'black', 'white', 'gray'];
-  
-  if (hexPattern.test(color) || rgbPattern.test(color) || namedColors.includes(color.toLowerCase())) {
-    return color;
-  }
-  
-  return '';
+  const value = (color || '').trim().toLowerCase();
+
+  if (/^#[0-9a-f]{6}$/.test(value)) {
+    return value;
+  }
+
+  const short = value.match(/^#([0-9a-f])([0-9a-f])([0-9a-f])$/);
+  if (short) {
+    return `#${short[1]}${short[1]}${short[2]}${short[2]}${short[3]}${short[3]}`;
+  }
+
+  const rgb = value.match(/^rgba?\(\s*(\d+)\s*,\s*(\d+)\s*,\s*(\d+)\s*(,\s*[\d.]+\s*)?\)$/);
+  if (rgb) {
+    const channels = [rgb[1], rgb[2], rgb[3]].map(c => Math.min(255, parseInt(c, 10)));
+    return `#${channels.map(c => c.toString(16).padStart(2, '0')).join('')}`;
+  }
+
+  return NAMED_COLORS[value] || '';
 }
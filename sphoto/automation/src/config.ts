@@ -2,7 +2,7 @@
 // Configuration
 // =============================================================================
 
-import type { Plans, Env } from './types';
+import type { Plans, PlanDefinition, PaidTier, BillingInterval, Env, Locale } from './types';
 
 export const env: Env = {
   DOMAIN: process.env.DOMAIN || 'sphoto.arturf.ch',
@@ -10,6 +10,10 @@ export const env: Env = {
   STRIPE_WEBHOOK_SECRET: process.env.STRIPE_WEBHOOK_SECRET || '',
   STRIPE_PRICE_BASIC: process.env.STRIPE_PRICE_BASIC || '',
   STRIPE_PRICE_PRO: process.env.STRIPE_PRICE_PRO || '',
+  STRIPE_PRICE_BASIC_YEARLY: process.env.STRIPE_PRICE_BASIC_YEARLY || '',
+  STRIPE_PRICE_PRO_YEARLY: process.env.STRIPE_PRICE_PRO_YEARLY || '',
+  STRIPE_PRICE_FAMILY: process.env.STRIPE_PRICE_FAMILY || '',
+  STRIPE_PRICE_FAMILY_YEARLY: process.env.STRIPE_PRICE_FAMILY_YEARLY || '',
   RESEND_API_KEY: process.env.RESEND_API_KEY || '',
   EMAIL_FROM: process.env.EMAIL_FROM || 'SPhoto <noreply@arturf.ch>',
   ADMIN_API_KEY: process.env.ADMIN_API_KEY || '',
@@ -19,6 +23,9 @@ export const env: Env = {
 
 export const INSTANCES_DIR = '/data/instances';
 
+// SQLite state store (users, instances, alerts, health, maintenance, stats, exports)
+export const DATABASE_PATH = process.env.DATABASE_PATH || '/data/db/sphoto.db';
+
 // External storage path for media files (photos/videos)
 // If not set, media is stored locally in each instance's uploads folder
 // Example: /mnt/nas/sphoto or /mnt/hdd/sphoto
@@ -65,9 +72,268 @@ export const FREE_TIER = {
   name: 'Free',
 };
 
-export const PLANS: Plans = {
-  [env.STRIPE_PRICE_BASIC]: { name: 'Basic', storage: 200 },
-  [env.STRIPE_PRICE_PRO]: { name: 'Pro', storage: 1000 },
+// Plan catalogue: one entry per tier with a Stripe price per billing interval.
+// A tier without a yearly price is only sold monthly.
+export const PLAN_CATALOG: Record<PaidTier, PlanDefinition> = {
+  basic: { name: 'Basic', storage: 200, prices: { month: env.STRIPE_PRICE_BASIC, year: env.STRIPE_PRICE_BASIC_YEARLY } },
+  pro: { name: 'Pro', storage: 1000, prices: { month: env.STRIPE_PRICE_PRO, year: env.STRIPE_PRICE_PRO_YEARLY } },
+  family: {
+    name: 'Family',
+    storage: 2000,
+    prices: { month: env.STRIPE_PRICE_FAMILY, year: env.STRIPE_PRICE_FAMILY_YEARLY },
+    maxMembers: parseInt(process.env.FAMILY_MAX_MEMBERS || '5', 10),
+  },
+};
+
+export const BILLING_INTERVALS: BillingInterval[] = ['month', 'year'];
+
+// Every configured price id mapped to its plan, so a subscription resolves to
+// the same tier and quota whichever price was bought
+export const PLANS: Plans = Object.fromEntries(
+  (Object.entries(PLAN_CATALOG) as Array<[PaidTier, PlanDefinition]>).flatMap(([tier, plan]) =>
+    BILLING_INTERVALS
+      .filter(interval => plan.prices[interval])
+      .map(interval => [plan.prices[interval], { name: plan.name, storage: plan.storage, tier, interval }])
+  )
+);
+
+// Checkout: free trial for new subscriptions (0 disables it). Promotion codes
+// are created in the Stripe dashboard and passed as ?promo= or entered on the
+// Stripe checkout page.
+export const CHECKOUT = {
+  trialDays: parseInt(process.env.CHECKOUT_TRIAL_DAYS || '0', 10),
+};
+
+// Extra storage for paid plans, bought in blocks from the portal. Billed as a
+// second subscription item whose quantity is the number of blocks; Stripe
+// requires it to have the same interval as the plan price.
+export const STORAGE_ADDON = {
+  prices: {
+    month: process.env.STRIPE_PRICE_STORAGE_ADDON || '',
+    year: process.env.STRIPE_PRICE_STORAGE_ADDON_YEARLY || '',
+  } as Record<BillingInterval, string>,
+  blockGB: parseInt(process.env.STORAGE_ADDON_BLOCK_GB || '100', 10),
+  maxBlocks: 10,
+};
+
+// Referral program: both accounts get the bonus once the referred account is
+// verified (free) or has paid. A free referral that upgrades later is topped
+// up to the paid bonus. The caps limit what one referrer can collect.
+export const REFERRALS = {
+  enabled: process.env.REFERRALS_ENABLED !== 'false',
+  freeBonusGB: parseInt(process.env.REFERRAL_BONUS_FREE_GB || '1', 10),
+  paidBonusGB: parseInt(process.env.REFERRAL_BONUS_PAID_GB || '10', 10),
+  maxBonusGB: parseInt(process.env.REFERRAL_MAX_BONUS_GB || '50', 10),
+  maxPerMonth: parseInt(process.env.REFERRAL_MAX_PER_MONTH || '10', 10),
+  // Referrals within 24 hours before a referrer is flagged in the admin view
+  burstThreshold: 5,
+};
+
+// Family plan households: invitations by email, and how often the pooled
+// quota is rebalanced between the members' Immich accounts
+export const HOUSEHOLDS = {
+  inviteValidDays: 7,
+  syncSchedule: process.env.HOUSEHOLD_SYNC_SCHEDULE || '*/10 * * * *',
+};
+
+// VAT at checkout. Checkout always collects the billing address and lets
+// business customers enter their company name and VAT number.
+// 'automatic' = Stripe Tax calculates Swiss VAT and EU reverse charge,
+// 'manual' = the Swiss VAT tax rate below applies to customers in Switzerland
+//            and EU businesses with a VAT number are billed with reverse charge,
+// 'none' = no VAT (below the registration threshold)
+export type TaxMode = 'automatic' | 'manual' | 'none';
+
+export const TAX = {
+  mode: (process.env.TAX_MODE as TaxMode) || 'none',
+  swissVatRate: process.env.STRIPE_TAX_RATE_CH || '', // Stripe tax rate id (8.1%)
+  homeCountry: 'CH',
+};
+
+// Siloed instance backups: a pg_dump of the instance database and a snapshot
+// of its uploads in which unchanged files are hard links into the previous
+// snapshot. Retention is the number of backups kept per plan; the backups of
+// a deleted instance are kept for deletedInstanceDays.
+export const BACKUPS = {
+  enabled: process.env.BACKUPS_ENABLED !== 'false',
+  dir: process.env.BACKUP_DIR || '/data/backups',
+  schedule: process.env.BACKUP_SCHEDULE || '30 2 * * *',
+  retention: { basic: 7, pro: 14, family: 14 } as Record<PaidTier, number>,
+  deletedInstanceDays: 30,
+};
+
+// Custom domains of siloed instances. The customer proves ownership with a TXT
+// record at <txtPrefix>.<domain> and points the domain at <id>.DOMAIN with a
+// CNAME; the certificate comes from certResolver via HTTP/TLS challenge.
+// Unverified domains are dropped after pendingDays.
+export const CUSTOM_DOMAINS = {
+  enabled: process.env.CUSTOM_DOMAINS_ENABLED !== 'false',
+  tiers: ['pro', 'family'] as PaidTier[],
+  maxPerInstance: 3,
+  txtPrefix: '_sphoto-verify',
+  certResolver: process.env.CUSTOM_DOMAIN_CERT_RESOLVER || (COOLIFY_MODE ? 'letsencrypt' : 'le'),
+  pendingDays: 7,
+  checkSchedule: '*/10 * * * *',
+};
+
+// Reconciliation of siloed instances: compose files are regenerated from the
+// metadata and applied batchSize instances at a time. An instance that does
+// not answer within healthAttempts health probes is rolled back, and the run
+// stops after that batch.
+export const RECONCILE = {
+  batchSize: parseInt(process.env.RECONCILE_BATCH_SIZE || '3', 10),
+  healthAttempts: 60,
+};
+
+// Release rollouts: a new Immich version goes to the canary channel first and
+// is promoted to stable once the canaries passed every health check for
+// soakHours. The check runs a few minutes after each 15-minute health check.
+export const RELEASES = {
+  soakHours: parseInt(process.env.RELEASE_SOAK_HOURS || '24', 10),
+  maintenanceMinutes: 30,        // Announced length of a stage's maintenance window
+  checkSchedule: '5,20,35,50 * * * *',
+};
+
+// Usage metering of shared users: one snapshot per user and day, rolled up
+// into weekly and later monthly snapshots as they age
+export const USAGE = {
+  snapshotSchedule: process.env.USAGE_SNAPSHOT_SCHEDULE || '50 23 * * *',
+  dailyRetentionDays: 90,
+  weeklyRetentionWeeks: 104,
+  projectionDays: 30, // Growth window for the "quota full on" projection
+};
+
+// Dunning: days a failed payment stays past_due before the account becomes
+// read-only, and days it stays suspended before the grace period ends
+export const DUNNING = {
+  pastDueDays: 7,
+  suspendedDays: 14,
+};
+
+// What happens to a suspended account when its grace period ends:
+// 'migrate' = move the library to the Free instance,
+// 'export_delete' = export the library, then schedule deletion and email the download link
+export type GracePolicy = 'migrate' | 'export_delete';
+
+// Read-only grace period after a subscription ends (instead of an immediate
+// downgrade). The policy can be changed at runtime via the admin API.
+export const GRACE_PERIOD = {
+  subscriptionEndedDays: 30,
+  reminderDays: [14, 7, 1],
+  defaultPolicy: (process.env.GRACE_PERIOD_POLICY as GracePolicy) || 'migrate',
+};
+
+// =============================================================================
+// Abuse Protection (public signup and portal login)
+// =============================================================================
+
+// Fixed-window limits, counted in the database so restarts don't reset them
+export const RATE_LIMITS = {
+  signupPerIp: { max: 5, windowMinutes: 60 },
+  signupPerEmail: { max: 3, windowMinutes: 24 * 60 },
+  verifyPerIp: { max: 20, windowMinutes: 60 },
+  portalLoginPerIp: { max: 20, windowMinutes: 60 },
+  portalLoginPerEmail: { max: 5, windowMinutes: 60 },
+  // Export requests check the Immich password
+  portalExportPerUser: { max: 5, windowMinutes: 60 },
+  // Each request sends a confirmation email
+  statusSubscribePerIp: { max: 5, windowMinutes: 60 },
+  // Each invitation sends an email to an address of the owner's choice
+  householdInvitePerUser: { max: 10, windowMinutes: 24 * 60 },
+  // Linking an account checks the Immich password
+  householdLinkPerUser: { max: 5, windowMinutes: 60 },
+};
+
+export type RateLimitBucket = keyof typeof RATE_LIMITS;
+
+export const SIGNUP_PROTECTION = {
+  blockDisposableDomains: process.env.BLOCK_DISPOSABLE_EMAILS !== 'false',
+  // Comma-separated, in addition to the built-in disposable list
+  blockedDomains: (process.env.BLOCKED_EMAIL_DOMAINS || '')
+    .split(',')
+    .map(d => d.trim().toLowerCase())
+    .filter(Boolean),
+  // Free accounts are only created once the link in this email is clicked
+  verificationHours: 24,
+  // Reverse proxies (Traefik) in front of the server, for the client IP
+  trustProxyHops: parseInt(process.env.TRUST_PROXY_HOPS || '1', 10),
+};
+
+// 'pow' = proof-of-work solved by the signup page, no third party involved.
+// 'turnstile' / 'hcaptcha' need CAPTCHA_SITE_KEY and CAPTCHA_SECRET_KEY.
+export type CaptchaProvider = 'none' | 'pow' | 'turnstile' | 'hcaptcha';
+
+export const CAPTCHA = {
+  provider: (process.env.CAPTCHA_PROVIDER as CaptchaProvider) || 'none',
+  siteKey: process.env.CAPTCHA_SITE_KEY || '',
+  secretKey: process.env.CAPTCHA_SECRET_KEY || '',
+  // Leading zero bits of sha256(challenge:nonce); 18 takes about a second
+  powDifficulty: parseInt(process.env.POW_DIFFICULTY || '18', 10),
+  powTtlMinutes: 10,
+};
+
+// =============================================================================
+// Email Delivery
+// =============================================================================
+// 'resend' = Resend API (RESEND_API_KEY), 'smtp' = any SMTP server,
+// 'file' = write messages to EMAIL_OUTBOX_DIR instead of sending (development)
+export type EmailTransportName = 'resend' | 'smtp' | 'file';
+
+export const LOCALES: Locale[] = ['de', 'en'];
+
+export const EMAIL = {
+  transport: (process.env.EMAIL_TRANSPORT as EmailTransportName) || 'resend',
+  smtp: {
+    host: process.env.SMTP_HOST || '',
+    port: parseInt(process.env.SMTP_PORT || '587', 10),
+    // true = TLS from the start (port 465), false = STARTTLS
+    secure: process.env.SMTP_SECURE === 'true',
+    user: process.env.SMTP_USER || '',
+    pass: process.env.SMTP_PASS || '',
+  },
+  outboxDir: process.env.EMAIL_OUTBOX_DIR || '/data/outbox',
+  // Language for recipients without a stored preference
+  defaultLocale: (process.env.EMAIL_LOCALE as Locale) || 'de',
+  // Failed deliveries are retried with backoff until this many attempts
+  maxAttempts: 6,
+  retryDelaysMinutes: [1, 5, 15, 60, 240],
+  // Sent messages are removed from the outbox after this many days
+  retentionDays: 30,
+};
+
+// =============================================================================
+// Monitoring
+// =============================================================================
+
+export const METRICS = {
+  // Bearer token Prometheus has to send to /metrics; open if empty
+  token: process.env.METRICS_TOKEN || '',
+};
+
+// Deep health probes of the Immich instances (health.ts)
+export const HEALTH = {
+  // Shared machine learning container, probed for instances that use it
+  mlUrl: process.env.ML_URL || 'http://sphoto-ml:3003',
+  probeTimeoutMs: 10000,
+  slowResponseMs: 3000,
+  // Waiting + delayed jobs over all queues
+  queueBacklogWarning: 5000,
+  failedJobsWarning: 100,
+  // Free space on the upload volume
+  diskFreeWarningPercent: 15,
+  diskFreeCriticalPercent: 5,
+  historyDays: 30,
+};
+
+// Probes behind the public status page (internal container URLs)
+export const STATUS = {
+  portalUrl: process.env.STATUS_PORTAL_URL || 'http://sphoto-web:3000/portal',
+  probeTimeoutMs: 5000,
+  // Slower answers count as degraded
+  slowResponseMs: 3000,
+  // Upload volume usage of a shared instance
+  diskWarningPercent: 90,
+  diskFullPercent: 98,
 };
 
 export const RESERVED_SUBDOMAINS = [
@@ -0,0 +1,193 @@
+// =============================================================================
+// Custom Domains (siloed instances)
+// =============================================================================
+// Customers on an eligible plan can serve their instance on their own domain
+// in addition to <id>.DOMAIN. Adding a domain creates a token the customer
+// publishes as a TXT record at <CUSTOM_DOMAINS.txtPrefix>.<domain>; once the
+// automation server resolves it, the domain is verified and a Traefik router
+// for it is added to the instance's docker-compose.yml.
+
+import { randomBytes } from 'crypto';
+import { resolveTxt } from 'dns/promises';
+import { env, CUSTOM_DOMAINS } from './config';
+import { getInstance, listInstances, updateInstance, getInstanceTier, applyCustomDomains } from './instances';
+import type { CustomDomain, InstanceMetadata } from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const DOMAIN_PATTERN = /^(?=.{4,253}$)([a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,63}$/;
+
+export interface CustomDomainSetup extends CustomDomain {
+  txtName: string;               // Record name for the verification token
+  cnameTarget: string;           // Where the domain has to point
+}
+
+export function normalizeDomain(input: string): string {
+  return input.trim().toLowerCase().replace(/^https?:\/\//, '').replace(/\/.*$/, '').replace(/\.$/, '');
+}
+
+export function canUseCustomDomains(instance: InstanceMetadata): boolean {
+  return CUSTOM_DOMAINS.enabled && CUSTOM_DOMAINS.tiers.includes(getInstanceTier(instance));
+}
+
+// Domains of an instance with the DNS records the customer has to create
+export function getCustomDomainSetup(instance: InstanceMetadata): CustomDomainSetup[] {
+  return (instance.customDomains || []).map(d => ({
+    ...d,
+    txtName: `${CUSTOM_DOMAINS.txtPrefix}.${d.domain}`,
+    cnameTarget: `${instance.id}.${env.DOMAIN}`,
+  }));
+}
+
+function findDomainOwner(domain: string): InstanceMetadata | null {
+  return listInstances().find(i => i.customDomains?.some(d => d.domain === domain)) || null;
+}
+
+export function addCustomDomain(
+  instanceId: string,
+  input: string
+): { success: boolean; domain?: CustomDomainSetup; error?: string } {
+  const instance = getInstance(instanceId);
+  if (!instance) return { success: false, error: 'Instance not found' };
+
+  if (!canUseCustomDomains(instance)) {
+    return { success: false, error: 'Eigene Domains sind im Pro- und Family-Plan verfügbar.' };
+  }
+
+  const domain = normalizeDomain(input);
+  if (!DOMAIN_PATTERN.test(domain)) {
+    return { success: false, error: 'Bitte gib einen gültigen Domainnamen ein, z.B. fotos.example.ch.' };
+  }
+  if (domain === env.DOMAIN || domain.endsWith(`.${env.DOMAIN}`)) {
+    return { success: false, error: `Domains unter ${env.DOMAIN} können nicht verwendet werden.` };
+  }
+  if ((instance.customDomains || []).length >= CUSTOM_DOMAINS.maxPerInstance) {
+    return { success: false, error: `Es sind höchstens ${CUSTOM_DOMAINS.maxPerInstance} eigene Domains möglich.` };
+  }
+  if (findDomainOwner(domain)) {
+    return { success: false, error: 'Diese Domain wird bereits verwendet.' };
+  }
+
+  const customDomain: CustomDomain = {
+    domain,
+    token: `sphoto-verify=${randomBytes(16).toString('hex')}`,
+    status: 'pending',
+    createdAt: new Date().toISOString(),
+  };
+  const updated = updateInstance(instanceId, meta => {
+    meta.customDomains = [...(meta.customDomains || []), customDomain];
+  })!;
+
+  console.log(`Custom domain ${domain} added to ${instanceId}, waiting for verification`);
+  return { success: true, domain: getCustomDomainSetup(updated).find(d => d.domain === domain) };
+}
+
+async function lookupToken(domain: string): Promise<string[]> {
+  try {
+    const records = await resolveTxt(`${CUSTOM_DOMAINS.txtPrefix}.${domain}`);
+    return records.map(chunks => chunks.join(''));
+  } catch {
+    return [];
+  }
+}
+
+export async function verifyCustomDomain(
+  instanceId: string,
+  domain: string
+): Promise<{ success: boolean; domain?: CustomDomainSetup; error?: string }> {
+  const instance = getInstance(instanceId);
+  const customDomain = instance?.customDomains?.find(d => d.domain === domain);
+  if (!instance || !customDomain) return { success: false, error: 'Domain not found' };
+  if (customDomain.status === 'verified') {
+    return { success: true, domain: getCustomDomainSetup(instance).find(d => d.domain === domain) };
+  }
+
+  const records = await lookupToken(domain);
+  const verified = records.includes(customDomain.token);
+
+  const updated = updateInstance(instanceId, meta => {
+    const entry = meta.customDomains?.find(d => d.domain === domain);
+    if (!entry) return;
+    entry.lastCheckedAt = new Date().toISOString();
+    if (verified) {
+      entry.status = 'verified';
+      entry.verifiedAt = entry.lastCheckedAt;
+      delete entry.lastError;
+    } else {
+      entry.lastError = records.length > 0
+        ? 'Der TXT-Eintrag enthält nicht den erwarteten Wert.'
+        : `Kein TXT-Eintrag unter ${CUSTOM_DOMAINS.txtPrefix}.${domain} gefunden.`;
+    }
+  })!;
+
+  if (!verified) {
+    return {
+      success: false,
+      domain: getCustomDomainSetup(updated).find(d => d.domain === domain),
+      error: updated.customDomains?.find(d => d.domain === domain)?.lastError,
+    };
+  }
+
+  console.log(`Custom domain ${domain} of ${instanceId} verified`);
+  try {
+    await applyCustomDomains(instanceId);
+  } catch (err) {
+    console.error(`Failed to apply custom domains of ${instanceId}:`, err);
+    return { success: false, error: 'Domain verifiziert, aber die Instanz konnte nicht aktualisiert werden.' };
+  }
+  return { success: true, domain: getCustomDomainSetup(updated).find(d => d.domain === domain) };
+}
+
+export async function removeCustomDomain(
+  instanceId: string,
+  domain: string
+): Promise<{ success: boolean; error?: string }> {
+  const instance = getInstance(instanceId);
+  const customDomain = instance?.customDomains?.find(d => d.domain === domain);
+  if (!instance || !customDomain) return { success: false, error: 'Domain not found' };
+
+  updateInstance(instanceId, meta => {
+    meta.customDomains = (meta.customDomains || []).filter(d => d.domain !== domain);
+  });
+
+  if (customDomain.status === 'verified') {
+    try {
+      await applyCustomDomains(instanceId);
+    } catch (err) {
+      console.error(`Failed to apply custom domains of ${instanceId}:`, err);
+      return { success: false, error: 'Domain entfernt, aber die Instanz konnte nicht aktualisiert werden.' };
+    }
+  }
+
+  console.log(`Custom domain ${domain} removed from ${instanceId}`);
+  return { success: true };
+}
+
+// Scheduled job: verify pending domains whose TXT record appeared since, drop
+// the ones still unverified after CUSTOM_DOMAINS.pendingDays
+export async function checkPendingCustomDomains(): Promise<void> {
+  const cutoff = new Date(Date.now() - CUSTOM_DOMAINS.pendingDays * DAY_MS).toISOString();
+  let verified = 0;
+  let expired = 0;
+
+  for (const instance of listInstances()) {
+    for (const customDomain of instance.customDomains || []) {
+      if (customDomain.status !== 'pending') continue;
+
+      if (customDomain.createdAt < cutoff) {
+        updateInstance(instance.id, meta => {
+          meta.customDomains = (meta.customDomains || []).filter(d => d.domain !== customDomain.domain);
+        });
+        expired++;
+        continue;
+      }
+
+      const result = await verifyCustomDomain(instance.id, customDomain.domain);
+      if (result.success) verified++;
+    }
+  }
+
+  if (verified > 0 || expired > 0) {
+    console.log(`Custom domains: ${verified} verified, ${expired} expired unverified`);
+  }
+}
@@ -0,0 +1,174 @@
+// =============================================================================
+// Legacy JSON Importer
+// =============================================================================
+// One-shot import of the JSON files the automation service used to write
+// before the SQLite state store existed. Runs on startup and is a no-op once
+// the import has been recorded in the meta table. Can also be run manually:
+//   bun run src/db-import.ts
+
+import { existsSync, readFileSync, readdirSync } from 'fs';
+import { join } from 'path';
+import { INSTANCES_DIR } from './config';
+import { db, getMeta, setMeta } from './db';
+import {
+  sharedUserRepository,
+  instanceRepository,
+  alertHistoryRepository,
+  healthStatusRepository,
+  maintenanceRepository,
+  dailyStatsRepository,
+} from './repositories';
+import { HEALTH_LAST_FULL_CHECK_KEY } from './health';
+import type { HealthStatus } from './health';
+import type { Maintenance } from './maintenance';
+import type { AlertHistory } from './alerts';
+import type { SharedUser, InstanceMetadata, DailyStats } from './types';
+
+const IMPORT_META_KEY = 'legacy_import.completedAt';
+
+const SHARED_USERS_DIR = join(INSTANCES_DIR, '_shared_users');
+const HEALTH_FILE = join(INSTANCES_DIR, '..', 'health', 'health.json');
+const MAINTENANCE_FILE = join(INSTANCES_DIR, '..', 'maintenance', 'maintenance.json');
+const STATS_DIR = '/data/stats';
+
+export interface ImportResult {
+  sharedUsers: number;
+  instances: number;
+  alertHistories: number;
+  healthStatuses: number;
+  maintenances: number;
+  dailyStats: number;
+  errors: string[];
+}
+
+function readJson<T>(path: string, result: ImportResult): T | null {
+  try {
+    return JSON.parse(readFileSync(path, 'utf-8')) as T;
+  } catch (err) {
+    result.errors.push(`${path}: ${err instanceof Error ? err.message : String(err)}`);
+    return null;
+  }
+}
+
+function importSharedUsers(result: ImportResult): void {
+  if (!existsSync(SHARED_USERS_DIR)) return;
+
+  for (const file of readdirSync(SHARED_USERS_DIR)) {
+    if (!file.endsWith('.json')) continue;
+    const user = readJson<SharedUser>(join(SHARED_USERS_DIR, file), result);
+    if (!user) continue;
+    sharedUserRepository.save(user);
+    result.sharedUsers++;
+  }
+}
+
+function importInstances(result: ImportResult): void {
+  if (!existsSync(INSTANCES_DIR)) return;
+
+  for (const dir of readdirSync(INSTANCES_DIR)) {
+    if (dir.startsWith('_')) continue;
+
+    const metaPath = join(INSTANCES_DIR, dir, 'metadata.json');
+    if (existsSync(metaPath)) {
+      const meta = readJson<InstanceMetadata>(metaPath, result);
+      if (meta) {
+        instanceRepository.save(meta);
+        result.instances++;
+      }
+    }
+
+    const alertsPath = join(INSTANCES_DIR, dir, 'alerts.json');
+    if (existsSync(alertsPath)) {
+      const history = readJson<AlertHistory>(alertsPath, result);
+      if (history) {
+        alertHistoryRepository.save({ ...history, instanceId: dir });
+        result.alertHistories++;
+      }
+    }
+  }
+}
+
+function importHealth(result: ImportResult): void {
+  if (!existsSync(HEALTH_FILE)) return;
+
+  const state = readJson<{ statuses: Record<string, HealthStatus>; lastFullCheck: string }>(HEALTH_FILE, result);
+  if (!state) return;
+
+  for (const status of Object.values(state.statuses || {})) {
+    healthStatusRepository.save(status);
+    result.healthStatuses++;
+  }
+  if (state.lastFullCheck) {
+    setMeta(HEALTH_LAST_FULL_CHECK_KEY, state.lastFullCheck);
+  }
+}
+
+function importMaintenances(result: ImportResult): void {
+  if (!existsSync(MAINTENANCE_FILE)) return;
+
+  const maintenances = readJson<Maintenance[]>(MAINTENANCE_FILE, result);
+  if (!maintenances) return;
+
+  for (const maintenance of maintenances) {
+    maintenanceRepository.save(maintenance);
+    result.maintenances++;
+  }
+}
+
+function importDailyStats(result: ImportResult): void {
+  if (!existsSync(STATS_DIR)) return;
+
+  for (const file of readdirSync(STATS_DIR)) {
+    if (!file.endsWith('.json')) continue;
+    const stats = readJson<DailyStats>(join(STATS_DIR, file), result);
+    if (!stats) continue;
+    dailyStatsRepository.save(stats);
+    result.dailyStats++;
+  }
+}
+
+/**
+ * Import all legacy JSON state into the database. Skipped when a previous
+ * import has already completed, unless `force` is set. The JSON files are
+ * left in place so a rollback to the file-based version stays possible.
+ */
+export function importLegacyData(force = false): ImportResult | null {
+  const completedAt = getMeta(IMPORT_META_KEY);
+  if (completedAt && !force) {
+    return null;
+  }
+
+  const result: ImportResult = {
+    sharedUsers: 0,
+    instances: 0,
+    alertHistories: 0,
+    healthStatuses: 0,
+    maintenances: 0,
+    dailyStats: 0,
+    errors: [],
+  };
+
+  db.transaction(() => {
+    importSharedUsers(result);
+    importInstances(result);
+    importHealth(result);
+    importMaintenances(result);
+    importDailyStats(result);
+    setMeta(IMPORT_META_KEY, new Date().toISOString());
+  }).immediate();
+
+  console.log(
+    `Legacy import complete: ${result.sharedUsers} shared users, ${result.instances} instances, ` +
+    `${result.alertHistories} alert histories, ${result.healthStatuses} health statuses, ` +
+    `${result.maintenances} maintenances, ${result.dailyStats} daily stats`
+  );
+  for (const error of result.errors) {
+    console.error(`Legacy import skipped ${error}`);
+  }
+
+  return result;
+}
+
+if (import.meta.main) {
+  importLegacyData(process.argv.includes('--force'));
+}
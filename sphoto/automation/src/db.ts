@@ -0,0 +1,456 @@
+// =============================================================================
+// Database (SQLite State Store)
+// =============================================================================
+// Single transactional store for all automation state. Every module talks to
+// its table through a repository created with createRepository().
+
+import { Database } from 'bun:sqlite';
+import { mkdirSync } from 'fs';
+import { dirname } from 'path';
+import { DATABASE_PATH } from './config';
+
+mkdirSync(dirname(DATABASE_PATH), { recursive: true });
+
+export const db = new Database(DATABASE_PATH, { create: true });
+
+db.exec('PRAGMA journal_mode = WAL');
+db.exec('PRAGMA busy_timeout = 5000');
+
+// =============================================================================
+// Schema Migrations
+// =============================================================================
+// Each entry is applied once, in order. Never edit an existing entry - append.
+
+const MIGRATIONS: string[] = [
+  `
+  CREATE TABLE meta (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+  );
+
+  CREATE TABLE shared_users (
+    key TEXT PRIMARY KEY,
+    email TEXT,
+    immich_user_id TEXT,
+    stripe_customer_id TEXT,
+    portal_token TEXT,
+    status TEXT,
+    data TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+  CREATE INDEX idx_shared_users_email ON shared_users (email);
+  CREATE INDEX idx_shared_users_immich_user_id ON shared_users (immich_user_id);
+  CREATE INDEX idx_shared_users_stripe_customer_id ON shared_users (stripe_customer_id);
+  CREATE INDEX idx_shared_users_portal_token ON shared_users (portal_token);
+
+  CREATE TABLE instances (
+    key TEXT PRIMARY KEY,
+    email TEXT,
+    status TEXT,
+    data TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+
+  CREATE TABLE alert_histories (
+    key TEXT PRIMARY KEY,
+    data TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+
+  CREATE TABLE health_statuses (
+    key TEXT PRIMARY KEY,
+    data TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+
+  CREATE TABLE maintenances (
+    key TEXT PRIMARY KEY,
+    status TEXT,
+    scheduled_start TEXT,
+    data TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+
+  CREATE TABLE daily_stats (
+    key TEXT PRIMARY KEY,
+    data TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+
+  CREATE TABLE export_jobs (
+    key TEXT PRIMARY KEY,
+    instance_id TEXT,
+    status TEXT,
+    download_token TEXT,
+    data TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+  CREATE INDEX idx_export_jobs_instance_id ON export_jobs (instance_id);
+  CREATE INDEX idx_export_jobs_download_token ON export_jobs (download_token);
+  `,
+  `
+  CREATE TABLE user_migrations (
+    key TEXT PRIMARY KEY,
+    visible_id TEXT,
+    status TEXT,
+    data TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+  CREATE INDEX idx_user_migrations_visible_id ON user_migrations (visible_id);
+  `,
+  `
+  CREATE TABLE scheduled_jobs (
+    key TEXT PRIMARY KEY,
+    data TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+  `,
+  `
+  CREATE TABLE stripe_events (
+    key TEXT PRIMARY KEY,
+    type TEXT,
+    status TEXT,
+    data TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+  CREATE INDEX idx_stripe_events_status ON stripe_events (status);
+
+  ALTER TABLE shared_users ADD COLUMN billing_status TEXT;
+  CREATE INDEX idx_shared_users_billing_status ON shared_users (billing_status);
+  `,
+  `
+  CREATE TABLE admin_accounts (
+    key TEXT PRIMARY KEY,
+    name TEXT,
+    api_key_hash TEXT,
+    data TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+  CREATE UNIQUE INDEX idx_admin_accounts_name ON admin_accounts (name);
+  CREATE UNIQUE INDEX idx_admin_accounts_api_key_hash ON admin_accounts (api_key_hash);
+
+  CREATE TABLE audit_log (
+    key TEXT PRIMARY KEY,
+    actor_id TEXT,
+    target_id TEXT,
+    data TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+  CREATE INDEX idx_audit_log_actor_id ON audit_log (actor_id);
+  CREATE INDEX idx_audit_log_target_id ON audit_log (target_id);
+  `,
+  `
+  CREATE TABLE rate_limits (
+    key TEXT PRIMARY KEY,
+    data TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+
+  CREATE TABLE email_verifications (
+    key TEXT PRIMARY KEY,
+    email TEXT,
+    data TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+  CREATE INDEX idx_email_verifications_email ON email_verifications (email);
+  `,
+  `
+  CREATE TABLE email_outbox (
+    key TEXT PRIMARY KEY,
+    status TEXT,
+    recipient TEXT,
+    data TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+  CREATE INDEX idx_email_outbox_status ON email_outbox (status);
+  CREATE INDEX idx_email_outbox_recipient ON email_outbox (recipient);
+  `,
+  `
+  CREATE TABLE shared_exports (
+    key TEXT PRIMARY KEY,
+    visible_id TEXT,
+    status TEXT,
+    download_token TEXT,
+    data TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+  CREATE INDEX idx_shared_exports_visible_id ON shared_exports (visible_id);
+  CREATE INDEX idx_shared_exports_download_token ON shared_exports (download_token);
+  `,
+  `
+  CREATE TABLE status_components (
+    key TEXT PRIMARY KEY,
+    data TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+
+  CREATE TABLE status_incidents (
+    key TEXT PRIMARY KEY,
+    status TEXT,
+    data TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+
+  CREATE TABLE status_uptime (
+    key TEXT PRIMARY KEY,
+    component TEXT,
+    data TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+  CREATE INDEX idx_status_uptime_component ON status_uptime (component);
+
+  CREATE TABLE status_subscribers (
+    key TEXT PRIMARY KEY,
+    email TEXT,
+    data TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+  CREATE INDEX idx_status_subscribers_email ON status_subscribers (email);
+  `,
+  `
+  CREATE TABLE health_history (
+    key TEXT PRIMARY KEY,
+    instance_id TEXT,
+    data TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+  CREATE INDEX idx_health_history_instance_id ON health_history (instance_id);
+  `,
+  `
+  CREATE TABLE alert_channels (
+    key TEXT PRIMARY KEY,
+    data TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+  `,
+  `
+  CREATE TABLE referrals (
+    key TEXT PRIMARY KEY,
+    referrer_id TEXT,
+    data TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+  CREATE INDEX idx_referrals_referrer_id ON referrals (referrer_id);
+
+  ALTER TABLE shared_users ADD COLUMN referral_code TEXT;
+  CREATE INDEX idx_shared_users_referral_code ON shared_users (referral_code);
+  `,
+  `
+  CREATE TABLE households (
+    key TEXT PRIMARY KEY,
+    data TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+
+  CREATE TABLE household_invites (
+    key TEXT PRIMARY KEY,
+    household_id TEXT,
+    email TEXT,
+    data TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+  CREATE INDEX idx_household_invites_household_id ON household_invites (household_id);
+  CREATE INDEX idx_household_invites_email ON household_invites (email);
+
+  ALTER TABLE shared_users ADD COLUMN household_id TEXT;
+  CREATE INDEX idx_shared_users_household_id ON shared_users (household_id);
+  `,
+  `
+  CREATE TABLE invoices (
+    key TEXT PRIMARY KEY,
+    customer_id TEXT,
+    month TEXT,
+    data TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+  CREATE INDEX idx_invoices_customer_id ON invoices (customer_id);
+  CREATE INDEX idx_invoices_month ON invoices (month);
+  `,
+  `
+  CREATE TABLE usage_snapshots (
+    key TEXT PRIMARY KEY,
+    visible_id TEXT,
+    period TEXT,
+    data TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+  CREATE INDEX idx_usage_snapshots_visible_id ON usage_snapshots (visible_id);
+  CREATE INDEX idx_usage_snapshots_period ON usage_snapshots (period);
+  `,
+  `
+  CREATE TABLE instance_backups (
+    key TEXT PRIMARY KEY,
+    instance_id TEXT,
+    status TEXT,
+    data TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+  CREATE INDEX idx_instance_backups_instance_id ON instance_backups (instance_id);
+  CREATE INDEX idx_instance_backups_status ON instance_backups (status);
+
+  CREATE TABLE backup_restores (
+    key TEXT PRIMARY KEY,
+    status TEXT,
+    data TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+  CREATE INDEX idx_backup_restores_status ON backup_restores (status);
+  `,
+  `
+  ALTER TABLE instances ADD COLUMN portal_token TEXT;
+  CREATE INDEX idx_instances_portal_token ON instances (portal_token);
+  `,
+  `
+  CREATE TABLE reconcile_runs (
+    key TEXT PRIMARY KEY,
+    status TEXT,
+    data TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+  CREATE INDEX idx_reconcile_runs_status ON reconcile_runs (status);
+  `,
+  `
+  CREATE TABLE release_rollouts (
+    key TEXT PRIMARY KEY,
+    status TEXT,
+    data TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+  CREATE INDEX idx_release_rollouts_status ON release_rollouts (status);
+  `,
+  // Shared user emails are matched case-insensitively, the column holds the normalized form
+  `
+  UPDATE shared_users SET email = lower(trim(email));
+  `,
+  // Same for the instance owner emails
+  `
+  UPDATE instances SET email = lower(trim(email));
+  `,
+];
+
+function migrate(): void {
+  const { user_version: current } = db.query('PRAGMA user_version').get() as { user_version: number };
+
+  for (let version = current; version < MIGRATIONS.length; version++) {
+    db.transaction(() => {
+      db.exec(MIGRATIONS[version]);
+      db.exec(`PRAGMA user_version = ${version + 1}`);
+    }).immediate();
+    console.log(`Database migrated to version ${version + 1}`);
+  }
+}
+
+migrate();
+
+// =============================================================================
+// Key/Value Meta
+// =============================================================================
+
+export function getMeta(key: string): string | null {
+  const row = db.query('SELECT value FROM meta WHERE key = ?').get(key) as { value: string } | null;
+  return row ? row.value : null;
+}
+
+export function setMeta(key: string, value: string): void {
+  db.query('INSERT INTO meta (key, value) VALUES (?, ?) ON CONFLICT(key) DO UPDATE SET value = excluded.value')
+    .run(key, value);
+}
+
+// =============================================================================
+// Repositories
+// =============================================================================
+
+type ColumnValue = string | number | null;
+
+export interface Repository<T> {
+  get(key: string): T | null;
+  findBy(column: string, value: ColumnValue): T | null;
+  list(): T[];
+  listBy(column: string, value: ColumnValue): T[];
+  save(entity: T): T;
+  update(key: string, mutate: (entity: T) => void): T | null;
+  delete(key: string): boolean;
+}
+
+export interface RepositoryOptions<T> {
+  key: (entity: T) => string;
+  // Indexed columns derived from the entity, used for lookups
+  columns?: Record<string, (entity: T) => ColumnValue | undefined>;
+}
+
+export function createRepository<T>(table: string, options: RepositoryOptions<T>): Repository<T> {
+  const columns = options.columns || {};
+  const columnNames = Object.keys(columns);
+  const allColumns = ['key', ...columnNames, 'data', 'updated_at'];
+
+  const upsert = db.query(`
+    INSERT INTO ${table} (${allColumns.join(', ')})
+    VALUES (${allColumns.map(() => '?').join(', ')})
+    ON CONFLICT(key) DO UPDATE SET ${allColumns.slice(1).map(c => `${c} = excluded.${c}`).join(', ')}
+  `);
+  const selectOne = db.query(`SELECT data FROM ${table} WHERE key = ?`);
+  const selectAll = db.query(`SELECT data FROM ${table} ORDER BY key`);
+  const deleteOne = db.query(`DELETE FROM ${table} WHERE key = ?`);
+
+  function assertColumn(column: string): void {
+    if (!columnNames.includes(column)) {
+      throw new Error(`Unknown column ${table}.${column}`);
+    }
+  }
+
+  function parse(row: { data: string } | null): T | null {
+    return row ? JSON.parse(row.data) as T : null;
+  }
+
+  function save(entity: T): T {
+    const values: ColumnValue[] = [
+      options.key(entity),
+      ...columnNames.map(c => columns[c](entity) ?? null),
+      JSON.stringify(entity),
+      new Date().toISOString(),
+    ];
+    upsert.run(...values);
+    return entity;
+  }
+
+  function get(key: string): T | null {
+    return parse(selectOne.get(key) as { data: string } | null);
+  }
+
+  return {
+    get,
+
+    findBy(column, value) {
+      assertColumn(column);
+      const row = db.query(`SELECT data FROM ${table} WHERE ${column} = ? LIMIT 1`).get(value);
+      return parse(row as { data: string } | null);
+    },
+
+    list() {
+      return (selectAll.all() as Array<{ data: string }>).map(r => JSON.parse(r.data) as T);
+    },
+
+    listBy(column, value) {
+      assertColumn(column);
+      const rows = db.query(`SELECT data FROM ${table} WHERE ${column} = ? ORDER BY key`).all(value);
+      return (rows as Array<{ data: string }>).map(r => JSON.parse(r.data) as T);
+    },
+
+    save,
+
+    // Read-modify-write inside a single transaction, so concurrent webhook and
+    // scheduler writes never overwrite each other's fields with stale copies.
+    update(key, mutate) {
+      return db.transaction(() => {
+        const entity = get(key);
+        if (!entity) return null;
+        mutate(entity);
+        return save(entity);
+      }).immediate();
+    },
+
+    delete(key) {
+      return deleteOne.run(key).changes > 0;
+    },
+  };
+}
@@ -0,0 +1,386 @@
+// =============================================================================
+// Dunning & Grace Period
+// =============================================================================
+// State machine on SharedUser.billingStatus:
+//   active -> past_due   invoice.payment_failed
+//   past_due -> suspended   after DUNNING.pastDueDays
+//   active -> suspended   customer.subscription.deleted
+//   suspended -> downgraded   grace period over, handled per grace policy
+//   past_due/suspended -> active   invoice.paid or a new subscription
+//
+// Suspended accounts are read-only: the Immich quota is pinned to the current
+// usage, so nothing is lost while the user decides.
+
+import Stripe from 'stripe';
+import { env, DUNNING, GRACE_PERIOD } from './config';
+import type { GracePolicy } from './config';
+import {
+  getSharedUser,
+  updateSharedUserTier,
+  migrateUserBetweenInstances,
+  pinSharedUserQuota,
+  restoreSharedUserQuota,
+  requestAccountDeletion,
+  resetSharedUserPassword,
+} from './shared-users';
+import { prepareDeletionExport, keepSharedExportUntil, sharedExportDownloadUrl } from './shared-export';
+import { syncHousehold } from './households';
+import { getMeta, setMeta } from './db';
+import { sharedUserRepository } from './repositories';
+import {
+  sendPastDueEmail,
+  sendAccountSuspendedEmail,
+  sendGraceReminderEmail,
+  sendPaymentRecoveredEmail,
+  sendGraceDeletionEmail,
+} from './email';
+import type { SharedUser, BillingStatus, UserTier } from './types';
+
+const stripe = new Stripe(env.STRIPE_SECRET_KEY);
+
+export const GRACE_POLICY_META_KEY = 'grace.policy';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Family plan members follow the subscriber's billing status
+async function syncMembers(user: SharedUser): Promise<void> {
+  if (user.householdId) {
+    await syncHousehold(user.householdId);
+  }
+}
+
+function setBillingStatus(visibleId: string, status: BillingStatus): SharedUser | null {
+  return sharedUserRepository.update(visibleId, u => {
+    u.billingStatus = status;
+    u.billingStatusSince = new Date().toISOString();
+    if (status === 'active') {
+      u.paymentFailures = 0;
+      delete u.suspensionReason;
+      delete u.graceEndsAt;
+      delete u.graceRemindersSent;
+      delete u.graceActionError;
+    }
+  });
+}
+
+function daysSince(iso: string | undefined): number {
+  if (!iso) return 0;
+  return (Date.now() - new Date(iso).getTime()) / DAY_MS;
+}
+
+// Accounts suspended before grace periods existed end suspendedDays after suspension
+function getGraceEnd(user: SharedUser): Date {
+  if (user.graceEndsAt) return new Date(user.graceEndsAt);
+  return new Date(new Date(user.billingStatusSince || Date.now()).getTime() + DUNNING.suspendedDays * DAY_MS);
+}
+
+export function getGraceDaysRemaining(user: SharedUser): number | null {
+  if (user.billingStatus !== 'suspended') return null;
+  return Math.max(0, Math.ceil((getGraceEnd(user).getTime() - Date.now()) / DAY_MS));
+}
+
+// =============================================================================
+// Grace Policy (admin-configurable)
+// =============================================================================
+
+export function getGracePolicy(): GracePolicy {
+  const stored = getMeta(GRACE_POLICY_META_KEY);
+  return stored === 'migrate' || stored === 'export_delete' ? stored : GRACE_PERIOD.defaultPolicy;
+}
+
+export function setGracePolicy(policy: GracePolicy): void {
+  setMeta(GRACE_POLICY_META_KEY, policy);
+  console.log(`Grace period policy set to ${policy}`);
+}
+
+// =============================================================================
+// Webhook Transitions
+// =============================================================================
+
+export async function handlePaymentFailed(visibleId: string): Promise<void> {
+  const user = getSharedUser(visibleId);
+  if (!user) return;
+
+  // Stripe retries the charge; later failures only count
+  if (user.billingStatus === 'past_due' || user.billingStatus === 'suspended') {
+    sharedUserRepository.update(visibleId, u => {
+      u.paymentFailures = (u.paymentFailures || 0) + 1;
+    });
+    return;
+  }
+
+  sharedUserRepository.update(visibleId, u => {
+    u.billingStatus = 'past_due';
+    u.billingStatusSince = new Date().toISOString();
+    u.paymentFailures = 1;
+  });
+
+  await sendPastDueEmail(user.email, DUNNING.pastDueDays);
+  console.log(`${user.email} is past due`);
+}
+
+export async function handlePaymentSucceeded(visibleId: string): Promise<void> {
+  const user = getSharedUser(visibleId);
+  if (!user) return;
+  if (user.billingStatus !== 'past_due' && user.billingStatus !== 'suspended') return;
+  // A paid final invoice doesn't bring back an ended subscription
+  if (user.suspensionReason === 'subscription_ended') return;
+
+  if (user.billingStatus === 'suspended') {
+    const result = await restoreSharedUserQuota(visibleId);
+    if (!result.success) {
+      // Throw so the webhook is retried - the user paid and must get uploads back
+      throw new Error(`Failed to restore quota for ${user.email}: ${result.error}`);
+    }
+  }
+
+  setBillingStatus(visibleId, 'active');
+  await syncMembers(user);
+  await sendPaymentRecoveredEmail(user.email);
+  console.log(`${user.email} paid, billing status back to active`);
+}
+
+export async function handleSubscriptionEnded(visibleId: string): Promise<void> {
+  const user = getSharedUser(visibleId);
+  if (!user) return;
+
+  if (user.billingStatus === 'downgraded') {
+    // Cancelled by ourselves at the end of a grace period
+    return;
+  }
+  if (user.billingStatus === 'suspended') {
+    // Already read-only for a failed payment; keep the running grace period
+    return;
+  }
+
+  await suspend(user, 'subscription_ended', GRACE_PERIOD.subscriptionEndedDays);
+}
+
+// A new subscription (e.g. resubscribing after a downgrade) starts clean
+export function resetBillingStatus(visibleId: string): void {
+  const user = getSharedUser(visibleId);
+  if (user?.billingStatus && user.billingStatus !== 'active') {
+    setBillingStatus(visibleId, 'active');
+  }
+}
+
+/**
+ * Resubscribe a suspended user that is still on the paid instance: the new
+ * tier quota replaces the pinned one and the grace period is cleared.
+ */
+export async function reactivateSharedUser(
+  visibleId: string,
+  tier: UserTier,
+  quotaGB: number
+): Promise<{ success: boolean; error?: string }> {
+  const result = await updateSharedUserTier(visibleId, tier, quotaGB);
+  if (!result.success) return result;
+
+  const user = setBillingStatus(visibleId, 'active');
+  if (user) await syncMembers(user);
+  console.log(`Reactivated suspended account ${visibleId} on ${tier}`);
+  return { success: true };
+}
+
+// =============================================================================
+// Scheduled Transitions
+// =============================================================================
+
+async function suspend(
+  user: SharedUser,
+  reason: 'payment_failed' | 'subscription_ended',
+  graceDays: number
+): Promise<void> {
+  const result = await pinSharedUserQuota(user.visibleId);
+  if (!result.success) {
+    // Throw so the webhook or job is retried - never leave a
+    // cancelled user with full upload rights
+    throw new Error(`Failed to suspend ${user.email}: ${result.error}`);
+  }
+
+  const graceEndsAt = new Date(Date.now() + graceDays * DAY_MS).toISOString();
+  sharedUserRepository.update(user.visibleId, u => {
+    u.billingStatus = 'suspended';
+    u.billingStatusSince = new Date().toISOString();
+    u.suspensionReason = reason;
+    u.graceEndsAt = graceEndsAt;
+    u.graceRemindersSent = [];
+    delete u.graceActionError;
+  });
+  await syncMembers(user);
+
+  await sendAccountSuspendedEmail(user.email, reason, graceEndsAt, getGracePolicy());
+  console.log(`${user.email} suspended (read-only, ${reason}) until ${graceEndsAt}`);
+}
+
+async function sendDueReminder(user: SharedUser): Promise<boolean> {
+  const daysLeft = getGraceDaysRemaining(user);
+  if (daysLeft === null || daysLeft === 0) return false;
+
+  const sent = user.graceRemindersSent || [];
+  const due = GRACE_PERIOD.reminderDays.filter(d => daysLeft <= d && !sent.includes(d));
+  if (due.length === 0) return false;
+
+  await sendGraceReminderEmail(user.email, daysLeft, getGracePolicy());
+
+  // Mark every passed reminder at once so a late run sends just one email
+  sharedUserRepository.update(user.visibleId, u => {
+    u.graceRemindersSent = [...sent, ...due];
+  });
+  return true;
+}
+
+async function endGracePeriod(user: SharedUser): Promise<boolean> {
+  const policy = getGracePolicy();
+
+  // Mark first so the customer.subscription.deleted webhook triggered by the
+  // cancellation below does not start a second grace period
+  setBillingStatus(user.visibleId, 'downgraded');
+
+  let error: string | undefined;
+  let exporting = false;
+  let action = policy;
+  try {
+    await syncMembers(user);
+
+    if (user.suspensionReason !== 'subscription_ended' && user.stripeSubscriptionId) {
+      try {
+        // A previous failed run may have cancelled it already
+        const subscription = await stripe.subscriptions.retrieve(user.stripeSubscriptionId);
+        if (subscription.status !== 'canceled') {
+          await stripe.subscriptions.cancel(user.stripeSubscriptionId);
+        }
+      } catch (err) {
+        console.error(`Failed to cancel subscription of ${user.email}:`, err);
+      }
+    }
+
+    if (policy === 'migrate') {
+      const result = await migrateUserBetweenInstances(user.visibleId, 'free');
+      if (result.permanent) {
+        // The library doesn't fit the free tier (or is locked): retrying won't
+        // help, so the user gets the export window of export_delete instead
+        console.warn(`Cannot move ${user.email} to free (${result.message}), scheduling deletion instead`);
+        action = 'export_delete';
+      } else if (!result.success) {
+        error = result.message;
+      }
+    }
+    if (action === 'export_delete') {
+      // The deletion is only scheduled once the export it links to is ready
+      const exported = await prepareDeletionExport(user, getGraceEnd(user).toISOString());
+      if (!exported.ready) {
+        error = exported.error;
+        exporting = !error;
+      } else {
+        const result = requestAccountDeletion(user.visibleId);
+        if (result.success) {
+          const job = exported.job!;
+          keepSharedExportUntil(job.id, result.scheduledFor!);
+          const login = await resetSharedUserPassword(user.visibleId);
+          if (!login.success) {
+            console.error(`Failed to give ${user.email} a new login after the export: ${login.error}`);
+          }
+          await sendGraceDeletionEmail(
+            user.email,
+            user.instance,
+            result.scheduledFor!,
+            sharedExportDownloadUrl(job),
+            job.fileSize || 0,
+            login.password
+          );
+        } else {
+          error = result.error;
+        }
+      }
+    }
+  } catch (err) {
+    error = (err as Error).message;
+  }
+
+  if (error || exporting) {
+    // Stay suspended and retry (or check on the export) on the next run
+    sharedUserRepository.update(user.visibleId, u => {
+      u.billingStatus = 'suspended';
+      u.billingStatusSince = user.billingStatusSince;
+      u.graceActionError = error;
+    });
+    if (error) {
+      console.error(`Failed to end grace period of ${user.email} (${action}): ${error}`);
+    } else {
+      console.log(`Grace period of ${user.email} ends once the export is ready`);
+    }
+    return false;
+  }
+
+  console.log(`Grace period of ${user.email} ended: ${action}`);
+  return true;
+}
+
+function recordGraceActionError(user: SharedUser, error: string): void {
+  sharedUserRepository.update(user.visibleId, u => {
+    u.graceActionError = error;
+  });
+  console.error(`Dunning failed for ${user.email}: ${error}`);
+}
+
+export async function processDunning(): Promise<{ suspended: number; reminded: number; ended: number }> {
+  let suspended = 0;
+  let reminded = 0;
+  let ended = 0;
+
+  // One failing user must not hold up everyone after them; the user stays
+  // past_due and is retried on the next run
+  for (const user of sharedUserRepository.listBy('billing_status', 'past_due')) {
+    if (user.status !== 'active' || daysSince(user.billingStatusSince) < DUNNING.pastDueDays) continue;
+    try {
+      await suspend(user, 'payment_failed', DUNNING.suspendedDays);
+      suspended++;
+    } catch (err) {
+      recordGraceActionError(user, (err as Error).message);
+    }
+  }
+
+  for (const user of sharedUserRepository.listBy('billing_status', 'suspended')) {
+    if (user.status !== 'active') continue;
+
+    try {
+      if (getGraceEnd(user).getTime() > Date.now()) {
+        if (await sendDueReminder(user)) reminded++;
+        continue;
+      }
+
+      if (await endGracePeriod(user)) ended++;
+    } catch (err) {
+      recordGraceActionError(user, (err as Error).message);
+    }
+  }
+
+  return { suspended, reminded, ended };
+}
+
+// Billing state shown in the portal
+export function getPortalBillingInfo(user: SharedUser): {
+  billingStatus: BillingStatus;
+  graceEndsAt?: string;
+  graceDaysRemaining?: number;
+  graceAction?: GracePolicy;
+} {
+  const billingStatus = user.billingStatus || 'active';
+  if (billingStatus !== 'suspended') {
+    return { billingStatus };
+  }
+
+  return {
+    billingStatus,
+    graceEndsAt: getGraceEnd(user).toISOString(),
+    graceDaysRemaining: getGraceDaysRemaining(user) ?? undefined,
+    graceAction: getGracePolicy(),
+  };
+}
+
+export function listDunningUsers(): SharedUser[] {
+  return [
+    ...sharedUserRepository.listBy('billing_status', 'past_due'),
+    ...sharedUserRepository.listBy('billing_status', 'suspended'),
+  ];
+}
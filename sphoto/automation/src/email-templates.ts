@@ -0,0 +1,1408 @@
+// =============================================================================
+// Email Templates
+// =============================================================================
+// Every email the server sends, rendered per language. Customer emails have a
+// German and an English version; admin notifications are English only.
+// Templates only render - delivery and retries live in mailer.ts.
+
+import { env, SHARED_INSTANCES } from './config';
+import type { GracePolicy } from './config';
+import type { Locale, Platform } from './types';
+import type { Maintenance, MaintenanceType } from './maintenance';
+import type { HealthStatus, HealthChecks, HealthCheckName, HealthCheckState } from './health';
+import type { ComponentId, ComponentState, IncidentImpact, IncidentStatus } from './status';
+import type { AlertNotification, AlertSeverity } from './alert-channels';
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+}
+
+type Render<P> = (params: P) => RenderedEmail;
+
+// English is required so every template has a fallback
+interface Template<P> {
+  de?: Render<P>;
+  en: Render<P>;
+}
+
+function defineTemplate<P>(template: Template<P>): Template<P> {
+  return template;
+}
+
+const PORTAL_URL = `https://portal.${env.DOMAIN}`;
+
+// =============================================================================
+// Building Blocks
+// =============================================================================
+
+type Tone = 'neutral' | 'success' | 'warning' | 'danger' | 'info';
+
+const TONES: Record<Tone, { background: string; border: string; text: string }> = {
+  neutral: { background: '#f3f4f6', border: '#e5e7eb', text: '#111' },
+  success: { background: '#dcfce7', border: '#22c55e', text: '#166534' },
+  warning: { background: '#fef3c7', border: '#ca8a04', text: '#854d0e' },
+  danger: { background: '#fef2f2', border: '#dc2626', text: '#dc2626' },
+  info: { background: '#e0e7ff', border: '#4f46e5', text: '#3730a3' },
+};
+
+const DATE_LOCALES: Record<Locale, string> = { de: 'de-CH', en: 'en-GB' };
+
+const FOOTER: Record<Locale, string> = {
+  de: 'Bei Fragen: support@arturf.ch',
+  en: 'Questions? support@arturf.ch',
+};
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function formatDate(value: string | Date, locale: Locale, options?: Intl.DateTimeFormatOptions): string {
+  return new Date(value).toLocaleDateString(DATE_LOCALES[locale], options);
+}
+
+function formatTime(value: string | Date, locale: Locale): string {
+  return new Date(value).toLocaleTimeString(DATE_LOCALES[locale], { hour: '2-digit', minute: '2-digit' });
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes === 0) return '0 B';
+  const k = 1024;
+  const sizes = ['B', 'KB', 'MB', 'GB', 'TB'];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(1)) + ' ' + sizes[i];
+}
+
+// Customer emails: SPhoto header, content and a small footer line
+function layout(body: string, footer: string): string {
+  return `
+    <div style="font-family: -apple-system, BlinkMacSystemFont, sans-serif; max-width: 500px; margin: 0 auto; padding: 20px;">
+      <h1 style="color: #111;"><span style="color: #dc2626;">S</span>Photo</h1>
+      ${body}
+      <p style="color: #666; font-size: 12px; margin-top: 30px;">${footer}</p>
+    </div>
+  `;
+}
+
+// Admin notifications: coloured title instead of the brand header
+function adminLayout(title: string, color: string, body: string): string {
+  return `
+    <div style="font-family: -apple-system, BlinkMacSystemFont, sans-serif; max-width: 500px; margin: 0 auto; padding: 20px;">
+      <h1 style="color: ${color};">${title}</h1>
+      ${body}
+    </div>
+  `;
+}
+
+function box(tone: Tone, content: string): string {
+  const { background, border } = TONES[tone];
+  const outline = tone === 'neutral' ? '' : ` border: 1px solid ${border};`;
+  return `<div style="background: ${background}; padding: 20px; border-radius: 8px; margin: 20px 0;${outline}">${content}</div>`;
+}
+
+function boxTitle(tone: Tone, text: string): string {
+  return `<p style="margin: 0 0 10px 0; font-weight: bold; color: ${TONES[tone].text};">${text}</p>`;
+}
+
+function callout(tone: Tone, content: string): string {
+  return `<p style="background: ${TONES[tone].background}; padding: 10px; border-radius: 4px; font-size: 14px;">${content}</p>`;
+}
+
+function row(label: string, value: string): string {
+  return `<p style="margin: 5px 0;"><strong>${label}:</strong> ${value}</p>`;
+}
+
+function link(url: string, label = url): string {
+  return `<a href="${url}" style="color: #dc2626;">${label}</a>`;
+}
+
+function urlRow(label: string, url: string): string {
+  return `
+    <p style="margin: 10px 0 0 0;"><strong>${label}:</strong></p>
+    <p style="margin: 5px 0 0 0; font-size: 18px;">${link(url)}</p>
+  `;
+}
+
+function button(url: string, label: string): string {
+  return `
+    <div style="text-align: center; margin: 30px 0;">
+      <a href="${url}"
+         style="display: inline-block; background: #dc2626; color: white; padding: 15px 30px; border-radius: 8px; text-decoration: none; font-weight: bold;">
+        ${label}
+      </a>
+    </div>
+  `;
+}
+
+function credentials(locale: Locale, heading: string, loginLabel: string, login: string, password: string): string {
+  const hint = locale === 'de'
+    ? 'Bitte ändere dein Passwort nach dem ersten Login.'
+    : 'Please change your password after your first login.';
+  return box('success', `
+    ${boxTitle('success', `🔐 ${heading}`)}
+    ${row(loginLabel, escapeHtml(login))}
+    ${row(locale === 'de' ? 'Passwort' : 'Password', `<code style="background: #f3f4f6; padding: 2px 6px; border-radius: 4px;">${escapeHtml(password)}</code>`)}
+    <p style="margin: 10px 0 0 0; font-size: 12px; color: #666;">${hint}</p>
+  `);
+}
+
+function noBackupNotice(locale: Locale): string {
+  return callout('warning', locale === 'de'
+    ? '⚠️ <strong>Wichtig:</strong> SPhoto ist ein Budget-Service ohne Backup. Erstelle eigene Backups!'
+    : '⚠️ <strong>Important:</strong> SPhoto is a budget service without backups. Keep your own copies!');
+}
+
+function sharedInstanceUrl(instance: 'free' | 'paid'): string {
+  return SHARED_INSTANCES[instance].url;
+}
+
+function graceActionText(action: GracePolicy, locale: Locale): string {
+  if (locale === 'de') {
+    return action === 'migrate'
+      ? 'auf den Free Plan (5 GB) zurückgestuft'
+      : 'gelöscht. Lade deine Fotos vorher herunter';
+  }
+  return action === 'migrate'
+    ? 'downgraded to the Free plan (5 GB)'
+    : 'deleted. Download your photos before then';
+}
+
+const MAINTENANCE_LABELS: Record<Locale, Record<MaintenanceType, string>> = {
+  de: {
+    update: 'Software-Update',
+    backup: 'Backup-Wartung',
+    migration: 'Server-Migration',
+    emergency: 'Notfall-Wartung',
+  },
+  en: {
+    update: 'Software update',
+    backup: 'Backup maintenance',
+    migration: 'Server migration',
+    emergency: 'Emergency maintenance',
+  },
+};
+
+const MAINTENANCE_ICONS: Record<MaintenanceType, string> = {
+  update: '🔧',
+  backup: '💾',
+  migration: '🚀',
+  emergency: '⚠️',
+};
+
+function maintenanceBanner(tone: Tone, heading: string, title: string): string {
+  return box(tone, `
+    ${boxTitle(tone, heading)}
+    <p style="margin: 0; font-size: 18px; font-weight: bold;">${escapeHtml(title)}</p>
+  `);
+}
+
+function storageTone(percentage: number): { tone: Tone; color: string; icon: string } {
+  if (percentage >= 100) return { tone: 'danger', color: '#dc2626', icon: '🔴' };
+  if (percentage >= 90) return { tone: 'warning', color: '#ea580c', icon: '🟠' };
+  return { tone: 'warning', color: '#ca8a04', icon: '🟡' };
+}
+
+function storageBar(percentage: number, color: string, usedLabel: string): string {
+  return box('neutral', `
+    <p style="margin: 0;">${usedLabel}</p>
+    <div style="background: #e5e7eb; border-radius: 4px; height: 8px; margin-top: 10px;">
+      <div style="background: ${color}; border-radius: 4px; height: 8px; width: ${Math.min(percentage, 100)}%;"></div>
+    </div>
+  `);
+}
+
+// =============================================================================
+// Account & Onboarding
+// =============================================================================
+
+interface WelcomeParams {
+  id: string;
+  email: string;
+  planName: string;
+  storageGb: number;
+  password: string | null;
+  platform: Platform;
+}
+
+function nextcloudUsername(email: string): string {
+  return email.split('@')[0].toLowerCase().replace(/[^a-z0-9]/g, '').slice(0, 20) || 'admin';
+}
+
+const welcome = defineTemplate<WelcomeParams>({
+  de: p => {
+    const url = `https://${p.id}.${env.DOMAIN}`;
+    const isNextcloud = p.platform === 'nextcloud';
+    const platformName = isNextcloud ? 'Nextcloud' : 'Immich';
+    const loginInfo = p.password
+      ? credentials('de', 'Deine Login-Daten:',
+        isNextcloud ? 'Benutzername' : 'E-Mail',
+        isNextcloud ? nextcloudUsername(p.email) : p.email,
+        p.password)
+      : callout('warning', 'Öffne die URL und erstelle deinen Admin-Account.');
+
+    return {
+      subject: `${isNextcloud ? '☁️' : '📸'} Deine SPhoto ${platformName} Cloud ist bereit!`,
+      html: layout(`
+        <p>Hallo!</p>
+        <p>Deine persönliche ${platformName} Cloud ist bereit.</p>
+        ${box('neutral', `
+          ${row('Plan', `${escapeHtml(p.planName)} (${p.storageGb} GB)`)}
+          ${row('Plattform', platformName)}
+          ${urlRow('Deine URL', url)}
+        `)}
+        ${loginInfo}
+        <h3>Nächste Schritte:</h3>
+        <ol>
+          <li>Öffne ${link(url)}</li>
+          <li>${p.password ? 'Logge dich mit den obigen Daten ein' : 'Erstelle deinen Account'}</li>
+          <li>Lade die <strong>${platformName} App</strong> (${isNextcloud ? 'iOS/Android/Desktop' : 'iOS/Android'})</li>
+          <li>Verbinde mit: <code>${url}</code></li>
+        </ol>
+        ${isNextcloud ? `<p><strong>Apps herunterladen:</strong><br>${link('https://nextcloud.com/install/#install-clients', 'nextcloud.com/install')}</p>` : ''}
+        ${noBackupNotice('de')}
+      `, FOOTER.de),
+    };
+  },
+  en: p => {
+    const url = `https://${p.id}.${env.DOMAIN}`;
+    const isNextcloud = p.platform === 'nextcloud';
+    const platformName = isNextcloud ? 'Nextcloud' : 'Immich';
+    const loginInfo = p.password
+      ? credentials('en', 'Your login details:',
+        isNextcloud ? 'Username' : 'Email',
+        isNextcloud ? nextcloudUsername(p.email) : p.email,
+        p.password)
+      : callout('warning', 'Open the URL and create your admin account.');
+
+    return {
+      subject: `${isNextcloud ? '☁️' : '📸'} Your SPhoto ${platformName} cloud is ready!`,
+      html: layout(`
+        <p>Hello!</p>
+        <p>Your personal ${platformName} cloud is ready.</p>
+        ${box('neutral', `
+          ${row('Plan', `${escapeHtml(p.planName)} (${p.storageGb} GB)`)}
+          ${row('Platform', platformName)}
+          ${urlRow('Your URL', url)}
+        `)}
+        ${loginInfo}
+        <h3>Next steps:</h3>
+        <ol>
+          <li>Open ${link(url)}</li>
+          <li>${p.password ? 'Log in with the details above' : 'Create your account'}</li>
+          <li>Install the <strong>${platformName} app</strong> (${isNextcloud ? 'iOS/Android/desktop' : 'iOS/Android'})</li>
+          <li>Connect it to: <code>${url}</code></li>
+        </ol>
+        ${isNextcloud ? `<p><strong>Download the apps:</strong><br>${link('https://nextcloud.com/install/#install-clients', 'nextcloud.com/install')}</p>` : ''}
+        ${noBackupNotice('en')}
+      `, FOOTER.en),
+    };
+  },
+});
+
+interface WelcomeSharedParams {
+  email: string;
+  instance: 'free' | 'paid';
+  planName: string;
+  storageGb: number;
+  password: string | null;
+}
+
+const welcomeShared = defineTemplate<WelcomeSharedParams>({
+  de: p => {
+    const url = sharedInstanceUrl(p.instance);
+    const planName = escapeHtml(p.planName);
+    return {
+      subject: `📸 Deine SPhoto ${p.planName} Cloud ist bereit!`,
+      html: layout(`
+        <p>Hallo!</p>
+        <p>Dein SPhoto Account ist bereit.</p>
+        ${box('neutral', `
+          ${row('Plan', `${planName} (${p.storageGb} GB)`)}
+          ${urlRow('Deine URL', url)}
+        `)}
+        ${p.password
+          ? credentials('de', 'Deine Login-Daten:', 'E-Mail', p.email, p.password)
+          : callout('warning', 'Dein Account wurde erstellt. Logge dich mit deiner E-Mail-Adresse ein.')}
+        <h3>Nächste Schritte:</h3>
+        <ol>
+          <li>Öffne ${link(url)}</li>
+          <li>Logge dich mit deinen Daten ein</li>
+          <li>Lade die <strong>Immich App</strong> (iOS/Android)</li>
+          <li>Verbinde mit: <code>${url}</code></li>
+        </ol>
+        ${p.instance === 'free'
+          ? callout('info', `💡 <strong>Free Plan:</strong> Gesichtserkennung und Smart Search sind deaktiviert.
+            ${link(`https://${env.DOMAIN}`, 'Upgrade auf einen bezahlten Plan')} für alle Features.`)
+          : callout('success', `✨ <strong>${planName} Plan:</strong> Gesichtserkennung und Smart Search sind aktiviert!`)}
+        ${noBackupNotice('de')}
+      `, FOOTER.de),
+    };
+  },
+  en: p => {
+    const url = sharedInstanceUrl(p.instance);
+    const planName = escapeHtml(p.planName);
+    return {
+      subject: `📸 Your SPhoto ${p.planName} cloud is ready!`,
+      html: layout(`
+        <p>Hello!</p>
+        <p>Your SPhoto account is ready.</p>
+        ${box('neutral', `
+          ${row('Plan', `${planName} (${p.storageGb} GB)`)}
+          ${urlRow('Your URL', url)}
+        `)}
+        ${p.password
+          ? credentials('en', 'Your login details:', 'Email', p.email, p.password)
+          : callout('warning', 'Your account has been created. Log in with your email address.')}
+        <h3>Next steps:</h3>
+        <ol>
+          <li>Open ${link(url)}</li>
+          <li>Log in with your details</li>
+          <li>Install the <strong>Immich app</strong> (iOS/Android)</li>
+          <li>Connect it to: <code>${url}</code></li>
+        </ol>
+        ${p.instance === 'free'
+          ? callout('info', `💡 <strong>Free plan:</strong> face recognition and smart search are disabled.
+            ${link(`https://${env.DOMAIN}`, 'Upgrade to a paid plan')} for all features.`)
+          : callout('success', `✨ <strong>${planName} plan:</strong> face recognition and smart search are enabled!`)}
+        ${noBackupNotice('en')}
+      `, FOOTER.en),
+    };
+  },
+});
+
+interface PlanChangeParams {
+  planName: string;
+  storageGb: number;
+  instance: 'free' | 'paid';
+}
+
+const planChange = defineTemplate<PlanChangeParams>({
+  de: p => {
+    const isFree = p.instance === 'free';
+    return {
+      subject: isFree ? '📸 SPhoto: Dein Plan wurde geändert' : '🎉 SPhoto: Willkommen beim neuen Plan!',
+      html: layout(`
+        <p>Hallo!</p>
+        <p>Dein SPhoto Plan wurde ${isFree ? 'auf Free zurückgesetzt' : 'aktualisiert'}.</p>
+        ${box(isFree ? 'warning' : 'success', `
+          ${row('Neuer Plan', escapeHtml(p.planName))}
+          ${row('Speicher', `${p.storageGb} GB`)}
+          ${urlRow('Deine URL', sharedInstanceUrl(p.instance))}
+        `)}
+        ${isFree
+          ? callout('warning', `📦 Deine Fotos werden auf die neue Instanz übertragen.
+            Sobald alles kopiert ist, erhältst du eine E-Mail mit deinen neuen Login-Daten.`)
+          : callout('success', '✨ Gesichtserkennung und Smart Search sind jetzt aktiviert!')}
+      `, FOOTER.de),
+    };
+  },
+  en: p => {
+    const isFree = p.instance === 'free';
+    return {
+      subject: isFree ? '📸 SPhoto: Your plan has changed' : '🎉 SPhoto: Welcome to your new plan!',
+      html: layout(`
+        <p>Hello!</p>
+        <p>Your SPhoto plan has been ${isFree ? 'reset to Free' : 'updated'}.</p>
+        ${box(isFree ? 'warning' : 'success', `
+          ${row('New plan', escapeHtml(p.planName))}
+          ${row('Storage', `${p.storageGb} GB`)}
+          ${urlRow('Your URL', sharedInstanceUrl(p.instance))}
+        `)}
+        ${isFree
+          ? callout('warning', `📦 Your photos are being moved to the new instance.
+            Once everything is copied you will get an email with your new login details.`)
+          : callout('success', '✨ Face recognition and smart search are now enabled!')}
+      `, FOOTER.en),
+    };
+  },
+});
+
+interface LibraryMigratedParams {
+  email: string;
+  planName: string;
+  storageGb: number;
+  instance: 'free' | 'paid';
+  password: string;
+  assetCount: number;
+}
+
+const libraryMigrated = defineTemplate<LibraryMigratedParams>({
+  de: p => {
+    const url = sharedInstanceUrl(p.instance);
+    return {
+      subject: '📦 SPhoto: Deine Fotos sind umgezogen',
+      html: layout(`
+        <p>Hallo!</p>
+        <p>Deine Mediathek wurde vollständig übertragen: <strong>${p.assetCount}</strong> Fotos und Videos,
+        inklusive Alben, Favoriten, Tags und Beschreibungen.</p>
+        ${box('neutral', `
+          ${row('Plan', `${escapeHtml(p.planName)} (${p.storageGb} GB)`)}
+          ${urlRow('Deine neue URL', url)}
+        `)}
+        ${credentials('de', 'Deine neuen Login-Daten:', 'E-Mail', p.email, p.password)}
+        ${callout('warning', `📱 <strong>Immich App:</strong> Melde dich ab und verbinde die App mit <code>${url}</code>.`)}
+      `, FOOTER.de),
+    };
+  },
+  en: p => {
+    const url = sharedInstanceUrl(p.instance);
+    return {
+      subject: '📦 SPhoto: Your photos have moved',
+      html: layout(`
+        <p>Hello!</p>
+        <p>Your library has been fully transferred: <strong>${p.assetCount}</strong> photos and videos,
+        including albums, favourites, tags and descriptions.</p>
+        ${box('neutral', `
+          ${row('Plan', `${escapeHtml(p.planName)} (${p.storageGb} GB)`)}
+          ${urlRow('Your new URL', url)}
+        `)}
+        ${credentials('en', 'Your new login details:', 'Email', p.email, p.password)}
+        ${callout('warning', `📱 <strong>Immich app:</strong> log out and connect the app to <code>${url}</code>.`)}
+      `, FOOTER.en),
+    };
+  },
+});
+
+interface LibraryMigrationLoginParams {
+  email: string;
+  instance: 'free' | 'paid';
+  password: string;
+  migrating: boolean;
+}
+
+// Sent when the source password had to be reset for the library move
+const libraryMigrationLogin = defineTemplate<LibraryMigrationLoginParams>({
+  de: p => ({
+    subject: p.migrating ? '📦 SPhoto: Deine Fotos ziehen um' : '🔑 SPhoto: Deine neuen Login-Daten',
+    html: layout(`
+      <p>Hallo!</p>
+      <p>${p.migrating
+        ? 'Wir übertragen deine Mediathek auf die neue Instanz. Dafür mussten wir dein Passwort zurücksetzen.'
+        : 'Der Umzug deiner Mediathek konnte nicht abgeschlossen werden. Dein Passwort wurde dabei zurückgesetzt.'}</p>
+      ${box('neutral', urlRow('Deine URL', sharedInstanceUrl(p.instance)))}
+      ${credentials('de', 'Deine Login-Daten:', 'E-Mail', p.email, p.password)}
+      ${p.migrating
+        ? callout('info', `📦 Während wir kopieren, nutzt du diese URL wie gewohnt. Neue Uploads werden mit übertragen, Änderungen an
+          bereits kopierten Fotos (z. B. Favoriten oder Beschreibungen) aber eventuell nicht. Für den letzten Schritt sperren wir
+          diesen Login kurz. Danach erhältst du eine E-Mail mit den Login-Daten für die neue Instanz.`)
+        : callout('info', 'Deine Fotos sind unverändert auf dieser Instanz. Wir melden uns, sobald der Umzug erneut gestartet wird.')}
+    `, FOOTER.de),
+  }),
+  en: p => ({
+    subject: p.migrating ? '📦 SPhoto: Your photos are moving' : '🔑 SPhoto: Your new login details',
+    html: layout(`
+      <p>Hello!</p>
+      <p>${p.migrating
+        ? 'We are moving your library to the new instance. To do so we had to reset your password.'
+        : 'Moving your library could not be completed. Your password was reset in the process.'}</p>
+      ${box('neutral', urlRow('Your URL', sharedInstanceUrl(p.instance)))}
+      ${credentials('en', 'Your login details:', 'Email', p.email, p.password)}
+      ${p.migrating
+        ? callout('info', `📦 While we copy, keep using this URL as usual. New uploads are moved as well, but changes to photos
+          that were already copied (e.g. favorites or descriptions) may not be. For the last step we lock this login for a
+          short time. After that you will get an email with the login details for the new instance.`)
+        : callout('info', 'Your photos are unchanged on this instance. We will be in touch once the move is started again.')}
+    `, FOOTER.en),
+  }),
+});
+
+const signupVerification = defineTemplate<{ verifyUrl: string; validHours: number }>({
+  de: p => ({
+    subject: '📧 SPhoto: Bestätige deine E-Mail-Adresse',
+    html: layout(`
+      <p>Fast geschafft! Bestätige deine E-Mail-Adresse, damit wir deinen kostenlosen Account erstellen können.</p>
+      ${button(p.verifyUrl, 'E-Mail bestätigen')}
+    `, `Der Link ist ${p.validHours} Stunden gültig. Falls du dich nicht registriert hast, kannst du diese E-Mail ignorieren.`),
+  }),
+  en: p => ({
+    subject: '📧 SPhoto: Confirm your email address',
+    html: layout(`
+      <p>Almost done! Confirm your email address so we can create your free account.</p>
+      ${button(p.verifyUrl, 'Confirm email')}
+    `, `The link is valid for ${p.validHours} hours. If you did not sign up, you can ignore this email.`),
+  }),
+});
+
+const householdInvite = defineTemplate<{ ownerEmail: string; joinUrl: string; storageGb: number; validDays: number }>({
+  de: p => ({
+    subject: '👨‍👩‍👧 Einladung zu einem SPhoto Familien-Plan',
+    html: layout(`
+      <p>Hallo!</p>
+      <p><strong>${escapeHtml(p.ownerEmail)}</strong> lädt dich in den SPhoto Familien-Plan ein. Du bekommst einen eigenen Account und teilst dir ${p.storageGb} GB Speicher mit der Familie.</p>
+      <p>Eure Fotos werden automatisch per Partner-Freigabe miteinander geteilt.</p>
+      ${button(p.joinUrl, 'Einladung annehmen')}
+    `, `Der Link ist ${p.validDays} Tage gültig. Falls du niemanden mit dieser Adresse kennst, kannst du diese E-Mail ignorieren.`),
+  }),
+  en: p => ({
+    subject: '👨‍👩‍👧 Invitation to a SPhoto family plan',
+    html: layout(`
+      <p>Hello!</p>
+      <p><strong>${escapeHtml(p.ownerEmail)}</strong> invited you to their SPhoto family plan. You get your own account and share ${p.storageGb} GB of storage with the family.</p>
+      <p>Your photos are shared with each other automatically through partner sharing.</p>
+      ${button(p.joinUrl, 'Accept invitation')}
+    `, `The link is valid for ${p.validDays} days. If you don't know anyone with this address, you can ignore this email.`),
+  }),
+});
+
+const portalLogin = defineTemplate<{ loginUrl: string }>({
+  de: p => ({
+    subject: '🔐 SPhoto Login Link',
+    html: layout(`
+      <p>Hallo!</p>
+      <p>Klicke auf den Button unten um dich in dein SPhoto Portal einzuloggen.</p>
+      ${button(p.loginUrl, 'In Portal einloggen')}
+      ${callout('warning', '⚠️ Dieser Link ist 24 Stunden gültig und kann nur einmal verwendet werden.')}
+    `, 'Falls du diesen Login nicht angefordert hast, ignoriere diese E-Mail.'),
+  }),
+  en: p => ({
+    subject: '🔐 SPhoto login link',
+    html: layout(`
+      <p>Hello!</p>
+      <p>Click the button below to log in to your SPhoto portal.</p>
+      ${button(p.loginUrl, 'Log in to the portal')}
+      ${callout('warning', '⚠️ This link is valid for 24 hours and can only be used once.')}
+    `, 'If you did not request this login, ignore this email.'),
+  }),
+});
+
+const accountDeletion = defineTemplate<{ scheduledFor: string }>({
+  de: p => ({
+    subject: '⚠️ SPhoto: Account-Löschung geplant',
+    html: layout(`
+      <p>Hallo!</p>
+      <p>Du hast die Löschung deines SPhoto Accounts angefordert.</p>
+      ${box('danger', `
+        ${boxTitle('danger', '🗓️ Löschung geplant für:')}
+        <p style="margin: 0; font-size: 18px;">${formatDate(p.scheduledFor, 'de', { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' })}</p>
+      `)}
+      <p><strong>Was passiert dann?</strong></p>
+      <ul>
+        <li>Alle deine Fotos und Videos werden unwiderruflich gelöscht</li>
+        <li>Dein Account wird vollständig entfernt</li>
+        <li>Ein aktives Abo wird automatisch gekündigt</li>
+      </ul>
+      ${callout('success', `💡 <strong>Meinung geändert?</strong> Du kannst die Löschung jederzeit vor dem geplanten Datum
+        in deinem ${link(PORTAL_URL, 'SPhoto Portal')} abbrechen.`)}
+    `, FOOTER.de),
+  }),
+  en: p => ({
+    subject: '⚠️ SPhoto: Account deletion scheduled',
+    html: layout(`
+      <p>Hello!</p>
+      <p>You have requested the deletion of your SPhoto account.</p>
+      ${box('danger', `
+        ${boxTitle('danger', '🗓️ Deletion scheduled for:')}
+        <p style="margin: 0; font-size: 18px;">${formatDate(p.scheduledFor, 'en', { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' })}</p>
+      `)}
+      <p><strong>What happens then?</strong></p>
+      <ul>
+        <li>All your photos and videos are permanently deleted</li>
+        <li>Your account is removed completely</li>
+        <li>An active subscription is cancelled automatically</li>
+      </ul>
+      ${callout('success', `💡 <strong>Changed your mind?</strong> You can cancel the deletion any time before that date
+        in your ${link(PORTAL_URL, 'SPhoto portal')}.`)}
+    `, FOOTER.en),
+  }),
+});
+
+const accountDeletionCancelled = defineTemplate<Record<string, never>>({
+  de: () => ({
+    subject: '✅ SPhoto: Account-Löschung abgebrochen',
+    html: layout(`
+      <p>Hallo!</p>
+      <p>Die geplante Löschung deines SPhoto Accounts wurde erfolgreich abgebrochen.</p>
+      ${box('success', `<p style="margin: 0; font-weight: bold; color: ${TONES.success.text};">✅ Dein Account bleibt aktiv!</p>`)}
+      <p>Du kannst SPhoto weiterhin wie gewohnt nutzen.</p>
+    `, FOOTER.de),
+  }),
+  en: () => ({
+    subject: '✅ SPhoto: Account deletion cancelled',
+    html: layout(`
+      <p>Hello!</p>
+      <p>The scheduled deletion of your SPhoto account has been cancelled.</p>
+      ${box('success', `<p style="margin: 0; font-weight: bold; color: ${TONES.success.text};">✅ Your account stays active!</p>`)}
+      <p>You can keep using SPhoto as usual.</p>
+    `, FOOTER.en),
+  }),
+});
+
+interface GraceDeletionParams {
+  email: string;
+  instance: 'free' | 'paid';
+  password?: string;
+  scheduledFor: string;
+  downloadUrl: string;
+  fileSizeBytes: number;
+}
+
+// Grace period over with the export_delete policy; the export needed a password reset
+const graceDeletion = defineTemplate<GraceDeletionParams>({
+  de: p => ({
+    subject: '⚠️ SPhoto: Dein Account wird gelöscht',
+    html: layout(`
+      <p>Hallo!</p>
+      <p>Die Nur-Lesen-Frist deines Accounts ist abgelaufen. Wir haben deine Mediathek exportiert, danach wird der Account gelöscht.</p>
+      ${box('danger', `
+        ${boxTitle('danger', '🗓️ Löschung geplant für:')}
+        <p style="margin: 0; font-size: 18px;">${formatDate(p.scheduledFor, 'de', { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' })}</p>
+      `)}
+      ${box('success', `
+        ${boxTitle('success', '📦 Dein Export:')}
+        ${row('Grösse', formatBytes(p.fileSizeBytes))}
+        ${row('Gültig bis', formatDate(p.scheduledFor, 'de'))}
+      `)}
+      ${button(p.downloadUrl, 'Download starten')}
+      ${p.password ? `
+        <p>Für den Export mussten wir dein Passwort zurücksetzen. Bis zur Löschung kannst du dich so anmelden:</p>
+        ${box('neutral', urlRow('Deine URL', sharedInstanceUrl(p.instance)))}
+        ${credentials('de', 'Deine Login-Daten:', 'E-Mail', p.email, p.password)}
+      ` : ''}
+      ${callout('success', `💡 <strong>Meinung geändert?</strong> Du kannst die Löschung jederzeit vor dem geplanten Datum
+        in deinem ${link(PORTAL_URL, 'SPhoto Portal')} abbrechen.`)}
+    `, FOOTER.de),
+  }),
+  en: p => ({
+    subject: '⚠️ SPhoto: Your account will be deleted',
+    html: layout(`
+      <p>Hello!</p>
+      <p>The read-only period of your account is over. We have exported your library, after that the account is deleted.</p>
+      ${box('danger', `
+        ${boxTitle('danger', '🗓️ Deletion scheduled for:')}
+        <p style="margin: 0; font-size: 18px;">${formatDate(p.scheduledFor, 'en', { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' })}</p>
+      `)}
+      ${box('success', `
+        ${boxTitle('success', '📦 Your export:')}
+        ${row('Size', formatBytes(p.fileSizeBytes))}
+        ${row('Valid until', formatDate(p.scheduledFor, 'en'))}
+      `)}
+      ${button(p.downloadUrl, 'Start download')}
+      ${p.password ? `
+        <p>We had to reset your password for the export. Until the deletion you can log in with:</p>
+        ${box('neutral', urlRow('Your URL', sharedInstanceUrl(p.instance)))}
+        ${credentials('en', 'Your login details:', 'Email', p.email, p.password)}
+      ` : ''}
+      ${callout('success', `💡 <strong>Changed your mind?</strong> You can cancel the deletion any time before that date
+        in your ${link(PORTAL_URL, 'SPhoto portal')}.`)}
+    `, FOOTER.en),
+  }),
+});
+
+const exportReady = defineTemplate<{ instanceId: string; downloadUrl: string; fileSizeBytes: number }>({
+  de: p => ({
+    subject: '📦 Dein SPhoto Export ist bereit',
+    html: layout(`
+      <p>Hallo!</p>
+      <p>Dein Daten-Export ist fertig und steht zum Download bereit.</p>
+      ${box('success', `
+        ${boxTitle('success', '📦 Export Details:')}
+        ${row('Instanz', escapeHtml(p.instanceId))}
+        ${row('Grösse', formatBytes(p.fileSizeBytes))}
+        ${row('Gültig bis', '24 Stunden')}
+      `)}
+      ${button(p.downloadUrl, 'Download starten')}
+      ${callout('warning', `⚠️ <strong>Wichtig:</strong> Der Download-Link ist nur 24 Stunden gültig.
+        Danach wird die Datei automatisch gelöscht.`)}
+    `, 'Dieser Export wurde gemäss DSGVO Art. 20 (Recht auf Datenübertragbarkeit) erstellt.'),
+  }),
+  en: p => ({
+    subject: '📦 Your SPhoto export is ready',
+    html: layout(`
+      <p>Hello!</p>
+      <p>Your data export is finished and ready to download.</p>
+      ${box('success', `
+        ${boxTitle('success', '📦 Export details:')}
+        ${row('Instance', escapeHtml(p.instanceId))}
+        ${row('Size', formatBytes(p.fileSizeBytes))}
+        ${row('Valid for', '24 hours')}
+      `)}
+      ${button(p.downloadUrl, 'Start download')}
+      ${callout('warning', `⚠️ <strong>Important:</strong> the download link is only valid for 24 hours.
+        After that the file is deleted automatically.`)}
+    `, 'This export was created under GDPR Art. 20 (right to data portability).'),
+  }),
+});
+
+// =============================================================================
+// Billing
+// =============================================================================
+
+const paymentFailed = defineTemplate<Record<string, never>>({
+  de: () => ({
+    subject: '⚠️ SPhoto: Zahlung fehlgeschlagen',
+    html: layout(`
+      <p>Deine letzte Zahlung ist fehlgeschlagen.</p>
+      <p><strong>Dein Account wurde pausiert.</strong></p>
+      <p>Deine Daten bleiben 30 Tage gespeichert. Aktualisiere deine Zahlungsmethode um fortzufahren.</p>
+    `, FOOTER.de),
+  }),
+  en: () => ({
+    subject: '⚠️ SPhoto: Payment failed',
+    html: layout(`
+      <p>Your last payment failed.</p>
+      <p><strong>Your account has been paused.</strong></p>
+      <p>Your data is kept for 30 days. Update your payment method to continue.</p>
+    `, FOOTER.en),
+  }),
+});
+
+const pastDue = defineTemplate<{ daysUntilSuspension: number }>({
+  de: p => ({
+    subject: '⚠️ SPhoto: Zahlung fehlgeschlagen',
+    html: layout(`
+      <p>Deine letzte Zahlung ist fehlgeschlagen.</p>
+      <p>Dein Account funktioniert weiterhin normal. Bitte aktualisiere deine Zahlungsmethode
+      innerhalb von <strong>${p.daysUntilSuspension} Tagen</strong>, sonst wird dein Account in den Nur-Lesen-Modus versetzt.</p>
+      <p>${link(PORTAL_URL, 'Zahlungsmethode aktualisieren')}</p>
+    `, FOOTER.de),
+  }),
+  en: p => ({
+    subject: '⚠️ SPhoto: Payment failed',
+    html: layout(`
+      <p>Your last payment failed.</p>
+      <p>Your account keeps working as usual. Please update your payment method
+      within <strong>${p.daysUntilSuspension} days</strong>, otherwise your account will be switched to read-only mode.</p>
+      <p>${link(PORTAL_URL, 'Update payment method')}</p>
+    `, FOOTER.en),
+  }),
+});
+
+interface AccountSuspendedParams {
+  reason: 'payment_failed' | 'subscription_ended';
+  graceEndsAt: string;
+  action: GracePolicy;
+}
+
+const accountSuspended = defineTemplate<AccountSuspendedParams>({
+  de: p => ({
+    subject: '🔒 SPhoto: Dein Account ist im Nur-Lesen-Modus',
+    html: layout(`
+      <p>${p.reason === 'payment_failed' ? 'Wir konnten deine Zahlung nicht einziehen.' : 'Dein Abo ist beendet.'}</p>
+      <p><strong>Uploads sind gesperrt.</strong> Deine Fotos bleiben sichtbar und können heruntergeladen werden.</p>
+      <p>Ohne neues Abo wird dein Account am <strong>${formatDate(p.graceEndsAt, 'de')}</strong> ${graceActionText(p.action, 'de')}.</p>
+      <p>${link(PORTAL_URL, p.reason === 'payment_failed' ? 'Zahlungsmethode aktualisieren' : 'Abo reaktivieren')}</p>
+    `, FOOTER.de),
+  }),
+  en: p => ({
+    subject: '🔒 SPhoto: Your account is in read-only mode',
+    html: layout(`
+      <p>${p.reason === 'payment_failed' ? 'We could not collect your payment.' : 'Your subscription has ended.'}</p>
+      <p><strong>Uploads are blocked.</strong> Your photos stay visible and can be downloaded.</p>
+      <p>Without a new subscription your account will be ${graceActionText(p.action, 'en')} on <strong>${formatDate(p.graceEndsAt, 'en')}</strong>.</p>
+      <p>${link(PORTAL_URL, p.reason === 'payment_failed' ? 'Update payment method' : 'Reactivate subscription')}</p>
+    `, FOOTER.en),
+  }),
+});
+
+const graceReminder = defineTemplate<{ daysLeft: number; action: GracePolicy }>({
+  de: p => ({
+    subject: `⏳ SPhoto: Noch ${p.daysLeft} ${p.daysLeft === 1 ? 'Tag' : 'Tage'} Nur-Lesen-Modus`,
+    html: layout(`
+      <p>Dein Account ist seit einiger Zeit im Nur-Lesen-Modus.</p>
+      <p>In <strong>${p.daysLeft} ${p.daysLeft === 1 ? 'Tag' : 'Tagen'}</strong> wird er ${graceActionText(p.action, 'de')}.</p>
+      <p>${link(PORTAL_URL, 'Zum Portal')}</p>
+    `, FOOTER.de),
+  }),
+  en: p => ({
+    subject: `⏳ SPhoto: ${p.daysLeft} ${p.daysLeft === 1 ? 'day' : 'days'} of read-only mode left`,
+    html: layout(`
+      <p>Your account has been in read-only mode for a while.</p>
+      <p>In <strong>${p.daysLeft} ${p.daysLeft === 1 ? 'day' : 'days'}</strong> it will be ${graceActionText(p.action, 'en')}.</p>
+      <p>${link(PORTAL_URL, 'Go to the portal')}</p>
+    `, FOOTER.en),
+  }),
+});
+
+const paymentRecovered = defineTemplate<Record<string, never>>({
+  de: () => ({
+    subject: '✅ SPhoto: Zahlung erhalten',
+    html: layout(`
+      <p>Danke! Deine Zahlung ist eingegangen.</p>
+      <p>Dein Account ist wieder voll aktiv, Uploads sind wieder möglich.</p>
+    `, FOOTER.de),
+  }),
+  en: () => ({
+    subject: '✅ SPhoto: Payment received',
+    html: layout(`
+      <p>Thank you! Your payment has been received.</p>
+      <p>Your account is fully active again and uploads are possible again.</p>
+    `, FOOTER.en),
+  }),
+});
+
+const trialEnding = defineTemplate<{ trialEnd: string }>({
+  de: p => ({
+    subject: '⏰ SPhoto: Deine Testphase endet bald',
+    html: layout(`
+      <p>Deine Testphase endet am <strong>${formatDate(p.trialEnd, 'de')}</strong>.</p>
+      <p>Danach wird dein Abo automatisch kostenpflichtig. Du kannst es jederzeit im Portal verwalten.</p>
+      <p>${link(PORTAL_URL, 'Zum Portal')}</p>
+    `, FOOTER.de),
+  }),
+  en: p => ({
+    subject: '⏰ SPhoto: Your trial ends soon',
+    html: layout(`
+      <p>Your trial ends on <strong>${formatDate(p.trialEnd, 'en')}</strong>.</p>
+      <p>After that your subscription becomes paid automatically. You can manage it in the portal at any time.</p>
+      <p>${link(PORTAL_URL, 'Go to the portal')}</p>
+    `, FOOTER.en),
+  }),
+});
+
+interface PlanUpgradedParams {
+  instanceId: string;
+  oldPlan: string;
+  newPlan: string;
+  newStorageGb: number;
+}
+
+const planUpgraded = defineTemplate<PlanUpgradedParams>({
+  de: p => ({
+    subject: '🚀 SPhoto: Upgrade erfolgreich!',
+    html: layout(`
+      ${box('success', `
+        ${boxTitle('success', '🚀 Upgrade erfolgreich!')}
+        <p style="margin: 0;">Dein Plan wurde von <strong>${escapeHtml(p.oldPlan)}</strong> auf <strong>${escapeHtml(p.newPlan)}</strong> geändert.</p>
+      `)}
+      ${box('neutral', `
+        ${row('Neuer Speicherplatz', `${p.newStorageGb} GB`)}
+        ${row('Instanz', `${p.instanceId}.${env.DOMAIN}`)}
+      `)}
+      <p>Die Änderung ist sofort wirksam. Du kannst jetzt mehr Fotos und Videos hochladen!</p>
+    `, FOOTER.de),
+  }),
+  en: p => ({
+    subject: '🚀 SPhoto: Upgrade successful!',
+    html: layout(`
+      ${box('success', `
+        ${boxTitle('success', '🚀 Upgrade successful!')}
+        <p style="margin: 0;">Your plan has been changed from <strong>${escapeHtml(p.oldPlan)}</strong> to <strong>${escapeHtml(p.newPlan)}</strong>.</p>
+      `)}
+      ${box('neutral', `
+        ${row('New storage', `${p.newStorageGb} GB`)}
+        ${row('Instance', `${p.instanceId}.${env.DOMAIN}`)}
+      `)}
+      <p>The change is effective immediately. You can now upload more photos and videos!</p>
+    `, FOOTER.en),
+  }),
+});
+
+const planDowngradeScheduled = defineTemplate<PlanUpgradedParams & { effectiveDate: string }>({
+  de: p => ({
+    subject: '📦 SPhoto: Plan-Änderung bestätigt',
+    html: layout(`
+      ${box('warning', `
+        ${boxTitle('warning', '📦 Downgrade geplant')}
+        <p style="margin: 0;">Dein Plan wird von <strong>${escapeHtml(p.oldPlan)}</strong> auf <strong>${escapeHtml(p.newPlan)}</strong> geändert.</p>
+      `)}
+      ${box('neutral', `
+        ${row('Neuer Speicherplatz', `${p.newStorageGb} GB`)}
+        ${row('Wirksam ab', formatDate(p.effectiveDate, 'de'))}
+        ${row('Instanz', `${p.instanceId}.${env.DOMAIN}`)}
+      `)}
+      <p>Die Änderung wird zum Ende deines aktuellen Abrechnungszeitraums wirksam.</p>
+    `, FOOTER.de),
+  }),
+  en: p => ({
+    subject: '📦 SPhoto: Plan change confirmed',
+    html: layout(`
+      ${box('warning', `
+        ${boxTitle('warning', '📦 Downgrade scheduled')}
+        <p style="margin: 0;">Your plan will be changed from <strong>${escapeHtml(p.oldPlan)}</strong> to <strong>${escapeHtml(p.newPlan)}</strong>.</p>
+      `)}
+      ${box('neutral', `
+        ${row('New storage', `${p.newStorageGb} GB`)}
+        ${row('Effective from', formatDate(p.effectiveDate, 'en'))}
+        ${row('Instance', `${p.instanceId}.${env.DOMAIN}`)}
+      `)}
+      <p>The change takes effect at the end of your current billing period.</p>
+    `, FOOTER.en),
+  }),
+});
+
+// =============================================================================
+// Usage Alerts
+// =============================================================================
+
+const storageWarning = defineTemplate<{ instanceId: string; percentage: number; usedGb: number; limitGb: number }>({
+  de: p => {
+    const { tone, color, icon } = storageTone(p.percentage);
+    return {
+      subject: `${icon} SPhoto: Speicher ${p.percentage}% belegt`,
+      html: layout(`
+        ${box(tone, `
+          ${boxTitle(tone, `${icon} Speicherwarnung`)}
+          <p style="margin: 0;">Deine Instanz <strong>${escapeHtml(p.instanceId)}</strong> nutzt ${p.percentage}% des verfügbaren Speichers.</p>
+        `)}
+        ${storageBar(p.percentage, color, `<strong>Genutzt:</strong> ${p.usedGb.toFixed(1)} GB von ${p.limitGb} GB`)}
+        ${p.percentage < 100 ? `
+          <p>Empfehlungen:</p>
+          <ul>
+            <li>Lösche nicht benötigte Fotos/Videos</li>
+            <li>Upgrade auf einen grösseren Plan</li>
+          </ul>
+        ` : `
+          <p style="color: #dc2626; font-weight: bold;">⚠️ Dein Speicher ist voll. Neue Uploads sind nicht mehr möglich.</p>
+          <p>Bitte lösche Dateien oder upgrade deinen Plan um fortzufahren.</p>
+        `}
+      `, FOOTER.de),
+    };
+  },
+  en: p => {
+    const { tone, color, icon } = storageTone(p.percentage);
+    return {
+      subject: `${icon} SPhoto: Storage ${p.percentage}% full`,
+      html: layout(`
+        ${box(tone, `
+          ${boxTitle(tone, `${icon} Storage warning`)}
+          <p style="margin: 0;">Your instance <strong>${escapeHtml(p.instanceId)}</strong> uses ${p.percentage}% of its available storage.</p>
+        `)}
+        ${storageBar(p.percentage, color, `<strong>Used:</strong> ${p.usedGb.toFixed(1)} GB of ${p.limitGb} GB`)}
+        ${p.percentage < 100 ? `
+          <p>Recommendations:</p>
+          <ul>
+            <li>Delete photos/videos you no longer need</li>
+            <li>Upgrade to a bigger plan</li>
+          </ul>
+        ` : `
+          <p style="color: #dc2626; font-weight: bold;">⚠️ Your storage is full. New uploads are no longer possible.</p>
+          <p>Please delete files or upgrade your plan to continue.</p>
+        `}
+      `, FOOTER.en),
+    };
+  },
+});
+
+const inactiveReminder = defineTemplate<{ instanceId: string; daysSinceActivity: number }>({
+  de: p => {
+    const url = `https://${p.instanceId}.${env.DOMAIN}`;
+    return {
+      subject: '👋 Wir vermissen dich bei SPhoto!',
+      html: layout(`
+        <p>Hallo!</p>
+        <p>Wir haben bemerkt, dass du seit <strong>${p.daysSinceActivity} Tagen</strong> nicht mehr bei SPhoto aktiv warst.</p>
+        ${box('neutral', urlRow('Deine Instanz', url))}
+        <p>Deine Fotos und Videos sind sicher gespeichert und warten auf dich!</p>
+        ${button(url, 'Zur App')}
+      `, FOOTER.de),
+    };
+  },
+  en: p => {
+    const url = `https://${p.instanceId}.${env.DOMAIN}`;
+    return {
+      subject: '👋 We miss you at SPhoto!',
+      html: layout(`
+        <p>Hello!</p>
+        <p>We noticed that you have not been active on SPhoto for <strong>${p.daysSinceActivity} days</strong>.</p>
+        ${box('neutral', urlRow('Your instance', url))}
+        <p>Your photos and videos are stored safely and waiting for you!</p>
+        ${button(url, 'Open the app')}
+      `, FOOTER.en),
+    };
+  },
+});
+
+// =============================================================================
+// Maintenance
+// =============================================================================
+
+type MaintenanceParams = { maintenance: Maintenance };
+
+const maintenanceScheduled = defineTemplate<MaintenanceParams>({
+  de: ({ maintenance: m }) => {
+    const duration = Math.round((new Date(m.scheduledEnd).getTime() - new Date(m.scheduledStart).getTime()) / (1000 * 60));
+    return {
+      subject: `${MAINTENANCE_ICONS[m.type]} SPhoto: Geplante Wartung am ${formatDate(m.scheduledStart, 'de')}`,
+      html: layout(`
+        ${maintenanceBanner('warning', `${MAINTENANCE_ICONS[m.type]} ${MAINTENANCE_LABELS.de[m.type]}`, m.title)}
+        ${box('neutral', `
+          ${row('Datum', formatDate(m.scheduledStart, 'de'))}
+          ${row('Zeit', `${formatTime(m.scheduledStart, 'de')} - ${formatTime(m.scheduledEnd, 'de')} Uhr`)}
+          ${row('Geschätzte Dauer', `${duration} Minuten`)}
+        `)}
+        <p><strong>Beschreibung:</strong></p>
+        <p>${escapeHtml(m.description)}</p>
+        ${m.type !== 'backup' ? callout('danger', '⚠️ Während dieser Zeit ist deine SPhoto-Instanz möglicherweise nicht erreichbar.') : ''}
+      `, FOOTER.de),
+    };
+  },
+  en: ({ maintenance: m }) => {
+    const duration = Math.round((new Date(m.scheduledEnd).getTime() - new Date(m.scheduledStart).getTime()) / (1000 * 60));
+    return {
+      subject: `${MAINTENANCE_ICONS[m.type]} SPhoto: Scheduled maintenance on ${formatDate(m.scheduledStart, 'en')}`,
+      html: layout(`
+        ${maintenanceBanner('warning', `${MAINTENANCE_ICONS[m.type]} ${MAINTENANCE_LABELS.en[m.type]}`, m.title)}
+        ${box('neutral', `
+          ${row('Date', formatDate(m.scheduledStart, 'en'))}
+          ${row('Time', `${formatTime(m.scheduledStart, 'en')} - ${formatTime(m.scheduledEnd, 'en')}`)}
+          ${row('Estimated duration', `${duration} minutes`)}
+        `)}
+        <p><strong>Description:</strong></p>
+        <p>${escapeHtml(m.description)}</p>
+        ${m.type !== 'backup' ? callout('danger', '⚠️ Your SPhoto instance may be unavailable during this time.') : ''}
+      `, FOOTER.en),
+    };
+  },
+});
+
+const maintenanceReminder = defineTemplate<MaintenanceParams>({
+  de: ({ maintenance: m }) => ({
+    subject: '⏰ SPhoto: Wartung beginnt in 2 Stunden',
+    html: layout(`
+      ${maintenanceBanner('warning', '⏰ Erinnerung: Wartung in 2 Stunden', m.title)}
+      <p>Die geplante Wartung beginnt um <strong>${formatTime(m.scheduledStart, 'de')} Uhr</strong>.</p>
+    `, FOOTER.de),
+  }),
+  en: ({ maintenance: m }) => ({
+    subject: '⏰ SPhoto: Maintenance starts in 2 hours',
+    html: layout(`
+      ${maintenanceBanner('warning', '⏰ Reminder: maintenance in 2 hours', m.title)}
+      <p>The scheduled maintenance starts at <strong>${formatTime(m.scheduledStart, 'en')}</strong>.</p>
+    `, FOOTER.en),
+  }),
+});
+
+const maintenanceStarted = defineTemplate<MaintenanceParams>({
+  de: ({ maintenance: m }) => ({
+    subject: '🔧 SPhoto: Wartung gestartet',
+    html: layout(`
+      ${maintenanceBanner('warning', '🔧 Wartung läuft', m.title)}
+      <p>Die Wartung hat begonnen. Voraussichtliches Ende: <strong>${formatTime(m.scheduledEnd, 'de')} Uhr</strong></p>
+    `, FOOTER.de),
+  }),
+  en: ({ maintenance: m }) => ({
+    subject: '🔧 SPhoto: Maintenance started',
+    html: layout(`
+      ${maintenanceBanner('warning', '🔧 Maintenance in progress', m.title)}
+      <p>The maintenance has started. Expected end: <strong>${formatTime(m.scheduledEnd, 'en')}</strong></p>
+    `, FOOTER.en),
+  }),
+});
+
+const maintenanceCompleted = defineTemplate<MaintenanceParams>({
+  de: ({ maintenance: m }) => ({
+    subject: '✅ SPhoto: Wartung abgeschlossen',
+    html: layout(`
+      ${maintenanceBanner('success', '✅ Wartung abgeschlossen', m.title)}
+      <p>Die Wartung wurde erfolgreich abgeschlossen. Deine SPhoto-Instanz ist wieder normal erreichbar.</p>
+    `, FOOTER.de),
+  }),
+  en: ({ maintenance: m }) => ({
+    subject: '✅ SPhoto: Maintenance completed',
+    html: layout(`
+      ${maintenanceBanner('success', '✅ Maintenance completed', m.title)}
+      <p>The maintenance has been completed. Your SPhoto instance is available as usual again.</p>
+    `, FOOTER.en),
+  }),
+});
+
+// =============================================================================
+// Status Page
+// =============================================================================
+
+const COMPONENT_LABELS: Record<Locale, Record<ComponentId, string>> = {
+  de: {
+    free: 'Free-Instanz',
+    paid: 'Bezahlte Instanz',
+    portal: 'Kundenportal',
+    uploads: 'Uploads',
+    ml: 'Gesichts- und Objekterkennung',
+    instances: 'Foto-Instanzen',
+  },
+  en: {
+    free: 'Free instance',
+    paid: 'Paid instance',
+    portal: 'Customer portal',
+    uploads: 'Uploads',
+    ml: 'Face and object recognition',
+    instances: 'Photo instances',
+  },
+};
+
+const STATE_LABELS: Record<Locale, Record<ComponentState, string>> = {
+  de: { operational: 'In Betrieb', degraded: 'Beeinträchtigt', outage: 'Ausfall', maintenance: 'Wartung' },
+  en: { operational: 'Operational', degraded: 'Degraded', outage: 'Outage', maintenance: 'Maintenance' },
+};
+
+const INCIDENT_STATUS_LABELS: Record<Locale, Record<IncidentStatus, string>> = {
+  de: { investigating: 'Untersuchung', identified: 'Ursache gefunden', monitoring: 'Beobachtung', resolved: 'Behoben' },
+  en: { investigating: 'Investigating', identified: 'Identified', monitoring: 'Monitoring', resolved: 'Resolved' },
+};
+
+const STATE_TONES: Record<ComponentState, Tone> = {
+  operational: 'success',
+  degraded: 'warning',
+  outage: 'danger',
+  maintenance: 'info',
+};
+
+const UNSUBSCRIBE: Record<Locale, (url: string) => string> = {
+  de: url => `Du erhältst diese E-Mail, weil du Status-Meldungen von SPhoto abonniert hast. ${link(url, 'Abmelden')}`,
+  en: url => `You receive this email because you subscribed to SPhoto status updates. ${link(url, 'Unsubscribe')}`,
+};
+
+const statusSubscriptionConfirm = defineTemplate<{ confirmUrl: string; validDays: number }>({
+  de: p => ({
+    subject: '📡 SPhoto Status: Abo bestätigen',
+    html: layout(`
+      <p>Bestätige deine E-Mail-Adresse, um bei Störungen und Wartungen von SPhoto benachrichtigt zu werden.</p>
+      ${button(p.confirmUrl, 'Abo bestätigen')}
+    `, `Der Link ist ${p.validDays} Tage gültig. Falls du nichts abonniert hast, kannst du diese E-Mail ignorieren.`),
+  }),
+  en: p => ({
+    subject: '📡 SPhoto status: Confirm your subscription',
+    html: layout(`
+      <p>Confirm your email address to be notified about SPhoto incidents and maintenance.</p>
+      ${button(p.confirmUrl, 'Confirm subscription')}
+    `, `The link is valid for ${p.validDays} days. If you did not subscribe, you can ignore this email.`),
+  }),
+});
+
+interface StatusIncidentParams {
+  title: string;
+  impact: IncidentImpact;
+  components: ComponentId[];
+  status: IncidentStatus;
+  message: string;
+  isNew: boolean;
+  statusUrl: string;
+  unsubscribeUrl: string;
+}
+
+function incidentEmail(locale: Locale, p: StatusIncidentParams): RenderedEmail {
+  const tone: Tone = p.status === 'resolved' ? 'success' : STATE_TONES[p.impact];
+  const prefix = p.status === 'resolved' ? '✅' : p.impact === 'outage' ? '🔴' : '🟡';
+  const statusLabel = INCIDENT_STATUS_LABELS[locale][p.status];
+  const labels = locale === 'de'
+    ? { affected: 'Betroffen', status: 'Status', details: 'Details auf der Statusseite' }
+    : { affected: 'Affected', status: 'Status', details: 'Details on the status page' };
+
+  return {
+    subject: `${prefix} SPhoto Status: ${p.title} (${statusLabel})`,
+    html: layout(`
+      ${box(tone, `
+        ${boxTitle(tone, escapeHtml(p.title))}
+        ${row(labels.affected, p.components.map(c => COMPONENT_LABELS[locale][c]).join(', '))}
+        ${row(labels.status, statusLabel)}
+      `)}
+      <p>${escapeHtml(p.message).replace(/\n/g, '<br>')}</p>
+      <p>${link(p.statusUrl, labels.details)}</p>
+    `, UNSUBSCRIBE[locale](p.unsubscribeUrl)),
+  };
+}
+
+const statusIncident = defineTemplate<StatusIncidentParams>({
+  de: p => incidentEmail('de', p),
+  en: p => incidentEmail('en', p),
+});
+
+interface StatusComponentChangeParams {
+  changes: Array<{ component: ComponentId; state: ComponentState }>;
+  statusUrl: string;
+  unsubscribeUrl: string;
+}
+
+function componentChangeEmail(locale: Locale, p: StatusComponentChangeParams): RenderedEmail {
+  const recovered = p.changes.every(c => c.state === 'operational');
+  const intro = locale === 'de'
+    ? (recovered ? 'Alle Dienste laufen wieder normal.' : 'Wir haben eine Störung festgestellt und kümmern uns darum.')
+    : (recovered ? 'All services are running normally again.' : 'We detected a problem and are working on it.');
+
+  return {
+    subject: locale === 'de'
+      ? `${recovered ? '✅' : '⚠️'} SPhoto Status: ${recovered ? 'Störung behoben' : 'Störung erkannt'}`
+      : `${recovered ? '✅' : '⚠️'} SPhoto status: ${recovered ? 'Services recovered' : 'Problem detected'}`,
+    html: layout(`
+      <p>${intro}</p>
+      ${box('neutral', p.changes
+        .map(c => row(COMPONENT_LABELS[locale][c.component], `<span style="color: ${TONES[STATE_TONES[c.state]].text};">${STATE_LABELS[locale][c.state]}</span>`))
+        .join(''))}
+      <p>${link(p.statusUrl, locale === 'de' ? 'Zur Statusseite' : 'Open the status page')}</p>
+    `, UNSUBSCRIBE[locale](p.unsubscribeUrl)),
+  };
+}
+
+const statusComponentChange = defineTemplate<StatusComponentChangeParams>({
+  de: p => componentChangeEmail('de', p),
+  en: p => componentChangeEmail('en', p),
+});
+
+// =============================================================================
+// Admin Notifications
+// =============================================================================
+
+function troubleshootingSteps(instanceId: string): string {
+  return `
+    <ul>
+      <li>Check Docker containers: <code>docker ps | grep ${instanceId}</code></li>
+      <li>Check logs: <code>docker logs sphoto-${instanceId}-server</code></li>
+      <li>Restart: <code>cd /data/instances/${instanceId} && docker compose restart</code></li>
+    </ul>
+  `;
+}
+
+const adminRefund = defineTemplate<{ customerEmail: string; amount: number; currency: string; fullRefund: boolean }>({
+  en: p => {
+    const amount = `${(p.amount / 100).toFixed(2)} ${p.currency.toUpperCase()}`;
+    return {
+      subject: `💸 Refund: ${p.customerEmail} (${amount})`,
+      html: adminLayout('💸 Refund', '#111', `
+        ${row('Customer', escapeHtml(p.customerEmail))}
+        ${row('Amount', amount)}
+        ${row('Type', p.fullRefund ? 'Full refund' : 'Partial refund')}
+        <p>Check whether the subscription should be cancelled.</p>
+      `),
+    };
+  },
+});
+
+const ALERT_SEVERITY_STYLES: Record<AlertSeverity, { icon: string; tone: Tone }> = {
+  info: { icon: 'ℹ️', tone: 'info' },
+  warning: { icon: '⚠️', tone: 'warning' },
+  critical: { icon: '🚨', tone: 'danger' },
+};
+
+const adminAlert = defineTemplate<{ notification: AlertNotification }>({
+  en: ({ notification: n }) => {
+    const { icon, tone } = ALERT_SEVERITY_STYLES[n.severity];
+    const title = `${n.test ? '[Test] ' : ''}${n.title}`;
+    return {
+      subject: `${icon} ${title}`,
+      html: adminLayout(`${icon} ${escapeHtml(title)}`, TONES[tone].text, `
+        ${box(tone, `
+          ${Object.entries(n.fields).map(([label, value]) => row(escapeHtml(label), escapeHtml(value))).join('')}
+          ${row('Time', n.triggeredAt)}
+        `)}
+        <p>${escapeHtml(n.message)}</p>
+        ${n.type === 'instance_down' && n.subjectType === 'instance' ? `
+          <p><strong>Suggested actions:</strong></p>
+          ${troubleshootingSteps(n.subjectId)}
+        ` : ''}
+      `),
+    };
+  },
+});
+
+const CHECK_ICONS: Record<HealthCheckState, string> = {
+  ok: '✅',
+  warning: '⚠️',
+  critical: '❌',
+  skipped: '➖',
+};
+
+function healthChecks(checks: HealthChecks): string {
+  return (Object.keys(checks) as HealthCheckName[])
+    .filter(name => checks[name].state !== 'skipped')
+    .map(name => row(name, `${CHECK_ICONS[checks[name].state]} ${escapeHtml(checks[name].message || checks[name].state)}`))
+    .join('');
+}
+
+const adminHealthAlert = defineTemplate<{ status: HealthStatus; platform: Platform }>({
+  en: ({ status, platform }) => {
+    const problems = status.checks
+      ? Object.values(status.checks).filter(c => c.state === 'warning' || c.state === 'critical').length
+      : 0;
+    const condition = !status.healthy ? 'down' : problems > 0 ? 'degraded' : 'recovering';
+    return {
+      subject: `🚨 Health Alert: ${status.instanceId} is ${condition}`,
+      html: adminLayout('⚠️ Health Alert', '#dc2626', `
+        ${box(!status.healthy ? 'danger' : problems > 0 ? 'warning' : 'success', `
+          ${row('Instance', status.instanceId)}
+          ${row('Platform', platform)}
+          ${row('Status', !status.healthy ? '❌ Unhealthy' : problems > 0 ? '⚠️ Degraded' : '✅ Healthy')}
+          ${row('Response Time', status.responseTime ? `${status.responseTime}ms` : 'N/A')}
+          ${row('Last Check', status.lastCheck)}
+        `)}
+        ${status.checks ? box('neutral', `${boxTitle('neutral', 'Checks')}${healthChecks(status.checks)}`) : ''}
+        ${condition === 'recovering'
+          ? '<p style="color: #22c55e;">Instance has recovered and is now healthy.</p>'
+          : `
+            ${row('Consecutive Failures', String(status.consecutiveFailures))}
+            <p><strong>Suggested Actions:</strong></p>
+            ${troubleshootingSteps(status.instanceId)}
+          `}
+      `),
+    };
+  },
+});
+
+const adminSslExpiry = defineTemplate<{ status: HealthStatus }>({
+  en: ({ status }) => ({
+    subject: `🔴 CRITICAL: SSL auto-renewal may have failed - ${status.instanceId}`,
+    html: adminLayout('🔐 SSL Certificate Critical Warning', '#dc2626', `
+      ${box('danger', `
+        ${row('Instance', status.instanceId)}
+        ${row('Domain', `${status.instanceId}.${env.DOMAIN}`)}
+        ${row('Expires', status.sslExpiresAt || 'unknown')}
+        ${row('Days Remaining', String(status.sslDaysRemaining ?? 'unknown'))}
+      `)}
+      <p><strong>⚠️ SSL should auto-renew via Traefik/Let's Encrypt.</strong></p>
+      <p>This alert means auto-renewal may have failed. Please check:</p>
+      <ul>
+        <li>Traefik logs: <code>docker logs traefik</code></li>
+        <li>ACME challenge accessibility</li>
+        <li>Let's Encrypt rate limits</li>
+      </ul>
+    `),
+  }),
+});
+
+// =============================================================================
+// Registry
+// =============================================================================
+
+export const EMAIL_TEMPLATES = {
+  welcome,
+  welcome_shared: welcomeShared,
+  plan_change: planChange,
+  library_migrated: libraryMigrated,
+  library_migration_login: libraryMigrationLogin,
+  signup_verification: signupVerification,
+  household_invite: householdInvite,
+  portal_login: portalLogin,
+  account_deletion: accountDeletion,
+  account_deletion_cancelled: accountDeletionCancelled,
+  grace_deletion: graceDeletion,
+  export_ready: exportReady,
+  payment_failed: paymentFailed,
+  past_due: pastDue,
+  account_suspended: accountSuspended,
+  grace_reminder: graceReminder,
+  payment_recovered: paymentRecovered,
+  trial_ending: trialEnding,
+  plan_upgraded: planUpgraded,
+  plan_downgrade_scheduled: planDowngradeScheduled,
+  storage_warning: storageWarning,
+  inactive_reminder: inactiveReminder,
+  maintenance_scheduled: maintenanceScheduled,
+  maintenance_reminder: maintenanceReminder,
+  maintenance_started: maintenanceStarted,
+  maintenance_completed: maintenanceCompleted,
+  status_subscription_confirm: statusSubscriptionConfirm,
+  status_incident: statusIncident,
+  status_component_change: statusComponentChange,
+  admin_refund: adminRefund,
+  admin_alert: adminAlert,
+  admin_health_alert: adminHealthAlert,
+  admin_ssl_expiry: adminSslExpiry,
+};
+
+export type EmailTemplateName = keyof typeof EMAIL_TEMPLATES;
+export type EmailTemplateParams<N extends EmailTemplateName> =
+  (typeof EMAIL_TEMPLATES)[N] extends Template<infer P> ? P : never;
+
+// Falls back to English when a template has no version in the requested language
+export function renderEmail<N extends EmailTemplateName>(
+  name: N,
+  locale: Locale,
+  params: EmailTemplateParams<N>
+): { locale: Locale } & RenderedEmail {
+  const template = EMAIL_TEMPLATES[name] as Template<EmailTemplateParams<N>>;
+  const render = template[locale];
+  return render ? { locale, ...render(params) } : { locale: 'en', ...template.en(params) };
+}
@@ -2,22 +2,21 @@
 // One-Click Data Export (DSGVO-compliant)
 // =============================================================================
 
-import { existsSync, mkdirSync, readFileSync, writeFileSync, readdirSync } from 'fs';
+import { existsSync, mkdirSync, writeFileSync, readdirSync } from 'fs';
 import { rm, stat, readdir } from 'fs/promises';
 import { join } from 'path';
 import { exec } from 'child_process';
 import { promisify } from 'util';
-import type { ExportJob, InstanceMetadata } from './types';
-import { INSTANCES_DIR, EXTERNAL_STORAGE_PATH, env } from './config';
+import type { ExportJob } from './types';
+import { INSTANCES_DIR, EXTERNAL_STORAGE_PATH } from './config';
+import { getInstance } from './instances';
+import { exportJobRepository } from './repositories';
 
 const execAsync = promisify(exec);
 
 const EXPORTS_DIR = '/data/exports';
 const EXPORT_EXPIRY_HOURS = 24;
 
-// In-memory job storage (consider SQLite for production)
-const exportJobs: Map<string, ExportJob> = new Map();
-
 export function generateExportToken(): string {
   return Array.from({ length: 32 }, () => 
     Math.random().toString(36).charAt(2)
@@ -25,8 +24,7 @@ export function generateExportToken(): string {
 }
 
 export async function startExport(instanceId: string): Promise<ExportJob> {
-  const metaPath = join(INSTANCES_DIR, instanceId, 'metadata.json');
-  if (!existsSync(metaPath)) {
+  if (!getInstance(instanceId)) {
     throw new Error('Instance not found');
   }
   
@@ -38,50 +36,53 @@ export async function startExport(instanceId: string): Promise<ExportJob> {
     created: new Date().toISOString(),
   };
   
-  exportJobs.set(jobId, job);
+  exportJobRepository.save(job);
+  runExport(jobId);
   
-  // Start async export process
+  return job;
+}
+
+// Start the async export process and record failures on the job
+function runExport(jobId: string): void {
   processExport(jobId).catch(err => {
     console.error(`Export job ${jobId} failed:`, err);
-    const j = exportJobs.get(jobId);
-    if (j) {
+    exportJobRepository.update(jobId, j => {
       j.status = 'failed';
       j.error = err.message;
-    }
+    });
   });
-  
-  return job;
 }
 
 export function getExportJob(jobId: string): ExportJob | null {
-  return exportJobs.get(jobId) || null;
+  return exportJobRepository.get(jobId);
 }
 
 export function getExportByToken(token: string): { job: ExportJob; filePath: string } | null {
-  for (const job of exportJobs.values()) {
-    if (job.downloadToken === token && job.status === 'completed') {
-      const now = new Date();
-      const expires = new Date(job.expiresAt || 0);
-      if (now < expires) {
-        const filePath = join(EXPORTS_DIR, `${job.id}.zip`);
-        if (existsSync(filePath)) {
-          return { job, filePath };
-        }
-      }
+  const job = exportJobRepository.findBy('download_token', token);
+  if (!job || job.status !== 'completed') return null;
+  
+  const now = new Date();
+  const expires = new Date(job.expiresAt || 0);
+  if (now < expires) {
+    const filePath = join(EXPORTS_DIR, `${job.id}.zip`);
+    if (existsSync(filePath)) {
+      return { job, filePath };
     }
   }
   return null;
 }
 
 async function processExport(jobId: string): Promise<void> {
-  const job = exportJobs.get(jobId);
+  const job = exportJobRepository.update(jobId, j => {
+    j.status = 'processing';
+  });
   if (!job) return;
   
-  job.status = 'processing';
-  
   const instanceId = job.instanceId;
-  const metaPath = join(INSTANCES_DIR, instanceId, 'metadata.json');
-  const meta: InstanceMetadata = JSON.parse(readFileSync(metaPath, 'utf-8'));
+  const meta = getInstance(instanceId);
+  if (!meta) {
+    throw new Error('Instance not found');
+  }
   
   // Determine upload path
   let uploadsPath: string;
@@ -137,6 +138,7 @@ async function processExport(jobId: string): Promise<void> {
     
     // Create ZIP archive
     const zipPath = join(EXPORTS_DIR, `${jobId}.zip`);
+    await rm(zipPath, { force: true }); // Partial archive from an interrupted run
     await execAsync(`cd "${uploadsPath}" && zip -r "${zipPath}" . -x "*.log"`);
     
     // Add metadata files to ZIP
@@ -149,26 +151,17 @@ async function processExport(jobId: string): Promise<void> {
     const token = generateExportToken();
     const expiresAt = new Date(Date.now() + EXPORT_EXPIRY_HOURS * 60 * 60 * 1000);
     
-    job.status = 'completed';
-    job.completed = new Date().toISOString();
-    job.downloadToken = token;
-    job.expiresAt = expiresAt.toISOString();
-    job.fileSize = zipStats.size;
+    exportJobRepository.update(jobId, j => {
+      j.status = 'completed';
+      j.completed = new Date().toISOString();
+      j.downloadToken = token;
+      j.expiresAt = expiresAt.toISOString();
+      j.fileSize = zipStats.size;
+    });
     
-    // Clean up temp directory
+    // Clean up temp directory (the archive itself is removed by the export-cleanup job)
     await rm(exportDir, { recursive: true, force: true });
     
-    // Schedule deletion after expiry
-    setTimeout(async () => {
-      try {
-        await rm(zipPath, { force: true });
-        exportJobs.delete(jobId);
-        console.log(`Export ${jobId} expired and deleted`);
-      } catch {
-        // Ignore cleanup errors
-      }
-    }, EXPORT_EXPIRY_HOURS * 60 * 60 * 1000);
-    
     console.log(`Export ${jobId} completed: ${zipPath} (${zipStats.size} bytes)`);
     
   } catch (err) {
@@ -200,15 +193,34 @@ async function walkDirectory(
 }
 
 export function listExportJobs(instanceId?: string): ExportJob[] {
-  const jobs = Array.from(exportJobs.values());
   if (instanceId) {
-    return jobs.filter(j => j.instanceId === instanceId);
+    return exportJobRepository.listBy('instance_id', instanceId);
+  }
+  return exportJobRepository.list();
+}
+
+// Resume jobs that were interrupted by a restart
+export function resumeExportJobs(): number {
+  const interrupted = exportJobRepository.list()
+    .filter(j => j.status === 'pending' || j.status === 'processing');
+  
+  for (const job of interrupted) {
+    console.log(`Resuming export job ${job.id}`);
+    runExport(job.id);
   }
-  return jobs;
+  
+  return interrupted.length;
 }
 
-// Cleanup expired exports on startup
+// Delete expired archives and job records (run by the scheduler)
 export async function cleanupExpiredExports(): Promise<void> {
+  // Drop expired job records
+  for (const job of exportJobRepository.listBy('status', 'completed')) {
+    if (job.expiresAt && new Date(job.expiresAt) < new Date()) {
+      exportJobRepository.delete(job.id);
+    }
+  }
+  
   if (!existsSync(EXPORTS_DIR)) return;
   
   const files = readdirSync(EXPORTS_DIR);
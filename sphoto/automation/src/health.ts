@@ -1,88 +1,232 @@
 // =============================================================================
 // Health Monitoring Service
 // =============================================================================
+// Besides reachability and TLS, Immich instances are probed through their API:
+// server version, database and Redis (derived from authenticated endpoints
+// that need them), job queues, free disk space and the ML service. Every run
+// is kept in the health history for HEALTH.historyDays.
 
-import { Resend } from 'resend';
-import { env, INSTANCES_DIR } from './config';
-import { listInstances, getInstance } from './instances';
-import type { InstanceMetadata } from './types';
-import { existsSync, readFileSync, writeFileSync, mkdirSync } from 'fs';
-import { join } from 'path';
-
-const resend = new Resend(env.RESEND_API_KEY);
+import { env, DEPLOYMENT_MODE, SHARED_INSTANCES, HEALTH } from './config';
+import { listInstances, getInstanceImmichVersion } from './instances';
+import { getSharedImmichVersion } from './releases';
+import { setMeta } from './db';
+import { healthStatusRepository, healthHistoryRepository } from './repositories';
+import { sendEmail } from './mailer';
+import type { Platform } from './types';
 
 // =============================================================================
 // Types
 // =============================================================================
 
+export type HealthCheckName = 'ping' | 'version' | 'database' | 'redis' | 'queues' | 'disk' | 'ml';
+export type HealthCheckState = 'ok' | 'warning' | 'critical' | 'skipped';
+
+export interface HealthCheckResult {
+  state: HealthCheckState;
+  message?: string;
+  value?: number | string;       // Version, queue backlog or free bytes
+}
+
+export type HealthChecks = Record<HealthCheckName, HealthCheckResult>;
+
 export interface HealthStatus {
   instanceId: string;
-  healthy: boolean;
+  healthy: boolean;              // No critical check
   responseTime: number | null;
   sslValid: boolean;
   sslExpiresAt: string | null;
   sslDaysRemaining: number | null;
   lastCheck: string;
   consecutiveFailures: number;
+  checks?: HealthChecks;         // Missing on statuses recorded before the deep probes
+}
+
+export interface HealthHistoryEntry {
+  instanceId: string;
+  checkedAt: string;
+  healthy: boolean;
+  responseTime: number | null;
+  checks: HealthChecks;
 }
 
 export interface HealthSummary {
   totalInstances: number;
   healthyInstances: number;
   unhealthyInstances: number;
+  degradedInstances: number;     // Healthy, but with warnings
   sslExpiringInstances: number;
   statuses: HealthStatus[];
 }
 
-interface HealthState {
-  statuses: Record<string, HealthStatus>;
-  lastFullCheck: string;
+// Anything the health check can probe: siloed instances and, in shared
+// mode, the two shared Immich servers
+interface HealthTarget {
+  id: string;
+  platform: Platform;
+  hostname: string;              // Public hostname, checked for reachability and TLS
+  apiUrl: string;                // Base URL for authenticated API calls
+  apiKey?: string;
+  hasML: boolean;
+  immichVersion: string;         // Image tag the target should run
 }
 
+// Meta key holding the timestamp of the last full health check
+export const HEALTH_LAST_FULL_CHECK_KEY = 'health.lastFullCheck';
+
 // =============================================================================
-// Storage
+// Health Check Functions
 // =============================================================================
 
-const HEALTH_DIR = join(INSTANCES_DIR, '..', 'health');
-const HEALTH_FILE = join(HEALTH_DIR, 'health.json');
+function listHealthTargets(): HealthTarget[] {
+  const targets: HealthTarget[] = listInstances()
+    .filter(i => i.status === 'active')
+    .map(i => ({
+      id: i.id,
+      platform: i.platform,
+      hostname: `${i.id}.${env.DOMAIN}`,
+      apiUrl: `https://${i.id}.${env.DOMAIN}`,
+      apiKey: i.immichApiKey,
+      hasML: i.platform === 'immich',
+      immichVersion: getInstanceImmichVersion(i),
+    }));
 
-function ensureHealthDir(): void {
-  if (!existsSync(HEALTH_DIR)) {
-    mkdirSync(HEALTH_DIR, { recursive: true });
+  if (DEPLOYMENT_MODE === 'shared') {
+    for (const instance of ['free', 'paid'] as const) {
+      const config = SHARED_INSTANCES[instance];
+      targets.push({
+        id: instance,
+        platform: 'immich',
+        hostname: `${config.subdomain}.${env.DOMAIN}`,
+        apiUrl: config.internalUrl,
+        apiKey: config.apiKey,
+        hasML: config.hasML,
+        immichVersion: getSharedImmichVersion(instance),
+      });
+    }
   }
+
+  return targets;
+}
+
+function skipped(message: string): HealthCheckResult {
+  return { state: 'skipped', message };
+}
+
+function failureMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+async function apiGet<T>(target: HealthTarget, path: string, authenticated = true): Promise<{ status: number; body?: T }> {
+  const response = await fetch(`${target.apiUrl}${path}`, {
+    headers: authenticated ? { 'x-api-key': target.apiKey! } : {},
+    signal: AbortSignal.timeout(HEALTH.probeTimeoutMs),
+  });
+  return { status: response.status, body: response.ok ? await response.json() as T : undefined };
+}
+
+function normalizeVersion(version: string): string {
+  return version.trim().replace(/^v/, '');
 }
 
-function loadHealthState(): HealthState {
-  ensureHealthDir();
-  if (!existsSync(HEALTH_FILE)) {
-    return { statuses: {}, lastFullCheck: '' };
+async function checkVersion(target: HealthTarget): Promise<HealthCheckResult> {
+  try {
+    const { status, body } = await apiGet<{ major: number; minor: number; patch: number }>(target, '/api/server/version', false);
+    if (!body) return { state: 'critical', message: `HTTP ${status}` };
+
+    const version = `${body.major}.${body.minor}.${body.patch}`;
+    // 'release' and other floating tags can't be compared
+    if (!/^v?\d+\.\d+\.\d+$/.test(target.immichVersion)) {
+      return { state: 'ok', value: version, message: `Image tag ${target.immichVersion} is not pinned` };
+    }
+    if (normalizeVersion(target.immichVersion) !== version) {
+      return { state: 'warning', value: version, message: `Expected ${normalizeVersion(target.immichVersion)}` };
+    }
+    return { state: 'ok', value: version };
+  } catch (err) {
+    return { state: 'critical', message: failureMessage(err) };
   }
+}
+
+// Immich looks up the API key in Postgres on every authenticated request, so
+// an answer from /api/server/about means the database is reachable
+async function checkDatabase(target: HealthTarget): Promise<HealthCheckResult> {
   try {
-    return JSON.parse(readFileSync(HEALTH_FILE, 'utf-8'));
-  } catch {
-    return { statuses: {}, lastFullCheck: '' };
+    const { status } = await apiGet(target, '/api/server/about');
+    if (status === 401 || status === 403) return { state: 'warning', message: 'Admin API key rejected' };
+    if (status >= 500) return { state: 'critical', message: `HTTP ${status}` };
+    return { state: 'ok' };
+  } catch (err) {
+    return { state: 'critical', message: failureMessage(err) };
   }
 }
 
-function saveHealthState(state: HealthState): void {
-  ensureHealthDir();
-  writeFileSync(HEALTH_FILE, JSON.stringify(state, null, 2));
+type JobCounts = { active: number; completed: number; failed: number; delayed: number; waiting: number; paused: number };
+
+// Queue counts are read from Redis, so the jobs endpoint covers Redis as well
+async function checkRedisAndQueues(target: HealthTarget): Promise<Pick<HealthChecks, 'redis' | 'queues'>> {
+  try {
+    const { status, body } = await apiGet<Record<string, { jobCounts: JobCounts }>>(target, '/api/jobs');
+    if (!body) {
+      const result: HealthCheckResult = status === 401 || status === 403
+        ? { state: 'warning', message: 'Admin API key rejected' }
+        : { state: 'critical', message: `HTTP ${status}` };
+      return { redis: result, queues: skipped('Queues unavailable') };
+    }
+
+    const queues = Object.values(body);
+    const backlog = queues.reduce((sum, q) => sum + q.jobCounts.waiting + q.jobCounts.delayed, 0);
+    const failed = queues.reduce((sum, q) => sum + q.jobCounts.failed, 0);
+    const problems: string[] = [];
+    if (backlog > HEALTH.queueBacklogWarning) problems.push(`${backlog} jobs waiting`);
+    if (failed > HEALTH.failedJobsWarning) problems.push(`${failed} failed jobs`);
+
+    return {
+      redis: { state: 'ok' },
+      queues: {
+        state: problems.length > 0 ? 'warning' : 'ok',
+        value: backlog,
+        message: problems.length > 0 ? problems.join(', ') : `${backlog} waiting, ${failed} failed`,
+      },
+    };
+  } catch (err) {
+    return { redis: { state: 'critical', message: failureMessage(err) }, queues: skipped('Queues unavailable') };
+  }
 }
 
-// =============================================================================
-// Health Check Functions
-// =============================================================================
+async function checkDisk(target: HealthTarget): Promise<HealthCheckResult> {
+  try {
+    const { status, body } = await apiGet<{ diskAvailableRaw: number; diskSizeRaw: number }>(target, '/api/server/storage');
+    if (!body) return { state: status >= 500 ? 'critical' : 'warning', message: `HTTP ${status}` };
 
-async function checkInstanceHealth(instance: InstanceMetadata): Promise<HealthStatus> {
-  const url = `https://${instance.id}.${env.DOMAIN}`;
-  const endpoint = instance.platform === 'nextcloud' ? '/status.php' : '/api/server/ping';
+    const freePercent = body.diskSizeRaw > 0 ? (body.diskAvailableRaw / body.diskSizeRaw) * 100 : 0;
+    const message = `${freePercent.toFixed(1)}% free`;
+    if (freePercent < HEALTH.diskFreeCriticalPercent) return { state: 'critical', value: body.diskAvailableRaw, message };
+    if (freePercent < HEALTH.diskFreeWarningPercent) return { state: 'warning', value: body.diskAvailableRaw, message };
+    return { state: 'ok', value: body.diskAvailableRaw, message };
+  } catch (err) {
+    return { state: 'critical', message: failureMessage(err) };
+  }
+}
+
+async function checkML(): Promise<HealthCheckResult> {
+  try {
+    const response = await fetch(`${HEALTH.mlUrl}/ping`, { signal: AbortSignal.timeout(HEALTH.probeTimeoutMs) });
+    return response.ok ? { state: 'ok' } : { state: 'critical', message: `HTTP ${response.status}` };
+  } catch (err) {
+    return { state: 'critical', message: failureMessage(err) };
+  }
+}
+
+async function checkInstanceHealth(target: HealthTarget): Promise<HealthStatus> {
+  const url = `https://${target.hostname}`;
+  const endpoint = target.platform === 'nextcloud' ? '/status.php' : '/api/server/ping';
   
   const startTime = Date.now();
-  let healthy = false;
   let responseTime: number | null = null;
   let sslValid = false;
   let sslExpiresAt: string | null = null;
   let sslDaysRemaining: number | null = null;
+  let ping: HealthCheckResult;
   
   try {
     const response = await fetch(`${url}${endpoint}`, {
@@ -91,21 +235,22 @@ async function checkInstanceHealth(instance: InstanceMetadata): Promise<HealthSt
     });
     
     responseTime = Date.now() - startTime;
-    healthy = response.ok;
     sslValid = true; // If we got a response, SSL is working
+    if (!response.ok) {
+      ping = { state: 'critical', message: `HTTP ${response.status}`, value: responseTime };
+    } else if (responseTime > HEALTH.slowResponseMs) {
+      ping = { state: 'warning', message: `Slow response (${responseTime} ms)`, value: responseTime };
+    } else {
+      ping = { state: 'ok', value: responseTime };
+    }
     
   } catch (err) {
-    if (err instanceof Error) {
-      // Check if it's an SSL error
-      if (err.message.includes('certificate') || err.message.includes('SSL')) {
-        sslValid = false;
-      }
-    }
+    ping = { state: 'critical', message: failureMessage(err) };
   }
   
   // Check SSL certificate expiry using a separate connection
   try {
-    const sslInfo = await checkSSLExpiry(`${instance.id}.${env.DOMAIN}`);
+    const sslInfo = await checkSSLExpiry(target.hostname);
     if (sslInfo) {
       sslExpiresAt = sslInfo.expiresAt;
       sslDaysRemaining = sslInfo.daysRemaining;
@@ -114,16 +259,41 @@ async function checkInstanceHealth(instance: InstanceMetadata): Promise<HealthSt
   } catch {
     // SSL check failed, keep existing values
   }
+
+  const checks: HealthChecks = {
+    ping,
+    version: skipped('Not an Immich instance'),
+    database: skipped('Not an Immich instance'),
+    redis: skipped('Not an Immich instance'),
+    queues: skipped('Not an Immich instance'),
+    disk: skipped('Not an Immich instance'),
+    ml: skipped(target.hasML ? 'Not an Immich instance' : 'No machine learning on this instance'),
+  };
+
+  if (target.platform === 'immich') {
+    checks.version = await checkVersion(target);
+    if (target.apiKey) {
+      checks.database = await checkDatabase(target);
+      Object.assign(checks, await checkRedisAndQueues(target));
+      checks.disk = await checkDisk(target);
+    } else {
+      checks.database = checks.redis = checks.queues = checks.disk = skipped('No admin API key');
+    }
+    if (target.hasML) {
+      checks.ml = await checkML();
+    }
+  }
   
   return {
-    instanceId: instance.id,
-    healthy,
+    instanceId: target.id,
+    healthy: Object.values(checks).every(c => c.state !== 'critical'),
     responseTime,
     sslValid,
     sslExpiresAt,
     sslDaysRemaining,
     lastCheck: new Date().toISOString(),
     consecutiveFailures: 0,
+    checks,
   };
 }
 
@@ -172,161 +342,126 @@ async function checkSSLExpiry(hostname: string): Promise<{ valid: boolean; expir
 
 async function sendHealthAlertEmail(
   status: HealthStatus,
-  instance: InstanceMetadata
+  target: HealthTarget
 ): Promise<void> {
-  await resend.emails.send({
-    from: env.EMAIL_FROM,
-    to: env.ADMIN_EMAIL,
-    subject: `🚨 Health Alert: ${status.instanceId} is ${status.healthy ? 'recovering' : 'down'}`,
-    html: `
-      <div style="font-family: -apple-system, BlinkMacSystemFont, sans-serif; max-width: 500px; margin: 0 auto; padding: 20px;">
-        <h1 style="color: #dc2626;">⚠️ Health Alert</h1>
-        
-        <div style="background: ${status.healthy ? '#dcfce7' : '#fef2f2'}; border: 1px solid ${status.healthy ? '#22c55e' : '#dc2626'}; border-radius: 8px; padding: 20px; margin: 20px 0;">
-          <p style="margin: 0 0 10px 0;"><strong>Instance:</strong> ${status.instanceId}</p>
-          <p style="margin: 0 0 10px 0;"><strong>Platform:</strong> ${instance.platform}</p>
-          <p style="margin: 0 0 10px 0;"><strong>Status:</strong> ${status.healthy ? '✅ Healthy' : '❌ Unhealthy'}</p>
-          <p style="margin: 0 0 10px 0;"><strong>Response Time:</strong> ${status.responseTime ? `${status.responseTime}ms` : 'N/A'}</p>
-          <p style="margin: 0;"><strong>Last Check:</strong> ${status.lastCheck}</p>
-        </div>
-        
-        ${!status.healthy ? `
-          <p><strong>Consecutive Failures:</strong> ${status.consecutiveFailures}</p>
-          <p><strong>Suggested Actions:</strong></p>
-          <ul>
-            <li>Check Docker containers: <code>docker ps | grep ${status.instanceId}</code></li>
-            <li>Check logs: <code>docker logs sphoto-${status.instanceId}-server</code></li>
-            <li>Restart: <code>cd /data/instances/${status.instanceId} && docker compose restart</code></li>
-          </ul>
-        ` : `
-          <p style="color: #22c55e;">Instance has recovered and is now healthy.</p>
-        `}
-      </div>
-    `,
-  });
-  
-  console.log(`Health alert sent for ${status.instanceId}`);
+  await sendEmail(env.ADMIN_EMAIL, 'admin_health_alert', { status, platform: target.platform });
 }
 
-async function sendSSLExpiryAlertEmail(
-  status: HealthStatus,
-  instance: InstanceMetadata
-): Promise<void> {
+async function sendSSLExpiryAlertEmail(status: HealthStatus): Promise<void> {
   // Only send for critical cases (≤7 days) - SSL should auto-renew via Traefik
-  await resend.emails.send({
-    from: env.EMAIL_FROM,
-    to: env.ADMIN_EMAIL,
-    subject: `🔴 CRITICAL: SSL auto-renewal may have failed - ${status.instanceId}`,
-    html: `
-      <div style="font-family: -apple-system, BlinkMacSystemFont, sans-serif; max-width: 500px; margin: 0 auto; padding: 20px;">
-        <h1 style="color: #dc2626;">🔐 SSL Certificate Critical Warning</h1>
-        
-        <div style="background: #fef2f2; border: 1px solid #dc2626; border-radius: 8px; padding: 20px; margin: 20px 0;">
-          <p style="margin: 0 0 10px 0;"><strong>Instance:</strong> ${status.instanceId}</p>
-          <p style="margin: 0 0 10px 0;"><strong>Domain:</strong> ${status.instanceId}.${env.DOMAIN}</p>
-          <p style="margin: 0 0 10px 0;"><strong>Expires:</strong> ${status.sslExpiresAt}</p>
-          <p style="margin: 0;"><strong>Days Remaining:</strong> ${status.sslDaysRemaining}</p>
-        </div>
-        
-        <p><strong>⚠️ SSL should auto-renew via Traefik/Let's Encrypt.</strong></p>
-        <p>This alert means auto-renewal may have failed. Please check:</p>
-        <ul>
-          <li>Traefik logs: <code>docker logs traefik</code></li>
-          <li>ACME challenge accessibility</li>
-          <li>Let's Encrypt rate limits</li>
-        </ul>
-      </div>
-    `,
-  });
-  
-  console.log(`SSL critical alert sent for ${status.instanceId}`);
+  await sendEmail(env.ADMIN_EMAIL, 'admin_ssl_expiry', { status });
+}
+
+// Checks that are in warning or critical state
+export function listHealthProblems(status: HealthStatus): HealthCheckName[] {
+  if (!status.checks) return status.healthy ? [] : ['ping'];
+  return (Object.keys(status.checks) as HealthCheckName[])
+    .filter(name => status.checks![name].state === 'warning' || status.checks![name].state === 'critical');
+}
+
+// Alert when a check starts failing or everything is back to normal;
+// a problem that persists is only reported once
+function shouldAlert(prevStatus: HealthStatus | null, newStatus: HealthStatus): boolean {
+  const problems = listHealthProblems(newStatus);
+  if (!prevStatus) return problems.length > 0;
+
+  const previous = listHealthProblems(prevStatus);
+  if (problems.some(p => !previous.includes(p))) return true;
+  return previous.length > 0 && problems.length === 0;
 }
 
 // =============================================================================
 // Public API Functions
 // =============================================================================
 
+function recordHistory(status: HealthStatus): void {
+  healthHistoryRepository.save({
+    instanceId: status.instanceId,
+    checkedAt: status.lastCheck,
+    healthy: status.healthy,
+    responseTime: status.responseTime,
+    checks: status.checks!,
+  });
+}
+
+function pruneHistory(): void {
+  const cutoff = new Date(Date.now() - HEALTH.historyDays * 24 * 60 * 60 * 1000).toISOString();
+  for (const entry of healthHistoryRepository.list()) {
+    if (entry.checkedAt < cutoff) {
+      healthHistoryRepository.delete(`${entry.instanceId}:${entry.checkedAt}`);
+    }
+  }
+}
+
 export async function runHealthCheck(): Promise<HealthSummary> {
   console.log('Running health check for all instances...');
   
-  const instances = listInstances().filter(i => i.status === 'active');
-  const state = loadHealthState();
+  const targets = listHealthTargets();
   const now = new Date().toISOString();
   
   const statuses: HealthStatus[] = [];
   
-  for (const instance of instances) {
+  for (const target of targets) {
     try {
-      const newStatus = await checkInstanceHealth(instance);
-      const prevStatus = state.statuses[instance.id];
+      const newStatus = await checkInstanceHealth(target);
+      const prevStatus = healthStatusRepository.get(target.id);
       
       // Track consecutive failures
       if (!newStatus.healthy) {
         newStatus.consecutiveFailures = (prevStatus?.consecutiveFailures || 0) + 1;
       }
       
-      // Send alert if status changed or first time unhealthy
-      if (prevStatus) {
-        if (prevStatus.healthy && !newStatus.healthy) {
-          // Just became unhealthy
-          await sendHealthAlertEmail(newStatus, instance);
-        } else if (!prevStatus.healthy && newStatus.healthy) {
-          // Just recovered
-          await sendHealthAlertEmail(newStatus, instance);
-        }
-      } else if (!newStatus.healthy) {
-        // First check and unhealthy
-        await sendHealthAlertEmail(newStatus, instance);
+      if (shouldAlert(prevStatus, newStatus)) {
+        await sendHealthAlertEmail(newStatus, target);
       }
       
       // Check SSL expiry - only alert if critically low (≤7 days) as backup warning
       // SSL is auto-renewed by Traefik/Let's Encrypt, this is just a safety net
       if (newStatus.sslDaysRemaining !== null && newStatus.sslDaysRemaining <= 7) {
-        const lastSSLAlert = state.statuses[instance.id]?.sslExpiresAt;
+        const lastSSLAlert = prevStatus?.sslExpiresAt;
         if (!lastSSLAlert || lastSSLAlert !== newStatus.sslExpiresAt) {
-          await sendSSLExpiryAlertEmail(newStatus, instance);
+          await sendSSLExpiryAlertEmail(newStatus);
         }
       }
       
-      state.statuses[instance.id] = newStatus;
+      healthStatusRepository.save(newStatus);
+      recordHistory(newStatus);
       statuses.push(newStatus);
       
     } catch (err) {
-      console.error(`Health check failed for ${instance.id}:`, err);
+      console.error(`Health check failed for ${target.id}:`, err);
     }
   }
   
-  state.lastFullCheck = now;
-  saveHealthState(state);
-  
-  const healthyCount = statuses.filter(s => s.healthy).length;
-  const sslExpiringCount = statuses.filter(s => s.sslDaysRemaining !== null && s.sslDaysRemaining <= 30).length;
+  setMeta(HEALTH_LAST_FULL_CHECK_KEY, now);
+  pruneHistory();
   
-  console.log(`Health check complete: ${healthyCount}/${statuses.length} healthy, ${sslExpiringCount} SSL expiring soon`);
+  const summary = summarize(statuses);
+  console.log(`Health check complete: ${summary.healthyInstances}/${statuses.length} healthy, ${summary.degradedInstances} with warnings, ${summary.sslExpiringInstances} SSL expiring soon`);
   
-  return {
-    totalInstances: statuses.length,
-    healthyInstances: healthyCount,
-    unhealthyInstances: statuses.length - healthyCount,
-    sslExpiringInstances: sslExpiringCount,
-    statuses,
-  };
+  return summary;
 }
 
-export function getHealthSummary(): HealthSummary {
-  const state = loadHealthState();
-  const statuses = Object.values(state.statuses);
-  
+function summarize(statuses: HealthStatus[]): HealthSummary {
   return {
     totalInstances: statuses.length,
     healthyInstances: statuses.filter(s => s.healthy).length,
     unhealthyInstances: statuses.filter(s => !s.healthy).length,
+    degradedInstances: statuses.filter(s => s.healthy && listHealthProblems(s).length > 0).length,
     sslExpiringInstances: statuses.filter(s => s.sslDaysRemaining !== null && s.sslDaysRemaining <= 30).length,
     statuses,
   };
 }
 
+export function getHealthSummary(): HealthSummary {
+  return summarize(healthStatusRepository.list());
+}
+
 export function getInstanceHealth(instanceId: string): HealthStatus | null {
-  const state = loadHealthState();
-  return state.statuses[instanceId] || null;
+  return healthStatusRepository.get(instanceId);
+}
+
+export function getHealthHistory(instanceId: string, hours = 24): HealthHistoryEntry[] {
+  const since = new Date(Date.now() - hours * 60 * 60 * 1000).toISOString();
+  return healthHistoryRepository.listBy('instance_id', instanceId).filter(e => e.checkedAt >= since);
 }
@@ -0,0 +1,514 @@
+// =============================================================================
+// Family Plan Households (Shared Mode)
+// =============================================================================
+// A Family subscription covers several accounts on the paid instance. The
+// subscriber owns the household and invites members by email from the
+// portal; every member gets their own Immich account. Immich only knows
+// per-user quotas, so the pool is enforced by rebalancing: each account's
+// quota is its own usage plus what is still free in the pool. That runs after
+// every change and as a scheduler job, since uploads shift usage in between.
+//
+// Partner sharing is set up with a partner-scoped API key per account.
+// Members get theirs when their account is created; the owner links their
+// account once with their Immich password from the portal.
+
+import { randomBytes } from 'crypto';
+import { PLAN_CATALOG, HOUSEHOLDS, FREE_TIER } from './config';
+import { householdRepository, householdInviteRepository, sharedUserRepository } from './repositories';
+import {
+  createSharedUser,
+  effectiveQuotaGB,
+  gbToBytes,
+  getSharedUser,
+  getSharedUserByEmail,
+  migrateUserBetweenInstances,
+} from './shared-users';
+import { adminKey, createUserApiKey, deleteUserApiKey, immichRequest, jsonBody, loginAsUser } from './immich-api';
+import { sendHouseholdInviteEmail, sendWelcomeEmailShared } from './email';
+import type { ImmichUserResponse, PaidTier, SharedUser } from './types';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface Household {
+  ownerId: string;               // visibleId of the subscriber
+  created: string;
+  lastSyncAt?: string;
+  lastSyncError?: string;
+  usedBytes?: number;            // Pooled usage at the last sync
+}
+
+export interface HouseholdInvite {
+  token: string;
+  householdId: string;
+  email: string;
+  created: string;
+  expiresAt: string;
+}
+
+export interface HouseholdMember {
+  visibleId: string;
+  email: string;
+  role: 'owner' | 'member';
+  joinedAt: string;
+  usedGB: number;
+  partnerSharing: boolean;       // Library is shared with the rest of the household
+}
+
+export interface HouseholdOverview {
+  role: 'owner' | 'member';
+  ownerEmail: string;
+  poolGB: number;
+  usedGB: number;
+  maxMembers: number;
+  members: HouseholdMember[];
+  invites: Array<{ token: string; email: string; expiresAt: string }>;  // Owner only
+  canInvite: boolean;
+  // Customer-facing: why the household can't invite or upload right now
+  reason?: string;
+  paused: boolean;
+}
+
+const PARTNER_PERMISSIONS = ['partner.read', 'partner.create', 'partner.delete'];
+const PARTNER_KEY_NAME = 'SPhoto Familie';
+const DAY_MS = 24 * 60 * 60 * 1000;
+const GB = 1024 * 1024 * 1024;
+
+// =============================================================================
+// Membership
+// =============================================================================
+
+export function isHouseholdTier(tier: SharedUser['tier']): boolean {
+  return tier !== 'free' && Boolean(PLAN_CATALOG[tier].maxMembers);
+}
+
+// Members share the owner's quota, so they are left out of quota totals
+export function isHouseholdMember(user: SharedUser): boolean {
+  return Boolean(user.householdId) && user.householdId !== user.visibleId;
+}
+
+function maxMembers(owner: SharedUser): number {
+  return owner.tier === 'free' ? 1 : PLAN_CATALOG[owner.tier].maxMembers ?? 1;
+}
+
+/** Owner first, then members in the order they joined. */
+export function listHouseholdAccounts(householdId: string): SharedUser[] {
+  return sharedUserRepository.listBy('household_id', householdId)
+    .filter(u => u.status !== 'deleted')
+    .sort((a, b) => {
+      if (a.visibleId === householdId) return -1;
+      if (b.visibleId === householdId) return 1;
+      return a.created.localeCompare(b.created);
+    });
+}
+
+function pendingInvites(householdId: string): HouseholdInvite[] {
+  const now = Date.now();
+  return householdInviteRepository.listBy('household_id', householdId)
+    .filter(i => new Date(i.expiresAt).getTime() > now);
+}
+
+function seatsLeft(owner: SharedUser): number {
+  const accounts = Math.max(listHouseholdAccounts(owner.visibleId).length, 1);
+  return maxMembers(owner) - accounts - pendingInvites(owner.visibleId).length;
+}
+
+// Customer-facing reason why uploads are blocked for the whole household
+function pausedReason(owner: SharedUser | null): string | undefined {
+  if (!owner || owner.status === 'deleted') return 'Der Familien-Plan existiert nicht mehr.';
+  if (!isHouseholdTier(owner.tier) || owner.instance !== 'paid') return 'Der Familien-Plan ist nicht mehr aktiv.';
+  if (owner.billingStatus === 'suspended' || owner.billingStatus === 'downgraded') {
+    return 'Der Familien-Plan ist wegen einer offenen Zahlung pausiert.';
+  }
+  return undefined;
+}
+
+// Customer-facing reason why the owner can't invite anyone right now
+function inviteBlockReason(owner: SharedUser): string | undefined {
+  const paused = pausedReason(owner);
+  if (paused) return paused;
+  if (owner.status !== 'active') return 'Dein Account ist nicht aktiv.';
+  if (owner.billingStatus === 'past_due') return 'Bitte begleiche zuerst die offene Zahlung.';
+  if (owner.migrationJobId) return 'Deine Fotos werden gerade übertragen. Bitte versuche es später erneut.';
+  if (seatsLeft(owner) <= 0) return `Dein Plan umfasst höchstens ${maxMembers(owner)} Accounts.`;
+  return undefined;
+}
+
+// Created with the first invitation; the owner's account joins its own household
+function ensureHousehold(owner: SharedUser): void {
+  if (!householdRepository.get(owner.visibleId)) {
+    householdRepository.save({ ownerId: owner.visibleId, created: new Date().toISOString() });
+  }
+  if (owner.householdId !== owner.visibleId) {
+    sharedUserRepository.update(owner.visibleId, u => {
+      u.householdId = u.visibleId;
+    });
+  }
+}
+
+// =============================================================================
+// Invitations
+// =============================================================================
+
+export async function inviteHouseholdMember(
+  ownerId: string,
+  email: string
+): Promise<{ success: boolean; invite?: HouseholdInvite; error?: string }> {
+  const owner = getSharedUser(ownerId);
+  if (!owner) return { success: false, error: 'User not found' };
+  if (isHouseholdMember(owner)) return { success: false, error: 'Nur der Inhaber des Familien-Plans kann einladen.' };
+
+  const reason = inviteBlockReason(owner);
+  if (reason) return { success: false, error: reason };
+
+  const existing = getSharedUserByEmail(email);
+  if (existing && existing.status !== 'deleted') {
+    return { success: false, error: 'Für diese E-Mail gibt es bereits einen SPhoto Account.' };
+  }
+
+  ensureHousehold(owner);
+
+  // A new invitation to the same address replaces the old link
+  for (const previous of householdInviteRepository.listBy('email', email)) {
+    householdInviteRepository.delete(previous.token);
+  }
+
+  const now = new Date();
+  const invite = householdInviteRepository.save({
+    token: randomBytes(32).toString('hex'),
+    householdId: owner.visibleId,
+    email,
+    created: now.toISOString(),
+    expiresAt: new Date(now.getTime() + HOUSEHOLDS.inviteValidDays * DAY_MS).toISOString(),
+  });
+
+  await sendHouseholdInviteEmail(email, owner.email, invite.token, effectiveQuotaGB(owner), owner.locale);
+  console.log(`Household ${owner.visibleId}: invited ${email}`);
+  return { success: true, invite };
+}
+
+export function revokeHouseholdInvite(ownerId: string, token: string): boolean {
+  const invite = householdInviteRepository.get(token);
+  if (!invite || invite.householdId !== ownerId) return false;
+  return householdInviteRepository.delete(token);
+}
+
+// Single use: the invitation is deleted whether or not it is still valid
+export function consumeHouseholdInvite(token: string): HouseholdInvite | null {
+  const invite = householdInviteRepository.get(token);
+  if (!invite) return null;
+  householdInviteRepository.delete(token);
+  return new Date(invite.expiresAt).getTime() > Date.now() ? invite : null;
+}
+
+/**
+ * Creates the member's account on the paid instance, sets up partner sharing,
+ * rebalances the pool and sends the login details.
+ */
+export async function acceptHouseholdInvite(
+  invite: HouseholdInvite
+): Promise<{ success: boolean; user?: SharedUser; error?: string }> {
+  const owner = getSharedUser(invite.householdId);
+  if (!owner) return { success: false, error: 'Der Familien-Plan existiert nicht mehr.' };
+
+  // The consumed invitation no longer holds a seat
+  const reason = pausedReason(owner) ?? (seatsLeft(owner) <= 0 ? 'Der Familien-Plan ist voll.' : undefined);
+  if (reason) return { success: false, error: reason };
+
+  const result = await createSharedUser(invite.email, owner.tier, owner.quotaGB);
+  if (!result.success || !result.user || !result.password) {
+    console.error(`Household ${owner.visibleId}: creating ${invite.email} failed: ${result.error}`);
+    return { success: false, error: 'Dein Account konnte nicht erstellt werden. Bitte versuche es später erneut.' };
+  }
+
+  const user = sharedUserRepository.update(result.user.visibleId, u => {
+    u.householdId = owner.visibleId;
+  })!;
+
+  // The password is only known now - without the key the member's library is
+  // not shared until they link their account from the portal
+  try {
+    await linkAccount(user, result.password);
+  } catch (err) {
+    console.error(`Household ${owner.visibleId}: partner key for ${user.email} failed:`, (err as Error).message);
+  }
+
+  await syncHousehold(owner.visibleId);
+  await sendWelcomeEmailShared(user.email, 'paid', PLAN_CATALOG[owner.tier as PaidTier].name, effectiveQuotaGB(owner), result.password);
+
+  console.log(`Household ${owner.visibleId}: ${user.email} joined`);
+  return { success: true, user: getSharedUser(user.visibleId)! };
+}
+
+// =============================================================================
+// Partner Sharing
+// =============================================================================
+
+async function linkAccount(user: SharedUser, password: string): Promise<boolean> {
+  const accessToken = await loginAsUser('paid', user.email, password);
+  if (!accessToken) return false;
+
+  const key = await createUserApiKey('paid', accessToken, PARTNER_KEY_NAME, PARTNER_PERMISSIONS);
+  if (user.householdKey) {
+    await deleteUserApiKey('paid', user.householdKey).catch(() => undefined);
+  }
+  sharedUserRepository.update(user.visibleId, u => {
+    u.householdKey = key;
+  });
+  return true;
+}
+
+/**
+ * Links an account with its Immich password so its library is shared with
+ * the household. The password is only used to create a partner-scoped key.
+ */
+export async function linkHouseholdAccount(
+  visibleId: string,
+  password: string
+): Promise<{ success: boolean; error?: string }> {
+  const user = getSharedUser(visibleId);
+  if (!user) return { success: false, error: 'User not found' };
+  if (!user.householdId) return { success: false, error: 'Du bist in keinem Familien-Plan.' };
+
+  if (!(await linkAccount(user, password))) {
+    return { success: false, error: 'Das Passwort ist falsch.' };
+  }
+  return syncHousehold(user.householdId);
+}
+
+// Shares every linked library with all other accounts of the household
+async function syncPartners(accounts: SharedUser[]): Promise<string[]> {
+  const errors: string[] = [];
+
+  for (const account of accounts) {
+    if (!account.householdKey) continue;
+    const key = account.householdKey.secret;
+    try {
+      const existing = await immichRequest<Array<{ id: string }>>('paid', key, '/api/partners?direction=shared-by');
+      const sharedWith = new Set(existing.map(p => p.id));
+      for (const other of accounts) {
+        if (other.visibleId === account.visibleId || sharedWith.has(other.immichUserId)) continue;
+        await immichRequest('paid', key, '/api/partners', jsonBody('POST', { sharedWithId: other.immichUserId }));
+      }
+    } catch (err) {
+      errors.push(`${account.email}: ${(err as Error).message}`);
+    }
+  }
+
+  return errors;
+}
+
+async function unshare(account: SharedUser, partners: SharedUser[]): Promise<void> {
+  if (!account.householdKey) return;
+  for (const partner of partners) {
+    await immichRequest('paid', account.householdKey.secret, `/api/partners/${partner.immichUserId}`, { method: 'DELETE' })
+      .catch(() => undefined);
+  }
+}
+
+// =============================================================================
+// Pooled Quota
+// =============================================================================
+
+async function getUsageBytes(user: SharedUser): Promise<number> {
+  const details = await immichRequest<ImmichUserResponse>('paid', adminKey('paid'), `/api/admin/users/${user.immichUserId}`);
+  return details.quotaUsageInBytes;
+}
+
+async function setQuotaBytes(user: SharedUser, bytes: number): Promise<void> {
+  await immichRequest<ImmichUserResponse>(
+    'paid',
+    adminKey('paid'),
+    `/api/admin/users/${user.immichUserId}`,
+    jsonBody('PUT', { quotaSizeInBytes: Math.max(Math.round(bytes), 1) })
+  );
+}
+
+/**
+ * Sets every account's Immich quota to its usage plus the free pool, and
+ * sets up missing partner shares. While the owner's plan doesn't cover the
+ * household, members are pinned read-only; a suspended owner is too.
+ */
+export async function syncHousehold(householdId: string): Promise<{ success: boolean; error?: string }> {
+  const owner = getSharedUser(householdId);
+  // Accounts being copied to another instance get their quota from the migration
+  const accounts = listHouseholdAccounts(householdId).filter(u => u.instance === 'paid' && !u.migrationJobId);
+  if (accounts.length === 0) return { success: true };
+
+  const paused = pausedReason(owner);
+  const errors: string[] = [];
+
+  try {
+    const usage = await Promise.all(accounts.map(getUsageBytes));
+    const usedBytes = usage.reduce((sum, bytes) => sum + bytes, 0);
+    const freeBytes = owner ? Math.max(gbToBytes(effectiveQuotaGB(owner)) - usedBytes, 0) : 0;
+
+    for (const [i, account] of accounts.entries()) {
+      let quotaBytes = paused ? usage[i] : usage[i] + freeBytes;
+      // An owner who switched to a plan without members keeps that plan's quota
+      if (account.visibleId === householdId && !isHouseholdTier(account.tier) && account.billingStatus !== 'suspended') {
+        quotaBytes = gbToBytes(effectiveQuotaGB(account));
+      }
+      await setQuotaBytes(account, quotaBytes);
+
+      if (owner && account.visibleId !== householdId && account.quotaGB !== owner.quotaGB) {
+        sharedUserRepository.update(account.visibleId, u => {
+          u.quotaGB = owner.quotaGB;
+        });
+      }
+    }
+
+    householdRepository.update(householdId, h => {
+      h.usedBytes = usedBytes;
+    });
+  } catch (err) {
+    errors.push(`quota: ${(err as Error).message}`);
+  }
+
+  errors.push(...await syncPartners(accounts));
+
+  householdRepository.update(householdId, h => {
+    h.lastSyncAt = new Date().toISOString();
+    if (errors.length > 0) h.lastSyncError = errors.join('; ');
+    else delete h.lastSyncError;
+  });
+
+  if (errors.length > 0) {
+    console.error(`Household ${householdId} sync failed: ${errors.join('; ')}`);
+    return { success: false, error: errors.join('; ') };
+  }
+  return { success: true };
+}
+
+// Scheduler job: uploads change usage between syncs
+export async function syncAllHouseholds(): Promise<void> {
+  for (const household of householdRepository.list()) {
+    await syncHousehold(household.ownerId);
+  }
+}
+
+/** Pooled usage in GB for plan change checks, or null if Immich can't be reached. */
+export async function getHouseholdUsedGB(householdId: string): Promise<number | null> {
+  try {
+    const usage = await Promise.all(listHouseholdAccounts(householdId).map(getUsageBytes));
+    return Math.round(usage.reduce((sum, bytes) => sum + bytes, 0) / GB * 100) / 100;
+  } catch {
+    return null;
+  }
+}
+
+// =============================================================================
+// Removing Members
+// =============================================================================
+
+/**
+ * Moves a member out of the household onto the Free instance. Their library
+ * has to fit into the free quota; once the copy has started, partner shares
+ * in both directions are removed so the household no longer sees it.
+ */
+export async function removeHouseholdMember(
+  ownerId: string,
+  memberId: string
+): Promise<{ success: boolean; jobId?: string; error?: string }> {
+  const member = getSharedUser(memberId);
+  if (!member || member.householdId !== ownerId || memberId === ownerId || member.status === 'deleted') {
+    return { success: false, error: 'Mitglied nicht gefunden.' };
+  }
+  if (member.migrationJobId) {
+    return { success: false, error: 'Die Fotos dieses Mitglieds werden gerade übertragen.' };
+  }
+
+  let usedBytes: number;
+  try {
+    usedBytes = await getUsageBytes(member);
+  } catch {
+    return { success: false, error: 'Speichernutzung konnte nicht geprüft werden.' };
+  }
+  if (usedBytes >= gbToBytes(FREE_TIER.quotaGB)) {
+    return {
+      success: false,
+      error: `${member.email} belegt ${(usedBytes / GB).toFixed(1)} GB. Im Free-Plan sind höchstens ${FREE_TIER.quotaGB} GB möglich.`,
+    };
+  }
+
+  const result = await migrateUserBetweenInstances(memberId, 'free', FREE_TIER.quotaGB);
+  if (!result.success) {
+    console.error(`Household ${ownerId}: moving ${member.email} to free failed: ${result.message}`);
+    return { success: false, error: 'Das Mitglied konnte nicht entfernt werden. Bitte versuche es später erneut.' };
+  }
+
+  const others = listHouseholdAccounts(ownerId).filter(u => u.visibleId !== memberId);
+  await unshare(member, others);
+  for (const other of others) {
+    await unshare(other, [member]);
+  }
+
+  if (member.householdKey) {
+    await deleteUserApiKey('paid', member.householdKey).catch(() => undefined);
+  }
+  sharedUserRepository.update(memberId, u => {
+    delete u.householdId;
+    delete u.householdKey;
+  });
+
+  await syncHousehold(ownerId);
+  console.log(`Household ${ownerId}: removed ${member.email}`);
+  return { success: true, jobId: result.jobId };
+}
+
+// =============================================================================
+// Portal
+// =============================================================================
+
+export async function getHouseholdOverview(visibleId: string): Promise<HouseholdOverview | null> {
+  const user = getSharedUser(visibleId);
+  if (!user) return null;
+
+  const householdId = user.householdId
+    ?? (isHouseholdTier(user.tier) && user.instance === 'paid' ? user.visibleId : undefined);
+  if (!householdId) return null;
+
+  const owner = getSharedUser(householdId);
+  const accounts = listHouseholdAccounts(householdId);
+  if (accounts.length === 0 && owner) accounts.push(owner);
+
+  const usage = await Promise.all(accounts.map(account => getUsageBytes(account).catch(() => 0)));
+  const isOwner = householdId === visibleId;
+  const paused = pausedReason(owner);
+
+  return {
+    role: isOwner ? 'owner' : 'member',
+    ownerEmail: owner?.email ?? '',
+    poolGB: owner ? effectiveQuotaGB(owner) : 0,
+    usedGB: Math.round(usage.reduce((sum, bytes) => sum + bytes, 0) / GB * 100) / 100,
+    maxMembers: owner ? maxMembers(owner) : 1,
+    members: accounts.map((account, i) => ({
+      visibleId: account.visibleId,
+      email: account.email,
+      role: account.visibleId === householdId ? 'owner' : 'member',
+      joinedAt: account.created,
+      usedGB: Math.round(usage[i] / GB * 100) / 100,
+      partnerSharing: Boolean(account.householdKey),
+    })),
+    invites: isOwner
+      ? pendingInvites(householdId).map(i => ({ token: i.token, email: i.email, expiresAt: i.expiresAt }))
+      : [],
+    canInvite: isOwner && owner !== null && !inviteBlockReason(owner),
+    reason: paused ?? (isOwner && owner ? inviteBlockReason(owner) : undefined),
+    paused: Boolean(paused),
+  };
+}
+
+// =============================================================================
+// Admin
+// =============================================================================
+
+export function listHouseholds(): Array<Household & { ownerEmail?: string; members: number; invites: number }> {
+  return householdRepository.list().map(household => ({
+    ...household,
+    ownerEmail: getSharedUser(household.ownerId)?.email,
+    members: listHouseholdAccounts(household.ownerId).length,
+    invites: pendingInvites(household.ownerId).length,
+  }));
+}
@@ -0,0 +1,237 @@
+// =============================================================================
+// Immich API (per-user access to the shared instances)
+// =============================================================================
+// Helpers for jobs that work on a single user's library: library migration
+// and data export. Immich has no admin impersonation, so these jobs act as
+// the user through a temporary API key created by logging in as them.
+
+import { SHARED_INSTANCES } from './config';
+import type { MigrationApiKey } from './types';
+
+const SEARCH_PAGE_SIZE = 1000;
+
+// Hidden first: live photo videos must exist on the target before their stills.
+// Locked Folder items are only visible to a PIN-unlocked session.
+export const LIBRARY_VISIBILITIES = ['hidden', 'timeline', 'archive'] as const;
+
+// =============================================================================
+// Immich Types (subset of the API responses we use)
+// =============================================================================
+
+export interface ImmichAsset {
+  id: string;
+  type: 'IMAGE' | 'VIDEO' | 'AUDIO' | 'OTHER';
+  checksum: string;
+  deviceAssetId: string;
+  deviceId: string;
+  originalFileName: string;
+  fileCreatedAt: string;
+  fileModifiedAt: string;
+  localDateTime?: string;
+  isFavorite: boolean;
+  visibility: string;
+  duration: string;
+  livePhotoVideoId?: string | null;
+  exifInfo?: {
+    description?: string | null;
+    rating?: number | null;
+    fileSizeInByte?: number | null;
+    dateTimeOriginal?: string | null;
+    latitude?: number | null;
+    longitude?: number | null;
+    make?: string | null;
+    model?: string | null;
+  };
+}
+
+interface ImmichSearchResponse {
+  assets: {
+    items: ImmichAsset[];
+    nextPage: string | null;
+  };
+}
+
+export interface ImmichAlbum {
+  id: string;
+  albumName: string;
+  description: string;
+  ownerId: string;
+}
+
+export interface ImmichTag {
+  id: string;
+  value: string;
+}
+
+export interface ImmichPerson {
+  id: string;
+  name: string;
+  birthDate: string | null;
+  isHidden: boolean;
+}
+
+export interface ImmichAssetStats {
+  images: number;
+  videos: number;
+  total: number;
+}
+
+// =============================================================================
+// Requests
+// =============================================================================
+
+export function getInstanceConfig(instance: 'free' | 'paid') {
+  return instance === 'free' ? SHARED_INSTANCES.free : SHARED_INSTANCES.paid;
+}
+
+export function adminKey(instance: 'free' | 'paid'): string {
+  return getInstanceConfig(instance).apiKey;
+}
+
+export async function immichRequest<T>(
+  instance: 'free' | 'paid',
+  apiKey: string,
+  endpoint: string,
+  options: RequestInit = {}
+): Promise<T> {
+  const config = getInstanceConfig(instance);
+  const response = await fetch(`${config.internalUrl}${endpoint}`, {
+    ...options,
+    headers: {
+      'x-api-key': apiKey,
+      ...options.headers,
+    },
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Immich API error (${instance}) ${endpoint}: ${response.status} - ${errorText}`);
+  }
+
+  if (response.status === 204) {
+    return undefined as T;
+  }
+  return await response.json() as T;
+}
+
+export function jsonBody(method: string, body: unknown): RequestInit {
+  return {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  };
+}
+
+// Response body is streamed by the caller - originals can be large videos
+export async function downloadOriginal(
+  instance: 'free' | 'paid',
+  apiKey: string,
+  assetId: string
+): Promise<Response> {
+  return fetch(`${getInstanceConfig(instance).internalUrl}/api/assets/${assetId}/original`, {
+    headers: { 'x-api-key': apiKey },
+  });
+}
+
+// =============================================================================
+// User API Keys
+// =============================================================================
+
+// Log in as the user; resolves with a session token, or null for wrong credentials
+export async function loginAsUser(
+  instance: 'free' | 'paid',
+  email: string,
+  password: string
+): Promise<string | null> {
+  const config = getInstanceConfig(instance);
+  const loginResponse = await fetch(`${config.internalUrl}/api/auth/login`, jsonBody('POST', { email, password }));
+  if (loginResponse.status === 401 || loginResponse.status === 400) {
+    return null;
+  }
+  if (!loginResponse.ok) {
+    throw new Error(`Login as ${email} on ${instance} instance failed: ${loginResponse.status}`);
+  }
+  const { accessToken } = await loginResponse.json() as { accessToken: string };
+  return accessToken;
+}
+
+// Create an API key a job can use on the user's behalf
+export async function createUserApiKey(
+  instance: 'free' | 'paid',
+  accessToken: string,
+  name: string,
+  permissions: string[] = ['all']
+): Promise<MigrationApiKey> {
+  const config = getInstanceConfig(instance);
+  const created = await fetch(`${config.internalUrl}/api/api-keys`, {
+    ...jsonBody('POST', { name, permissions }),
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${accessToken}`,
+    },
+  });
+  if (!created.ok) {
+    throw new Error(`Creating API key on ${instance} instance failed: ${created.status}`);
+  }
+  const { secret, apiKey } = await created.json() as { secret: string; apiKey: { id: string } };
+
+  return { id: apiKey.id, secret };
+}
+
+export async function deleteUserApiKey(instance: 'free' | 'paid', key: MigrationApiKey): Promise<void> {
+  await immichRequest<void>(instance, key.secret, `/api/api-keys/${key.id}`, { method: 'DELETE' });
+}
+
+// =============================================================================
+// Library Queries
+// =============================================================================
+
+export async function searchAssets(
+  instance: 'free' | 'paid',
+  apiKey: string,
+  filter: Record<string, unknown> = {}
+): Promise<ImmichAsset[]> {
+  const assets: ImmichAsset[] = [];
+
+  for (const visibility of LIBRARY_VISIBILITIES) {
+    let page: number | null = 1;
+    while (page) {
+      const result: ImmichSearchResponse = await immichRequest<ImmichSearchResponse>(
+        instance,
+        apiKey,
+        '/api/search/metadata',
+        jsonBody('POST', { ...filter, visibility, withExif: true, page, size: SEARCH_PAGE_SIZE })
+      );
+      assets.push(...result.assets.items);
+      page = result.assets.nextPage ? Number(result.assets.nextPage) : null;
+    }
+  }
+
+  return assets;
+}
+
+// Albums owned by the user - shared albums belong to someone else
+export async function listOwnAlbums(
+  instance: 'free' | 'paid',
+  apiKey: string,
+  ownerId: string
+): Promise<ImmichAlbum[]> {
+  const albums = await immichRequest<ImmichAlbum[]>(instance, apiKey, '/api/albums');
+  return albums.filter(a => a.ownerId === ownerId);
+}
+
+export async function listPeople(instance: 'free' | 'paid', apiKey: string): Promise<ImmichPerson[]> {
+  const people: ImmichPerson[] = [];
+  let page = 1;
+  while (true) {
+    const result = await immichRequest<{ people: ImmichPerson[]; hasNextPage?: boolean }>(
+      instance,
+      apiKey,
+      `/api/people?withHidden=true&page=${page}&size=${SEARCH_PAGE_SIZE}`
+    );
+    people.push(...result.people);
+    if (!result.hasNextPage) break;
+    page++;
+  }
+  return people;
+}
@@ -4,14 +4,54 @@
 
 import express, { type Request, type Response, type NextFunction } from 'express';
 import Stripe from 'stripe';
-import { env, DEPLOYMENT_MODE, SHARED_INSTANCES, FREE_TIER } from './config';
+import { env, DEPLOYMENT_MODE, SHARED_INSTANCES, FREE_TIER, SIGNUP_PROTECTION, EMAIL, LOCALES, METRICS, HEALTH, BILLING_INTERVALS, PLAN_CATALOG, HOUSEHOLDS, USAGE, BACKUPS, CUSTOM_DOMAINS, RELEASES } from './config';
 import { handleWebhook, getSessionStatus, createCheckoutSession } from './stripe';
 import { checkSubdomain } from './subdomain';
-import { listInstances, getInstance, startInstance, stopInstance, deleteInstance, migrateInstanceStorage, getInstanceStoragePath } from './instances';
-import { getBranding, updateBranding, deleteBranding, generateCustomCss } from './branding';
-import { startExport, getExportJob, getExportByToken, listExportJobs, cleanupExpiredExports } from './export';
+import {
+  listInstances,
+  getInstance,
+  updateInstance,
+  startInstance,
+  stopInstance,
+  deleteInstance,
+  migrateInstanceStorage,
+  getInstanceStoragePath,
+  getInstanceByEmail,
+  createInstancePortalSession,
+  validateInstancePortalToken,
+  invalidateInstancePortalToken,
+} from './instances';
+import {
+  addCustomDomain,
+  verifyCustomDomain,
+  removeCustomDomain,
+  getCustomDomainSetup,
+  canUseCustomDomains,
+  checkPendingCustomDomains,
+} from './custom-domains';
+import {
+  listInstanceDrift,
+  getInstanceDrift,
+  startReconcileRun,
+  getReconcileRun,
+  listReconcileRuns,
+  failInterruptedReconcileRuns,
+} from './reconciler';
+import {
+  getReleaseOverview,
+  setReleaseChannel,
+  startRollout,
+  promoteRollout,
+  rollbackRollout,
+  getRollout,
+  listRollouts,
+  checkRollouts,
+  failInterruptedRollouts,
+} from './releases';
+import { getBranding, updateBranding, deleteBranding } from './branding';
+import { startExport, getExportJob, getExportByToken, listExportJobs, cleanupExpiredExports, resumeExportJobs } from './export';
 import { getAnalytics, runDailyStatsCollection } from './analytics';
-import { sendExportReadyEmail, sendFreeWelcomeEmail, sendAccountDeletionEmail, sendAccountDeletionCancelledEmail } from './email';
+import { sendExportReadyEmail, sendFreeWelcomeEmail, sendSignupVerificationEmail, sendAccountDeletionEmail, sendAccountDeletionCancelledEmail } from './email';
 import {
   createSharedUser,
   getSharedUser,
@@ -31,6 +71,7 @@ import {
   createPortalSession,
   validatePortalToken,
   invalidatePortalToken,
+  updateSharedUserLocale,
   getPortalData,
 } from './shared-users';
 import { 
@@ -42,6 +83,28 @@ import {
   getActiveAlerts,
   type AlertType 
 } from './alerts';
+import {
+  listAlertChannels,
+  createAlertChannel,
+  updateAlertChannel,
+  deleteAlertChannel,
+  testAlertChannel,
+} from './alert-channels';
+import { getPlanOverview, previewPlanChange, changePlan } from './shared-plans';
+import { listCustomerInvoices, getInvoicePdf, getRevenueReport, importPaidInvoices } from './invoices';
+import { getUserUsage, getUsageOverview, runUsageMetering, USAGE_PERIODS, type UsagePeriod } from './usage';
+import { applyReferral, findReferrer, getReferralSummary, getReferralChains, revokeReferral } from './referrals';
+import {
+  inviteHouseholdMember,
+  revokeHouseholdInvite,
+  consumeHouseholdInvite,
+  acceptHouseholdInvite,
+  linkHouseholdAccount,
+  removeHouseholdMember,
+  getHouseholdOverview,
+  listHouseholds,
+  syncAllHouseholds,
+} from './households';
 import {
   getPlanInfo,
   checkDowngradePossible,
@@ -56,7 +119,6 @@ import {
   cancelMaintenance,
   startMaintenance,
   completeMaintenance,
-  getPublicStatus,
   checkMaintenanceNotifications,
   type MaintenanceCreateInput,
 } from './maintenance';
@@ -64,10 +126,69 @@ import {
   runHealthCheck,
   getHealthSummary,
   getInstanceHealth,
+  getHealthHistory,
 } from './health';
-import type { BrandingSettings, UserTier } from './types';
+import { importLegacyData } from './db-import';
+import { registerJob, startScheduler, listScheduledJobs, triggerJob } from './scheduler';
+import { listStripeEvents } from './stripe-events';
+import { processDunning, listDunningUsers, getPortalBillingInfo, getGracePolicy, setGracePolicy, getGraceDaysRemaining, GRACE_POLICY_META_KEY } from './dunning';
+import {
+  adminAuth,
+  requireRole,
+  getRequestAdmin,
+  toAdminAccountInfo,
+  listAdminAccounts,
+  createAdminAccount,
+  updateAdminAccount,
+  rotateAdminApiKey,
+  deleteAdminAccount,
+} from './admin-accounts';
+import { audit, targetParam, listAuditLog } from './audit-log';
+import { processEmailOutbox, retryEmail, listOutboxEmails } from './mailer';
+import { renderMetrics } from './metrics';
+import {
+  getStatusPage,
+  renderStatusFeed,
+  runStatusCheck,
+  listIncidents,
+  createIncident,
+  addIncidentUpdate,
+  deleteIncident,
+  subscribeToStatus,
+  confirmStatusSubscription,
+  unsubscribeFromStatus,
+  listStatusSubscribers,
+  removeStatusSubscriber,
+} from './status';
+import {
+  rateLimitByIp,
+  checkRateLimit,
+  sendRateLimited,
+  normalizeEmail,
+  isValidEmail,
+  isBlockedEmailDomain,
+  createEmailVerification,
+  consumeEmailVerification,
+  getCaptchaChallenge,
+  verifyCaptcha,
+  cleanupAbuseProtection,
+} from './abuse-protection';
+import { listBackups, backupInstance, startRestore, getRestore, listRestores, failInterruptedBackups, runInstanceBackups } from './backups';
+import { getUserMigrationJob, listUserMigrationJobs, retryUserMigration, cancelUserMigration, resumeUserMigrations } from './user-migration';
+import {
+  startSharedExport,
+  getSharedExportByToken,
+  listSharedExports,
+  getPortalExportInfo,
+  resumeSharedExports,
+  cleanupExpiredSharedExports,
+} from './shared-export';
+import type { BrandingSettings, UserTier, OutboxEmailStatus, PaidTier, BillingInterval } from './types';
 
 const app = express();
+
+// Client IPs for rate limiting come from X-Forwarded-For set by Traefik
+app.set('trust proxy', SIGNUP_PROTECTION.trustProxyHops);
 const stripe = new Stripe(env.STRIPE_SECRET_KEY);
 
 // =============================================================================
@@ -102,31 +223,98 @@ app.get('/health', (_req: Request, res: Response) => {
   });
 });
 
+// Prometheus scrape endpoint
+app.get('/metrics', async (req: Request, res: Response) => {
+  if (METRICS.token && req.headers.authorization !== `Bearer ${METRICS.token}`) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  try {
+    res.type('text/plain; version=0.0.4').send(await renderMetrics());
+  } catch (err) {
+    console.error('Metrics error:', err);
+    res.status(500).json({ error: 'Failed to collect metrics' });
+  }
+});
+
 // =============================================================================
 // Free Tier Signup (Public - no auth needed)
 // =============================================================================
-app.post('/signup/free', async (req: Request, res: Response) => {
+// Two steps: /signup/free checks the request and emails a verification link,
+// /signup/verify creates the Immich user once that link is opened.
+
+// Captcha or proof-of-work challenge for the signup page
+app.get('/signup/challenge', (_req: Request, res: Response) => {
+  res.json(getCaptchaChallenge());
+});
+
+app.post('/signup/free', rateLimitByIp('signupPerIp'), async (req: Request, res: Response) => {
   if (DEPLOYMENT_MODE !== 'shared') {
     return res.status(400).json({ error: 'Free tier only available in shared mode' });
   }
 
-  const { email } = req.body;
-  
-  if (!email || typeof email !== 'string') {
+  if (!req.body.email || typeof req.body.email !== 'string') {
     return res.status(400).json({ error: 'Email is required' });
   }
 
-  // Basic email validation
-  if (!email.includes('@') || !email.includes('.')) {
+  const email = normalizeEmail(req.body.email);
+  if (!isValidEmail(email)) {
     return res.status(400).json({ error: 'Invalid email format' });
   }
 
+  if (isBlockedEmailDomain(email)) {
+    return res.status(400).json({ error: 'Please use a permanent email address' });
+  }
+
+  const emailLimit = checkRateLimit('signupPerEmail', email);
+  if (!emailLimit.allowed) {
+    return sendRateLimited(res, emailLimit.retryAfterSec);
+  }
+
+  if (!(await verifyCaptcha(req.body, req.ip))) {
+    return res.status(400).json({ error: 'Captcha verification failed' });
+  }
+
+  const referralCode = typeof req.body.referral === 'string' ? req.body.referral.trim() : '';
+  if (referralCode && !findReferrer(referralCode)) {
+    return res.status(400).json({ error: 'Invalid referral code' });
+  }
+
   // Check if user already exists
   const existing = getSharedUserByEmail(email);
   if (existing) {
     return res.status(409).json({ error: 'Email already registered' });
   }
 
+  const verification = createEmailVerification(email, { referralCode: referralCode || undefined, ip: req.ip });
+  await sendSignupVerificationEmail(email, verification.token);
+
+  res.status(202).json({
+    success: true,
+    message: 'Check your email to confirm your address.',
+  });
+});
+
+app.post('/signup/verify', rateLimitByIp('verifyPerIp'), async (req: Request, res: Response) => {
+  if (DEPLOYMENT_MODE !== 'shared') {
+    return res.status(400).json({ error: 'Free tier only available in shared mode' });
+  }
+
+  const { token } = req.body;
+  if (!token || typeof token !== 'string') {
+    return res.status(400).json({ error: 'Token is required' });
+  }
+
+  const verification = consumeEmailVerification(token);
+  if (!verification) {
+    return res.status(400).json({ error: 'Invalid or expired verification link' });
+  }
+
+  const { email } = verification;
+  if (getSharedUserByEmail(email)) {
+    return res.status(409).json({ error: 'Email already registered' });
+  }
+
   try {
     const result = await createSharedUser(email, 'free', FREE_TIER.quotaGB);
     
@@ -134,6 +322,9 @@ app.post('/signup/free', async (req: Request, res: Response) => {
       return res.status(500).json({ error: result.error || 'Failed to create account' });
     }
 
+    // Verified free signups qualify right away
+    await applyReferral(result.user.visibleId, 'free', verification.referralCode, verification.ip);
+
     // Send welcome email
     if (result.password) {
       await sendFreeWelcomeEmail(email, result.password);
@@ -150,6 +341,45 @@ app.post('/signup/free', async (req: Request, res: Response) => {
   }
 });
 
+// Family plan invitation link: creates the member's account on the paid instance
+app.post('/household/join', rateLimitByIp('verifyPerIp'), async (req: Request, res: Response) => {
+  if (DEPLOYMENT_MODE !== 'shared') {
+    return res.status(400).json({ error: 'Households only available in shared mode' });
+  }
+
+  const { token } = req.body;
+  if (!token || typeof token !== 'string') {
+    return res.status(400).json({ error: 'Token is required' });
+  }
+
+  const invite = consumeHouseholdInvite(token);
+  if (!invite) {
+    return res.status(400).json({ error: 'Invalid or expired invitation' });
+  }
+
+  const existing = getSharedUserByEmail(invite.email);
+  if (existing && existing.status !== 'deleted') {
+    return res.status(409).json({ error: 'Email already registered' });
+  }
+
+  try {
+    // Customer-facing reason, e.g. the household is full or no longer paid
+    const result = await acceptHouseholdInvite(invite);
+    if (!result.success) {
+      return res.status(422).json({ error: result.error });
+    }
+
+    res.status(201).json({
+      success: true,
+      message: 'Account created! Check your email for login details.',
+      instanceUrl: SHARED_INSTANCES.paid.url,
+    });
+  } catch (err) {
+    console.error('Household join error:', err);
+    res.status(500).json({ error: 'Failed to create account' });
+  }
+});
+
 // =============================================================================
 // User Portal API (authenticated with portal token)
 // =============================================================================
@@ -174,16 +404,32 @@ const portalAuth = (req: Request, res: Response, next: NextFunction) => {
 };
 
 // Login to portal (sends magic link via email)
-app.post('/portal/login', async (req: Request, res: Response) => {
-  if (DEPLOYMENT_MODE !== 'shared') {
-    return res.status(400).json({ error: 'Portal only available in shared mode' });
-  }
-
+app.post('/portal/login', rateLimitByIp('portalLoginPerIp'), async (req: Request, res: Response) => {
   const { email } = req.body;
-  if (!email) {
+  if (!email || typeof email !== 'string') {
     return res.status(400).json({ error: 'Email is required' });
   }
 
+  // Limit login links per address, whether or not the account exists
+  const emailLimit = checkRateLimit('portalLoginPerEmail', normalizeEmail(email));
+  if (!emailLimit.allowed) {
+    return sendRateLimited(res, emailLimit.retryAfterSec);
+  }
+
+  // Siloed customers manage their instance (custom domains) in the portal
+  if (DEPLOYMENT_MODE !== 'shared') {
+    const instance = getInstanceByEmail(email);
+    if (instance && instance.status !== 'deleted') {
+      const session = createInstancePortalSession(instance.id);
+      if (!session.success || !session.token) {
+        return res.status(500).json({ error: 'Failed to create session' });
+      }
+      const { sendPortalLoginEmail } = await import('./email');
+      await sendPortalLoginEmail(email, session.token);
+    }
+    return res.json({ success: true, message: 'If your account exists, check your email for login link.' });
+  }
+
   const user = getSharedUserByEmail(email);
   if (!user) {
     // Don't reveal if email exists - just say "check your email"
@@ -220,6 +466,10 @@ app.post('/portal/auth', async (req: Request, res: Response) => {
 
   const user = validatePortalToken(token);
   if (!user) {
+    const instance = validateInstancePortalToken(token);
+    if (instance) {
+      return res.json({ success: true, token, instanceId: instance.id });
+    }
     return res.status(401).json({ error: 'Invalid or expired token' });
   }
 
@@ -239,7 +489,7 @@ app.get('/portal/dashboard', portalAuth, async (req: Request, res: Response) =>
     return res.status(400).json({ error: result.error });
   }
 
-  res.json(result.data);
+  res.json({ ...result.data, ...getPortalBillingInfo(user), export: getPortalExportInfo(user.visibleId) });
 });
 
 // Get Stripe Customer Portal URL
@@ -266,6 +516,198 @@ app.get('/portal/billing', portalAuth, async (req: Request, res: Response) => {
   }
 });
 
+// Invoices from Stripe, newest first
+app.get('/portal/invoices', portalAuth, async (req: Request, res: Response) => {
+  const user = (req as any).portalUser;
+  if (!user.stripeCustomerId) {
+    return res.json({ invoices: [] });
+  }
+
+  try {
+    res.json({ invoices: await listCustomerInvoices(user.stripeCustomerId) });
+  } catch (err) {
+    console.error('Portal invoices error:', err);
+    res.status(500).json({ error: 'Failed to load invoices' });
+  }
+});
+
+app.get('/portal/invoices/:id/pdf', portalAuth, async (req: Request, res: Response) => {
+  const user = (req as any).portalUser;
+  if (!user.stripeCustomerId) {
+    return res.status(404).json({ error: 'Invoice not found' });
+  }
+
+  try {
+    const result = await getInvoicePdf(user.stripeCustomerId, req.params.id);
+    if (!result.success) {
+      return res.status(result.error === 'Invoice not found' ? 404 : 502).json({ error: result.error });
+    }
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="${result.filename}"`);
+    res.send(Buffer.from(result.pdf!));
+  } catch (err) {
+    console.error('Portal invoice PDF error:', err);
+    res.status(500).json({ error: 'Failed to download invoice' });
+  }
+});
+
+// Storage and upload history with the projected date the quota runs out
+app.get('/portal/usage', portalAuth, (req: Request, res: Response) => {
+  const user = (req as any).portalUser;
+  const granularity = (req.query.granularity as UsagePeriod) || 'day';
+  if (!USAGE_PERIODS.includes(granularity)) {
+    return res.status(400).json({ error: 'Ungültiger Zeitraum' });
+  }
+  res.json(getUserUsage(user.visibleId, granularity));
+});
+
+// Referral code and the bonus earned so far
+app.get('/portal/referral', portalAuth, (req: Request, res: Response) => {
+  const user = (req as any).portalUser;
+  const summary = getReferralSummary(user.visibleId);
+  if (!summary) {
+    return res.status(404).json({ error: 'User not found' });
+  }
+  res.json({ ...summary, link: `https://${env.DOMAIN}/?ref=${summary.code}` });
+});
+
+// Plan switch and storage add-ons (paid users only)
+app.get('/portal/plan', portalAuth, async (req: Request, res: Response) => {
+  const user = (req as any).portalUser;
+
+  try {
+    const result = await getPlanOverview(user.visibleId);
+    if (!result.success) {
+      return res.status(400).json({ error: result.error });
+    }
+    res.json(result.overview);
+  } catch (err) {
+    console.error('Portal plan error:', err);
+    res.status(500).json({ error: 'Failed to load plan' });
+  }
+});
+
+app.post('/portal/plan/preview', portalAuth, async (req: Request, res: Response) => {
+  const user = (req as any).portalUser;
+  const { tier, addonBlocks } = req.body;
+
+  try {
+    const result = await previewPlanChange(user.visibleId, { tier, addonBlocks });
+    if (!result.success) {
+      return res.status(400).json({ error: result.error });
+    }
+    res.json(result.preview);
+  } catch (err) {
+    console.error('Portal plan preview error:', err);
+    res.status(500).json({ error: 'Failed to preview plan change' });
+  }
+});
+
+app.post('/portal/plan', portalAuth, async (req: Request, res: Response) => {
+  const user = (req as any).portalUser;
+  const { tier, addonBlocks } = req.body;
+
+  try {
+    const result = await changePlan(user.visibleId, { tier, addonBlocks });
+    if (!result.success) {
+      return res.status(400).json({ error: result.error });
+    }
+    res.json({ success: true, plan: result.plan });
+  } catch (err) {
+    console.error('Portal plan change error:', err);
+    res.status(500).json({ error: 'Failed to change plan' });
+  }
+});
+
+// Family plan: members, invitations and the pooled quota
+app.get('/portal/household', portalAuth, async (req: Request, res: Response) => {
+  const user = (req as any).portalUser;
+
+  try {
+    res.json({ household: await getHouseholdOverview(user.visibleId) });
+  } catch (err) {
+    console.error('Portal household error:', err);
+    res.status(500).json({ error: 'Failed to load household' });
+  }
+});
+
+app.post('/portal/household/invites', portalAuth, async (req: Request, res: Response) => {
+  const user = (req as any).portalUser;
+
+  if (!req.body.email || typeof req.body.email !== 'string') {
+    return res.status(400).json({ error: 'Email is required' });
+  }
+  const email = normalizeEmail(req.body.email);
+  if (!isValidEmail(email)) {
+    return res.status(400).json({ error: 'Ungültige E-Mail-Adresse' });
+  }
+
+  const limit = checkRateLimit('householdInvitePerUser', user.visibleId);
+  if (!limit.allowed) {
+    return sendRateLimited(res, limit.retryAfterSec);
+  }
+
+  try {
+    const result = await inviteHouseholdMember(user.visibleId, email);
+    if (!result.success) {
+      return res.status(400).json({ error: result.error });
+    }
+    res.status(201).json({ success: true, email, expiresAt: result.invite!.expiresAt });
+  } catch (err) {
+    console.error('Household invite error:', err);
+    res.status(500).json({ error: 'Failed to send invitation' });
+  }
+});
+
+app.delete('/portal/household/invites/:token', portalAuth, (req: Request, res: Response) => {
+  const user = (req as any).portalUser;
+
+  if (!revokeHouseholdInvite(user.visibleId, req.params.token)) {
+    return res.status(404).json({ error: 'Invitation not found' });
+  }
+  res.json({ success: true });
+});
+
+app.delete('/portal/household/members/:id', portalAuth, async (req: Request, res: Response) => {
+  const user = (req as any).portalUser;
+
+  try {
+    const result = await removeHouseholdMember(user.visibleId, req.params.id);
+    if (!result.success) {
+      return res.status(400).json({ error: result.error });
+    }
+    res.json({ success: true, jobId: result.jobId });
+  } catch (err) {
+    console.error('Household member removal error:', err);
+    res.status(500).json({ error: 'Failed to remove member' });
+  }
+});
+
+// Shares the own library with the household; the password only creates a partner key
+app.post('/portal/household/link', portalAuth, async (req: Request, res: Response) => {
+  const user = (req as any).portalUser;
+
+  if (!req.body.password || typeof req.body.password !== 'string') {
+    return res.status(400).json({ error: 'Password is required' });
+  }
+
+  const limit = checkRateLimit('householdLinkPerUser', user.visibleId);
+  if (!limit.allowed) {
+    return sendRateLimited(res, limit.retryAfterSec);
+  }
+
+  try {
+    const result = await linkHouseholdAccount(user.visibleId, req.body.password);
+    if (!result.success) {
+      return res.status(400).json({ error: result.error });
+    }
+    res.json({ success: true });
+  } catch (err) {
+    console.error('Household link error:', err);
+    res.status(500).json({ error: 'Failed to link account' });
+  }
+});
+
 // Request account deletion (2-week delay)
 app.post('/portal/delete-account', portalAuth, async (req: Request, res: Response) => {
   const user = (req as any).portalUser;
@@ -300,6 +742,45 @@ app.post('/portal/cancel-deletion', portalAuth, async (req: Request, res: Respon
   res.json({ success: true, message: 'Account deletion cancelled' });
 });
 
+// Export the whole library; the Immich password lets the job act as the user
+app.post('/portal/export', portalAuth, async (req: Request, res: Response) => {
+  const user = (req as any).portalUser;
+  const { password } = req.body;
+
+  if (!password || typeof password !== 'string') {
+    return res.status(400).json({ error: 'Password is required' });
+  }
+
+  const limit = checkRateLimit('portalExportPerUser', user.visibleId);
+  if (!limit.allowed) {
+    return sendRateLimited(res, limit.retryAfterSec);
+  }
+
+  try {
+    const result = await startSharedExport(user.visibleId, password);
+    if (!result.success) {
+      return res.status(result.error === 'Invalid password' ? 401 : 400).json({ error: result.error });
+    }
+    res.status(202).json({ success: true, export: getPortalExportInfo(user.visibleId) });
+  } catch (err) {
+    console.error('Portal export error:', err);
+    res.status(500).json({ error: 'Failed to start export' });
+  }
+});
+
+// Language for emails
+app.put('/portal/locale', portalAuth, (req: Request, res: Response) => {
+  const user = (req as any).portalUser;
+  const { locale } = req.body;
+
+  if (!LOCALES.includes(locale)) {
+    return res.status(400).json({ error: `locale must be one of: ${LOCALES.join(', ')}` });
+  }
+
+  updateSharedUserLocale(user.visibleId, locale);
+  res.json({ success: true, locale });
+});
+
 // Logout
 app.post('/portal/logout', portalAuth, (req: Request, res: Response) => {
   const user = (req as any).portalUser;
@@ -307,6 +788,79 @@ app.post('/portal/logout', portalAuth, (req: Request, res: Response) => {
   res.json({ success: true });
 });
 
+// =============================================================================
+// Instance Portal API (siloed mode, authenticated with portal token)
+// =============================================================================
+
+const instancePortalAuth = (req: Request, res: Response, next: NextFunction) => {
+  const authHeader = req.headers.authorization;
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    return res.status(401).json({ error: 'Missing or invalid authorization header' });
+  }
+
+  const instance = validateInstancePortalToken(authHeader.slice(7));
+  if (!instance) {
+    return res.status(401).json({ error: 'Invalid or expired token' });
+  }
+
+  (req as any).portalInstance = instance;
+  next();
+};
+
+app.get('/portal/instance', instancePortalAuth, (req: Request, res: Response) => {
+  const instance = (req as any).portalInstance;
+  res.json({
+    id: instance.id,
+    email: instance.email,
+    plan: instance.plan,
+    storageGB: instance.storage_gb,
+    platform: instance.platform,
+    status: instance.status,
+    url: `https://${instance.id}.${env.DOMAIN}`,
+    customDomains: getCustomDomainSetup(instance),
+    canUseCustomDomains: canUseCustomDomains(instance),
+    maxCustomDomains: CUSTOM_DOMAINS.maxPerInstance,
+  });
+});
+
+app.post('/portal/instance/domains', instancePortalAuth, (req: Request, res: Response) => {
+  const instance = (req as any).portalInstance;
+  const { domain } = req.body || {};
+  if (!domain || typeof domain !== 'string') {
+    return res.status(400).json({ error: 'domain is required' });
+  }
+
+  const result = addCustomDomain(instance.id, domain);
+  if (!result.success) {
+    return res.status(400).json({ error: result.error });
+  }
+  res.status(201).json(result.domain);
+});
+
+app.post('/portal/instance/domains/:domain/verify', instancePortalAuth, async (req: Request, res: Response) => {
+  const instance = (req as any).portalInstance;
+  const result = await verifyCustomDomain(instance.id, req.params.domain);
+  if (!result.success) {
+    return res.status(result.error === 'Domain not found' ? 404 : 400).json({ error: result.error, domain: result.domain });
+  }
+  res.json(result.domain);
+});
+
+app.delete('/portal/instance/domains/:domain', instancePortalAuth, async (req: Request, res: Response) => {
+  const instance = (req as any).portalInstance;
+  const result = await removeCustomDomain(instance.id, req.params.domain);
+  if (!result.success) {
+    return res.status(result.error === 'Domain not found' ? 404 : 500).json({ error: result.error });
+  }
+  res.json({ success: true });
+});
+
+app.post('/portal/instance/logout', instancePortalAuth, (req: Request, res: Response) => {
+  const instance = (req as any).portalInstance;
+  invalidateInstancePortalToken(instance.id);
+  res.json({ success: true });
+});
+
 // =============================================================================
 // Subdomain API
 // =============================================================================
@@ -319,14 +873,29 @@ app.get('/subdomain/check/:subdomain', (req: Request, res: Response) => {
 // Checkout
 // =============================================================================
 app.get('/checkout/:plan', async (req: Request, res: Response) => {
-  const plan = req.params.plan as 'basic' | 'pro';
+  const plan = req.params.plan as PaidTier;
   const subdomain = (req.query.subdomain as string)?.toLowerCase();
   const platform = (req.query.platform as 'immich' | 'nextcloud') || 'immich';
+  const interval = (req.query.interval as BillingInterval) || 'month';
+  const promotionCode = (req.query.promo as string)?.trim() || undefined;
+  const referralCode = (req.query.ref as string)?.trim() || undefined;
+  
+  // Validate plan and billing interval; household plans need the shared instances
+  if (!Object.keys(PLAN_CATALOG).includes(plan) || (PLAN_CATALOG[plan].maxMembers && DEPLOYMENT_MODE !== 'shared')) {
+    return res.status(400).send('Ungültiger Plan');
+  }
+  if (!BILLING_INTERVALS.includes(interval)) {
+    return res.status(400).send('Ungültiges Abrechnungsintervall');
+  }
   
   // Validate platform
   if (!['immich', 'nextcloud'].includes(platform)) {
     return res.status(400).send('Ungültige Plattform');
   }
+
+  if (referralCode && !findReferrer(referralCode)) {
+    return res.status(400).send('Ungültiger Empfehlungscode');
+  }
   
   // Validate subdomain if provided
   if (subdomain) {
@@ -337,8 +906,11 @@ app.get('/checkout/:plan', async (req: Request, res: Response) => {
   }
   
   try {
-    const url = await createCheckoutSession(plan, subdomain, platform);
-    res.redirect(303, url);
+    const result = await createCheckoutSession(plan, { subdomain, platform, interval, promotionCode, referralCode });
+    if (!result.success) {
+      return res.status(400).send(result.error);
+    }
+    res.redirect(303, result.url!);
   } catch (err) {
     console.error('Checkout error:', err);
     res.status(500).send('Checkout failed');
@@ -356,12 +928,8 @@ app.get('/status/:sessionId', async (req: Request, res: Response) => {
 // =============================================================================
 // Admin API (protected)
 // =============================================================================
-const adminAuth = (req: Request, res: Response, next: NextFunction) => {
-  if (req.headers['x-api-key'] !== env.ADMIN_API_KEY) {
-    return res.status(401).json({ error: 'Unauthorized' });
-  }
-  next();
-};
+// adminAuth accepts any admin account; requireRole() narrows mutating routes
+// and audit() records them in the audit log
 
 app.get('/api/instances', adminAuth, (_req: Request, res: Response) => {
   res.json(listInstances());
@@ -375,7 +943,7 @@ app.get('/api/instances/:id', adminAuth, (req: Request, res: Response) => {
   res.json(instance);
 });
 
-app.post('/api/instances/:id/start', adminAuth, async (req: Request, res: Response) => {
+app.post('/api/instances/:id/start', adminAuth, requireRole('support'), audit('instance.start', targetParam('instance')), async (req: Request, res: Response) => {
   try {
     await startInstance(req.params.id);
     res.json({ success: true });
@@ -384,7 +952,7 @@ app.post('/api/instances/:id/start', adminAuth, async (req: Request, res: Respon
   }
 });
 
-app.post('/api/instances/:id/stop', adminAuth, async (req: Request, res: Response) => {
+app.post('/api/instances/:id/stop', adminAuth, requireRole('support'), audit('instance.stop', targetParam('instance')), async (req: Request, res: Response) => {
   try {
     await stopInstance(req.params.id);
     res.json({ success: true });
@@ -393,7 +961,7 @@ app.post('/api/instances/:id/stop', adminAuth, async (req: Request, res: Respons
   }
 });
 
-app.delete('/api/instances/:id', adminAuth, async (req: Request, res: Response) => {
+app.delete('/api/instances/:id', adminAuth, requireRole('owner'), audit('instance.delete', targetParam('instance')), async (req: Request, res: Response) => {
   try {
     await deleteInstance(req.params.id);
     res.json({ success: true });
@@ -405,19 +973,15 @@ app.delete('/api/instances/:id', adminAuth, async (req: Request, res: Response)
 // =============================================================================
 // Generate API Key for existing instance (one-time setup)
 // =============================================================================
-app.post('/api/instances/:id/generate-api-key', adminAuth, async (req: Request, res: Response) => {
+app.post('/api/instances/:id/generate-api-key', adminAuth, requireRole('owner'), audit('instance.generate_api_key', targetParam('instance')), async (req: Request, res: Response) => {
   try {
     const instanceId = req.params.id;
-    const { existsSync, readFileSync, writeFileSync } = await import('fs');
-    const { join } = await import('path');
     
-    const metaPath = join('/data/instances', instanceId, 'metadata.json');
-    if (!existsSync(metaPath)) {
+    const meta = getInstance(instanceId);
+    if (!meta) {
       return res.status(404).json({ error: 'Instance not found' });
     }
     
-    const meta = JSON.parse(readFileSync(metaPath, 'utf-8'));
-    
     // Check if already has API key
     if (meta.immichApiKey) {
       return res.json({ success: true, message: 'API key already exists' });
@@ -461,8 +1025,9 @@ app.post('/api/instances/:id/generate-api-key', adminAuth, async (req: Request,
     const { secret } = await apiKeyRes.json() as { secret: string };
     
     // Save to metadata
-    meta.immichApiKey = secret;
-    writeFileSync(metaPath, JSON.stringify(meta, null, 2));
+    updateInstance(instanceId, m => {
+      m.immichApiKey = secret;
+    });
     
     res.json({ success: true, message: 'API key generated and saved' });
   } catch (err) {
@@ -539,7 +1104,7 @@ app.get('/api/instances/:id/storage', adminAuth, async (req: Request, res: Respo
   }
 });
 
-app.post('/api/instances/:id/storage/migrate', adminAuth, async (req: Request, res: Response) => {
+app.post('/api/instances/:id/storage/migrate', adminAuth, requireRole('owner'), audit('instance.storage_migrate', targetParam('instance')), async (req: Request, res: Response) => {
   try {
     const { newStoragePath } = req.body;
     
@@ -586,7 +1151,7 @@ app.get('/api/shared/users/:id', adminAuth, (req: Request, res: Response) => {
   res.json(user);
 });
 
-app.post('/api/shared/users', adminAuth, async (req: Request, res: Response) => {
+app.post('/api/shared/users', adminAuth, requireRole('support'), audit('shared_user.create'), async (req: Request, res: Response) => {
   if (DEPLOYMENT_MODE !== 'shared') {
     return res.status(400).json({ error: 'Only available in shared deployment mode' });
   }
@@ -613,7 +1178,7 @@ app.post('/api/shared/users', adminAuth, async (req: Request, res: Response) =>
   }
 });
 
-app.put('/api/shared/users/:id/quota', adminAuth, async (req: Request, res: Response) => {
+app.put('/api/shared/users/:id/quota', adminAuth, requireRole('billing'), audit('shared_user.quota', targetParam('shared_user')), async (req: Request, res: Response) => {
   if (DEPLOYMENT_MODE !== 'shared') {
     return res.status(400).json({ error: 'Only available in shared deployment mode' });
   }
@@ -634,7 +1199,7 @@ app.put('/api/shared/users/:id/quota', adminAuth, async (req: Request, res: Resp
   }
 });
 
-app.put('/api/shared/users/:id/tier', adminAuth, async (req: Request, res: Response) => {
+app.put('/api/shared/users/:id/tier', adminAuth, requireRole('billing'), audit('shared_user.tier', targetParam('shared_user')), async (req: Request, res: Response) => {
   if (DEPLOYMENT_MODE !== 'shared') {
     return res.status(400).json({ error: 'Only available in shared deployment mode' });
   }
@@ -657,7 +1222,7 @@ app.put('/api/shared/users/:id/tier', adminAuth, async (req: Request, res: Respo
   }
 });
 
-app.post('/api/shared/users/:id/migrate', adminAuth, async (req: Request, res: Response) => {
+app.post('/api/shared/users/:id/migrate', adminAuth, requireRole('support', 'billing'), audit('shared_user.migrate', targetParam('shared_user')), async (req: Request, res: Response) => {
   if (DEPLOYMENT_MODE !== 'shared') {
     return res.status(400).json({ error: 'Only available in shared deployment mode' });
   }
@@ -680,7 +1245,43 @@ app.post('/api/shared/users/:id/migrate', adminAuth, async (req: Request, res: R
   }
 });
 
-app.delete('/api/shared/users/:id', adminAuth, async (req: Request, res: Response) => {
+app.get('/api/shared/migrations', adminAuth, (req: Request, res: Response) => {
+  const visibleId = req.query.user as string | undefined;
+  const jobs = listUserMigrationJobs(visibleId).map(({ sourceKey, targetKey, assetMap, albumMap, ...job }) => job);
+  res.json({ jobs });
+});
+
+app.get('/api/shared/migrations/:jobId', adminAuth, (req: Request, res: Response) => {
+  const job = getUserMigrationJob(req.params.jobId);
+  if (!job) {
+    return res.status(404).json({ error: 'Migration not found' });
+  }
+  const { sourceKey, targetKey, assetMap, albumMap, ...rest } = job;
+  res.json(rest);
+});
+
+app.post('/api/shared/migrations/:jobId/retry', adminAuth, requireRole('support'), audit('migration.retry', targetParam('migration', 'jobId')), (req: Request, res: Response) => {
+  const result = retryUserMigration(req.params.jobId);
+  if (!result.success) {
+    return res.status(400).json({ error: result.error });
+  }
+  res.json({ success: true });
+});
+
+app.post('/api/shared/migrations/:jobId/cancel', adminAuth, requireRole('support'), audit('migration.cancel', targetParam('migration', 'jobId')), async (req: Request, res: Response) => {
+  const result = await cancelUserMigration(req.params.jobId);
+  if (!result.success) {
+    return res.status(result.error === 'Migration not found' ? 404 : 400).json({ error: result.error });
+  }
+  res.json({ success: true });
+});
+
+app.get('/api/shared/exports', adminAuth, (req: Request, res: Response) => {
+  const visibleId = req.query.user as string | undefined;
+  res.json({ jobs: listSharedExports(visibleId) });
+});
+
+app.delete('/api/shared/users/:id', adminAuth, requireRole('owner'), audit('shared_user.delete', targetParam('shared_user')), async (req: Request, res: Response) => {
   if (DEPLOYMENT_MODE !== 'shared') {
     return res.status(400).json({ error: 'Only available in shared deployment mode' });
   }
@@ -714,6 +1315,18 @@ app.get('/api/shared/users/:id/stats', adminAuth, async (req: Request, res: Resp
   }
 });
 
+app.get('/api/shared/users/:id/usage', adminAuth, (req: Request, res: Response) => {
+  const granularity = (req.query.granularity as UsagePeriod) || 'day';
+  if (!USAGE_PERIODS.includes(granularity)) {
+    return res.status(400).json({ error: `granularity must be one of ${USAGE_PERIODS.join(', ')}` });
+  }
+  const usage = getUserUsage(req.params.id, granularity);
+  if (!usage) {
+    return res.status(404).json({ error: 'User not found' });
+  }
+  res.json(usage);
+});
+
 // Shared instances health and stats
 app.get('/api/shared/instances', adminAuth, async (_req: Request, res: Response) => {
   if (DEPLOYMENT_MODE !== 'shared') {
@@ -761,7 +1374,7 @@ app.get('/api/shared/deletions', adminAuth, (_req: Request, res: Response) => {
 });
 
 // Admin: Process scheduled deletions
-app.post('/api/shared/deletions/process', adminAuth, async (_req: Request, res: Response) => {
+app.post('/api/shared/deletions/process', adminAuth, requireRole('owner'), audit('shared_user.process_deletions'), async (_req: Request, res: Response) => {
   if (DEPLOYMENT_MODE !== 'shared') {
     return res.status(400).json({ error: 'Only available in shared deployment mode' });
   }
@@ -775,7 +1388,7 @@ app.post('/api/shared/deletions/process', adminAuth, async (_req: Request, res:
 });
 
 // Admin: Immediately delete user (bypass 2-week delay)
-app.delete('/api/shared/users/:id/force', adminAuth, async (req: Request, res: Response) => {
+app.delete('/api/shared/users/:id/force', adminAuth, requireRole('owner'), audit('shared_user.force_delete', targetParam('shared_user')), async (req: Request, res: Response) => {
   if (DEPLOYMENT_MODE !== 'shared') {
     return res.status(400).json({ error: 'Only available in shared deployment mode' });
   }
@@ -791,6 +1404,162 @@ app.delete('/api/shared/users/:id/force', adminAuth, async (req: Request, res: R
   }
 });
 
+// =============================================================================
+// Scheduled Jobs API (Admin)
+// =============================================================================
+
+app.get('/api/admin/jobs', adminAuth, (_req: Request, res: Response) => {
+  res.json({ jobs: listScheduledJobs() });
+});
+
+app.post('/api/admin/jobs/:name/run', adminAuth, requireRole('support'), audit('job.run', targetParam('job', 'name')), (req: Request, res: Response) => {
+  const result = triggerJob(req.params.name);
+  if (!result.success) {
+    return res.status(result.error === 'Job not found' ? 404 : 409).json({ error: result.error });
+  }
+  res.json({ success: true });
+});
+
+// =============================================================================
+// Billing API (Admin)
+// =============================================================================
+
+app.get('/api/admin/stripe/events', adminAuth, (req: Request, res: Response) => {
+  const status = req.query.status as 'processing' | 'processed' | 'failed' | undefined;
+  const limit = Math.min(parseInt(req.query.limit as string) || 100, 1000);
+  res.json({ events: listStripeEvents(status).slice(0, limit) });
+});
+
+// Paid invoices of a month (default: current month) per tier and tax rate
+app.get('/api/admin/revenue', adminAuth, (req: Request, res: Response) => {
+  const month = (req.query.month as string) || new Date().toISOString().slice(0, 7);
+  if (!/^\d{4}-\d{2}$/.test(month)) {
+    return res.status(400).json({ error: 'month must be YYYY-MM' });
+  }
+  res.json(getRevenueReport(month));
+});
+
+// Import invoices paid before they were recorded (or refresh them)
+app.post('/api/admin/revenue/import', adminAuth, requireRole('billing'), audit('invoice.import'), async (req: Request, res: Response) => {
+  const months = Math.min(parseInt(req.body?.months) || 12, 36);
+  try {
+    const imported = await importPaidInvoices(months);
+    res.json({ success: true, imported });
+  } catch (err) {
+    res.status(500).json({ error: (err as Error).message });
+  }
+});
+
+app.get('/api/admin/dunning', adminAuth, (_req: Request, res: Response) => {
+  if (DEPLOYMENT_MODE !== 'shared') {
+    return res.status(400).json({ error: 'Only available in shared deployment mode' });
+  }
+
+  const users = listDunningUsers().map(u => ({
+    visibleId: u.visibleId,
+    email: u.email,
+    tier: u.tier,
+    billingStatus: u.billingStatus,
+    billingStatusSince: u.billingStatusSince,
+    paymentFailures: u.paymentFailures || 0,
+    suspensionReason: u.suspensionReason,
+    graceDaysRemaining: getGraceDaysRemaining(u),
+    graceActionError: u.graceActionError,
+  }));
+  res.json({ users, gracePolicy: getGracePolicy() });
+});
+
+app.put('/api/admin/grace-policy', adminAuth, requireRole('billing'), audit('settings.grace_policy', () => ({ type: 'settings', id: GRACE_POLICY_META_KEY })), (req: Request, res: Response) => {
+  const { policy } = req.body;
+  if (policy !== 'migrate' && policy !== 'export_delete') {
+    return res.status(400).json({ error: 'Invalid policy. Must be migrate or export_delete' });
+  }
+
+  setGracePolicy(policy);
+  res.json({ success: true, policy });
+});
+
+// =============================================================================
+// Admin Accounts & Audit Log API
+// =============================================================================
+
+app.get('/api/admin/me', adminAuth, (req: Request, res: Response) => {
+  res.json(toAdminAccountInfo(getRequestAdmin(req)!));
+});
+
+app.get('/api/admin/accounts', adminAuth, requireRole('owner'), (_req: Request, res: Response) => {
+  res.json({ accounts: listAdminAccounts() });
+});
+
+app.post('/api/admin/accounts', adminAuth, requireRole('owner'), audit('admin.create'), (req: Request, res: Response) => {
+  const { name, email, role } = req.body;
+  const result = createAdminAccount({ name, email, role }, getRequestAdmin(req)!);
+  if (!result.success) {
+    return res.status(400).json({ error: result.error });
+  }
+
+  // The API key is only ever returned here
+  res.status(201).json({ account: result.account, apiKey: result.apiKey });
+});
+
+app.put('/api/admin/accounts/:id', adminAuth, requireRole('owner'), audit('admin.update', targetParam('admin')), (req: Request, res: Response) => {
+  const { role, disabled, email } = req.body;
+  const result = updateAdminAccount(req.params.id, { role, disabled, email }, getRequestAdmin(req)!);
+  if (!result.success) {
+    return res.status(result.error === 'Admin account not found' ? 404 : 400).json({ error: result.error });
+  }
+  res.json({ account: result.account });
+});
+
+app.post('/api/admin/accounts/:id/rotate-key', adminAuth, requireRole('owner'), audit('admin.rotate_key', targetParam('admin')), (req: Request, res: Response) => {
+  const result = rotateAdminApiKey(req.params.id);
+  if (!result.success) {
+    return res.status(404).json({ error: result.error });
+  }
+  res.json({ apiKey: result.apiKey });
+});
+
+app.delete('/api/admin/accounts/:id', adminAuth, requireRole('owner'), audit('admin.delete', targetParam('admin')), (req: Request, res: Response) => {
+  const result = deleteAdminAccount(req.params.id, getRequestAdmin(req)!);
+  if (!result.success) {
+    return res.status(result.error === 'Admin account not found' ? 404 : 400).json({ error: result.error });
+  }
+  res.json({ success: true });
+});
+
+app.get('/api/admin/audit', adminAuth, (req: Request, res: Response) => {
+  const entries = listAuditLog({
+    actorId: req.query.actor as string | undefined,
+    targetId: req.query.target as string | undefined,
+    action: req.query.action as string | undefined,
+    limit: Math.min(parseInt(req.query.limit as string) || 200, 1000),
+  });
+  res.json({ entries });
+});
+
+// =============================================================================
+// Email Outbox API (Admin)
+// =============================================================================
+
+app.get('/api/admin/emails', adminAuth, (req: Request, res: Response) => {
+  const status = req.query.status as OutboxEmailStatus | undefined;
+  const emails = listOutboxEmails({
+    status,
+    to: req.query.to as string | undefined,
+    limit: Math.min(parseInt(req.query.limit as string) || 200, 1000),
+  });
+  res.json({ transport: EMAIL.transport, emails });
+});
+
+app.post('/api/admin/emails/:id/retry', adminAuth, requireRole('support'), audit('email.retry', targetParam('email')), async (req: Request, res: Response) => {
+  const result = await retryEmail(req.params.id);
+  if (!result.success) {
+    return res.status(400).json({ error: result.error });
+  }
+  const { html, ...email } = result.email!;
+  res.json({ success: true, email });
+});
+
 // =============================================================================
 // Instance Upgrade API (Admin)
 // =============================================================================
@@ -800,7 +1569,7 @@ import { promisify } from 'util';
 const execAsync = promisify(exec);
 
 // Upgrade a shared instance
-app.post('/api/shared/instances/:instance/upgrade', adminAuth, async (req: Request, res: Response) => {
+app.post('/api/shared/instances/:instance/upgrade', adminAuth, requireRole('owner'), audit('shared_instance.upgrade'), async (req: Request, res: Response) => {
   const instance = req.params.instance as 'free' | 'paid';
   
   if (!['free', 'paid'].includes(instance)) {
@@ -836,7 +1605,7 @@ app.post('/api/shared/instances/:instance/upgrade', adminAuth, async (req: Reque
 });
 
 // Upgrade all shared instances
-app.post('/api/shared/instances/upgrade-all', adminAuth, async (_req: Request, res: Response) => {
+app.post('/api/shared/instances/upgrade-all', adminAuth, requireRole('owner'), audit('shared_instance.upgrade_all'), async (_req: Request, res: Response) => {
   try {
     const results: Record<string, { success: boolean; message?: string; error?: string }> = {};
     
@@ -864,34 +1633,143 @@ app.post('/api/shared/instances/upgrade-all', adminAuth, async (_req: Request, r
   }
 });
 
-// Get current Immich version
-app.get('/api/shared/instances/:instance/version', adminAuth, async (req: Request, res: Response) => {
-  const instance = req.params.instance as 'free' | 'paid';
-  
-  if (!['free', 'paid'].includes(instance)) {
-    return res.status(400).json({ error: 'Invalid instance. Use "free" or "paid"' });
+// Get current Immich version
+app.get('/api/shared/instances/:instance/version', adminAuth, async (req: Request, res: Response) => {
+  const instance = req.params.instance as 'free' | 'paid';
+  
+  if (!['free', 'paid'].includes(instance)) {
+    return res.status(400).json({ error: 'Invalid instance. Use "free" or "paid"' });
+  }
+
+  const config = instance === 'free' ? SHARED_INSTANCES.free : SHARED_INSTANCES.paid;
+  
+  try {
+    const response = await fetch(`${config.internalUrl}/api/server/about`, {
+      headers: { 'x-api-key': config.apiKey },
+    });
+    
+    if (!response.ok) {
+      return res.status(500).json({ error: 'Failed to get version info' });
+    }
+    
+    const data = await response.json() as { version?: string; build?: string };
+    res.json({
+      instance,
+      version: data.version,
+      build: data.build,
+    });
+  } catch (err) {
+    res.status(500).json({ error: (err as Error).message });
+  }
+});
+
+// =============================================================================
+// Reconciliation API (siloed instances)
+// =============================================================================
+
+// Compose and container drift of every instance
+app.get('/api/admin/reconcile/drift', adminAuth, async (_req: Request, res: Response) => {
+  try {
+    res.json(await listInstanceDrift());
+  } catch (err) {
+    res.status(500).json({ error: (err as Error).message });
+  }
+});
+
+app.get('/api/admin/reconcile/drift/:id', adminAuth, async (req: Request, res: Response) => {
+  const drift = await getInstanceDrift(req.params.id);
+  if (!drift) {
+    return res.status(404).json({ error: 'Instance not found' });
+  }
+  res.json(drift);
+});
+
+// Apply the desired compose files in rolling batches (all instances if none given)
+app.post('/api/admin/reconcile/apply', adminAuth, requireRole('owner'), audit('reconcile.apply'), (req: Request, res: Response) => {
+  const { instanceIds, batchSize } = req.body || {};
+  if (instanceIds !== undefined && (!Array.isArray(instanceIds) || instanceIds.some((id: unknown) => typeof id !== 'string'))) {
+    return res.status(400).json({ error: 'instanceIds must be an array of instance ids' });
+  }
+
+  const result = startReconcileRun(instanceIds, batchSize === undefined ? undefined : Number(batchSize));
+  if (!result.success) {
+    return res.status(400).json({ error: result.error });
+  }
+  res.status(202).json(result.run);
+});
+
+app.get('/api/admin/reconcile/runs', adminAuth, (_req: Request, res: Response) => {
+  res.json(listReconcileRuns());
+});
+
+app.get('/api/admin/reconcile/runs/:id', adminAuth, (req: Request, res: Response) => {
+  const run = getReconcileRun(req.params.id);
+  if (!run) {
+    return res.status(404).json({ error: 'Reconcile run not found' });
+  }
+  res.json(run);
+});
+
+// =============================================================================
+// Release Channels API
+// =============================================================================
+
+// Stable version, channel and version of every Immich instance, running rollout
+app.get('/api/admin/releases', adminAuth, (_req: Request, res: Response) => {
+  res.json(getReleaseOverview());
+});
+
+// Body: { channel: 'canary' | 'stable' | 'pinned', version? }; id is an instance id, 'free' or 'paid'
+app.put('/api/admin/releases/targets/:id', adminAuth, requireRole('owner'), audit('release.channel', targetParam('instance')), (req: Request, res: Response) => {
+  const { channel, version } = req.body || {};
+  const result = setReleaseChannel(req.params.id, channel, version || undefined);
+  if (!result.success) {
+    return res.status(result.error === 'Instance not found' ? 404 : 400).json({ error: result.error });
   }
+  res.json(result.target);
+});
 
-  const config = instance === 'free' ? SHARED_INSTANCES.free : SHARED_INSTANCES.paid;
-  
-  try {
-    const response = await fetch(`${config.internalUrl}/api/server/about`, {
-      headers: { 'x-api-key': config.apiKey },
-    });
-    
-    if (!response.ok) {
-      return res.status(500).json({ error: 'Failed to get version info' });
-    }
-    
-    const data = await response.json() as { version?: string; build?: string };
-    res.json({
-      instance,
-      version: data.version,
-      build: data.build,
-    });
-  } catch (err) {
-    res.status(500).json({ error: (err as Error).message });
+app.get('/api/admin/releases/rollouts', adminAuth, (_req: Request, res: Response) => {
+  res.json(listRollouts());
+});
+
+app.get('/api/admin/releases/rollouts/:id', adminAuth, (req: Request, res: Response) => {
+  const rollout = getRollout(req.params.id);
+  if (!rollout) {
+    return res.status(404).json({ error: 'Rollout not found' });
+  }
+  res.json(rollout);
+});
+
+// Body: { version, soakHours? }; upgrades the canaries in the background
+app.post('/api/admin/releases/rollouts', adminAuth, requireRole('owner'), audit('release.rollout'), (req: Request, res: Response) => {
+  const { version, soakHours } = req.body || {};
+  if (typeof version !== 'string') {
+    return res.status(400).json({ error: 'version is required' });
+  }
+
+  const result = startRollout(version, getRequestAdmin(req)!.name, soakHours === undefined ? undefined : Number(soakHours));
+  if (!result.success) {
+    return res.status(400).json({ error: result.error });
+  }
+  res.status(202).json(result.rollout);
+});
+
+// Ends the soak period early
+app.post('/api/admin/releases/rollouts/:id/promote', adminAuth, requireRole('owner'), audit('release.promote'), (req: Request, res: Response) => {
+  const result = promoteRollout(req.params.id);
+  if (!result.success) {
+    return res.status(result.error === 'Rollout not found' ? 404 : 400).json({ error: result.error });
   }
+  res.status(202).json(result.rollout);
+});
+
+app.post('/api/admin/releases/rollouts/:id/rollback', adminAuth, requireRole('owner'), audit('release.rollback'), (req: Request, res: Response) => {
+  const result = rollbackRollout(req.params.id);
+  if (!result.success) {
+    return res.status(result.error === 'Rollout not found' ? 404 : 400).json({ error: result.error });
+  }
+  res.status(202).json(result.rollout);
 });
 
 // =============================================================================
@@ -909,49 +1787,114 @@ app.get('/api/instances/:id/branding', adminAuth, (req: Request, res: Response)
   }
 });
 
-app.put('/api/instances/:id/branding', adminAuth, (req: Request, res: Response) => {
-  try {
-    const branding = updateBranding(req.params.id, req.body as BrandingSettings);
-    res.json(branding);
-  } catch (err) {
-    if ((err as Error).message === 'Instance not found') {
-      return res.status(404).json({ error: 'Instance not found' });
-    }
-    res.status(500).json({ error: (err as Error).message });
+app.put('/api/instances/:id/branding', adminAuth, requireRole('support'), audit('instance.branding_update', targetParam('instance')), async (req: Request, res: Response) => {
+  const result = await updateBranding(req.params.id, req.body as BrandingSettings);
+  if (!result.success) {
+    return res.status(result.error === 'Instance not found' ? 404 : 502).json({ error: result.error });
   }
+  res.json(result.branding);
 });
 
-app.delete('/api/instances/:id/branding', adminAuth, (req: Request, res: Response) => {
-  try {
-    deleteBranding(req.params.id);
-    res.json({ success: true });
-  } catch (err) {
-    if ((err as Error).message === 'Instance not found') {
-      return res.status(404).json({ error: 'Instance not found' });
-    }
-    res.status(500).json({ error: (err as Error).message });
+app.delete('/api/instances/:id/branding', adminAuth, requireRole('support'), audit('instance.branding_delete', targetParam('instance')), async (req: Request, res: Response) => {
+  const result = await deleteBranding(req.params.id);
+  if (!result.success) {
+    return res.status(result.error === 'Instance not found' ? 404 : 502).json({ error: result.error });
   }
+  res.json({ success: true });
 });
 
-// Custom CSS endpoint for Immich injection
-app.get('/api/instances/:id/custom.css', (req: Request, res: Response) => {
-  try {
-    const branding = getBranding(req.params.id);
-    if (!branding) {
-      res.type('text/css').send('/* No custom branding */');
-      return;
-    }
-    const css = generateCustomCss(branding);
-    res.type('text/css').send(css);
-  } catch {
-    res.type('text/css').send('/* Error loading branding */');
+// =============================================================================
+// Custom Domains API
+// =============================================================================
+app.get('/api/instances/:id/domains', adminAuth, (req: Request, res: Response) => {
+  const instance = getInstance(req.params.id);
+  if (!instance) {
+    return res.status(404).json({ error: 'Instance not found' });
+  }
+  res.json({ domains: getCustomDomainSetup(instance), canUseCustomDomains: canUseCustomDomains(instance) });
+});
+
+app.post('/api/instances/:id/domains', adminAuth, requireRole('support'), audit('instance.domain_add', targetParam('instance')), (req: Request, res: Response) => {
+  const { domain } = req.body || {};
+  if (!domain || typeof domain !== 'string') {
+    return res.status(400).json({ error: 'domain is required' });
+  }
+
+  const result = addCustomDomain(req.params.id, domain);
+  if (!result.success) {
+    return res.status(result.error === 'Instance not found' ? 404 : 400).json({ error: result.error });
+  }
+  res.status(201).json(result.domain);
+});
+
+app.post('/api/instances/:id/domains/:domain/verify', adminAuth, requireRole('support'), audit('instance.domain_verify', targetParam('instance')), async (req: Request, res: Response) => {
+  const result = await verifyCustomDomain(req.params.id, req.params.domain);
+  if (!result.success) {
+    return res.status(result.error === 'Domain not found' ? 404 : 400).json({ error: result.error, domain: result.domain });
+  }
+  res.json(result.domain);
+});
+
+app.delete('/api/instances/:id/domains/:domain', adminAuth, requireRole('support'), audit('instance.domain_remove', targetParam('instance')), async (req: Request, res: Response) => {
+  const result = await removeCustomDomain(req.params.id, req.params.domain);
+  if (!result.success) {
+    return res.status(result.error === 'Domain not found' ? 404 : 500).json({ error: result.error });
+  }
+  res.json({ success: true });
+});
+
+// =============================================================================
+// Backup API (siloed Immich instances)
+// =============================================================================
+app.get('/api/instances/:id/backups', adminAuth, (req: Request, res: Response) => {
+  res.json(listBackups(req.params.id));
+});
+
+app.post('/api/instances/:id/backups', adminAuth, requireRole('support'), audit('instance.backup', targetParam('instance')), (req: Request, res: Response) => {
+  const instance = getInstance(req.params.id);
+  if (!instance) {
+    return res.status(404).json({ error: 'Instance not found' });
+  }
+  if (instance.platform !== 'immich') {
+    return res.status(400).json({ error: 'Backups are only supported for Immich instances' });
+  }
+
+  // Runs in the background, poll GET /api/instances/:id/backups
+  backupInstance(req.params.id, 'manual').catch(err => {
+    console.error(`Manual backup of ${req.params.id} failed:`, err);
+  });
+  res.status(202).json({ success: true });
+});
+
+app.post('/api/instances/:id/backups/:name/restore', adminAuth, requireRole('owner'), audit('instance.restore', targetParam('instance')), (req: Request, res: Response) => {
+  const { targetId } = req.body || {};
+  if (targetId !== undefined && typeof targetId !== 'string') {
+    return res.status(400).json({ error: 'targetId must be a string' });
+  }
+
+  const result = startRestore(req.params.id, req.params.name, targetId || req.params.id);
+  if (!result.success) {
+    return res.status(result.error === 'Backup not found' ? 404 : 400).json({ error: result.error });
   }
+  res.status(202).json(result.restore);
+});
+
+app.get('/api/admin/restores', adminAuth, (_req: Request, res: Response) => {
+  res.json(listRestores());
+});
+
+app.get('/api/admin/restores/:id', adminAuth, (req: Request, res: Response) => {
+  const restore = getRestore(req.params.id);
+  if (!restore) {
+    return res.status(404).json({ error: 'Restore not found' });
+  }
+  res.json(restore);
 });
 
 // =============================================================================
 // Export API (DSGVO Data Export)
 // =============================================================================
-app.post('/api/instances/:id/export', adminAuth, async (req: Request, res: Response) => {
+app.post('/api/instances/:id/export', adminAuth, requireRole('support'), audit('instance.export', targetParam('instance')), async (req: Request, res: Response) => {
   try {
     const job = await startExport(req.params.id);
     res.json(job);
@@ -982,16 +1925,45 @@ app.get('/api/instances/:id/exports', adminAuth, (req: Request, res: Response) =
 // Public download endpoint (token-based auth)
 app.get('/api/exports/:token', (req: Request, res: Response) => {
   const result = getExportByToken(req.params.token);
-  if (!result) {
+  if (result) {
+    const { job, filePath } = result;
+    return res.download(filePath, `sphoto-export-${job.instanceId}.zip`);
+  }
+
+  const shared = getSharedExportByToken(req.params.token);
+  if (!shared) {
     return res.status(404).json({ error: 'Export not found or expired' });
   }
-  
-  const { job, filePath } = result;
-  res.download(filePath, `sphoto-export-${job.instanceId}.zip`);
+  if (shared.files.length === 1) {
+    return res.download(shared.files[0], shared.job.parts[0].file);
+  }
+
+  // Split export: list the parts
+  const links = shared.job.parts.map((part, index) =>
+    `<li><a href="/api/exports/${req.params.token}/parts/${index + 1}">${part.file}</a> (${(part.size / (1024 * 1024 * 1024)).toFixed(1)} GB)</li>`
+  ).join('\n');
+  res.type('html').send(`<!DOCTYPE html>
+<html><head><meta charset="utf-8"><title>SPhoto Export</title></head>
+<body style="font-family: sans-serif; max-width: 640px; margin: 40px auto;">
+<h1>SPhoto Export</h1>
+<p>Your export was split into ${shared.files.length} archives. Download all of them; manifest.json is in the last one.</p>
+<ul>
+${links}
+</ul>
+</body></html>`);
+});
+
+app.get('/api/exports/:token/parts/:part', (req: Request, res: Response) => {
+  const shared = getSharedExportByToken(req.params.token);
+  const index = parseInt(req.params.part, 10) - 1;
+  if (!shared || !shared.files[index]) {
+    return res.status(404).json({ error: 'Export not found or expired' });
+  }
+  res.download(shared.files[index], shared.job.parts[index].file);
 });
 
 // Notify user when export is ready (called after job completion)
-app.post('/api/instances/:id/export/:jobId/notify', adminAuth, async (req: Request, res: Response) => {
+app.post('/api/instances/:id/export/:jobId/notify', adminAuth, requireRole('support'), audit('instance.export_notify', targetParam('instance')), async (req: Request, res: Response) => {
   try {
     const job = getExportJob(req.params.jobId);
     if (!job || job.instanceId !== req.params.id) {
@@ -1029,8 +2001,30 @@ app.get('/api/analytics', adminAuth, (req: Request, res: Response) => {
   }
 });
 
+// Shared users: storage and uploads over time, summed over all users
+app.get('/api/analytics/usage', adminAuth, (req: Request, res: Response) => {
+  const granularity = (req.query.granularity as UsagePeriod) || 'day';
+  if (!USAGE_PERIODS.includes(granularity)) {
+    return res.status(400).json({ error: `granularity must be one of ${USAGE_PERIODS.join(', ')}` });
+  }
+  res.json(getUsageOverview(granularity));
+});
+
+app.post('/api/analytics/usage/collect', adminAuth, requireRole('support'), audit('usage.collect'), async (_req: Request, res: Response) => {
+  if (DEPLOYMENT_MODE !== 'shared') {
+    return res.status(400).json({ error: 'Only available in shared deployment mode' });
+  }
+
+  try {
+    await runUsageMetering();
+    res.json({ success: true });
+  } catch (err) {
+    res.status(500).json({ error: (err as Error).message });
+  }
+});
+
 // Manual trigger for stats collection (useful for testing)
-app.post('/api/analytics/collect', adminAuth, async (_req: Request, res: Response) => {
+app.post('/api/analytics/collect', adminAuth, requireRole('support'), audit('analytics.collect'), async (_req: Request, res: Response) => {
   try {
     await runDailyStatsCollection();
     res.json({ success: true });
@@ -1051,7 +2045,7 @@ app.get('/api/instances/:id/alerts', adminAuth, (req: Request, res: Response) =>
   }
 });
 
-app.put('/api/instances/:id/alerts/settings', adminAuth, (req: Request, res: Response) => {
+app.put('/api/instances/:id/alerts/settings', adminAuth, requireRole('support'), audit('instance.alert_settings', targetParam('instance')), (req: Request, res: Response) => {
   try {
     const history = updateAlertSettings(req.params.id, req.body);
     res.json(history);
@@ -1060,7 +2054,7 @@ app.put('/api/instances/:id/alerts/settings', adminAuth, (req: Request, res: Res
   }
 });
 
-app.post('/api/admin/alerts/test/:id', adminAuth, async (req: Request, res: Response) => {
+app.post('/api/admin/alerts/test/:id', adminAuth, requireRole('support'), audit('instance.alert_test', targetParam('instance')), async (req: Request, res: Response) => {
   try {
     const alertType = req.body.type as AlertType;
     const adminEmail = req.body.adminEmail || env.EMAIL_FROM.replace(/.*<(.*)>/, '$1');
@@ -1083,7 +2077,7 @@ app.get('/api/admin/alerts/summary', adminAuth, (_req: Request, res: Response) =
   }
 });
 
-app.post('/api/admin/alerts/check', adminAuth, async (req: Request, res: Response) => {
+app.post('/api/admin/alerts/check', adminAuth, requireRole('support'), audit('alerts.check'), async (req: Request, res: Response) => {
   try {
     const adminEmail = req.body.adminEmail || env.EMAIL_FROM.replace(/.*<(.*)>/, '$1');
     const alerts = await runAlertCheck(adminEmail);
@@ -1093,6 +2087,68 @@ app.post('/api/admin/alerts/check', adminAuth, async (req: Request, res: Respons
   }
 });
 
+// Delivery channels for admin alerts, each with the alert types it receives
+app.get('/api/admin/alerts/channels', adminAuth, (_req: Request, res: Response) => {
+  res.json(listAlertChannels());
+});
+
+app.post('/api/admin/alerts/channels', adminAuth, requireRole('owner'), audit('alert_channel.create'), (req: Request, res: Response) => {
+  const { name, type, target, alertTypes, secret, enabled } = req.body;
+  const result = createAlertChannel({ name, type, target, alertTypes, secret, enabled });
+
+  if (!result.success) {
+    return res.status(400).json({ error: result.error });
+  }
+  // The webhook signing secret is only shown once
+  res.status(201).json({ channel: result.channel, secret: result.secret });
+});
+
+app.put('/api/admin/alerts/channels/:id', adminAuth, requireRole('owner'), audit('alert_channel.update', targetParam('alert_channel')), (req: Request, res: Response) => {
+  const { name, target, alertTypes, secret, enabled } = req.body;
+  const result = updateAlertChannel(req.params.id, { name, target, alertTypes, secret, enabled });
+
+  if (!result.success) {
+    return res.status(result.error === 'Channel not found' ? 404 : 400).json({ error: result.error });
+  }
+  res.json(result.channel);
+});
+
+app.delete('/api/admin/alerts/channels/:id', adminAuth, requireRole('owner'), audit('alert_channel.delete', targetParam('alert_channel')), (req: Request, res: Response) => {
+  if (!deleteAlertChannel(req.params.id)) {
+    return res.status(404).json({ error: 'Channel not found' });
+  }
+  res.json({ success: true });
+});
+
+app.post('/api/admin/alerts/channels/:id/test', adminAuth, requireRole('support'), audit('alert_channel.test', targetParam('alert_channel')), async (req: Request, res: Response) => {
+  const result = await testAlertChannel(req.params.id);
+
+  if (!result.success) {
+    return res.status(result.error === 'Channel not found' ? 404 : 502).json({ error: result.error });
+  }
+  res.json({ success: true });
+});
+
+// =============================================================================
+// Referrals (Admin)
+// =============================================================================
+app.get('/api/admin/referrals', adminAuth, (_req: Request, res: Response) => {
+  res.json(getReferralChains());
+});
+
+app.post('/api/admin/referrals/:id/revoke', adminAuth, requireRole('billing'), audit('referral.revoke', targetParam('referral')), async (req: Request, res: Response) => {
+  const result = await revokeReferral(req.params.id, req.body.reason);
+
+  if (!result.success) {
+    return res.status(result.error === 'Referral not found' ? 404 : 400).json({ error: result.error });
+  }
+  res.json({ success: true, referral: result.referral });
+});
+
+app.get('/api/admin/households', adminAuth, (_req: Request, res: Response) => {
+  res.json({ households: listHouseholds() });
+});
+
 // =============================================================================
 // Plan Migration API
 // =============================================================================
@@ -1108,7 +2164,7 @@ app.get('/api/instances/:id/plan', adminAuth, async (req: Request, res: Response
   }
 });
 
-app.post('/api/instances/:id/plan/upgrade', adminAuth, async (req: Request, res: Response) => {
+app.post('/api/instances/:id/plan/upgrade', adminAuth, requireRole('billing'), audit('instance.plan_upgrade', targetParam('instance')), async (req: Request, res: Response) => {
   try {
     const { stripeCustomerId, stripeSubscriptionId } = req.body;
     const result = await upgradePlan(req.params.id, stripeCustomerId, stripeSubscriptionId);
@@ -1121,7 +2177,7 @@ app.post('/api/instances/:id/plan/upgrade', adminAuth, async (req: Request, res:
   }
 });
 
-app.post('/api/instances/:id/plan/downgrade', adminAuth, async (req: Request, res: Response) => {
+app.post('/api/instances/:id/plan/downgrade', adminAuth, requireRole('billing'), audit('instance.plan_downgrade', targetParam('instance')), async (req: Request, res: Response) => {
   try {
     const { stripeSubscriptionId } = req.body;
     const result = await downgradePlan(req.params.id, stripeSubscriptionId);
@@ -1155,7 +2211,7 @@ app.get('/api/admin/maintenance', adminAuth, (_req: Request, res: Response) => {
   }
 });
 
-app.post('/api/admin/maintenance', adminAuth, async (req: Request, res: Response) => {
+app.post('/api/admin/maintenance', adminAuth, requireRole('support'), audit('maintenance.create'), async (req: Request, res: Response) => {
   try {
     const input: MaintenanceCreateInput = req.body;
     const maintenance = await createMaintenance(input);
@@ -1177,7 +2233,7 @@ app.get('/api/admin/maintenance/:id', adminAuth, (req: Request, res: Response) =
   }
 });
 
-app.put('/api/admin/maintenance/:id', adminAuth, async (req: Request, res: Response) => {
+app.put('/api/admin/maintenance/:id', adminAuth, requireRole('support'), audit('maintenance.update', targetParam('maintenance')), async (req: Request, res: Response) => {
   try {
     const maintenance = await updateMaintenance(req.params.id, req.body);
     if (!maintenance) {
@@ -1189,7 +2245,7 @@ app.put('/api/admin/maintenance/:id', adminAuth, async (req: Request, res: Respo
   }
 });
 
-app.delete('/api/admin/maintenance/:id', adminAuth, async (req: Request, res: Response) => {
+app.delete('/api/admin/maintenance/:id', adminAuth, requireRole('support'), audit('maintenance.delete', targetParam('maintenance')), async (req: Request, res: Response) => {
   try {
     const maintenance = await cancelMaintenance(req.params.id);
     if (!maintenance) {
@@ -1201,7 +2257,7 @@ app.delete('/api/admin/maintenance/:id', adminAuth, async (req: Request, res: Re
   }
 });
 
-app.post('/api/admin/maintenance/:id/start', adminAuth, async (req: Request, res: Response) => {
+app.post('/api/admin/maintenance/:id/start', adminAuth, requireRole('support'), audit('maintenance.start', targetParam('maintenance')), async (req: Request, res: Response) => {
   try {
     const maintenance = await startMaintenance(req.params.id);
     if (!maintenance) {
@@ -1213,7 +2269,7 @@ app.post('/api/admin/maintenance/:id/start', adminAuth, async (req: Request, res
   }
 });
 
-app.post('/api/admin/maintenance/:id/complete', adminAuth, async (req: Request, res: Response) => {
+app.post('/api/admin/maintenance/:id/complete', adminAuth, requireRole('support'), audit('maintenance.complete', targetParam('maintenance')), async (req: Request, res: Response) => {
   try {
     const maintenance = await completeMaintenance(req.params.id);
     if (!maintenance) {
@@ -1225,16 +2281,108 @@ app.post('/api/admin/maintenance/:id/complete', adminAuth, async (req: Request,
   }
 });
 
+// =============================================================================
+// Status Page API
+// =============================================================================
+
 // Public status endpoint (no auth required)
 app.get('/api/status', (_req: Request, res: Response) => {
   try {
-    const status = getPublicStatus();
+    const status = getStatusPage();
     res.json(status);
   } catch (err) {
     res.status(500).json({ error: (err as Error).message });
   }
 });
 
+app.get('/api/status/feed.atom', (_req: Request, res: Response) => {
+  try {
+    res.type('application/atom+xml').send(renderStatusFeed());
+  } catch (err) {
+    res.status(500).json({ error: (err as Error).message });
+  }
+});
+
+app.post('/api/status/subscribe', rateLimitByIp('statusSubscribePerIp'), async (req: Request, res: Response) => {
+  if (!req.body.email || typeof req.body.email !== 'string') {
+    return res.status(400).json({ error: 'Email is required' });
+  }
+
+  const email = normalizeEmail(req.body.email);
+  if (!isValidEmail(email)) {
+    return res.status(400).json({ error: 'Invalid email format' });
+  }
+
+  const locale = LOCALES.includes(req.body.locale) ? req.body.locale : undefined;
+  await subscribeToStatus(email, locale);
+
+  // Same answer for known addresses, so the endpoint can't be used to probe them
+  res.status(202).json({ success: true, message: 'Check your email to confirm the subscription.' });
+});
+
+app.post('/api/status/confirm', (req: Request, res: Response) => {
+  if (!req.body.token || !confirmStatusSubscription(req.body.token)) {
+    return res.status(404).json({ error: 'Invalid or expired link' });
+  }
+  res.json({ success: true });
+});
+
+app.post('/api/status/unsubscribe', (req: Request, res: Response) => {
+  if (!req.body.token || !unsubscribeFromStatus(req.body.token)) {
+    return res.status(404).json({ error: 'Subscription not found' });
+  }
+  res.json({ success: true });
+});
+
+app.get('/api/admin/status/incidents', adminAuth, (_req: Request, res: Response) => {
+  res.json(listIncidents());
+});
+
+app.post('/api/admin/status/incidents', adminAuth, requireRole('support'), audit('incident.create'), async (req: Request, res: Response) => {
+  const { title, impact, components, message, status } = req.body;
+  const result = await createIncident({
+    title,
+    impact,
+    components,
+    message,
+    status,
+    createdBy: getRequestAdmin(req)!.name,
+  });
+
+  if (!result.success) {
+    return res.status(400).json({ error: result.error });
+  }
+  res.status(201).json(result.incident);
+});
+
+app.post('/api/admin/status/incidents/:id/updates', adminAuth, requireRole('support'), audit('incident.update', targetParam('incident')), async (req: Request, res: Response) => {
+  const { status, message } = req.body;
+  const result = await addIncidentUpdate(req.params.id, { status, message, createdBy: getRequestAdmin(req)!.name });
+
+  if (!result.success) {
+    return res.status(result.error === 'Incident not found' ? 404 : 400).json({ error: result.error });
+  }
+  res.json(result.incident);
+});
+
+app.delete('/api/admin/status/incidents/:id', adminAuth, requireRole('support'), audit('incident.delete', targetParam('incident')), (req: Request, res: Response) => {
+  if (!deleteIncident(req.params.id)) {
+    return res.status(404).json({ error: 'Incident not found' });
+  }
+  res.json({ success: true });
+});
+
+app.get('/api/admin/status/subscribers', adminAuth, (_req: Request, res: Response) => {
+  res.json(listStatusSubscribers());
+});
+
+app.delete('/api/admin/status/subscribers/:email', adminAuth, requireRole('support'), audit('status.unsubscribe', targetParam('status_subscriber', 'email')), (req: Request, res: Response) => {
+  if (!removeStatusSubscriber(req.params.email)) {
+    return res.status(404).json({ error: 'Subscriber not found' });
+  }
+  res.json({ success: true });
+});
+
 // =============================================================================
 // Health Monitoring API
 // =============================================================================
@@ -1259,7 +2407,12 @@ app.get('/api/admin/health/:id', adminAuth, (req: Request, res: Response) => {
   }
 });
 
-app.post('/api/admin/health/check', adminAuth, async (_req: Request, res: Response) => {
+app.get('/api/admin/health/:id/history', adminAuth, (req: Request, res: Response) => {
+  const hours = Math.min(parseInt(req.query.hours as string, 10) || 24, HEALTH.historyDays * 24);
+  res.json(getHealthHistory(req.params.id, hours));
+});
+
+app.post('/api/admin/health/check', adminAuth, requireRole('support'), audit('health.check'), async (_req: Request, res: Response) => {
   try {
     const summary = await runHealthCheck();
     res.json(summary);
@@ -1273,56 +2426,144 @@ app.post('/api/admin/health/check', adminAuth, async (_req: Request, res: Respon
 // =============================================================================
 const PORT = process.env.PORT || 3000;
 
-// Cleanup expired exports on startup
-cleanupExpiredExports().catch(console.error);
+// One-shot import of the legacy JSON files into the database
+importLegacyData();
 
-// Run daily stats collection on startup
-runDailyStatsCollection().catch(console.error);
+// Pick up exports and migrations interrupted by a restart
+resumeExportJobs();
+resumeSharedExports();
+resumeUserMigrations();
 
-// Check maintenance notifications on startup
-checkMaintenanceNotifications().catch(console.error);
+// Backups, restores, reconcile runs and rollout stages cannot resume, the next run starts over
+failInterruptedBackups();
+failInterruptedReconcileRuns();
+failInterruptedRollouts();
 
-// Schedule stats collection (runs every 4 hours)
-const scheduleStatsCollection = () => {
-  // Run immediately
-  runDailyStatsCollection().catch(console.error);
-  
-  // Then every 4 hours
-  setInterval(() => {
-    runDailyStatsCollection().catch(console.error);
-  }, 4 * 60 * 60 * 1000);
-};
-scheduleStatsCollection();
+// =============================================================================
+// Scheduled Jobs
+// =============================================================================
 
-// Schedule alert checks (every 6 hours)
-const scheduleAlertChecks = () => {
-  // Run immediately, then every 6 hours
-  runAlertCheck(env.ADMIN_EMAIL).catch(console.error);
-  
-  setInterval(() => {
-    runAlertCheck(env.ADMIN_EMAIL).catch(console.error);
-  }, 6 * 60 * 60 * 1000);
-};
-scheduleAlertChecks();
-
-// Schedule maintenance notification checks (every hour)
-setInterval(() => {
-  checkMaintenanceNotifications().catch(console.error);
-}, 60 * 60 * 1000);
-
-// Schedule health checks (every 15 minutes)
-const scheduleHealthChecks = () => {
-  // Run after 30 seconds (let instances start up)
-  setTimeout(() => {
-    runHealthCheck().catch(console.error);
-  }, 30000);
-  
-  // Then every 15 minutes
-  setInterval(() => {
-    runHealthCheck().catch(console.error);
-  }, 15 * 60 * 1000);
-};
-scheduleHealthChecks();
+registerJob({
+  name: 'stats-collection',
+  description: 'Collect daily usage statistics',
+  schedule: '0 */4 * * *',
+  handler: runDailyStatsCollection,
+  runOnStartup: true,
+});
+
+registerJob({
+  name: 'alert-check',
+  description: 'Check storage, inactivity, churn, health and backup alerts',
+  schedule: '0 */6 * * *',
+  handler: () => runAlertCheck(env.ADMIN_EMAIL),
+  runOnStartup: true,
+});
+
+registerJob({
+  name: 'maintenance-notifications',
+  description: 'Send maintenance reminders and start/complete windows',
+  schedule: '0 * * * *',
+  handler: checkMaintenanceNotifications,
+  runOnStartup: true,
+});
+
+registerJob({
+  name: 'health-check',
+  description: 'Check instance reachability and SSL certificates',
+  schedule: '*/15 * * * *',
+  handler: runHealthCheck,
+});
+
+registerJob({
+  name: 'status-check',
+  description: 'Probe status page components and notify subscribers',
+  schedule: '*/5 * * * *',
+  handler: runStatusCheck,
+  runOnStartup: true,
+});
+
+registerJob({
+  name: 'export-cleanup',
+  description: 'Delete expired export archives',
+  schedule: '30 * * * *',
+  handler: async () => {
+    await cleanupExpiredExports();
+    await cleanupExpiredSharedExports();
+  },
+});
+
+registerJob({
+  name: 'email-outbox',
+  description: 'Retry failed email deliveries and prune old outbox entries',
+  schedule: '* * * * *',
+  handler: processEmailOutbox,
+  runOnStartup: true,
+});
+
+registerJob({
+  name: 'abuse-protection-cleanup',
+  description: 'Drop expired rate limit counters and verification links',
+  schedule: '50 * * * *',
+  handler: async () => cleanupAbuseProtection(),
+});
+
+if (CUSTOM_DOMAINS.enabled) {
+  registerJob({
+    name: 'custom-domain-check',
+    description: 'Verify pending custom domains, drop expired ones',
+    schedule: CUSTOM_DOMAINS.checkSchedule,
+    handler: checkPendingCustomDomains,
+  });
+}
+
+if (BACKUPS.enabled) {
+  registerJob({
+    name: 'instance-backups',
+    description: 'Back up database and media of siloed Immich instances',
+    schedule: BACKUPS.schedule,
+    handler: runInstanceBackups,
+  });
+}
+
+registerJob({
+  name: 'release-rollouts',
+  description: 'Roll back or promote the soaking Immich rollout based on canary health',
+  schedule: RELEASES.checkSchedule,
+  handler: checkRollouts,
+});
+
+if (DEPLOYMENT_MODE === 'shared') {
+  registerJob({
+    name: 'scheduled-deletions',
+    description: 'Delete accounts whose 14-day deletion delay has passed',
+    schedule: '15 * * * *',
+    handler: processScheduledDeletions,
+    runOnStartup: true,
+  });
+
+  registerJob({
+    name: 'household-sync',
+    description: 'Rebalance pooled family plan quotas and partner sharing',
+    schedule: HOUSEHOLDS.syncSchedule,
+    handler: syncAllHouseholds,
+  });
+
+  registerJob({
+    name: 'usage-metering',
+    description: 'Snapshot per-user storage and uploads, roll up old snapshots',
+    schedule: USAGE.snapshotSchedule,
+    handler: runUsageMetering,
+  });
+
+  registerJob({
+    name: 'dunning',
+    description: 'Suspend and downgrade accounts with unpaid invoices',
+    schedule: '45 * * * *',
+    handler: processDunning,
+  });
+}
+
+startScheduler();
 
 app.listen(PORT, () => {
   console.log(`
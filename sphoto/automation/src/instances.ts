@@ -2,13 +2,16 @@
 // Instance Management
 // =============================================================================
 
-import { existsSync, mkdirSync, readFileSync, writeFileSync, readdirSync } from 'fs';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
 import { rm } from 'fs/promises';
 import { join } from 'path';
 import { exec } from 'child_process';
 import { promisify } from 'util';
-import type { InstanceMetadata, CreateInstanceResult, Plan, Platform } from './types';
-import { env, INSTANCES_DIR, EXTERNAL_STORAGE_PATH, COOLIFY_MODE, NETWORK_NAME } from './config';
+import type { InstanceMetadata, CreateInstanceResult, Plan, Platform, PaidTier } from './types';
+import { env, INSTANCES_DIR, EXTERNAL_STORAGE_PATH, COOLIFY_MODE, NETWORK_NAME, PLAN_CATALOG, CUSTOM_DOMAINS } from './config';
+import { instanceRepository } from './repositories';
+import { normalizeEmail } from './abuse-protection';
+import { getMeta } from './db';
 
 const execAsync = promisify(exec);
 
@@ -245,15 +248,14 @@ export async function setupNextcloudAdmin(
   }
 }
 
-function generateNextcloudCompose(
-  id: string,
-  dbPass: string,
-  adminUser: string,
-  adminPass: string,
-  uploadsVolume: string
-): string {
+// Traefik labels of the app container. Verified custom domains get their own
+// router so their certificates come from CUSTOM_DOMAINS.certResolver.
+function traefikLabels(id: string, port: number, customDomains: string[]): string {
+  const customRule = customDomains.map(domain => `Host(\`${domain}\`)`).join(' || ');
+
   // Different labels format for Coolify vs standalone
-  const traefikLabels = COOLIFY_MODE ? `
+  if (COOLIFY_MODE) {
+    const labels = `
       - "traefik.enable=true"
       - "traefik.http.routers.${id}-https.rule=Host(\`${id}.${env.DOMAIN}\`)"
       - "traefik.http.routers.${id}-https.entryPoints=https"
@@ -263,12 +265,42 @@ function generateNextcloudCompose(
       - "traefik.http.routers.${id}-http.rule=Host(\`${id}.${env.DOMAIN}\`)"
       - "traefik.http.routers.${id}-http.entryPoints=http"
       - "traefik.http.routers.${id}-http.middlewares=redirect-to-https"
-      - "traefik.http.services.${id}.loadbalancer.server.port=80"` : `
+      - "traefik.http.services.${id}.loadbalancer.server.port=${port}"`;
+    if (!customRule) return labels;
+    return `${labels}
+      - "traefik.http.routers.${id}-custom-https.rule=${customRule}"
+      - "traefik.http.routers.${id}-custom-https.entryPoints=https"
+      - "traefik.http.routers.${id}-custom-https.tls=true"
+      - "traefik.http.routers.${id}-custom-https.tls.certresolver=${CUSTOM_DOMAINS.certResolver}"
+      - "traefik.http.routers.${id}-custom-https.service=${id}"
+      - "traefik.http.routers.${id}-custom-http.rule=${customRule}"
+      - "traefik.http.routers.${id}-custom-http.entryPoints=http"
+      - "traefik.http.routers.${id}-custom-http.middlewares=redirect-to-https"`;
+  }
+
+  const labels = `
       - "traefik.enable=true"
       - "traefik.http.routers.${id}.rule=Host(\`${id}.${env.DOMAIN}\`)"
       - "traefik.http.routers.${id}.entrypoints=websecure"
       - "traefik.http.routers.${id}.tls.certresolver=le"
-      - "traefik.http.services.${id}.loadbalancer.server.port=80"`;
+      - "traefik.http.services.${id}.loadbalancer.server.port=${port}"`;
+  if (!customRule) return labels;
+  return `${labels}
+      - "traefik.http.routers.${id}.service=${id}"
+      - "traefik.http.routers.${id}-custom.rule=${customRule}"
+      - "traefik.http.routers.${id}-custom.entrypoints=websecure"
+      - "traefik.http.routers.${id}-custom.tls.certresolver=${CUSTOM_DOMAINS.certResolver}"
+      - "traefik.http.routers.${id}-custom.service=${id}"`;
+}
+
+function generateNextcloudCompose(
+  id: string,
+  dbPass: string,
+  adminUser: string,
+  adminPass: string,
+  uploadsVolume: string,
+  customDomains: string[] = []
+): string {
 
   return `
 name: sphoto-${id}
@@ -285,7 +317,7 @@ services:
       - REDIS_HOST=redis
       - NEXTCLOUD_ADMIN_USER=${adminUser}
       - NEXTCLOUD_ADMIN_PASSWORD=${adminPass}
-      - NEXTCLOUD_TRUSTED_DOMAINS=${id}.${env.DOMAIN}
+      - NEXTCLOUD_TRUSTED_DOMAINS=${[`${id}.${env.DOMAIN}`, ...customDomains].join(' ')}
       - OVERWRITEPROTOCOL=https
       - OVERWRITEHOST=${id}.${env.DOMAIN}
     volumes:
@@ -298,7 +330,7 @@ services:
     networks:
       - ${NETWORK_NAME}
       - internal
-    labels:${traefikLabels}
+    labels:${traefikLabels(id, 80, customDomains)}
 
   db:
     image: postgres:15-alpine
@@ -327,35 +359,20 @@ networks:
 `;
 }
 
-function generateImmichCompose(
+export function generateImmichCompose(
   id: string,
   dbPass: string,
-  uploadsVolume: string
+  uploadsVolume: string,
+  customDomains: string[] = [],
+  immichVersion: string = getStableImmichVersion()
 ): string {
-  // Different labels format for Coolify vs standalone
-  const traefikLabels = COOLIFY_MODE ? `
-      - "traefik.enable=true"
-      - "traefik.http.routers.${id}-https.rule=Host(\`${id}.${env.DOMAIN}\`)"
-      - "traefik.http.routers.${id}-https.entryPoints=https"
-      - "traefik.http.routers.${id}-https.tls=true"
-      - "traefik.http.routers.${id}-https.tls.certresolver=letsencrypt"
-      - "traefik.http.routers.${id}-https.service=${id}"
-      - "traefik.http.routers.${id}-http.rule=Host(\`${id}.${env.DOMAIN}\`)"
-      - "traefik.http.routers.${id}-http.entryPoints=http"
-      - "traefik.http.routers.${id}-http.middlewares=redirect-to-https"
-      - "traefik.http.services.${id}.loadbalancer.server.port=2283"` : `
-      - "traefik.enable=true"
-      - "traefik.http.routers.${id}.rule=Host(\`${id}.${env.DOMAIN}\`)"
-      - "traefik.http.routers.${id}.entrypoints=websecure"
-      - "traefik.http.routers.${id}.tls.certresolver=le"
-      - "traefik.http.services.${id}.loadbalancer.server.port=2283"`;
 
   return `
 name: sphoto-${id}
 
 services:
   server:
-    image: ghcr.io/immich-app/immich-server:\${IMMICH_VERSION:-release}
+    image: ghcr.io/immich-app/immich-server:${immichVersion}
     container_name: sphoto-${id}-server
     environment:
       - DB_URL=postgresql://sphoto:${dbPass}@db:5432/sphoto
@@ -370,7 +387,7 @@ services:
     networks:
       - ${NETWORK_NAME}
       - internal
-    labels:${traefikLabels}
+    labels:${traefikLabels(id, 2283, customDomains)}
 
   db:
     image: ghcr.io/immich-app/postgres:16-vectorchord0.4.3-pgvectors0.2.0
@@ -399,6 +416,70 @@ networks:
 `;
 }
 
+// =============================================================================
+// Immich Version
+// =============================================================================
+// Every Immich instance runs the image tag in its metadata. Release rollouts
+// (releases.ts) advance the stable version, which new instances start on and
+// instances from before release channels fall back to; IMMICH_VERSION is only
+// the initial stable version.
+
+export const STABLE_VERSION_META_KEY = 'releases.stableVersion';
+
+export function getStableImmichVersion(): string {
+  return getMeta(STABLE_VERSION_META_KEY) || env.IMMICH_VERSION;
+}
+
+export function getInstanceImmichVersion(instance: InstanceMetadata): string {
+  return instance.immichVersion || getStableImmichVersion();
+}
+
+// =============================================================================
+// Desired Compose (reconciliation)
+// =============================================================================
+// Passwords are not part of the metadata; they are read back from the compose
+// file written at creation so a regenerated file keeps them.
+
+export interface ComposeSecrets {
+  dbPass: string;
+  adminUser?: string;            // Nextcloud only
+  adminPass?: string;
+}
+
+export function readComposeSecrets(composeContent: string): ComposeSecrets | null {
+  const dbPass = composeContent.match(/POSTGRES_PASSWORD=(\S+)/)?.[1];
+  if (!dbPass) return null;
+  return {
+    dbPass,
+    adminUser: composeContent.match(/NEXTCLOUD_ADMIN_USER=(\S+)/)?.[1],
+    adminPass: composeContent.match(/NEXTCLOUD_ADMIN_PASSWORD=(\S+)/)?.[1],
+  };
+}
+
+// Upload volume as createInstance and migrateInstanceStorage write it
+function uploadsVolumeFor(instance: InstanceMetadata): string {
+  const mountPoint = instance.platform === 'nextcloud' ? '/var/www/html/data' : '/data';
+  if (instance.storagePath) return `${join(instance.storagePath, instance.id, 'uploads')}:${mountPoint}`;
+  if (EXTERNAL_STORAGE_PATH) return `${join(EXTERNAL_STORAGE_PATH, instance.id, 'uploads')}:${mountPoint}`;
+  return `./uploads:${mountPoint}`;
+}
+
+export function generateInstanceCompose(instance: InstanceMetadata, secrets: ComposeSecrets): string {
+  const uploadsVolume = uploadsVolumeFor(instance);
+  const domains = getVerifiedDomains(instance);
+  if (instance.platform === 'nextcloud') {
+    return generateNextcloudCompose(
+      instance.id,
+      secrets.dbPass,
+      secrets.adminUser || 'admin',
+      secrets.adminPass || '',
+      uploadsVolume,
+      domains
+    );
+  }
+  return generateImmichCompose(instance.id, secrets.dbPass, uploadsVolume, domains, getInstanceImmichVersion(instance));
+}
+
 // =============================================================================
 // Main Instance Creation
 // =============================================================================
@@ -447,11 +528,12 @@ export async function createInstance(
   const adminUser = email.split('@')[0].toLowerCase().replace(/[^a-z0-9]/g, '').slice(0, 20) || 'admin';
 
   // Generate compose file based on platform
+  const immichVersion = getStableImmichVersion();
   let compose: string;
   if (platform === 'nextcloud') {
     compose = generateNextcloudCompose(id, dbPass, adminUser, userPassword, uploadsVolume);
   } else {
-    compose = generateImmichCompose(id, dbPass, uploadsVolume);
+    compose = generateImmichCompose(id, dbPass, uploadsVolume, [], immichVersion);
   }
 
   writeFileSync(join(dir, 'docker-compose.yml'), compose);
@@ -468,9 +550,11 @@ export async function createInstance(
   
   if (platform === 'nextcloud') {
     metadata.nextcloudAdminUser = adminUser;
+  } else {
+    metadata.immichVersion = immichVersion;
   }
   
-  writeFileSync(join(dir, 'metadata.json'), JSON.stringify(metadata, null, 2));
+  saveInstance(metadata);
 
   await execAsync(`cd ${dir} && docker compose up -d`);
   console.log(`Instance ${id} containers started`);
@@ -484,10 +568,9 @@ export async function createInstance(
     if (isReady) {
       const setupResult = await setupNextcloudAdmin(instanceUrl, adminUser, userPassword, email, plan.storage, containerId);
       if (setupResult.success) {
-        const metaPath = join(dir, 'metadata.json');
-        const meta: InstanceMetadata = JSON.parse(readFileSync(metaPath, 'utf-8'));
-        meta.initialPassword = userPassword;
-        writeFileSync(metaPath, JSON.stringify(meta, null, 2));
+        updateInstance(id, meta => {
+          meta.initialPassword = userPassword;
+        });
         console.log(`Nextcloud instance ${id} fully configured`);
         return { success: true, password: userPassword };
       }
@@ -499,13 +582,12 @@ export async function createInstance(
     if (isReady) {
       const setupResult = await setupImmichAdmin(instanceUrl, email, userPassword, quotaBytes);
       if (setupResult.success) {
-        const metaPath = join(dir, 'metadata.json');
-        const meta: InstanceMetadata = JSON.parse(readFileSync(metaPath, 'utf-8'));
-        meta.initialPassword = userPassword;
-        if (setupResult.apiKey) {
-          meta.immichApiKey = setupResult.apiKey;
-        }
-        writeFileSync(metaPath, JSON.stringify(meta, null, 2));
+        updateInstance(id, meta => {
+          meta.initialPassword = userPassword;
+          if (setupResult.apiKey) {
+            meta.immichApiKey = setupResult.apiKey;
+          }
+        });
         console.log(`Immich instance ${id} fully configured`);
         return { success: true, password: userPassword };
       }
@@ -522,11 +604,10 @@ export async function stopInstance(id: string): Promise<void> {
 
   await execAsync(`cd ${dir} && docker compose down`);
   
-  const metaPath = join(dir, 'metadata.json');
-  const meta: InstanceMetadata = JSON.parse(readFileSync(metaPath, 'utf-8'));
-  meta.status = 'stopped';
-  meta.stopped_at = new Date().toISOString();
-  writeFileSync(metaPath, JSON.stringify(meta, null, 2));
+  updateInstance(id, meta => {
+    meta.status = 'stopped';
+    meta.stopped_at = new Date().toISOString();
+  });
   
   console.log(`Instance ${id} stopped`);
 }
@@ -537,11 +618,10 @@ export async function startInstance(id: string): Promise<void> {
 
   await execAsync(`cd ${dir} && docker compose up -d`);
   
-  const metaPath = join(dir, 'metadata.json');
-  const meta: InstanceMetadata = JSON.parse(readFileSync(metaPath, 'utf-8'));
-  meta.status = 'active';
-  delete meta.stopped_at;
-  writeFileSync(metaPath, JSON.stringify(meta, null, 2));
+  updateInstance(id, meta => {
+    meta.status = 'active';
+    delete meta.stopped_at;
+  });
   
   console.log(`Instance ${id} started`);
 }
@@ -552,22 +632,124 @@ export async function deleteInstance(id: string): Promise<void> {
 
   await execAsync(`cd ${dir} && docker compose down -v`);
   await rm(dir, { recursive: true, force: true });
+  instanceRepository.delete(id);
   
   console.log(`Instance ${id} deleted`);
 }
 
 export function listInstances(): InstanceMetadata[] {
-  if (!existsSync(INSTANCES_DIR)) return [];
-  
-  return readdirSync(INSTANCES_DIR)
-    .filter(d => existsSync(join(INSTANCES_DIR, d, 'metadata.json')))
-    .map(d => JSON.parse(readFileSync(join(INSTANCES_DIR, d, 'metadata.json'), 'utf-8')));
+  return instanceRepository.list();
 }
 
 export function getInstance(id: string): InstanceMetadata | null {
-  const metaPath = join(INSTANCES_DIR, id, 'metadata.json');
-  if (!existsSync(metaPath)) return null;
-  return JSON.parse(readFileSync(metaPath, 'utf-8'));
+  return instanceRepository.get(id);
+}
+
+export function saveInstance(metadata: InstanceMetadata): InstanceMetadata {
+  return instanceRepository.save(metadata);
+}
+
+// Apply a change to the stored metadata atomically (re-reads the latest copy)
+export function updateInstance(
+  id: string,
+  mutate: (meta: InstanceMetadata) => void
+): InstanceMetadata | null {
+  return instanceRepository.update(id, mutate);
+}
+
+// Plan tier of a siloed instance, from its plan name
+export function getInstanceTier(instance: InstanceMetadata): PaidTier {
+  const entry = (Object.entries(PLAN_CATALOG) as Array<[PaidTier, { name: string }]>)
+    .find(([, plan]) => plan.name === instance.plan);
+  return entry ? entry[0] : 'basic';
+}
+
+// =============================================================================
+// Custom Domains
+// =============================================================================
+
+export function getVerifiedDomains(instance: InstanceMetadata): string[] {
+  return (instance.customDomains || [])
+    .filter(d => d.status === 'verified')
+    .map(d => d.domain);
+}
+
+// Rewrites the Traefik labels in docker-compose.yml for the verified custom
+// domains and recreates the app container if the instance is running
+export async function applyCustomDomains(id: string): Promise<void> {
+  const instance = getInstance(id);
+  if (!instance) throw new Error('Instance not found');
+
+  const dir = join(INSTANCES_DIR, id);
+  const composePath = join(dir, 'docker-compose.yml');
+  const domains = getVerifiedDomains(instance);
+  const port = instance.platform === 'nextcloud' ? 80 : 2283;
+
+  // The labels block of the app container ends at the blank line before db
+  const composeContent = readFileSync(composePath, 'utf-8')
+    .replace(/ {4}labels:[\s\S]*?\n\n/, `    labels:${traefikLabels(id, port, domains)}\n\n`);
+  writeFileSync(composePath, composeContent);
+
+  if (instance.status !== 'active') return;
+
+  await execAsync(`cd ${dir} && docker compose up -d`);
+
+  // Nextcloud only reads NEXTCLOUD_TRUSTED_DOMAINS on install
+  if (instance.platform === 'nextcloud') {
+    const trusted = [`${id}.${env.DOMAIN}`, ...domains];
+    await execAsync(`docker exec -u www-data sphoto-${id}-app php occ config:system:delete trusted_domains`);
+    for (const [index, domain] of trusted.entries()) {
+      await execAsync(`docker exec -u www-data sphoto-${id}-app php occ config:system:set trusted_domains ${index} --value=${domain}`);
+    }
+  }
+
+  console.log(`Custom domains of ${id} applied: ${domains.join(', ') || 'none'}`);
+}
+
+// =============================================================================
+// Portal Sessions (siloed mode)
+// =============================================================================
+
+export function getInstanceByEmail(email: string): InstanceMetadata | null {
+  return instanceRepository.findBy('email', normalizeEmail(email));
+}
+
+export function createInstancePortalSession(id: string): {
+  success: boolean;
+  token?: string;
+  expiresAt?: string;
+  error?: string;
+} {
+  const instance = getInstance(id);
+  if (!instance) return { success: false, error: 'Instance not found' };
+
+  const token = crypto.randomUUID() + crypto.randomUUID().replace(/-/g, '');
+  const expiresAt = new Date(Date.now() + 24 * 60 * 60 * 1000); // 24 hours
+
+  updateInstance(id, meta => {
+    meta.portalToken = token;
+    meta.portalTokenExpiresAt = expiresAt.toISOString();
+  });
+
+  return { success: true, token, expiresAt: expiresAt.toISOString() };
+}
+
+export function validateInstancePortalToken(token: string): InstanceMetadata | null {
+  const instance = instanceRepository.findBy('portal_token', token);
+  if (!instance) return null;
+
+  if (instance.portalTokenExpiresAt && new Date(instance.portalTokenExpiresAt) < new Date()) {
+    return null; // Token expired
+  }
+  return instance;
+}
+
+export function invalidateInstancePortalToken(id: string): boolean {
+  const instance = updateInstance(id, meta => {
+    delete meta.portalToken;
+    delete meta.portalTokenExpiresAt;
+  });
+  return instance !== null;
 }
 
 export async function getDirectorySize(dirPath: string): Promise<number> {
@@ -641,7 +823,6 @@ export async function migrateInstanceStorage(
   }
   
   const dir = join(INSTANCES_DIR, id);
-  const metaPath = join(dir, 'metadata.json');
   
   // Determine current storage path
   let currentPath: string;
@@ -699,9 +880,9 @@ export async function migrateInstanceStorage(
     writeFileSync(composePath, composeContent);
     
     // Update metadata with new storage path
-    const meta: InstanceMetadata = JSON.parse(readFileSync(metaPath, 'utf-8'));
-    meta.storagePath = newStoragePath;
-    writeFileSync(metaPath, JSON.stringify(meta, null, 2));
+    updateInstance(id, meta => {
+      meta.storagePath = newStoragePath;
+    });
     
     // Restart the instance
     console.log(`Starting instance ${id} with new storage path...`);
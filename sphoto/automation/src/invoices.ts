@@ -0,0 +1,344 @@
+// =============================================================================
+// Invoices and VAT
+// =============================================================================
+// Stripe issues the invoices; this module keeps a copy of every paid invoice
+// with its tax breakdown and the customer's tax details as they were on the
+// invoice, so revenue can be reported per month, tier and tax rate without
+// asking Stripe. Portal users list their invoices and download the PDFs
+// through the API, which fetches them from Stripe.
+
+import Stripe from 'stripe';
+import { env, PLANS, TAX } from './config';
+import { invoiceRepository } from './repositories';
+import { getSharedUserByStripeCustomer } from './shared-users';
+import type { PaidTier, BillingInterval } from './types';
+
+const stripe = new Stripe(env.STRIPE_SECRET_KEY);
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface InvoiceTaxLine {
+  rate: number;                  // Percent, 0 for reverse charge and exemptions
+  label: string;                 // Tax rate display name, e.g. "MWST"
+  country?: string;
+  amount: number;                // Smallest currency unit
+  taxableAmount: number;
+  inclusive: boolean;
+  reason?: string;               // Stripe taxability reason, e.g. reverse_charge
+}
+
+export interface InvoiceRecord {
+  id: string;                    // Stripe invoice id
+  number?: string;
+  customerId: string;
+  userId?: string;               // visibleId (shared) or instance id (siloed)
+  status: 'paid';
+  month: string;                 // YYYY-MM of the payment
+  currency: string;
+  tier?: PaidTier;
+  interval?: BillingInterval;
+  net: number;                   // Total without tax, after discounts
+  tax: number;
+  total: number;
+  taxLines: InvoiceTaxLine[];
+  reverseCharge: boolean;
+  customerName?: string;
+  country?: string;
+  vatNumber?: string;
+  created: string;
+  paidAt: string;
+}
+
+export interface PortalInvoice {
+  id: string;
+  number: string | null;
+  status: string;
+  created: string;
+  periodStart?: string;
+  periodEnd?: string;
+  currency: string;
+  net: number;
+  tax: number;
+  total: number;
+  amountDue: number;
+  hasPdf: boolean;
+}
+
+export interface RevenueRow {
+  currency: string;
+  invoices: number;
+  net: number;
+  tax: number;
+  total: number;
+}
+
+export interface RevenueReport {
+  month: string;
+  totals: RevenueRow[];
+  byTier: Array<RevenueRow & { tier: PaidTier | 'other' }>;
+  byTaxRate: Array<{ currency: string; rate: number; label: string; invoices: number; taxableAmount: number; tax: number }>;
+}
+
+// =============================================================================
+// Checkout
+// =============================================================================
+
+// Tax settings for a new subscription checkout. Stripe only offers the
+// business fields (company name, VAT number) together with tax id collection.
+export function checkoutTaxParams(
+  priceId: string
+): Pick<Stripe.Checkout.SessionCreateParams, 'line_items' | 'automatic_tax' | 'billing_address_collection' | 'tax_id_collection'> {
+  const manual = TAX.mode === 'manual' && TAX.swissVatRate;
+  return {
+    line_items: [{ price: priceId, quantity: 1, ...(manual ? { dynamic_tax_rates: [TAX.swissVatRate] } : {}) }],
+    billing_address_collection: 'required',
+    tax_id_collection: { enabled: true },
+    ...(TAX.mode === 'automatic' ? { automatic_tax: { enabled: true } } : {}),
+  };
+}
+
+/**
+ * Apply the manual tax rules once the customer's address is known: Swiss
+ * customers get the VAT rate as subscription default, so storage add-ons added
+ * later are taxed as well; EU businesses with a VAT number are billed with
+ * reverse charge, which Stripe notes on the invoice. Stripe Tax does both by
+ * itself in automatic mode.
+ */
+export async function applyCustomerTaxStatus(session: Stripe.Checkout.Session): Promise<void> {
+  if (TAX.mode !== 'manual' || !session.customer || !session.subscription) return;
+
+  const country = session.customer_details?.address?.country;
+  const taxIds = session.customer_details?.tax_ids || [];
+
+  if (country === TAX.homeCountry && TAX.swissVatRate) {
+    await stripe.subscriptions.update(session.subscription as string, {
+      default_tax_rates: [TAX.swissVatRate],
+    });
+  } else if (country && taxIds.some(t => t.type === 'eu_vat')) {
+    await stripe.customers.update(session.customer as string, { tax_exempt: 'reverse' });
+    console.log(`Customer ${session.customer} (${country}) billed with reverse charge`);
+  }
+}
+
+// =============================================================================
+// Invoice Records
+// =============================================================================
+
+function isoDate(seconds: number): string {
+  return new Date(seconds * 1000).toISOString();
+}
+
+function taxLine(amount: Stripe.Invoice.TotalTaxAmount): InvoiceTaxLine {
+  const rate = typeof amount.tax_rate === 'string' ? null : amount.tax_rate;
+  return {
+    rate: rate?.effective_percentage ?? rate?.percentage ?? 0,
+    label: rate?.display_name || 'Tax',
+    country: rate?.country || undefined,
+    amount: amount.amount,
+    taxableAmount: amount.taxable_amount ?? 0,
+    inclusive: amount.inclusive,
+    reason: amount.taxability_reason || undefined,
+  };
+}
+
+// Owner of the invoice from the customer metadata set at checkout, falling back
+// to the shared user with this customer id
+function invoiceUserId(customer: Stripe.Customer | Stripe.DeletedCustomer | null, customerId: string): string | undefined {
+  if (customer && !('deleted' in customer)) {
+    const id = customer.metadata?.sphoto_user_id || customer.metadata?.sphoto_id;
+    if (id) return id;
+  }
+  return getSharedUserByStripeCustomer(customerId)?.visibleId;
+}
+
+/**
+ * Store a paid invoice. Called from the invoice.paid webhook; the invoice is
+ * retrieved again because event payloads don't include the tax rate details.
+ */
+export async function recordInvoice(invoiceId: string): Promise<InvoiceRecord | null> {
+  const invoice = await stripe.invoices.retrieve(invoiceId, {
+    expand: ['customer', 'total_tax_amounts.tax_rate'],
+  });
+  if (invoice.status !== 'paid' || !invoice.customer) return null;
+
+  const customer = typeof invoice.customer === 'string' ? null : invoice.customer;
+  const customerId = typeof invoice.customer === 'string' ? invoice.customer : invoice.customer.id;
+  const plan = invoice.lines.data
+    .map(line => line.price && PLANS[line.price.id])
+    .find(Boolean);
+  const taxLines = invoice.total_tax_amounts.map(taxLine);
+  const tax = taxLines.reduce((sum, line) => sum + line.amount, 0);
+  const paidAt = isoDate(invoice.status_transitions.paid_at || invoice.created);
+
+  const record: InvoiceRecord = {
+    id: invoice.id,
+    number: invoice.number || undefined,
+    customerId,
+    userId: invoiceUserId(customer, customerId),
+    status: 'paid',
+    month: paidAt.slice(0, 7),
+    currency: invoice.currency,
+    tier: plan ? plan.tier : undefined,
+    interval: plan ? plan.interval : undefined,
+    net: invoice.total_excluding_tax ?? invoice.total - tax,
+    tax,
+    total: invoice.total,
+    taxLines,
+    reverseCharge: invoice.customer_tax_exempt === 'reverse'
+      || taxLines.some(line => line.reason === 'reverse_charge'),
+    customerName: invoice.customer_name || undefined,
+    country: invoice.customer_address?.country || undefined,
+    vatNumber: invoice.customer_tax_ids?.map(t => t.value).join(', ') || undefined,
+    created: isoDate(invoice.created),
+    paidAt,
+  };
+
+  return invoiceRepository.save(record);
+}
+
+/**
+ * Import paid invoices created in the last `months` months, e.g. those paid
+ * before invoices were recorded. Already stored invoices are refreshed.
+ */
+export async function importPaidInvoices(months: number): Promise<number> {
+  const since = new Date();
+  since.setMonth(since.getMonth() - months);
+
+  let imported = 0;
+  for await (const invoice of stripe.invoices.list({
+    status: 'paid',
+    created: { gte: Math.floor(since.getTime() / 1000) },
+    limit: 100,
+  })) {
+    if (await recordInvoice(invoice.id)) imported++;
+  }
+  console.log(`Imported ${imported} paid invoices since ${since.toISOString().slice(0, 10)}`);
+  return imported;
+}
+
+// =============================================================================
+// Portal
+// =============================================================================
+
+export async function listCustomerInvoices(customerId: string): Promise<PortalInvoice[]> {
+  const result = await stripe.invoices.list({ customer: customerId, limit: 24 });
+
+  return result.data
+    .filter(invoice => invoice.status !== 'draft')
+    .map(invoice => {
+      const tax = invoice.total_tax_amounts.reduce((sum, t) => sum + t.amount, 0);
+      const period = invoice.lines.data[0]?.period;
+      return {
+        id: invoice.id,
+        number: invoice.number,
+        status: invoice.status || 'open',
+        created: isoDate(invoice.created),
+        periodStart: period ? isoDate(period.start) : undefined,
+        periodEnd: period ? isoDate(period.end) : undefined,
+        currency: invoice.currency,
+        net: invoice.total_excluding_tax ?? invoice.total - tax,
+        tax,
+        total: invoice.total,
+        amountDue: invoice.amount_remaining,
+        hasPdf: !!invoice.invoice_pdf,
+      };
+    });
+}
+
+/**
+ * Fetch the PDF of one of the customer's invoices from Stripe.
+ */
+export async function getInvoicePdf(
+  customerId: string,
+  invoiceId: string
+): Promise<{ success: boolean; pdf?: ArrayBuffer; filename?: string; error?: string }> {
+  let invoice: Stripe.Invoice;
+  try {
+    invoice = await stripe.invoices.retrieve(invoiceId);
+  } catch {
+    return { success: false, error: 'Invoice not found' };
+  }
+
+  // Invoice ids are guessable enough that ownership must be checked
+  if (invoice.customer !== customerId) {
+    return { success: false, error: 'Invoice not found' };
+  }
+  if (!invoice.invoice_pdf) {
+    return { success: false, error: 'No PDF available for this invoice' };
+  }
+
+  const res = await fetch(invoice.invoice_pdf);
+  if (!res.ok) {
+    console.error(`Invoice PDF download failed for ${invoiceId}: HTTP ${res.status}`);
+    return { success: false, error: 'PDF download failed' };
+  }
+
+  return {
+    success: true,
+    pdf: await res.arrayBuffer(),
+    filename: `SPhoto-${invoice.number || invoice.id}.pdf`,
+  };
+}
+
+// =============================================================================
+// Revenue Report (Admin)
+// =============================================================================
+
+function addTo(row: RevenueRow, invoice: InvoiceRecord): void {
+  row.invoices++;
+  row.net += invoice.net;
+  row.tax += invoice.tax;
+  row.total += invoice.total;
+}
+
+/**
+ * Paid invoices of a month (YYYY-MM) summed per currency, per tier and per
+ * tax rate. Invoices without tax count towards a 0% row, labelled reverse
+ * charge or no tax.
+ */
+export function getRevenueReport(month: string): RevenueReport {
+  const invoices = invoiceRepository.listBy('month', month);
+
+  const totals = new Map<string, RevenueRow>();
+  const byTier = new Map<string, RevenueRow & { tier: PaidTier | 'other' }>();
+  const byTaxRate = new Map<string, RevenueReport['byTaxRate'][number]>();
+  const empty = (currency: string): RevenueRow => ({ currency, invoices: 0, net: 0, tax: 0, total: 0 });
+
+  for (const invoice of invoices) {
+    if (!totals.has(invoice.currency)) totals.set(invoice.currency, empty(invoice.currency));
+    addTo(totals.get(invoice.currency)!, invoice);
+
+    const tier = invoice.tier || 'other';
+    const tierKey = `${invoice.currency}:${tier}`;
+    if (!byTier.has(tierKey)) byTier.set(tierKey, { ...empty(invoice.currency), tier });
+    addTo(byTier.get(tierKey)!, invoice);
+
+    const lines: InvoiceTaxLine[] = invoice.taxLines.length > 0 ? invoice.taxLines : [{
+      rate: 0,
+      label: invoice.reverseCharge ? 'Reverse charge' : 'No tax',
+      amount: 0,
+      taxableAmount: invoice.net,
+      inclusive: false,
+    }];
+    for (const line of lines) {
+      const label = line.reason === 'reverse_charge' ? 'Reverse charge' : line.label;
+      const rateKey = `${invoice.currency}:${line.rate}:${label}`;
+      if (!byTaxRate.has(rateKey)) {
+        byTaxRate.set(rateKey, { currency: invoice.currency, rate: line.rate, label, invoices: 0, taxableAmount: 0, tax: 0 });
+      }
+      const row = byTaxRate.get(rateKey)!;
+      row.invoices++;
+      row.taxableAmount += line.taxableAmount;
+      row.tax += line.amount;
+    }
+  }
+
+  return {
+    month,
+    totals: [...totals.values()],
+    byTier: [...byTier.values()].sort((a, b) => b.net - a.net),
+    byTaxRate: [...byTaxRate.values()].sort((a, b) => b.rate - a.rate),
+  };
+}
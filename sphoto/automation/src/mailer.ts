@@ -0,0 +1,270 @@
+// =============================================================================
+// Mailer
+// =============================================================================
+// Every email is rendered from a template, written to the outbox and then
+// handed to the configured transport (Resend, SMTP or files on disk). Failed
+// deliveries stay in the outbox and are retried by the scheduler.
+
+import { mkdirSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { Resend } from 'resend';
+import nodemailer from 'nodemailer';
+import { env, EMAIL } from './config';
+import type { EmailTransportName } from './config';
+import { db } from './db';
+import { emailOutboxRepository, sharedUserRepository, instanceRepository } from './repositories';
+import { renderEmail } from './email-templates';
+import { normalizeEmail } from './abuse-protection';
+import type { EmailTemplateName, EmailTemplateParams } from './email-templates';
+import type { Locale, OutboxEmail, OutboxEmailStatus } from './types';
+
+// A message being sent is leased for this long; if the process dies mid-send
+// the outbox job picks it up again afterwards
+const SEND_LEASE_MS = 10 * 60 * 1000;
+
+// =============================================================================
+// Transports
+// =============================================================================
+
+interface EmailTransport {
+  name: EmailTransportName;
+  // Resolves with the provider's message id, throws if the message was not accepted
+  send(email: OutboxEmail): Promise<string | undefined>;
+}
+
+function createResendTransport(): EmailTransport {
+  const resend = new Resend(env.RESEND_API_KEY);
+  return {
+    name: 'resend',
+    async send(email) {
+      const { data, error } = await resend.emails.send({
+        from: env.EMAIL_FROM,
+        to: email.to,
+        subject: email.subject,
+        html: email.html,
+      });
+      if (error) throw new Error(`${error.name}: ${error.message}`);
+      return data?.id;
+    },
+  };
+}
+
+function createSmtpTransport(): EmailTransport {
+  const transporter = nodemailer.createTransport({
+    host: EMAIL.smtp.host,
+    port: EMAIL.smtp.port,
+    secure: EMAIL.smtp.secure,
+    auth: EMAIL.smtp.user ? { user: EMAIL.smtp.user, pass: EMAIL.smtp.pass } : undefined,
+  });
+  return {
+    name: 'smtp',
+    async send(email) {
+      const info = await transporter.sendMail({
+        from: env.EMAIL_FROM,
+        to: email.to,
+        subject: email.subject,
+        html: email.html,
+      });
+      return info.messageId;
+    },
+  };
+}
+
+// For development: <id>.html can be opened in a browser, <id>.json has the headers
+function createFileTransport(): EmailTransport {
+  return {
+    name: 'file',
+    async send(email) {
+      mkdirSync(EMAIL.outboxDir, { recursive: true });
+      const base = join(EMAIL.outboxDir, email.id.replace(/[:.]/g, '-'));
+      writeFileSync(`${base}.html`, email.html);
+      writeFileSync(`${base}.json`, JSON.stringify({
+        from: env.EMAIL_FROM,
+        to: email.to,
+        subject: email.subject,
+        template: email.template,
+        locale: email.locale,
+        created: email.created,
+      }, null, 2));
+      return `${base}.html`;
+    },
+  };
+}
+
+const TRANSPORTS: Record<EmailTransportName, () => EmailTransport> = {
+  resend: createResendTransport,
+  smtp: createSmtpTransport,
+  file: createFileTransport,
+};
+
+let transport: EmailTransport | null = null;
+
+function getTransport(): EmailTransport {
+  if (!transport) {
+    const create = TRANSPORTS[EMAIL.transport];
+    if (!create) {
+      throw new Error(`Unknown EMAIL_TRANSPORT "${EMAIL.transport}"`);
+    }
+    transport = create();
+  }
+  return transport;
+}
+
+// =============================================================================
+// Outbox
+// =============================================================================
+
+// Language stored on the recipient's account, else EMAIL_LOCALE
+export function resolveLocale(email: string): Locale {
+  const normalized = normalizeEmail(email);
+  const user = sharedUserRepository.findBy('email', normalized);
+  if (user?.locale) return user.locale;
+  return instanceRepository.findBy('email', normalized)?.locale || EMAIL.defaultLocale;
+}
+
+function retryDelayMs(attempts: number): number {
+  const delays = EMAIL.retryDelaysMinutes;
+  return delays[Math.min(attempts - 1, delays.length - 1)] * 60 * 1000;
+}
+
+// Take the send lease if the message is still due, so the outbox job and a
+// manual retry never send the same message twice
+function claim(id: string): OutboxEmail | null {
+  return db.transaction(() => {
+    const email = emailOutboxRepository.get(id);
+    if (!email || (email.status !== 'pending' && email.status !== 'sending')) return null;
+    if (email.nextAttemptAt && new Date(email.nextAttemptAt).getTime() > Date.now()) return null;
+
+    email.status = 'sending';
+    email.attempts++;
+    email.nextAttemptAt = new Date(Date.now() + SEND_LEASE_MS).toISOString();
+    return emailOutboxRepository.save(email);
+  }).immediate();
+}
+
+async function deliver(email: OutboxEmail): Promise<OutboxEmail> {
+  try {
+    const active = getTransport();
+    const providerMessageId = await active.send(email);
+
+    console.log(`Email ${email.template} sent to ${email.to} via ${active.name}`);
+    return emailOutboxRepository.update(email.id, e => {
+      e.status = 'sent';
+      e.transport = active.name;
+      e.sentAt = new Date().toISOString();
+      e.providerMessageId = providerMessageId;
+      e.nextAttemptAt = undefined;
+      e.lastError = undefined;
+    }) ?? email;
+  } catch (err) {
+    const message = (err as Error).message || String(err);
+    console.error(`Email ${email.template} to ${email.to} failed (attempt ${email.attempts}/${EMAIL.maxAttempts}):`, message);
+
+    return emailOutboxRepository.update(email.id, e => {
+      e.transport = EMAIL.transport;
+      e.lastError = message;
+      if (e.attempts >= EMAIL.maxAttempts) {
+        e.status = 'failed';
+        e.nextAttemptAt = undefined;
+      } else {
+        e.status = 'pending';
+        e.nextAttemptAt = new Date(Date.now() + retryDelayMs(e.attempts)).toISOString();
+      }
+    }) ?? email;
+  }
+}
+
+/**
+ * Render a template for the recipient's language, store it in the outbox and
+ * try to deliver it right away. Delivery errors are not thrown: the message
+ * stays in the outbox and is retried by the outbox job.
+ */
+export async function sendEmail<N extends EmailTemplateName>(
+  to: string,
+  template: N,
+  params: EmailTemplateParams<N>,
+  options: { locale?: Locale } = {}
+): Promise<OutboxEmail> {
+  const rendered = renderEmail(template, options.locale || resolveLocale(to), params);
+  const now = new Date();
+  const email = emailOutboxRepository.save({
+    id: `${now.toISOString()}-${crypto.randomUUID().slice(0, 8)}`,
+    to,
+    subject: rendered.subject,
+    html: rendered.html,
+    template,
+    locale: rendered.locale,
+    status: 'sending',
+    attempts: 1,
+    created: now.toISOString(),
+    nextAttemptAt: new Date(now.getTime() + SEND_LEASE_MS).toISOString(),
+  });
+
+  return deliver(email);
+}
+
+/**
+ * Scheduler job: retry due messages and drop old ones. Sent messages still
+ * contain whatever the template rendered (initial passwords, login links),
+ * so they are not kept longer than needed.
+ */
+export async function processEmailOutbox(): Promise<{ sent: number; failed: number; pruned: number }> {
+  const now = Date.now();
+  let sent = 0;
+  let failed = 0;
+  let pruned = 0;
+
+  const due = [...emailOutboxRepository.listBy('status', 'pending'), ...emailOutboxRepository.listBy('status', 'sending')]
+    .filter(e => !e.nextAttemptAt || new Date(e.nextAttemptAt).getTime() <= now);
+
+  for (const candidate of due) {
+    const email = claim(candidate.id);
+    if (!email) continue;
+    const result = await deliver(email);
+    if (result.status === 'sent') sent++;
+    else if (result.status === 'failed') failed++;
+  }
+
+  const cutoff = now - EMAIL.retentionDays * 24 * 60 * 60 * 1000;
+  for (const status of ['sent', 'failed'] as const) {
+    for (const email of emailOutboxRepository.listBy('status', status)) {
+      if (new Date(email.created).getTime() < cutoff && emailOutboxRepository.delete(email.id)) {
+        pruned++;
+      }
+    }
+  }
+
+  return { sent, failed, pruned };
+}
+
+// Manual retry from the admin API; starts a fresh round of attempts
+export async function retryEmail(id: string): Promise<{ success: boolean; email?: OutboxEmail; error?: string }> {
+  const existing = emailOutboxRepository.get(id);
+  if (!existing) return { success: false, error: 'Email not found' };
+  if (existing.status === 'sent') return { success: false, error: 'Email was already sent' };
+
+  emailOutboxRepository.update(id, e => {
+    e.status = 'pending';
+    e.attempts = 0;
+    e.nextAttemptAt = undefined;
+  });
+
+  const email = claim(id);
+  if (!email) return { success: false, error: 'Email is being sent' };
+  return { success: true, email: await deliver(email) };
+}
+
+// Outbox listing without the rendered body
+export function listOutboxEmails(filter: { status?: OutboxEmailStatus; to?: string; limit?: number } = {}) {
+  const emails = filter.status
+    ? emailOutboxRepository.listBy('status', filter.status)
+    : filter.to
+      ? emailOutboxRepository.listBy('recipient', filter.to)
+      : emailOutboxRepository.list();
+
+  return emails
+    .filter(e => !filter.to || e.to === filter.to)
+    .reverse()
+    .slice(0, filter.limit || 200)
+    .map(({ html, ...email }) => email);
+}
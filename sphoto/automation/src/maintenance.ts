@@ -2,14 +2,9 @@
 // Scheduled Maintenance System
 // =============================================================================
 
-import { existsSync, readFileSync, writeFileSync, mkdirSync } from 'fs';
-import { join } from 'path';
-import { Resend } from 'resend';
-import { env, INSTANCES_DIR } from './config';
-import { listInstances, getInstance } from './instances';
-import type { InstanceMetadata } from './types';
-
-const resend = new Resend(env.RESEND_API_KEY);
+import { listInstances } from './instances';
+import { maintenanceRepository } from './repositories';
+import { sendEmail } from './mailer';
 
 // =============================================================================
 // Types
@@ -71,30 +66,12 @@ export interface PublicStatus {
 // Storage
 // =============================================================================
 
-const MAINTENANCE_DIR = join(INSTANCES_DIR, '..', 'maintenance');
-const MAINTENANCE_FILE = join(MAINTENANCE_DIR, 'maintenance.json');
-
-function ensureMaintenanceDir(): void {
-  if (!existsSync(MAINTENANCE_DIR)) {
-    mkdirSync(MAINTENANCE_DIR, { recursive: true });
-  }
-}
-
 function loadMaintenances(): Maintenance[] {
-  ensureMaintenanceDir();
-  if (!existsSync(MAINTENANCE_FILE)) {
-    return [];
-  }
-  try {
-    return JSON.parse(readFileSync(MAINTENANCE_FILE, 'utf-8'));
-  } catch {
-    return [];
-  }
+  return maintenanceRepository.list();
 }
 
-function saveMaintenances(maintenances: Maintenance[]): void {
-  ensureMaintenanceDir();
-  writeFileSync(MAINTENANCE_FILE, JSON.stringify(maintenances, null, 2));
+function saveMaintenance(maintenance: Maintenance): void {
+  maintenanceRepository.save(maintenance);
 }
 
 function generateId(): string {
@@ -109,178 +86,28 @@ async function sendMaintenanceScheduledEmail(
   email: string,
   maintenance: Maintenance
 ): Promise<void> {
-  const startDate = new Date(maintenance.scheduledStart);
-  const endDate = new Date(maintenance.scheduledEnd);
-  const duration = Math.round((endDate.getTime() - startDate.getTime()) / (1000 * 60));
-  
-  const typeLabels: Record<MaintenanceType, string> = {
-    update: 'Software-Update',
-    backup: 'Backup-Wartung',
-    migration: 'Server-Migration',
-    emergency: 'Notfall-Wartung',
-  };
-  
-  const typeIcons: Record<MaintenanceType, string> = {
-    update: '🔧',
-    backup: '💾',
-    migration: '🚀',
-    emergency: '⚠️',
-  };
-  
-  await resend.emails.send({
-    from: env.EMAIL_FROM,
-    to: email,
-    subject: `${typeIcons[maintenance.type]} SPhoto: Geplante Wartung am ${startDate.toLocaleDateString('de-CH')}`,
-    html: `
-      <div style="font-family: -apple-system, BlinkMacSystemFont, sans-serif; max-width: 500px; margin: 0 auto; padding: 20px;">
-        <h1 style="color: #111;"><span style="color: #dc2626;">S</span>Photo</h1>
-        
-        <div style="background: #fef3c7; border: 1px solid #ca8a04; border-radius: 8px; padding: 20px; margin: 20px 0;">
-          <p style="margin: 0 0 10px 0; font-weight: bold; color: #854d0e;">
-            ${typeIcons[maintenance.type]} ${typeLabels[maintenance.type]}
-          </p>
-          <p style="margin: 0; font-size: 18px; font-weight: bold;">
-            ${maintenance.title}
-          </p>
-        </div>
-        
-        <div style="background: #f3f4f6; padding: 15px; border-radius: 8px; margin: 20px 0;">
-          <p style="margin: 0 0 10px 0;">
-            <strong>Datum:</strong> ${startDate.toLocaleDateString('de-CH')}
-          </p>
-          <p style="margin: 0 0 10px 0;">
-            <strong>Zeit:</strong> ${startDate.toLocaleTimeString('de-CH', { hour: '2-digit', minute: '2-digit' })} - ${endDate.toLocaleTimeString('de-CH', { hour: '2-digit', minute: '2-digit' })} Uhr
-          </p>
-          <p style="margin: 0;">
-            <strong>Geschätzte Dauer:</strong> ${duration} Minuten
-          </p>
-        </div>
-        
-        <p><strong>Beschreibung:</strong></p>
-        <p>${maintenance.description}</p>
-        
-        ${maintenance.type !== 'backup' ? `
-          <p style="background: #fef2f2; padding: 10px; border-radius: 4px; font-size: 14px;">
-            ⚠️ Während dieser Zeit ist deine SPhoto-Instanz möglicherweise nicht erreichbar.
-          </p>
-        ` : ''}
-        
-        <p style="color: #666; font-size: 12px; margin-top: 30px;">
-          Bei Fragen: support@arturf.ch
-        </p>
-      </div>
-    `,
-  });
-  
-  console.log(`Maintenance scheduled email sent to ${email}`);
+  await sendEmail(email, 'maintenance_scheduled', { maintenance });
 }
 
 async function sendMaintenanceReminderEmail(
   email: string,
   maintenance: Maintenance
 ): Promise<void> {
-  const startDate = new Date(maintenance.scheduledStart);
-  
-  await resend.emails.send({
-    from: env.EMAIL_FROM,
-    to: email,
-    subject: `⏰ SPhoto: Wartung beginnt in 2 Stunden`,
-    html: `
-      <div style="font-family: -apple-system, BlinkMacSystemFont, sans-serif; max-width: 500px; margin: 0 auto; padding: 20px;">
-        <h1 style="color: #111;"><span style="color: #dc2626;">S</span>Photo</h1>
-        
-        <div style="background: #fef3c7; border: 1px solid #ca8a04; border-radius: 8px; padding: 20px; margin: 20px 0;">
-          <p style="margin: 0 0 10px 0; font-weight: bold; color: #854d0e;">
-            ⏰ Erinnerung: Wartung in 2 Stunden
-          </p>
-          <p style="margin: 0; font-size: 18px; font-weight: bold;">
-            ${maintenance.title}
-          </p>
-        </div>
-        
-        <p>
-          Die geplante Wartung beginnt um <strong>${startDate.toLocaleTimeString('de-CH', { hour: '2-digit', minute: '2-digit' })} Uhr</strong>.
-        </p>
-        
-        <p style="color: #666; font-size: 12px; margin-top: 30px;">
-          Bei Fragen: support@arturf.ch
-        </p>
-      </div>
-    `,
-  });
-  
-  console.log(`Maintenance reminder email sent to ${email}`);
+  await sendEmail(email, 'maintenance_reminder', { maintenance });
 }
 
 async function sendMaintenanceStartedEmail(
   email: string,
   maintenance: Maintenance
 ): Promise<void> {
-  await resend.emails.send({
-    from: env.EMAIL_FROM,
-    to: email,
-    subject: `🔧 SPhoto: Wartung gestartet`,
-    html: `
-      <div style="font-family: -apple-system, BlinkMacSystemFont, sans-serif; max-width: 500px; margin: 0 auto; padding: 20px;">
-        <h1 style="color: #111;"><span style="color: #dc2626;">S</span>Photo</h1>
-        
-        <div style="background: #fef3c7; border: 1px solid #ca8a04; border-radius: 8px; padding: 20px; margin: 20px 0;">
-          <p style="margin: 0 0 10px 0; font-weight: bold; color: #854d0e;">
-            🔧 Wartung läuft
-          </p>
-          <p style="margin: 0; font-size: 18px; font-weight: bold;">
-            ${maintenance.title}
-          </p>
-        </div>
-        
-        <p>
-          Die Wartung hat begonnen. Voraussichtliches Ende: 
-          <strong>${new Date(maintenance.scheduledEnd).toLocaleTimeString('de-CH', { hour: '2-digit', minute: '2-digit' })} Uhr</strong>
-        </p>
-        
-        <p style="color: #666; font-size: 12px; margin-top: 30px;">
-          Bei Fragen: support@arturf.ch
-        </p>
-      </div>
-    `,
-  });
-  
-  console.log(`Maintenance started email sent to ${email}`);
+  await sendEmail(email, 'maintenance_started', { maintenance });
 }
 
 async function sendMaintenanceCompletedEmail(
   email: string,
   maintenance: Maintenance
 ): Promise<void> {
-  await resend.emails.send({
-    from: env.EMAIL_FROM,
-    to: email,
-    subject: `✅ SPhoto: Wartung abgeschlossen`,
-    html: `
-      <div style="font-family: -apple-system, BlinkMacSystemFont, sans-serif; max-width: 500px; margin: 0 auto; padding: 20px;">
-        <h1 style="color: #111;"><span style="color: #dc2626;">S</span>Photo</h1>
-        
-        <div style="background: #dcfce7; border: 1px solid #22c55e; border-radius: 8px; padding: 20px; margin: 20px 0;">
-          <p style="margin: 0 0 10px 0; font-weight: bold; color: #166534;">
-            ✅ Wartung abgeschlossen
-          </p>
-          <p style="margin: 0; font-size: 18px; font-weight: bold;">
-            ${maintenance.title}
-          </p>
-        </div>
-        
-        <p>
-          Die Wartung wurde erfolgreich abgeschlossen. Deine SPhoto-Instanz ist wieder normal erreichbar.
-        </p>
-        
-        <p style="color: #666; font-size: 12px; margin-top: 30px;">
-          Bei Fragen: support@arturf.ch
-        </p>
-      </div>
-    `,
-  });
-  
-  console.log(`Maintenance completed email sent to ${email}`);
+  await sendEmail(email, 'maintenance_completed', { maintenance });
 }
 
 // =============================================================================
@@ -328,13 +155,10 @@ export function listMaintenances(): Maintenance[] {
 }
 
 export function getMaintenance(id: string): Maintenance | null {
-  const maintenances = loadMaintenances();
-  return maintenances.find(m => m.id === id) || null;
+  return maintenanceRepository.get(id);
 }
 
 export async function createMaintenance(input: MaintenanceCreateInput): Promise<Maintenance> {
-  const maintenances = loadMaintenances();
-  
   const maintenance: Maintenance = {
     id: generateId(),
     title: input.title,
@@ -354,27 +178,24 @@ export async function createMaintenance(input: MaintenanceCreateInput): Promise<
     createdBy: input.createdBy,
   };
   
-  maintenances.push(maintenance);
-  saveMaintenances(maintenances);
+  saveMaintenance(maintenance);
   
   // Send scheduled notification if maintenance is more than 2 hours away
   const hoursUntilStart = (new Date(maintenance.scheduledStart).getTime() - Date.now()) / (1000 * 60 * 60);
   if (hoursUntilStart > 2) {
     await sendNotificationToAll(maintenance, sendMaintenanceScheduledEmail);
     maintenance.notificationsSent.scheduled = true;
-    saveMaintenances(maintenances);
+    maintenanceRepository.update(maintenance.id, m => {
+      m.notificationsSent.scheduled = true;
+    });
   }
   
   return maintenance;
 }
 
 export async function updateMaintenance(id: string, updates: Partial<MaintenanceCreateInput>): Promise<Maintenance | null> {
-  const maintenances = loadMaintenances();
-  const index = maintenances.findIndex(m => m.id === id);
-  
-  if (index === -1) return null;
-  
-  const maintenance = maintenances[index];
+  const maintenance = maintenanceRepository.get(id);
+  if (!maintenance) return null;
   
   if (maintenance.status !== 'scheduled') {
     throw new Error('Can only update scheduled maintenances');
@@ -387,35 +208,27 @@ export async function updateMaintenance(id: string, updates: Partial<Maintenance
   if (updates.scheduledEnd) maintenance.scheduledEnd = updates.scheduledEnd;
   if (updates.affectedInstances) maintenance.affectedInstances = updates.affectedInstances;
   
-  saveMaintenances(maintenances);
+  saveMaintenance(maintenance);
   return maintenance;
 }
 
 export async function cancelMaintenance(id: string): Promise<Maintenance | null> {
-  const maintenances = loadMaintenances();
-  const index = maintenances.findIndex(m => m.id === id);
-  
-  if (index === -1) return null;
-  
-  const maintenance = maintenances[index];
+  const maintenance = maintenanceRepository.get(id);
+  if (!maintenance) return null;
   
   if (maintenance.status === 'completed' || maintenance.status === 'cancelled') {
     throw new Error('Maintenance already completed or cancelled');
   }
   
   maintenance.status = 'cancelled';
-  saveMaintenances(maintenances);
+  saveMaintenance(maintenance);
   
   return maintenance;
 }
 
 export async function startMaintenance(id: string): Promise<Maintenance | null> {
-  const maintenances = loadMaintenances();
-  const index = maintenances.findIndex(m => m.id === id);
-  
-  if (index === -1) return null;
-  
-  const maintenance = maintenances[index];
+  const maintenance = maintenanceRepository.get(id);
+  if (!maintenance) return null;
   
   if (maintenance.status !== 'scheduled') {
     throw new Error('Can only start scheduled maintenances');
@@ -430,17 +243,13 @@ export async function startMaintenance(id: string): Promise<Maintenance | null>
     maintenance.notificationsSent.started = true;
   }
   
-  saveMaintenances(maintenances);
+  saveMaintenance(maintenance);
   return maintenance;
 }
 
 export async function completeMaintenance(id: string): Promise<Maintenance | null> {
-  const maintenances = loadMaintenances();
-  const index = maintenances.findIndex(m => m.id === id);
-  
-  if (index === -1) return null;
-  
-  const maintenance = maintenances[index];
+  const maintenance = maintenanceRepository.get(id);
+  if (!maintenance) return null;
   
   if (maintenance.status !== 'in_progress' && maintenance.status !== 'scheduled') {
     throw new Error('Can only complete in-progress or scheduled maintenances');
@@ -455,7 +264,7 @@ export async function completeMaintenance(id: string): Promise<Maintenance | nul
     maintenance.notificationsSent.completed = true;
   }
   
-  saveMaintenances(maintenances);
+  saveMaintenance(maintenance);
   return maintenance;
 }
 
@@ -504,7 +313,7 @@ export function getPublicStatus(): PublicStatus {
 export async function checkMaintenanceNotifications(): Promise<void> {
   const maintenances = loadMaintenances();
   const now = Date.now();
-  let changed = false;
+  const changed = new Set<Maintenance>();
   
   for (const maintenance of maintenances) {
     if (maintenance.status !== 'scheduled') continue;
@@ -516,14 +325,14 @@ export async function checkMaintenanceNotifications(): Promise<void> {
     if (!maintenance.notificationsSent.scheduled && hoursUntilStart <= 48 && hoursUntilStart > 2) {
       await sendNotificationToAll(maintenance, sendMaintenanceScheduledEmail);
       maintenance.notificationsSent.scheduled = true;
-      changed = true;
+      changed.add(maintenance);
     }
     
     // Send 2h reminder
     if (!maintenance.notificationsSent.reminder && hoursUntilStart <= 2 && hoursUntilStart > 0) {
       await sendNotificationToAll(maintenance, sendMaintenanceReminderEmail);
       maintenance.notificationsSent.reminder = true;
-      changed = true;
+      changed.add(maintenance);
     }
     
     // Auto-start at scheduled time
@@ -535,7 +344,7 @@ export async function checkMaintenanceNotifications(): Promise<void> {
         await sendNotificationToAll(maintenance, sendMaintenanceStartedEmail);
         maintenance.notificationsSent.started = true;
       }
-      changed = true;
+      changed.add(maintenance);
     }
   }
   
@@ -552,11 +361,11 @@ export async function checkMaintenanceNotifications(): Promise<void> {
         await sendNotificationToAll(maintenance, sendMaintenanceCompletedEmail);
         maintenance.notificationsSent.completed = true;
       }
-      changed = true;
+      changed.add(maintenance);
     }
   }
   
-  if (changed) {
-    saveMaintenances(maintenances);
+  for (const maintenance of changed) {
+    saveMaintenance(maintenance);
   }
 }
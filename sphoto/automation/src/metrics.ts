@@ -0,0 +1,241 @@
+// =============================================================================
+// Prometheus Metrics
+// =============================================================================
+// Rendered in the Prometheus text exposition format on every scrape. Most
+// values are read from the database at scrape time; events that are not
+// stored anywhere (alert sends) are counted in memory and start again at 0
+// after a restart, which Prometheus handles as a counter reset.
+
+import { DEPLOYMENT_MODE } from './config';
+import {
+  sharedUserRepository,
+  instanceRepository,
+  stripeEventRepository,
+  exportJobRepository,
+  sharedExportRepository,
+  healthStatusRepository,
+} from './repositories';
+import { getSharedInstanceStats, checkSharedInstanceHealth, effectiveQuotaGB } from './shared-users';
+import { isHouseholdMember } from './households';
+import type { AlertType } from './alerts';
+import type { HealthCheckState } from './health';
+
+type MetricType = 'counter' | 'gauge';
+type Labels = Record<string, string>;
+
+interface MetricFamily {
+  name: string;
+  help: string;
+  type: MetricType;
+  samples: Array<{ labels?: Labels; value: number }>;
+}
+
+const GB = 1024 * 1024 * 1024;
+
+const CHECK_STATE_VALUES: Record<Exclude<HealthCheckState, 'skipped'>, number> = {
+  ok: 0,
+  warning: 1,
+  critical: 2,
+};
+
+// =============================================================================
+// In-Process Counters
+// =============================================================================
+
+const alertsSent = new Map<AlertType, number>();
+
+export function recordAlertSent(type: AlertType): void {
+  alertsSent.set(type, (alertsSent.get(type) || 0) + 1);
+}
+
+// =============================================================================
+// Exposition Format
+// =============================================================================
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+}
+
+function formatLabels(labels?: Labels): string {
+  if (!labels || Object.keys(labels).length === 0) return '';
+  const pairs = Object.entries(labels).map(([key, value]) => `${key}="${escapeLabelValue(value)}"`);
+  return `{${pairs.join(',')}}`;
+}
+
+function formatFamily(family: MetricFamily): string {
+  const lines = [
+    `# HELP ${family.name} ${family.help}`,
+    `# TYPE ${family.name} ${family.type}`,
+    ...family.samples.map(s => `${family.name}${formatLabels(s.labels)} ${s.value}`),
+  ];
+  return lines.join('\n');
+}
+
+// Count items by the given label values
+function countBy<T>(items: T[], labelsOf: (item: T) => Labels): MetricFamily['samples'] {
+  const counts = new Map<string, { labels: Labels; value: number }>();
+  for (const item of items) {
+    const labels = labelsOf(item);
+    const key = JSON.stringify(labels);
+    const entry = counts.get(key) || { labels, value: 0 };
+    entry.value++;
+    counts.set(key, entry);
+  }
+  return [...counts.values()];
+}
+
+// =============================================================================
+// Collectors
+// =============================================================================
+
+async function collectSharedInstances(): Promise<MetricFamily[]> {
+  const up: MetricFamily = {
+    name: 'sphoto_shared_instance_up',
+    help: 'Whether the shared Immich instance answers its ping endpoint',
+    type: 'gauge',
+    samples: [],
+  };
+  const quota: MetricFamily = {
+    name: 'sphoto_shared_instance_quota_bytes',
+    help: 'Storage quota assigned to the users of a shared instance',
+    type: 'gauge',
+    samples: [],
+  };
+  const usage: MetricFamily = {
+    name: 'sphoto_shared_instance_usage_bytes',
+    help: 'Storage used on a shared instance as reported by Immich',
+    type: 'gauge',
+    samples: [],
+  };
+
+  const users = sharedUserRepository.list().filter(u => u.status !== 'deleted');
+
+  for (const instance of ['free', 'paid'] as const) {
+    const labels = { instance };
+    const [health, stats] = await Promise.all([
+      checkSharedInstanceHealth(instance),
+      getSharedInstanceStats(instance),
+    ]);
+
+    up.samples.push({ labels, value: health.healthy ? 1 : 0 });
+    quota.samples.push({
+      labels,
+      // Household members share the owner's quota
+      value: users
+        .filter(u => u.instance === instance && !isHouseholdMember(u))
+        .reduce((sum, u) => sum + effectiveQuotaGB(u), 0) * GB,
+    });
+    if (stats.success && stats.stats) {
+      usage.samples.push({ labels, value: stats.stats.usageBytes });
+    }
+  }
+
+  return [up, quota, usage];
+}
+
+function collectUsers(): MetricFamily[] {
+  const sharedUsers = sharedUserRepository.list();
+  const instances = instanceRepository.list();
+
+  return [
+    {
+      name: 'sphoto_shared_users',
+      help: 'Shared-mode users by tier and status',
+      type: 'gauge',
+      samples: countBy(sharedUsers, u => ({ tier: u.tier, status: u.status })),
+    },
+    {
+      name: 'sphoto_instances',
+      help: 'Siloed instances by plan and status',
+      type: 'gauge',
+      samples: countBy(instances, i => ({ plan: i.plan, status: i.status })),
+    },
+    {
+      name: 'sphoto_pending_deletions',
+      help: 'Accounts scheduled for deletion',
+      type: 'gauge',
+      samples: [{ value: sharedUsers.filter(u => u.status === 'pending_deletion').length }],
+    },
+  ];
+}
+
+function collectJobs(): MetricFamily[] {
+  return [
+    {
+      name: 'sphoto_stripe_webhook_events_total',
+      help: 'Stripe webhook events received, by event type and processing status',
+      type: 'counter',
+      samples: countBy(stripeEventRepository.list(), e => ({ type: e.type, status: e.status })),
+    },
+    {
+      name: 'sphoto_export_jobs',
+      help: 'Data export jobs by kind and status',
+      type: 'gauge',
+      samples: [
+        ...countBy(exportJobRepository.list(), j => ({ kind: 'instance', status: j.status })),
+        ...countBy(sharedExportRepository.list(), j => ({ kind: 'shared', status: j.status })),
+      ],
+    },
+    {
+      name: 'sphoto_alerts_sent_total',
+      help: 'Alerts sent by the alert check since the server started, by alert type',
+      type: 'counter',
+      samples: [...alertsSent].map(([type, value]) => ({ labels: { type }, value })),
+    },
+  ];
+}
+
+function collectHealth(): MetricFamily[] {
+  const statuses = healthStatusRepository.list();
+
+  return [
+    {
+      name: 'sphoto_instance_healthy',
+      help: 'Result of the last health check of an instance',
+      type: 'gauge',
+      samples: statuses.map(s => ({ labels: { instance: s.instanceId }, value: s.healthy ? 1 : 0 })),
+    },
+    {
+      name: 'sphoto_health_check_duration_seconds',
+      help: 'Response time of the last health check of an instance',
+      type: 'gauge',
+      samples: statuses
+        .filter(s => s.responseTime !== null)
+        .map(s => ({ labels: { instance: s.instanceId }, value: s.responseTime! / 1000 })),
+    },
+    {
+      name: 'sphoto_health_check_state',
+      help: 'Result of a deep health probe: 0 = ok, 1 = warning, 2 = critical',
+      type: 'gauge',
+      samples: statuses.flatMap(s => Object.entries(s.checks || {})
+        .filter(([, check]) => check.state !== 'skipped')
+        .map(([check, result]) => ({
+          labels: { instance: s.instanceId, check },
+          value: CHECK_STATE_VALUES[result.state as Exclude<HealthCheckState, 'skipped'>],
+        }))),
+    },
+    {
+      name: 'sphoto_ssl_days_remaining',
+      help: 'Days until the TLS certificate of an instance expires',
+      type: 'gauge',
+      samples: statuses
+        .filter(s => s.sslDaysRemaining !== null)
+        .map(s => ({ labels: { instance: s.instanceId }, value: s.sslDaysRemaining! })),
+    },
+  ];
+}
+
+/**
+ * Render all metrics. Shared instance metrics query Immich and are only
+ * collected in shared mode.
+ */
+export async function renderMetrics(): Promise<string> {
+  const families = [
+    ...collectUsers(),
+    ...(DEPLOYMENT_MODE === 'shared' ? await collectSharedInstances() : []),
+    ...collectJobs(),
+    ...collectHealth(),
+  ];
+
+  return families.map(formatFamily).join('\n') + '\n';
+}
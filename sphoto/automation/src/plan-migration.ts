@@ -2,16 +2,14 @@
 // Plan Migration System
 // =============================================================================
 
-import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { existsSync } from 'fs';
 import { join } from 'path';
 import Stripe from 'stripe';
 import { env, INSTANCES_DIR, EXTERNAL_STORAGE_PATH, PLANS } from './config';
-import { getInstance, getDirectorySize } from './instances';
-import { Resend } from 'resend';
-import type { InstanceMetadata } from './types';
+import { getInstance, updateInstance, getDirectorySize } from './instances';
+import { sendEmail } from './mailer';
 
 const stripe = new Stripe(env.STRIPE_SECRET_KEY);
-const resend = new Resend(env.RESEND_API_KEY);
 
 // =============================================================================
 // Types
@@ -63,15 +61,13 @@ function getStorageLimit(plan: string): number {
 }
 
 async function updateInstanceMetadata(instanceId: string, newPlan: string, newStorageGb: number): Promise<void> {
-  const metaPath = join(INSTANCES_DIR, instanceId, 'metadata.json');
-  if (!existsSync(metaPath)) {
+  const meta = updateInstance(instanceId, m => {
+    m.plan = newPlan;
+    m.storage_gb = newStorageGb;
+  });
+  if (!meta) {
     throw new Error('Instance not found');
   }
-  
-  const meta: InstanceMetadata = JSON.parse(readFileSync(metaPath, 'utf-8'));
-  meta.plan = newPlan;
-  meta.storage_gb = newStorageGb;
-  writeFileSync(metaPath, JSON.stringify(meta, null, 2));
 }
 
 async function updateImmichQuota(instanceId: string, quotaBytes: number): Promise<boolean> {
@@ -144,38 +140,7 @@ async function sendUpgradeConfirmationEmail(
   newPlan: string,
   newStorageGb: number
 ): Promise<void> {
-  await resend.emails.send({
-    from: env.EMAIL_FROM,
-    to: email,
-    subject: '🚀 SPhoto: Upgrade erfolgreich!',
-    html: `
-      <div style="font-family: -apple-system, BlinkMacSystemFont, sans-serif; max-width: 500px; margin: 0 auto; padding: 20px;">
-        <h1 style="color: #111;"><span style="color: #dc2626;">S</span>Photo</h1>
-        
-        <div style="background: #dcfce7; border: 1px solid #22c55e; border-radius: 8px; padding: 20px; margin: 20px 0;">
-          <p style="margin: 0 0 10px 0; font-weight: bold; color: #166534;">
-            🚀 Upgrade erfolgreich!
-          </p>
-          <p style="margin: 0;">
-            Dein Plan wurde von <strong>${oldPlan}</strong> auf <strong>${newPlan}</strong> geändert.
-          </p>
-        </div>
-        
-        <div style="background: #f3f4f6; padding: 15px; border-radius: 8px; margin: 20px 0;">
-          <p style="margin: 0 0 10px 0;"><strong>Neuer Speicherplatz:</strong> ${newStorageGb} GB</p>
-          <p style="margin: 0;"><strong>Instanz:</strong> ${instanceId}.${env.DOMAIN}</p>
-        </div>
-        
-        <p>Die Änderung ist sofort wirksam. Du kannst jetzt mehr Fotos und Videos hochladen!</p>
-        
-        <p style="color: #666; font-size: 12px; margin-top: 30px;">
-          Bei Fragen: support@arturf.ch
-        </p>
-      </div>
-    `,
-  });
-  
-  console.log(`Upgrade confirmation email sent to ${email}`);
+  await sendEmail(email, 'plan_upgraded', { instanceId, oldPlan, newPlan, newStorageGb });
 }
 
 async function sendDowngradeConfirmationEmail(
@@ -186,39 +151,7 @@ async function sendDowngradeConfirmationEmail(
   newStorageGb: number,
   effectiveDate: string
 ): Promise<void> {
-  await resend.emails.send({
-    from: env.EMAIL_FROM,
-    to: email,
-    subject: '📦 SPhoto: Plan-Änderung bestätigt',
-    html: `
-      <div style="font-family: -apple-system, BlinkMacSystemFont, sans-serif; max-width: 500px; margin: 0 auto; padding: 20px;">
-        <h1 style="color: #111;"><span style="color: #dc2626;">S</span>Photo</h1>
-        
-        <div style="background: #fef3c7; border: 1px solid #ca8a04; border-radius: 8px; padding: 20px; margin: 20px 0;">
-          <p style="margin: 0 0 10px 0; font-weight: bold; color: #854d0e;">
-            📦 Downgrade geplant
-          </p>
-          <p style="margin: 0;">
-            Dein Plan wird von <strong>${oldPlan}</strong> auf <strong>${newPlan}</strong> geändert.
-          </p>
-        </div>
-        
-        <div style="background: #f3f4f6; padding: 15px; border-radius: 8px; margin: 20px 0;">
-          <p style="margin: 0 0 10px 0;"><strong>Neuer Speicherplatz:</strong> ${newStorageGb} GB</p>
-          <p style="margin: 0 0 10px 0;"><strong>Wirksam ab:</strong> ${new Date(effectiveDate).toLocaleDateString('de-CH')}</p>
-          <p style="margin: 0;"><strong>Instanz:</strong> ${instanceId}.${env.DOMAIN}</p>
-        </div>
-        
-        <p>Die Änderung wird zum Ende deines aktuellen Abrechnungszeitraums wirksam.</p>
-        
-        <p style="color: #666; font-size: 12px; margin-top: 30px;">
-          Bei Fragen: support@arturf.ch
-        </p>
-      </div>
-    `,
-  });
-  
-  console.log(`Downgrade confirmation email sent to ${email}`);
+  await sendEmail(email, 'plan_downgrade_scheduled', { instanceId, oldPlan, newPlan, newStorageGb, effectiveDate });
 }
 
 // =============================================================================
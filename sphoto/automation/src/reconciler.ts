@@ -0,0 +1,392 @@
+// =============================================================================
+// Instance Reconciliation (siloed instances)
+// =============================================================================
+// The desired docker-compose.yml of an instance is generated from its metadata
+// (Immich version, storage path, custom domains) and the global config
+// (network, Coolify mode). Drift is any difference between that file and the
+// one on disk, or containers that do not run what the file describes.
+//
+// Applying writes the desired file and recreates the containers, a batch of
+// instances at a time. An instance that is not healthy afterwards gets its
+// previous file back. Database migrations a newer Immich already ran are not
+// undone by that; version changes go through release rollouts (releases.ts).
+
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { exec } from 'child_process';
+import { promisify } from 'util';
+import { env, INSTANCES_DIR, RECONCILE } from './config';
+import {
+  getInstance,
+  listInstances,
+  readComposeSecrets,
+  generateInstanceCompose,
+  waitForInstance,
+  waitForNextcloud,
+} from './instances';
+import { listBackups, listRestores } from './backups';
+import { reconcileRunRepository } from './repositories';
+import type { InstanceMetadata, Platform } from './types';
+
+const execAsync = promisify(exec);
+
+// Lines of unchanged context around each change in a diff
+const DIFF_CONTEXT = 2;
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type ComposeState = 'in_sync' | 'changed' | 'missing' | 'unreadable';
+
+export interface RuntimeIssue {
+  container: string;
+  expected: string;
+  actual: string;
+}
+
+export interface InstanceDrift {
+  instanceId: string;
+  platform: Platform;
+  status: InstanceMetadata['status'];
+  inSync: boolean;
+  compose: ComposeState;
+  diff: string[];                // '- ' on disk, '+ ' desired, '  ' context, '@@' gap
+  runtime: RuntimeIssue[];
+  checkedAt: string;
+}
+
+export type ReconcileResultStatus = 'pending' | 'unchanged' | 'applied' | 'rolled_back' | 'skipped';
+
+export interface ReconcileResult {
+  instanceId: string;
+  status: ReconcileResultStatus;
+  error?: string;
+  finishedAt?: string;
+}
+
+export type ReconcileRunStatus = 'running' | 'completed' | 'halted' | 'failed';
+
+export interface ReconcileRun {
+  id: string;
+  status: ReconcileRunStatus;
+  batchSize: number;
+  results: ReconcileResult[];
+  startedAt: string;
+  completedAt?: string;
+  error?: string;
+}
+
+// =============================================================================
+// Desired State and Diff
+// =============================================================================
+
+function composePath(instanceId: string): string {
+  return join(INSTANCES_DIR, instanceId, 'docker-compose.yml');
+}
+
+function readDesiredState(instance: InstanceMetadata): {
+  state: ComposeState;
+  current?: string;
+  desired?: string;
+} {
+  const path = composePath(instance.id);
+  if (!existsSync(path)) return { state: 'missing' };
+
+  const current = readFileSync(path, 'utf-8');
+  const secrets = readComposeSecrets(current);
+  if (!secrets) return { state: 'unreadable', current };
+
+  const desired = generateInstanceCompose(instance, secrets);
+  return { state: current === desired ? 'in_sync' : 'changed', current, desired };
+}
+
+// Line diff via longest common subsequence; compose files are a few dozen lines
+export function diffLines(before: string, after: string): string[] {
+  const a = before.split('\n');
+  const b = after.split('\n');
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const lines: Array<{ op: ' ' | '-' | '+'; text: string }> = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      lines.push({ op: ' ', text: a[i++] });
+      j++;
+    } else if (i < a.length && (j >= b.length || lcs[i + 1][j] >= lcs[i][j + 1])) {
+      lines.push({ op: '-', text: a[i++] });
+    } else {
+      lines.push({ op: '+', text: b[j++] });
+    }
+  }
+
+  // Keep the changes and a little context around them
+  const keep = lines.map((line, index) =>
+    lines.slice(Math.max(0, index - DIFF_CONTEXT), index + DIFF_CONTEXT + 1).some(l => l.op !== ' ')
+  );
+  const diff: string[] = [];
+  lines.forEach((line, index) => {
+    if (!keep[index]) return;
+    if (index > 0 && !keep[index - 1] && diff.length > 0) diff.push('@@');
+    diff.push(`${line.op} ${line.text}`);
+  });
+  return diff;
+}
+
+// =============================================================================
+// Runtime State
+// =============================================================================
+
+// container name -> image, from a compose file
+function composeImages(compose: string): Map<string, string> {
+  const images = new Map<string, string>();
+  for (const match of compose.matchAll(/image: (\S+)\n\s+container_name: (\S+)/g)) {
+    images.set(match[2], match[1].replace('${IMMICH_VERSION:-release}', env.IMMICH_VERSION));
+  }
+  return images;
+}
+
+async function listContainers(instanceId: string): Promise<Map<string, { image: string; state: string }>> {
+  const { stdout } = await execAsync(
+    `docker ps -a --filter "label=com.docker.compose.project=sphoto-${instanceId}" --format '{{.Names}}\t{{.Image}}\t{{.State}}'`
+  );
+  const containers = new Map<string, { image: string; state: string }>();
+  for (const line of stdout.trim().split('\n').filter(Boolean)) {
+    const [name, image, state] = line.split('\t');
+    containers.set(name, { image, state });
+  }
+  return containers;
+}
+
+async function checkRuntime(instance: InstanceMetadata, desired: string): Promise<RuntimeIssue[]> {
+  let containers: Map<string, { image: string; state: string }>;
+  try {
+    containers = await listContainers(instance.id);
+  } catch (err) {
+    return [{ container: `sphoto-${instance.id}`, expected: 'docker ps', actual: (err as Error).message }];
+  }
+
+  const issues: RuntimeIssue[] = [];
+  for (const [name, image] of composeImages(desired)) {
+    const container = containers.get(name);
+    if (instance.status !== 'active') {
+      if (container?.state === 'running') {
+        issues.push({ container: name, expected: 'stopped', actual: 'running' });
+      }
+      continue;
+    }
+    if (!container) {
+      issues.push({ container: name, expected: 'running', actual: 'missing' });
+      continue;
+    }
+    if (container.state !== 'running') {
+      issues.push({ container: name, expected: 'running', actual: container.state });
+    }
+    if (container.image !== image) {
+      issues.push({ container: name, expected: image, actual: container.image });
+    }
+  }
+  return issues;
+}
+
+export async function getInstanceDrift(instanceId: string): Promise<InstanceDrift | null> {
+  const instance = getInstance(instanceId);
+  if (!instance) return null;
+
+  const { state, current, desired } = readDesiredState(instance);
+  const runtime = await checkRuntime(instance, desired ?? current ?? '');
+
+  return {
+    instanceId,
+    platform: instance.platform,
+    status: instance.status,
+    inSync: state === 'in_sync' && runtime.length === 0,
+    compose: state,
+    diff: state === 'changed' ? diffLines(current!, desired!) : [],
+    runtime,
+    checkedAt: new Date().toISOString(),
+  };
+}
+
+export async function listInstanceDrift(): Promise<InstanceDrift[]> {
+  const drift: InstanceDrift[] = [];
+  for (const instance of listInstances()) {
+    if (instance.status === 'deleted') continue;
+    drift.push((await getInstanceDrift(instance.id))!);
+  }
+  return drift;
+}
+
+// =============================================================================
+// Apply
+// =============================================================================
+
+async function waitHealthy(instance: InstanceMetadata): Promise<boolean> {
+  const url = `https://${instance.id}.${env.DOMAIN}`;
+  return instance.platform === 'nextcloud'
+    ? waitForNextcloud(url, RECONCILE.healthAttempts)
+    : waitForInstance(url, RECONCILE.healthAttempts);
+}
+
+function isBusy(instanceId: string): boolean {
+  return listBackups(instanceId).some(b => b.status === 'running')
+    || listRestores().some(r => r.status === 'running' && r.targetInstanceId === instanceId);
+}
+
+// Also used by release rollouts to move a single instance to a new version
+export async function reconcileInstance(instanceId: string): Promise<ReconcileResult> {
+  const done = (status: ReconcileResultStatus, error?: string): ReconcileResult =>
+    ({ instanceId, status, error, finishedAt: new Date().toISOString() });
+
+  const instance = getInstance(instanceId);
+  if (!instance || instance.status === 'deleted') return done('skipped', 'Instance not found');
+  if (isBusy(instanceId)) return done('skipped', 'A backup or restore is running');
+
+  const { state, current, desired } = readDesiredState(instance);
+  if (state === 'missing') return done('skipped', 'docker-compose.yml not found');
+  if (state === 'unreadable') return done('skipped', 'No database password in docker-compose.yml');
+
+  const runtime = await checkRuntime(instance, desired!);
+  if (state === 'in_sync' && runtime.length === 0) return done('unchanged');
+
+  const dir = join(INSTANCES_DIR, instanceId);
+  const path = composePath(instanceId);
+  writeFileSync(`${path}.previous`, current!);
+  writeFileSync(path, desired!);
+
+  // Stopped instances pick the file up on their next start
+  if (instance.status !== 'active') {
+    if (runtime.length === 0) return done('applied');
+    try {
+      await execAsync(`cd ${dir} && docker compose down`);
+      return done('applied');
+    } catch (err) {
+      return done('skipped', `docker compose down failed: ${(err as Error).message}`);
+    }
+  }
+
+  try {
+    await execAsync(`cd ${dir} && docker compose pull && docker compose up -d --remove-orphans`, { timeout: 600000 });
+    if (!(await waitHealthy(instance))) throw new Error('Instance not healthy after applying');
+    console.log(`Reconciled instance ${instanceId}`);
+    return done('applied');
+  } catch (err) {
+    const message = (err as Error).message;
+    console.error(`Reconciling ${instanceId} failed, rolling back: ${message}`);
+
+    writeFileSync(path, current!);
+    try {
+      await execAsync(`cd ${dir} && docker compose up -d --remove-orphans`, { timeout: 600000 });
+    } catch (rollbackErr) {
+      return done('rolled_back', `${message}; rollback failed: ${(rollbackErr as Error).message}`);
+    }
+    return done('rolled_back', message);
+  }
+}
+
+async function processRun(runId: string): Promise<void> {
+  const run = reconcileRunRepository.get(runId)!;
+  const instanceIds = run.results.map(r => r.instanceId);
+
+  try {
+    for (let start = 0; start < instanceIds.length; start += run.batchSize) {
+      const batch = instanceIds.slice(start, start + run.batchSize);
+      const results = await Promise.all(batch.map(reconcileInstance));
+
+      const updated = reconcileRunRepository.update(runId, r => {
+        r.results = r.results.map(result => results.find(b => b.instanceId === result.instanceId) || result);
+      })!;
+
+      // Stop the rollout, the rest keeps its current compose file
+      if (results.some(r => r.status === 'rolled_back')) {
+        reconcileRunRepository.update(runId, r => {
+          r.status = 'halted';
+          r.completedAt = new Date().toISOString();
+          for (const result of r.results) {
+            if (result.status === 'pending') {
+              result.status = 'skipped';
+              result.error = 'Run stopped after a rollback';
+            }
+          }
+        });
+        console.log(`Reconcile run ${runId} halted after a rollback`);
+        return;
+      }
+
+      console.log(`Reconcile run ${runId}: ${updated.results.filter(r => r.status !== 'pending').length}/${instanceIds.length} done`);
+    }
+
+    reconcileRunRepository.update(runId, r => {
+      r.status = 'completed';
+      r.completedAt = new Date().toISOString();
+    });
+  } catch (err) {
+    console.error(`Reconcile run ${runId} failed:`, err);
+    reconcileRunRepository.update(runId, r => {
+      r.status = 'failed';
+      r.completedAt = new Date().toISOString();
+      r.error = (err as Error).message;
+    });
+  }
+}
+
+// Reconciles the given instances, or all that are not deleted, in the background
+export function startReconcileRun(
+  instanceIds?: string[],
+  batchSize: number = RECONCILE.batchSize
+): { success: boolean; run?: ReconcileRun; error?: string } {
+  if (reconcileRunRepository.listBy('status', 'running').length > 0) {
+    return { success: false, error: 'A reconcile run is already in progress' };
+  }
+  if (!Number.isInteger(batchSize) || batchSize < 1) {
+    return { success: false, error: 'batchSize must be a positive integer' };
+  }
+
+  const ids = instanceIds ?? listInstances().filter(i => i.status !== 'deleted').map(i => i.id);
+  const unknown = ids.filter(id => !getInstance(id));
+  if (unknown.length > 0) {
+    return { success: false, error: `Unknown instances: ${unknown.join(', ')}` };
+  }
+  if (ids.length === 0) {
+    return { success: false, error: 'No instances to reconcile' };
+  }
+
+  const run: ReconcileRun = {
+    id: `reconcile-${Date.now()}`,
+    status: 'running',
+    batchSize,
+    results: ids.map(instanceId => ({ instanceId, status: 'pending' })),
+    startedAt: new Date().toISOString(),
+  };
+  reconcileRunRepository.save(run);
+
+  processRun(run.id);
+  return { success: true, run };
+}
+
+export function getReconcileRun(id: string): ReconcileRun | null {
+  return reconcileRunRepository.get(id);
+}
+
+export function listReconcileRuns(): ReconcileRun[] {
+  return reconcileRunRepository.list().sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+}
+
+// A run cannot continue after a restart; instances it did not reach keep their file
+export function failInterruptedReconcileRuns(): number {
+  const running = reconcileRunRepository.listBy('status', 'running');
+  for (const run of running) {
+    reconcileRunRepository.update(run.id, r => {
+      r.status = 'failed';
+      r.completedAt = new Date().toISOString();
+      r.error = 'Interrupted by a restart';
+    });
+  }
+  return running.length;
+}
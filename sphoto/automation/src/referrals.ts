@@ -0,0 +1,336 @@
+// =============================================================================
+// Referral Program (Shared Mode)
+// =============================================================================
+// Every shared user has a referral code for the portal. New accounts created
+// with a code earn both sides a storage bonus: REFERRALS.freeBonusGB once the
+// free signup is verified, REFERRALS.paidBonusGB once the first payment went
+// through. A referred free account that upgrades later is topped up to the
+// paid bonus. The bonus is kept in SharedUser.bonusGB, separate from the plan
+// quota, so plan changes and migrations don't lose it.
+
+import { randomBytes } from 'crypto';
+import { REFERRALS } from './config';
+import { referralRepository, sharedUserRepository } from './repositories';
+import { getSharedUser, updateSharedUserQuota } from './shared-users';
+import type { SharedUser, UserTier } from './types';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type ReferralKind = 'free' | 'paid';
+
+// capped: the referred account got its bonus, the referrer hit a cap
+export type ReferralStatus = 'qualified' | 'capped' | 'revoked';
+
+export interface Referral {
+  referredId: string;            // visibleId of the new account
+  referredEmail: string;
+  referrerId: string;
+  code: string;
+  kind: ReferralKind;
+  status: ReferralStatus;
+  referrerBonusGB: number;       // Granted so far, including top-ups
+  referredBonusGB: number;
+  created: string;
+  upgradedAt?: string;           // Free referral topped up to the paid bonus
+  signupIp?: string;
+  note?: string;                 // Why the referrer got less than the full bonus
+}
+
+export type ReferralFlag = 'burst' | 'shared_ip' | 'inactive_referrals' | 'capped';
+
+export interface ReferralChainNode {
+  visibleId: string;
+  email: string;
+  tier: UserTier;
+  status: SharedUser['status'] | 'missing';
+  bonusGB: number;
+  referral?: Referral;           // How this account joined
+  flags: ReferralFlag[];
+  referred: ReferralChainNode[];
+}
+
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const CODE_LENGTH = 8;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// =============================================================================
+// Codes
+// =============================================================================
+
+function generateCode(): string {
+  const bytes = randomBytes(CODE_LENGTH);
+  return Array.from(bytes, b => CODE_ALPHABET[b % CODE_ALPHABET.length]).join('');
+}
+
+export function normalizeReferralCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+/** The user's referral code, created on first use. */
+export function getReferralCode(visibleId: string): string | null {
+  const user = getSharedUser(visibleId);
+  if (!user) return null;
+  if (user.referralCode) return user.referralCode;
+
+  let code = generateCode();
+  while (sharedUserRepository.findBy('referral_code', code)) {
+    code = generateCode();
+  }
+  sharedUserRepository.update(visibleId, u => {
+    u.referralCode = u.referralCode || code;
+  });
+  return getSharedUser(visibleId)!.referralCode!;
+}
+
+// Paid signups qualify with their first payment, which may be after a trial
+export function rememberReferralCode(visibleId: string, code?: string): void {
+  if (!code) return;
+  sharedUserRepository.update(visibleId, u => {
+    u.referredWith = normalizeReferralCode(code);
+  });
+}
+
+// Active account behind a referral code, or null
+export function findReferrer(code: string): SharedUser | null {
+  if (!REFERRALS.enabled || !code) return null;
+  const user = sharedUserRepository.findBy('referral_code', normalizeReferralCode(code));
+  return user && user.status === 'active' ? user : null;
+}
+
+// =============================================================================
+// Bonus
+// =============================================================================
+
+// Adjusts the bonus and the Immich quota. A suspended account keeps its
+// pinned read-only quota; restoreSharedUserQuota applies the bonus later.
+async function adjustBonus(visibleId: string, deltaGB: number): Promise<void> {
+  if (deltaGB === 0) return;
+  const user = sharedUserRepository.update(visibleId, u => {
+    u.bonusGB = Math.max((u.bonusGB || 0) + deltaGB, 0);
+  });
+  if (!user || user.status !== 'active' || user.billingStatus === 'suspended' || user.migrationJobId) return;
+
+  const result = await updateSharedUserQuota(visibleId, user.quotaGB);
+  if (!result.success) {
+    console.error(`Failed to apply referral bonus for ${visibleId}: ${result.error}`);
+  }
+}
+
+function bonusFor(kind: ReferralKind): number {
+  return kind === 'paid' ? REFERRALS.paidBonusGB : REFERRALS.freeBonusGB;
+}
+
+// What the referrer can still receive, and why it is less than wanted
+function referrerAllowance(referrer: SharedUser, wantedGB: number, isNewReferral: boolean): { bonusGB: number; note?: string } {
+  if (isNewReferral) {
+    const since = Date.now() - 30 * DAY_MS;
+    const recent = referralRepository.listBy('referrer_id', referrer.visibleId)
+      .filter(r => r.status !== 'revoked' && new Date(r.created).getTime() > since);
+    if (recent.length >= REFERRALS.maxPerMonth) {
+      return { bonusGB: 0, note: `More than ${REFERRALS.maxPerMonth} referrals in 30 days` };
+    }
+  }
+
+  const remainingGB = Math.max(REFERRALS.maxBonusGB - (referrer.bonusGB || 0), 0);
+  if (remainingGB < wantedGB) {
+    return { bonusGB: remainingGB, note: `Bonus cap of ${REFERRALS.maxBonusGB} GB reached` };
+  }
+  return { bonusGB: wantedGB };
+}
+
+/**
+ * Record that an account was created with a referral code, or upgraded to
+ * paid after joining with one, and grant the bonuses. The code defaults to
+ * the one remembered at checkout; existing accounts have none, so a code
+ * can't be applied to them retroactively. Never throws: a failed referral
+ * must not break signup or checkout.
+ */
+export async function applyReferral(
+  visibleId: string,
+  kind: ReferralKind,
+  code?: string,
+  signupIp?: string
+): Promise<Referral | null> {
+  if (!REFERRALS.enabled) return null;
+
+  try {
+    const referred = getSharedUser(visibleId);
+    if (!referred) return null;
+    code = code || referred.referredWith;
+
+    const existing = referralRepository.get(visibleId);
+    if (existing) {
+      return existing.kind === 'free' && kind === 'paid' && existing.status !== 'revoked'
+        ? await upgradeReferral(existing)
+        : existing;
+    }
+    if (!code) return null;
+
+    const referrer = findReferrer(code);
+    if (!referrer) {
+      console.log(`Ignoring unknown referral code ${code} for ${referred.email}`);
+      return null;
+    }
+    if (referrer.visibleId === referred.visibleId || referrer.email === referred.email) {
+      return null;
+    }
+
+    const wantedGB = bonusFor(kind);
+    const allowance = referrerAllowance(referrer, wantedGB, true);
+    const referral = referralRepository.save({
+      referredId: referred.visibleId,
+      referredEmail: referred.email,
+      referrerId: referrer.visibleId,
+      code: normalizeReferralCode(code),
+      kind,
+      status: allowance.bonusGB < wantedGB ? 'capped' : 'qualified',
+      referrerBonusGB: allowance.bonusGB,
+      referredBonusGB: wantedGB,
+      created: new Date().toISOString(),
+      signupIp,
+      note: allowance.note,
+    });
+
+    await adjustBonus(referred.visibleId, wantedGB);
+    await adjustBonus(referrer.visibleId, allowance.bonusGB);
+
+    console.log(`Referral ${referrer.visibleId} -> ${referred.visibleId} (${kind}, ${referral.status})`);
+    return referral;
+  } catch (err) {
+    console.error(`Failed to apply referral for ${visibleId}:`, err);
+    return null;
+  }
+}
+
+async function upgradeReferral(referral: Referral): Promise<Referral> {
+  const topUpGB = Math.max(REFERRALS.paidBonusGB - REFERRALS.freeBonusGB, 0);
+  const referrer = getSharedUser(referral.referrerId);
+  const allowance = referrer && referrer.status === 'active'
+    ? referrerAllowance(referrer, topUpGB, false)
+    : { bonusGB: 0, note: 'Referrer account no longer active' };
+
+  const updated = referralRepository.update(referral.referredId, r => {
+    r.kind = 'paid';
+    r.upgradedAt = new Date().toISOString();
+    r.referredBonusGB += topUpGB;
+    r.referrerBonusGB += allowance.bonusGB;
+    if (allowance.bonusGB < topUpGB) {
+      r.status = 'capped';
+      r.note = allowance.note;
+    }
+  })!;
+
+  await adjustBonus(referral.referredId, topUpGB);
+  if (referrer) await adjustBonus(referrer.visibleId, allowance.bonusGB);
+
+  console.log(`Referral ${referral.referrerId} -> ${referral.referredId} upgraded to paid`);
+  return updated;
+}
+
+/** Take back both bonuses of a referral, e.g. after spotting abuse. */
+export async function revokeReferral(referredId: string, reason?: string): Promise<{ success: boolean; referral?: Referral; error?: string }> {
+  const referral = referralRepository.get(referredId);
+  if (!referral) return { success: false, error: 'Referral not found' };
+  if (referral.status === 'revoked') return { success: false, error: 'Referral already revoked' };
+
+  await adjustBonus(referral.referredId, -referral.referredBonusGB);
+  await adjustBonus(referral.referrerId, -referral.referrerBonusGB);
+
+  const updated = referralRepository.update(referredId, r => {
+    r.status = 'revoked';
+    r.note = reason || r.note;
+  })!;
+  console.log(`Referral ${referral.referrerId} -> ${referral.referredId} revoked`);
+  return { success: true, referral: updated };
+}
+
+// =============================================================================
+// Portal & Admin Views
+// =============================================================================
+
+export function getReferralSummary(visibleId: string): {
+  code: string;
+  referred: number;
+  bonusGB: number;
+  maxBonusGB: number;
+  freeBonusGB: number;
+  paidBonusGB: number;
+} | null {
+  const user = getSharedUser(visibleId);
+  const code = getReferralCode(visibleId);
+  if (!user || !code) return null;
+
+  return {
+    code,
+    referred: referralRepository.listBy('referrer_id', visibleId).filter(r => r.status !== 'revoked').length,
+    bonusGB: user.bonusGB || 0,
+    maxBonusGB: REFERRALS.maxBonusGB,
+    freeBonusGB: REFERRALS.freeBonusGB,
+    paidBonusGB: REFERRALS.paidBonusGB,
+  };
+}
+
+function flagsFor(referrals: Referral[], users: Map<string, SharedUser>): ReferralFlag[] {
+  const flags: ReferralFlag[] = [];
+  const active = referrals.filter(r => r.status !== 'revoked');
+
+  const times = active.map(r => new Date(r.created).getTime()).sort((a, b) => a - b);
+  const window = REFERRALS.burstThreshold;
+  if (times.some((t, i) => i + window - 1 < times.length && times[i + window - 1] - t < DAY_MS)) {
+    flags.push('burst');
+  }
+
+  const ips = active.map(r => r.signupIp).filter(Boolean);
+  if (new Set(ips).size < ips.length) flags.push('shared_ip');
+
+  const inactive = active.filter(r => users.get(r.referredId)?.status !== 'active');
+  if (inactive.length >= 2 && inactive.length * 2 >= active.length) flags.push('inactive_referrals');
+
+  if (active.some(r => r.status === 'capped')) flags.push('capped');
+  return flags;
+}
+
+/**
+ * Referral trees, one per account that joined without a referral. Each node
+ * is flagged with patterns worth a closer look: bursts of signups, several
+ * referred accounts from one IP, referred accounts that were abandoned.
+ */
+export function getReferralChains(): { chains: ReferralChainNode[]; total: number; flagged: number } {
+  const referrals = referralRepository.list();
+  const users = new Map(sharedUserRepository.list().map(u => [u.visibleId, u]));
+  const byReferrer = new Map<string, Referral[]>();
+  for (const referral of referrals) {
+    byReferrer.set(referral.referrerId, [...(byReferrer.get(referral.referrerId) || []), referral]);
+  }
+  const referralOf = new Map(referrals.map(r => [r.referredId, r]));
+
+  let flagged = 0;
+  const build = (visibleId: string, seen: Set<string>): ReferralChainNode => {
+    const user = users.get(visibleId);
+    const children = byReferrer.get(visibleId) || [];
+    const flags = flagsFor(children, users);
+    if (flags.length > 0) flagged++;
+    seen.add(visibleId);
+
+    return {
+      visibleId,
+      email: user?.email || referralOf.get(visibleId)?.referredEmail || '',
+      tier: user?.tier || 'free',
+      status: user?.status || 'missing',
+      bonusGB: user?.bonusGB || 0,
+      referral: referralOf.get(visibleId),
+      flags,
+      referred: children
+        .filter(r => !seen.has(r.referredId))
+        .map(r => build(r.referredId, seen)),
+    };
+  };
+
+  const seen = new Set<string>();
+  const roots = [...byReferrer.keys()].filter(id => !referralOf.has(id));
+  const chains = roots.map(id => build(id, seen));
+
+  return { chains, total: referrals.length, flagged };
+}
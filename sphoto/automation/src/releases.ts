@@ -0,0 +1,682 @@
+// =============================================================================
+// Release Channels and Rollouts
+// =============================================================================
+// Every Immich instance follows a release channel: siloed instances through
+// their metadata, the shared free/paid instances through a meta entry (their
+// version is the IMMICH_VERSION in their .env). A rollout of a new version
+//   1. upgrades the canary instances inside a maintenance window,
+//   2. soaks: checkRollouts() reads the health history of the canaries and
+//      rolls them back on the first unhealthy check or unexpected version,
+//   3. promotes once RELEASES.soakHours passed: upgrades the stable instances
+//      in batches inside a second maintenance window and makes the version the
+//      stable version new instances start on.
+// Pinned instances keep their version.
+//
+// The database of every instance is dumped right before its upgrade. Rolling
+// back starts the previous version on that dump, so whatever was written to
+// the instance since the upgrade is lost; media files stay on disk.
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { rm } from 'fs/promises';
+import { join } from 'path';
+import { exec } from 'child_process';
+import { promisify } from 'util';
+import { env, DEPLOYMENT_MODE, SHARED_INSTANCES, INSTANCES_DIR, BACKUPS, RECONCILE, RELEASES } from './config';
+import {
+  getInstance,
+  listInstances,
+  updateInstance,
+  readComposeSecrets,
+  generateInstanceCompose,
+  getInstanceImmichVersion,
+  getStableImmichVersion,
+  STABLE_VERSION_META_KEY,
+  waitForInstance,
+} from './instances';
+import { dumpDatabase, restoreDatabase, discardPreRestoreDatabase } from './backups';
+import { reconcileInstance } from './reconciler';
+import { getMaintenance, createMaintenance, startMaintenance, completeMaintenance } from './maintenance';
+import { getMeta, setMeta } from './db';
+import { rolloutRepository, healthHistoryRepository } from './repositories';
+import type { InstanceMetadata, ReleaseChannel } from './types';
+
+const execAsync = promisify(exec);
+
+type SharedInstance = 'free' | 'paid';
+
+const SHARED_IDS: SharedInstance[] = ['free', 'paid'];
+const CHANNELS: ReleaseChannel[] = ['canary', 'stable', 'pinned'];
+
+// Exact versions only, health checks compare them with what the server reports
+const VERSION_PATTERN = /^v?\d+\.\d+\.\d+$/;
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface ReleaseTarget {
+  id: string;                    // Instance id, or 'free' / 'paid'
+  shared: boolean;
+  email?: string;                // Owner of a siloed instance
+  status?: InstanceMetadata['status'];
+  channel: ReleaseChannel;
+  version: string;
+}
+
+export type RolloutStage = 'canary' | 'stable';
+
+export type RolloutTargetStatus = 'pending' | 'upgrading' | 'upgraded' | 'skipped' | 'failed' | 'rolled_back';
+
+export interface RolloutTarget {
+  id: string;
+  shared: boolean;
+  stage: RolloutStage;
+  status: RolloutTargetStatus;
+  previousVersion: string;
+  dumpPath?: string;             // Database before the upgrade, gzipped
+  upgradedAt?: string;
+  error?: string;
+}
+
+export type RolloutStatus =
+  | 'canary'                     // Upgrading the canaries
+  | 'soaking'
+  | 'promoting'                  // Upgrading the stable instances
+  | 'completed'
+  | 'rolling_back'
+  | 'rolled_back'
+  | 'failed';                    // Stopped; upgraded instances keep the new version until rolled back
+
+export interface Rollout {
+  id: string;
+  version: string;
+  status: RolloutStatus;
+  soakHours: number;
+  soakUntil?: string;
+  targets: RolloutTarget[];
+  maintenanceIds: string[];
+  startedBy: string;
+  startedAt: string;
+  promotedAt?: string;
+  completedAt?: string;
+  error?: string;
+}
+
+const ACTIVE_STATUSES: RolloutStatus[] = ['canary', 'soaking', 'promoting', 'rolling_back'];
+
+// =============================================================================
+// Channels and Versions
+// =============================================================================
+
+function isShared(id: string): id is SharedInstance {
+  return (SHARED_IDS as string[]).includes(id);
+}
+
+function sharedChannelKey(instance: SharedInstance): string {
+  return `releases.channel.${instance}`;
+}
+
+function sharedEnvPath(instance: SharedInstance): string {
+  return join(INSTANCES_DIR, instance, '.env');
+}
+
+// The shared compose files fall back to 'release' without IMMICH_VERSION
+export function getSharedImmichVersion(instance: SharedInstance): string {
+  const path = sharedEnvPath(instance);
+  if (!existsSync(path)) return 'release';
+  return readFileSync(path, 'utf-8').match(/^IMMICH_VERSION=(.*)$/m)?.[1].trim() || 'release';
+}
+
+function writeSharedImmichVersion(instance: SharedInstance, version: string): void {
+  const path = sharedEnvPath(instance);
+  const content = existsSync(path) ? readFileSync(path, 'utf-8') : '';
+  const line = `IMMICH_VERSION=${version}`;
+  const updated = /^IMMICH_VERSION=.*$/m.test(content)
+    ? content.replace(/^IMMICH_VERSION=.*$/m, line)
+    : `${content}${content && !content.endsWith('\n') ? '\n' : ''}${line}\n`;
+  writeFileSync(path, updated);
+}
+
+function normalizeVersion(version: string): string {
+  return version.trim().replace(/^v/, '');
+}
+
+export function listReleaseTargets(): ReleaseTarget[] {
+  const targets: ReleaseTarget[] = listInstances()
+    .filter(i => i.platform === 'immich' && i.status !== 'deleted')
+    .map(i => ({
+      id: i.id,
+      shared: false,
+      email: i.email,
+      status: i.status,
+      channel: i.releaseChannel || 'stable',
+      version: getInstanceImmichVersion(i),
+    }));
+
+  if (DEPLOYMENT_MODE === 'shared') {
+    for (const instance of SHARED_IDS) {
+      targets.push({
+        id: instance,
+        shared: true,
+        channel: (getMeta(sharedChannelKey(instance)) as ReleaseChannel | null) || 'stable',
+        version: getSharedImmichVersion(instance),
+      });
+    }
+  }
+
+  return targets;
+}
+
+// Assigns a channel. A pinned target keeps the version it runs unless a
+// version is given; that one is applied by the next reconcile run (siloed) or
+// shared instance upgrade, without a dump.
+export function setReleaseChannel(
+  targetId: string,
+  channel: ReleaseChannel,
+  version?: string
+): { success: boolean; target?: ReleaseTarget; error?: string } {
+  if (!CHANNELS.includes(channel)) {
+    return { success: false, error: 'channel must be canary, stable or pinned' };
+  }
+  if (version !== undefined && (channel !== 'pinned' || !VERSION_PATTERN.test(version))) {
+    return { success: false, error: 'version must be an exact Immich version and requires the pinned channel' };
+  }
+  if (getActiveRollout()?.targets.some(t => t.id === targetId)) {
+    return { success: false, error: 'Target is part of the running rollout' };
+  }
+
+  if (isShared(targetId)) {
+    if (DEPLOYMENT_MODE !== 'shared') return { success: false, error: 'Shared instances are not deployed' };
+    setMeta(sharedChannelKey(targetId), channel);
+    if (version) writeSharedImmichVersion(targetId, version);
+  } else {
+    const instance = getInstance(targetId);
+    if (!instance || instance.status === 'deleted') return { success: false, error: 'Instance not found' };
+    if (instance.platform !== 'immich') {
+      return { success: false, error: 'Release channels are only supported for Immich instances' };
+    }
+    updateInstance(targetId, meta => {
+      meta.releaseChannel = channel;
+      if (channel === 'pinned') meta.immichVersion = version || getInstanceImmichVersion(meta);
+    });
+  }
+
+  console.log(`Release channel of ${targetId} set to ${channel}${version ? ` (${version})` : ''}`);
+  return { success: true, target: listReleaseTargets().find(t => t.id === targetId) };
+}
+
+// =============================================================================
+// Upgrade and Restore of a Single Target
+// =============================================================================
+
+function setTargetVersion(target: RolloutTarget, version: string): void {
+  if (isShared(target.id)) {
+    writeSharedImmichVersion(target.id, version);
+  } else {
+    updateInstance(target.id, meta => { meta.immichVersion = version; });
+  }
+}
+
+function writeInstanceCompose(instance: InstanceMetadata): void {
+  const path = join(INSTANCES_DIR, instance.id, 'docker-compose.yml');
+  const secrets = readComposeSecrets(readFileSync(path, 'utf-8'));
+  if (!secrets) throw new Error('No database password in docker-compose.yml');
+  writeFileSync(path, generateInstanceCompose(instance, secrets));
+}
+
+function waitHealthy(target: RolloutTarget): Promise<boolean> {
+  const url = isShared(target.id)
+    ? SHARED_INSTANCES[target.id].internalUrl
+    : `https://${target.id}.${env.DOMAIN}`;
+  return waitForInstance(url, RECONCILE.healthAttempts);
+}
+
+function dumpDir(rolloutId: string): string {
+  return join(BACKUPS.dir, 'releases', rolloutId);
+}
+
+function updateTarget(rolloutId: string, targetId: string, update: (target: RolloutTarget) => void): RolloutTarget {
+  const rollout = rolloutRepository.update(rolloutId, r => {
+    const target = r.targets.find(t => t.id === targetId);
+    if (target) update(target);
+  })!;
+  return rollout.targets.find(t => t.id === targetId)!;
+}
+
+// Starts the previous version on the pre-upgrade database
+async function restoreTarget(target: RolloutTarget): Promise<void> {
+  const dir = join(INSTANCES_DIR, target.id);
+  setTargetVersion(target, target.previousVersion);
+
+  if (!target.shared) {
+    const instance = getInstance(target.id);
+    if (!instance) return;
+    writeInstanceCompose(instance);
+    if (instance.status !== 'active') return;
+  }
+
+  await execAsync(`cd ${dir} && docker compose down`);
+  if (target.dumpPath) await restoreDatabase(target.id, target.dumpPath);
+  await execAsync(`cd ${dir} && docker compose up -d --remove-orphans`, { timeout: 600000 });
+  if (!(await waitHealthy(target))) throw new Error('Instance not healthy after restoring the previous version');
+  await discardPreRestoreDatabase(target.id);
+}
+
+async function upgradeTarget(rollout: Rollout, target: RolloutTarget): Promise<RolloutTarget> {
+  const update = (fn: (t: RolloutTarget) => void) => updateTarget(rollout.id, target.id, fn);
+  update(t => { t.status = 'upgrading'; });
+
+  const instance = target.shared ? null : getInstance(target.id);
+  if (!target.shared && (!instance || instance.status === 'deleted')) {
+    return update(t => { t.status = 'skipped'; t.error = 'Instance not found'; });
+  }
+
+  // Stopped instances have no running database; they start on the new version
+  let dumpPath: string | undefined;
+  if (target.shared || instance!.status === 'active') {
+    try {
+      mkdirSync(dumpDir(rollout.id), { recursive: true });
+      const path = join(dumpDir(rollout.id), `${target.id}.sql`);
+      await dumpDatabase(target.id, path);
+      dumpPath = `${path}.gz`;
+      update(t => { t.dumpPath = dumpPath; });
+    } catch (err) {
+      return update(t => { t.status = 'failed'; t.error = `Database dump failed: ${(err as Error).message}`; });
+    }
+  }
+
+  setTargetVersion(target, rollout.version);
+  try {
+    if (target.shared) {
+      await execAsync(
+        `cd ${join(INSTANCES_DIR, target.id)} && docker compose pull && docker compose up -d`,
+        { timeout: 600000 }
+      );
+      if (!(await waitHealthy(target))) throw new Error('Instance not healthy after the upgrade');
+    } else {
+      const result = await reconcileInstance(target.id);
+      if (result.status === 'skipped') {
+        setTargetVersion(target, target.previousVersion);
+        return update(t => { t.status = 'skipped'; t.error = result.error; });
+      }
+      if (result.status === 'rolled_back') throw new Error(result.error || 'Instance not healthy after the upgrade');
+    }
+
+    console.log(`Upgraded ${target.id} to Immich ${rollout.version}`);
+    return update(t => {
+      t.status = 'upgraded';
+      t.upgradedAt = new Date().toISOString();
+    });
+  } catch (err) {
+    const message = (err as Error).message;
+    console.error(`Upgrading ${target.id} to ${rollout.version} failed, restoring ${target.previousVersion}: ${message}`);
+    try {
+      await restoreTarget({ ...target, dumpPath });
+      return update(t => { t.status = 'rolled_back'; t.error = message; });
+    } catch (restoreErr) {
+      return update(t => {
+        t.status = 'failed';
+        t.error = `${message}; restore failed: ${(restoreErr as Error).message}`;
+      });
+    }
+  }
+}
+
+// =============================================================================
+// Maintenance Windows
+// =============================================================================
+
+// Starts right away; shared ids are listed too, though only the owners of
+// siloed instances are notified
+async function openMaintenance(rollout: Rollout, targetIds: string[], rollback = false): Promise<string> {
+  const start = new Date();
+  const maintenance = await createMaintenance({
+    title: rollback ? `Rückkehr zur vorherigen Immich-Version` : `Update auf Immich ${rollout.version}`,
+    description: rollback
+      ? 'Ein Update hat Probleme verursacht. Deine Instanz wird auf die vorherige Version zurückgesetzt und ist dabei kurz nicht erreichbar.'
+      : 'Deine Instanz wird auf eine neue Immich-Version aktualisiert und ist dabei einige Minuten nicht erreichbar.',
+    type: rollback ? 'emergency' : 'update',
+    scheduledStart: start.toISOString(),
+    scheduledEnd: new Date(start.getTime() + RELEASES.maintenanceMinutes * 60 * 1000).toISOString(),
+    affectedInstances: targetIds,
+    createdBy: rollout.startedBy,
+  });
+  await startMaintenance(maintenance.id);
+  rolloutRepository.update(rollout.id, r => { r.maintenanceIds.push(maintenance.id); });
+  return maintenance.id;
+}
+
+async function closeMaintenance(id: string): Promise<void> {
+  if (getMaintenance(id)?.status !== 'in_progress') return;
+  try {
+    await completeMaintenance(id);
+  } catch (err) {
+    console.error(`Could not complete maintenance ${id}:`, err);
+  }
+}
+
+// =============================================================================
+// Rollout Stages
+// =============================================================================
+
+function failRollout(rolloutId: string, err: unknown): void {
+  console.error(`Rollout ${rolloutId} failed:`, err);
+  rolloutRepository.update(rolloutId, r => {
+    r.status = 'failed';
+    r.completedAt = new Date().toISOString();
+    r.error = (err as Error).message;
+  });
+}
+
+function skipPending(rollout: Rollout, reason: string): void {
+  for (const target of rollout.targets) {
+    if (target.status === 'pending') {
+      target.status = 'skipped';
+      target.error = reason;
+    }
+  }
+}
+
+async function runCanaryStage(rolloutId: string): Promise<void> {
+  const rollout = rolloutRepository.get(rolloutId)!;
+  const canaries = rollout.targets.filter(t => t.stage === 'canary');
+  let maintenanceId: string | undefined;
+
+  try {
+    maintenanceId = await openMaintenance(rollout, canaries.map(t => t.id));
+
+    for (const target of canaries) {
+      const result = await upgradeTarget(rollout, target);
+      if (result.status === 'failed' || result.status === 'rolled_back') {
+        await rollBack(rolloutId, `Canary ${target.id}: ${result.error}`, false);
+        return;
+      }
+    }
+
+    const upgraded = rolloutRepository.get(rolloutId)!.targets.filter(t => t.status === 'upgraded');
+    if (upgraded.length === 0) throw new Error('No canary instance could be upgraded');
+
+    const soakUntil = new Date(Date.now() + rollout.soakHours * 60 * 60 * 1000).toISOString();
+    rolloutRepository.update(rolloutId, r => {
+      r.status = 'soaking';
+      r.soakUntil = soakUntil;
+    });
+    console.log(`Rollout ${rolloutId}: ${upgraded.length} canaries on ${rollout.version}, soaking until ${soakUntil}`);
+  } catch (err) {
+    failRollout(rolloutId, err);
+  } finally {
+    if (maintenanceId) await closeMaintenance(maintenanceId);
+  }
+}
+
+async function runStableStage(rolloutId: string): Promise<void> {
+  let rollout = rolloutRepository.get(rolloutId)!;
+  const targets = rollout.targets.filter(t => t.stage === 'stable');
+  let maintenanceId: string | undefined;
+
+  try {
+    if (targets.length > 0) {
+      maintenanceId = await openMaintenance(rollout, targets.map(t => t.id));
+    }
+
+    for (let start = 0; start < targets.length; start += RECONCILE.batchSize) {
+      const batch = targets.slice(start, start + RECONCILE.batchSize);
+      const results = await Promise.all(batch.map(t => upgradeTarget(rollout, t)));
+
+      // The rest keeps the old version; upgraded instances stay until rolled back
+      const failed = results.find(r => r.status === 'failed' || r.status === 'rolled_back');
+      if (failed) {
+        rolloutRepository.update(rolloutId, r => {
+          skipPending(r, 'Rollout stopped after a failed upgrade');
+          r.status = 'failed';
+          r.completedAt = new Date().toISOString();
+          r.error = `${failed.id}: ${failed.error}`;
+        });
+        console.log(`Rollout ${rolloutId} stopped after ${failed.id} failed to upgrade`);
+        return;
+      }
+    }
+
+    setMeta(STABLE_VERSION_META_KEY, rollout.version);
+    rollout = rolloutRepository.update(rolloutId, r => {
+      r.status = 'completed';
+      r.completedAt = new Date().toISOString();
+    })!;
+    await rm(dumpDir(rolloutId), { recursive: true, force: true });
+    console.log(`Rollout ${rolloutId} completed, ${rollout.version} is the stable version`);
+  } catch (err) {
+    failRollout(rolloutId, err);
+  } finally {
+    if (maintenanceId) await closeMaintenance(maintenanceId);
+  }
+}
+
+// Restores every upgraded target of the rollout, the stable version is unchanged
+async function rollBack(rolloutId: string, reason: string, withMaintenance: boolean): Promise<void> {
+  const rollout = rolloutRepository.update(rolloutId, r => {
+    skipPending(r, 'Rollout rolled back');
+    r.status = 'rolling_back';
+    r.error = reason;
+  })!;
+  const upgraded = rollout.targets.filter(t => t.status === 'upgraded');
+  console.log(`Rolling back rollout ${rolloutId}: ${reason}`);
+  let maintenanceId: string | undefined;
+
+  try {
+    if (withMaintenance && upgraded.length > 0) {
+      maintenanceId = await openMaintenance(rollout, upgraded.map(t => t.id), true);
+    }
+
+    const failures: string[] = [];
+    for (const target of upgraded) {
+      try {
+        await restoreTarget(target);
+        updateTarget(rolloutId, target.id, t => { t.status = 'rolled_back'; });
+      } catch (err) {
+        failures.push(target.id);
+        updateTarget(rolloutId, target.id, t => {
+          t.status = 'failed';
+          t.error = `Rollback failed: ${(err as Error).message}`;
+        });
+      }
+    }
+
+    rolloutRepository.update(rolloutId, r => {
+      r.status = failures.length > 0 ? 'failed' : 'rolled_back';
+      r.completedAt = new Date().toISOString();
+      if (failures.length > 0) r.error = `${reason}; rollback failed for ${failures.join(', ')}`;
+    });
+    if (failures.length === 0) await rm(dumpDir(rolloutId), { recursive: true, force: true });
+  } catch (err) {
+    failRollout(rolloutId, err);
+  } finally {
+    if (maintenanceId) await closeMaintenance(maintenanceId);
+  }
+}
+
+// Health history of the canaries since their upgrade: a problem as soon as one
+// check was unhealthy or reported another version, soaked once the soak period
+// passed with at least one check of every running canary
+function evaluateCanaries(rollout: Rollout): { soaked: boolean; problem?: string } {
+  let checked = true;
+
+  for (const target of rollout.targets) {
+    if (target.stage !== 'canary' || target.status !== 'upgraded') continue;
+
+    const entries = healthHistoryRepository.listBy('instance_id', target.id)
+      .filter(e => e.checkedAt >= target.upgradedAt!);
+    const unhealthy = entries.find(e => !e.healthy);
+    if (unhealthy) {
+      return { soaked: false, problem: `${target.id} unhealthy at ${unhealthy.checkedAt}` };
+    }
+    const otherVersion = entries.find(e =>
+      typeof e.checks.version?.value === 'string' && e.checks.version.value !== normalizeVersion(rollout.version)
+    );
+    if (otherVersion) {
+      return { soaked: false, problem: `${target.id} reported version ${otherVersion.checks.version.value}` };
+    }
+
+    const running = target.shared || getInstance(target.id)?.status === 'active';
+    if (running && entries.length === 0) checked = false;
+  }
+
+  return { soaked: checked && Date.now() >= new Date(rollout.soakUntil!).getTime() };
+}
+
+// Adds the stable channel as it is now, so instances created during the soak are included
+function beginPromotion(rolloutId: string): void {
+  const inRollout = new Set(rolloutRepository.get(rolloutId)!.targets.map(t => t.id));
+  rolloutRepository.update(rolloutId, r => {
+    const stable = listReleaseTargets()
+      .filter(t => t.channel === 'stable' && !inRollout.has(t.id) && t.version !== r.version);
+    r.targets.push(...stable.map(t => ({
+      id: t.id,
+      shared: t.shared,
+      stage: 'stable' as const,
+      status: 'pending' as const,
+      previousVersion: t.version,
+    })));
+    r.status = 'promoting';
+    r.promotedAt = new Date().toISOString();
+  });
+}
+
+// =============================================================================
+// Public API
+// =============================================================================
+
+export function getActiveRollout(): Rollout | null {
+  return rolloutRepository.list().find(r => ACTIVE_STATUSES.includes(r.status)) || null;
+}
+
+export function getRollout(id: string): Rollout | null {
+  return rolloutRepository.get(id);
+}
+
+export function listRollouts(): Rollout[] {
+  return rolloutRepository.list().sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+}
+
+export function getReleaseOverview(): { stableVersion: string; targets: ReleaseTarget[]; activeRollout: Rollout | null } {
+  return { stableVersion: getStableImmichVersion(), targets: listReleaseTargets(), activeRollout: getActiveRollout() };
+}
+
+// Upgrades the canary channel in the background
+export function startRollout(
+  version: string,
+  startedBy: string,
+  soakHours: number = RELEASES.soakHours
+): { success: boolean; rollout?: Rollout; error?: string } {
+  if (!VERSION_PATTERN.test(version)) {
+    return { success: false, error: 'version must be an exact Immich version, e.g. v1.135.3' };
+  }
+  if (!Number.isFinite(soakHours) || soakHours < 0) {
+    return { success: false, error: 'soakHours must be zero or positive' };
+  }
+  if (getActiveRollout()) {
+    return { success: false, error: 'A rollout is already in progress' };
+  }
+
+  const canaries = listReleaseTargets().filter(t => t.channel === 'canary' && t.version !== version);
+  if (canaries.length === 0) {
+    return { success: false, error: 'No canary instances to upgrade' };
+  }
+
+  const rollout: Rollout = {
+    id: `rollout-${Date.now()}`,
+    version,
+    status: 'canary',
+    soakHours,
+    targets: canaries.map(t => ({
+      id: t.id,
+      shared: t.shared,
+      stage: 'canary',
+      status: 'pending',
+      previousVersion: t.version,
+    })),
+    maintenanceIds: [],
+    startedBy,
+    startedAt: new Date().toISOString(),
+  };
+  rolloutRepository.save(rollout);
+  console.log(`Rollout ${rollout.id} of Immich ${version} started on ${canaries.length} canaries`);
+
+  runCanaryStage(rollout.id);
+  return { success: true, rollout };
+}
+
+// Promotes a soaking rollout before the soak period ended; the canaries must
+// still be healthy
+export function promoteRollout(id: string): { success: boolean; rollout?: Rollout; error?: string } {
+  const rollout = rolloutRepository.get(id);
+  if (!rollout) return { success: false, error: 'Rollout not found' };
+  if (rollout.status !== 'soaking') return { success: false, error: 'Only a soaking rollout can be promoted' };
+
+  const { problem } = evaluateCanaries(rollout);
+  if (problem) return { success: false, error: `Canary health check failed: ${problem}` };
+
+  beginPromotion(id);
+  runStableStage(id);
+  return { success: true, rollout: rolloutRepository.get(id)! };
+}
+
+export function rollbackRollout(id: string, reason = 'Rolled back by an admin'): { success: boolean; rollout?: Rollout; error?: string } {
+  const rollout = rolloutRepository.get(id);
+  if (!rollout) return { success: false, error: 'Rollout not found' };
+  if (rollout.status !== 'soaking' && rollout.status !== 'failed') {
+    return { success: false, error: 'Only a soaking or failed rollout can be rolled back' };
+  }
+  if (!rollout.targets.some(t => t.status === 'upgraded')) {
+    return { success: false, error: 'No upgraded instances to roll back' };
+  }
+  if (rollout.status === 'failed' && getActiveRollout()) {
+    return { success: false, error: 'Another rollout is in progress' };
+  }
+
+  rollBack(id, reason, true);
+  return { success: true, rollout: rolloutRepository.get(id)! };
+}
+
+// Scheduled job: rolls back or promotes the soaking rollout
+export async function checkRollouts(): Promise<void> {
+  const rollout = rolloutRepository.listBy('status', 'soaking')[0];
+  if (!rollout) return;
+
+  const { soaked, problem } = evaluateCanaries(rollout);
+  if (problem) {
+    await rollBack(rollout.id, `Canary health check failed: ${problem}`, true);
+    return;
+  }
+  if (soaked) {
+    console.log(`Rollout ${rollout.id} soaked, promoting ${rollout.version} to stable`);
+    beginPromotion(rollout.id);
+    await runStableStage(rollout.id);
+  }
+}
+
+// Stages cannot continue after a restart. Soaking rollouts carry on; the
+// others are failed with their maintenance windows closed, and can be rolled
+// back from there.
+export async function failInterruptedRollouts(): Promise<number> {
+  const interrupted = rolloutRepository.list()
+    .filter(r => r.status === 'canary' || r.status === 'promoting' || r.status === 'rolling_back');
+
+  for (const rollout of interrupted) {
+    rolloutRepository.update(rollout.id, r => {
+      for (const target of r.targets) {
+        if (target.status === 'upgrading') {
+          target.status = 'failed';
+          target.error = 'Interrupted by a restart';
+        }
+      }
+      skipPending(r, 'Interrupted by a restart');
+      r.status = 'failed';
+      r.completedAt = new Date().toISOString();
+      r.error = 'Interrupted by a restart';
+    });
+    for (const maintenanceId of rollout.maintenanceIds) {
+      await closeMaintenance(maintenanceId);
+    }
+  }
+  return interrupted.length;
+}
@@ -0,0 +1,246 @@
+// =============================================================================
+// Repositories
+// =============================================================================
+// One repository per persisted entity. Modules never touch SQL directly.
+
+import { createRepository } from './db';
+import type { SharedUser, InstanceMetadata, ExportJob, SharedExportJob, DailyStats, UserMigrationJob, StripeEventRecord, AdminAccount, AuditLogEntry, RateLimitCounter, EmailVerification, OutboxEmail } from './types';
+import type { AlertHistory } from './alerts';
+import type { AlertChannel } from './alert-channels';
+import type { HealthStatus, HealthHistoryEntry } from './health';
+import type { Maintenance } from './maintenance';
+import type { ScheduledJobState } from './scheduler';
+import type { ComponentStatus, Incident, UptimeDay, StatusSubscriber } from './status';
+import type { Referral } from './referrals';
+import type { Household, HouseholdInvite } from './households';
+import type { InvoiceRecord } from './invoices';
+import type { UsageSnapshot } from './usage';
+import type { InstanceBackup, BackupRestore } from './backups';
+import type { ReconcileRun } from './reconciler';
+import type { Rollout } from './releases';
+
+export const sharedUserRepository = createRepository<SharedUser>('shared_users', {
+  key: u => u.visibleId,
+  columns: {
+    email: u => u.email.trim().toLowerCase(),  // Looked up case-insensitively, see normalizeEmail
+    immich_user_id: u => u.immichUserId,
+    stripe_customer_id: u => u.stripeCustomerId,
+    portal_token: u => u.portalToken,
+    status: u => u.status,
+    billing_status: u => u.billingStatus,
+    referral_code: u => u.referralCode,
+    household_id: u => u.householdId,
+  },
+});
+
+export const instanceRepository = createRepository<InstanceMetadata>('instances', {
+  key: i => i.id,
+  columns: {
+    email: i => i.email.trim().toLowerCase(),  // Looked up case-insensitively, see normalizeEmail
+    status: i => i.status,
+    portal_token: i => i.portalToken,
+  },
+});
+
+// Alert histories are keyed by instance id, shared_user:<visibleId> or shared:<instance>
+export const alertHistoryRepository = createRepository<AlertHistory & { instanceId: string }>('alert_histories', {
+  key: h => h.instanceId,
+});
+
+export const alertChannelRepository = createRepository<AlertChannel>('alert_channels', {
+  key: c => c.id,
+});
+
+export const healthStatusRepository = createRepository<HealthStatus>('health_statuses', {
+  key: s => s.instanceId,
+});
+
+// Keys end with the check time, so listing returns an instance's history in order
+export const healthHistoryRepository = createRepository<HealthHistoryEntry>('health_history', {
+  key: e => `${e.instanceId}:${e.checkedAt}`,
+  columns: {
+    instance_id: e => e.instanceId,
+  },
+});
+
+export const maintenanceRepository = createRepository<Maintenance>('maintenances', {
+  key: m => m.id,
+  columns: {
+    status: m => m.status,
+    scheduled_start: m => m.scheduledStart,
+  },
+});
+
+export const dailyStatsRepository = createRepository<DailyStats>('daily_stats', {
+  key: s => s.date,
+});
+
+export const exportJobRepository = createRepository<ExportJob>('export_jobs', {
+  key: j => j.id,
+  columns: {
+    instance_id: j => j.instanceId,
+    status: j => j.status,
+    download_token: j => j.downloadToken,
+  },
+});
+
+export const userMigrationRepository = createRepository<UserMigrationJob>('user_migrations', {
+  key: j => j.id,
+  columns: {
+    visible_id: j => j.visibleId,
+    status: j => j.status,
+  },
+});
+
+export const sharedExportRepository = createRepository<SharedExportJob>('shared_exports', {
+  key: j => j.id,
+  columns: {
+    visible_id: j => j.visibleId,
+    status: j => j.status,
+    download_token: j => j.downloadToken,
+  },
+});
+
+export const scheduledJobRepository = createRepository<ScheduledJobState>('scheduled_jobs', {
+  key: j => j.name,
+});
+
+export const stripeEventRepository = createRepository<StripeEventRecord>('stripe_events', {
+  key: e => e.id,
+  columns: {
+    type: e => e.type,
+    status: e => e.status,
+  },
+});
+
+export const adminAccountRepository = createRepository<AdminAccount>('admin_accounts', {
+  key: a => a.id,
+  columns: {
+    name: a => a.name,
+    api_key_hash: a => a.apiKeyHash,
+  },
+});
+
+// Keys start with the timestamp, so listing returns entries in order
+export const auditLogRepository = createRepository<AuditLogEntry>('audit_log', {
+  key: e => e.id,
+  columns: {
+    actor_id: e => e.actorId,
+    target_id: e => e.targetId,
+  },
+});
+
+export const rateLimitRepository = createRepository<RateLimitCounter>('rate_limits', {
+  key: c => c.key,
+});
+
+export const emailVerificationRepository = createRepository<EmailVerification>('email_verifications', {
+  key: v => v.token,
+  columns: {
+    email: v => v.email,
+  },
+});
+
+// Keys start with the timestamp, so listing returns messages in order
+export const emailOutboxRepository = createRepository<OutboxEmail>('email_outbox', {
+  key: e => e.id,
+  columns: {
+    status: e => e.status,
+    recipient: e => e.to,
+  },
+});
+
+export const statusComponentRepository = createRepository<ComponentStatus>('status_components', {
+  key: c => c.id,
+});
+
+export const incidentRepository = createRepository<Incident>('status_incidents', {
+  key: i => i.id,
+  columns: {
+    status: i => i.status,
+  },
+});
+
+// One row per component and day
+export const uptimeRepository = createRepository<UptimeDay>('status_uptime', {
+  key: d => `${d.date}:${d.component}`,
+  columns: {
+    component: d => d.component,
+  },
+});
+
+export const statusSubscriberRepository = createRepository<StatusSubscriber>('status_subscribers', {
+  key: s => s.token,
+  columns: {
+    email: s => s.email,
+  },
+});
+
+// One referral per referred account
+export const referralRepository = createRepository<Referral>('referrals', {
+  key: r => r.referredId,
+  columns: {
+    referrer_id: r => r.referrerId,
+  },
+});
+
+// Keyed by the owner's visibleId
+export const householdRepository = createRepository<Household>('households', {
+  key: h => h.ownerId,
+});
+
+export const householdInviteRepository = createRepository<HouseholdInvite>('household_invites', {
+  key: i => i.token,
+  columns: {
+    household_id: i => i.householdId,
+    email: i => i.email,
+  },
+});
+
+// Paid Stripe invoices, listed by month for the revenue report
+export const invoiceRepository = createRepository<InvoiceRecord>('invoices', {
+  key: i => i.id,
+  columns: {
+    customer_id: i => i.customerId,
+    month: i => i.month,
+  },
+});
+
+// Keys end with the period start, so listing returns a user's snapshots in order
+export const usageSnapshotRepository = createRepository<UsageSnapshot>('usage_snapshots', {
+  key: s => `${s.visibleId}:${s.period}:${s.date}`,
+  columns: {
+    visible_id: s => s.visibleId,
+    period: s => s.period,
+  },
+});
+
+// Keys end with the backup name (its start time), so listing returns an instance's backups in order
+export const instanceBackupRepository = createRepository<InstanceBackup>('instance_backups', {
+  key: b => `${b.instanceId}:${b.name}`,
+  columns: {
+    instance_id: b => b.instanceId,
+    status: b => b.status,
+  },
+});
+
+export const backupRestoreRepository = createRepository<BackupRestore>('backup_restores', {
+  key: r => r.id,
+  columns: {
+    status: r => r.status,
+  },
+});
+
+export const reconcileRunRepository = createRepository<ReconcileRun>('reconcile_runs', {
+  key: r => r.id,
+  columns: {
+    status: r => r.status,
+  },
+});
+
+export const rolloutRepository = createRepository<Rollout>('release_rollouts', {
+  key: r => r.id,
+  columns: {
+    status: r => r.status,
+  },
+});
@@ -0,0 +1,337 @@
+// =============================================================================
+// Job Scheduler
+// =============================================================================
+// Durable scheduler for background work. Jobs are registered in code with a
+// cron expression; their run state (last/next run, failures, lock) lives in
+// the database, so missed runs are caught up after a restart and a job never
+// runs twice at the same time.
+
+import { scheduledJobRepository } from './repositories';
+
+const TICK_INTERVAL_MS = 30 * 1000;
+const DEFAULT_MAX_RETRIES = 3;
+const DEFAULT_LOCK_TTL_MS = 2 * 60 * 60 * 1000;
+const RETRY_BASE_DELAY_MS = 60 * 1000;
+const RETRY_MAX_DELAY_MS = 60 * 60 * 1000;
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface JobDefinition {
+  name: string;
+  // 5-field cron expression (minute hour day-of-month month day-of-week)
+  schedule: string;
+  handler: () => Promise<unknown>;
+  description?: string;
+  // Run on the first tick after the job is registered for the first time
+  runOnStartup?: boolean;
+  maxRetries?: number;
+  // A lock older than this is considered abandoned
+  lockTtlMs?: number;
+}
+
+export interface ScheduledJobState {
+  name: string;
+  schedule: string;
+  lastRunAt: string | null;
+  lastFinishedAt: string | null;
+  lastStatus: 'success' | 'failed' | null;
+  lastError: string | null;
+  lastDurationMs: number | null;
+  nextRunAt: string;
+  // Consecutive failed attempts of the current run
+  attempt: number;
+  lockedAt: string | null;
+  runCount: number;
+  failureCount: number;
+}
+
+export interface ScheduledJobInfo extends ScheduledJobState {
+  description?: string;
+  running: boolean;
+}
+
+const definitions = new Map<string, JobDefinition>();
+let tickTimer: ReturnType<typeof setInterval> | null = null;
+
+// =============================================================================
+// Cron Expressions
+// =============================================================================
+
+const CRON_FIELDS = [
+  { min: 0, max: 59 },  // minute
+  { min: 0, max: 23 },  // hour
+  { min: 1, max: 31 },  // day of month
+  { min: 1, max: 12 },  // month
+  { min: 0, max: 6 },   // day of week (0 = Sunday)
+];
+
+function parseCronField(field: string, min: number, max: number): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const [range, stepStr] = part.split('/');
+    const step = stepStr ? parseInt(stepStr, 10) : 1;
+    if (isNaN(step) || step < 1) {
+      throw new Error(`Invalid cron step: ${part}`);
+    }
+
+    let start = min;
+    let end = max;
+    if (range !== '*') {
+      const [a, b] = range.split('-').map(v => parseInt(v, 10));
+      start = a;
+      end = b !== undefined ? b : (stepStr ? max : a);
+    }
+    if (isNaN(start) || isNaN(end) || start < min || end > max || start > end) {
+      throw new Error(`Invalid cron field: ${field}`);
+    }
+
+    for (let v = start; v <= end; v += step) {
+      values.add(v);
+    }
+  }
+
+  return values;
+}
+
+function parseCron(expression: string): Set<number>[] {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Cron expression must have 5 fields: ${expression}`);
+  }
+  return fields.map((field, i) => parseCronField(field, CRON_FIELDS[i].min, CRON_FIELDS[i].max));
+}
+
+/**
+ * Next time strictly after `from` that matches the cron expression.
+ * Day-of-month and day-of-week are combined with OR when both are
+ * restricted, like classic cron.
+ */
+export function nextCronTime(expression: string, from: Date = new Date()): Date {
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parseCron(expression);
+  const [, , domField, , dowField] = expression.trim().split(/\s+/);
+  const domRestricted = domField !== '*';
+  const dowRestricted = dowField !== '*';
+
+  const date = new Date(from);
+  date.setSeconds(0, 0);
+  date.setMinutes(date.getMinutes() + 1);
+
+  // Four years covers February 29th
+  const limit = from.getTime() + 4 * 366 * 24 * 60 * 60 * 1000;
+  while (date.getTime() <= limit) {
+    if (!months.has(date.getMonth() + 1)) {
+      date.setMonth(date.getMonth() + 1, 1);
+      date.setHours(0, 0, 0, 0);
+      continue;
+    }
+
+    const domMatch = daysOfMonth.has(date.getDate());
+    const dowMatch = daysOfWeek.has(date.getDay());
+    const dayMatch = domRestricted && dowRestricted ? domMatch || dowMatch : domMatch && dowMatch;
+    if (!dayMatch) {
+      date.setDate(date.getDate() + 1);
+      date.setHours(0, 0, 0, 0);
+      continue;
+    }
+
+    if (!hours.has(date.getHours())) {
+      date.setHours(date.getHours() + 1, 0, 0, 0);
+      continue;
+    }
+
+    if (!minutes.has(date.getMinutes())) {
+      date.setMinutes(date.getMinutes() + 1, 0, 0);
+      continue;
+    }
+
+    return date;
+  }
+
+  throw new Error(`Cron expression never matches: ${expression}`);
+}
+
+// =============================================================================
+// Registration
+// =============================================================================
+
+export function registerJob(definition: JobDefinition): void {
+  parseCron(definition.schedule); // Fail fast on typos
+  definitions.set(definition.name, definition);
+
+  const existing = scheduledJobRepository.get(definition.name);
+  if (!existing) {
+    scheduledJobRepository.save({
+      name: definition.name,
+      schedule: definition.schedule,
+      lastRunAt: null,
+      lastFinishedAt: null,
+      lastStatus: null,
+      lastError: null,
+      lastDurationMs: null,
+      nextRunAt: definition.runOnStartup
+        ? new Date().toISOString()
+        : nextCronTime(definition.schedule).toISOString(),
+      attempt: 0,
+      lockedAt: null,
+      runCount: 0,
+      failureCount: 0,
+    });
+  } else if (existing.schedule !== definition.schedule) {
+    scheduledJobRepository.update(definition.name, s => {
+      s.schedule = definition.schedule;
+      s.nextRunAt = nextCronTime(definition.schedule).toISOString();
+    });
+  }
+}
+
+// =============================================================================
+// Execution
+// =============================================================================
+
+function isLocked(state: ScheduledJobState, definition: JobDefinition): boolean {
+  if (!state.lockedAt) return false;
+  const ttl = definition.lockTtlMs || DEFAULT_LOCK_TTL_MS;
+  return Date.now() - new Date(state.lockedAt).getTime() < ttl;
+}
+
+function retryDelay(attempt: number): number {
+  return Math.min(RETRY_BASE_DELAY_MS * Math.pow(2, attempt - 1), RETRY_MAX_DELAY_MS);
+}
+
+async function runJob(name: string): Promise<void> {
+  const definition = definitions.get(name);
+  if (!definition) return;
+
+  // Take the lock inside a transaction so two ticks can't both start the job
+  let acquired = false;
+  const startedAt = new Date();
+  scheduledJobRepository.update(name, s => {
+    if (isLocked(s, definition)) return;
+    s.lockedAt = startedAt.toISOString();
+    s.lastRunAt = startedAt.toISOString();
+    acquired = true;
+  });
+  if (!acquired) return;
+
+  let error: Error | null = null;
+  try {
+    await definition.handler();
+  } catch (err) {
+    error = err instanceof Error ? err : new Error(String(err));
+  }
+
+  const finishedAt = new Date();
+  const state = scheduledJobRepository.update(name, s => {
+    s.lockedAt = null;
+    s.lastFinishedAt = finishedAt.toISOString();
+    s.lastDurationMs = finishedAt.getTime() - startedAt.getTime();
+    s.runCount++;
+
+    if (!error) {
+      s.lastStatus = 'success';
+      s.lastError = null;
+      s.attempt = 0;
+      s.nextRunAt = nextCronTime(s.schedule, finishedAt).toISOString();
+      return;
+    }
+
+    s.lastStatus = 'failed';
+    s.lastError = error.message;
+    s.failureCount++;
+    s.attempt++;
+
+    const maxRetries = definition.maxRetries ?? DEFAULT_MAX_RETRIES;
+    const nextScheduled = nextCronTime(s.schedule, finishedAt);
+    if (s.attempt <= maxRetries) {
+      // Retry with exponential backoff, but never past the next regular run
+      const retryAt = new Date(finishedAt.getTime() + retryDelay(s.attempt));
+      s.nextRunAt = (retryAt < nextScheduled ? retryAt : nextScheduled).toISOString();
+    } else {
+      s.attempt = 0;
+      s.nextRunAt = nextScheduled.toISOString();
+    }
+  });
+
+  if (error) {
+    console.error(`Job ${name} failed (attempt ${state?.attempt || 'exhausted'}):`, error);
+  } else {
+    console.log(`Job ${name} completed in ${state?.lastDurationMs}ms`);
+  }
+}
+
+async function runDueJobs(): Promise<void> {
+  const now = Date.now();
+
+  for (const definition of definitions.values()) {
+    const state = scheduledJobRepository.get(definition.name);
+    if (!state || new Date(state.nextRunAt).getTime() > now) continue;
+    if (isLocked(state, definition)) continue;
+
+    // Jobs run concurrently with each other; the lock prevents overlap of the same job
+    runJob(definition.name).catch(err => console.error(`Job ${definition.name} crashed:`, err));
+  }
+}
+
+/**
+ * Start ticking. Locks left behind by a previous process are released first -
+ * only one automation server runs against the database.
+ */
+export function startScheduler(): void {
+  if (tickTimer) return;
+
+  for (const state of scheduledJobRepository.list()) {
+    if (state.lockedAt) {
+      scheduledJobRepository.update(state.name, s => {
+        s.lockedAt = null;
+      });
+    }
+  }
+
+  tickTimer = setInterval(() => {
+    runDueJobs().catch(err => console.error('Scheduler tick failed:', err));
+  }, TICK_INTERVAL_MS);
+
+  console.log(`Scheduler started with ${definitions.size} jobs`);
+}
+
+// =============================================================================
+// Admin API
+// =============================================================================
+
+export function listScheduledJobs(): ScheduledJobInfo[] {
+  const result: ScheduledJobInfo[] = [];
+
+  for (const definition of definitions.values()) {
+    const state = scheduledJobRepository.get(definition.name);
+    if (!state) continue;
+    result.push({
+      ...state,
+      description: definition.description,
+      running: isLocked(state, definition),
+    });
+  }
+
+  return result;
+}
+
+// Queue an immediate run; the job is picked up right away and, if the
+// process dies first, on the first tick after restart.
+export function triggerJob(name: string): { success: boolean; error?: string } {
+  const definition = definitions.get(name);
+  if (!definition) return { success: false, error: 'Job not found' };
+
+  const state = scheduledJobRepository.get(name);
+  if (state && isLocked(state, definition)) {
+    return { success: false, error: 'Job is already running' };
+  }
+
+  scheduledJobRepository.update(name, s => {
+    s.nextRunAt = new Date().toISOString();
+  });
+
+  runJob(name).catch(err => console.error(`Job ${name} crashed:`, err));
+  return { success: true };
+}
@@ -0,0 +1,613 @@
+// =============================================================================
+// Data Export for Shared-Mode Accounts (DSGVO Art. 20)
+// =============================================================================
+// Exports a single user's library from a shared instance, where their files
+// are mixed with everybody else's upload directory. Originals are pulled
+// through the Immich API and streamed into ZIP archives together with an XMP
+// sidecar per asset and a manifest.json describing albums, tags and people.
+// Libraries above PART_SIZE_BYTES are split into several archives.
+//
+// Like the library migration, the job acts as the user through a temporary
+// API key. It is created from the user's own password when they request the
+// export in the portal, and deleted once the job has finished. Exports made
+// before a grace period deletion have no password to start from and reset it
+// instead, the deletion email then hands out a new one.
+
+import { existsSync, mkdirSync } from 'fs';
+import { readFile, writeFile, rm } from 'fs/promises';
+import { join } from 'path';
+import { env } from './config';
+import {
+  immichRequest,
+  jsonBody,
+  adminKey,
+  loginAsUser,
+  createUserApiKey,
+  deleteUserApiKey,
+  downloadOriginal,
+  searchAssets,
+  listOwnAlbums,
+  listPeople,
+} from './immich-api';
+import type { ImmichAsset, ImmichTag } from './immich-api';
+import { generateExportToken } from './export';
+import { openZipWriter } from './zip-stream';
+import type { ZipWriter } from './zip-stream';
+import { sendExportReadyEmail } from './email';
+import { sharedExportRepository, sharedUserRepository } from './repositories';
+import type { SharedExportJob, SharedExportPart, SharedUser, ImmichUserResponse } from './types';
+
+const SHARED_EXPORTS_DIR = '/data/exports/shared';
+const EXPORT_EXPIRY_HOURS = 24;
+const EXPORT_INTERVAL_DAYS = 30;
+const PART_SIZE_BYTES = 50 * 1024 * 1024 * 1024;
+const MAX_ATTEMPTS = 3;
+const CHECKPOINT_EVERY = 25;
+const MANIFEST_FORMAT = 'sphoto-export/1';
+
+// What is exported, fixed when the job starts so a resumed job sees the same
+// asset order even if the user keeps uploading
+interface LibrarySnapshot {
+  assets: ImmichAsset[];
+  // Asset id -> path of the original inside the archive
+  paths: Record<string, string>;
+  albums: Array<{ name: string; description: string; assetIds: string[] }>;
+  tags: Array<{ value: string; assetIds: string[] }>;
+  people: Array<{ name: string; birthDate: string | null; assetIds: string[] }>;
+}
+
+function jobDir(jobId: string): string {
+  return join(SHARED_EXPORTS_DIR, jobId);
+}
+
+function isActive(job: SharedExportJob): boolean {
+  return job.status === 'pending' || job.status === 'exporting';
+}
+
+// =============================================================================
+// Job Lifecycle
+// =============================================================================
+
+/**
+ * Start an export for a shared user. The password is only used to create the
+ * job's API key and is not stored. Exports are limited to one per
+ * EXPORT_INTERVAL_DAYS, counted from the last completed one.
+ */
+export async function startSharedExport(
+  visibleId: string,
+  password: string
+): Promise<{ success: boolean; job?: SharedExportJob; error?: string }> {
+  const user = sharedUserRepository.get(visibleId);
+  if (!user || user.status === 'deleted') {
+    return { success: false, error: 'User not found' };
+  }
+
+  if (sharedExportRepository.listBy('visible_id', visibleId).some(isActive)) {
+    return { success: false, error: 'An export is already running' };
+  }
+
+  if (user.lastExportAt) {
+    const nextAllowed = new Date(user.lastExportAt).getTime() + EXPORT_INTERVAL_DAYS * 24 * 60 * 60 * 1000;
+    if (Date.now() < nextAllowed) {
+      return { success: false, error: `Only one export per ${EXPORT_INTERVAL_DAYS} days` };
+    }
+  }
+
+  const accessToken = await loginAsUser(user.instance, user.email, password);
+  if (!accessToken) {
+    return { success: false, error: 'Invalid password' };
+  }
+  const apiKey = await createUserApiKey(user.instance, accessToken, 'SPhoto export');
+
+  const job = sharedExportRepository.save({
+    id: `${visibleId}-${Date.now()}`,
+    visibleId,
+    email: user.email,
+    instance: user.instance,
+    status: 'pending',
+    created: new Date().toISOString(),
+    attempts: 0,
+    totalAssets: 0,
+    exportedAssets: 0,
+    skippedAssets: [],
+    parts: [],
+    apiKey,
+  });
+
+  console.log(`Shared export ${job.id} requested by ${user.email}`);
+  runSharedExport(job.id);
+
+  return { success: true, job };
+}
+
+/**
+ * Export the library of a user whose account is deleted at the end of their
+ * grace period. Starts the job on the first call, retries it while it fails
+ * and returns it once it is finished. Jobs created before `since` belong to an
+ * earlier grace period and are ignored.
+ */
+export async function prepareDeletionExport(
+  user: SharedUser,
+  since: string
+): Promise<{ ready: boolean; job?: SharedExportJob; error?: string }> {
+  const job = sharedExportRepository.listBy('visible_id', user.visibleId)
+    .filter(j => j.purpose === 'deletion' && j.created >= since)
+    .pop();
+
+  if (job?.status === 'completed') {
+    return { ready: true, job };
+  }
+  if (job && isActive(job)) {
+    return { ready: false };
+  }
+  if (job && job.attempts < MAX_ATTEMPTS && job.apiKey) {
+    runSharedExport(job.id);
+    return { ready: false, error: job.error };
+  }
+
+  // Reset the password so we can log in as the user
+  const password = crypto.randomUUID();
+  await immichRequest<ImmichUserResponse>(
+    user.instance,
+    adminKey(user.instance),
+    `/api/admin/users/${user.immichUserId}`,
+    jsonBody('PUT', { password })
+  );
+  const accessToken = await loginAsUser(user.instance, user.email, password);
+  if (!accessToken) {
+    return { ready: false, error: `Login as ${user.email} on ${user.instance} instance failed` };
+  }
+  const apiKey = await createUserApiKey(user.instance, accessToken, 'SPhoto export');
+
+  const created = sharedExportRepository.save({
+    id: `${user.visibleId}-${Date.now()}`,
+    visibleId: user.visibleId,
+    email: user.email,
+    instance: user.instance,
+    status: 'pending',
+    purpose: 'deletion',
+    created: new Date().toISOString(),
+    attempts: 0,
+    totalAssets: 0,
+    exportedAssets: 0,
+    skippedAssets: [],
+    parts: [],
+    apiKey,
+  });
+
+  console.log(`Shared export ${created.id} started before deleting ${user.email}`);
+  runSharedExport(created.id);
+
+  return { ready: false, error: job?.error };
+}
+
+// Deletion exports stay downloadable until the account is deleted
+export function keepSharedExportUntil(jobId: string, until: string): void {
+  sharedExportRepository.update(jobId, j => {
+    j.expiresAt = until;
+  });
+}
+
+export function sharedExportDownloadUrl(job: SharedExportJob): string {
+  return `https://api.${env.DOMAIN}/api/exports/${job.downloadToken}`;
+}
+
+// Run the job in the background; after the last attempt the key and the
+// partial archives are removed
+function runSharedExport(jobId: string): void {
+  processSharedExport(jobId).catch(async err => {
+    console.error(`Shared export ${jobId} failed:`, err);
+    const job = sharedExportRepository.update(jobId, j => {
+      j.status = 'failed';
+      j.error = err.message;
+    });
+    if (job && job.attempts >= MAX_ATTEMPTS) {
+      await discardJobFiles(job);
+    }
+  });
+}
+
+async function processSharedExport(jobId: string): Promise<void> {
+  const job = sharedExportRepository.update(jobId, j => {
+    j.status = 'exporting';
+    j.attempts++;
+    j.error = undefined;
+  });
+  if (!job || !job.apiKey) return;
+
+  const dir = jobDir(jobId);
+  mkdirSync(dir, { recursive: true });
+
+  console.log(`Exporting library of ${job.email} (attempt ${job.attempts})`);
+
+  const library = await loadLibrary(job, dir);
+  sharedExportRepository.update(jobId, j => {
+    j.totalAssets = library.assets.length;
+  });
+
+  const parts = [...job.parts];
+  const skipped = [...job.skippedAssets];
+  let exported = job.exportedAssets;
+
+  let part = parts[parts.length - 1];
+  let writer: ZipWriter;
+  if (part && !part.finished) {
+    writer = await openZipWriter(join(dir, part.file), { offset: part.size, entries: part.entries });
+  } else {
+    ({ part, writer } = await startPart(job, parts, exported + skipped.length));
+  }
+
+  const checkpoint = () => {
+    const { offset, entries } = writer.checkpoint();
+    part.size = offset;
+    part.entries = entries;
+    sharedExportRepository.update(jobId, j => {
+      j.parts = parts;
+      j.exportedAssets = exported;
+      j.skippedAssets = skipped;
+    });
+  };
+
+  try {
+    let sinceCheckpoint = 0;
+    for (const asset of library.assets.slice(exported + skipped.length)) {
+      const expected = asset.exifInfo?.fileSizeInByte || 0;
+      if (part.entries > 0 && writer.checkpoint().offset + expected > PART_SIZE_BYTES) {
+        checkpoint();
+        const finished = part;
+        await finishPart(job, finished, writer);
+        ({ part, writer } = await startPart(job, parts, exported + skipped.length));
+        checkpoint();
+        // Only needed to resume the part, which is now recorded as finished
+        await rm(join(dir, `${finished.file}.entries`), { force: true });
+        sinceCheckpoint = 0;
+      }
+
+      if (await exportAsset(job, writer, asset, library)) {
+        exported++;
+      } else {
+        skipped.push(asset.id);
+      }
+
+      if (++sinceCheckpoint >= CHECKPOINT_EVERY) {
+        checkpoint();
+        sinceCheckpoint = 0;
+      }
+    }
+
+    // Checkpoint before the manifest, a resumed job writes it again
+    checkpoint();
+    await writer.addFile('manifest.json', Buffer.from(buildManifest(job, library, parts, skipped)), new Date());
+    await finishPart(job, part, writer);
+  } catch (err) {
+    await writer.close().catch(() => {});
+    throw err;
+  }
+
+  // Done: publish the download and give the key back. Deletion exports get
+  // their expiry once the deletion is scheduled
+  const token = generateExportToken();
+  const fileSize = parts.reduce((sum, p) => sum + p.size, 0);
+  const deletion = job.purpose === 'deletion';
+  const completed = sharedExportRepository.update(jobId, j => {
+    j.status = 'completed';
+    j.completed = new Date().toISOString();
+    j.parts = parts;
+    j.exportedAssets = exported;
+    j.skippedAssets = skipped;
+    j.downloadToken = token;
+    j.expiresAt = deletion ? undefined : new Date(Date.now() + EXPORT_EXPIRY_HOURS * 60 * 60 * 1000).toISOString();
+    j.fileSize = fileSize;
+    j.apiKey = undefined;
+  });
+  await deleteUserApiKey(job.instance, job.apiKey)
+    .catch(err => console.error(`Failed to delete export API key for ${job.email}:`, err));
+  await rm(join(dir, 'library.json'), { force: true });
+  await rm(join(dir, `${part.file}.entries`), { force: true });
+
+  console.log(`Shared export ${jobId} completed: ${exported} assets, ${skipped.length} skipped, ${parts.length} part(s), ${fileSize} bytes`);
+  if (deletion || !completed) return;
+
+  sharedUserRepository.update(job.visibleId, u => {
+    u.lastExportAt = completed.completed;
+  });
+  await sendExportReadyEmail(job.email, job.visibleId, sharedExportDownloadUrl(completed), fileSize);
+}
+
+async function startPart(
+  job: SharedExportJob,
+  parts: SharedExportPart[],
+  firstAsset: number
+): Promise<{ part: SharedExportPart; writer: ZipWriter }> {
+  const part: SharedExportPart = {
+    file: `sphoto-export-${job.visibleId}-part${parts.length + 1}.zip`,
+    firstAsset,
+    entries: 0,
+    size: 0,
+    finished: false,
+  };
+  parts.push(part);
+  const writer = await openZipWriter(join(jobDir(job.id), part.file));
+  return { part, writer };
+}
+
+async function finishPart(job: SharedExportJob, part: SharedExportPart, writer: ZipWriter): Promise<void> {
+  part.entries = writer.checkpoint().entries;
+  part.size = await writer.finish();
+  part.finished = true;
+  console.log(`Shared export ${job.id}: ${part.file} finished (${part.entries} entries, ${part.size} bytes)`);
+}
+
+// =============================================================================
+// Library Snapshot
+// =============================================================================
+
+async function loadLibrary(job: SharedExportJob, dir: string): Promise<LibrarySnapshot> {
+  const snapshotPath = join(dir, 'library.json');
+  if (existsSync(snapshotPath)) {
+    return JSON.parse(await readFile(snapshotPath, 'utf8')) as LibrarySnapshot;
+  }
+
+  const user = sharedUserRepository.get(job.visibleId);
+  if (!user) throw new Error('User not found');
+
+  const key = job.apiKey!.secret;
+  const assets = await searchAssets(job.instance, key);
+  const exportedIds = new Set(assets.map(a => a.id));
+  const memberIds = (members: ImmichAsset[]) => members.map(a => a.id).filter(id => exportedIds.has(id));
+
+  const albums: LibrarySnapshot['albums'] = [];
+  for (const album of await listOwnAlbums(job.instance, key, user.immichUserId)) {
+    const members = await searchAssets(job.instance, key, { albumIds: [album.id] });
+    albums.push({ name: album.albumName, description: album.description, assetIds: memberIds(members) });
+  }
+
+  const tags: LibrarySnapshot['tags'] = [];
+  for (const tag of await immichRequest<ImmichTag[]>(job.instance, key, '/api/tags')) {
+    const members = await searchAssets(job.instance, key, { tagIds: [tag.id] });
+    tags.push({ value: tag.value, assetIds: memberIds(members) });
+  }
+
+  // Unnamed face clusters carry no information worth exporting
+  const people: LibrarySnapshot['people'] = [];
+  for (const person of (await listPeople(job.instance, key)).filter(p => p.name)) {
+    const members = await searchAssets(job.instance, key, { personIds: [person.id] });
+    people.push({ name: person.name, birthDate: person.birthDate, assetIds: memberIds(members) });
+  }
+
+  const library: LibrarySnapshot = { assets, paths: archivePaths(assets), albums, tags, people };
+  await writeFile(snapshotPath, JSON.stringify(library));
+  return library;
+}
+
+// originals/YYYY/MM/<file name>, by capture date; clashing names get the asset id
+function archivePaths(assets: ImmichAsset[]): Record<string, string> {
+  const paths: Record<string, string> = {};
+  const taken = new Set<string>();
+
+  for (const asset of assets) {
+    const date = asset.localDateTime || asset.fileCreatedAt;
+    const folder = `originals/${date.slice(0, 4)}/${date.slice(5, 7)}`;
+    const fileName = asset.originalFileName.replace(/[/\\]/g, '_') || asset.id;
+    let path = `${folder}/${fileName}`;
+    if (taken.has(path.toLowerCase())) {
+      const dot = fileName.lastIndexOf('.');
+      const [base, ext] = dot > 0 ? [fileName.slice(0, dot), fileName.slice(dot)] : [fileName, ''];
+      path = `${folder}/${base}_${asset.id.slice(0, 8)}${ext}`;
+    }
+    taken.add(path.toLowerCase());
+    paths[asset.id] = path;
+  }
+
+  return paths;
+}
+
+// =============================================================================
+// Archive Contents
+// =============================================================================
+
+// Resolves false if Immich no longer has the original; other errors abort
+// the attempt so the job is retried from its last checkpoint
+async function exportAsset(
+  job: SharedExportJob,
+  writer: ZipWriter,
+  asset: ImmichAsset,
+  library: LibrarySnapshot
+): Promise<boolean> {
+  const response = await downloadOriginal(job.instance, job.apiKey!.secret, asset.id);
+  if (response.status === 404) {
+    console.warn(`Shared export ${job.id}: original of ${asset.id} not found, skipping`);
+    return false;
+  }
+  if (!response.ok || !response.body) {
+    throw new Error(`Download of ${asset.id} failed: ${response.status}`);
+  }
+
+  const path = library.paths[asset.id];
+  const modified = new Date(asset.fileCreatedAt);
+  await writer.addFile(path, response.body, modified);
+  await writer.addFile(`${path}.xmp`, Buffer.from(buildSidecar(asset, library)), modified);
+  return true;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// XMP GPS notation: DDD,MM.mmmmmmR
+function xmpCoordinate(value: number, positive: string, negative: string): string {
+  const abs = Math.abs(value);
+  const degrees = Math.floor(abs);
+  const minutes = (abs - degrees) * 60;
+  return `${degrees},${minutes.toFixed(6)}${value < 0 ? negative : positive}`;
+}
+
+function xmpBag(tag: string, values: string[]): string {
+  if (values.length === 0) return '';
+  const items = values.map(v => `     <rdf:li>${escapeXml(v)}</rdf:li>`).join('\n');
+  return `   <${tag}>\n    <rdf:Bag>\n${items}\n    </rdf:Bag>\n   </${tag}>\n`;
+}
+
+// Sidecar with what Immich knows beyond the original's embedded metadata,
+// readable by digiKam, Lightroom, darktable and Immich itself
+function buildSidecar(asset: ImmichAsset, library: LibrarySnapshot): string {
+  const exif = asset.exifInfo || {};
+  const tags = library.tags.filter(t => t.assetIds.includes(asset.id)).map(t => t.value);
+  const people = library.people.filter(p => p.assetIds.includes(asset.id)).map(p => p.name);
+
+  let properties = '';
+  if (exif.description) {
+    properties += `   <dc:description>\n    <rdf:Alt>\n     <rdf:li xml:lang="x-default">${escapeXml(exif.description)}</rdf:li>\n    </rdf:Alt>\n   </dc:description>\n`;
+  }
+  if (exif.rating != null) {
+    properties += `   <xmp:Rating>${exif.rating}</xmp:Rating>\n`;
+  }
+  properties += `   <photoshop:DateCreated>${escapeXml(exif.dateTimeOriginal || asset.fileCreatedAt)}</photoshop:DateCreated>\n`;
+  if (exif.latitude != null && exif.longitude != null) {
+    properties += `   <exif:GPSLatitude>${xmpCoordinate(exif.latitude, 'N', 'S')}</exif:GPSLatitude>\n`;
+    properties += `   <exif:GPSLongitude>${xmpCoordinate(exif.longitude, 'E', 'W')}</exif:GPSLongitude>\n`;
+  }
+  properties += xmpBag('dc:subject', tags);
+  properties += xmpBag('Iptc4xmpExt:PersonInImage', people);
+
+  return `<?xpacket begin="﻿" id="W5M0MpCehiHzreSzNTczkc9d"?>
+<x:xmpmeta xmlns:x="adobe:ns:meta/">
+ <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">
+  <rdf:Description rdf:about=""
+    xmlns:dc="http://purl.org/dc/elements/1.1/"
+    xmlns:xmp="http://ns.adobe.com/xap/1.0/"
+    xmlns:exif="http://ns.adobe.com/exif/1.0/"
+    xmlns:photoshop="http://ns.adobe.com/photoshop/1.0/"
+    xmlns:Iptc4xmpExt="http://iptc.org/std/Iptc4xmpExt/2008-02-29/">
+${properties}  </rdf:Description>
+ </rdf:RDF>
+</x:xmpmeta>
+<?xpacket end="w"?>
+`;
+}
+
+function buildManifest(
+  job: SharedExportJob,
+  library: LibrarySnapshot,
+  parts: SharedExportPart[],
+  skipped: string[]
+): string {
+  const skippedIds = new Set(skipped);
+  const pathsOf = (assetIds: string[]) => assetIds.filter(id => !skippedIds.has(id)).map(id => library.paths[id]);
+  const partOf = (index: number) => parts.filter(p => p.firstAsset <= index).pop()!.file;
+  const user = sharedUserRepository.get(job.visibleId);
+
+  return JSON.stringify({
+    format: MANIFEST_FORMAT,
+    exportedAt: new Date().toISOString(),
+    account: {
+      email: job.email,
+      tier: user?.tier,
+      created: user?.created,
+    },
+    parts: parts.map(p => p.file),
+    assets: library.assets.map((a, index) => ({ asset: a, index })).filter(({ asset }) => !skippedIds.has(asset.id)).map(({ asset: a, index }) => ({
+      id: a.id,
+      path: library.paths[a.id],
+      part: partOf(index),
+      originalFileName: a.originalFileName,
+      type: a.type,
+      checksum: a.checksum,
+      fileCreatedAt: a.fileCreatedAt,
+      localDateTime: a.localDateTime,
+      isFavorite: a.isFavorite,
+      visibility: a.visibility,
+      description: a.exifInfo?.description || undefined,
+      rating: a.exifInfo?.rating ?? undefined,
+      livePhotoVideoId: a.livePhotoVideoId || undefined,
+    })),
+    albums: library.albums.map(a => ({ name: a.name, description: a.description, assets: pathsOf(a.assetIds) })),
+    tags: library.tags.map(t => ({ value: t.value, assets: pathsOf(t.assetIds) })),
+    people: library.people.map(p => ({ name: p.name, birthDate: p.birthDate, assets: pathsOf(p.assetIds) })),
+    skipped: library.assets.filter(a => skippedIds.has(a.id)).map(a => ({ id: a.id, originalFileName: a.originalFileName })),
+  }, null, 2);
+}
+
+// =============================================================================
+// Downloads, Queries & Recovery
+// =============================================================================
+
+export function getSharedExportByToken(token: string): { job: SharedExportJob; files: string[] } | null {
+  const job = sharedExportRepository.findBy('download_token', token);
+  if (!job || job.status !== 'completed') return null;
+  if (new Date(job.expiresAt || 0) < new Date()) return null;
+
+  const files = job.parts.map(p => join(jobDir(job.id), p.file));
+  return files.every(f => existsSync(f)) ? { job, files } : null;
+}
+
+export function listSharedExports(visibleId?: string): SharedExportJob[] {
+  const jobs = visibleId ? sharedExportRepository.listBy('visible_id', visibleId) : sharedExportRepository.list();
+  // Never hand out the user's API key
+  return jobs.map(({ apiKey, ...job }) => job);
+}
+
+// Latest export for the portal dashboard
+export function getPortalExportInfo(visibleId: string): {
+  status: SharedExportJob['status'];
+  created: string;
+  totalAssets: number;
+  exportedAssets: number;
+  downloadUrl?: string;
+  expiresAt?: string;
+  fileSize?: number;
+} | null {
+  const job = sharedExportRepository.listBy('visible_id', visibleId).pop();
+  if (!job) return null;
+
+  const downloadable = job.status === 'completed' && !!job.downloadToken;
+  return {
+    status: job.status,
+    created: job.created,
+    totalAssets: job.totalAssets,
+    exportedAssets: job.exportedAssets,
+    downloadUrl: downloadable ? sharedExportDownloadUrl(job) : undefined,
+    expiresAt: downloadable ? job.expiresAt : undefined,
+    fileSize: job.fileSize,
+  };
+}
+
+async function discardJobFiles(job: SharedExportJob): Promise<void> {
+  if (job.apiKey) {
+    await deleteUserApiKey(job.instance, job.apiKey)
+      .catch(err => console.error(`Failed to delete export API key for ${job.email}:`, err));
+    sharedExportRepository.update(job.id, j => {
+      j.apiKey = undefined;
+    });
+  }
+  await rm(jobDir(job.id), { recursive: true, force: true });
+}
+
+// Resume jobs interrupted by a restart, and retry failed ones a few times
+export function resumeSharedExports(): number {
+  const resumable = sharedExportRepository.list().filter(j =>
+    isActive(j) || (j.status === 'failed' && j.attempts < MAX_ATTEMPTS && !!j.apiKey)
+  );
+
+  for (const job of resumable) {
+    console.log(`Resuming shared export ${job.id} (${job.exportedAssets}/${job.totalAssets} assets exported)`);
+    runSharedExport(job.id);
+  }
+
+  return resumable.length;
+}
+
+// Delete expired archives and their job records (run by the scheduler)
+export async function cleanupExpiredSharedExports(): Promise<void> {
+  for (const job of sharedExportRepository.listBy('status', 'completed')) {
+    if (job.expiresAt && new Date(job.expiresAt) < new Date()) {
+      await rm(jobDir(job.id), { recursive: true, force: true });
+      sharedExportRepository.delete(job.id);
+      console.log(`Cleaned up expired shared export: ${job.id}`);
+    }
+  }
+}
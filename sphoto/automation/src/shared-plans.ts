@@ -0,0 +1,361 @@
+// =============================================================================
+// Self-Service Plan Changes (Shared Mode)
+// =============================================================================
+// Paid users switch between Basic, Pro and Family and buy storage add-on
+// blocks from the portal. The Stripe subscription is the source of truth: one
+// plan item plus an optional add-on item, and the Immich quota is the plan
+// storage plus the add-on blocks. The subscription webhook applies the same
+// calculation, so changes made in the Stripe dashboard end up in Immich as
+// well. Changes keep the billing interval: a yearly Basic subscription moves
+// to yearly Pro. Family plans count the pooled usage of the whole household.
+
+import Stripe from 'stripe';
+import { env, PLANS, PLAN_CATALOG, STORAGE_ADDON, TAX } from './config';
+import { getSharedUser, getSharedUserStats, updateSharedUserTier } from './shared-users';
+import { sendPlanChangeEmail } from './email';
+import { getHouseholdUsedGB, isHouseholdMember, listHouseholdAccounts } from './households';
+import type { SharedUser, PaidTier, BillingInterval } from './types';
+
+const stripe = new Stripe(env.STRIPE_SECRET_KEY);
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface SubscriptionPlan {
+  tier: PaidTier;
+  planName: string;
+  interval: BillingInterval;
+  addonBlocks: number;
+  quotaGB: number;               // Plan storage plus add-on blocks
+}
+
+export interface PlanPrice {
+  amount: number;                // Smallest currency unit (Rappen)
+  currency: string;
+  interval?: string;
+}
+
+export interface PlanOverview {
+  current: SubscriptionPlan;
+  usedGB: number;
+  plans: Array<{ tier: PaidTier; name: string; storageGB: number; price?: PlanPrice }>;
+  addon: { available: boolean; blockGB: number; maxBlocks: number; price?: PlanPrice };
+  canChange: boolean;
+  reason?: string;
+}
+
+export interface PlanChangePreview {
+  from: SubscriptionPlan;
+  to: SubscriptionPlan;
+  usedGB: number;
+  possible: boolean;
+  reason?: string;
+  // Prorated charge for the rest of the current period, negative for a credit
+  prorationAmount?: number;
+  nextInvoiceAmount?: number;
+  nextInvoiceAt?: string;
+  currency?: string;
+}
+
+export interface PlanChangeRequest {
+  tier?: PaidTier;
+  addonBlocks?: number;
+}
+
+interface PlanChangeContext {
+  user: SharedUser;
+  subscription: Stripe.Subscription;
+  current: SubscriptionPlan;
+}
+
+const PAID_TIERS: PaidTier[] = ['basic', 'pro', 'family'];
+
+// =============================================================================
+// Subscription Items
+// =============================================================================
+
+function priceIdForTier(tier: PaidTier, interval: BillingInterval): string {
+  return PLAN_CATALOG[tier].prices[interval];
+}
+
+// Other items on the subscription are left alone
+function findItems(subscription: Stripe.Subscription): {
+  planItem?: Stripe.SubscriptionItem;
+  addonItem?: Stripe.SubscriptionItem;
+} {
+  return {
+    planItem: subscription.items.data.find(item => PLANS[item.price.id]),
+    addonItem: subscription.items.data.find(item => Object.values(STORAGE_ADDON.prices).includes(item.price.id)),
+  };
+}
+
+function buildPlan(tier: PaidTier, interval: BillingInterval, addonBlocks: number): SubscriptionPlan {
+  const plan = PLAN_CATALOG[tier];
+  return {
+    tier,
+    planName: plan.name,
+    interval,
+    addonBlocks,
+    quotaGB: plan.storage + addonBlocks * STORAGE_ADDON.blockGB,
+  };
+}
+
+/**
+ * Plan, add-on blocks and resulting quota of a subscription, or null if it
+ * has no item with a known plan price.
+ */
+export function getSubscriptionPlan(subscription: Stripe.Subscription): SubscriptionPlan | null {
+  const { planItem, addonItem } = findItems(subscription);
+  if (!planItem) return null;
+
+  const plan = PLANS[planItem.price.id];
+  return buildPlan(plan.tier, plan.interval, addonItem?.quantity ?? 0);
+}
+
+function itemChanges(subscription: Stripe.Subscription, target: SubscriptionPlan): Stripe.SubscriptionUpdateParams.Item[] {
+  const { planItem, addonItem } = findItems(subscription);
+  const items: Stripe.SubscriptionUpdateParams.Item[] = [];
+
+  const priceId = priceIdForTier(target.tier, target.interval);
+  if (planItem && planItem.price.id !== priceId) {
+    items.push({ id: planItem.id, price: priceId });
+  }
+
+  if (addonItem && target.addonBlocks === 0) {
+    items.push({ id: addonItem.id, deleted: true });
+  } else if (addonItem && addonItem.quantity !== target.addonBlocks) {
+    items.push({ id: addonItem.id, quantity: target.addonBlocks });
+  } else if (!addonItem && target.addonBlocks > 0) {
+    items.push({ price: STORAGE_ADDON.prices[target.interval], quantity: target.addonBlocks });
+  }
+
+  return items;
+}
+
+// =============================================================================
+// Checks
+// =============================================================================
+
+// Customer-facing reason why the account can't change its plan right now
+function ineligibleReason(user: SharedUser): string | undefined {
+  if (user.status !== 'active') return 'Dein Account ist nicht aktiv.';
+  if (user.billingStatus === 'past_due' || user.billingStatus === 'suspended') {
+    return 'Bitte begleiche zuerst die offene Zahlung.';
+  }
+  if (user.migrationJobId) return 'Deine Fotos werden gerade übertragen. Bitte versuche es später erneut.';
+  return undefined;
+}
+
+async function loadContext(visibleId: string): Promise<{ context?: PlanChangeContext; error?: string }> {
+  const user = getSharedUser(visibleId);
+  if (!user) return { error: 'User not found' };
+  if (isHouseholdMember(user)) return { error: 'Der Plan wird vom Inhaber des Familien-Plans verwaltet.' };
+  if (user.instance !== 'paid' || user.tier === 'free' || !user.stripeSubscriptionId) {
+    return { error: 'Nur für bezahlte Pläne verfügbar.' };
+  }
+
+  const subscription = await stripe.subscriptions.retrieve(user.stripeSubscriptionId);
+  const current = getSubscriptionPlan(subscription);
+  if (!current) return { error: 'Abo enthält keinen bekannten Plan.' };
+
+  return { context: { user, subscription, current } };
+}
+
+function resolveTarget(current: SubscriptionPlan, request: PlanChangeRequest): { target?: SubscriptionPlan; error?: string } {
+  const tier = request.tier ?? current.tier;
+  if (!PAID_TIERS.includes(tier)) {
+    return { error: `tier must be one of: ${PAID_TIERS.join(', ')}` };
+  }
+  if (!priceIdForTier(tier, current.interval)) {
+    return { error: 'Dieser Plan ist für dein Abrechnungsintervall nicht verfügbar.' };
+  }
+
+  const addonBlocks = request.addonBlocks ?? current.addonBlocks;
+  if (!Number.isInteger(addonBlocks) || addonBlocks < 0 || addonBlocks > STORAGE_ADDON.maxBlocks) {
+    return { error: `addonBlocks must be between 0 and ${STORAGE_ADDON.maxBlocks}` };
+  }
+  if (addonBlocks > 0 && !STORAGE_ADDON.prices[current.interval]) {
+    return { error: 'Zusatzspeicher ist derzeit nicht verfügbar.' };
+  }
+
+  if (tier === current.tier && addonBlocks === current.addonBlocks) {
+    return { error: 'Keine Änderung ausgewählt.' };
+  }
+  return { target: buildPlan(tier, current.interval, addonBlocks) };
+}
+
+// Same rule as checkDowngradePossible for siloed instances: the library has
+// to fit into the smaller quota (plus the referral bonus) before it can be reduced
+function usageBlockReason(usedGB: number, from: SubscriptionPlan, to: SubscriptionPlan, bonusGB = 0): string | undefined {
+  const limitGB = to.quotaGB + bonusGB;
+  if (to.quotaGB >= from.quotaGB || usedGB < limitGB) return undefined;
+  return `Aktuelle Nutzung: ${usedGB.toFixed(1)} GB. Neues Limit: ${limitGB} GB. Bitte lösche ${(usedGB - limitGB).toFixed(1)} GB.`;
+}
+
+// Members have to be removed before switching to a plan with fewer accounts
+function householdBlockReason(user: SharedUser, to: SubscriptionPlan): string | undefined {
+  if (!user.householdId) return undefined;
+  const accounts = listHouseholdAccounts(user.householdId).length;
+  const maxMembers = PLAN_CATALOG[to.tier].maxMembers ?? 1;
+  if (accounts <= maxMembers) return undefined;
+  return `Dein Familien-Plan hat ${accounts} Accounts. Bitte entferne zuerst ${accounts - maxMembers} Mitglieder.`;
+}
+
+async function getUsedGB(visibleId: string): Promise<number | null> {
+  const householdId = getSharedUser(visibleId)?.householdId;
+  if (householdId) return getHouseholdUsedGB(householdId);
+
+  const result = await getSharedUserStats(visibleId);
+  return result.success && result.stats ? result.stats.usedGB : null;
+}
+
+async function getPrice(priceId: string): Promise<PlanPrice | undefined> {
+  if (!priceId) return undefined;
+  try {
+    const price = await stripe.prices.retrieve(priceId);
+    return { amount: price.unit_amount ?? 0, currency: price.currency, interval: price.recurring?.interval };
+  } catch {
+    return undefined;
+  }
+}
+
+// =============================================================================
+// Portal API
+// =============================================================================
+
+export async function getPlanOverview(visibleId: string): Promise<{ success: boolean; overview?: PlanOverview; error?: string }> {
+  const { context, error } = await loadContext(visibleId);
+  if (!context) return { success: false, error };
+
+  const { interval } = context.current;
+  const tiers = PAID_TIERS.filter(tier => priceIdForTier(tier, interval));
+  const [usedGB, addonPrice, ...tierPrices] = await Promise.all([
+    getUsedGB(visibleId),
+    getPrice(STORAGE_ADDON.prices[interval]),
+    ...tiers.map(tier => getPrice(priceIdForTier(tier, interval))),
+  ]);
+  const reason = ineligibleReason(context.user);
+
+  return {
+    success: true,
+    overview: {
+      current: context.current,
+      usedGB: usedGB ?? 0,
+      plans: tiers.map((tier, i) => ({
+        tier,
+        name: PLAN_CATALOG[tier].name,
+        storageGB: PLAN_CATALOG[tier].storage,
+        price: tierPrices[i],
+      })),
+      addon: {
+        available: Boolean(STORAGE_ADDON.prices[interval]),
+        blockGB: STORAGE_ADDON.blockGB,
+        maxBlocks: STORAGE_ADDON.maxBlocks,
+        price: addonPrice,
+      },
+      canChange: !reason,
+      reason,
+    },
+  };
+}
+
+/**
+ * What a plan or add-on change would cost. Prorations are what Stripe will
+ * add to the next invoice for the rest of the current period.
+ */
+export async function previewPlanChange(
+  visibleId: string,
+  request: PlanChangeRequest
+): Promise<{ success: boolean; preview?: PlanChangePreview; error?: string }> {
+  const { context, error } = await loadContext(visibleId);
+  if (!context) return { success: false, error };
+
+  const { target, error: targetError } = resolveTarget(context.current, request);
+  if (!target) return { success: false, error: targetError };
+
+  const usedGB = await getUsedGB(visibleId);
+  const reason = ineligibleReason(context.user)
+    ?? householdBlockReason(context.user, target)
+    ?? (usedGB === null ? undefined : usageBlockReason(usedGB, context.current, target, context.user.bonusGB));
+
+  const preview: PlanChangePreview = {
+    from: context.current,
+    to: target,
+    usedGB: usedGB ?? 0,
+    possible: !reason,
+    reason,
+  };
+
+  if (!reason) {
+    const invoice = await stripe.invoices.createPreview({
+      customer: context.user.stripeCustomerId,
+      subscription: context.subscription.id,
+      subscription_details: {
+        items: itemChanges(context.subscription, target),
+        proration_behavior: 'create_prorations',
+      },
+      ...(TAX.mode === 'automatic' ? { automatic_tax: { enabled: true } } : {}),
+    });
+    preview.prorationAmount = invoice.lines.data
+      .filter(line => line.proration)
+      .reduce((sum, line) => sum + line.amount, 0);
+    preview.nextInvoiceAmount = invoice.amount_due;
+    preview.nextInvoiceAt = invoice.next_payment_attempt
+      ? new Date(invoice.next_payment_attempt * 1000).toISOString()
+      : undefined;
+    preview.currency = invoice.currency;
+  }
+
+  return { success: true, preview };
+}
+
+export async function changePlan(
+  visibleId: string,
+  request: PlanChangeRequest
+): Promise<{ success: boolean; plan?: SubscriptionPlan; error?: string }> {
+  const { context, error } = await loadContext(visibleId);
+  if (!context) return { success: false, error };
+
+  const ineligible = ineligibleReason(context.user);
+  if (ineligible) return { success: false, error: ineligible };
+
+  const { target, error: targetError } = resolveTarget(context.current, request);
+  if (!target) return { success: false, error: targetError };
+
+  const householdBlock = householdBlockReason(context.user, target);
+  if (householdBlock) return { success: false, error: householdBlock };
+
+  // Never shrink the quota below what is stored without knowing the usage
+  if (target.quotaGB < context.current.quotaGB) {
+    const usedGB = await getUsedGB(visibleId);
+    if (usedGB === null) return { success: false, error: 'Speichernutzung konnte nicht geprüft werden.' };
+    const reason = usageBlockReason(usedGB, context.current, target, context.user.bonusGB);
+    if (reason) return { success: false, error: reason };
+  }
+
+  try {
+    await stripe.subscriptions.update(context.subscription.id, {
+      items: itemChanges(context.subscription, target),
+      proration_behavior: 'create_prorations',
+    });
+  } catch (err) {
+    console.error('Stripe plan change error:', err);
+    return { success: false, error: 'Stripe subscription update failed' };
+  }
+
+  // The subscription webhook may have applied the change already
+  const user = getSharedUser(visibleId)!;
+  if (user.tier !== target.tier || user.quotaGB !== target.quotaGB) {
+    const result = await updateSharedUserTier(visibleId, target.tier, target.quotaGB);
+    if (!result.success) {
+      // Stripe has the new plan; the webhook retries the quota update
+      console.error(`Quota update after plan change failed for ${visibleId}: ${result.error}`);
+    } else {
+      await sendPlanChangeEmail(user.email, target.planName, target.quotaGB, 'paid');
+    }
+  }
+
+  console.log(`Plan of ${visibleId} changed: ${context.current.planName} +${context.current.addonBlocks} -> ${target.planName} +${target.addonBlocks}`);
+  return { success: true, plan: target };
+}
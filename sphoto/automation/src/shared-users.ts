@@ -3,8 +3,6 @@
 // =============================================================================
 // Manages users on the 2 shared Immich instances (free + paid)
 
-import { existsSync, mkdirSync, readFileSync, writeFileSync, readdirSync } from 'fs';
-import { join } from 'path';
 import type {
   SharedUser,
   SharedUserCreateResult,
@@ -12,15 +10,14 @@ import type {
   UserTier,
   ImmichUserResponse,
   ImmichUserCreateDto,
+  ImmichUserFeatures,
+  Locale,
 } from './types';
-import { SHARED_INSTANCES, FREE_TIER, INSTANCES_DIR } from './config';
-
-const USERS_DIR = join(INSTANCES_DIR, '_shared_users');
-
-// Ensure users directory exists
-if (!existsSync(USERS_DIR)) {
-  mkdirSync(USERS_DIR, { recursive: true });
-}
+import { SHARED_INSTANCES, FREE_TIER, EMAIL } from './config';
+import { sharedUserRepository } from './repositories';
+import { normalizeEmail } from './abuse-protection';
+import { checkMigrationPreconditions, startUserMigration } from './user-migration';
+import { syncHousehold } from './households';
 
 // =============================================================================
 // Helper Functions
@@ -41,10 +38,6 @@ function generateVisibleId(email: string): string {
   return `${base}-${suffix}`;
 }
 
-function getUserFilePath(visibleId: string): string {
-  return join(USERS_DIR, `${visibleId}.json`);
-}
-
 function getInstanceConfig(instance: 'free' | 'paid') {
   return instance === 'free' ? SHARED_INSTANCES.free : SHARED_INSTANCES.paid;
 }
@@ -58,6 +51,30 @@ function tierToQuotaGB(tier: UserTier, planStorageGB?: number): number {
   return planStorageGB || SHARED_INSTANCES.paid.defaultQuotaGB;
 }
 
+// Free has no ML, every paid tier gets all of it
+function tierHasML(tier: UserTier): boolean {
+  return tier !== 'free';
+}
+
+function tierToFeatures(tier: UserTier): ImmichUserFeatures {
+  const enabled = tierHasML(tier);
+  return {
+    smartSearch: enabled,
+    facialRecognition: enabled,
+    ocr: enabled,
+    duplicateDetection: enabled,
+  };
+}
+
+export function gbToBytes(gb: number): number {
+  return Number(BigInt(gb) * BigInt(1024) * BigInt(1024) * BigInt(1024));
+}
+
+// Quota set in Immich: the plan quota plus any referral bonus
+export function effectiveQuotaGB(user: SharedUser, planQuotaGB = user.quotaGB): number {
+  return planQuotaGB + (user.bonusGB || 0);
+}
+
 // =============================================================================
 // Immich API Helpers
 // =============================================================================
@@ -97,6 +114,28 @@ async function immichApiCall<T>(
   }
 }
 
+// Immich skips ML jobs and smart search for users whose features are off, so
+// the plan is enforced per user and not only by the instance a user lives on.
+// Failures are logged but not fatal: the free instance has no ML anyway.
+async function setImmichUserFeatures(
+  instance: 'free' | 'paid',
+  immichUserId: string,
+  tier: UserTier
+): Promise<void> {
+  const result = await immichApiCall<ImmichUserFeatures>(
+    instance,
+    `/api/admin/users/${immichUserId}/features`,
+    {
+      method: 'PUT',
+      body: JSON.stringify(tierToFeatures(tier)),
+    }
+  );
+
+  if (!result.ok) {
+    console.warn(`Could not set ML features for Immich user ${immichUserId} (${instance}): ${result.error}`);
+  }
+}
+
 // =============================================================================
 // User CRUD Operations
 // =============================================================================
@@ -137,6 +176,8 @@ export async function createSharedUser(
     return { success: false, error: result.error || 'Failed to create user in Immich' };
   }
 
+  await setImmichUserFeatures(instance, result.data.id, tier);
+
   // Save user metadata
   const user: SharedUser = {
     id: crypto.randomUUID(),
@@ -150,7 +191,7 @@ export async function createSharedUser(
     status: 'active',
   };
 
-  writeFileSync(getUserFilePath(visibleId), JSON.stringify(user, null, 2));
+  sharedUserRepository.save(user);
   console.log(`User ${email} created successfully on ${instance} instance`);
 
   return {
@@ -161,27 +202,19 @@ export async function createSharedUser(
 }
 
 export function getSharedUser(visibleId: string): SharedUser | null {
-  const filePath = getUserFilePath(visibleId);
-  if (!existsSync(filePath)) return null;
-  return JSON.parse(readFileSync(filePath, 'utf-8'));
+  return sharedUserRepository.get(visibleId);
 }
 
 export function getSharedUserByEmail(email: string): SharedUser | null {
-  const users = listSharedUsers();
-  return users.find(u => u.email === email) || null;
+  return sharedUserRepository.findBy('email', normalizeEmail(email));
 }
 
 export function getSharedUserByImmichId(immichUserId: string): SharedUser | null {
-  const users = listSharedUsers();
-  return users.find(u => u.immichUserId === immichUserId) || null;
+  return sharedUserRepository.findBy('immich_user_id', immichUserId);
 }
 
 export function listSharedUsers(): SharedUser[] {
-  if (!existsSync(USERS_DIR)) return [];
-  
-  return readdirSync(USERS_DIR)
-    .filter(f => f.endsWith('.json'))
-    .map(f => JSON.parse(readFileSync(join(USERS_DIR, f), 'utf-8')));
+  return sharedUserRepository.list();
 }
 
 export async function updateSharedUserQuota(
@@ -191,14 +224,20 @@ export async function updateSharedUserQuota(
   const user = getSharedUser(visibleId);
   if (!user) return { success: false, error: 'User not found' };
 
-  const quotaBytes = BigInt(newQuotaGB) * BigInt(1024) * BigInt(1024) * BigInt(1024);
+  // Household quotas are pooled, the sync spreads the new quota over all members
+  if (user.householdId && user.instance === 'paid') {
+    sharedUserRepository.update(visibleId, u => {
+      u.quotaGB = newQuotaGB;
+    });
+    return syncHousehold(user.householdId);
+  }
 
   const result = await immichApiCall<ImmichUserResponse>(
     user.instance,
     `/api/admin/users/${user.immichUserId}`,
     {
       method: 'PUT',
-      body: JSON.stringify({ quotaSizeInBytes: Number(quotaBytes) }),
+      body: JSON.stringify({ quotaSizeInBytes: gbToBytes(effectiveQuotaGB(user, newQuotaGB)) }),
     }
   );
 
@@ -207,10 +246,11 @@ export async function updateSharedUserQuota(
   }
 
   // Update local metadata
-  user.quotaGB = newQuotaGB;
-  writeFileSync(getUserFilePath(visibleId), JSON.stringify(user, null, 2));
+  sharedUserRepository.update(visibleId, u => {
+    u.quotaGB = newQuotaGB;
+  });
 
-  console.log(`Updated quota for ${user.email} to ${newQuotaGB}GB`);
+  console.log(`Updated quota for ${user.email} to ${newQuotaGB}GB${user.bonusGB ? ` (+${user.bonusGB}GB bonus)` : ''}`);
   return { success: true };
 }
 
@@ -230,13 +270,22 @@ export async function updateSharedUserTier(
   const quotaResult = await updateSharedUserQuota(visibleId, quota);
   if (!quotaResult.success) return quotaResult;
 
+  if (newTier !== user.tier) {
+    await setImmichUserFeatures(user.instance, user.immichUserId, newTier);
+  }
+
   // Update local metadata
-  user.tier = newTier;
-  user.quotaGB = quota;
-  if (stripeCustomerId) user.stripeCustomerId = stripeCustomerId;
-  if (stripeSubscriptionId) user.stripeSubscriptionId = stripeSubscriptionId;
-  
-  writeFileSync(getUserFilePath(visibleId), JSON.stringify(user, null, 2));
+  sharedUserRepository.update(visibleId, u => {
+    u.tier = newTier;
+    u.quotaGB = quota;
+    if (stripeCustomerId) u.stripeCustomerId = stripeCustomerId;
+    if (stripeSubscriptionId) u.stripeSubscriptionId = stripeSubscriptionId;
+  });
+
+  // Members lose the pool when the owner's new plan no longer covers them
+  if (user.householdId && user.instance === 'paid') {
+    await syncHousehold(user.householdId);
+  }
 
   console.log(`Updated tier for ${user.email} to ${newTier}`);
   return { success: true };
@@ -263,9 +312,10 @@ export async function deleteSharedUser(
     return { success: false, error: result.error };
   }
 
-  // Mark as deleted (keep file for audit)
-  user.status = 'deleted';
-  writeFileSync(getUserFilePath(visibleId), JSON.stringify(user, null, 2));
+  // Mark as deleted (keep record for audit)
+  sharedUserRepository.update(visibleId, u => {
+    u.status = 'deleted';
+  });
 
   console.log(`Deleted user ${user.email} from ${user.instance} instance`);
   return { success: true };
@@ -299,10 +349,19 @@ export async function migrateUserBetweenInstances(
     };
   }
 
+  if (user.migrationJobId) {
+    return { success: false, message: `Migration already in progress (${user.migrationJobId})` };
+  }
+
   const oldInstance = user.instance;
   const quota = newQuotaGB || tierToQuotaGB(newTier);
   const password = generatePassword();
 
+  const preconditions = await checkMigrationPreconditions(user, effectiveQuotaGB(user, quota));
+  if (!preconditions.ok) {
+    return { success: false, message: `Cannot migrate library: ${preconditions.error}`, permanent: preconditions.permanent };
+  }
+
   console.log(`Migrating user ${user.email} from ${oldInstance} to ${newInstance}`);
 
   // Step 1: Create user on new instance
@@ -310,7 +369,7 @@ export async function migrateUserBetweenInstances(
     email: user.email,
     password,
     name: user.email.split('@')[0],
-    quotaSizeInBytes: Number(BigInt(quota) * BigInt(1024) * BigInt(1024) * BigInt(1024)),
+    quotaSizeInBytes: gbToBytes(effectiveQuotaGB(user, quota)),
     shouldChangePassword: true,
   };
 
@@ -330,38 +389,42 @@ export async function migrateUserBetweenInstances(
     };
   }
 
-  // Step 2: Delete user from old instance
-  // Note: This deletes all their photos! They need to re-upload after migration.
-  const deleteResult = await immichApiCall<void>(
-    oldInstance,
-    `/api/admin/users/${user.immichUserId}`,
-    {
-      method: 'DELETE',
-      body: JSON.stringify({ force: true }),
-    }
-  );
-
-  if (!deleteResult.ok) {
-    console.error(`Warning: Failed to delete user from ${oldInstance}: ${deleteResult.error}`);
-    // Continue anyway - user is created on new instance
-  }
-
-  // Step 3: Update local metadata
-  user.immichUserId = createResult.data.id;
-  user.instance = newInstance;
-  user.tier = newTier;
-  user.quotaGB = quota;
-  
-  writeFileSync(getUserFilePath(visibleId), JSON.stringify(user, null, 2));
+  await setImmichUserFeatures(newInstance, createResult.data.id, newTier);
 
-  console.log(`Migration complete for ${user.email}: ${oldInstance} -> ${newInstance}`);
+  // Step 2: Copy the library in the background. The user record is switched
+  // over and the source account deleted only after the copy is verified.
+  try {
+    const job = await startUserMigration({
+      user,
+      targetInstance: newInstance,
+      targetImmichUserId: createResult.data.id,
+      targetPassword: password,
+      newTier,
+      quotaGB: quota,
+    });
 
-  return {
-    success: true,
-    message: `User migrated successfully. New password required.`,
-    oldInstance,
-    newInstance,
-  };
+    return {
+      success: true,
+      message: 'Library migration started. The account switches over once all photos are copied.',
+      oldInstance,
+      newInstance,
+      jobId: job.id,
+    };
+  } catch (err) {
+    // Roll back the empty target account so a retry starts clean
+    await immichApiCall<void>(
+      newInstance,
+      `/api/admin/users/${createResult.data.id}`,
+      {
+        method: 'DELETE',
+        body: JSON.stringify({ force: true }),
+      }
+    );
+    return {
+      success: false,
+      message: `Failed to start migration: ${(err as Error).message}`,
+    };
+  }
 }
 
 // =============================================================================
@@ -397,13 +460,14 @@ export async function getSharedUserStats(visibleId: string): Promise<{
     return { success: false, error: result.error };
   }
 
-  const quotaBytes = user.quotaGB * 1024 * 1024 * 1024;
+  const quotaGB = effectiveQuotaGB(user);
+  const quotaBytes = quotaGB * 1024 * 1024 * 1024;
   const usedBytes = result.data.usage;
 
   return {
     success: true,
     stats: {
-      quotaGB: user.quotaGB,
+      quotaGB,
       usedBytes,
       usedGB: Math.round(usedBytes / (1024 * 1024 * 1024) * 100) / 100,
       percentUsed: Math.round((usedBytes / quotaBytes) * 100),
@@ -422,21 +486,111 @@ export function updateSharedUserStripe(
   stripeCustomerId: string,
   stripeSubscriptionId?: string
 ): boolean {
+  const user = sharedUserRepository.update(visibleId, u => {
+    u.stripeCustomerId = stripeCustomerId;
+    if (stripeSubscriptionId) {
+      u.stripeSubscriptionId = stripeSubscriptionId;
+    }
+  });
+  return user !== null;
+}
+
+export async function updateSharedUserEmail(
+  visibleId: string,
+  newEmail: string
+): Promise<{ success: boolean; error?: string }> {
   const user = getSharedUser(visibleId);
-  if (!user) return false;
+  if (!user) return { success: false, error: 'User not found' };
+  if (user.email === newEmail) return { success: true };
 
-  user.stripeCustomerId = stripeCustomerId;
-  if (stripeSubscriptionId) {
-    user.stripeSubscriptionId = stripeSubscriptionId;
+  const result = await immichApiCall<ImmichUserResponse>(
+    user.instance,
+    `/api/admin/users/${user.immichUserId}`,
+    {
+      method: 'PUT',
+      body: JSON.stringify({ email: newEmail }),
+    }
+  );
+
+  if (!result.ok) {
+    return { success: false, error: result.error };
   }
-  
-  writeFileSync(getUserFilePath(visibleId), JSON.stringify(user, null, 2));
-  return true;
+
+  sharedUserRepository.update(visibleId, u => {
+    u.email = newEmail;
+  });
+
+  console.log(`Changed email of ${visibleId}: ${user.email} -> ${newEmail}`);
+  return { success: true };
+}
+
+// =============================================================================
+// Read-Only Mode (Quota Pinning)
+// =============================================================================
+// Setting the Immich quota to the current usage blocks uploads while keeping
+// everything viewable and downloadable. The local quotaGB stays untouched so
+// it can be restored.
+
+export async function pinSharedUserQuota(visibleId: string): Promise<{ success: boolean; error?: string }> {
+  const user = getSharedUser(visibleId);
+  if (!user) return { success: false, error: 'User not found' };
+
+  const details = await immichApiCall<ImmichUserResponse>(
+    user.instance,
+    `/api/admin/users/${user.immichUserId}`
+  );
+  if (!details.ok || !details.data) {
+    return { success: false, error: details.error };
+  }
+
+  const result = await immichApiCall<ImmichUserResponse>(
+    user.instance,
+    `/api/admin/users/${user.immichUserId}`,
+    {
+      method: 'PUT',
+      body: JSON.stringify({ quotaSizeInBytes: Math.max(details.data.quotaUsageInBytes, 1) }),
+    }
+  );
+
+  if (!result.ok) {
+    return { success: false, error: result.error };
+  }
+
+  console.log(`Pinned quota of ${user.email} to current usage (read-only)`);
+  return { success: true };
+}
+
+export async function restoreSharedUserQuota(visibleId: string): Promise<{ success: boolean; error?: string }> {
+  const user = getSharedUser(visibleId);
+  if (!user) return { success: false, error: 'User not found' };
+
+  return updateSharedUserQuota(visibleId, user.quotaGB);
+}
+
+// New Immich login, e.g. after a job had to reset the password to act as the user
+export async function resetSharedUserPassword(visibleId: string): Promise<{ success: boolean; password?: string; error?: string }> {
+  const user = getSharedUser(visibleId);
+  if (!user) return { success: false, error: 'User not found' };
+
+  const password = generatePassword();
+  const result = await immichApiCall<ImmichUserResponse>(
+    user.instance,
+    `/api/admin/users/${user.immichUserId}`,
+    {
+      method: 'PUT',
+      body: JSON.stringify({ password, shouldChangePassword: true }),
+    }
+  );
+
+  if (!result.ok) {
+    return { success: false, error: result.error };
+  }
+
+  return { success: true, password };
 }
 
 export function getSharedUserByStripeCustomer(stripeCustomerId: string): SharedUser | null {
-  const users = listSharedUsers();
-  return users.find(u => u.stripeCustomerId === stripeCustomerId) || null;
+  return sharedUserRepository.findBy('stripe_customer_id', stripeCustomerId);
 }
 
 // =============================================================================
@@ -524,11 +678,11 @@ export function requestAccountDeletion(visibleId: string): {
   const now = new Date();
   const scheduledFor = new Date(now.getTime() + DELETION_DELAY_DAYS * 24 * 60 * 60 * 1000);
 
-  user.status = 'pending_deletion';
-  user.deletionRequestedAt = now.toISOString();
-  user.deletionScheduledFor = scheduledFor.toISOString();
-  
-  writeFileSync(getUserFilePath(visibleId), JSON.stringify(user, null, 2));
+  sharedUserRepository.update(visibleId, u => {
+    u.status = 'pending_deletion';
+    u.deletionRequestedAt = now.toISOString();
+    u.deletionScheduledFor = scheduledFor.toISOString();
+  });
   
   console.log(`Account deletion scheduled for ${user.email} on ${scheduledFor.toISOString()}`);
   
@@ -549,11 +703,11 @@ export function cancelAccountDeletion(visibleId: string): {
     return { success: false, error: 'Account is not pending deletion' };
   }
 
-  user.status = 'active';
-  delete user.deletionRequestedAt;
-  delete user.deletionScheduledFor;
-  
-  writeFileSync(getUserFilePath(visibleId), JSON.stringify(user, null, 2));
+  sharedUserRepository.update(visibleId, u => {
+    u.status = 'active';
+    delete u.deletionRequestedAt;
+    delete u.deletionScheduledFor;
+  });
   
   console.log(`Account deletion cancelled for ${user.email}`);
   
@@ -565,7 +719,7 @@ export async function processScheduledDeletions(): Promise<{
   deleted: string[];
   errors: string[];
 }> {
-  const users = listSharedUsers();
+  const users = listPendingDeletions();
   const now = new Date();
   const deleted: string[] = [];
   const errors: string[] = [];
@@ -598,7 +752,7 @@ export async function processScheduledDeletions(): Promise<{
 }
 
 export function listPendingDeletions(): SharedUser[] {
-  return listSharedUsers().filter(u => u.status === 'pending_deletion');
+  return sharedUserRepository.listBy('status', 'pending_deletion');
 }
 
 // =============================================================================
@@ -625,10 +779,10 @@ export function createPortalSession(visibleId: string): {
   const token = generatePortalToken();
   const expiresAt = new Date(Date.now() + 24 * 60 * 60 * 1000); // 24 hours
 
-  user.portalToken = token;
-  user.portalTokenExpiresAt = expiresAt.toISOString();
-  
-  writeFileSync(getUserFilePath(visibleId), JSON.stringify(user, null, 2));
+  sharedUserRepository.update(visibleId, u => {
+    u.portalToken = token;
+    u.portalTokenExpiresAt = expiresAt.toISOString();
+  });
 
   return {
     success: true,
@@ -638,29 +792,28 @@ export function createPortalSession(visibleId: string): {
 }
 
 export function validatePortalToken(token: string): SharedUser | null {
-  const users = listSharedUsers();
-  
-  for (const user of users) {
-    if (user.portalToken === token) {
-      if (user.portalTokenExpiresAt && new Date(user.portalTokenExpiresAt) < new Date()) {
-        return null; // Token expired
-      }
-      return user;
-    }
+  const user = sharedUserRepository.findBy('portal_token', token);
+  if (!user) return null;
+
+  if (user.portalTokenExpiresAt && new Date(user.portalTokenExpiresAt) < new Date()) {
+    return null; // Token expired
   }
-  
-  return null;
+  return user;
 }
 
-export function invalidatePortalToken(visibleId: string): boolean {
-  const user = getSharedUser(visibleId);
-  if (!user) return false;
+export function updateSharedUserLocale(visibleId: string, locale: Locale): boolean {
+  const user = sharedUserRepository.update(visibleId, u => {
+    u.locale = locale;
+  });
+  return user !== null;
+}
 
-  delete user.portalToken;
-  delete user.portalTokenExpiresAt;
-  
-  writeFileSync(getUserFilePath(visibleId), JSON.stringify(user, null, 2));
-  return true;
+export function invalidatePortalToken(visibleId: string): boolean {
+  const user = sharedUserRepository.update(visibleId, u => {
+    delete u.portalToken;
+    delete u.portalTokenExpiresAt;
+  });
+  return user !== null;
 }
 
 // =============================================================================
@@ -674,6 +827,7 @@ export async function getPortalData(visibleId: string): Promise<{
     tier: string;
     plan: string;
     quotaGB: number;
+    bonusGB: number;
     usedGB: number;
     percentUsed: number;
     photos: number;
@@ -687,6 +841,7 @@ export async function getPortalData(visibleId: string): Promise<{
     deletionScheduledFor?: string;
     canRequestExport: boolean;
     lastExportAt?: string;
+    locale: Locale;
   };
   error?: string;
 }> {
@@ -707,6 +862,7 @@ export async function getPortalData(visibleId: string): Promise<{
     free: 'Free',
     basic: 'Basic',
     pro: 'Pro',
+    family: 'Family',
   };
 
   return {
@@ -715,20 +871,22 @@ export async function getPortalData(visibleId: string): Promise<{
       email: user.email,
       tier: user.tier,
       plan: planNames[user.tier] || user.tier,
-      quotaGB: user.quotaGB,
+      quotaGB: effectiveQuotaGB(user),
+      bonusGB: user.bonusGB || 0,
       usedGB: statsResult.stats?.usedGB || 0,
       percentUsed: statsResult.stats?.percentUsed || 0,
       photos: statsResult.stats?.photos || 0,
       videos: statsResult.stats?.videos || 0,
       instance: user.instance,
       instanceUrl: config.url,
-      hasML: config.hasML,
+      hasML: config.hasML && tierHasML(user.tier),
       status: user.status,
       created: user.created,
       isPendingDeletion: user.status === 'pending_deletion',
       deletionScheduledFor: user.deletionScheduledFor,
       canRequestExport,
       lastExportAt: user.lastExportAt,
+      locale: user.locale || EMAIL.defaultLocale,
     },
   };
 }
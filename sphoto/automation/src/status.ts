@@ -0,0 +1,635 @@
+// =============================================================================
+// Public Status Page
+// =============================================================================
+// Component states from periodic probes, incidents posted by admins, planned
+// maintenance, a 90-day uptime history, an Atom feed and email notifications
+// for subscribers. Incidents are unplanned and written by hand; maintenance
+// windows stay in maintenance.ts and are only shown here.
+
+import { randomBytes } from 'crypto';
+import { env, DEPLOYMENT_MODE, SHARED_INSTANCES, STATUS, HEALTH } from './config';
+import { db } from './db';
+import {
+  statusComponentRepository,
+  incidentRepository,
+  uptimeRepository,
+  statusSubscriberRepository,
+  healthStatusRepository,
+} from './repositories';
+import { listMaintenances, getPublicStatus } from './maintenance';
+import type { Maintenance, PublicStatus } from './maintenance';
+import { sendEmail } from './mailer';
+import type { Locale } from './types';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type ComponentId = 'free' | 'paid' | 'portal' | 'uploads' | 'ml' | 'instances';
+export type ComponentState = 'operational' | 'degraded' | 'outage' | 'maintenance';
+export type IncidentStatus = 'investigating' | 'identified' | 'monitoring' | 'resolved';
+export type IncidentImpact = 'degraded' | 'outage';
+
+// Last probe result of a component
+export interface ComponentStatus {
+  id: ComponentId;
+  state: ComponentState;
+  since: string;                 // When the state last changed
+  lastCheck: string;
+  message?: string;
+  consecutiveFailures: number;
+}
+
+export interface IncidentUpdate {
+  id: string;
+  status: IncidentStatus;
+  message: string;
+  createdAt: string;
+  createdBy: string;
+}
+
+export interface Incident {
+  id: string;
+  title: string;
+  impact: IncidentImpact;
+  components: ComponentId[];
+  status: IncidentStatus;
+  createdAt: string;
+  resolvedAt?: string;
+  updates: IncidentUpdate[];     // Oldest first
+}
+
+// Probe results of one component on one day (UTC)
+export interface UptimeDay {
+  component: ComponentId;
+  date: string;                  // YYYY-MM-DD
+  checks: number;
+  degraded: number;
+  outages: number;
+}
+
+export interface StatusSubscriber {
+  token: string;                 // Confirm and unsubscribe links
+  email: string;
+  locale?: Locale;
+  confirmed: boolean;
+  createdAt: string;
+  confirmedAt?: string;
+}
+
+export interface StatusPage extends PublicStatus {
+  state: ComponentState;
+  components: Array<{
+    id: ComponentId;
+    name: string;
+    state: ComponentState;
+    message?: string;
+    since: string;
+    uptime: number | null;       // Share of checks without outage over the history, 0..1
+    history: Array<{ date: string; uptime: number | null; degraded: boolean }>;
+  }>;
+  activeIncidents: Incident[];
+  recentIncidents: Incident[];
+}
+
+// =============================================================================
+// Components
+// =============================================================================
+
+export const COMPONENT_NAMES: Record<ComponentId, string> = {
+  free: 'Free instance',
+  paid: 'Paid instance',
+  portal: 'Customer portal',
+  uploads: 'Uploads',
+  ml: 'Machine learning',
+  instances: 'Photo instances',
+};
+
+// Severity for combining states, worst wins
+const SEVERITY: Record<ComponentState, number> = {
+  operational: 0,
+  maintenance: 1,
+  degraded: 2,
+  outage: 3,
+};
+
+// A component is only reported down after this many failed probes in a row
+const FAILURES_FOR_OUTAGE = 2;
+const HISTORY_DAYS = 90;
+const RECENT_INCIDENT_DAYS = 14;
+const SUBSCRIPTION_CONFIRM_DAYS = 7;
+
+export function listComponentIds(): ComponentId[] {
+  return DEPLOYMENT_MODE === 'shared'
+    ? ['free', 'paid', 'portal', 'uploads', 'ml']
+    : ['instances', 'portal', 'ml'];
+}
+
+function worst(states: ComponentState[]): ComponentState {
+  return states.reduce<ComponentState>((a, b) => (SEVERITY[b] > SEVERITY[a] ? b : a), 'operational');
+}
+
+function generateId(prefix: string): string {
+  return `${prefix}-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`;
+}
+
+// =============================================================================
+// Probes
+// =============================================================================
+
+interface ProbeResult {
+  state: 'operational' | 'degraded' | 'outage';
+  message?: string;
+}
+
+async function probeUrl(url: string, headers: Record<string, string> = {}): Promise<ProbeResult> {
+  const startTime = Date.now();
+  try {
+    const response = await fetch(url, { headers, signal: AbortSignal.timeout(STATUS.probeTimeoutMs) });
+    if (!response.ok) {
+      return { state: 'outage', message: `HTTP ${response.status}` };
+    }
+    const responseTime = Date.now() - startTime;
+    if (responseTime > STATUS.slowResponseMs) {
+      return { state: 'degraded', message: `Slow response (${responseTime} ms)` };
+    }
+    return { state: 'operational' };
+  } catch (err) {
+    return { state: 'outage', message: (err as Error).message };
+  }
+}
+
+// Uploads fail once the upload volume of a shared instance is full
+async function probeUploads(): Promise<ProbeResult> {
+  const results: ProbeResult[] = [];
+
+  for (const instance of ['free', 'paid'] as const) {
+    const config = SHARED_INSTANCES[instance];
+    try {
+      const response = await fetch(`${config.internalUrl}/api/server/storage`, {
+        headers: { 'x-api-key': config.apiKey },
+        signal: AbortSignal.timeout(STATUS.probeTimeoutMs),
+      });
+      if (!response.ok) {
+        results.push({ state: 'outage', message: `${instance}: HTTP ${response.status}` });
+        continue;
+      }
+      const { diskUsagePercentage } = await response.json() as { diskUsagePercentage: number };
+      if (diskUsagePercentage >= STATUS.diskFullPercent) {
+        results.push({ state: 'outage', message: `${instance}: disk ${diskUsagePercentage}% full` });
+      } else if (diskUsagePercentage >= STATUS.diskWarningPercent) {
+        results.push({ state: 'degraded', message: `${instance}: disk ${diskUsagePercentage}% full` });
+      }
+    } catch (err) {
+      results.push({ state: 'outage', message: `${instance}: ${(err as Error).message}` });
+    }
+  }
+
+  if (results.length === 0) return { state: 'operational' };
+  return {
+    state: worst(results.map(r => r.state)) as ProbeResult['state'],
+    message: results.map(r => r.message).join(', '),
+  };
+}
+
+// Siloed instances are checked by health.ts; reuse its last results
+function probeInstances(): ProbeResult {
+  const statuses = healthStatusRepository.list();
+  const unhealthy = statuses.filter(s => !s.healthy).length;
+
+  if (unhealthy === 0) return { state: 'operational' };
+  const message = `${unhealthy} of ${statuses.length} instances unreachable`;
+  return { state: unhealthy === statuses.length ? 'outage' : 'degraded', message };
+}
+
+function probe(component: ComponentId): Promise<ProbeResult> | ProbeResult {
+  switch (component) {
+    case 'free':
+    case 'paid':
+      return probeUrl(`${SHARED_INSTANCES[component].internalUrl}/api/server/ping`);
+    case 'portal':
+      return probeUrl(STATUS.portalUrl);
+    case 'ml':
+      return probeUrl(`${HEALTH.mlUrl}/ping`);
+    case 'uploads':
+      return probeUploads();
+    case 'instances':
+      return probeInstances();
+  }
+}
+
+// =============================================================================
+// Displayed State
+// =============================================================================
+
+// Components covered by a maintenance window
+function maintenanceComponents(maintenance: Maintenance): ComponentId[] {
+  const all = listComponentIds();
+  if (maintenance.affectedInstances === 'all') return all;
+
+  const affected = new Set<ComponentId>();
+  for (const instance of maintenance.affectedInstances) {
+    affected.add(instance === 'free' || instance === 'paid' ? instance : 'instances');
+  }
+  return all.filter(c => affected.has(c));
+}
+
+function listActiveIncidents(): Incident[] {
+  return incidentRepository.list()
+    .filter(i => i.status !== 'resolved')
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+// Probe state, raised by open incidents and replaced by running maintenance
+function displayedStates(): Map<ComponentId, { state: ComponentState; message?: string; since: string }> {
+  const inMaintenance = new Set(
+    listMaintenances().filter(m => m.status === 'in_progress').flatMap(maintenanceComponents)
+  );
+  const incidents = listActiveIncidents();
+  const states = new Map<ComponentId, { state: ComponentState; message?: string; since: string }>();
+
+  for (const id of listComponentIds()) {
+    const measured = statusComponentRepository.get(id);
+    let state: ComponentState = measured?.state || 'operational';
+    let message = measured?.message;
+    let since = measured?.since || new Date().toISOString();
+
+    for (const incident of incidents.filter(i => i.components.includes(id))) {
+      if (SEVERITY[incident.impact] > SEVERITY[state]) {
+        state = incident.impact;
+        message = incident.title;
+        since = incident.createdAt;
+      }
+    }
+    if (inMaintenance.has(id)) {
+      state = 'maintenance';
+    }
+
+    states.set(id, { state, message, since });
+  }
+
+  return states;
+}
+
+// =============================================================================
+// Status Check (scheduler job)
+// =============================================================================
+
+function recordUptime(component: ComponentId, state: ComponentState, date: string): void {
+  const key = `${date}:${component}`;
+  db.transaction(() => {
+    const day = uptimeRepository.get(key) || { component, date, checks: 0, degraded: 0, outages: 0 };
+    day.checks++;
+    // Planned maintenance does not count as downtime
+    if (state === 'outage') day.outages++;
+    if (state === 'degraded') day.degraded++;
+    uptimeRepository.save(day);
+  }).immediate();
+}
+
+/**
+ * Probe every component, record the result in the uptime history and notify
+ * subscribers about components whose displayed state changed.
+ */
+export async function runStatusCheck(): Promise<{ changed: ComponentId[] }> {
+  const before = displayedStates();
+  const now = new Date().toISOString();
+  const today = now.slice(0, 10);
+
+  for (const id of listComponentIds()) {
+    const result = await probe(id);
+    const previous = statusComponentRepository.get(id);
+    const consecutiveFailures = result.state === 'outage' ? (previous?.consecutiveFailures || 0) + 1 : 0;
+
+    // Single failed probes are not reported, the previous state is kept
+    let state: ComponentState = result.state;
+    if (result.state === 'outage' && consecutiveFailures < FAILURES_FOR_OUTAGE) {
+      state = previous?.state || 'operational';
+    }
+
+    statusComponentRepository.save({
+      id,
+      state,
+      since: previous && previous.state === state ? previous.since : now,
+      lastCheck: now,
+      message: state === 'operational' ? undefined : result.message,
+      consecutiveFailures,
+    });
+  }
+
+  const after = displayedStates();
+  const changed: ComponentId[] = [];
+  for (const [id, { state }] of after) {
+    recordUptime(id, state, today);
+    if (before.get(id)?.state !== state) changed.push(id);
+  }
+
+  // Changes caused by incidents and maintenance are announced there
+  const probeChanges = changed.filter(id => {
+    const state = after.get(id)!.state;
+    const previous = before.get(id)!.state;
+    return state !== 'maintenance' && previous !== 'maintenance' &&
+      !listActiveIncidents().some(i => i.components.includes(id));
+  });
+  if (probeChanges.length > 0) {
+    console.log(`Status changed: ${probeChanges.map(id => `${id}=${after.get(id)!.state}`).join(', ')}`);
+    await notifySubscribers(subscriber => sendEmail(subscriber.email, 'status_component_change', {
+      changes: probeChanges.map(id => ({ component: id, state: after.get(id)!.state })),
+      statusUrl: STATUS_PAGE_URL,
+      unsubscribeUrl: unsubscribeUrl(subscriber),
+    }, { locale: subscriber.locale }));
+  }
+
+  pruneStatusData();
+  return { changed };
+}
+
+function pruneStatusData(): void {
+  const cutoff = new Date(Date.now() - HISTORY_DAYS * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+  for (const day of uptimeRepository.list()) {
+    if (day.date < cutoff) uptimeRepository.delete(`${day.date}:${day.component}`);
+  }
+
+  const confirmCutoff = Date.now() - SUBSCRIPTION_CONFIRM_DAYS * 24 * 60 * 60 * 1000;
+  for (const subscriber of statusSubscriberRepository.list()) {
+    if (!subscriber.confirmed && new Date(subscriber.createdAt).getTime() < confirmCutoff) {
+      statusSubscriberRepository.delete(subscriber.token);
+    }
+  }
+}
+
+// =============================================================================
+// Public Status
+// =============================================================================
+
+function uptimeHistory(component: ComponentId): StatusPage['components'][number]['history'] {
+  const days = new Map(uptimeRepository.listBy('component', component).map(d => [d.date, d]));
+  const history: StatusPage['components'][number]['history'] = [];
+
+  for (let i = HISTORY_DAYS - 1; i >= 0; i--) {
+    const date = new Date(Date.now() - i * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+    const day = days.get(date);
+    history.push({
+      date,
+      uptime: day && day.checks > 0 ? (day.checks - day.outages) / day.checks : null,
+      degraded: !!day && day.degraded > 0,
+    });
+  }
+
+  return history;
+}
+
+export function getStatusPage(): StatusPage {
+  const maintenance = getPublicStatus();
+  const states = displayedStates();
+  const recentCutoff = new Date(Date.now() - RECENT_INCIDENT_DAYS * 24 * 60 * 60 * 1000).toISOString();
+
+  const components = listComponentIds().map(id => {
+    const history = uptimeHistory(id);
+    const days = uptimeRepository.listBy('component', id);
+    const checks = days.reduce((sum, d) => sum + d.checks, 0);
+    const outages = days.reduce((sum, d) => sum + d.outages, 0);
+    return {
+      id,
+      name: COMPONENT_NAMES[id],
+      ...states.get(id)!,
+      uptime: checks > 0 ? (checks - outages) / checks : null,
+      history,
+    };
+  });
+
+  const state = worst(components.map(c => c.state));
+
+  return {
+    ...maintenance,
+    operational: state === 'operational',
+    state,
+    components,
+    activeIncidents: listActiveIncidents(),
+    recentIncidents: incidentRepository.list()
+      .filter(i => i.status === 'resolved' && (i.resolvedAt || i.createdAt) > recentCutoff)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt)),
+  };
+}
+
+// =============================================================================
+// Incidents
+// =============================================================================
+
+export function listIncidents(): Incident[] {
+  return incidentRepository.list().sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export function getIncident(id: string): Incident | null {
+  return incidentRepository.get(id);
+}
+
+function validateComponents(components: unknown): ComponentId[] | null {
+  if (!Array.isArray(components) || components.length === 0) return null;
+  const valid = listComponentIds();
+  return components.every(c => valid.includes(c)) ? components as ComponentId[] : null;
+}
+
+export async function createIncident(input: {
+  title: string;
+  impact: IncidentImpact;
+  components: ComponentId[];
+  message: string;
+  status?: IncidentStatus;
+  createdBy: string;
+}): Promise<{ success: boolean; incident?: Incident; error?: string }> {
+  if (!input.title || !input.message) {
+    return { success: false, error: 'title and message are required' };
+  }
+  if (input.impact !== 'degraded' && input.impact !== 'outage') {
+    return { success: false, error: 'impact must be degraded or outage' };
+  }
+  const components = validateComponents(input.components);
+  if (!components) {
+    return { success: false, error: `components must be a list of: ${listComponentIds().join(', ')}` };
+  }
+
+  const now = new Date().toISOString();
+  const status = input.status || 'investigating';
+  const incident = incidentRepository.save({
+    id: generateId('inc'),
+    title: input.title,
+    impact: input.impact,
+    components,
+    status,
+    createdAt: now,
+    resolvedAt: status === 'resolved' ? now : undefined,
+    updates: [{ id: generateId('upd'), status, message: input.message, createdAt: now, createdBy: input.createdBy }],
+  });
+
+  await notifyIncident(incident);
+  return { success: true, incident };
+}
+
+export async function addIncidentUpdate(
+  id: string,
+  input: { status: IncidentStatus; message: string; createdBy: string }
+): Promise<{ success: boolean; incident?: Incident; error?: string }> {
+  if (!['investigating', 'identified', 'monitoring', 'resolved'].includes(input.status)) {
+    return { success: false, error: 'Invalid status' };
+  }
+  if (!input.message) {
+    return { success: false, error: 'message is required' };
+  }
+
+  const existing = incidentRepository.get(id);
+  if (!existing) return { success: false, error: 'Incident not found' };
+  if (existing.status === 'resolved') return { success: false, error: 'Incident is already resolved' };
+
+  const now = new Date().toISOString();
+  const incident = incidentRepository.update(id, i => {
+    i.status = input.status;
+    i.updates.push({ id: generateId('upd'), status: input.status, message: input.message, createdAt: now, createdBy: input.createdBy });
+    if (input.status === 'resolved') i.resolvedAt = now;
+  })!;
+
+  await notifyIncident(incident);
+  return { success: true, incident };
+}
+
+export function deleteIncident(id: string): boolean {
+  return incidentRepository.delete(id);
+}
+
+async function notifyIncident(incident: Incident): Promise<void> {
+  const update = incident.updates[incident.updates.length - 1];
+  await notifySubscribers(subscriber => sendEmail(subscriber.email, 'status_incident', {
+    title: incident.title,
+    impact: incident.impact,
+    components: incident.components,
+    status: update.status,
+    message: update.message,
+    isNew: incident.updates.length === 1,
+    statusUrl: STATUS_PAGE_URL,
+    unsubscribeUrl: unsubscribeUrl(subscriber),
+  }, { locale: subscriber.locale }));
+}
+
+// =============================================================================
+// Subscriptions
+// =============================================================================
+
+const STATUS_PAGE_URL = `https://${env.DOMAIN}/status`;
+
+function unsubscribeUrl(subscriber: StatusSubscriber): string {
+  return `${STATUS_PAGE_URL}?unsubscribe=${subscriber.token}`;
+}
+
+async function notifySubscribers(send: (subscriber: StatusSubscriber) => Promise<unknown>): Promise<void> {
+  for (const subscriber of statusSubscriberRepository.list().filter(s => s.confirmed)) {
+    await send(subscriber);
+  }
+}
+
+/**
+ * Subscribe an address to status notifications (double opt-in). Repeated
+ * requests send a new confirmation link; confirmed addresses are left as they are.
+ */
+export async function subscribeToStatus(email: string, locale?: Locale): Promise<void> {
+  const existing = statusSubscriberRepository.findBy('email', email);
+  if (existing?.confirmed) return;
+  if (existing) statusSubscriberRepository.delete(existing.token);
+
+  const subscriber = statusSubscriberRepository.save({
+    token: randomBytes(32).toString('hex'),
+    email,
+    locale,
+    confirmed: false,
+    createdAt: new Date().toISOString(),
+  });
+
+  await sendEmail(email, 'status_subscription_confirm', {
+    confirmUrl: `${STATUS_PAGE_URL}?confirm=${subscriber.token}`,
+    validDays: SUBSCRIPTION_CONFIRM_DAYS,
+  }, { locale });
+}
+
+export function confirmStatusSubscription(token: string): boolean {
+  const subscriber = statusSubscriberRepository.update(token, s => {
+    if (!s.confirmed) {
+      s.confirmed = true;
+      s.confirmedAt = new Date().toISOString();
+    }
+  });
+  return !!subscriber;
+}
+
+export function unsubscribeFromStatus(token: string): boolean {
+  return statusSubscriberRepository.delete(token);
+}
+
+export function listStatusSubscribers(): Array<Omit<StatusSubscriber, 'token'>> {
+  // The token is the unsubscribe link, keep it out of admin responses
+  return statusSubscriberRepository.list().map(({ token, ...subscriber }) => subscriber);
+}
+
+export function removeStatusSubscriber(email: string): boolean {
+  const subscriber = statusSubscriberRepository.findBy('email', email);
+  return !!subscriber && statusSubscriberRepository.delete(subscriber.token);
+}
+
+// =============================================================================
+// Atom Feed
+// =============================================================================
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// Incidents and maintenance windows of the history period, newest first
+export function renderStatusFeed(): string {
+  const cutoff = new Date(Date.now() - HISTORY_DAYS * 24 * 60 * 60 * 1000).toISOString();
+  const tagBase = `tag:${env.DOMAIN},2024`;
+
+  const entries: Array<{ id: string; title: string; updated: string; content: string }> = [];
+
+  for (const incident of listIncidents().filter(i => i.createdAt > cutoff)) {
+    const latest = incident.updates[incident.updates.length - 1];
+    entries.push({
+      id: `${tagBase}:incident/${incident.id}`,
+      title: `${incident.title} (${incident.status})`,
+      updated: latest.createdAt,
+      content: [...incident.updates].reverse()
+        .map(u => `<p><strong>${u.status}</strong> – ${new Date(u.createdAt).toUTCString()}<br/>${escapeXml(u.message)}</p>`)
+        .join(''),
+    });
+  }
+
+  for (const maintenance of listMaintenances().filter(m => m.createdAt > cutoff && m.status !== 'cancelled')) {
+    entries.push({
+      id: `${tagBase}:maintenance/${maintenance.id}`,
+      title: `Maintenance: ${maintenance.title} (${maintenance.status.replace('_', ' ')})`,
+      updated: maintenance.actualEnd || maintenance.actualStart || maintenance.createdAt,
+      content: `<p>${new Date(maintenance.scheduledStart).toUTCString()} – ${new Date(maintenance.scheduledEnd).toUTCString()}</p><p>${escapeXml(maintenance.description)}</p>`,
+    });
+  }
+
+  entries.sort((a, b) => b.updated.localeCompare(a.updated));
+  const updated = entries[0]?.updated || new Date().toISOString();
+
+  return `<?xml version="1.0" encoding="utf-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <title>SPhoto Status</title>
+  <id>${tagBase}:status</id>
+  <link href="${STATUS_PAGE_URL}"/>
+  <link rel="self" href="https://api.${env.DOMAIN}/api/status/feed.atom"/>
+  <updated>${updated}</updated>
+${entries.map(e => `  <entry>
+    <id>${e.id}</id>
+    <title>${escapeXml(e.title)}</title>
+    <updated>${e.updated}</updated>
+    <link href="${STATUS_PAGE_URL}"/>
+    <content type="html">${escapeXml(e.content)}</content>
+  </entry>`).join('\n')}
+</feed>
+`;
+}
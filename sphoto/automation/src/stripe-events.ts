@@ -0,0 +1,59 @@
+// =============================================================================
+// Stripe Event Ledger
+// =============================================================================
+// Every webhook event is recorded by its Stripe event id before it is handled,
+// so redelivered events are acknowledged without running the handler twice.
+
+import type Stripe from 'stripe';
+import { db } from './db';
+import { stripeEventRepository } from './repositories';
+import type { StripeEventRecord } from './types';
+
+// A 'processing' record older than this was left behind by a crash
+const STALE_PROCESSING_MS = 10 * 60 * 1000;
+
+/**
+ * Record the event as being processed. Returns false when it was already
+ * processed (or is being processed right now) and must be skipped.
+ */
+export function claimStripeEvent(event: Stripe.Event): boolean {
+  return db.transaction(() => {
+    const existing = stripeEventRepository.get(event.id);
+    
+    if (existing?.status === 'processed') return false;
+    if (existing?.status === 'processing' &&
+        Date.now() - new Date(existing.receivedAt).getTime() < STALE_PROCESSING_MS) {
+      return false;
+    }
+    
+    stripeEventRepository.save({
+      id: event.id,
+      type: event.type,
+      status: 'processing',
+      created: new Date(event.created * 1000).toISOString(),
+      receivedAt: new Date().toISOString(),
+      attempts: (existing?.attempts || 0) + 1,
+    });
+    return true;
+  }).immediate();
+}
+
+export function markStripeEventProcessed(eventId: string): void {
+  stripeEventRepository.update(eventId, e => {
+    e.status = 'processed';
+    e.processedAt = new Date().toISOString();
+    e.error = undefined;
+  });
+}
+
+export function markStripeEventFailed(eventId: string, error: Error): void {
+  stripeEventRepository.update(eventId, e => {
+    e.status = 'failed';
+    e.error = error.message;
+  });
+}
+
+export function listStripeEvents(status?: StripeEventRecord['status']): StripeEventRecord[] {
+  const events = status ? stripeEventRepository.listBy('status', status) : stripeEventRepository.list();
+  return events.sort((a, b) => b.receivedAt.localeCompare(a.receivedAt));
+}
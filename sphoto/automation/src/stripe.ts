@@ -4,19 +4,35 @@
 
 import Stripe from 'stripe';
 import type { Request, Response } from 'express';
-import type { SessionStatus, Platform, UserTier } from './types';
-import { env, PLANS, DEPLOYMENT_MODE, SHARED_INSTANCES, FREE_TIER } from './config';
-import { generateId, createInstance, stopInstance } from './instances';
+import type { SessionStatus, Platform, PaidTier, BillingInterval } from './types';
+import { env, PLANS, PLAN_CATALOG, CHECKOUT, DEPLOYMENT_MODE, SHARED_INSTANCES } from './config';
+import { generateId, createInstance, stopInstance, startInstance, getInstance, updateInstance } from './instances';
 import { 
   createSharedUser, 
   updateSharedUserTier, 
   updateSharedUserStripe,
+  updateSharedUserEmail,
   getSharedUserByStripeCustomer,
+  getSharedUserByEmail,
   migrateUserBetweenInstances,
   deleteSharedUser,
 } from './shared-users';
-import { sendWelcomeEmail, sendWelcomeEmailShared, sendPaymentFailedEmail, sendPlanChangeEmail } from './email';
+import {
+  sendWelcomeEmail,
+  sendWelcomeEmailShared,
+  sendPaymentFailedEmail,
+  sendPlanChangeEmail,
+  sendTrialEndingEmail,
+  sendRefundNotificationEmail,
+} from './email';
 import { handlePlanChange } from './plan-migration';
+import { getSubscriptionPlan } from './shared-plans';
+import { applyReferral, rememberReferralCode } from './referrals';
+import { checkoutTaxParams, applyCustomerTaxStatus, recordInvoice } from './invoices';
+import { claimStripeEvent, markStripeEventProcessed, markStripeEventFailed } from './stripe-events';
+import { handlePaymentFailed, handlePaymentSucceeded, handleSubscriptionEnded, resetBillingStatus, reactivateSharedUser } from './dunning';
+import { updateUserMigrationPlan } from './user-migration';
+import { deliverAlert } from './alert-channels';
 
 const stripe = new Stripe(env.STRIPE_SECRET_KEY);
 
@@ -39,25 +55,94 @@ export async function handleWebhook(req: Request, res: Response): Promise<void>
     return;
   }
 
-  console.log(`Event: ${event.type} (Mode: ${DEPLOYMENT_MODE})`);
+  console.log(`Event: ${event.type} ${event.id} (Mode: ${DEPLOYMENT_MODE})`);
+
+  // Stripe redelivers events; each one is handled at most once
+  if (!claimStripeEvent(event)) {
+    console.log(`Event ${event.id} already processed, skipping`);
+    res.json({ received: true, duplicate: true });
+    return;
+  }
 
   try {
     if (DEPLOYMENT_MODE === 'shared') {
-      await handleWebhookShared(event, res);
+      await handleWebhookShared(event);
     } else {
-      await handleWebhookSiloed(event, res);
+      await handleWebhookSiloed(event);
     }
+    markStripeEventProcessed(event.id);
+    res.json({ received: true });
   } catch (err) {
     console.error('Webhook handler error:', err);
+    // Failed events are picked up again when Stripe retries
+    markStripeEventFailed(event.id, err as Error);
     res.status(500).json({ error: 'Webhook handler failed' });
   }
 }
 
+// Email of a customer, or null if the customer was deleted
+async function getCustomerEmail(customerId: string): Promise<string | null> {
+  const customer = await stripe.customers.retrieve(customerId);
+  if ('deleted' in customer) return null;
+  return customer.email;
+}
+
+async function handleChargeRefunded(charge: Stripe.Charge): Promise<void> {
+  const customerEmail = charge.billing_details?.email
+    || (charge.customer ? await getCustomerEmail(charge.customer as string) : null)
+    || 'unknown';
+  const fullRefund = charge.amount_refunded >= charge.amount;
+  
+  await sendRefundNotificationEmail(customerEmail, charge.amount_refunded, charge.currency, fullRefund);
+  console.log(`Charge ${charge.id} refunded for ${customerEmail} (${fullRefund ? 'full' : 'partial'})`);
+}
+
+// The customer is charged for a plan we could not apply; an admin has to
+// apply it by hand or refund the payment
+async function reportFailedUpgrade(
+  session: Stripe.Checkout.Session,
+  email: string,
+  visibleId: string,
+  planName: string,
+  error: string
+): Promise<void> {
+  sessionStatus.set(session.id, {
+    status: 'error',
+    message: 'Upgrade fehlgeschlagen. Wir haben den Support informiert und melden uns bei dir.',
+  });
+  console.error(`Failed to upgrade ${email} to ${planName}: ${error}`);
+
+  await deliverAlert({
+    type: 'migration_failed',
+    severity: 'critical',
+    subjectType: 'shared_user',
+    subjectId: visibleId,
+    title: `Paid upgrade failed: ${email}`,
+    message: `The checkout for ${planName} was paid but could not be applied: ${error}. Apply the plan by hand or refund the payment.`,
+    fields: {
+      User: visibleId,
+      Customer: email,
+      Plan: planName,
+      'Stripe customer': String(session.customer),
+      Subscription: String(session.subscription),
+    },
+    triggeredAt: new Date().toISOString(),
+  });
+}
+
+function handleCheckoutExpired(session: Stripe.Checkout.Session): void {
+  sessionStatus.set(session.id, {
+    status: 'error',
+    message: 'Checkout abgelaufen. Bitte starte den Kauf erneut.',
+  });
+  console.log(`Checkout session ${session.id} expired`);
+}
+
 // =============================================================================
 // Shared Mode Webhook Handler
 // =============================================================================
 
-async function handleWebhookShared(event: Stripe.Event, res: Response): Promise<void> {
+async function handleWebhookShared(event: Stripe.Event): Promise<void> {
   switch (event.type) {
     case 'checkout.session.completed': {
       const session = event.data.object as Stripe.Checkout.Session;
@@ -75,12 +160,88 @@ async function handleWebhookShared(event: Stripe.Event, res: Response): Promise<
       sessionStatus.set(sessionId, { status: 'processing', message: 'Erstelle deinen Account...' });
       
       if (session.mode === 'subscription' && customerEmail) {
+        await applyCustomerTaxStatus(session);
         const sub = await stripe.subscriptions.retrieve(session.subscription as string);
         const priceId = sub.items.data[0].price.id;
         const plan = PLANS[priceId];
         
         if (plan) {
-          const tier: UserTier = plan.name.toLowerCase() === 'pro' ? 'pro' : 'basic';
+          const { tier } = plan;
+          
+          const existing = getSharedUserByEmail(customerEmail);
+
+          // Mid-move the record still points at the source instance, a plan
+          // applied there would be overwritten when the move finishes
+          if (existing && existing.migrationJobId) {
+            await reportFailedUpgrade(session, customerEmail, existing.visibleId, plan.name, `Library move ${existing.migrationJobId} in progress`);
+            break;
+          }
+          
+          // Existing paid-instance user resubscribing (e.g. during the grace period)
+          if (existing && existing.status === 'active' && existing.instance === 'paid') {
+            const result = await reactivateSharedUser(existing.visibleId, tier, plan.storage);
+            if (result.success) {
+              updateSharedUserStripe(
+                existing.visibleId,
+                session.customer as string,
+                session.subscription as string
+              );
+              await sendPlanChangeEmail(customerEmail, plan.name, plan.storage, 'paid');
+              
+              sessionStatus.set(sessionId, { 
+                status: 'complete', 
+                instanceId: existing.visibleId,
+                instanceUrl: SHARED_INSTANCES.paid.url,
+                email: customerEmail,
+                plan: plan.name,
+                tier,
+                autoSetup: true,
+              });
+            } else {
+              await reportFailedUpgrade(session, customerEmail, existing.visibleId, plan.name, `Reactivation failed: ${result.error}`);
+            }
+            break;
+          }
+          
+          // Existing free user upgrading: carry the library over to the paid instance
+          if (existing && existing.status === 'active' && existing.instance === 'free') {
+            console.log(`Upgrading free user ${customerEmail} to ${plan.name}`);
+            sessionStatus.set(sessionId, { status: 'processing', message: 'Übertrage deine Fotos auf photos.sphoto.arturf.ch...' });
+            
+            const migration = await migrateUserBetweenInstances(existing.visibleId, tier, plan.storage);
+            if (migration.success) {
+              await stripe.customers.update(session.customer as string, {
+                metadata: { 
+                  sphoto_user_id: existing.visibleId,
+                  sphoto_tier: tier,
+                  deployment_mode: 'shared',
+                }
+              });
+              updateSharedUserStripe(
+                existing.visibleId,
+                session.customer as string,
+                session.subscription as string
+              );
+              resetBillingStatus(existing.visibleId);
+              if (session.payment_status === 'paid') {
+                await applyReferral(existing.visibleId, 'paid');
+              }
+              await sendPlanChangeEmail(customerEmail, plan.name, plan.storage, 'paid');
+              
+              sessionStatus.set(sessionId, { 
+                status: 'complete', 
+                instanceId: existing.visibleId,
+                instanceUrl: SHARED_INSTANCES.paid.url,
+                email: customerEmail,
+                plan: plan.name,
+                tier,
+                autoSetup: true,
+              });
+            } else {
+              await reportFailedUpgrade(session, customerEmail, existing.visibleId, plan.name, migration.message);
+            }
+            break;
+          }
           
           console.log(`Creating paid user ${customerEmail} with ${plan.storage}GB quota`);
           sessionStatus.set(sessionId, { status: 'processing', message: 'Erstelle Account auf photos.sphoto.arturf.ch...' });
@@ -103,6 +264,12 @@ async function handleWebhookShared(event: Stripe.Event, res: Response): Promise<
               session.customer as string,
               session.subscription as string
             );
+
+            // The referral qualifies with the first payment; after a trial that is invoice.paid
+            rememberReferralCode(result.user.visibleId, session.metadata?.referral_code);
+            if (session.payment_status === 'paid') {
+              await applyReferral(result.user.visibleId, 'paid');
+            }
             
             sessionStatus.set(sessionId, { status: 'processing', message: 'Sende Willkommens-E-Mail...' });
             await sendWelcomeEmailShared(
@@ -142,16 +309,60 @@ async function handleWebhookShared(event: Stripe.Event, res: Response): Promise<
       break;
     }
 
+    case 'checkout.session.expired': {
+      handleCheckoutExpired(event.data.object as Stripe.Checkout.Session);
+      break;
+    }
+
     case 'invoice.payment_failed': {
       const invoice = event.data.object as Stripe.Invoice;
-      const customer = await stripe.customers.retrieve(invoice.customer as string);
+      const user = getSharedUserByStripeCustomer(invoice.customer as string);
       
-      if (!('deleted' in customer)) {
-        const user = getSharedUserByStripeCustomer(invoice.customer as string);
-        if (user && customer.email) {
-          // For shared mode, we don't stop anything - just notify
-          await sendPaymentFailedEmail(customer.email, user.visibleId);
-          console.log(`Payment failed notification sent to ${customer.email}`);
+      if (user) {
+        // Starts the dunning process (past_due -> suspended -> downgraded)
+        await handlePaymentFailed(user.visibleId);
+      }
+      break;
+    }
+
+    case 'invoice.paid': {
+      const invoice = event.data.object as Stripe.Invoice;
+      // Recorded first, so a failed Stripe call retries the event before anything else ran
+      await recordInvoice(invoice.id);
+      const user = getSharedUserByStripeCustomer(invoice.customer as string);
+      
+      if (user) {
+        await handlePaymentSucceeded(user.visibleId);
+        if (invoice.amount_paid > 0) {
+          await applyReferral(user.visibleId, 'paid');
+        }
+      }
+      break;
+    }
+
+    case 'customer.subscription.trial_will_end': {
+      const sub = event.data.object as Stripe.Subscription;
+      const user = getSharedUserByStripeCustomer(sub.customer as string);
+      
+      if (user && sub.trial_end) {
+        await sendTrialEndingEmail(user.email, new Date(sub.trial_end * 1000));
+      }
+      break;
+    }
+
+    case 'charge.refunded': {
+      await handleChargeRefunded(event.data.object as Stripe.Charge);
+      break;
+    }
+
+    case 'customer.updated': {
+      const customer = event.data.object as Stripe.Customer;
+      const user = getSharedUserByStripeCustomer(customer.id);
+      
+      if (user && customer.email && customer.email !== user.email) {
+        const result = await updateSharedUserEmail(user.visibleId, customer.email);
+        if (!result.success) {
+          throw new Error(`Failed to update email for ${user.visibleId}: ${result.error}`);
         }
       }
       break;
@@ -162,16 +373,9 @@ async function handleWebhookShared(event: Stripe.Event, res: Response): Promise<
       const user = getSharedUserByStripeCustomer(sub.customer as string);
       
       if (user) {
-        // Downgrade to free tier (migrate to free instance)
-        console.log(`Subscription cancelled for ${user.email}, migrating to free tier`);
-        const result = await migrateUserBetweenInstances(user.visibleId, 'free');
-        
-        if (result.success) {
-          const customer = await stripe.customers.retrieve(sub.customer as string);
-          if (!('deleted' in customer) && customer.email) {
-            await sendPlanChangeEmail(customer.email, 'Free', FREE_TIER.quotaGB, 'free');
-          }
-        }
+        // Read-only grace period instead of an immediate downgrade
+        console.log(`Subscription cancelled for ${user.email}, starting grace period`);
+        await handleSubscriptionEnded(user.visibleId);
       }
       break;
     }
@@ -180,36 +384,44 @@ async function handleWebhookShared(event: Stripe.Event, res: Response): Promise<
       const sub = event.data.object as Stripe.Subscription;
       const user = getSharedUserByStripeCustomer(sub.customer as string);
       
-      if (user) {
-        const newPriceId = sub.items.data[0]?.price.id;
-        const newPlan = newPriceId ? PLANS[newPriceId] : null;
+      // Suspended accounts keep their pinned quota until they pay or resubscribe
+      if (user && user.billingStatus !== 'suspended') {
+        // Plan storage plus storage add-on blocks
+        const newPlan = getSubscriptionPlan(sub);
         
-        if (newPlan) {
-          const newTier: UserTier = newPlan.name.toLowerCase() === 'pro' ? 'pro' : 'basic';
-          
+        // While the library is copied the record still describes the source
+        // instance; the move applies the plan when it switches the user over
+        if (newPlan && user.migrationJobId) {
+          if (!updateUserMigrationPlan(user.migrationJobId, newPlan.tier, newPlan.quotaGB)) {
+            throw new Error(`Cannot apply ${newPlan.planName} to ${user.visibleId} during library move ${user.migrationJobId}`);
+          }
+          console.log(`Plan of ${user.email} set to ${newPlan.planName} (${newPlan.quotaGB}GB) for the running library move`);
+        } else if (newPlan && (newPlan.tier !== user.tier || newPlan.quotaGB !== user.quotaGB)) {
+          // Portal changes are applied before Stripe sends this event
           // Update quota (no migration needed - both are on paid instance)
-          await updateSharedUserTier(user.visibleId, newTier, newPlan.storage);
+          const result = await updateSharedUserTier(user.visibleId, newPlan.tier, newPlan.quotaGB);
+          if (!result.success) {
+            throw new Error(`Failed to update plan for ${user.visibleId}: ${result.error}`);
+          }
           
           const customer = await stripe.customers.retrieve(sub.customer as string);
           if (!('deleted' in customer) && customer.email) {
-            await sendPlanChangeEmail(customer.email, newPlan.name, newPlan.storage, 'paid');
+            await sendPlanChangeEmail(customer.email, newPlan.planName, newPlan.quotaGB, 'paid');
           }
           
-          console.log(`Plan updated for ${user.email}: ${newPlan.name} (${newPlan.storage}GB)`);
+          console.log(`Plan updated for ${user.email}: ${newPlan.planName} (${newPlan.quotaGB}GB)`);
         }
       }
       break;
     }
   }
-
-  res.json({ received: true });
 }
 
 // =============================================================================
 // Siloed Mode Webhook Handler (Original Logic)
 // =============================================================================
 
-async function handleWebhookSiloed(event: Stripe.Event, res: Response): Promise<void> {
+async function handleWebhookSiloed(event: Stripe.Event): Promise<void> {
   switch (event.type) {
     case 'checkout.session.completed': {
       const session = event.data.object as Stripe.Checkout.Session;
@@ -229,6 +441,7 @@ async function handleWebhookSiloed(event: Stripe.Event, res: Response): Promise<
       sessionStatus.set(sessionId, { status: 'processing', message: 'Erstelle deine Cloud...' });
       
       if (session.mode === 'subscription' && customerEmail) {
+        await applyCustomerTaxStatus(session);
         const sub = await stripe.subscriptions.retrieve(session.subscription as string);
         const priceId = sub.items.data[0].price.id;
         const plan = PLANS[priceId];
@@ -284,6 +497,51 @@ async function handleWebhookSiloed(event: Stripe.Event, res: Response): Promise<
       break;
     }
 
+    case 'checkout.session.expired': {
+      handleCheckoutExpired(event.data.object as Stripe.Checkout.Session);
+      break;
+    }
+
+    case 'invoice.paid': {
+      const invoice = event.data.object as Stripe.Invoice;
+      await recordInvoice(invoice.id);
+      const customer = await stripe.customers.retrieve(invoice.customer as string);
+      if (!('deleted' in customer) && customer.metadata?.sphoto_id) {
+        // Restart an instance that was stopped for a failed payment
+        const instance = getInstance(customer.metadata.sphoto_id);
+        if (instance?.status === 'stopped') {
+          await startInstance(instance.id);
+          console.log(`Instance ${instance.id} restarted after payment`);
+        }
+      }
+      break;
+    }
+
+    case 'customer.subscription.trial_will_end': {
+      const sub = event.data.object as Stripe.Subscription;
+      const email = await getCustomerEmail(sub.customer as string);
+      if (email && sub.trial_end) {
+        await sendTrialEndingEmail(email, new Date(sub.trial_end * 1000));
+      }
+      break;
+    }
+
+    case 'charge.refunded': {
+      await handleChargeRefunded(event.data.object as Stripe.Charge);
+      break;
+    }
+
+    case 'customer.updated': {
+      const customer = event.data.object as Stripe.Customer;
+      const instanceId = customer.metadata?.sphoto_id;
+      if (instanceId && customer.email) {
+        updateInstance(instanceId, m => {
+          m.email = customer.email!;
+        });
+      }
+      break;
+    }
+
     case 'customer.subscription.deleted': {
       const sub = event.data.object as Stripe.Subscription;
       const customer = await stripe.customers.retrieve(sub.customer as string);
@@ -305,8 +563,6 @@ async function handleWebhookSiloed(event: Stripe.Event, res: Response): Promise<
       break;
     }
   }
-
-  res.json({ received: true });
 }
 
 // =============================================================================
@@ -322,7 +578,8 @@ export async function getSessionStatus(sessionId: string): Promise<SessionStatus
   
   try {
     const session = await stripe.checkout.sessions.retrieve(sessionId);
-    if (session.payment_status === 'paid') {
+    // Trials and 100% coupons complete without a payment
+    if (session.payment_status === 'paid' || session.payment_status === 'no_payment_required') {
       return { status: 'processing', message: 'Zahlung erhalten, erstelle Cloud...' };
     }
     return { status: 'pending', message: 'Warte auf Zahlung...' };
@@ -335,12 +592,33 @@ export async function getSessionStatus(sessionId: string): Promise<SessionStatus
 // Checkout Session Creation
 // =============================================================================
 
+export interface CheckoutOptions {
+  subdomain?: string;
+  platform?: Platform;
+  interval?: BillingInterval;
+  promotionCode?: string;
+  referralCode?: string;
+}
+
+// Active promotion code id for a customer-facing code, or null
+async function findPromotionCode(code: string): Promise<string | null> {
+  const result = await stripe.promotionCodes.list({ code, active: true, limit: 1 });
+  return result.data[0]?.id ?? null;
+}
+
 export async function createCheckoutSession(
-  plan: 'basic' | 'pro', 
-  subdomain?: string,
-  platform: Platform = 'immich'
-): Promise<string> {
-  const priceId = plan === 'pro' ? env.STRIPE_PRICE_PRO : env.STRIPE_PRICE_BASIC;
+  plan: PaidTier,
+  options: CheckoutOptions = {}
+): Promise<{ success: boolean; url?: string; error?: string }> {
+  const { subdomain, platform = 'immich', interval = 'month', promotionCode, referralCode } = options;
+
+  if (!PLAN_CATALOG[plan]) {
+    return { success: false, error: 'Unbekannter Plan' };
+  }
+  const priceId = PLAN_CATALOG[plan].prices[interval];
+  if (!priceId) {
+    return { success: false, error: 'Abrechnungsintervall nicht verfügbar' };
+  }
   
   const metadata: Record<string, string> = { 
     platform,
@@ -351,15 +629,35 @@ export async function createCheckoutSession(
   if (DEPLOYMENT_MODE === 'siloed' && subdomain) {
     metadata.subdomain = subdomain;
   }
+
+  // Referrals exist for shared-mode accounts only
+  if (DEPLOYMENT_MODE === 'shared' && referralCode) {
+    metadata.referral_code = referralCode;
+  }
+
+  // Stripe accepts either a preset discount or the code field on the checkout page
+  let discounts: Stripe.Checkout.SessionCreateParams.Discount[] | undefined;
+  if (promotionCode) {
+    const promotionCodeId = await findPromotionCode(promotionCode);
+    if (!promotionCodeId) {
+      return { success: false, error: 'Ungültiger oder abgelaufener Gutscheincode' };
+    }
+    discounts = [{ promotion_code: promotionCodeId }];
+  }
   
   const session = await stripe.checkout.sessions.create({
     mode: 'subscription',
     payment_method_types: ['card'],
-    line_items: [{ price: priceId, quantity: 1 }],
+    ...checkoutTaxParams(priceId),
     success_url: `https://${env.DOMAIN}/success?session_id={CHECKOUT_SESSION_ID}`,
     cancel_url: `https://${env.DOMAIN}`,
     metadata,
+    ...(discounts ? { discounts } : { allow_promotion_codes: true }),
+    subscription_data: {
+      metadata,
+      ...(CHECKOUT.trialDays > 0 ? { trial_period_days: CHECKOUT.trialDays } : {}),
+    },
   });
   
-  return session.url!;
+  return { success: true, url: session.url! };
 }
@@ -15,7 +15,7 @@ export function isValidSubdomain(subdomain: string): boolean {
 }
 
 export function isSubdomainInUse(subdomain: string): boolean {
-  // Check if instance exists in memory (has metadata.json)
+  // Check if instance is registered in the state store
   const instances = listInstances();
   if (instances.some(i => i.id === subdomain)) {
     return true;
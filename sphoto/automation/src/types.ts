@@ -3,11 +3,23 @@
 // =============================================================================
 
 export type Platform = 'immich' | 'nextcloud';
-export type UserTier = 'free' | 'basic' | 'pro';
+export type UserTier = 'free' | 'basic' | 'pro' | 'family';
+export type PaidTier = Exclude<UserTier, 'free'>;
+export type BillingInterval = 'month' | 'year';
+export type Locale = 'de' | 'en';
 
 export interface Plan {
   name: string;
   storage: number; // in GB
+  tier: PaidTier;
+  interval: BillingInterval;
+}
+
+export interface PlanDefinition {
+  name: string;
+  storage: number; // in GB
+  prices: Record<BillingInterval, string>; // Stripe price id, empty if not sold
+  maxMembers?: number; // Household plans: Immich accounts sharing the quota, owner included
 }
 
 export interface Plans {
@@ -22,6 +34,22 @@ export interface BrandingSettings {
   app_name?: string;
 }
 
+export type CustomDomainStatus = 'pending' | 'verified';
+
+export interface CustomDomain {
+  domain: string;                // e.g. photos.example.ch
+  token: string;                 // Expected TXT record value
+  status: CustomDomainStatus;
+  createdAt: string;
+  verifiedAt?: string;
+  lastCheckedAt?: string;
+  lastError?: string;            // Why the last verification failed
+}
+
+// canary: upgraded first by a rollout; stable: after the canaries soaked;
+// pinned: left out of rollouts
+export type ReleaseChannel = 'canary' | 'stable' | 'pinned';
+
 export interface InstanceMetadata {
   id: string;
   email: string;
@@ -37,6 +65,12 @@ export interface InstanceMetadata {
   branding?: BrandingSettings;
   // Custom storage path for this instance (overrides EXTERNAL_STORAGE_PATH)
   storagePath?: string;
+  locale?: Locale;               // Email language, EMAIL.defaultLocale if unset
+  customDomains?: CustomDomain[];
+  portalToken?: string;          // Portal session of the instance owner
+  portalTokenExpiresAt?: string;
+  releaseChannel?: ReleaseChannel; // 'stable' if unset
+  immichVersion?: string;        // Immich image tag, the stable version if unset
 }
 
 // =============================================================================
@@ -48,7 +82,7 @@ export interface SharedUser {
   visibleId: string;             // User-friendly ID for URLs (derived from email)
   email: string;
   immichUserId: string;          // Immich's internal user ID
-  tier: UserTier;                // 'free', 'basic', 'pro'
+  tier: UserTier;                // 'free', 'basic', 'pro', 'family'
   instance: 'free' | 'paid';     // Which shared instance they're on
   quotaGB: number;
   stripeCustomerId?: string;
@@ -62,6 +96,109 @@ export interface SharedUser {
   // Portal authentication
   portalToken?: string;          // Token for user portal access
   portalTokenExpiresAt?: string;
+  // Running library migration between shared instances
+  migrationJobId?: string;
+  // Dunning (failed payments), undefined means active
+  billingStatus?: BillingStatus;
+  billingStatusSince?: string;
+  paymentFailures?: number;
+  // Read-only grace period while suspended
+  suspensionReason?: 'payment_failed' | 'subscription_ended';
+  graceEndsAt?: string;
+  graceRemindersSent?: number[];  // Reminder days already sent (see GRACE_PERIOD.reminderDays)
+  graceActionError?: string;      // Why suspending or ending the grace period failed
+  locale?: Locale;                // Email language, EMAIL.defaultLocale if unset
+  // Referral program
+  referralCode?: string;          // Created when first shown in the portal
+  referredWith?: string;          // Code used at checkout, applied with the first payment
+  bonusGB?: number;               // Referral bonus, added to quotaGB in Immich
+  // Family plan: visibleId of the household owner (the owner's own id for the owner)
+  householdId?: string;
+  householdKey?: MigrationApiKey; // Partner-scoped key used to share this library with the household
+}
+
+// active -> past_due (payment failed) -> suspended (read-only) -> downgraded (free)
+export type BillingStatus = 'active' | 'past_due' | 'suspended' | 'downgraded';
+
+export interface StripeEventRecord {
+  id: string;                    // Stripe event id
+  type: string;
+  status: 'processing' | 'processed' | 'failed';
+  created: string;               // When Stripe created the event
+  receivedAt: string;
+  processedAt?: string;
+  attempts: number;
+  error?: string;
+}
+
+export type AdminRole = 'viewer' | 'support' | 'billing' | 'owner';
+
+export interface AdminAccount {
+  id: string;
+  name: string;
+  email?: string;
+  role: AdminRole;
+  apiKeyHash: string;            // sha256 of the API key, the key itself is shown once
+  apiKeyPrefix: string;          // First characters, to tell keys apart in the UI
+  disabled?: boolean;
+  created: string;
+  createdBy: string;
+  lastUsedAt?: string;
+}
+
+export interface AuditLogEntry {
+  id: string;
+  timestamp: string;
+  actorId: string;
+  actorName: string;
+  actorRole: AdminRole;
+  action: string;                // e.g. shared_user.tier
+  method: string;
+  path: string;
+  targetType?: AuditTargetType;
+  targetId?: string;
+  body?: unknown;
+  before?: unknown;
+  after?: unknown;
+  statusCode: number;
+}
+
+export type AuditTargetType = 'instance' | 'shared_user' | 'maintenance' | 'migration' | 'job' | 'admin' | 'settings' | 'email' | 'incident' | 'status_subscriber' | 'alert_channel' | 'referral';
+
+export interface RateLimitCounter {
+  key: string;                   // bucket:subject, e.g. signupPerIp:1.2.3.4
+  count: number;
+  resetAt: string;
+}
+
+export interface EmailVerification {
+  token: string;
+  email: string;
+  purpose: 'free_signup';
+  created: string;
+  expiresAt: string;
+  referralCode?: string;         // Applied once the account is created
+  ip?: string;
+}
+
+export type OutboxEmailStatus = 'pending' | 'sending' | 'sent' | 'failed';
+
+// Rendered message in the email outbox; retried until sent or maxAttempts
+export interface OutboxEmail {
+  id: string;                    // Starts with the creation timestamp
+  to: string;
+  subject: string;
+  html: string;
+  template: string;
+  locale: Locale;
+  status: OutboxEmailStatus;
+  transport?: string;            // Transport that sent (or last tried) it
+  attempts: number;
+  created: string;
+  nextAttemptAt?: string;
+  sentAt?: string;
+  providerMessageId?: string;
+  lastError?: string;
 }
 
 export interface SharedUserCreateResult {
@@ -76,6 +213,44 @@ export interface SharedUserMigrationResult {
   message: string;
   oldInstance?: 'free' | 'paid';
   newInstance?: 'free' | 'paid';
+  jobId?: string;
+  permanent?: boolean;           // The library can't be migrated until the user changes it, don't retry
+}
+
+// API key created for a migration or export on behalf of the user, deleted afterwards
+export interface MigrationApiKey {
+  id: string;
+  secret: string;
+}
+
+export interface UserMigrationJob {
+  id: string;
+  visibleId: string;
+  email: string;
+  sourceInstance: 'free' | 'paid';
+  targetInstance: 'free' | 'paid';
+  sourceImmichUserId: string;
+  targetImmichUserId: string;
+  newTier: UserTier;
+  quotaGB: number;
+  status: 'pending' | 'copying' | 'verifying' | 'completed' | 'failed' | 'cancelled';
+  created: string;
+  completed?: string;
+  error?: string;
+  attempts: number;
+  // Progress
+  totalAssets: number;
+  copiedAssets: number;
+  albumsCopied: number;
+  tagsCopied: number;
+  // Source asset/album id -> target id, checkpointed so a restart resumes
+  assetMap: Record<string, string>;
+  albumMap: Record<string, string>;
+  sourceKey?: MigrationApiKey;
+  targetKey?: MigrationApiKey;
+  // Source locked for the final sweep; its quota before the lock
+  sourceFrozen?: boolean;
+  sourceQuotaBytes?: number | null;
 }
 
 export interface ImmichUserCreateDto {
@@ -86,6 +261,14 @@ export interface ImmichUserCreateDto {
   shouldChangePassword?: boolean;
 }
 
+// Per-user ML features on the shared instances (SPhoto Immich fork)
+export interface ImmichUserFeatures {
+  smartSearch: boolean;
+  facialRecognition: boolean;
+  ocr: boolean;
+  duplicateDetection: boolean;
+}
+
 export interface ImmichUserResponse {
   id: string;
   email: string;
@@ -110,6 +293,39 @@ export interface ExportJob {
   fileSize?: number;
 }
 
+// One archive of a shared-mode export; large libraries are split into several
+export interface SharedExportPart {
+  file: string;                  // File name in the job's export directory
+  firstAsset: number;            // Index of its first asset in the library snapshot
+  entries: number;
+  size: number;                  // Bytes written, checkpointed while streaming
+  finished: boolean;
+}
+
+export interface SharedExportJob {
+  id: string;
+  visibleId: string;
+  email: string;
+  instance: 'free' | 'paid';
+  status: 'pending' | 'exporting' | 'completed' | 'failed';
+  // Made before a grace period deletion, announced by the deletion email
+  purpose?: 'deletion';
+  created: string;
+  completed?: string;
+  error?: string;
+  attempts: number;
+  // Progress
+  totalAssets: number;
+  exportedAssets: number;
+  skippedAssets: string[];       // Assets whose original could not be downloaded
+  // Checkpointed while streaming so a restart resumes
+  parts: SharedExportPart[];
+  apiKey?: MigrationApiKey;
+  downloadToken?: string;
+  expiresAt?: string;
+  fileSize?: number;
+}
+
 export interface CreateInstanceResult {
   success: boolean;
   password: string | null;
@@ -166,6 +382,10 @@ export interface Env {
   STRIPE_WEBHOOK_SECRET: string;
   STRIPE_PRICE_BASIC: string;
   STRIPE_PRICE_PRO: string;
+  STRIPE_PRICE_BASIC_YEARLY: string;
+  STRIPE_PRICE_PRO_YEARLY: string;
+  STRIPE_PRICE_FAMILY: string;
+  STRIPE_PRICE_FAMILY_YEARLY: string;
   RESEND_API_KEY: string;
   EMAIL_FROM: string;
   ADMIN_API_KEY: string;
@@ -0,0 +1,366 @@
+// =============================================================================
+// Usage Metering (shared instances)
+// =============================================================================
+// Once a day every shared user's storage, photo and video counts are read from
+// Immich's admin user statistics and stored as a snapshot. Daily snapshots are
+// kept for USAGE.dailyRetentionDays, then rolled up into one snapshot per week,
+// and weeks older than USAGE.weeklyRetentionWeeks into one per month. A rolled
+// up snapshot holds the levels at the end of its period and the uploads summed
+// over it, so day, week and month series can be built from any mix of them.
+
+import { USAGE } from './config';
+import { usageSnapshotRepository } from './repositories';
+import { listSharedUsers, getSharedUser, getSharedUserStats, effectiveQuotaGB, gbToBytes } from './shared-users';
+import type { UserTier } from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Beyond this the projection is not shown, growth that slow is noise
+const MAX_PROJECTION_DAYS = 5 * 365;
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type UsagePeriod = 'day' | 'week' | 'month';
+
+export const USAGE_PERIODS: UsagePeriod[] = ['day', 'week', 'month'];
+
+export interface UsageSnapshot {
+  visibleId: string;
+  period: UsagePeriod;
+  date: string;                  // YYYY-MM-DD, first day of the period
+  bytes: number;                 // Levels at the end of the period
+  photos: number;
+  videos: number;
+  uploads: number;               // Assets added during the period
+  sampledAt: string;             // Time of the latest sample in the period
+}
+
+export interface UsagePoint {
+  date: string;
+  bytes: number;
+  photos: number;
+  videos: number;
+  uploads: number;
+}
+
+export interface UserUsage {
+  visibleId: string;
+  granularity: UsagePeriod;
+  points: UsagePoint[];
+  usedBytes: number;
+  quotaBytes: number;
+  dailyGrowthBytes: number | null;
+  projectedFullAt: string | null;
+}
+
+export interface UsageGrower {
+  visibleId: string;
+  email: string;
+  tier: UserTier;
+  bytes: number;
+  growthBytes: number;           // Over the projection window
+  projectedFullAt: string | null;
+}
+
+export interface UsageOverview {
+  granularity: UsagePeriod;
+  points: UsagePoint[];          // Sum over all users
+  users: number;
+  topGrowth: UsageGrower[];
+}
+
+// =============================================================================
+// Period Helpers
+// =============================================================================
+
+function isoDate(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+function addDays(date: string, days: number): string {
+  return isoDate(new Date(new Date(date).getTime() + days * DAY_MS));
+}
+
+// Weeks start on Monday
+function weekStart(date: string): string {
+  const day = new Date(date).getUTCDay();
+  return addDays(date, -((day + 6) % 7));
+}
+
+function monthStart(date: string): string {
+  return `${date.slice(0, 7)}-01`;
+}
+
+function periodStart(date: string, period: UsagePeriod): string {
+  if (period === 'week') return weekStart(date);
+  if (period === 'month') return monthStart(date);
+  return date;
+}
+
+function periodRank(period: UsagePeriod): number {
+  return USAGE_PERIODS.indexOf(period);
+}
+
+function bySampledAt(a: UsageSnapshot, b: UsageSnapshot): number {
+  return a.sampledAt.localeCompare(b.sampledAt);
+}
+
+// =============================================================================
+// Collection
+// =============================================================================
+
+function previousDailySnapshot(visibleId: string, before: string): UsageSnapshot | null {
+  const days = usageSnapshotRepository
+    .listBy('visible_id', visibleId)
+    .filter(s => s.period === 'day' && s.date < before);
+  return days.length > 0 ? days[days.length - 1] : null;
+}
+
+// Writes today's snapshot of every shared user. Running it again on the same
+// day overwrites that day's snapshot with the newer numbers.
+export async function collectUsageSnapshots(): Promise<{ collected: number; failed: number }> {
+  const now = new Date();
+  const today = isoDate(now);
+  let collected = 0;
+  let failed = 0;
+
+  for (const user of listSharedUsers()) {
+    if (user.status === 'deleted') continue;
+
+    const result = await getSharedUserStats(user.visibleId);
+    if (!result.success || !result.stats) {
+      console.error(`Usage snapshot failed for ${user.visibleId}: ${result.error}`);
+      failed++;
+      continue;
+    }
+
+    const { usedBytes, photos, videos } = result.stats;
+    const previous = previousDailySnapshot(user.visibleId, today);
+
+    // Immich has no upload counter, so uploads are the growth of the asset count.
+    // Days with more deletions than uploads count as zero.
+    const uploads = previous
+      ? Math.max(0, photos + videos - (previous.photos + previous.videos))
+      : 0;
+
+    usageSnapshotRepository.save({
+      visibleId: user.visibleId,
+      period: 'day',
+      date: today,
+      bytes: usedBytes,
+      photos,
+      videos,
+      uploads,
+      sampledAt: now.toISOString(),
+    });
+    collected++;
+  }
+
+  return { collected, failed };
+}
+
+// =============================================================================
+// Retention and Rollup
+// =============================================================================
+
+function mergeSnapshots(visibleId: string, period: UsagePeriod, date: string, sources: UsageSnapshot[]): UsageSnapshot {
+  const sorted = [...sources].sort(bySampledAt);
+  const last = sorted[sorted.length - 1];
+  return {
+    visibleId,
+    period,
+    date,
+    bytes: last.bytes,
+    photos: last.photos,
+    videos: last.videos,
+    uploads: sorted.reduce((sum, s) => sum + s.uploads, 0),
+    sampledAt: last.sampledAt,
+  };
+}
+
+// Replaces every complete period of `from` snapshots that ended before the
+// cutoff with one snapshot of the next longer period
+function rollup(snapshots: UsageSnapshot[], from: UsagePeriod, to: UsagePeriod, cutoff: string): number {
+  const groups = new Map<string, UsageSnapshot[]>();
+  for (const snapshot of snapshots) {
+    if (snapshot.period !== from) continue;
+    const key = `${snapshot.visibleId}:${periodStart(snapshot.date, to)}`;
+    const group = groups.get(key) || [];
+    group.push(snapshot);
+    groups.set(key, group);
+  }
+
+  let rolled = 0;
+  for (const group of groups.values()) {
+    const { visibleId } = group[0];
+    const start = periodStart(group[0].date, to);
+    const end = to === 'week'
+      ? addDays(start, 6)
+      : addDays(monthStart(addDays(start, 31)), -1);
+    if (end >= cutoff) continue;
+
+    // A rollup interrupted halfway left a partial target behind, merge into it
+    const existing = usageSnapshotRepository.get(`${visibleId}:${to}:${start}`);
+    usageSnapshotRepository.save(mergeSnapshots(visibleId, to, start, existing ? [existing, ...group] : group));
+    for (const snapshot of group) {
+      usageSnapshotRepository.delete(`${visibleId}:${from}:${snapshot.date}`);
+    }
+    rolled++;
+  }
+
+  return rolled;
+}
+
+export function rollupUsageSnapshots(): { weeks: number; months: number } {
+  const today = isoDate(new Date());
+
+  const weeks = rollup(
+    usageSnapshotRepository.listBy('period', 'day'),
+    'day',
+    'week',
+    addDays(today, -USAGE.dailyRetentionDays)
+  );
+  const months = rollup(
+    usageSnapshotRepository.listBy('period', 'week'),
+    'week',
+    'month',
+    addDays(today, -USAGE.weeklyRetentionWeeks * 7)
+  );
+
+  return { weeks, months };
+}
+
+// Scheduled job: snapshot, then roll up what aged out
+export async function runUsageMetering(): Promise<void> {
+  const { collected, failed } = await collectUsageSnapshots();
+  const { weeks, months } = rollupUsageSnapshots();
+  console.log(`Usage snapshots: ${collected} collected, ${failed} failed, ${weeks} weeks and ${months} months rolled up`);
+}
+
+// =============================================================================
+// Series and Projection
+// =============================================================================
+
+// Buckets snapshots of the requested or a shorter period. Levels come from the
+// latest snapshot in a bucket, uploads are summed.
+function toSeries(snapshots: UsageSnapshot[], granularity: UsagePeriod): UsagePoint[] {
+  const buckets = new Map<string, UsagePoint>();
+  const usable = snapshots
+    .filter(s => periodRank(s.period) <= periodRank(granularity))
+    .sort(bySampledAt);
+
+  for (const snapshot of usable) {
+    const date = periodStart(snapshot.date, granularity);
+    const point = buckets.get(date) || { date, bytes: 0, photos: 0, videos: 0, uploads: 0 };
+    point.bytes = snapshot.bytes;
+    point.photos = snapshot.photos;
+    point.videos = snapshot.videos;
+    point.uploads += snapshot.uploads;
+    buckets.set(date, point);
+  }
+
+  return [...buckets.values()].sort((a, b) => a.date.localeCompare(b.date));
+}
+
+// Least squares slope of the storage over the projection window, in bytes per day
+function dailyGrowth(snapshots: UsageSnapshot[]): number | null {
+  const since = addDays(isoDate(new Date()), -USAGE.projectionDays);
+  const days = snapshots.filter(s => s.period === 'day' && s.date >= since);
+  if (days.length < 2) return null;
+
+  const xs = days.map(s => new Date(s.date).getTime() / DAY_MS);
+  const meanX = xs.reduce((sum, x) => sum + x, 0) / xs.length;
+  const meanY = days.reduce((sum, s) => sum + s.bytes, 0) / days.length;
+
+  let numerator = 0;
+  let denominator = 0;
+  days.forEach((s, i) => {
+    numerator += (xs[i] - meanX) * (s.bytes - meanY);
+    denominator += (xs[i] - meanX) ** 2;
+  });
+
+  return denominator > 0 ? numerator / denominator : null;
+}
+
+function projectFullDate(usedBytes: number, quotaBytes: number, growth: number | null): string | null {
+  if (usedBytes >= quotaBytes) return isoDate(new Date());
+  if (!growth || growth <= 0) return null;
+
+  const days = Math.ceil((quotaBytes - usedBytes) / growth);
+  if (days > MAX_PROJECTION_DAYS) return null;
+  return addDays(isoDate(new Date()), days);
+}
+
+export function getUserUsage(visibleId: string, granularity: UsagePeriod = 'day'): UserUsage | null {
+  const user = getSharedUser(visibleId);
+  if (!user) return null;
+
+  const snapshots = usageSnapshotRepository.listBy('visible_id', visibleId);
+  const points = toSeries(snapshots, granularity);
+  const usedBytes = points.length > 0 ? points[points.length - 1].bytes : 0;
+  const quotaBytes = gbToBytes(effectiveQuotaGB(user));
+  const growth = dailyGrowth(snapshots);
+
+  return {
+    visibleId,
+    granularity,
+    points,
+    usedBytes,
+    quotaBytes,
+    dailyGrowthBytes: growth === null ? null : Math.round(growth),
+    projectedFullAt: projectFullDate(usedBytes, quotaBytes, growth),
+  };
+}
+
+// Totals over all shared users and the accounts growing fastest
+export function getUsageOverview(granularity: UsagePeriod = 'day'): UsageOverview {
+  const byUser = new Map<string, UsageSnapshot[]>();
+  for (const snapshot of usageSnapshotRepository.list()) {
+    const list = byUser.get(snapshot.visibleId) || [];
+    list.push(snapshot);
+    byUser.set(snapshot.visibleId, list);
+  }
+
+  const totals = new Map<string, UsagePoint>();
+  const growers: UsageGrower[] = [];
+  const since = addDays(isoDate(new Date()), -USAGE.projectionDays);
+
+  for (const [visibleId, snapshots] of byUser) {
+    for (const point of toSeries(snapshots, granularity)) {
+      const total = totals.get(point.date) || { date: point.date, bytes: 0, photos: 0, videos: 0, uploads: 0 };
+      total.bytes += point.bytes;
+      total.photos += point.photos;
+      total.videos += point.videos;
+      total.uploads += point.uploads;
+      totals.set(point.date, total);
+    }
+
+    const user = getSharedUser(visibleId);
+    if (!user || user.status === 'deleted') continue;
+
+    const days = toSeries(snapshots.filter(s => s.period === 'day' && s.date >= since), 'day');
+    if (days.length < 2) continue;
+
+    const bytes = days[days.length - 1].bytes;
+    growers.push({
+      visibleId,
+      email: user.email,
+      tier: user.tier,
+      bytes,
+      growthBytes: bytes - days[0].bytes,
+      projectedFullAt: projectFullDate(bytes, gbToBytes(effectiveQuotaGB(user)), dailyGrowth(snapshots)),
+    });
+  }
+
+  return {
+    granularity,
+    points: [...totals.values()].sort((a, b) => a.date.localeCompare(b.date)),
+    users: byUser.size,
+    topGrowth: growers
+      .filter(g => g.growthBytes > 0)
+      .sort((a, b) => b.growthBytes - a.growthBytes)
+      .slice(0, 10),
+  };
+}
@@ -0,0 +1,648 @@
+// =============================================================================
+// Library Migration Between Shared Instances
+// =============================================================================
+// Moves a user's library from one shared Immich instance to the other (e.g.
+// Free -> Basic). Originals, favorites, archive state, descriptions, ratings,
+// albums and tags are copied through the Immich API of both instances as a
+// resumable background job. The user is only deleted on the source instance
+// once every source checksum is present on the target.
+//
+// Immich has no admin impersonation, so the job acts as the user through a
+// temporary API key on each side. Getting that key on the source requires
+// resetting the user's source password. The key survives a further password
+// change, so the user gets new source credentials right away and keeps using
+// the source instance while the copy runs. Before the final sweep the source
+// is locked (quota pinned, login and sessions revoked), so nothing can be
+// added that the sweep would miss; it is unlocked again if the job fails.
+
+import { mkdirSync } from 'fs';
+import { rm } from 'fs/promises';
+import { join } from 'path';
+import { FREE_TIER, PLAN_CATALOG } from './config';
+import {
+  getInstanceConfig,
+  immichRequest,
+  jsonBody,
+  adminKey,
+  loginAsUser,
+  createUserApiKey,
+  searchAssets,
+} from './immich-api';
+import type { ImmichAsset, ImmichAlbum, ImmichTag, ImmichAssetStats } from './immich-api';
+import { generatePassword } from './instances';
+import { sendLibraryMigratedEmail, sendLibraryMigrationLoginEmail } from './email';
+import { deliverAlert } from './alert-channels';
+import { sharedUserRepository, userMigrationRepository } from './repositories';
+import type { SharedUser, UserMigrationJob, UserTier, MigrationApiKey, ImmichUserResponse } from './types';
+
+const MIGRATIONS_DIR = '/data/migrations';
+const MAX_ATTEMPTS = 3;
+const RETRY_DELAY_MS = 15 * 60 * 1000;
+const CHECKPOINT_EVERY = 25;
+
+// Log in as the user and create an API key the job can use on their behalf
+async function createMigrationKey(
+  instance: 'free' | 'paid',
+  email: string,
+  password: string
+): Promise<MigrationApiKey> {
+  const accessToken = await loginAsUser(instance, email, password);
+  if (!accessToken) {
+    throw new Error(`Login as ${email} on ${instance} instance failed`);
+  }
+  return createUserApiKey(instance, accessToken, 'SPhoto migration');
+}
+
+// Give the user a working login on the source again after the reset above
+async function restoreSourceAccess(user: SharedUser, migrating: boolean): Promise<void> {
+  try {
+    const password = generatePassword();
+    await immichRequest<ImmichUserResponse>(
+      user.instance,
+      adminKey(user.instance),
+      `/api/admin/users/${user.immichUserId}`,
+      jsonBody('PUT', { password, shouldChangePassword: true })
+    );
+    await sendLibraryMigrationLoginEmail(user.email, user.instance, password, migrating);
+  } catch (err) {
+    console.error(`Failed to restore source access for ${user.email}:`, err);
+  }
+}
+
+// Lock the source for the final sweep: the pinned quota stops uploads from any
+// client, the new password and the dropped sessions stop edits in the apps
+async function freezeSource(job: UserMigrationJob): Promise<void> {
+  if (job.sourceFrozen) return;
+
+  const details = await immichRequest<ImmichUserResponse>(
+    job.sourceInstance,
+    adminKey(job.sourceInstance),
+    `/api/admin/users/${job.sourceImmichUserId}`
+  );
+  userMigrationRepository.update(job.id, j => {
+    j.sourceFrozen = true;
+    j.sourceQuotaBytes = details.quotaSizeInBytes;
+  });
+  await immichRequest<ImmichUserResponse>(
+    job.sourceInstance,
+    adminKey(job.sourceInstance),
+    `/api/admin/users/${job.sourceImmichUserId}`,
+    jsonBody('PUT', {
+      password: crypto.randomUUID(),
+      quotaSizeInBytes: Math.max(details.quotaUsageInBytes, 1),
+    })
+  );
+  await immichRequest<void>(job.sourceInstance, job.sourceKey!.secret, '/api/sessions', { method: 'DELETE' });
+
+  console.log(`Locked the source account of ${job.email} for the final sweep`);
+}
+
+// Undo freezeSource after a failure; the user gets a new source login
+async function unfreezeSource(job: UserMigrationJob, migrating: boolean): Promise<void> {
+  if (!job.sourceFrozen) return;
+
+  await immichRequest<ImmichUserResponse>(
+    job.sourceInstance,
+    adminKey(job.sourceInstance),
+    `/api/admin/users/${job.sourceImmichUserId}`,
+    jsonBody('PUT', { quotaSizeInBytes: job.sourceQuotaBytes ?? null })
+  );
+  userMigrationRepository.update(job.id, j => {
+    j.sourceFrozen = false;
+    j.sourceQuotaBytes = undefined;
+  });
+
+  const user = sharedUserRepository.get(job.visibleId);
+  if (user) {
+    await restoreSourceAccess(user, migrating);
+  }
+}
+
+async function sha1File(path: string): Promise<string> {
+  const hasher = new Bun.CryptoHasher('sha1');
+  for await (const chunk of Bun.file(path).stream()) {
+    hasher.update(chunk);
+  }
+  return hasher.digest('base64');
+}
+
+// =============================================================================
+// Job Lifecycle
+// =============================================================================
+
+/**
+ * Check that a library can be moved to the target instance: it has to fit
+ * into the target quota and must not contain Locked Folder items, which the
+ * API only exposes to a PIN-unlocked session.
+ */
+export async function checkMigrationPreconditions(
+  user: SharedUser,
+  quotaGB: number
+): Promise<{ ok: boolean; error?: string; permanent?: boolean }> {
+  try {
+    const details = await immichRequest<ImmichUserResponse>(
+      user.instance,
+      adminKey(user.instance),
+      `/api/admin/users/${user.immichUserId}`
+    );
+    const usedGB = details.quotaUsageInBytes / (1024 * 1024 * 1024);
+    if (usedGB > quotaGB) {
+      return { ok: false, error: `Library (${usedGB.toFixed(1)} GB) exceeds the target quota of ${quotaGB} GB`, permanent: true };
+    }
+
+    const locked = await immichRequest<ImmichAssetStats>(
+      user.instance,
+      adminKey(user.instance),
+      `/api/admin/users/${user.immichUserId}/statistics?visibility=locked`
+    );
+    if (locked.total > 0) {
+      return { ok: false, error: `${locked.total} items are in the Locked Folder and must be moved out first`, permanent: true };
+    }
+
+    return { ok: true };
+  } catch (err) {
+    return { ok: false, error: (err as Error).message };
+  }
+}
+
+/**
+ * Start copying the library of `user` to an already created target user.
+ * Creates the API keys for both sides synchronously so a failure here can be
+ * rolled back by the caller, then runs the copy in the background.
+ */
+export async function startUserMigration(options: {
+  user: SharedUser;
+  targetInstance: 'free' | 'paid';
+  targetImmichUserId: string;
+  targetPassword: string;
+  newTier: UserTier;
+  quotaGB: number;
+}): Promise<UserMigrationJob> {
+  const { user, targetInstance, targetImmichUserId, targetPassword, newTier, quotaGB } = options;
+
+  // Reset the source password so we can log in as the user there
+  const sourcePassword = crypto.randomUUID();
+  await immichRequest<ImmichUserResponse>(
+    user.instance,
+    adminKey(user.instance),
+    `/api/admin/users/${user.immichUserId}`,
+    jsonBody('PUT', { password: sourcePassword })
+  );
+  let sourceKey: MigrationApiKey;
+  let targetKey: MigrationApiKey;
+  try {
+    sourceKey = await createMigrationKey(user.instance, user.email, sourcePassword);
+    targetKey = await createMigrationKey(targetInstance, user.email, targetPassword);
+  } catch (err) {
+    await restoreSourceAccess(user, false);
+    throw err;
+  }
+  await restoreSourceAccess(user, true);
+
+  const job: UserMigrationJob = {
+    id: `${user.visibleId}-${Date.now()}`,
+    visibleId: user.visibleId,
+    email: user.email,
+    sourceInstance: user.instance,
+    targetInstance,
+    sourceImmichUserId: user.immichUserId,
+    targetImmichUserId,
+    newTier,
+    quotaGB,
+    status: 'pending',
+    created: new Date().toISOString(),
+    attempts: 0,
+    totalAssets: 0,
+    copiedAssets: 0,
+    albumsCopied: 0,
+    tagsCopied: 0,
+    assetMap: {},
+    albumMap: {},
+    sourceKey,
+    targetKey,
+  };
+
+  userMigrationRepository.save(job);
+  sharedUserRepository.update(user.visibleId, u => {
+    u.migrationJobId = job.id;
+  });
+  runUserMigration(job.id);
+
+  return job;
+}
+
+// Run the job in the background and record failures on it. A failed job is
+// retried after RETRY_DELAY_MS; after the last attempt it is given up, so the
+// user can be moved again, and the admin is alerted.
+function runUserMigration(jobId: string): void {
+  processUserMigration(jobId).catch(async err => {
+    console.error(`User migration ${jobId} failed:`, err);
+    const job = userMigrationRepository.update(jobId, j => {
+      j.status = 'failed';
+      j.error = err.message;
+    });
+    if (!job) return;
+
+    if (job.attempts < MAX_ATTEMPTS) {
+      await unfreezeSource(job, true)
+        .catch(unfreezeErr => console.error(`Failed to unlock the source account of ${job.email}:`, unfreezeErr));
+      setTimeout(() => {
+        // Unless an admin retried or cancelled it in the meantime
+        if (userMigrationRepository.get(jobId)?.status === 'failed') runUserMigration(jobId);
+      }, RETRY_DELAY_MS);
+      return;
+    }
+
+    let message = `Gave up after ${job.attempts} attempts: ${err.message}`;
+    try {
+      await abandonUserMigration(job, message);
+    } catch (cleanupErr) {
+      console.error(`Failed to clean up user migration ${jobId}:`, cleanupErr);
+      message += `. Cleanup failed, cancel the job to retry it: ${(cleanupErr as Error).message}`;
+    }
+    await deliverAlert({
+      type: 'migration_failed',
+      severity: 'critical',
+      subjectType: 'shared_user',
+      subjectId: job.visibleId,
+      title: `Library move failed: ${job.email}`,
+      message,
+      fields: { User: job.visibleId, Customer: job.email, From: job.sourceInstance, To: job.targetInstance, Job: job.id },
+      triggeredAt: new Date().toISOString(),
+    });
+  });
+}
+
+// Leave the user on the source: unlock it, drop the migration key and the
+// half-filled target account, and free the user for a new move
+async function abandonUserMigration(job: UserMigrationJob, reason: string): Promise<void> {
+  await unfreezeSource(job, false);
+  if (job.sourceKey) {
+    await immichRequest<void>(job.sourceInstance, job.sourceKey.secret, `/api/api-keys/${job.sourceKey.id}`, { method: 'DELETE' })
+      .catch(err => console.error(`Failed to delete migration API key for ${job.email}:`, err));
+  }
+  // Also removes the target key
+  await immichRequest<void>(
+    job.targetInstance,
+    adminKey(job.targetInstance),
+    `/api/admin/users/${job.targetImmichUserId}`,
+    jsonBody('DELETE', { force: true })
+  );
+  await rm(join(MIGRATIONS_DIR, job.id), { recursive: true, force: true });
+
+  userMigrationRepository.update(job.id, j => {
+    j.status = 'cancelled';
+    j.completed = new Date().toISOString();
+    j.error = reason;
+    j.sourceKey = undefined;
+    j.targetKey = undefined;
+  });
+  sharedUserRepository.update(job.visibleId, u => {
+    if (u.migrationJobId === job.id) u.migrationJobId = undefined;
+  });
+
+  console.log(`User migration ${job.id} of ${job.email} cancelled: ${reason}`);
+}
+
+async function processUserMigration(jobId: string): Promise<void> {
+  const job = userMigrationRepository.update(jobId, j => {
+    j.status = 'copying';
+    j.attempts++;
+    j.error = undefined;
+  });
+  if (!job || !job.sourceKey || !job.targetKey) return;
+
+  const source = { instance: job.sourceInstance, key: job.sourceKey.secret };
+  const target = { instance: job.targetInstance, key: job.targetKey.secret };
+
+  console.log(`Migrating library of ${job.email}: ${source.instance} -> ${target.instance} (attempt ${job.attempts})`);
+
+  const sourceAssets = await searchAssets(source.instance, source.key);
+  userMigrationRepository.update(jobId, j => {
+    j.totalAssets = sourceAssets.length;
+  });
+
+  // Step 1: Originals and per-asset state
+  const workDir = join(MIGRATIONS_DIR, jobId);
+  mkdirSync(workDir, { recursive: true });
+
+  const assetMap = { ...job.assetMap };
+  const checkpoint = () => userMigrationRepository.update(jobId, j => {
+    j.assetMap = assetMap;
+    j.copiedAssets = Object.keys(assetMap).length;
+  });
+
+  let sinceCheckpoint = 0;
+  for (const asset of sourceAssets) {
+    if (assetMap[asset.id]) continue;
+
+    assetMap[asset.id] = await copyAsset(job, source, target, asset, assetMap, workDir);
+    if (++sinceCheckpoint >= CHECKPOINT_EVERY) {
+      checkpoint();
+      sinceCheckpoint = 0;
+    }
+  }
+  checkpoint();
+
+  // The user keeps uploading to the source during the copy; lock it so this
+  // sweep sees everything
+  await freezeSource(job);
+  const sourceAssetsNow = await searchAssets(source.instance, source.key);
+  for (const asset of sourceAssetsNow) {
+    if (assetMap[asset.id]) continue;
+    assetMap[asset.id] = await copyAsset(job, source, target, asset, assetMap, workDir);
+  }
+  checkpoint();
+  userMigrationRepository.update(jobId, j => {
+    j.totalAssets = sourceAssetsNow.length;
+  });
+  await rm(workDir, { recursive: true, force: true });
+
+  // Step 2: Albums and tags
+  await copyAlbums(jobId, job.sourceImmichUserId, source, target, assetMap);
+  await copyTags(jobId, source, target, assetMap);
+
+  // Step 3: Verify before anything is deleted
+  userMigrationRepository.update(jobId, j => {
+    j.status = 'verifying';
+  });
+
+  // Nothing may have reached the source since the sweep
+  const sourceAssetsFinal = await searchAssets(source.instance, source.key);
+  const unmigrated = sourceAssetsFinal.filter(a => !assetMap[a.id]);
+  if (unmigrated.length > 0) {
+    throw new Error(`${unmigrated.length} source assets were added after the final sweep (e.g. ${unmigrated[0].originalFileName})`);
+  }
+  await verifyTargetLibrary(sourceAssetsFinal, target);
+
+  // Step 4: Switch the user over and remove the source account
+  await immichRequest<void>(
+    source.instance,
+    adminKey(source.instance),
+    `/api/admin/users/${job.sourceImmichUserId}`,
+    jsonBody('DELETE', { force: true })
+  );
+  await immichRequest<void>(target.instance, target.key, `/api/api-keys/${job.targetKey.id}`, { method: 'DELETE' })
+    .catch(err => console.error(`Failed to delete migration API key for ${job.email}:`, err));
+
+  sharedUserRepository.update(job.visibleId, u => {
+    u.immichUserId = job.targetImmichUserId;
+    u.instance = job.targetInstance;
+    u.tier = job.newTier;
+    u.quotaGB = job.quotaGB;
+    u.migrationJobId = undefined;
+  });
+
+  userMigrationRepository.update(jobId, j => {
+    j.status = 'completed';
+    j.completed = new Date().toISOString();
+    j.sourceKey = undefined;
+    j.targetKey = undefined;
+    j.sourceFrozen = undefined;
+    j.sourceQuotaBytes = undefined;
+  });
+
+  console.log(`Library migration complete for ${job.email}: ${sourceAssetsNow.length} assets`);
+
+  // Fresh credentials for the new instance - the one used at start was never shown
+  try {
+    const password = generatePassword();
+    // Also picks up a referral bonus granted while the copy was running
+    const bonusGB = sharedUserRepository.get(job.visibleId)?.bonusGB || 0;
+    await immichRequest<ImmichUserResponse>(
+      target.instance,
+      adminKey(target.instance),
+      `/api/admin/users/${job.targetImmichUserId}`,
+      jsonBody('PUT', {
+        password,
+        shouldChangePassword: true,
+        quotaSizeInBytes: (job.quotaGB + bonusGB) * 1024 * 1024 * 1024,
+      })
+    );
+    const planName = job.newTier === 'free' ? FREE_TIER.name : PLAN_CATALOG[job.newTier].name;
+    await sendLibraryMigratedEmail(job.email, planName, job.quotaGB, job.targetInstance, password, sourceAssetsNow.length);
+  } catch (err) {
+    console.error(`Failed to send new credentials to ${job.email}:`, err);
+  }
+}
+
+async function copyAsset(
+  job: UserMigrationJob,
+  source: { instance: 'free' | 'paid'; key: string },
+  target: { instance: 'free' | 'paid'; key: string },
+  asset: ImmichAsset,
+  assetMap: Record<string, string>,
+  workDir: string
+): Promise<string> {
+  const filePath = join(workDir, asset.id);
+
+  // Stream the original to disk instead of holding videos in memory
+  const download = await fetch(
+    `${getInstanceConfig(source.instance).internalUrl}/api/assets/${asset.id}/original`,
+    { headers: { 'x-api-key': source.key } }
+  );
+  if (!download.ok) {
+    throw new Error(`Download of ${asset.originalFileName} failed: ${download.status}`);
+  }
+  await Bun.write(filePath, download);
+
+  const checksum = await sha1File(filePath);
+  if (checksum !== asset.checksum) {
+    throw new Error(`Checksum mismatch for ${asset.originalFileName} (${asset.id})`);
+  }
+
+  const form = new FormData();
+  form.append('deviceAssetId', asset.deviceAssetId);
+  form.append('deviceId', asset.deviceId);
+  form.append('fileCreatedAt', asset.fileCreatedAt);
+  form.append('fileModifiedAt', asset.fileModifiedAt);
+  form.append('isFavorite', String(asset.isFavorite));
+  form.append('visibility', asset.visibility);
+  if (asset.type === 'VIDEO' && asset.duration) {
+    form.append('duration', asset.duration);
+  }
+  if (asset.livePhotoVideoId && assetMap[asset.livePhotoVideoId]) {
+    form.append('livePhotoVideoId', assetMap[asset.livePhotoVideoId]);
+  }
+  form.append('assetData', Bun.file(filePath), asset.originalFileName);
+
+  const uploaded = await immichRequest<{ id: string; status: 'created' | 'replaced' | 'duplicate' }>(
+    target.instance,
+    target.key,
+    '/api/assets',
+    {
+      method: 'POST',
+      headers: { 'x-immich-checksum': asset.checksum },
+      body: form,
+    }
+  );
+  await rm(filePath, { force: true });
+
+  // Upload does not carry description/rating; a duplicate from an earlier
+  // interrupted attempt may also be missing favorite/archive state.
+  const description = asset.exifInfo?.description || undefined;
+  const rating = asset.exifInfo?.rating ?? undefined;
+  if (description || rating !== undefined || uploaded.status === 'duplicate') {
+    await immichRequest(
+      target.instance,
+      target.key,
+      `/api/assets/${uploaded.id}`,
+      jsonBody('PUT', { description, rating, isFavorite: asset.isFavorite, visibility: asset.visibility })
+    );
+  }
+
+  return uploaded.id;
+}
+
+async function copyAlbums(
+  jobId: string,
+  sourceOwnerId: string,
+  source: { instance: 'free' | 'paid'; key: string },
+  target: { instance: 'free' | 'paid'; key: string },
+  assetMap: Record<string, string>
+): Promise<void> {
+  // Only albums the user owns - shared albums belong to someone else
+  const albums = (await immichRequest<ImmichAlbum[]>(source.instance, source.key, '/api/albums'))
+    .filter(a => a.ownerId === sourceOwnerId);
+
+  for (const album of albums) {
+    const job = userMigrationRepository.get(jobId);
+    if (!job || job.albumMap[album.id]) continue;
+
+    const albumAssets = await searchAssets(source.instance, source.key, { albumIds: [album.id] });
+    const assetIds = albumAssets.map(a => assetMap[a.id]).filter(Boolean);
+
+    const created = await immichRequest<ImmichAlbum>(
+      target.instance,
+      target.key,
+      '/api/albums',
+      jsonBody('POST', { albumName: album.albumName, description: album.description, assetIds })
+    );
+
+    userMigrationRepository.update(jobId, j => {
+      j.albumMap[album.id] = created.id;
+      j.albumsCopied = Object.keys(j.albumMap).length;
+    });
+  }
+}
+
+async function copyTags(
+  jobId: string,
+  source: { instance: 'free' | 'paid'; key: string },
+  target: { instance: 'free' | 'paid'; key: string },
+  assetMap: Record<string, string>
+): Promise<void> {
+  const tags = await immichRequest<ImmichTag[]>(source.instance, source.key, '/api/tags');
+  if (tags.length === 0) return;
+
+  // Upsert by full value ("parent/child") so hierarchy and reruns are handled
+  const targetTags = await immichRequest<ImmichTag[]>(
+    target.instance,
+    target.key,
+    '/api/tags',
+    jsonBody('PUT', { tags: tags.map(t => t.value) })
+  );
+  const targetByValue = new Map(targetTags.map(t => [t.value, t.id]));
+
+  for (const tag of tags) {
+    const targetTagId = targetByValue.get(tag.value);
+    if (!targetTagId) continue;
+
+    const taggedAssets = await searchAssets(source.instance, source.key, { tagIds: [tag.id] });
+    const ids = taggedAssets.map(a => assetMap[a.id]).filter(Boolean);
+    if (ids.length > 0) {
+      await immichRequest(target.instance, target.key, `/api/tags/${targetTagId}/assets`, jsonBody('PUT', { ids }));
+    }
+  }
+
+  userMigrationRepository.update(jobId, j => {
+    j.tagsCopied = tags.length;
+  });
+}
+
+async function verifyTargetLibrary(
+  sourceAssets: ImmichAsset[],
+  target: { instance: 'free' | 'paid'; key: string }
+): Promise<void> {
+  const targetAssets = await searchAssets(target.instance, target.key);
+  if (targetAssets.length < sourceAssets.length) {
+    throw new Error(`Verification failed: ${targetAssets.length}/${sourceAssets.length} assets on target`);
+  }
+
+  const targetChecksums = new Set(targetAssets.map(a => a.checksum));
+  const missing = sourceAssets.filter(a => !targetChecksums.has(a.checksum));
+  if (missing.length > 0) {
+    throw new Error(`Verification failed: ${missing.length} checksums missing on target (e.g. ${missing[0].originalFileName})`);
+  }
+}
+
+// =============================================================================
+// Queries & Recovery
+// =============================================================================
+
+export function getUserMigrationJob(jobId: string): UserMigrationJob | null {
+  return userMigrationRepository.get(jobId);
+}
+
+export function listUserMigrationJobs(visibleId?: string): UserMigrationJob[] {
+  if (visibleId) {
+    return userMigrationRepository.listBy('visible_id', visibleId);
+  }
+  return userMigrationRepository.list();
+}
+
+// Retry a failed job; it continues from its last checkpoint
+export function retryUserMigration(jobId: string): { success: boolean; error?: string } {
+  const job = userMigrationRepository.get(jobId);
+  if (!job) return { success: false, error: 'Migration not found' };
+  if (job.status !== 'failed') return { success: false, error: `Migration is ${job.status}` };
+
+  runUserMigration(jobId);
+  return { success: true };
+}
+
+/**
+ * Apply a plan change made while the library is copied: the user record and
+ * the target quota are switched to the job's tier and quota on completion.
+ * Returns false if the job is over or the plan belongs to the other instance.
+ */
+export function updateUserMigrationPlan(jobId: string, tier: UserTier, quotaGB: number): boolean {
+  const job = userMigrationRepository.get(jobId);
+  if (!job || job.status === 'completed' || job.status === 'cancelled') return false;
+  if ((tier === 'free' ? 'free' : 'paid') !== job.targetInstance) return false;
+
+  userMigrationRepository.update(jobId, j => {
+    j.newTier = tier;
+    j.quotaGB = quotaGB;
+  });
+  return true;
+}
+
+// Give up a failed job; running ones have to fail (or finish) first
+export async function cancelUserMigration(jobId: string): Promise<{ success: boolean; error?: string }> {
+  const job = userMigrationRepository.get(jobId);
+  if (!job) return { success: false, error: 'Migration not found' };
+  if (job.status !== 'failed') return { success: false, error: `Migration is ${job.status}` };
+
+  try {
+    await abandonUserMigration(job, 'Cancelled by an admin');
+    return { success: true };
+  } catch (err) {
+    return { success: false, error: (err as Error).message };
+  }
+}
+
+// Resume jobs interrupted by a restart, and retry failed ones a few times
+export function resumeUserMigrations(): number {
+  const resumable = userMigrationRepository.list().filter(j =>
+    j.status === 'pending' || j.status === 'copying' || j.status === 'verifying' ||
+    (j.status === 'failed' && j.attempts < MAX_ATTEMPTS)
+  );
+
+  for (const job of resumable) {
+    console.log(`Resuming user migration ${job.id} (${job.copiedAssets}/${job.totalAssets} assets copied)`);
+    runUserMigration(job.id);
+  }
+
+  return resumable.length;
+}
@@ -0,0 +1,230 @@
+// =============================================================================
+// Streaming ZIP Writer
+// =============================================================================
+// Writes an uncompressed ZIP64 archive entry by entry without knowing sizes
+// up front, so originals can be piped straight from the Immich API to disk.
+// Photos and videos are already compressed - storing them keeps the export
+// fast and the CRC is the only per-byte work.
+//
+// The central directory records of the entries written so far are appended
+// to `<archive>.entries` (one JSON line per entry). Together with the byte
+// offset this is the checkpoint: a resumed writer truncates both back to it
+// and continues with the next entry. The log is left in place after
+// finish() so the caller can drop it once the finished state is persisted.
+
+import { open, readFile, writeFile, appendFile } from 'fs/promises';
+import type { FileHandle } from 'fs/promises';
+import { crc32 } from 'zlib';
+
+const LOCAL_HEADER_SIG = 0x04034b50;
+const DATA_DESCRIPTOR_SIG = 0x08074b50;
+const CENTRAL_HEADER_SIG = 0x02014b50;
+const ZIP64_EOCD_SIG = 0x06064b50;
+const ZIP64_LOCATOR_SIG = 0x07064b50;
+const EOCD_SIG = 0x06054b50;
+
+const ZIP64_VERSION = 45;
+// Sizes follow in the data descriptor, names are UTF-8
+const FLAGS = 0x0008 | 0x0800;
+const MAX_16 = 0xffff;
+const MAX_32 = 0xffffffff;
+
+export interface ZipEntry {
+  name: string;
+  offset: number;                // Local header offset
+  size: number;
+  crc: number;
+  modified: string;
+}
+
+export interface ZipCheckpoint {
+  offset: number;
+  entries: number;
+}
+
+export interface ZipWriter {
+  checkpoint(): ZipCheckpoint;
+  addFile(name: string, data: Uint8Array | AsyncIterable<Uint8Array>, modified: Date): Promise<ZipEntry>;
+  // Writes the central directory and closes the file; resolves with the archive size
+  finish(): Promise<number>;
+  close(): Promise<void>;
+}
+
+function dosDateTime(date: Date): { time: number; date: number } {
+  const year = Math.max(date.getFullYear(), 1980);
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+function localHeader(name: Buffer, modified: Date): Buffer {
+  const { time, date } = dosDateTime(modified);
+  const header = Buffer.alloc(30 + name.length + 20);
+  header.writeUInt32LE(LOCAL_HEADER_SIG, 0);
+  header.writeUInt16LE(ZIP64_VERSION, 4);
+  header.writeUInt16LE(FLAGS, 6);
+  header.writeUInt16LE(0, 8);                  // Stored
+  header.writeUInt16LE(time, 10);
+  header.writeUInt16LE(date, 12);
+  header.writeUInt32LE(0, 14);                 // CRC in data descriptor
+  header.writeUInt32LE(MAX_32, 18);
+  header.writeUInt32LE(MAX_32, 22);
+  header.writeUInt16LE(name.length, 26);
+  header.writeUInt16LE(20, 28);
+  name.copy(header, 30);
+  // Zip64 extra field, sizes in data descriptor
+  const extra = 30 + name.length;
+  header.writeUInt16LE(0x0001, extra);
+  header.writeUInt16LE(16, extra + 2);
+  return header;
+}
+
+function dataDescriptor(crc: number, size: number): Buffer {
+  const descriptor = Buffer.alloc(24);
+  descriptor.writeUInt32LE(DATA_DESCRIPTOR_SIG, 0);
+  descriptor.writeUInt32LE(crc, 4);
+  descriptor.writeBigUInt64LE(BigInt(size), 8);
+  descriptor.writeBigUInt64LE(BigInt(size), 16);
+  return descriptor;
+}
+
+function centralHeader(entry: ZipEntry): Buffer {
+  const name = Buffer.from(entry.name, 'utf8');
+  const { time, date } = dosDateTime(new Date(entry.modified));
+  const header = Buffer.alloc(46 + name.length + 28);
+  header.writeUInt32LE(CENTRAL_HEADER_SIG, 0);
+  header.writeUInt16LE(ZIP64_VERSION, 4);
+  header.writeUInt16LE(ZIP64_VERSION, 6);
+  header.writeUInt16LE(FLAGS, 8);
+  header.writeUInt16LE(0, 10);
+  header.writeUInt16LE(time, 12);
+  header.writeUInt16LE(date, 14);
+  header.writeUInt32LE(entry.crc, 16);
+  header.writeUInt32LE(MAX_32, 20);
+  header.writeUInt32LE(MAX_32, 24);
+  header.writeUInt16LE(name.length, 28);
+  header.writeUInt16LE(28, 30);
+  // Comment length, disk, internal and external attributes stay 0
+  header.writeUInt32LE(MAX_32, 42);
+  name.copy(header, 46);
+  const extra = 46 + name.length;
+  header.writeUInt16LE(0x0001, extra);
+  header.writeUInt16LE(24, extra + 2);
+  header.writeBigUInt64LE(BigInt(entry.size), extra + 4);
+  header.writeBigUInt64LE(BigInt(entry.size), extra + 12);
+  header.writeBigUInt64LE(BigInt(entry.offset), extra + 20);
+  return header;
+}
+
+function endRecords(entries: number, directoryOffset: number, directorySize: number): Buffer {
+  const end = Buffer.alloc(56 + 20 + 22);
+
+  end.writeUInt32LE(ZIP64_EOCD_SIG, 0);
+  end.writeBigUInt64LE(44n, 4);
+  end.writeUInt16LE(ZIP64_VERSION, 12);
+  end.writeUInt16LE(ZIP64_VERSION, 14);
+  end.writeBigUInt64LE(BigInt(entries), 24);
+  end.writeBigUInt64LE(BigInt(entries), 32);
+  end.writeBigUInt64LE(BigInt(directorySize), 40);
+  end.writeBigUInt64LE(BigInt(directoryOffset), 48);
+
+  end.writeUInt32LE(ZIP64_LOCATOR_SIG, 56);
+  end.writeBigUInt64LE(BigInt(directoryOffset + directorySize), 64);
+  end.writeUInt32LE(1, 72);
+
+  // Classic record for tools without zip64 support, saturated where it overflows
+  end.writeUInt32LE(EOCD_SIG, 76);
+  end.writeUInt16LE(Math.min(entries, MAX_16), 84);
+  end.writeUInt16LE(Math.min(entries, MAX_16), 86);
+  end.writeUInt32LE(Math.min(directorySize, MAX_32), 88);
+  end.writeUInt32LE(Math.min(directoryOffset, MAX_32), 92);
+  return end;
+}
+
+async function readEntries(path: string, count: number): Promise<ZipEntry[]> {
+  if (count === 0) return [];
+  const lines = (await readFile(path, 'utf8')).split('\n').filter(Boolean);
+  if (lines.length < count) {
+    throw new Error(`Entry log ${path} has ${lines.length} entries, checkpoint expects ${count}`);
+  }
+  return lines.slice(0, count).map(line => JSON.parse(line) as ZipEntry);
+}
+
+/**
+ * Open an archive for writing. Without `resume` any existing file is
+ * replaced; with it, the archive and its entry log are cut back to the
+ * checkpoint so entries written after it are written again.
+ */
+export async function openZipWriter(path: string, resume?: ZipCheckpoint): Promise<ZipWriter> {
+  const entriesPath = `${path}.entries`;
+  let entries: ZipEntry[] = [];
+  let offset = 0;
+  let file: FileHandle;
+
+  if (resume) {
+    entries = await readEntries(entriesPath, resume.entries);
+    offset = resume.offset;
+    await writeFile(entriesPath, entries.map(e => JSON.stringify(e) + '\n').join(''));
+    file = await open(path, 'r+');
+    await file.truncate(offset);
+  } else {
+    await writeFile(entriesPath, '');
+    file = await open(path, 'w');
+  }
+
+  async function write(buffer: Uint8Array): Promise<void> {
+    let written = 0;
+    while (written < buffer.length) {
+      const result = await file.write(buffer, written, buffer.length - written, offset + written);
+      written += result.bytesWritten;
+    }
+    offset += buffer.length;
+  }
+
+  return {
+    checkpoint() {
+      return { offset, entries: entries.length };
+    },
+
+    async addFile(name, data, modified) {
+      const start = offset;
+      let crc = 0;
+      let size = 0;
+      try {
+        await write(localHeader(Buffer.from(name, 'utf8'), modified));
+        const chunks = data instanceof Uint8Array ? [data] : data;
+        for await (const chunk of chunks) {
+          crc = crc32(chunk, crc);
+          size += chunk.length;
+          await write(chunk);
+        }
+        await write(dataDescriptor(crc, size));
+      } catch (err) {
+        // Drop the partial entry so the caller can skip it and go on
+        offset = start;
+        await file.truncate(start);
+        throw err;
+      }
+
+      const entry: ZipEntry = { name, offset: start, size, crc, modified: modified.toISOString() };
+      entries.push(entry);
+      await appendFile(entriesPath, JSON.stringify(entry) + '\n');
+      return entry;
+    },
+
+    async finish() {
+      const directoryOffset = offset;
+      for (const entry of entries) {
+        await write(centralHeader(entry));
+      }
+      await write(endRecords(entries.length, directoryOffset, offset - directoryOffset));
+      await file.close();
+      return offset;
+    },
+
+    async close() {
+      await file.close();
+    },
+  };
+}
@@ -0,0 +1,482 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import {
+  ArrowLeft,
+  CheckCircle,
+  History,
+  KeyRound,
+  RefreshCw,
+  ShieldCheck,
+  Trash2,
+  UserPlus,
+  XCircle,
+} from "lucide-react"
+import Link from "next/link"
+
+const API_URL = process.env.NEXT_PUBLIC_API_URL || "https://api.sphoto.arturf.ch"
+
+type AdminRole = "viewer" | "support" | "billing" | "owner"
+
+interface AdminAccount {
+  id: string
+  name: string
+  email?: string
+  role: AdminRole
+  apiKeyPrefix: string
+  disabled?: boolean
+  created: string
+  createdBy: string
+  lastUsedAt?: string
+}
+
+interface AuditLogEntry {
+  id: string
+  timestamp: string
+  actorName: string
+  actorRole: AdminRole
+  action: string
+  method: string
+  path: string
+  targetType?: string
+  targetId?: string
+  body?: unknown
+  before?: unknown
+  after?: unknown
+  statusCode: number
+}
+
+const roleLabels: Record<AdminRole, string> = {
+  viewer: "Viewer",
+  support: "Support",
+  billing: "Billing",
+  owner: "Owner",
+}
+
+const roleDescriptions: Record<AdminRole, string> = {
+  viewer: "Nur lesen",
+  support: "Instanzen, Migrationen, Exporte, Wartung",
+  billing: "Pläne, Quotas, Mahnwesen",
+  owner: "Alles inkl. Löschen und Admin-Verwaltung",
+}
+
+function formatDate(dateStr: string): string {
+  return new Date(dateStr).toLocaleString("de-CH", {
+    day: "2-digit",
+    month: "2-digit",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  })
+}
+
+export default function AccessPage() {
+  const [apiKey, setApiKey] = useState("")
+  const [isAuthed, setIsAuthed] = useState(false)
+  const [me, setMe] = useState<AdminAccount | null>(null)
+  const [accounts, setAccounts] = useState<AdminAccount[]>([])
+  const [entries, setEntries] = useState<AuditLogEntry[]>([])
+  const [expandedEntry, setExpandedEntry] = useState<string | null>(null)
+  const [targetFilter, setTargetFilter] = useState("")
+  const [appliedFilter, setAppliedFilter] = useState("")
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [success, setSuccess] = useState<string | null>(null)
+  const [newKey, setNewKey] = useState<{ name: string; apiKey: string } | null>(null)
+  const [newName, setNewName] = useState("")
+  const [newEmail, setNewEmail] = useState("")
+  const [newRole, setNewRole] = useState<AdminRole>("viewer")
+
+  useEffect(() => {
+    const stored = typeof window !== "undefined" ? localStorage.getItem("admin_api_key") : null
+    if (stored) {
+      setApiKey(stored)
+      setIsAuthed(true)
+    }
+  }, [])
+
+  const api = useCallback(async (endpoint: string, method: string = "GET", body?: unknown) => {
+    setError(null)
+    const res = await fetch(`${API_URL}${endpoint}`, {
+      method,
+      headers: {
+        "x-api-key": apiKey,
+        "Content-Type": "application/json",
+      },
+      body: body ? JSON.stringify(body) : undefined,
+    })
+
+    if (res.status === 401) {
+      localStorage.removeItem("admin_api_key")
+      setIsAuthed(false)
+      throw new Error("API Key ungültig")
+    }
+
+    if (!res.ok) {
+      const err = await res.json().catch(() => ({ error: "Unknown error" }))
+      throw new Error(err.error || `Error ${res.status}`)
+    }
+
+    return res.json()
+  }, [apiKey])
+
+  const loadData = useCallback(async () => {
+    if (!apiKey) return
+    setLoading(true)
+    try {
+      const current: AdminAccount = await api("/api/admin/me")
+      setMe(current)
+      const query = appliedFilter ? `?target=${encodeURIComponent(appliedFilter)}` : ""
+      const audit = await api(`/api/admin/audit${query}`)
+      setEntries(audit.entries)
+      if (current.role === "owner") {
+        const data = await api("/api/admin/accounts")
+        setAccounts(data.accounts)
+      }
+    } catch (err) {
+      setError((err as Error).message)
+    } finally {
+      setLoading(false)
+    }
+  }, [api, apiKey, appliedFilter])
+
+  useEffect(() => {
+    if (isAuthed) {
+      loadData()
+    }
+  }, [isAuthed, loadData])
+
+  const handleCreate = async () => {
+    setSuccess(null)
+    try {
+      const result = await api("/api/admin/accounts", "POST", {
+        name: newName,
+        email: newEmail || undefined,
+        role: newRole,
+      })
+      setNewKey({ name: result.account.name, apiKey: result.apiKey })
+      setNewName("")
+      setNewEmail("")
+      setNewRole("viewer")
+      await loadData()
+    } catch (err) {
+      setError((err as Error).message)
+    }
+  }
+
+  const handleRoleChange = async (account: AdminAccount, role: AdminRole) => {
+    try {
+      await api(`/api/admin/accounts/${account.id}`, "PUT", { role })
+      setSuccess(`${account.name} ist jetzt ${roleLabels[role]}.`)
+      await loadData()
+    } catch (err) {
+      setError((err as Error).message)
+    }
+  }
+
+  const handleToggleDisabled = async (account: AdminAccount) => {
+    try {
+      await api(`/api/admin/accounts/${account.id}`, "PUT", { disabled: !account.disabled })
+      setSuccess(`${account.name} wurde ${account.disabled ? "aktiviert" : "deaktiviert"}.`)
+      await loadData()
+    } catch (err) {
+      setError((err as Error).message)
+    }
+  }
+
+  const handleRotateKey = async (account: AdminAccount) => {
+    if (!confirm(`Neuen API Key für ${account.name} erstellen? Der alte Key funktioniert danach nicht mehr.`)) return
+    try {
+      const result = await api(`/api/admin/accounts/${account.id}/rotate-key`, "POST")
+      setNewKey({ name: account.name, apiKey: result.apiKey })
+      await loadData()
+    } catch (err) {
+      setError((err as Error).message)
+    }
+  }
+
+  const handleDelete = async (account: AdminAccount) => {
+    if (!confirm(`Admin ${account.name} wirklich löschen?`)) return
+    try {
+      await api(`/api/admin/accounts/${account.id}`, "DELETE")
+      setSuccess(`${account.name} wurde gelöscht.`)
+      await loadData()
+    } catch (err) {
+      setError((err as Error).message)
+    }
+  }
+
+  const handleLogin = () => {
+    if (!apiKey) return
+    localStorage.setItem("admin_api_key", apiKey)
+    setIsAuthed(true)
+  }
+
+  if (!isAuthed) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background px-4">
+        <Card className="w-full max-w-md">
+          <CardHeader>
+            <CardTitle>Admin Login</CardTitle>
+            <CardDescription>API Key eingeben</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <Input
+              type="password"
+              placeholder="Admin API Key"
+              value={apiKey}
+              onChange={(e) => setApiKey(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && handleLogin()}
+            />
+            <Button className="w-full" onClick={handleLogin}>
+              Anmelden
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b bg-background/80 backdrop-blur sticky top-0 z-20">
+        <div className="container mx-auto flex items-center gap-4 px-4 py-4">
+          <Link href="/admin" className="flex items-center gap-2 text-muted-foreground hover:text-foreground">
+            <ArrowLeft className="h-4 w-4" />
+            Zurück
+          </Link>
+          <div className="flex-1">
+            <h1 className="text-xl font-semibold flex items-center gap-2">
+              <ShieldCheck className="h-5 w-5 text-primary" />
+              Zugriff & Audit-Log
+            </h1>
+            <p className="text-sm text-muted-foreground">
+              {me ? `Angemeldet als ${me.name} (${roleLabels[me.role]})` : "Admin-Konten und Änderungsprotokoll"}
+            </p>
+          </div>
+          <Button variant="outline" size="sm" onClick={loadData} disabled={loading}>
+            <RefreshCw className={`h-4 w-4 ${loading ? "animate-spin" : ""}`} />
+          </Button>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 space-y-6">
+        {error && (
+          <div className="rounded-lg border border-destructive/30 bg-destructive/10 p-4 text-sm text-destructive flex items-center gap-2">
+            <XCircle className="h-4 w-4" />
+            {error}
+          </div>
+        )}
+
+        {success && (
+          <div className="rounded-lg border border-green-500/30 bg-green-500/10 p-4 text-sm text-green-600 flex items-center gap-2">
+            <CheckCircle className="h-4 w-4" />
+            {success}
+          </div>
+        )}
+
+        {newKey && (
+          <Card className="border-amber-500/50 bg-amber-500/10">
+            <CardContent className="space-y-2 p-4">
+              <p className="font-medium flex items-center gap-2">
+                <KeyRound className="h-4 w-4" />
+                API Key für {newKey.name}
+              </p>
+              <p className="text-sm text-muted-foreground">
+                Jetzt kopieren – der Key wird nicht noch einmal angezeigt.
+              </p>
+              <code className="block rounded bg-background p-2 text-sm break-all">{newKey.apiKey}</code>
+              <Button variant="outline" size="sm" onClick={() => setNewKey(null)}>
+                Ausblenden
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+
+        {me?.role === "owner" && (
+          <div className="grid gap-6 lg:grid-cols-[2fr,1fr]">
+            <Card>
+              <CardHeader>
+                <CardTitle>Admin-Konten</CardTitle>
+                <CardDescription>Jedes Konto hat einen eigenen API Key und eine Rolle</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {accounts.length === 0 && (
+                  <p className="text-muted-foreground">
+                    Noch keine Konten – aktuell gilt nur der ADMIN_API_KEY aus der Konfiguration.
+                  </p>
+                )}
+                <div className="space-y-2">
+                  {accounts.map(account => (
+                    <div key={account.id} className="flex flex-wrap items-center justify-between gap-2 py-2 border-b last:border-0">
+                      <div>
+                        <p className="font-medium flex items-center gap-2">
+                          {account.name}
+                          {account.disabled && <Badge variant="secondary">Deaktiviert</Badge>}
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          {account.email || "Keine E-Mail"} · Key {account.apiKeyPrefix}… ·{" "}
+                          {account.lastUsedAt ? `zuletzt ${formatDate(account.lastUsedAt)}` : "nie benutzt"}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <select
+                          value={account.role}
+                          onChange={(e) => handleRoleChange(account, e.target.value as AdminRole)}
+                          disabled={account.id === me.id}
+                          className="h-9 rounded-md border border-input bg-background px-2 text-sm"
+                        >
+                          {Object.entries(roleLabels).map(([role, label]) => (
+                            <option key={role} value={role}>{label}</option>
+                          ))}
+                        </select>
+                        <Button variant="outline" size="sm" onClick={() => handleRotateKey(account)}>
+                          <KeyRound className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleToggleDisabled(account)}
+                          disabled={account.id === me.id}
+                        >
+                          {account.disabled ? "Aktivieren" : "Deaktivieren"}
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleDelete(account)}
+                          disabled={account.id === me.id}
+                        >
+                          <Trash2 className="h-4 w-4 text-destructive" />
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <UserPlus className="h-5 w-5" />
+                  Neues Konto
+                </CardTitle>
+                <CardDescription>Der API Key wird einmalig angezeigt</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div>
+                  <label className="text-sm font-medium">Name</label>
+                  <Input
+                    placeholder="z.B. anna"
+                    value={newName}
+                    onChange={(e) => setNewName(e.target.value)}
+                    className="mt-1"
+                  />
+                </div>
+                <div>
+                  <label className="text-sm font-medium">E-Mail (optional)</label>
+                  <Input
+                    type="email"
+                    value={newEmail}
+                    onChange={(e) => setNewEmail(e.target.value)}
+                    className="mt-1"
+                  />
+                </div>
+                <div>
+                  <label className="text-sm font-medium">Rolle</label>
+                  <select
+                    value={newRole}
+                    onChange={(e) => setNewRole(e.target.value as AdminRole)}
+                    className="mt-1 h-10 w-full rounded-md border border-input bg-background px-3 text-sm"
+                  >
+                    {Object.entries(roleLabels).map(([role, label]) => (
+                      <option key={role} value={role}>{label}</option>
+                    ))}
+                  </select>
+                  <p className="mt-1 text-xs text-muted-foreground">{roleDescriptions[newRole]}</p>
+                </div>
+                <Button className="w-full" onClick={handleCreate} disabled={!newName.trim()}>
+                  Konto erstellen
+                </Button>
+              </CardContent>
+            </Card>
+          </div>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <History className="h-5 w-5" />
+              Audit-Log
+            </CardTitle>
+            <CardDescription>Alle ändernden Admin-Aktionen, neueste zuerst</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex gap-2">
+              <Input
+                placeholder="Nach Instanz oder User-ID filtern"
+                value={targetFilter}
+                onChange={(e) => setTargetFilter(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && setAppliedFilter(targetFilter.trim())}
+              />
+              <Button variant="outline" onClick={() => setAppliedFilter(targetFilter.trim())} disabled={loading}>
+                Suchen
+              </Button>
+            </div>
+            {!loading && entries.length === 0 && (
+              <p className="text-muted-foreground">Keine Einträge</p>
+            )}
+            <div className="space-y-1">
+              {entries.map(entry => (
+                <div key={entry.id} className="border-b last:border-0">
+                  <button
+                    className="flex w-full flex-wrap items-center justify-between gap-2 py-2 text-left"
+                    onClick={() => setExpandedEntry(expandedEntry === entry.id ? null : entry.id)}
+                  >
+                    <div>
+                      <p className="font-medium">
+                        {entry.action}
+                        {entry.targetId && <span className="text-muted-foreground"> · {entry.targetId}</span>}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {formatDate(entry.timestamp)} · {entry.actorName} ({roleLabels[entry.actorRole]})
+                      </p>
+                    </div>
+                    <Badge variant={entry.statusCode < 400 ? "outline" : "destructive"}>
+                      {entry.statusCode}
+                    </Badge>
+                  </button>
+                  {expandedEntry === entry.id && (
+                    <div className="grid gap-2 pb-3 text-xs md:grid-cols-3">
+                      {(["body", "before", "after"] as const).map(field => (
+                        <div key={field}>
+                          <p className="font-medium mb-1">
+                            {field === "body" ? "Anfrage" : field === "before" ? "Vorher" : "Nachher"}
+                          </p>
+                          <pre className="max-h-64 overflow-auto rounded bg-muted p-2">
+                            {entry[field] === undefined ? "—" : JSON.stringify(entry[field], null, 2)}
+                          </pre>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  )
+}
@@ -23,6 +23,9 @@ import {
   XCircle,
   Users,
   Server,
+  Webhook,
+  Trash2,
+  Plus,
 } from "lucide-react"
 import Link from "next/link"
 
@@ -30,6 +33,7 @@ const API_URL = process.env.NEXT_PUBLIC_API_URL || "https://api.sphoto.arturf.ch
 
 interface AlertSummary {
   instanceId: string
+  subjectType: "instance" | "shared_user" | "shared_instance"
   type: string
   triggeredAt: string
   recipient: "customer" | "admin" | "both"
@@ -46,6 +50,33 @@ interface AlertHistory {
   }
 }
 
+interface AlertChannel {
+  id: string
+  name: string
+  type: string
+  enabled: boolean
+  alertTypes: string[]
+  target: string
+  hasSecret: boolean
+  created: string
+  lastDeliveryAt?: string
+  lastError?: string
+}
+
+const channelTypeLabels: Record<string, string> = {
+  email: "E-Mail",
+  webhook: "Webhook (signiert)",
+  ntfy: "ntfy",
+  discord: "Discord",
+  slack: "Slack-kompatibel",
+}
+
+const subjectTypeLabels: Record<AlertSummary["subjectType"], string> = {
+  instance: "Instanz",
+  shared_user: "Shared User",
+  shared_instance: "Shared Instanz",
+}
+
 const alertTypeLabels: Record<string, string> = {
   storage_80: "Speicher 80%",
   storage_90: "Speicher 90%",
@@ -54,6 +85,7 @@ const alertTypeLabels: Record<string, string> = {
   churn_risk: "Churn Risk",
   instance_down: "Instance Down",
   backup_failed: "Backup Failed",
+  migration_failed: "Migration Failed",
 }
 
 const alertTypeIcons: Record<string, string> = {
@@ -64,6 +96,7 @@ const alertTypeIcons: Record<string, string> = {
   churn_risk: "📉",
   instance_down: "🚨",
   backup_failed: "💾",
+  migration_failed: "📦",
 }
 
 function formatDate(dateStr: string): string {
@@ -99,6 +132,14 @@ export default function AlertsPage() {
   const [testInstanceId, setTestInstanceId] = useState("")
   const [testAlertType, setTestAlertType] = useState("storage_80")
   const [sendingTest, setSendingTest] = useState(false)
+  const [channels, setChannels] = useState<AlertChannel[]>([])
+  const [channelName, setChannelName] = useState("")
+  const [channelType, setChannelType] = useState("webhook")
+  const [channelTarget, setChannelTarget] = useState("")
+  const [channelSecret, setChannelSecret] = useState("")
+  const [channelAlertTypes, setChannelAlertTypes] = useState<string[]>(["storage_100", "instance_down", "backup_failed"])
+  const [savingChannel, setSavingChannel] = useState(false)
+  const [newSecret, setNewSecret] = useState<string | null>(null)
 
   useEffect(() => {
     const stored = typeof window !== "undefined" ? localStorage.getItem("admin_api_key") : null
@@ -146,11 +187,22 @@ export default function AlertsPage() {
     }
   }, [api, apiKey])
 
+  const loadChannels = useCallback(async () => {
+    if (!apiKey) return
+    try {
+      const data = await api("/api/admin/alerts/channels")
+      setChannels(data)
+    } catch (err) {
+      setError((err as Error).message)
+    }
+  }, [api, apiKey])
+
   useEffect(() => {
     if (isAuthed) {
       loadAlerts()
+      loadChannels()
     }
-  }, [isAuthed, loadAlerts])
+  }, [isAuthed, loadAlerts, loadChannels])
 
   const handleCheckAlerts = async () => {
     setChecking(true)
@@ -183,6 +235,66 @@ export default function AlertsPage() {
     }
   }
 
+  const toggleChannelAlertType = (type: string) => {
+    setChannelAlertTypes(prev => prev.includes(type) ? prev.filter(t => t !== type) : [...prev, type])
+  }
+
+  const handleCreateChannel = async () => {
+    setSavingChannel(true)
+    setSuccess(null)
+    setNewSecret(null)
+    try {
+      const result = await api("/api/admin/alerts/channels", "POST", {
+        name: channelName,
+        type: channelType,
+        target: channelTarget,
+        alertTypes: channelAlertTypes,
+        secret: channelSecret || undefined,
+      })
+      if (result.secret) setNewSecret(result.secret)
+      setSuccess(`Kanal "${channelName}" erstellt.`)
+      setChannelName("")
+      setChannelTarget("")
+      setChannelSecret("")
+      await loadChannels()
+    } catch (err) {
+      setError((err as Error).message)
+    } finally {
+      setSavingChannel(false)
+    }
+  }
+
+  const handleToggleChannel = async (channel: AlertChannel) => {
+    try {
+      await api(`/api/admin/alerts/channels/${channel.id}`, "PUT", { enabled: !channel.enabled })
+      await loadChannels()
+    } catch (err) {
+      setError((err as Error).message)
+    }
+  }
+
+  const handleTestChannel = async (channel: AlertChannel) => {
+    setSuccess(null)
+    try {
+      await api(`/api/admin/alerts/channels/${channel.id}/test`, "POST", {})
+      setSuccess(`Test-Nachricht an "${channel.name}" gesendet.`)
+    } catch (err) {
+      setError((err as Error).message)
+    } finally {
+      await loadChannels()
+    }
+  }
+
+  const handleDeleteChannel = async (channel: AlertChannel) => {
+    if (!confirm(`Kanal "${channel.name}" löschen?`)) return
+    try {
+      await api(`/api/admin/alerts/channels/${channel.id}`, "DELETE")
+      await loadChannels()
+    } catch (err) {
+      setError((err as Error).message)
+    }
+  }
+
   const handleLogin = () => {
     if (!apiKey) return
     localStorage.setItem("admin_api_key", apiKey)
@@ -238,7 +350,7 @@ export default function AlertsPage() {
               <Bell className="h-5 w-5 text-primary" />
               Usage Alerts
             </h1>
-            <p className="text-sm text-muted-foreground">Automatische E-Mail-Benachrichtigungen</p>
+            <p className="text-sm text-muted-foreground">Kunden-E-Mails und Admin-Benachrichtigungen über Kanäle</p>
           </div>
           <div className="flex items-center gap-2">
             <Button variant="outline" size="sm" onClick={loadAlerts} disabled={loading}>
@@ -361,7 +473,9 @@ export default function AlertsPage() {
                           <div key={`${alert.instanceId}-${i}`} className="flex items-center justify-between py-2 border-b last:border-0">
                             <div>
                               <p className="font-medium">{alert.instanceId}</p>
-                              <p className="text-xs text-muted-foreground">{formatRelativeTime(alert.triggeredAt)}</p>
+                              <p className="text-xs text-muted-foreground">
+                                {subjectTypeLabels[alert.subjectType]} · {formatRelativeTime(alert.triggeredAt)}
+                              </p>
                             </div>
                             <Badge variant={alert.recipient === "admin" ? "secondary" : "outline"}>
                               {alert.recipient === "both" ? "Beide" : alert.recipient === "admin" ? "Admin" : "Kunde"}
@@ -419,6 +533,146 @@ export default function AlertsPage() {
             </CardContent>
           </Card>
         </div>
+
+        {/* Delivery Channels */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Webhook className="h-5 w-5" />
+              Kanäle
+            </CardTitle>
+            <CardDescription>
+              Admin-Alerts gehen an alle aktiven Kanäle, die den Alert-Typ abonniert haben.
+              Ohne Kanal gehen Speicher 100%, Instance Down, Churn Risk und Backup Failed per E-Mail an den Admin.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {newSecret && (
+              <div className="rounded-lg border border-amber-500/30 bg-amber-500/10 p-4 text-sm">
+                <p className="font-medium">Webhook-Secret (wird nur einmal angezeigt):</p>
+                <code className="break-all">{newSecret}</code>
+                <p className="text-xs text-muted-foreground mt-2">
+                  Signatur prüfen: X-SPhoto-Signature = sha256=HMAC-SHA256(secret, &quot;X-SPhoto-Timestamp.body&quot;)
+                </p>
+              </div>
+            )}
+
+            {channels.length === 0 && (
+              <p className="text-muted-foreground">Keine Kanäle konfiguriert</p>
+            )}
+            {channels.length > 0 && (
+              <div className="space-y-2">
+                {channels.map((channel) => (
+                  <div key={channel.id} className="flex flex-wrap items-center justify-between gap-3 py-3 border-b last:border-0">
+                    <div className="space-y-1">
+                      <p className="font-medium flex items-center gap-2">
+                        {channel.name}
+                        <Badge variant="outline">{channelTypeLabels[channel.type] || channel.type}</Badge>
+                        {!channel.enabled && <Badge variant="secondary">Deaktiviert</Badge>}
+                      </p>
+                      <p className="text-xs text-muted-foreground break-all">{channel.target}</p>
+                      <div className="flex flex-wrap gap-1">
+                        {channel.alertTypes.map((type) => (
+                          <Badge key={type} variant="secondary">
+                            {alertTypeIcons[type]} {alertTypeLabels[type]}
+                          </Badge>
+                        ))}
+                      </div>
+                      {channel.lastError ? (
+                        <p className="text-xs text-destructive">Fehler: {channel.lastError}</p>
+                      ) : channel.lastDeliveryAt ? (
+                        <p className="text-xs text-muted-foreground">Zuletzt zugestellt {formatDate(channel.lastDeliveryAt)}</p>
+                      ) : null}
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Button variant="outline" size="sm" onClick={() => handleToggleChannel(channel)}>
+                        {channel.enabled ? "Deaktivieren" : "Aktivieren"}
+                      </Button>
+                      <Button variant="outline" size="sm" onClick={() => handleTestChannel(channel)}>
+                        <Send className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => handleDeleteChannel(channel)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="rounded-lg border p-4 space-y-4">
+              <h4 className="font-medium flex items-center gap-2">
+                <Plus className="h-4 w-4" />
+                Neuer Kanal
+              </h4>
+              <div className="grid gap-4 md:grid-cols-3">
+                <div>
+                  <label className="text-sm font-medium">Name</label>
+                  <Input
+                    placeholder="z.B. Ops Discord"
+                    value={channelName}
+                    onChange={(e) => setChannelName(e.target.value)}
+                    className="mt-1"
+                  />
+                </div>
+                <div>
+                  <label className="text-sm font-medium">Typ</label>
+                  <select
+                    value={channelType}
+                    onChange={(e) => setChannelType(e.target.value)}
+                    className="mt-1 h-10 w-full rounded-md border border-input bg-background px-3 text-sm"
+                  >
+                    {Object.entries(channelTypeLabels).map(([type, label]) => (
+                      <option key={type} value={type}>{label}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="text-sm font-medium">{channelType === "email" ? "E-Mail-Adresse" : "URL"}</label>
+                  <Input
+                    placeholder={channelType === "email" ? "ops@example.com" : channelType === "ntfy" ? "https://ntfy.sh/sphoto-alerts" : "https://..."}
+                    value={channelTarget}
+                    onChange={(e) => setChannelTarget(e.target.value)}
+                    className="mt-1"
+                  />
+                </div>
+              </div>
+              {channelType === "ntfy" && (
+                <div className="md:w-1/3">
+                  <label className="text-sm font-medium">Access Token (optional)</label>
+                  <Input
+                    type="password"
+                    value={channelSecret}
+                    onChange={(e) => setChannelSecret(e.target.value)}
+                    className="mt-1"
+                  />
+                </div>
+              )}
+              <div>
+                <p className="text-sm font-medium mb-2">Alert-Typen</p>
+                <div className="flex flex-wrap gap-4">
+                  {Object.entries(alertTypeLabels).map(([type, label]) => (
+                    <label key={type} className="flex items-center gap-2 text-sm">
+                      <input
+                        type="checkbox"
+                        checked={channelAlertTypes.includes(type)}
+                        onChange={() => toggleChannelAlertType(type)}
+                        className="h-4 w-4 rounded border-muted"
+                      />
+                      {alertTypeIcons[type]} {label}
+                    </label>
+                  ))}
+                </div>
+              </div>
+              <Button
+                onClick={handleCreateChannel}
+                disabled={savingChannel || !channelName.trim() || !channelTarget.trim() || channelAlertTypes.length === 0}
+              >
+                {savingChannel ? "Speichere..." : "Kanal erstellen"}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
       </main>
     </div>
   )
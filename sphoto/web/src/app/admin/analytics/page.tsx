@@ -37,6 +37,35 @@ interface AnalyticsData {
   churnRisk: Array<{ id: string; lastActivity: string }>
 }
 
+type UsageGranularity = "day" | "week" | "month"
+
+interface UsagePoint {
+  date: string
+  bytes: number
+  photos: number
+  videos: number
+  uploads: number
+}
+
+interface UsageOverview {
+  granularity: UsageGranularity
+  points: UsagePoint[]
+  users: number
+  topGrowth: Array<{
+    visibleId: string
+    email: string
+    tier: string
+    bytes: number
+    growthBytes: number
+    projectedFullAt: string | null
+  }>
+}
+
+const USAGE_GRANULARITY_LABELS: Record<UsageGranularity, string> = { day: "Tage", week: "Wochen", month: "Monate" }
+
+// Three months of days, a year of weeks, two years of months
+const USAGE_CHART_POINTS: Record<UsageGranularity, number> = { day: 90, week: 52, month: 24 }
+
 function formatBytes(bytes: number): string {
   if (bytes === 0) return "0 B"
   const k = 1024
@@ -53,6 +82,12 @@ function formatFullDate(dateStr: string): string {
   return new Date(dateStr).toLocaleDateString("de-CH", { day: "2-digit", month: "short", year: "numeric" })
 }
 
+function formatUsageDate(dateStr: string, granularity: UsageGranularity): string {
+  return granularity === "month"
+    ? new Date(dateStr).toLocaleDateString("de-CH", { month: "short", year: "numeric" })
+    : formatDate(dateStr)
+}
+
 function GrowthIndicator({ value, suffix = "" }: { value: number; suffix?: string }) {
   const isPositive = value > 0
   const isZero = value === 0
@@ -75,6 +110,8 @@ export default function AnalyticsPage() {
   const [collecting, setCollecting] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [days, setDays] = useState(30)
+  const [usage, setUsage] = useState<UsageOverview | null>(null)
+  const [usageGranularity, setUsageGranularity] = useState<UsageGranularity>("day")
 
   useEffect(() => {
     const stored = typeof window !== "undefined" ? localStorage.getItem("admin_api_key") : null
@@ -124,11 +161,31 @@ export default function AnalyticsPage() {
     }
   }, [isAuthed, loadAnalytics])
 
+  // Only available in shared mode, the section stays hidden otherwise
+  const loadUsage = useCallback(async () => {
+    if (!apiKey) return
+    try {
+      setUsage(await api(`/api/analytics/usage?granularity=${usageGranularity}`))
+    } catch {
+      setUsage(null)
+    }
+  }, [api, apiKey, usageGranularity])
+
+  useEffect(() => {
+    if (isAuthed) {
+      loadUsage()
+    }
+  }, [isAuthed, loadUsage])
+
   const handleCollectStats = async () => {
     setCollecting(true)
     try {
       await api("/api/analytics/collect", "POST")
       await loadAnalytics()
+      if (usage) {
+        await api("/api/analytics/usage/collect", "POST")
+        await loadUsage()
+      }
     } catch (err) {
       setError((err as Error).message)
     } finally {
@@ -200,6 +257,17 @@ export default function AnalyticsPage() {
     }
   }, [analytics])
 
+  const usageChart = useMemo(() => {
+    if (!usage) return null
+    const points = usage.points.slice(-USAGE_CHART_POINTS[usageGranularity])
+    return {
+      points,
+      maxBytes: Math.max(...points.map(p => p.bytes), 1),
+      maxUploads: Math.max(...points.map(p => p.uploads), 1),
+      uploads: points.reduce((sum, p) => sum + p.uploads, 0),
+    }
+  }, [usage, usageGranularity])
+
   if (!isAuthed) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-background px-4">
@@ -252,7 +320,7 @@ export default function AnalyticsPage() {
               <option value={60}>60 Tage</option>
               <option value={90}>90 Tage</option>
             </select>
-            <Button variant="outline" size="sm" onClick={loadAnalytics} disabled={loading}>
+            <Button variant="outline" size="sm" onClick={() => { loadAnalytics(); loadUsage() }} disabled={loading}>
               <RefreshCw className={`h-4 w-4 ${loading ? "animate-spin" : ""}`} />
             </Button>
             <Button variant="outline" size="sm" onClick={handleCollectStats} disabled={collecting}>
@@ -542,6 +610,131 @@ export default function AnalyticsPage() {
             </div>
           </>
         )}
+
+        {usage && usageChart && (
+          <>
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <h2 className="text-lg font-semibold flex items-center gap-2">
+                  <Users className="h-5 w-5" />
+                  Shared-Nutzer
+                </h2>
+                <p className="text-sm text-muted-foreground">
+                  Tägliche Snapshots von {usage.users} Nutzern, ältere Daten als Wochen- und Monatswerte
+                </p>
+              </div>
+              <select
+                value={usageGranularity}
+                onChange={(e) => setUsageGranularity(e.target.value as UsageGranularity)}
+                className="h-9 rounded-md border border-input bg-background px-3 text-sm"
+              >
+                {(Object.keys(USAGE_GRANULARITY_LABELS) as UsageGranularity[]).map(g => (
+                  <option key={g} value={g}>{USAGE_GRANULARITY_LABELS[g]}</option>
+                ))}
+              </select>
+            </div>
+
+            <div className="grid gap-6 lg:grid-cols-2">
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <HardDrive className="h-4 w-4" />
+                    Speicher aller Nutzer
+                  </CardTitle>
+                  <CardDescription>
+                    {usageChart.points.length > 0 ? formatBytes(usageChart.points[usageChart.points.length - 1].bytes) : "Noch keine Daten vorhanden"}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {usageChart.points.length > 0 && (
+                    <div className="space-y-2">
+                      <div className="flex items-end gap-px h-32">
+                        {usageChart.points.map(p => (
+                          <div
+                            key={p.date}
+                            className="flex-1 bg-blue-500/80 rounded-t hover:bg-blue-500 transition-colors"
+                            style={{ height: `${Math.max((p.bytes / usageChart.maxBytes) * 100, 2)}%` }}
+                            title={`${formatUsageDate(p.date, usageGranularity)}: ${formatBytes(p.bytes)}`}
+                          />
+                        ))}
+                      </div>
+                      <div className="flex justify-between text-xs text-muted-foreground">
+                        <span>{formatUsageDate(usageChart.points[0].date, usageGranularity)}</span>
+                        <span>{formatUsageDate(usageChart.points[usageChart.points.length - 1].date, usageGranularity)}</span>
+                      </div>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <TrendingUp className="h-4 w-4" />
+                    Uploads aller Nutzer
+                  </CardTitle>
+                  <CardDescription>
+                    {usageChart.uploads.toLocaleString()} im gezeigten Zeitraum
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {usageChart.points.length > 0 && (
+                    <div className="space-y-2">
+                      <div className="flex items-end gap-px h-32">
+                        {usageChart.points.map(p => (
+                          <div
+                            key={p.date}
+                            className="flex-1 bg-primary/80 rounded-t hover:bg-primary transition-colors"
+                            style={{ height: `${Math.max((p.uploads / usageChart.maxUploads) * 100, 2)}%` }}
+                            title={`${formatUsageDate(p.date, usageGranularity)}: ${p.uploads} Uploads`}
+                          />
+                        ))}
+                      </div>
+                      <div className="flex justify-between text-xs text-muted-foreground">
+                        <span>{formatUsageDate(usageChart.points[0].date, usageGranularity)}</span>
+                        <span>{formatUsageDate(usageChart.points[usageChart.points.length - 1].date, usageGranularity)}</span>
+                      </div>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Activity className="h-4 w-4" />
+                  Stärkstes Wachstum
+                </CardTitle>
+                <CardDescription>Nutzer mit dem grössten Speicherzuwachs in den letzten 30 Tagen</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {usage.topGrowth.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">Keine Daten</p>
+                ) : (
+                  <div className="space-y-3">
+                    {usage.topGrowth.map(user => (
+                      <div key={user.visibleId} className="flex items-center justify-between gap-4">
+                        <div className="min-w-0">
+                          <p className="font-medium truncate">{user.email}</p>
+                          <p className="text-xs text-muted-foreground">{user.tier} · {formatBytes(user.bytes)}</p>
+                        </div>
+                        <div className="flex items-center gap-2">
+                          <span className="text-sm font-medium text-green-600">+{formatBytes(user.growthBytes)}</span>
+                          {user.projectedFullAt && (
+                            <Badge variant="outline" className="text-amber-600">
+                              Voll am {formatFullDate(user.projectedFullAt)}
+                            </Badge>
+                          )}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </>
+        )}
       </main>
     </div>
   )
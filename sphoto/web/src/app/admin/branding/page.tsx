@@ -126,8 +126,9 @@ export default function BrandingPage() {
     setSaving(true)
     setSuccess(null)
     try {
-      await api(`/api/instances/${selectedInstance}/branding`, "PUT", branding)
-      setSuccess("Branding gespeichert!")
+      const data = await api(`/api/instances/${selectedInstance}/branding`, "PUT", branding)
+      setBranding(data || {})
+      setSuccess("Branding auf die Instanz übertragen!")
       setTimeout(() => setSuccess(null), 3000)
     } catch (err) {
       setError((err as Error).message)
@@ -248,7 +249,7 @@ export default function BrandingPage() {
                     <Type className="h-4 w-4" />
                     App Name
                   </CardTitle>
-                  <CardDescription>Ersetzt &quot;Immich&quot; im UI</CardDescription>
+                  <CardDescription>Ersetzt &quot;Immich&quot; im Seitentitel</CardDescription>
                 </CardHeader>
                 <CardContent>
                   <Input
@@ -266,7 +267,7 @@ export default function BrandingPage() {
                     <Palette className="h-4 w-4" />
                     Akzentfarbe
                   </CardTitle>
-                  <CardDescription>Primärfarbe für Buttons & Links</CardDescription>
+                  <CardDescription>Primärfarbe für Buttons & Links (Hex, z.B. #dc2626)</CardDescription>
                 </CardHeader>
                 <CardContent>
                   <div className="flex items-center gap-3">
@@ -292,7 +293,7 @@ export default function BrandingPage() {
                     <ImageIcon className="h-4 w-4" />
                     Logo URL
                   </CardTitle>
-                  <CardDescription>Custom Logo für Header</CardDescription>
+                  <CardDescription>Wird heruntergeladen und als Logo in Immich hochgeladen (PNG, JPEG, WebP, GIF, AVIF)</CardDescription>
                 </CardHeader>
                 <CardContent className="space-y-3">
                   <Input
@@ -319,7 +320,7 @@ export default function BrandingPage() {
                     <ImageIcon className="h-4 w-4" />
                     Favicon URL
                   </CardTitle>
-                  <CardDescription>Browser-Tab Icon</CardDescription>
+                  <CardDescription>Browser-Tab Icon, wird in Immich hochgeladen (ICO oder PNG)</CardDescription>
                 </CardHeader>
                 <CardContent className="space-y-3">
                   <Input
@@ -375,41 +376,9 @@ export default function BrandingPage() {
                 {saving ? "Speichern..." : "Speichern"}
               </Button>
             </div>
-
-            <Card>
-              <CardHeader>
-                <CardTitle>CSS-Vorschau</CardTitle>
-                <CardDescription>
-                  Generiertes CSS für Immich (via <code>/api/instances/{selectedInstance}/custom.css</code>)
-                </CardDescription>
-              </CardHeader>
-              <CardContent>
-                <pre className="bg-muted p-4 rounded-lg text-xs overflow-x-auto">
-                  {generateCssPreview(branding)}
-                </pre>
-              </CardContent>
-            </Card>
           </>
         )}
       </main>
     </div>
   )
 }
-
-function generateCssPreview(branding: BrandingSettings): string {
-  const parts: string[] = []
-  
-  if (branding.primary_color) {
-    parts.push(`:root {\n  --immich-primary: ${branding.primary_color};\n}`)
-  }
-  
-  if (branding.logo_url) {
-    parts.push(`/* Custom logo */\n.immich-logo { background-image: url('${branding.logo_url}'); }`)
-  }
-  
-  if (branding.welcome_message) {
-    parts.push(`/* Welcome message */\n.login-form::before { content: '${branding.welcome_message.slice(0, 50)}...'; }`)
-  }
-  
-  return parts.length > 0 ? parts.join('\n\n') : '/* No custom branding configured */'
-}
@@ -0,0 +1,338 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import {
+  ArrowLeft,
+  Globe,
+  Plus,
+  Trash2,
+  RefreshCw,
+  ShieldCheck,
+} from "lucide-react"
+import Link from "next/link"
+
+const API_URL = process.env.NEXT_PUBLIC_API_URL || "https://api.sphoto.arturf.ch"
+
+interface CustomDomain {
+  domain: string
+  token: string
+  status: "pending" | "verified"
+  createdAt: string
+  verifiedAt?: string
+  lastCheckedAt?: string
+  lastError?: string
+  txtName: string
+  cnameTarget: string
+}
+
+interface Instance {
+  id: string
+  email: string
+  plan: string
+  status: string
+}
+
+export default function DomainsPage() {
+  const [apiKey, setApiKey] = useState("")
+  const [isAuthed, setIsAuthed] = useState(false)
+  const [instances, setInstances] = useState<Instance[]>([])
+  const [selectedInstance, setSelectedInstance] = useState<string>("")
+  const [domains, setDomains] = useState<CustomDomain[]>([])
+  const [canUseCustomDomains, setCanUseCustomDomains] = useState(false)
+  const [newDomain, setNewDomain] = useState("")
+  const [loading, setLoading] = useState(false)
+  const [busyDomain, setBusyDomain] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [success, setSuccess] = useState<string | null>(null)
+
+  useEffect(() => {
+    const stored = typeof window !== "undefined" ? localStorage.getItem("admin_api_key") : null
+    if (stored) {
+      setApiKey(stored)
+      setIsAuthed(true)
+    }
+  }, [])
+
+  const api = useCallback(async (endpoint: string, method: string = "GET", body?: unknown) => {
+    setError(null)
+    const res = await fetch(`${API_URL}${endpoint}`, {
+      method,
+      headers: {
+        "x-api-key": apiKey,
+        "Content-Type": "application/json",
+      },
+      body: body ? JSON.stringify(body) : undefined,
+    })
+
+    if (res.status === 401) {
+      localStorage.removeItem("admin_api_key")
+      setIsAuthed(false)
+      throw new Error("API Key ungültig")
+    }
+
+    if (!res.ok) {
+      const err = await res.json().catch(() => ({ error: "Unknown error" }))
+      throw new Error(err.error || `Error ${res.status}`)
+    }
+
+    return res.json()
+  }, [apiKey])
+
+  const loadInstances = useCallback(async () => {
+    if (!apiKey) return
+    setLoading(true)
+    try {
+      const data = await api("/api/instances")
+      setInstances(data.filter((i: Instance) => i.status !== "deleted"))
+    } catch (err) {
+      setError((err as Error).message)
+    } finally {
+      setLoading(false)
+    }
+  }, [api, apiKey])
+
+  const loadDomains = useCallback(async (instanceId: string) => {
+    if (!instanceId) return
+    setLoading(true)
+    try {
+      const data = await api(`/api/instances/${instanceId}/domains`)
+      setDomains(data.domains)
+      setCanUseCustomDomains(data.canUseCustomDomains)
+    } catch (err) {
+      setError((err as Error).message)
+    } finally {
+      setLoading(false)
+    }
+  }, [api])
+
+  useEffect(() => {
+    if (isAuthed) {
+      loadInstances()
+    }
+  }, [isAuthed, loadInstances])
+
+  useEffect(() => {
+    if (selectedInstance) {
+      loadDomains(selectedInstance)
+    }
+  }, [selectedInstance, loadDomains])
+
+  const flash = (message: string) => {
+    setSuccess(message)
+    setTimeout(() => setSuccess(null), 3000)
+  }
+
+  const handleAdd = async () => {
+    if (!selectedInstance || !newDomain.trim()) return
+    setBusyDomain("new")
+    try {
+      await api(`/api/instances/${selectedInstance}/domains`, "POST", { domain: newDomain })
+      setNewDomain("")
+      await loadDomains(selectedInstance)
+    } catch (err) {
+      setError((err as Error).message)
+    } finally {
+      setBusyDomain(null)
+    }
+  }
+
+  const handleVerify = async (domain: string) => {
+    setBusyDomain(domain)
+    try {
+      await api(`/api/instances/${selectedInstance}/domains/${encodeURIComponent(domain)}/verify`, "POST")
+      flash(`${domain} verifiziert und aktiviert`)
+    } catch (err) {
+      setError((err as Error).message)
+    } finally {
+      setBusyDomain(null)
+      loadDomains(selectedInstance)
+    }
+  }
+
+  const handleRemove = async (domain: string) => {
+    if (!confirm(`Domain ${domain} entfernen?`)) return
+    setBusyDomain(domain)
+    try {
+      await api(`/api/instances/${selectedInstance}/domains/${encodeURIComponent(domain)}`, "DELETE")
+      flash(`${domain} entfernt`)
+    } catch (err) {
+      setError((err as Error).message)
+    } finally {
+      setBusyDomain(null)
+      loadDomains(selectedInstance)
+    }
+  }
+
+  const handleLogin = () => {
+    if (!apiKey) return
+    localStorage.setItem("admin_api_key", apiKey)
+    setIsAuthed(true)
+  }
+
+  if (!isAuthed) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background px-4">
+        <Card className="w-full max-w-md">
+          <CardHeader>
+            <CardTitle>Admin Login</CardTitle>
+            <CardDescription>API Key eingeben</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <Input
+              type="password"
+              placeholder="Admin API Key"
+              value={apiKey}
+              onChange={(e) => setApiKey(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && handleLogin()}
+            />
+            <Button className="w-full" onClick={handleLogin}>
+              Anmelden
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b bg-background/80 backdrop-blur sticky top-0 z-20">
+        <div className="container mx-auto flex items-center gap-4 px-4 py-4">
+          <Link href="/admin" className="flex items-center gap-2 text-muted-foreground hover:text-foreground">
+            <ArrowLeft className="h-4 w-4" />
+            Zurück
+          </Link>
+          <div className="flex-1">
+            <h1 className="text-xl font-semibold flex items-center gap-2">
+              <Globe className="h-5 w-5 text-primary" />
+              Eigene Domains
+            </h1>
+            <p className="text-sm text-muted-foreground">Kunden-Domains für Siloed-Instanzen</p>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 space-y-6">
+        {error && (
+          <div className="rounded-lg border border-destructive/30 bg-destructive/10 p-4 text-sm text-destructive">
+            {error}
+          </div>
+        )}
+
+        {success && (
+          <div className="rounded-lg border border-green-500/30 bg-green-500/10 p-4 text-sm text-green-600">
+            {success}
+          </div>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Instanz auswählen</CardTitle>
+            <CardDescription>Wähle die Instanz, deren Domains du verwalten willst</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="flex items-center gap-4">
+              <select
+                value={selectedInstance}
+                onChange={(e) => setSelectedInstance(e.target.value)}
+                className="flex-1 h-10 rounded-md border border-input bg-background px-3 text-sm"
+              >
+                <option value="">-- Instanz wählen --</option>
+                {instances.map((inst) => (
+                  <option key={inst.id} value={inst.id}>
+                    {inst.id} ({inst.email}) - {inst.plan}
+                  </option>
+                ))}
+              </select>
+              <Button variant="outline" size="sm" onClick={loadInstances} disabled={loading}>
+                <RefreshCw className={`h-4 w-4 ${loading ? "animate-spin" : ""}`} />
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        {selectedInstance && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Domains</CardTitle>
+              <CardDescription>
+                {canUseCustomDomains
+                  ? "Der Kunde setzt den TXT-Eintrag zur Verifizierung und einen CNAME auf die Instanz."
+                  : "Der Plan dieser Instanz enthält keine eigenen Domains."}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {domains.length === 0 && (
+                <p className="text-sm text-muted-foreground">Keine eigenen Domains</p>
+              )}
+
+              {domains.map((d) => (
+                <div key={d.domain} className="rounded-lg border p-4 space-y-3">
+                  <div className="flex items-center justify-between gap-4">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">{d.domain}</span>
+                      <Badge variant={d.status === "verified" ? "default" : "secondary"}>
+                        {d.status === "verified" ? "Aktiv" : "Ausstehend"}
+                      </Badge>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      {d.status === "pending" && (
+                        <Button size="sm" variant="outline" onClick={() => handleVerify(d.domain)} disabled={busyDomain === d.domain}>
+                          <ShieldCheck className="h-4 w-4 mr-2" />
+                          Prüfen
+                        </Button>
+                      )}
+                      <Button size="sm" variant="ghost" onClick={() => handleRemove(d.domain)} disabled={busyDomain === d.domain}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                  <div className="grid gap-1 text-xs font-mono text-muted-foreground">
+                    <span>TXT {d.txtName} &quot;{d.token}&quot;</span>
+                    <span>CNAME {d.domain} → {d.cnameTarget}</span>
+                  </div>
+                  {d.status === "verified" && d.verifiedAt && (
+                    <p className="text-xs text-muted-foreground">
+                      Verifiziert am {new Date(d.verifiedAt).toLocaleString("de-CH")}
+                    </p>
+                  )}
+                  {d.status === "pending" && d.lastError && (
+                    <p className="text-xs text-destructive">
+                      {d.lastError}
+                      {d.lastCheckedAt && ` (${new Date(d.lastCheckedAt).toLocaleString("de-CH")})`}
+                    </p>
+                  )}
+                </div>
+              ))}
+
+              {canUseCustomDomains && (
+                <div className="flex items-center gap-2">
+                  <Input
+                    placeholder="fotos.example.ch"
+                    value={newDomain}
+                    onChange={(e) => setNewDomain(e.target.value)}
+                    onKeyDown={(e) => e.key === "Enter" && handleAdd()}
+                  />
+                  <Button onClick={handleAdd} disabled={busyDomain === "new" || !newDomain.trim()}>
+                    <Plus className="h-4 w-4 mr-2" />
+                    Hinzufügen
+                  </Button>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,284 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import {
+  ArrowLeft,
+  CheckCircle,
+  Mail,
+  RefreshCw,
+  RotateCcw,
+  XCircle,
+} from "lucide-react"
+import Link from "next/link"
+
+const API_URL = process.env.NEXT_PUBLIC_API_URL || "https://api.sphoto.arturf.ch"
+
+type EmailStatus = "pending" | "sending" | "sent" | "failed"
+
+interface OutboxEmail {
+  id: string
+  to: string
+  subject: string
+  template: string
+  locale: "de" | "en"
+  status: EmailStatus
+  transport?: string
+  attempts: number
+  created: string
+  nextAttemptAt?: string
+  sentAt?: string
+  lastError?: string
+}
+
+const statusLabels: Record<EmailStatus, string> = {
+  pending: "Wartet auf Retry",
+  sending: "Wird gesendet",
+  sent: "Gesendet",
+  failed: "Fehlgeschlagen",
+}
+
+const statusVariants: Record<EmailStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  pending: "secondary",
+  sending: "secondary",
+  sent: "outline",
+  failed: "destructive",
+}
+
+function formatDate(dateStr: string): string {
+  return new Date(dateStr).toLocaleString("de-CH", {
+    day: "2-digit",
+    month: "2-digit",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  })
+}
+
+export default function EmailsPage() {
+  const [apiKey, setApiKey] = useState("")
+  const [isAuthed, setIsAuthed] = useState(false)
+  const [emails, setEmails] = useState<OutboxEmail[]>([])
+  const [transport, setTransport] = useState<string | null>(null)
+  const [statusFilter, setStatusFilter] = useState<EmailStatus | "">("")
+  const [recipientFilter, setRecipientFilter] = useState("")
+  const [appliedRecipient, setAppliedRecipient] = useState("")
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [success, setSuccess] = useState<string | null>(null)
+
+  useEffect(() => {
+    const stored = typeof window !== "undefined" ? localStorage.getItem("admin_api_key") : null
+    if (stored) {
+      setApiKey(stored)
+      setIsAuthed(true)
+    }
+  }, [])
+
+  const api = useCallback(async (endpoint: string, method: string = "GET") => {
+    setError(null)
+    const res = await fetch(`${API_URL}${endpoint}`, {
+      method,
+      headers: {
+        "x-api-key": apiKey,
+        "Content-Type": "application/json",
+      },
+    })
+
+    if (res.status === 401) {
+      localStorage.removeItem("admin_api_key")
+      setIsAuthed(false)
+      throw new Error("API Key ungültig")
+    }
+
+    if (!res.ok) {
+      const err = await res.json().catch(() => ({ error: "Unknown error" }))
+      throw new Error(err.error || `Error ${res.status}`)
+    }
+
+    return res.json()
+  }, [apiKey])
+
+  const loadData = useCallback(async () => {
+    if (!apiKey) return
+    setLoading(true)
+    try {
+      const params = new URLSearchParams()
+      if (statusFilter) params.set("status", statusFilter)
+      if (appliedRecipient) params.set("to", appliedRecipient)
+      const query = params.toString() ? `?${params}` : ""
+      const data = await api(`/api/admin/emails${query}`)
+      setEmails(data.emails)
+      setTransport(data.transport)
+    } catch (err) {
+      setError((err as Error).message)
+    } finally {
+      setLoading(false)
+    }
+  }, [api, apiKey, statusFilter, appliedRecipient])
+
+  useEffect(() => {
+    if (isAuthed) {
+      loadData()
+    }
+  }, [isAuthed, loadData])
+
+  const handleRetry = async (email: OutboxEmail) => {
+    setSuccess(null)
+    try {
+      const result = await api(`/api/admin/emails/${encodeURIComponent(email.id)}/retry`, "POST")
+      if (result.email.status === "sent") {
+        setSuccess(`E-Mail an ${email.to} wurde gesendet.`)
+      } else {
+        setError(`Erneut fehlgeschlagen: ${result.email.lastError || "unbekannter Fehler"}`)
+      }
+      await loadData()
+    } catch (err) {
+      setError((err as Error).message)
+    }
+  }
+
+  const handleLogin = () => {
+    if (!apiKey) return
+    localStorage.setItem("admin_api_key", apiKey)
+    setIsAuthed(true)
+  }
+
+  if (!isAuthed) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background px-4">
+        <Card className="w-full max-w-md">
+          <CardHeader>
+            <CardTitle>Admin Login</CardTitle>
+            <CardDescription>API Key eingeben</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <Input
+              type="password"
+              placeholder="Admin API Key"
+              value={apiKey}
+              onChange={(e) => setApiKey(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && handleLogin()}
+            />
+            <Button className="w-full" onClick={handleLogin}>
+              Anmelden
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b bg-background/80 backdrop-blur sticky top-0 z-20">
+        <div className="container mx-auto flex items-center gap-4 px-4 py-4">
+          <Link href="/admin" className="flex items-center gap-2 text-muted-foreground hover:text-foreground">
+            <ArrowLeft className="h-4 w-4" />
+            Zurück
+          </Link>
+          <div className="flex-1">
+            <h1 className="text-xl font-semibold flex items-center gap-2">
+              <Mail className="h-5 w-5 text-primary" />
+              E-Mail Outbox
+            </h1>
+            <p className="text-sm text-muted-foreground">
+              {transport ? `Versand über ${transport}` : "Versendete und ausstehende E-Mails"}
+            </p>
+          </div>
+          <Button variant="outline" size="sm" onClick={loadData} disabled={loading}>
+            <RefreshCw className={`h-4 w-4 ${loading ? "animate-spin" : ""}`} />
+          </Button>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 space-y-6">
+        {error && (
+          <div className="rounded-lg border border-destructive/30 bg-destructive/10 p-4 text-sm text-destructive flex items-center gap-2">
+            <XCircle className="h-4 w-4" />
+            {error}
+          </div>
+        )}
+
+        {success && (
+          <div className="rounded-lg border border-green-500/30 bg-green-500/10 p-4 text-sm text-green-600 flex items-center gap-2">
+            <CheckCircle className="h-4 w-4" />
+            {success}
+          </div>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Nachrichten</CardTitle>
+            <CardDescription>
+              Fehlgeschlagene Zustellungen werden automatisch wiederholt, gesendete nach 30 Tagen entfernt
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex flex-wrap gap-2">
+              <select
+                value={statusFilter}
+                onChange={(e) => setStatusFilter(e.target.value as EmailStatus | "")}
+                className="h-10 rounded-md border border-input bg-background px-3 text-sm"
+              >
+                <option value="">Alle Status</option>
+                {Object.entries(statusLabels).map(([status, label]) => (
+                  <option key={status} value={status}>{label}</option>
+                ))}
+              </select>
+              <Input
+                className="flex-1 min-w-[200px]"
+                placeholder="Nach Empfänger filtern"
+                value={recipientFilter}
+                onChange={(e) => setRecipientFilter(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && setAppliedRecipient(recipientFilter.trim())}
+              />
+              <Button variant="outline" onClick={() => setAppliedRecipient(recipientFilter.trim())} disabled={loading}>
+                Suchen
+              </Button>
+            </div>
+            {!loading && emails.length === 0 && (
+              <p className="text-muted-foreground">Keine E-Mails</p>
+            )}
+            <div className="space-y-1">
+              {emails.map(email => (
+                <div key={email.id} className="flex flex-wrap items-center justify-between gap-2 py-2 border-b last:border-0">
+                  <div className="min-w-0">
+                    <p className="font-medium truncate">{email.subject}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {email.to} · {email.template} ({email.locale}) · {formatDate(email.created)}
+                      {email.attempts > 1 && ` · ${email.attempts} Versuche`}
+                    </p>
+                    {email.lastError && email.status !== "sent" && (
+                      <p className="text-xs text-destructive">
+                        {email.lastError}
+                        {email.nextAttemptAt && email.status === "pending" && ` · nächster Versuch ${formatDate(email.nextAttemptAt)}`}
+                      </p>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Badge variant={statusVariants[email.status]}>{statusLabels[email.status]}</Badge>
+                    {(email.status === "failed" || email.status === "pending") && (
+                      <Button variant="outline" size="sm" onClick={() => handleRetry(email)}>
+                        <RotateCcw className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  )
+}
@@ -27,6 +27,15 @@ import Link from "next/link"
 
 const API_URL = process.env.NEXT_PUBLIC_API_URL || "https://api.sphoto.arturf.ch"
 
+type HealthCheckName = "ping" | "version" | "database" | "redis" | "queues" | "disk" | "ml"
+type HealthCheckState = "ok" | "warning" | "critical" | "skipped"
+
+interface HealthCheckResult {
+  state: HealthCheckState
+  message?: string
+  value?: number | string
+}
+
 interface HealthStatus {
   instanceId: string
   healthy: boolean
@@ -36,12 +45,14 @@ interface HealthStatus {
   sslDaysRemaining: number | null
   lastCheck: string
   consecutiveFailures: number
+  checks?: Record<HealthCheckName, HealthCheckResult>
 }
 
 interface HealthSummary {
   totalInstances: number
   healthyInstances: number
   unhealthyInstances: number
+  degradedInstances: number
   sslExpiringInstances: number
   statuses: HealthStatus[]
 }
@@ -55,6 +66,42 @@ function formatDate(dateStr: string): string {
   })
 }
 
+const checkLabels: Record<HealthCheckName, string> = {
+  ping: "Ping",
+  version: "Version",
+  database: "Datenbank",
+  redis: "Redis",
+  queues: "Queues",
+  disk: "Speicher",
+  ml: "ML",
+}
+
+const checkColors: Record<HealthCheckState, string> = {
+  ok: "bg-green-500/10 text-green-600",
+  warning: "bg-amber-500/10 text-amber-600",
+  critical: "bg-red-500/10 text-red-600",
+  skipped: "bg-gray-500/10 text-gray-600",
+}
+
+// Failing checks only; "Alle OK" if there are none
+function CheckBadges({ status }: { status: HealthStatus }) {
+  if (!status.checks) return <span className="text-muted-foreground">–</span>
+  const problems = (Object.keys(status.checks) as HealthCheckName[])
+    .filter(name => status.checks![name].state === "warning" || status.checks![name].state === "critical")
+  if (problems.length === 0) {
+    return <span className="text-muted-foreground">Alle OK{status.checks.version.value ? ` · v${status.checks.version.value}` : ""}</span>
+  }
+  return (
+    <div className="flex flex-wrap gap-1">
+      {problems.map(name => (
+        <Badge key={name} className={checkColors[status.checks![name].state]} title={status.checks![name].message}>
+          {checkLabels[name]}{status.checks![name].message ? `: ${status.checks![name].message}` : ""}
+        </Badge>
+      ))}
+    </div>
+  )
+}
+
 function formatRelativeTime(dateStr: string): string {
   const now = Date.now()
   const then = new Date(dateStr).getTime()
@@ -196,7 +243,7 @@ export default function HealthPage() {
               <Activity className="h-5 w-5 text-primary" />
               Health Monitor
             </h1>
-            <p className="text-sm text-muted-foreground">Instanz-Verfügbarkeit & SSL-Status</p>
+            <p className="text-sm text-muted-foreground">Instanz-Verfügbarkeit, Immich-Dienste & SSL-Status</p>
           </div>
           <div className="flex items-center gap-2">
             <Badge variant="outline" className="text-xs">
@@ -237,6 +284,9 @@ export default function HealthPage() {
               <div>
                 <p className="text-sm text-muted-foreground">Healthy</p>
                 <p className="text-2xl font-semibold text-green-600">{health?.healthyInstances || 0}</p>
+                {!!health?.degradedInstances && (
+                  <p className="text-xs text-amber-600">{health.degradedInstances} mit Warnungen</p>
+                )}
               </div>
             </CardContent>
           </Card>
@@ -284,6 +334,9 @@ export default function HealthPage() {
                           <span>Consecutive Failures: {status.consecutiveFailures}</span>
                           <span>Last Check: {formatRelativeTime(status.lastCheck)}</span>
                         </div>
+                        <div className="mt-2 text-sm">
+                          <CheckBadges status={status} />
+                        </div>
                       </div>
                       <a 
                         href={`https://${status.instanceId}.sphoto.arturf.ch`}
@@ -357,6 +410,7 @@ export default function HealthPage() {
                       <th className="pb-3">Status</th>
                       <th className="pb-3">Response Time</th>
                       <th className="pb-3">SSL</th>
+                      <th className="pb-3">Checks</th>
                       <th className="pb-3">Last Check</th>
                     </tr>
                   </thead>
@@ -389,6 +443,9 @@ export default function HealthPage() {
                             </span>
                           )}
                         </td>
+                        <td className="py-3">
+                          <CheckBadges status={status} />
+                        </td>
                         <td className="py-3 text-muted-foreground">
                           {formatRelativeTime(status.lastCheck)}
                         </td>
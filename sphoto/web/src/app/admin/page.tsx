@@ -24,9 +24,14 @@ import {
   Filter,
   HardDrive,
   Mail,
+  Gift,
   Palette,
+  Globe,
+  GitCompare,
   Play,
+  Radio,
   RefreshCw,
+  Rocket,
   Search,
   Server,
   ShieldCheck,
@@ -289,7 +294,7 @@ export default function AdminPage() {
       const payload = isJson ? await res.json() : await res.text()
 
       if (!res.ok) {
-        const message = typeof payload === "string" ? payload : payload?.message
+        const message = typeof payload === "string" ? payload : payload?.message || payload?.error
         throw new Error(message || "Unbekannter API Fehler")
       }
 
@@ -633,6 +638,12 @@ export default function AdminPage() {
                 Wartung
               </Button>
             </Link>
+            <Link href="/admin/status">
+              <Button variant="outline" size="sm">
+                <Radio className="mr-2 h-4 w-4" />
+                Status
+              </Button>
+            </Link>
             <Link href="/admin/plans">
               <Button variant="outline" size="sm">
                 <HardDrive className="mr-2 h-4 w-4" />
@@ -645,12 +656,48 @@ export default function AdminPage() {
                 Branding
               </Button>
             </Link>
+            <Link href="/admin/domains">
+              <Button variant="outline" size="sm">
+                <Globe className="mr-2 h-4 w-4" />
+                Domains
+              </Button>
+            </Link>
+            <Link href="/admin/reconcile">
+              <Button variant="outline" size="sm">
+                <GitCompare className="mr-2 h-4 w-4" />
+                Drift
+              </Button>
+            </Link>
+            <Link href="/admin/releases">
+              <Button variant="outline" size="sm">
+                <Rocket className="mr-2 h-4 w-4" />
+                Releases
+              </Button>
+            </Link>
             <Link href="/admin/analytics">
               <Button variant="outline" size="sm">
                 <BarChart3 className="mr-2 h-4 w-4" />
                 Analytics
               </Button>
             </Link>
+            <Link href="/admin/access">
+              <Button variant="outline" size="sm">
+                <ShieldCheck className="mr-2 h-4 w-4" />
+                Zugriff
+              </Button>
+            </Link>
+            <Link href="/admin/referrals">
+              <Button variant="outline" size="sm">
+                <Gift className="mr-2 h-4 w-4" />
+                Empfehlungen
+              </Button>
+            </Link>
+            <Link href="/admin/emails">
+              <Button variant="outline" size="sm">
+                <Mail className="mr-2 h-4 w-4" />
+                E-Mails
+              </Button>
+            </Link>
             <Badge variant="secondary">{instances.length} Instanzen</Badge>
             {lastSync && (
               <span className="flex items-center gap-1 text-muted-foreground">
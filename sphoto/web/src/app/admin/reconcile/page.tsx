@@ -0,0 +1,383 @@
+"use client"
+
+import { useCallback, useEffect, useMemo, useState } from "react"
+import { Button } from "@/components/ui/button"
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import {
+  ArrowLeft,
+  GitCompare,
+  Play,
+  RefreshCw,
+  ChevronDown,
+  ChevronRight,
+} from "lucide-react"
+import Link from "next/link"
+
+const API_URL = process.env.NEXT_PUBLIC_API_URL || "https://api.sphoto.arturf.ch"
+
+type ComposeState = "in_sync" | "changed" | "missing" | "unreadable"
+
+interface RuntimeIssue {
+  container: string
+  expected: string
+  actual: string
+}
+
+interface InstanceDrift {
+  instanceId: string
+  platform: "immich" | "nextcloud"
+  status: "active" | "stopped" | "deleted"
+  inSync: boolean
+  compose: ComposeState
+  diff: string[]
+  runtime: RuntimeIssue[]
+  checkedAt: string
+}
+
+type ResultStatus = "pending" | "unchanged" | "applied" | "rolled_back" | "skipped"
+
+interface ReconcileRun {
+  id: string
+  status: "running" | "completed" | "halted" | "failed"
+  batchSize: number
+  results: { instanceId: string; status: ResultStatus; error?: string; finishedAt?: string }[]
+  startedAt: string
+  completedAt?: string
+  error?: string
+}
+
+const COMPOSE_LABELS: Record<ComposeState, string> = {
+  in_sync: "Aktuell",
+  changed: "Abweichung",
+  missing: "Fehlt",
+  unreadable: "Nicht lesbar",
+}
+
+const RESULT_LABELS: Record<ResultStatus, string> = {
+  pending: "Ausstehend",
+  unchanged: "Unverändert",
+  applied: "Angewendet",
+  rolled_back: "Zurückgerollt",
+  skipped: "Übersprungen",
+}
+
+const RUN_LABELS: Record<ReconcileRun["status"], string> = {
+  running: "Läuft",
+  completed: "Abgeschlossen",
+  halted: "Angehalten",
+  failed: "Fehlgeschlagen",
+}
+
+function diffLineClass(line: string): string {
+  if (line.startsWith("+")) return "text-green-600"
+  if (line.startsWith("-")) return "text-destructive"
+  if (line === "@@") return "text-muted-foreground"
+  return ""
+}
+
+export default function ReconcilePage() {
+  const [apiKey, setApiKey] = useState("")
+  const [isAuthed, setIsAuthed] = useState(false)
+  const [drift, setDrift] = useState<InstanceDrift[]>([])
+  const [runs, setRuns] = useState<ReconcileRun[]>([])
+  const [selected, setSelected] = useState<string[]>([])
+  const [expanded, setExpanded] = useState<string | null>(null)
+  const [batchSize, setBatchSize] = useState("3")
+  const [loading, setLoading] = useState(false)
+  const [applying, setApplying] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const stored = typeof window !== "undefined" ? localStorage.getItem("admin_api_key") : null
+    if (stored) {
+      setApiKey(stored)
+      setIsAuthed(true)
+    }
+  }, [])
+
+  const api = useCallback(async (endpoint: string, method: string = "GET", body?: unknown) => {
+    setError(null)
+    const res = await fetch(`${API_URL}${endpoint}`, {
+      method,
+      headers: {
+        "x-api-key": apiKey,
+        "Content-Type": "application/json",
+      },
+      body: body ? JSON.stringify(body) : undefined,
+    })
+
+    if (res.status === 401) {
+      localStorage.removeItem("admin_api_key")
+      setIsAuthed(false)
+      throw new Error("API Key ungültig")
+    }
+
+    if (!res.ok) {
+      const err = await res.json().catch(() => ({ error: "Unknown error" }))
+      throw new Error(err.error || `Error ${res.status}`)
+    }
+
+    return res.json()
+  }, [apiKey])
+
+  const loadDrift = useCallback(async () => {
+    if (!apiKey) return
+    setLoading(true)
+    try {
+      const [driftData, runData] = await Promise.all([
+        api("/api/admin/reconcile/drift"),
+        api("/api/admin/reconcile/runs"),
+      ])
+      setDrift(driftData)
+      setRuns(runData)
+    } catch (err) {
+      setError((err as Error).message)
+    } finally {
+      setLoading(false)
+    }
+  }, [api, apiKey])
+
+  useEffect(() => {
+    if (isAuthed) {
+      loadDrift()
+    }
+  }, [isAuthed, loadDrift])
+
+  const activeRun = runs.find((run) => run.status === "running")
+
+  // Follow a running rollout, then refresh the drift once it is done
+  useEffect(() => {
+    if (!activeRun) return
+    const timer = setInterval(async () => {
+      try {
+        const run: ReconcileRun = await api(`/api/admin/reconcile/runs/${activeRun.id}`)
+        setRuns((current) => current.map((r) => (r.id === run.id ? run : r)))
+        if (run.status !== "running") loadDrift()
+      } catch (err) {
+        setError((err as Error).message)
+      }
+    }, 5000)
+    return () => clearInterval(timer)
+  }, [activeRun, api, loadDrift])
+
+  const drifted = useMemo(() => drift.filter((d) => !d.inSync), [drift])
+
+  const toggleSelected = (id: string) => {
+    setSelected((current) => (current.includes(id) ? current.filter((s) => s !== id) : [...current, id]))
+  }
+
+  const handleApply = async () => {
+    const instanceIds = selected.length > 0 ? selected : drifted.map((d) => d.instanceId)
+    if (instanceIds.length === 0) return
+    if (!confirm(`${instanceIds.length} Instanz(en) in Batches von ${batchSize} neu ausrollen?`)) return
+
+    setApplying(true)
+    try {
+      const run: ReconcileRun = await api("/api/admin/reconcile/apply", "POST", {
+        instanceIds,
+        batchSize: parseInt(batchSize, 10),
+      })
+      setRuns((current) => [run, ...current])
+      setSelected([])
+    } catch (err) {
+      setError((err as Error).message)
+    } finally {
+      setApplying(false)
+    }
+  }
+
+  const handleLogin = () => {
+    if (!apiKey) return
+    localStorage.setItem("admin_api_key", apiKey)
+    setIsAuthed(true)
+  }
+
+  if (!isAuthed) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background px-4">
+        <Card className="w-full max-w-md">
+          <CardHeader>
+            <CardTitle>Admin Login</CardTitle>
+            <CardDescription>API Key eingeben</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <Input
+              type="password"
+              placeholder="Admin API Key"
+              value={apiKey}
+              onChange={(e) => setApiKey(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && handleLogin()}
+            />
+            <Button className="w-full" onClick={handleLogin}>
+              Anmelden
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b bg-background/80 backdrop-blur sticky top-0 z-20">
+        <div className="container mx-auto flex items-center gap-4 px-4 py-4">
+          <Link href="/admin" className="flex items-center gap-2 text-muted-foreground hover:text-foreground">
+            <ArrowLeft className="h-4 w-4" />
+            Zurück
+          </Link>
+          <div className="flex-1">
+            <h1 className="text-xl font-semibold flex items-center gap-2">
+              <GitCompare className="h-5 w-5 text-primary" />
+              Drift & Rollout
+            </h1>
+            <p className="text-sm text-muted-foreground">Soll-Konfiguration der Instanzen abgleichen</p>
+          </div>
+          <Button variant="outline" size="sm" onClick={loadDrift} disabled={loading}>
+            <RefreshCw className={`h-4 w-4 ${loading ? "animate-spin" : ""}`} />
+          </Button>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 space-y-6">
+        {error && (
+          <div className="rounded-lg border border-destructive/30 bg-destructive/10 p-4 text-sm text-destructive">
+            {error}
+          </div>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Instanzen</CardTitle>
+            <CardDescription>
+              {drifted.length} von {drift.length} Instanzen weichen ab
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {drift.map((d) => (
+              <div key={d.instanceId} className="rounded-lg border">
+                <div className="flex items-center gap-3 p-3">
+                  <input
+                    type="checkbox"
+                    checked={selected.includes(d.instanceId)}
+                    onChange={() => toggleSelected(d.instanceId)}
+                    disabled={d.inSync}
+                  />
+                  <button
+                    className="flex flex-1 items-center gap-2 text-left"
+                    onClick={() => setExpanded(expanded === d.instanceId ? null : d.instanceId)}
+                    disabled={d.inSync}
+                  >
+                    {expanded === d.instanceId ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                    <span className="font-medium">{d.instanceId}</span>
+                    <span className="text-xs text-muted-foreground">{d.platform} · {d.status}</span>
+                  </button>
+                  <Badge variant={d.compose === "in_sync" ? "secondary" : "destructive"}>
+                    Compose: {COMPOSE_LABELS[d.compose]}
+                  </Badge>
+                  {d.runtime.length > 0 && (
+                    <Badge variant="destructive">{d.runtime.length} Container</Badge>
+                  )}
+                  {d.inSync && <Badge variant="secondary">In Sync</Badge>}
+                </div>
+
+                {expanded === d.instanceId && (
+                  <div className="border-t p-3 space-y-3">
+                    {d.runtime.length > 0 && (
+                      <div className="space-y-1 text-sm">
+                        {d.runtime.map((issue) => (
+                          <p key={`${issue.container}-${issue.expected}`}>
+                            <span className="font-mono">{issue.container}</span>: erwartet{" "}
+                            <span className="font-mono">{issue.expected}</span>, läuft{" "}
+                            <span className="font-mono">{issue.actual}</span>
+                          </p>
+                        ))}
+                      </div>
+                    )}
+                    {d.diff.length > 0 && (
+                      <pre className="bg-muted p-3 rounded-lg text-xs overflow-x-auto">
+                        {d.diff.map((line, index) => (
+                          <div key={index} className={diffLineClass(line)}>{line}</div>
+                        ))}
+                      </pre>
+                    )}
+                  </div>
+                )}
+              </div>
+            ))}
+            {drift.length === 0 && !loading && (
+              <p className="text-sm text-muted-foreground">Keine Instanzen</p>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Ausrollen</CardTitle>
+            <CardDescription>
+              Schreibt die Soll-Konfiguration und startet die Container neu. Bleibt eine Instanz danach
+              nicht erreichbar, wird sie zurückgerollt und der Rollout angehalten.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="flex flex-wrap items-center gap-4">
+            <label className="flex items-center gap-2 text-sm">
+              Batch-Grösse
+              <Input
+                type="number"
+                min={1}
+                value={batchSize}
+                onChange={(e) => setBatchSize(e.target.value)}
+                className="w-20"
+              />
+            </label>
+            <Button onClick={handleApply} disabled={applying || !!activeRun || drifted.length === 0}>
+              <Play className="h-4 w-4 mr-2" />
+              {selected.length > 0 ? `${selected.length} ausgewählte ausrollen` : `Alle ${drifted.length} abweichenden ausrollen`}
+            </Button>
+          </CardContent>
+        </Card>
+
+        {runs.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Letzte Rollouts</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {runs.slice(0, 10).map((run) => (
+                <div key={run.id} className="rounded-lg border p-3 space-y-2">
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm">
+                      {new Date(run.startedAt).toLocaleString("de-CH")} · Batches von {run.batchSize}
+                    </span>
+                    <Badge variant={run.status === "completed" ? "secondary" : run.status === "running" ? "default" : "destructive"}>
+                      {RUN_LABELS[run.status]}
+                    </Badge>
+                  </div>
+                  {run.error && <p className="text-sm text-destructive">{run.error}</p>}
+                  <div className="grid gap-1 text-sm">
+                    {run.results.map((result) => (
+                      <div key={result.instanceId} className="flex items-center gap-2">
+                        <span className="font-mono">{result.instanceId}</span>
+                        <span className={result.status === "rolled_back" ? "text-destructive" : "text-muted-foreground"}>
+                          {RESULT_LABELS[result.status]}
+                        </span>
+                        {result.error && <span className="text-xs text-muted-foreground">({result.error})</span>}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+      </main>
+    </div>
+  )
+}
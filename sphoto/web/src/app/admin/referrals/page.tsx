@@ -0,0 +1,303 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import {
+  ArrowLeft,
+  CheckCircle,
+  Gift,
+  RefreshCw,
+  Undo2,
+  XCircle,
+} from "lucide-react"
+import Link from "next/link"
+
+const API_URL = process.env.NEXT_PUBLIC_API_URL || "https://api.sphoto.arturf.ch"
+
+type ReferralFlag = "burst" | "shared_ip" | "inactive_referrals" | "capped"
+
+interface Referral {
+  referredId: string
+  referrerId: string
+  code: string
+  kind: "free" | "paid"
+  status: "qualified" | "capped" | "revoked"
+  referrerBonusGB: number
+  referredBonusGB: number
+  created: string
+  upgradedAt?: string
+  signupIp?: string
+  note?: string
+}
+
+interface ChainNode {
+  visibleId: string
+  email: string
+  tier: "free" | "basic" | "pro" | "family"
+  status: string
+  bonusGB: number
+  referral?: Referral
+  flags: ReferralFlag[]
+  referred: ChainNode[]
+}
+
+const flagLabels: Record<ReferralFlag, string> = {
+  burst: "Viele Anmeldungen in 24h",
+  shared_ip: "Gleiche IP",
+  inactive_referrals: "Inaktive Eingeladene",
+  capped: "Limit erreicht",
+}
+
+function formatDate(dateStr: string): string {
+  return new Date(dateStr).toLocaleString("de-CH", {
+    day: "2-digit",
+    month: "2-digit",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  })
+}
+
+// A chain is shown when any account in it is flagged
+function isFlagged(node: ChainNode): boolean {
+  return node.flags.length > 0 || node.referred.some(isFlagged)
+}
+
+function countAccounts(node: ChainNode): number {
+  return node.referred.reduce((sum, child) => sum + 1 + countAccounts(child), 0)
+}
+
+export default function ReferralsPage() {
+  const [apiKey, setApiKey] = useState("")
+  const [isAuthed, setIsAuthed] = useState(false)
+  const [chains, setChains] = useState<ChainNode[]>([])
+  const [total, setTotal] = useState(0)
+  const [flagged, setFlagged] = useState(0)
+  const [onlyFlagged, setOnlyFlagged] = useState(false)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [success, setSuccess] = useState<string | null>(null)
+
+  useEffect(() => {
+    const stored = typeof window !== "undefined" ? localStorage.getItem("admin_api_key") : null
+    if (stored) {
+      setApiKey(stored)
+      setIsAuthed(true)
+    }
+  }, [])
+
+  const api = useCallback(async (endpoint: string, method: string = "GET", body?: unknown) => {
+    setError(null)
+    const res = await fetch(`${API_URL}${endpoint}`, {
+      method,
+      headers: {
+        "x-api-key": apiKey,
+        "Content-Type": "application/json",
+      },
+      body: body ? JSON.stringify(body) : undefined,
+    })
+
+    if (res.status === 401) {
+      localStorage.removeItem("admin_api_key")
+      setIsAuthed(false)
+      throw new Error("API Key ungültig")
+    }
+
+    if (!res.ok) {
+      const err = await res.json().catch(() => ({ error: "Unknown error" }))
+      throw new Error(err.error || `Error ${res.status}`)
+    }
+
+    return res.json()
+  }, [apiKey])
+
+  const loadData = useCallback(async () => {
+    if (!apiKey) return
+    setLoading(true)
+    try {
+      const data = await api("/api/admin/referrals")
+      setChains(data.chains)
+      setTotal(data.total)
+      setFlagged(data.flagged)
+    } catch (err) {
+      setError((err as Error).message)
+    } finally {
+      setLoading(false)
+    }
+  }, [api, apiKey])
+
+  useEffect(() => {
+    if (isAuthed) {
+      loadData()
+    }
+  }, [isAuthed, loadData])
+
+  const handleRevoke = async (node: ChainNode) => {
+    const reason = window.prompt(`Empfehlung für ${node.email} widerrufen? Grund (optional):`)
+    if (reason === null) return
+    setSuccess(null)
+    try {
+      await api(`/api/admin/referrals/${encodeURIComponent(node.visibleId)}/revoke`, "POST", { reason: reason || undefined })
+      setSuccess(`Bonus für ${node.email} und den Einladenden wurde entfernt.`)
+      await loadData()
+    } catch (err) {
+      setError((err as Error).message)
+    }
+  }
+
+  const handleLogin = () => {
+    if (!apiKey) return
+    localStorage.setItem("admin_api_key", apiKey)
+    setIsAuthed(true)
+  }
+
+  const renderNode = (node: ChainNode, depth: number) => (
+    <div key={node.visibleId}>
+      <div
+        className="flex flex-wrap items-center justify-between gap-2 py-2 border-b last:border-0"
+        style={{ paddingLeft: depth * 24 }}
+      >
+        <div className="min-w-0">
+          <p className="font-medium truncate">
+            {node.email || node.visibleId}
+            {node.status !== "active" && (
+              <span className="ml-2 text-xs text-muted-foreground">({node.status})</span>
+            )}
+          </p>
+          <p className="text-xs text-muted-foreground">
+            {node.tier} · {node.bonusGB} GB Bonus
+            {node.referred.length > 0 && ` · ${node.referred.length} eingeladen`}
+            {node.referral && ` · via ${node.referral.code} am ${formatDate(node.referral.created)}`}
+            {node.referral?.signupIp && ` · IP ${node.referral.signupIp}`}
+          </p>
+          {node.referral?.note && (
+            <p className="text-xs text-muted-foreground">{node.referral.note}</p>
+          )}
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          {node.flags.map(flag => (
+            <Badge key={flag} variant="destructive">{flagLabels[flag]}</Badge>
+          ))}
+          {node.referral && (
+            <Badge variant={node.referral.status === "revoked" ? "secondary" : "outline"}>
+              {node.referral.status === "revoked" ? "Widerrufen" : node.referral.kind === "paid" ? "Bezahlt" : "Free"}
+            </Badge>
+          )}
+          {node.referral && node.referral.status !== "revoked" && (
+            <Button variant="outline" size="sm" onClick={() => handleRevoke(node)}>
+              <Undo2 className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+      </div>
+      {node.referred.map(child => renderNode(child, depth + 1))}
+    </div>
+  )
+
+  if (!isAuthed) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background px-4">
+        <Card className="w-full max-w-md">
+          <CardHeader>
+            <CardTitle>Admin Login</CardTitle>
+            <CardDescription>API Key eingeben</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <Input
+              type="password"
+              placeholder="Admin API Key"
+              value={apiKey}
+              onChange={(e) => setApiKey(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && handleLogin()}
+            />
+            <Button className="w-full" onClick={handleLogin}>
+              Anmelden
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    )
+  }
+
+  const visibleChains = onlyFlagged ? chains.filter(isFlagged) : chains
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b bg-background/80 backdrop-blur sticky top-0 z-20">
+        <div className="container mx-auto flex items-center gap-4 px-4 py-4">
+          <Link href="/admin" className="flex items-center gap-2 text-muted-foreground hover:text-foreground">
+            <ArrowLeft className="h-4 w-4" />
+            Zurück
+          </Link>
+          <div className="flex-1">
+            <h1 className="text-xl font-semibold flex items-center gap-2">
+              <Gift className="h-5 w-5 text-primary" />
+              Empfehlungen
+            </h1>
+            <p className="text-sm text-muted-foreground">
+              {total} Empfehlungen · {flagged} markierte Accounts
+            </p>
+          </div>
+          <Button variant="outline" size="sm" onClick={loadData} disabled={loading}>
+            <RefreshCw className={`h-4 w-4 ${loading ? "animate-spin" : ""}`} />
+          </Button>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 space-y-6">
+        {error && (
+          <div className="rounded-lg border border-destructive/30 bg-destructive/10 p-4 text-sm text-destructive flex items-center gap-2">
+            <XCircle className="h-4 w-4" />
+            {error}
+          </div>
+        )}
+
+        {success && (
+          <div className="rounded-lg border border-green-500/30 bg-green-500/10 p-4 text-sm text-green-600 flex items-center gap-2">
+            <CheckCircle className="h-4 w-4" />
+            {success}
+          </div>
+        )}
+
+        <Card>
+          <CardHeader className="flex flex-row items-start justify-between gap-4">
+            <div>
+              <CardTitle>Empfehlungsketten</CardTitle>
+              <CardDescription>
+                Wer wen eingeladen hat. Widerrufen entfernt den Bonus bei beiden Accounts.
+              </CardDescription>
+            </div>
+            <label className="flex items-center gap-2 text-sm text-muted-foreground whitespace-nowrap">
+              <input
+                type="checkbox"
+                checked={onlyFlagged}
+                onChange={(e) => setOnlyFlagged(e.target.checked)}
+              />
+              Nur markierte
+            </label>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {!loading && visibleChains.length === 0 && (
+              <p className="text-muted-foreground">Keine Empfehlungen</p>
+            )}
+            {visibleChains.map(chain => (
+              <div key={chain.visibleId} className="rounded-lg border px-4 py-2">
+                <p className="text-xs text-muted-foreground pt-1">{countAccounts(chain)} Accounts in dieser Kette</p>
+                {renderNode(chain, 0)}
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  )
+}
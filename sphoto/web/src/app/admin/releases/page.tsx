@@ -0,0 +1,449 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import {
+  ArrowLeft,
+  Rocket,
+  Play,
+  RefreshCw,
+  Undo2,
+  ArrowUpCircle,
+  Pin,
+} from "lucide-react"
+import Link from "next/link"
+
+const API_URL = process.env.NEXT_PUBLIC_API_URL || "https://api.sphoto.arturf.ch"
+
+type ReleaseChannel = "canary" | "stable" | "pinned"
+
+interface ReleaseTarget {
+  id: string
+  shared: boolean
+  email?: string
+  status?: "active" | "stopped" | "deleted"
+  channel: ReleaseChannel
+  version: string
+}
+
+type TargetStatus = "pending" | "upgrading" | "upgraded" | "skipped" | "failed" | "rolled_back"
+
+type RolloutStatus = "canary" | "soaking" | "promoting" | "completed" | "rolling_back" | "rolled_back" | "failed"
+
+interface Rollout {
+  id: string
+  version: string
+  status: RolloutStatus
+  soakHours: number
+  soakUntil?: string
+  targets: {
+    id: string
+    shared: boolean
+    stage: "canary" | "stable"
+    status: TargetStatus
+    previousVersion: string
+    upgradedAt?: string
+    error?: string
+  }[]
+  startedBy: string
+  startedAt: string
+  promotedAt?: string
+  completedAt?: string
+  error?: string
+}
+
+interface ReleaseOverview {
+  stableVersion: string
+  targets: ReleaseTarget[]
+  activeRollout: Rollout | null
+}
+
+const CHANNEL_LABELS: Record<ReleaseChannel, string> = {
+  canary: "Canary",
+  stable: "Stable",
+  pinned: "Fixiert",
+}
+
+const TARGET_LABELS: Record<TargetStatus, string> = {
+  pending: "Ausstehend",
+  upgrading: "Wird aktualisiert",
+  upgraded: "Aktualisiert",
+  skipped: "Übersprungen",
+  failed: "Fehlgeschlagen",
+  rolled_back: "Zurückgesetzt",
+}
+
+const ROLLOUT_LABELS: Record<RolloutStatus, string> = {
+  canary: "Canaries",
+  soaking: "Beobachtung",
+  promoting: "Stable",
+  completed: "Abgeschlossen",
+  rolling_back: "Wird zurückgesetzt",
+  rolled_back: "Zurückgesetzt",
+  failed: "Fehlgeschlagen",
+}
+
+const ACTIVE_STATUSES: RolloutStatus[] = ["canary", "soaking", "promoting", "rolling_back"]
+
+function rolloutBadgeVariant(status: RolloutStatus): "default" | "secondary" | "destructive" {
+  if (status === "completed") return "secondary"
+  if (status === "failed" || status === "rolled_back") return "destructive"
+  return "default"
+}
+
+export default function ReleasesPage() {
+  const [apiKey, setApiKey] = useState("")
+  const [isAuthed, setIsAuthed] = useState(false)
+  const [overview, setOverview] = useState<ReleaseOverview | null>(null)
+  const [rollouts, setRollouts] = useState<Rollout[]>([])
+  const [pinVersions, setPinVersions] = useState<Record<string, string>>({})
+  const [version, setVersion] = useState("")
+  const [soakHours, setSoakHours] = useState("24")
+  const [loading, setLoading] = useState(false)
+  const [busy, setBusy] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const stored = typeof window !== "undefined" ? localStorage.getItem("admin_api_key") : null
+    if (stored) {
+      setApiKey(stored)
+      setIsAuthed(true)
+    }
+  }, [])
+
+  const api = useCallback(async (endpoint: string, method: string = "GET", body?: unknown) => {
+    setError(null)
+    const res = await fetch(`${API_URL}${endpoint}`, {
+      method,
+      headers: {
+        "x-api-key": apiKey,
+        "Content-Type": "application/json",
+      },
+      body: body ? JSON.stringify(body) : undefined,
+    })
+
+    if (res.status === 401) {
+      localStorage.removeItem("admin_api_key")
+      setIsAuthed(false)
+      throw new Error("API Key ungültig")
+    }
+
+    if (!res.ok) {
+      const err = await res.json().catch(() => ({ error: "Unknown error" }))
+      throw new Error(err.error || `Error ${res.status}`)
+    }
+
+    return res.json()
+  }, [apiKey])
+
+  const loadReleases = useCallback(async () => {
+    if (!apiKey) return
+    setLoading(true)
+    try {
+      const [overviewData, rolloutData] = await Promise.all([
+        api("/api/admin/releases"),
+        api("/api/admin/releases/rollouts"),
+      ])
+      setOverview(overviewData)
+      setRollouts(rolloutData)
+    } catch (err) {
+      setError((err as Error).message)
+    } finally {
+      setLoading(false)
+    }
+  }, [api, apiKey])
+
+  useEffect(() => {
+    if (isAuthed) {
+      loadReleases()
+    }
+  }, [isAuthed, loadReleases])
+
+  const activeRollout = overview?.activeRollout ?? null
+  const activeRolloutId = activeRollout?.id
+  const activeRolloutWorking = !!activeRollout && activeRollout.status !== "soaking"
+
+  // Follow the stages while instances are upgraded or restored
+  useEffect(() => {
+    if (!activeRolloutId || !activeRolloutWorking) return
+    const timer = setInterval(async () => {
+      try {
+        const rollout: Rollout = await api(`/api/admin/releases/rollouts/${activeRolloutId}`)
+        setRollouts((current) => current.map((r) => (r.id === rollout.id ? rollout : r)))
+        if (rollout.status === "soaking" || !ACTIVE_STATUSES.includes(rollout.status)) loadReleases()
+      } catch (err) {
+        setError((err as Error).message)
+      }
+    }, 5000)
+    return () => clearInterval(timer)
+  }, [activeRolloutId, activeRolloutWorking, api, loadReleases])
+
+  const handleChannel = async (target: ReleaseTarget, channel: ReleaseChannel) => {
+    const pinVersion = pinVersions[target.id]?.trim()
+    setBusy(target.id)
+    try {
+      await api(`/api/admin/releases/targets/${target.id}`, "PUT", {
+        channel,
+        version: channel === "pinned" && pinVersion ? pinVersion : undefined,
+      })
+      setPinVersions((current) => ({ ...current, [target.id]: "" }))
+      await loadReleases()
+    } catch (err) {
+      setError((err as Error).message)
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const handleStart = async () => {
+    if (!version.trim()) return
+    const canaries = overview?.targets.filter((t) => t.channel === "canary").length ?? 0
+    if (!confirm(`Immich ${version} auf ${canaries} Canary-Instanz(en) ausrollen?`)) return
+
+    setBusy("rollout")
+    try {
+      await api("/api/admin/releases/rollouts", "POST", {
+        version: version.trim(),
+        soakHours: parseFloat(soakHours),
+      })
+      setVersion("")
+      await loadReleases()
+    } catch (err) {
+      setError((err as Error).message)
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const handleAction = async (rollout: Rollout, action: "promote" | "rollback") => {
+    const question = action === "promote"
+      ? `Beobachtung beenden und ${rollout.version} auf alle Stable-Instanzen ausrollen?`
+      : `Rollout ${rollout.version} zurücksetzen? Daten seit dem Update gehen auf den betroffenen Instanzen verloren.`
+    if (!confirm(question)) return
+
+    setBusy(rollout.id)
+    try {
+      await api(`/api/admin/releases/rollouts/${rollout.id}/${action}`, "POST")
+      await loadReleases()
+    } catch (err) {
+      setError((err as Error).message)
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const handleLogin = () => {
+    if (!apiKey) return
+    localStorage.setItem("admin_api_key", apiKey)
+    setIsAuthed(true)
+  }
+
+  if (!isAuthed) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background px-4">
+        <Card className="w-full max-w-md">
+          <CardHeader>
+            <CardTitle>Admin Login</CardTitle>
+            <CardDescription>API Key eingeben</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <Input
+              type="password"
+              placeholder="Admin API Key"
+              value={apiKey}
+              onChange={(e) => setApiKey(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && handleLogin()}
+            />
+            <Button className="w-full" onClick={handleLogin}>
+              Anmelden
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b bg-background/80 backdrop-blur sticky top-0 z-20">
+        <div className="container mx-auto flex items-center gap-4 px-4 py-4">
+          <Link href="/admin" className="flex items-center gap-2 text-muted-foreground hover:text-foreground">
+            <ArrowLeft className="h-4 w-4" />
+            Zurück
+          </Link>
+          <div className="flex-1">
+            <h1 className="text-xl font-semibold flex items-center gap-2">
+              <Rocket className="h-5 w-5 text-primary" />
+              Releases
+            </h1>
+            <p className="text-sm text-muted-foreground">
+              Immich-Versionen über Canary und Stable ausrollen
+              {overview && ` · Stable: ${overview.stableVersion}`}
+            </p>
+          </div>
+          <Button variant="outline" size="sm" onClick={loadReleases} disabled={loading}>
+            <RefreshCw className={`h-4 w-4 ${loading ? "animate-spin" : ""}`} />
+          </Button>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 space-y-6">
+        {error && (
+          <div className="rounded-lg border border-destructive/30 bg-destructive/10 p-4 text-sm text-destructive">
+            {error}
+          </div>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Neuer Rollout</CardTitle>
+            <CardDescription>
+              Aktualisiert zuerst die Canary-Instanzen. Bestehen sie alle Health-Checks der Beobachtungszeit,
+              folgen die Stable-Instanzen. Vor jedem Update wird die Datenbank gesichert.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="flex flex-wrap items-center gap-4">
+            <Input
+              placeholder="v1.135.3"
+              value={version}
+              onChange={(e) => setVersion(e.target.value)}
+              className="w-40"
+            />
+            <label className="flex items-center gap-2 text-sm">
+              Beobachtung (Stunden)
+              <Input
+                type="number"
+                min={0}
+                value={soakHours}
+                onChange={(e) => setSoakHours(e.target.value)}
+                className="w-20"
+              />
+            </label>
+            <Button onClick={handleStart} disabled={busy === "rollout" || !!activeRollout || !version.trim()}>
+              <Play className="h-4 w-4 mr-2" />
+              Rollout starten
+            </Button>
+          </CardContent>
+        </Card>
+
+        {rollouts.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Rollouts</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {rollouts.slice(0, 10).map((rollout) => (
+                <div key={rollout.id} className="rounded-lg border p-3 space-y-2">
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <span className="text-sm">
+                      <span className="font-medium">{rollout.version}</span> ·{" "}
+                      {new Date(rollout.startedAt).toLocaleString("de-CH")} · {rollout.startedBy}
+                    </span>
+                    <div className="flex items-center gap-2">
+                      {rollout.status === "soaking" && (
+                        <Button size="sm" variant="outline" onClick={() => handleAction(rollout, "promote")} disabled={busy === rollout.id}>
+                          <ArrowUpCircle className="h-4 w-4 mr-2" />
+                          Jetzt freigeben
+                        </Button>
+                      )}
+                      {(rollout.status === "soaking" || rollout.status === "failed") &&
+                        rollout.targets.some((t) => t.status === "upgraded") && (
+                        <Button size="sm" variant="outline" onClick={() => handleAction(rollout, "rollback")} disabled={busy === rollout.id}>
+                          <Undo2 className="h-4 w-4 mr-2" />
+                          Zurücksetzen
+                        </Button>
+                      )}
+                      <Badge variant={rolloutBadgeVariant(rollout.status)}>
+                        {ROLLOUT_LABELS[rollout.status]}
+                      </Badge>
+                    </div>
+                  </div>
+                  {rollout.status === "soaking" && rollout.soakUntil && (
+                    <p className="text-sm text-muted-foreground">
+                      Beobachtung bis {new Date(rollout.soakUntil).toLocaleString("de-CH")}
+                    </p>
+                  )}
+                  {rollout.error && <p className="text-sm text-destructive">{rollout.error}</p>}
+                  <div className="grid gap-1 text-sm">
+                    {rollout.targets.map((target) => (
+                      <div key={target.id} className="flex items-center gap-2">
+                        <Badge variant="outline">{target.stage === "canary" ? "Canary" : "Stable"}</Badge>
+                        <span className="font-mono">{target.id}</span>
+                        <span className="text-xs text-muted-foreground">von {target.previousVersion}</span>
+                        <span className={target.status === "failed" || target.status === "rolled_back" ? "text-destructive" : "text-muted-foreground"}>
+                          {TARGET_LABELS[target.status]}
+                        </span>
+                        {target.error && <span className="text-xs text-muted-foreground">({target.error})</span>}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Kanäle</CardTitle>
+            <CardDescription>
+              Fixierte Instanzen bleiben bei Rollouts aussen vor. Eine angegebene Version wird mit dem
+              nächsten Abgleich unter Drift & Rollout übernommen.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {overview?.targets.map((target) => (
+              <div key={target.id} className="flex flex-wrap items-center gap-3 rounded-lg border p-3">
+                <div className="flex-1 min-w-48">
+                  <span className="font-medium">{target.id}</span>
+                  <span className="ml-2 text-xs text-muted-foreground">
+                    {target.shared ? "Shared" : `${target.email} · ${target.status}`}
+                  </span>
+                </div>
+                <span className="font-mono text-sm">{target.version}</span>
+                <Input
+                  placeholder="Version fixieren"
+                  value={pinVersions[target.id] ?? ""}
+                  onChange={(e) => setPinVersions((current) => ({ ...current, [target.id]: e.target.value }))}
+                  className="w-36"
+                />
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => handleChannel(target, "pinned")}
+                  disabled={busy === target.id || !pinVersions[target.id]?.trim()}
+                >
+                  <Pin className="h-4 w-4" />
+                </Button>
+                <select
+                  value={target.channel}
+                  onChange={(e) => handleChannel(target, e.target.value as ReleaseChannel)}
+                  disabled={busy === target.id}
+                  className="h-10 rounded-md border border-input bg-background px-3 text-sm"
+                >
+                  {(Object.keys(CHANNEL_LABELS) as ReleaseChannel[]).map((channel) => (
+                    <option key={channel} value={channel}>
+                      {CHANNEL_LABELS[channel]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            ))}
+            {overview?.targets.length === 0 && (
+              <p className="text-sm text-muted-foreground">Keine Immich-Instanzen</p>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,557 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import {
+  ArrowLeft,
+  Radio,
+  Plus,
+  RefreshCw,
+  CheckCircle,
+  XCircle,
+  AlertTriangle,
+  Mail,
+  Trash2,
+  ExternalLink,
+} from "lucide-react"
+import Link from "next/link"
+
+const API_URL = process.env.NEXT_PUBLIC_API_URL || "https://api.sphoto.arturf.ch"
+
+type ComponentId = "free" | "paid" | "portal" | "uploads" | "ml" | "instances"
+type ComponentState = "operational" | "degraded" | "outage" | "maintenance"
+type IncidentStatus = "investigating" | "identified" | "monitoring" | "resolved"
+type IncidentImpact = "degraded" | "outage"
+
+interface Incident {
+  id: string
+  title: string
+  impact: IncidentImpact
+  components: ComponentId[]
+  status: IncidentStatus
+  createdAt: string
+  resolvedAt?: string
+  updates: Array<{ id: string; status: IncidentStatus; message: string; createdAt: string; createdBy: string }>
+}
+
+interface StatusComponent {
+  id: ComponentId
+  state: ComponentState
+  message?: string
+  since: string
+  uptime: number | null
+}
+
+interface Subscriber {
+  email: string
+  locale?: string
+  confirmed: boolean
+  createdAt: string
+  confirmedAt?: string
+}
+
+const componentLabels: Record<ComponentId, string> = {
+  free: "Free-Instanz",
+  paid: "Bezahlte Instanz",
+  portal: "Kundenportal",
+  uploads: "Uploads",
+  ml: "Machine Learning",
+  instances: "Foto-Instanzen",
+}
+
+const stateLabels: Record<ComponentState, string> = {
+  operational: "In Betrieb",
+  degraded: "Beeinträchtigt",
+  outage: "Ausfall",
+  maintenance: "Wartung",
+}
+
+const stateColors: Record<ComponentState, string> = {
+  operational: "bg-green-500/10 text-green-600",
+  degraded: "bg-amber-500/10 text-amber-600",
+  outage: "bg-red-500/10 text-red-600",
+  maintenance: "bg-blue-500/10 text-blue-600",
+}
+
+const statusLabels: Record<IncidentStatus, string> = {
+  investigating: "Untersuchung",
+  identified: "Ursache gefunden",
+  monitoring: "Beobachtung",
+  resolved: "Behoben",
+}
+
+function formatDateTime(dateStr: string): string {
+  return new Date(dateStr).toLocaleString("de-CH", {
+    day: "2-digit",
+    month: "2-digit",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  })
+}
+
+const emptyForm = {
+  title: "",
+  impact: "degraded" as IncidentImpact,
+  components: [] as ComponentId[],
+  message: "",
+}
+
+export default function StatusAdminPage() {
+  const [apiKey, setApiKey] = useState("")
+  const [isAuthed, setIsAuthed] = useState(false)
+  const [incidents, setIncidents] = useState<Incident[]>([])
+  const [components, setComponents] = useState<StatusComponent[]>([])
+  const [subscribers, setSubscribers] = useState<Subscriber[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [success, setSuccess] = useState<string | null>(null)
+  const [showForm, setShowForm] = useState(false)
+  const [formData, setFormData] = useState(emptyForm)
+  const [updateDrafts, setUpdateDrafts] = useState<Record<string, { status: IncidentStatus; message: string }>>({})
+  const [actionLoading, setActionLoading] = useState<string | null>(null)
+
+  useEffect(() => {
+    const stored = typeof window !== "undefined" ? localStorage.getItem("admin_api_key") : null
+    if (stored) {
+      setApiKey(stored)
+      setIsAuthed(true)
+    }
+  }, [])
+
+  const api = useCallback(async (endpoint: string, method: string = "GET", body?: unknown) => {
+    setError(null)
+    const res = await fetch(`${API_URL}${endpoint}`, {
+      method,
+      headers: {
+        "x-api-key": apiKey,
+        "Content-Type": "application/json",
+      },
+      body: body ? JSON.stringify(body) : undefined,
+    })
+
+    if (res.status === 401) {
+      localStorage.removeItem("admin_api_key")
+      setIsAuthed(false)
+      throw new Error("API Key ungültig")
+    }
+
+    if (!res.ok) {
+      const err = await res.json().catch(() => ({ error: "Unknown error" }))
+      throw new Error(err.error || `Error ${res.status}`)
+    }
+
+    return res.json()
+  }, [apiKey])
+
+  const loadData = useCallback(async () => {
+    if (!apiKey) return
+    setLoading(true)
+    try {
+      const [incidentData, statusData, subscriberData] = await Promise.all([
+        api("/api/admin/status/incidents"),
+        api("/api/status"),
+        api("/api/admin/status/subscribers"),
+      ])
+      setIncidents(incidentData)
+      setComponents(statusData.components)
+      setSubscribers(subscriberData)
+    } catch (err) {
+      setError((err as Error).message)
+    } finally {
+      setLoading(false)
+    }
+  }, [api, apiKey])
+
+  useEffect(() => {
+    if (isAuthed) {
+      loadData()
+    }
+  }, [isAuthed, loadData])
+
+  const toggleComponent = (id: ComponentId) => {
+    setFormData(prev => ({
+      ...prev,
+      components: prev.components.includes(id)
+        ? prev.components.filter(c => c !== id)
+        : [...prev.components, id],
+    }))
+  }
+
+  const handleCreateIncident = async () => {
+    if (!formData.title || !formData.message || formData.components.length === 0) {
+      setError("Bitte Titel, Meldung und mindestens einen Dienst angeben")
+      return
+    }
+
+    try {
+      await api("/api/admin/status/incidents", "POST", formData)
+      setSuccess("Störung veröffentlicht, Abonnenten werden benachrichtigt")
+      setShowForm(false)
+      setFormData(emptyForm)
+      await loadData()
+    } catch (err) {
+      setError((err as Error).message)
+    }
+  }
+
+  const handleAddUpdate = async (incident: Incident) => {
+    const draft = updateDrafts[incident.id]
+    if (!draft?.message) {
+      setError("Bitte eine Meldung eingeben")
+      return
+    }
+
+    setActionLoading(incident.id)
+    try {
+      await api(`/api/admin/status/incidents/${incident.id}/updates`, "POST", draft)
+      setSuccess(draft.status === "resolved" ? "Störung als behoben markiert" : "Update veröffentlicht")
+      setUpdateDrafts(prev => {
+        const next = { ...prev }
+        delete next[incident.id]
+        return next
+      })
+      await loadData()
+    } catch (err) {
+      setError((err as Error).message)
+    } finally {
+      setActionLoading(null)
+    }
+  }
+
+  const handleDeleteIncident = async (id: string) => {
+    if (!confirm("Störung endgültig löschen? Sie verschwindet auch aus der Historie.")) return
+    setActionLoading(id)
+    try {
+      await api(`/api/admin/status/incidents/${id}`, "DELETE")
+      setSuccess("Störung gelöscht")
+      await loadData()
+    } catch (err) {
+      setError((err as Error).message)
+    } finally {
+      setActionLoading(null)
+    }
+  }
+
+  const handleRemoveSubscriber = async (email: string) => {
+    setActionLoading(email)
+    try {
+      await api(`/api/admin/status/subscribers/${encodeURIComponent(email)}`, "DELETE")
+      setSuccess(`${email} abgemeldet`)
+      await loadData()
+    } catch (err) {
+      setError((err as Error).message)
+    } finally {
+      setActionLoading(null)
+    }
+  }
+
+  const handleLogin = () => {
+    if (!apiKey) return
+    localStorage.setItem("admin_api_key", apiKey)
+    setIsAuthed(true)
+  }
+
+  const active = incidents.filter(i => i.status !== "resolved")
+  const resolved = incidents.filter(i => i.status === "resolved")
+
+  if (!isAuthed) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background px-4">
+        <Card className="w-full max-w-md">
+          <CardHeader>
+            <CardTitle>Admin Login</CardTitle>
+            <CardDescription>API Key eingeben</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <Input
+              type="password"
+              placeholder="Admin API Key"
+              value={apiKey}
+              onChange={(e) => setApiKey(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && handleLogin()}
+            />
+            <Button className="w-full" onClick={handleLogin}>
+              Anmelden
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b bg-background/80 backdrop-blur sticky top-0 z-20">
+        <div className="container mx-auto flex items-center gap-4 px-4 py-4">
+          <Link href="/admin" className="flex items-center gap-2 text-muted-foreground hover:text-foreground">
+            <ArrowLeft className="h-4 w-4" />
+            Zurück
+          </Link>
+          <div className="flex-1">
+            <h1 className="text-xl font-semibold flex items-center gap-2">
+              <Radio className="h-5 w-5 text-primary" />
+              Statusseite
+            </h1>
+            <p className="text-sm text-muted-foreground">Störungen melden und Abonnenten verwalten</p>
+          </div>
+          <div className="flex items-center gap-2">
+            <Link href="/status" target="_blank">
+              <Button variant="outline" size="sm">
+                <ExternalLink className="h-4 w-4" />
+              </Button>
+            </Link>
+            <Button variant="outline" size="sm" onClick={loadData} disabled={loading}>
+              <RefreshCw className={`h-4 w-4 ${loading ? "animate-spin" : ""}`} />
+            </Button>
+            <Button onClick={() => setShowForm(true)}>
+              <Plus className="h-4 w-4 mr-2" />
+              Neue Störung
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 space-y-6">
+        {error && (
+          <div className="rounded-lg border border-destructive/30 bg-destructive/10 p-4 text-sm text-destructive flex items-center gap-2">
+            <XCircle className="h-4 w-4" />
+            {error}
+          </div>
+        )}
+
+        {success && (
+          <div className="rounded-lg border border-green-500/30 bg-green-500/10 p-4 text-sm text-green-600 flex items-center gap-2">
+            <CheckCircle className="h-4 w-4" />
+            {success}
+          </div>
+        )}
+
+        {/* Components */}
+        <div className="grid gap-4 md:grid-cols-3 lg:grid-cols-5">
+          {components.map(c => (
+            <Card key={c.id}>
+              <CardContent className="pt-6 space-y-2">
+                <p className="text-sm text-muted-foreground">{componentLabels[c.id]}</p>
+                <Badge className={stateColors[c.state]}>{stateLabels[c.state]}</Badge>
+                {c.message && <p className="text-xs text-muted-foreground break-words">{c.message}</p>}
+                <p className="text-xs text-muted-foreground">
+                  Uptime 90 Tage: {c.uptime === null ? "–" : `${(c.uptime * 100).toFixed(2)} %`}
+                </p>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+
+        {/* New Incident Form */}
+        {showForm && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Plus className="h-5 w-5" />
+                Neue Störung melden
+              </CardTitle>
+              <CardDescription>Bestätigte Abonnenten erhalten eine E-Mail</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid gap-4 md:grid-cols-2">
+                <div>
+                  <label className="text-sm font-medium">Titel *</label>
+                  <Input
+                    placeholder="z.B. Uploads schlagen fehl"
+                    value={formData.title}
+                    onChange={(e) => setFormData({ ...formData, title: e.target.value })}
+                    className="mt-1"
+                  />
+                </div>
+                <div>
+                  <label className="text-sm font-medium">Auswirkung</label>
+                  <select
+                    value={formData.impact}
+                    onChange={(e) => setFormData({ ...formData, impact: e.target.value as IncidentImpact })}
+                    className="mt-1 h-10 w-full rounded-md border border-input bg-background px-3 text-sm"
+                  >
+                    <option value="degraded">Beeinträchtigt</option>
+                    <option value="outage">Ausfall</option>
+                  </select>
+                </div>
+              </div>
+              <div>
+                <label className="text-sm font-medium">Betroffene Dienste *</label>
+                <div className="mt-1 flex flex-wrap gap-2">
+                  {components.map(c => (
+                    <Button
+                      key={c.id}
+                      type="button"
+                      size="sm"
+                      variant={formData.components.includes(c.id) ? "default" : "outline"}
+                      onClick={() => toggleComponent(c.id)}
+                    >
+                      {componentLabels[c.id]}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+              <div>
+                <label className="text-sm font-medium">Erste Meldung *</label>
+                <textarea
+                  placeholder="Was ist betroffen, was wissen wir bereits?"
+                  value={formData.message}
+                  onChange={(e) => setFormData({ ...formData, message: e.target.value })}
+                  className="mt-1 w-full rounded-md border border-input bg-background px-3 py-2 text-sm min-h-20"
+                />
+              </div>
+              <div className="flex gap-2 pt-4">
+                <Button onClick={handleCreateIncident}>
+                  Veröffentlichen
+                </Button>
+                <Button variant="outline" onClick={() => setShowForm(false)}>
+                  Abbrechen
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Active Incidents */}
+        <Card className={active.length > 0 ? "border-amber-500/50" : undefined}>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <AlertTriangle className="h-5 w-5 text-amber-500" />
+              Offene Störungen
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {active.length === 0 && <p className="text-muted-foreground">Keine offenen Störungen</p>}
+            <div className="space-y-4">
+              {active.map(incident => {
+                const draft = updateDrafts[incident.id] || { status: incident.status, message: "" }
+                return (
+                  <div key={incident.id} className="p-4 rounded-lg border space-y-3">
+                    <div className="flex items-start justify-between gap-4">
+                      <div>
+                        <div className="flex items-center gap-2">
+                          <h4 className="font-semibold">{incident.title}</h4>
+                          <Badge className={stateColors[incident.impact]}>{stateLabels[incident.impact]}</Badge>
+                          <Badge variant="outline">{statusLabels[incident.status]}</Badge>
+                        </div>
+                        <p className="text-xs text-muted-foreground mt-1">
+                          {incident.components.map(c => componentLabels[c]).join(", ")} · seit {formatDateTime(incident.createdAt)}
+                        </p>
+                      </div>
+                    </div>
+                    <div className="space-y-2 border-l pl-4">
+                      {[...incident.updates].reverse().map(u => (
+                        <div key={u.id} className="text-sm">
+                          <span className="font-medium">{statusLabels[u.status]}</span>
+                          <span className="text-muted-foreground"> – {formatDateTime(u.createdAt)} ({u.createdBy})</span>
+                          <p className="text-muted-foreground whitespace-pre-line">{u.message}</p>
+                        </div>
+                      ))}
+                    </div>
+                    <div className="flex flex-col gap-2 md:flex-row">
+                      <select
+                        value={draft.status}
+                        onChange={(e) => setUpdateDrafts({ ...updateDrafts, [incident.id]: { ...draft, status: e.target.value as IncidentStatus } })}
+                        className="h-10 rounded-md border border-input bg-background px-3 text-sm"
+                      >
+                        {Object.entries(statusLabels).map(([status, label]) => (
+                          <option key={status} value={status}>{label}</option>
+                        ))}
+                      </select>
+                      <Input
+                        placeholder="Neue Meldung"
+                        value={draft.message}
+                        onChange={(e) => setUpdateDrafts({ ...updateDrafts, [incident.id]: { ...draft, message: e.target.value } })}
+                      />
+                      <Button onClick={() => handleAddUpdate(incident)} disabled={actionLoading === incident.id}>
+                        Update
+                      </Button>
+                    </div>
+                  </div>
+                )
+              })}
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Resolved Incidents */}
+        {resolved.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <CheckCircle className="h-5 w-5 text-muted-foreground" />
+                Behobene Störungen
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-2">
+                {resolved.slice(0, 20).map(incident => (
+                  <div key={incident.id} className="flex items-center justify-between py-2 border-b last:border-0">
+                    <div>
+                      <p className="font-medium">{incident.title}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {formatDateTime(incident.createdAt)} → {incident.resolvedAt ? formatDateTime(incident.resolvedAt) : "–"}
+                      </p>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleDeleteIncident(incident.id)}
+                      disabled={actionLoading === incident.id}
+                    >
+                      <Trash2 className="h-4 w-4 text-destructive" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Subscribers */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Mail className="h-5 w-5" />
+              Abonnenten
+            </CardTitle>
+            <CardDescription>
+              {subscribers.filter(s => s.confirmed).length} bestätigt, {subscribers.filter(s => !s.confirmed).length} ausstehend
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {subscribers.length === 0 && <p className="text-muted-foreground">Keine Abonnenten</p>}
+            <div className="space-y-2">
+              {subscribers.map(s => (
+                <div key={s.email} className="flex items-center justify-between py-2 border-b last:border-0">
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm">{s.email}</span>
+                    {!s.confirmed && <Badge variant="outline">unbestätigt</Badge>}
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleRemoveSubscriber(s.email)}
+                    disabled={actionLoading === s.email}
+                  >
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  )
+}
@@ -37,6 +37,14 @@ const DOMAIN = process.env.NEXT_PUBLIC_DOMAIN || "sphoto.arturf.ch"
 // Deployment mode: 'shared' = shared instances (no subdomain), 'siloed' = dedicated instances
 const DEPLOYMENT_MODE = process.env.NEXT_PUBLIC_DEPLOYMENT_MODE || "shared"
 
+// Show the monthly/yearly switch (requires the yearly Stripe prices)
+const ANNUAL_BILLING = process.env.NEXT_PUBLIC_ANNUAL_BILLING === "true"
+
+// Show the Family plan (requires STRIPE_PRICE_FAMILY, shared mode only)
+const FAMILY_PLAN = process.env.NEXT_PUBLIC_FAMILY_PLAN === "true"
+
+type BillingInterval = "month" | "year"
+
 type Platform = "immich" | "nextcloud"
 
 const platformInfo = {
@@ -106,6 +114,7 @@ const planDetails = DEPLOYMENT_MODE === "shared" ? [
     id: "free",
     name: "Free",
     price: "0",
+    yearlyPrice: "0",
     storage: "5 GB",
     popular: false,
     description: "Zum Testen",
@@ -116,6 +125,7 @@ const planDetails = DEPLOYMENT_MODE === "shared" ? [
     id: "basic",
     name: "Basic",
     price: "5",
+    yearlyPrice: "50",
     storage: "200 GB",
     popular: false,
     description: "Für Einzelpersonen",
@@ -126,17 +136,30 @@ const planDetails = DEPLOYMENT_MODE === "shared" ? [
     id: "pro",
     name: "Pro",
     price: "15",
+    yearlyPrice: "150",
     storage: "1 TB",
     popular: true,
     description: "Für Familien & Teams",
     highlight: "~200'000 Fotos",
     cta: "Pro starten",
   },
+  ...(FAMILY_PLAN ? [{
+    id: "family",
+    name: "Family",
+    price: "25",
+    yearlyPrice: "250",
+    storage: "2 TB",
+    popular: false,
+    description: "Bis zu 5 Accounts",
+    highlight: "Gemeinsamer Speicher",
+    cta: "Family starten",
+  }] : []),
 ] : [
   {
     id: "basic",
     name: "Basic",
     price: "5",
+    yearlyPrice: "50",
     storage: "200 GB",
     popular: false,
     description: "Für Einzelpersonen",
@@ -147,6 +170,7 @@ const planDetails = DEPLOYMENT_MODE === "shared" ? [
     id: "pro",
     name: "Pro",
     price: "15",
+    yearlyPrice: "150",
     storage: "1 TB",
     popular: true,
     description: "Für Familien & Teams",
@@ -193,6 +217,18 @@ export default function Home() {
   const [openFaq, setOpenFaq] = useState<number | null>(null)
   const [email, setEmail] = useState("")
   const [emailStatus, setEmailStatus] = useState<"idle" | "checking" | "valid" | "invalid">("idle")
+  const [billingInterval, setBillingInterval] = useState<BillingInterval>("month")
+  const [promoCode, setPromoCode] = useState("")
+  const [referralCode, setReferralCode] = useState("")
+
+  // Campaign and referral links pass their codes through to signup and checkout
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search)
+    const promo = params.get("promo")
+    const ref = params.get("ref")
+    if (promo) setPromoCode(promo)
+    if (ref) setReferralCode(ref)
+  }, [])
 
   // Subdomain check (only for siloed mode)
   useEffect(() => {
@@ -268,17 +304,26 @@ export default function Home() {
   const handleCheckout = (planId: string) => {
     if (checkoutDisabled) return
     
+    if (DEPLOYMENT_MODE === "shared" && planId === "free") {
+      const params = new URLSearchParams({ email })
+      if (referralCode) params.set("ref", referralCode)
+      window.location.href = `/signup?${params}`
+      return
+    }
+
+    const params = new URLSearchParams({ interval: billingInterval })
+    if (promoCode) params.set("promo", promoCode)
+    if (referralCode && DEPLOYMENT_MODE === "shared") params.set("ref", referralCode)
+
     if (DEPLOYMENT_MODE === "shared") {
-      // Shared mode: redirect to signup/checkout with email
-      if (planId === "free") {
-        window.location.href = `${API_URL}/signup/free?email=${encodeURIComponent(email)}`
-      } else {
-        window.location.href = `${API_URL}/checkout/${planId}?email=${encodeURIComponent(email)}`
-      }
+      // Shared mode: redirect to checkout with email
+      params.set("email", email)
     } else {
       // Siloed mode: redirect to checkout with subdomain and platform
-      window.location.href = `${API_URL}/checkout/${planId}?subdomain=${subdomain}&platform=${platform}`
+      params.set("subdomain", subdomain)
+      params.set("platform", platform)
     }
+    window.location.href = `${API_URL}/checkout/${planId}?${params}`
   }
 
   const currentPlatform = platformInfo[platform]
@@ -562,8 +607,39 @@ export default function Home() {
             </div>
             )}
 
+            {/* Billing Interval - only with yearly prices */}
+            {ANNUAL_BILLING && (
+            <div className="mx-auto max-w-xs mb-8">
+              <div className="grid grid-cols-2 gap-3 p-1 rounded-xl bg-muted/50">
+                {(["month", "year"] as BillingInterval[]).map((interval) => (
+                  <button
+                    key={interval}
+                    onClick={() => setBillingInterval(interval)}
+                    className={`rounded-lg px-4 py-2 text-sm font-medium transition-all ${
+                      billingInterval === interval
+                        ? "bg-background shadow-sm text-foreground"
+                        : "text-muted-foreground hover:text-foreground"
+                    }`}
+                  >
+                    {interval === "month" ? "Monatlich" : "Jährlich"}
+                  </button>
+                ))}
+              </div>
+            </div>
+            )}
+
+            {promoCode && (
+              <p className="mb-8 text-center text-sm text-green-500">
+                Gutscheincode <strong>{promoCode}</strong> wird beim Checkout angewendet
+              </p>
+            )}
+
             {/* Pricing Cards */}
-            <div className={`mx-auto grid max-w-5xl gap-6 ${planDetails.length === 3 ? "md:grid-cols-3" : "md:grid-cols-2"}`}>
+            <div className={`mx-auto grid gap-6 ${
+              planDetails.length === 4
+                ? "max-w-6xl md:grid-cols-2 lg:grid-cols-4"
+                : `max-w-5xl ${planDetails.length === 3 ? "md:grid-cols-3" : "md:grid-cols-2"}`
+            }`}>
               {planDetails.map((plan) => (
                 <Card 
                   key={plan.id} 
@@ -590,8 +666,12 @@ export default function Home() {
                   </CardHeader>
                   <CardContent className="text-center pb-2">
                     <div className="mb-2">
-                      <span className="text-5xl font-bold">{plan.price}</span>
-                      <span className="text-lg text-muted-foreground"> CHF/Mt.</span>
+                      <span className="text-5xl font-bold">
+                        {billingInterval === "year" ? plan.yearlyPrice : plan.price}
+                      </span>
+                      <span className="text-lg text-muted-foreground">
+                        {billingInterval === "year" ? " CHF/Jahr" : " CHF/Mt."}
+                      </span>
                     </div>
                     <div className="flex items-center justify-center gap-2 text-primary font-medium">
                       <span>{plan.storage}</span>
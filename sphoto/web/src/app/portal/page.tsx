@@ -14,6 +14,7 @@ import {
 } from "@/components/ui/card"
 import { Progress } from "@/components/ui/progress"
 import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
 import {
   AlertDialog,
   AlertDialogAction,
@@ -42,6 +43,16 @@ import {
   AlertTriangle,
   CheckCircle,
   XCircle,
+  Minus,
+  Plus,
+  Gift,
+  Copy,
+  Users,
+  UserPlus,
+  X,
+  FileText,
+  TrendingUp,
+  Globe,
 } from "lucide-react"
 
 const API_URL = process.env.NEXT_PUBLIC_API_URL || "https://api.sphoto.arturf.ch"
@@ -51,6 +62,7 @@ interface PortalData {
   tier: string
   plan: string
   quotaGB: number
+  bonusGB?: number
   usedGB: number
   percentUsed: number
   photos: number
@@ -64,6 +76,228 @@ interface PortalData {
   deletionScheduledFor?: string
   canRequestExport: boolean
   lastExportAt?: string
+  billingStatus?: "active" | "past_due" | "suspended" | "downgraded"
+  graceEndsAt?: string
+  graceDaysRemaining?: number
+  graceAction?: "migrate" | "export_delete"
+  locale: "de" | "en"
+  export: ExportInfo | null
+}
+
+interface ReferralInfo {
+  code: string
+  link: string
+  referred: number
+  bonusGB: number
+  maxBonusGB: number
+  freeBonusGB: number
+  paidBonusGB: number
+}
+
+interface HouseholdMember {
+  visibleId: string
+  email: string
+  role: "owner" | "member"
+  joinedAt: string
+  usedGB: number
+  partnerSharing: boolean
+}
+
+interface Household {
+  role: "owner" | "member"
+  ownerEmail: string
+  poolGB: number
+  usedGB: number
+  maxMembers: number
+  members: HouseholdMember[]
+  invites: { token: string; email: string; expiresAt: string }[]
+  canInvite: boolean
+  reason?: string
+  paused: boolean
+}
+
+interface PlanPrice {
+  amount: number
+  currency: string
+  interval?: string
+}
+
+interface SubscriptionPlan {
+  tier: "basic" | "pro" | "family"
+  planName: string
+  interval: "month" | "year"
+  addonBlocks: number
+  quotaGB: number
+}
+
+interface PlanOverview {
+  current: SubscriptionPlan
+  usedGB: number
+  plans: { tier: SubscriptionPlan["tier"]; name: string; storageGB: number; price?: PlanPrice }[]
+  addon: { available: boolean; blockGB: number; maxBlocks: number; price?: PlanPrice }
+  canChange: boolean
+  reason?: string
+}
+
+interface PlanChangePreview {
+  from: SubscriptionPlan
+  to: SubscriptionPlan
+  usedGB: number
+  possible: boolean
+  reason?: string
+  prorationAmount?: number
+  nextInvoiceAmount?: number
+  nextInvoiceAt?: string
+  currency?: string
+}
+
+function formatPrice(amount: number, currency: string): string {
+  return new Intl.NumberFormat("de-CH", { style: "currency", currency: currency.toUpperCase() }).format(amount / 100)
+}
+
+interface Invoice {
+  id: string
+  number: string | null
+  status: string
+  created: string
+  periodStart?: string
+  periodEnd?: string
+  currency: string
+  net: number
+  tax: number
+  total: number
+  amountDue: number
+  hasPdf: boolean
+}
+
+const INVOICE_STATUS_LABELS: Record<string, string> = {
+  paid: "Bezahlt",
+  open: "Offen",
+  void: "Storniert",
+  uncollectible: "Uneinbringlich",
+}
+
+const INTERVAL_LABELS: Record<string, string> = { month: "Monat", year: "Jahr" }
+
+type UsageGranularity = "day" | "week" | "month"
+
+interface UsagePoint {
+  date: string
+  bytes: number
+  photos: number
+  videos: number
+  uploads: number
+}
+
+interface UsageHistory {
+  granularity: UsageGranularity
+  points: UsagePoint[]
+  usedBytes: number
+  quotaBytes: number
+  dailyGrowthBytes: number | null
+  projectedFullAt: string | null
+}
+
+const USAGE_GRANULARITY_LABELS: Record<UsageGranularity, string> = { day: "Tage", week: "Wochen", month: "Monate" }
+
+// Bars shown per granularity: three months of days, a year of weeks, two years of months
+const USAGE_CHART_POINTS: Record<UsageGranularity, number> = { day: 90, week: 52, month: 24 }
+
+function formatGB(bytes: number): string {
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`
+}
+
+function formatUsageDate(date: string, granularity: UsageGranularity): string {
+  return new Date(date).toLocaleDateString("de-CH", granularity === "month"
+    ? { month: "short", year: "numeric" }
+    : { day: "2-digit", month: "2-digit", year: "2-digit" })
+}
+
+interface ExportInfo {
+  status: "pending" | "exporting" | "completed" | "failed"
+  created: string
+  totalAssets: number
+  exportedAssets: number
+  downloadUrl?: string
+  expiresAt?: string
+  fileSize?: number
+}
+
+function StorageHistoryCard({ usage, granularity, onGranularityChange }: {
+  usage: UsageHistory
+  granularity: UsageGranularity
+  onGranularityChange: (granularity: UsageGranularity) => void
+}) {
+  const points = usage.points.slice(-USAGE_CHART_POINTS[granularity])
+  // The top of the storage chart is the quota, unless usage went past it
+  const maxBytes = Math.max(usage.quotaBytes, ...points.map(p => p.bytes), 1)
+  const maxUploads = Math.max(...points.map(p => p.uploads), 1)
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <TrendingUp className="h-5 w-5" />
+              Speicherverlauf
+            </CardTitle>
+            <CardDescription>
+              Wie deine Mediathek wächst · Obergrenze {formatGB(usage.quotaBytes)}
+            </CardDescription>
+          </div>
+          <select
+            value={granularity}
+            onChange={(e) => onGranularityChange(e.target.value as UsageGranularity)}
+            className="h-9 rounded-md border border-input bg-background px-3 text-sm"
+          >
+            {(Object.keys(USAGE_GRANULARITY_LABELS) as UsageGranularity[]).map(g => (
+              <option key={g} value={g}>{USAGE_GRANULARITY_LABELS[g]}</option>
+            ))}
+          </select>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div>
+          <p className="text-sm font-medium mb-2">Speicher</p>
+          <div className="flex items-end gap-px h-32 border-t border-dashed border-destructive/40">
+            {points.map(p => (
+              <div
+                key={p.date}
+                className="flex-1 bg-primary/80 rounded-t hover:bg-primary transition-colors"
+                style={{ height: `${Math.max((p.bytes / maxBytes) * 100, 1)}%` }}
+                title={`${formatUsageDate(p.date, granularity)}: ${formatGB(p.bytes)}`}
+              />
+            ))}
+          </div>
+        </div>
+        <div>
+          <p className="text-sm font-medium mb-2">Uploads</p>
+          <div className="flex items-end gap-px h-16">
+            {points.map(p => (
+              <div
+                key={p.date}
+                className="flex-1 bg-blue-500/80 rounded-t hover:bg-blue-500 transition-colors"
+                style={{ height: `${Math.max((p.uploads / maxUploads) * 100, 1)}%` }}
+                title={`${formatUsageDate(p.date, granularity)}: ${p.uploads} Uploads`}
+              />
+            ))}
+          </div>
+          <div className="flex justify-between text-xs text-muted-foreground mt-1">
+            <span>{formatUsageDate(points[0].date, granularity)}</span>
+            <span>{formatUsageDate(points[points.length - 1].date, granularity)}</span>
+          </div>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          {usage.usedBytes >= usage.quotaBytes
+            ? "Dein Speicher ist voll."
+            : usage.projectedFullAt
+            ? `Bei gleichbleibendem Wachstum (${formatGB(usage.dailyGrowthBytes ?? 0)} pro Tag) ist dein Speicher am ${new Date(usage.projectedFullAt).toLocaleDateString("de-CH")} voll.`
+            : "Beim aktuellen Wachstum ist kein Ende deines Speichers absehbar."}
+        </p>
+      </CardContent>
+    </Card>
+  )
 }
 
 export default function PortalPage() {
@@ -86,6 +320,24 @@ function PortalContent() {
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [actionLoading, setActionLoading] = useState<string | null>(null)
+  const [exportPassword, setExportPassword] = useState("")
+  const [exportError, setExportError] = useState<string | null>(null)
+  const [planOverview, setPlanOverview] = useState<PlanOverview | null>(null)
+  const [selectedTier, setSelectedTier] = useState<SubscriptionPlan["tier"]>("basic")
+  const [selectedBlocks, setSelectedBlocks] = useState(0)
+  const [planPreview, setPlanPreview] = useState<PlanChangePreview | null>(null)
+  const [planError, setPlanError] = useState<string | null>(null)
+  const [referral, setReferral] = useState<ReferralInfo | null>(null)
+  const [referralCopied, setReferralCopied] = useState(false)
+  const [household, setHousehold] = useState<Household | null>(null)
+  const [inviteEmail, setInviteEmail] = useState("")
+  const [householdPassword, setHouseholdPassword] = useState("")
+  const [householdError, setHouseholdError] = useState<string | null>(null)
+  const [invoices, setInvoices] = useState<Invoice[]>([])
+  const [invoiceError, setInvoiceError] = useState<string | null>(null)
+  const [usage, setUsage] = useState<UsageHistory | null>(null)
+  const [usageGranularity, setUsageGranularity] = useState<UsageGranularity>("day")
+  const [instanceSession, setInstanceSession] = useState(false)
 
   // Check for token in URL (magic link) or localStorage
   useEffect(() => {
@@ -96,7 +348,11 @@ function PortalContent() {
     } else {
       // Check localStorage
       const storedToken = localStorage.getItem("portal_token")
-      if (storedToken) {
+      if (storedToken && localStorage.getItem("portal_session") === "instance") {
+        setToken(storedToken)
+        setInstanceSession(true)
+        setLoading(false)
+      } else if (storedToken) {
         setToken(storedToken)
         fetchDashboard(storedToken)
       } else {
@@ -125,6 +381,15 @@ function PortalContent() {
       
       // Remove token from URL
       router.replace("/portal")
+
+      // Siloed customers only manage their instance
+      if (result.instanceId) {
+        localStorage.setItem("portal_session", "instance")
+        setInstanceSession(true)
+        setLoading(false)
+        return
+      }
+      localStorage.removeItem("portal_session")
       
       fetchDashboard(result.token)
     } catch (err) {
@@ -154,12 +419,224 @@ function PortalContent() {
       const dashboardData = await res.json()
       setData(dashboardData)
       setLoading(false)
+      if (dashboardData.tier !== "free") {
+        fetchPlan(authToken)
+        fetchHousehold(authToken)
+        fetchInvoices(authToken)
+      }
+      fetchReferral(authToken)
+      fetchUsage(authToken, "day")
     } catch (err) {
       setError("Failed to load dashboard")
       setLoading(false)
     }
   }
 
+  async function fetchPlan(authToken: string) {
+    try {
+      const res = await fetch(`${API_URL}/portal/plan`, {
+        headers: { Authorization: `Bearer ${authToken}` },
+      })
+      if (!res.ok) return
+
+      const overview: PlanOverview = await res.json()
+      setPlanOverview(overview)
+      setSelectedTier(overview.current.tier)
+      setSelectedBlocks(overview.current.addonBlocks)
+      setPlanPreview(null)
+    } catch {
+      // The plan card stays hidden
+    }
+  }
+
+  async function fetchReferral(authToken: string) {
+    try {
+      const res = await fetch(`${API_URL}/portal/referral`, {
+        headers: { Authorization: `Bearer ${authToken}` },
+      })
+      if (res.ok) {
+        setReferral(await res.json())
+      }
+    } catch {
+      // The referral card stays hidden
+    }
+  }
+
+  async function fetchHousehold(authToken: string) {
+    try {
+      const res = await fetch(`${API_URL}/portal/household`, {
+        headers: { Authorization: `Bearer ${authToken}` },
+      })
+      if (res.ok) {
+        setHousehold((await res.json()).household)
+      }
+    } catch {
+      // The household card stays hidden
+    }
+  }
+
+  async function fetchInvoices(authToken: string) {
+    try {
+      const res = await fetch(`${API_URL}/portal/invoices`, {
+        headers: { Authorization: `Bearer ${authToken}` },
+      })
+      if (res.ok) {
+        setInvoices((await res.json()).invoices)
+      }
+    } catch {
+      // The invoice card stays hidden
+    }
+  }
+
+  async function fetchUsage(authToken: string, granularity: UsageGranularity) {
+    try {
+      const res = await fetch(`${API_URL}/portal/usage?granularity=${granularity}`, {
+        headers: { Authorization: `Bearer ${authToken}` },
+      })
+      if (res.ok) {
+        setUsage(await res.json())
+        setUsageGranularity(granularity)
+      }
+    } catch {
+      // The usage chart stays hidden
+    }
+  }
+
+  // The PDF needs the portal token, so it is downloaded as a blob
+  async function handleDownloadInvoice(invoice: Invoice) {
+    if (!token) return
+    setActionLoading(`invoice-${invoice.id}`)
+    setInvoiceError(null)
+
+    try {
+      const res = await fetch(`${API_URL}/portal/invoices/${invoice.id}/pdf`, {
+        headers: { Authorization: `Bearer ${token}` },
+      })
+      if (!res.ok) {
+        setInvoiceError("Rechnung konnte nicht heruntergeladen werden")
+        return
+      }
+
+      const url = URL.createObjectURL(await res.blob())
+      const link = document.createElement("a")
+      link.href = url
+      link.download = `SPhoto-${invoice.number || invoice.id}.pdf`
+      link.click()
+      URL.revokeObjectURL(url)
+    } catch {
+      setInvoiceError("Rechnung konnte nicht heruntergeladen werden")
+    } finally {
+      setActionLoading(null)
+    }
+  }
+
+  async function householdRequest(action: string, endpoint: string, method: string, body?: unknown) {
+    if (!token) return
+    setActionLoading(action)
+    setHouseholdError(null)
+
+    try {
+      const res = await fetch(`${API_URL}${endpoint}`, {
+        method,
+        headers: { Authorization: `Bearer ${token}`, "Content-Type": "application/json" },
+        body: body ? JSON.stringify(body) : undefined,
+      })
+      const result = await res.json()
+
+      if (res.ok && result.success) {
+        await fetchHousehold(token)
+        return true
+      }
+      setHouseholdError(
+        res.status === 429 ? "Zu viele Versuche – bitte später erneut versuchen." : result.error || "Aktion fehlgeschlagen"
+      )
+    } catch {
+      setHouseholdError("Aktion fehlgeschlagen")
+    } finally {
+      setActionLoading(null)
+    }
+    return false
+  }
+
+  async function handleInvite() {
+    if (await householdRequest("household-invite", "/portal/household/invites", "POST", { email: inviteEmail })) {
+      setInviteEmail("")
+    }
+  }
+
+  async function handleLinkHousehold() {
+    await householdRequest("household-link", "/portal/household/link", "POST", { password: householdPassword })
+    setHouseholdPassword("")
+  }
+
+  async function handleCopyReferral() {
+    if (!referral) return
+    try {
+      await navigator.clipboard.writeText(referral.link)
+      setReferralCopied(true)
+      setTimeout(() => setReferralCopied(false), 2000)
+    } catch {
+      setError("Link konnte nicht kopiert werden")
+    }
+  }
+
+  function selectPlan(tier: SubscriptionPlan["tier"], blocks: number) {
+    setSelectedTier(tier)
+    setSelectedBlocks(blocks)
+    setPlanPreview(null)
+    setPlanError(null)
+  }
+
+  async function handlePreviewPlan() {
+    if (!token) return
+    setActionLoading("plan-preview")
+    setPlanError(null)
+
+    try {
+      const res = await fetch(`${API_URL}/portal/plan/preview`, {
+        method: "POST",
+        headers: { Authorization: `Bearer ${token}`, "Content-Type": "application/json" },
+        body: JSON.stringify({ tier: selectedTier, addonBlocks: selectedBlocks }),
+      })
+      const result = await res.json()
+
+      if (res.ok) {
+        setPlanPreview(result)
+      } else {
+        setPlanError(result.error || "Vorschau konnte nicht geladen werden")
+      }
+    } catch {
+      setPlanError("Vorschau konnte nicht geladen werden")
+    } finally {
+      setActionLoading(null)
+    }
+  }
+
+  async function handleChangePlan() {
+    if (!token) return
+    setActionLoading("plan-change")
+    setPlanError(null)
+
+    try {
+      const res = await fetch(`${API_URL}/portal/plan`, {
+        method: "POST",
+        headers: { Authorization: `Bearer ${token}`, "Content-Type": "application/json" },
+        body: JSON.stringify({ tier: selectedTier, addonBlocks: selectedBlocks }),
+      })
+      const result = await res.json()
+
+      if (res.ok && result.success) {
+        fetchDashboard(token)
+      } else {
+        setPlanError(result.error || "Änderung fehlgeschlagen")
+      }
+    } catch {
+      setPlanError("Änderung fehlgeschlagen")
+    } finally {
+      setActionLoading(null)
+    }
+  }
+
   async function handleLogout() {
     if (!token) return
     
@@ -252,6 +729,74 @@ function PortalContent() {
     }
   }
 
+  async function handleRequestExport() {
+    if (!token || !data) return
+    setActionLoading("export")
+    setExportError(null)
+
+    try {
+      const res = await fetch(`${API_URL}/portal/export`, {
+        method: "POST",
+        headers: { Authorization: `Bearer ${token}`, "Content-Type": "application/json" },
+        body: JSON.stringify({ password: exportPassword }),
+      })
+
+      const result = await res.json()
+
+      if (res.ok && result.success) {
+        setData({ ...data, export: result.export })
+      } else if (res.status === 401) {
+        setExportError("Das Passwort ist falsch.")
+      } else if (res.status === 429) {
+        setExportError("Zu viele Versuche – bitte später erneut versuchen.")
+      } else {
+        setExportError(result.error || "Export konnte nicht gestartet werden")
+      }
+    } catch {
+      setExportError("Export konnte nicht gestartet werden")
+    } finally {
+      setExportPassword("")
+      setActionLoading(null)
+    }
+  }
+
+  async function handleLocaleChange(locale: PortalData["locale"]) {
+    if (!token || !data) return
+    setActionLoading("locale")
+
+    try {
+      const res = await fetch(`${API_URL}/portal/locale`, {
+        method: "PUT",
+        headers: { Authorization: `Bearer ${token}`, "Content-Type": "application/json" },
+        body: JSON.stringify({ locale }),
+      })
+
+      if (res.ok) {
+        setData({ ...data, locale })
+      } else {
+        setError("Failed to change language")
+      }
+    } catch {
+      setError("Failed to change language")
+    } finally {
+      setActionLoading(null)
+    }
+  }
+
+  if (token && instanceSession) {
+    return (
+      <InstancePortal
+        token={token}
+        onLogout={() => {
+          localStorage.removeItem("portal_token")
+          localStorage.removeItem("portal_session")
+          setInstanceSession(false)
+          setToken(null)
+        }}
+      />
+    )
+  }
+
   // Login form if not authenticated
   if (!token && !loading) {
     return <LoginForm onSuccess={(t) => { setToken(t); fetchDashboard(t); }} />
@@ -328,6 +873,28 @@ function PortalContent() {
           </Card>
         )}
 
+        {/* Read-only Grace Period Warning */}
+        {data.billingStatus === "suspended" && data.graceEndsAt && (
+          <Card className="mb-6 border-destructive bg-destructive/10">
+            <CardContent className="flex items-center gap-3 p-4">
+              <AlertTriangle className="h-5 w-5 text-destructive" />
+              <div>
+                <p className="font-medium text-destructive">
+                  Account schreibgeschützt – noch {data.graceDaysRemaining ?? 0} {data.graceDaysRemaining === 1 ? "Tag" : "Tage"}
+                </p>
+                <p className="text-sm text-muted-foreground">
+                  Deine Fotos bleiben sichtbar, Uploads sind aber gesperrt. Am{" "}
+                  {new Date(data.graceEndsAt).toLocaleDateString("de-CH")}{" "}
+                  {data.graceAction === "export_delete"
+                    ? "wird dein Account zur Löschung vorgemerkt – lade vorher einen Export herunter."
+                    : "werden deine Fotos in den Free-Plan verschoben."}
+                  {" "}Schliesse ein neues Abo ab, um das zu verhindern.
+                </p>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Error Toast */}
         {error && data && (
           <Card className="mb-6 border-destructive bg-destructive/10">
@@ -356,7 +923,7 @@ function PortalContent() {
                 </div>
               </div>
               <Badge variant={data.tier === "free" ? "secondary" : "default"}>
-                {data.tier === "free" ? "Free" : data.tier === "pro" ? "Pro" : "Basic"}
+                {data.plan}
               </Badge>
             </div>
           </CardHeader>
@@ -375,6 +942,7 @@ function PortalContent() {
               <Progress value={data.percentUsed} className={storageColor} />
               <p className="text-xs text-muted-foreground mt-1">
                 {data.percentUsed}% verwendet
+                {!!data.bonusGB && ` · inkl. ${data.bonusGB} GB Empfehlungsbonus`}
               </p>
             </div>
 
@@ -410,7 +978,7 @@ function PortalContent() {
                   Upgrade
                 </Link>
               </Button>
-            ) : (
+            ) : household?.role !== "member" && (
               <Button 
                 variant="outline" 
                 onClick={handleBilling}
@@ -429,6 +997,372 @@ function PortalContent() {
           </CardFooter>
         </Card>
 
+        {/* Storage History */}
+        {usage && usage.points.length > 0 && (
+          <StorageHistoryCard
+            usage={usage}
+            granularity={usageGranularity}
+            onGranularityChange={(g) => token && fetchUsage(token, g)}
+          />
+        )}
+
+        {/* Plan Change & Storage Add-ons */}
+        {planOverview && (
+          <Card className="mb-6">
+            <CardHeader>
+              <CardTitle className="text-lg flex items-center gap-2">
+                <HardDrive className="h-5 w-5" />
+                Plan & Speicher ändern
+              </CardTitle>
+              <CardDescription>
+                Wechsle deinen Plan oder kaufe Zusatzspeicher. Die Differenz wird anteilig mit der nächsten Rechnung verrechnet.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              {!planOverview.canChange && planOverview.reason && (
+                <p className="text-sm text-destructive">{planOverview.reason}</p>
+              )}
+
+              <div className="grid gap-3 sm:grid-cols-2">
+                {planOverview.plans.map((plan) => (
+                  <button
+                    key={plan.tier}
+                    type="button"
+                    disabled={!planOverview.canChange}
+                    onClick={() => selectPlan(plan.tier, selectedBlocks)}
+                    className={`rounded-lg border p-4 text-left transition-colors ${
+                      selectedTier === plan.tier ? "border-primary bg-primary/5" : "hover:bg-muted/50"
+                    }`}
+                  >
+                    <div className="flex items-center justify-between">
+                      <span className="font-medium">{plan.name}</span>
+                      {planOverview.current.tier === plan.tier && <Badge variant="secondary">Aktuell</Badge>}
+                    </div>
+                    <p className="text-sm text-muted-foreground">{plan.storageGB} GB</p>
+                    {plan.price && (
+                      <p className="text-sm">
+                        {formatPrice(plan.price.amount, plan.price.currency)}
+                        {plan.price.interval && ` / ${INTERVAL_LABELS[plan.price.interval] || plan.price.interval}`}
+                      </p>
+                    )}
+                  </button>
+                ))}
+              </div>
+
+              {planOverview.addon.available && (
+                <div className="flex items-center justify-between rounded-lg border p-4">
+                  <div>
+                    <p className="font-medium">Zusatzspeicher</p>
+                    <p className="text-sm text-muted-foreground">
+                      +{planOverview.addon.blockGB} GB pro Block
+                      {planOverview.addon.price && ` für ${formatPrice(planOverview.addon.price.amount, planOverview.addon.price.currency)}`}
+                      {planOverview.addon.price?.interval && ` / ${INTERVAL_LABELS[planOverview.addon.price.interval] || planOverview.addon.price.interval}`}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-3">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={!planOverview.canChange || selectedBlocks === 0}
+                      onClick={() => selectPlan(selectedTier, selectedBlocks - 1)}
+                    >
+                      <Minus className="h-4 w-4" />
+                    </Button>
+                    <span className="w-16 text-center text-sm font-medium">
+                      +{selectedBlocks * planOverview.addon.blockGB} GB
+                    </span>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={!planOverview.canChange || selectedBlocks >= planOverview.addon.maxBlocks}
+                      onClick={() => selectPlan(selectedTier, selectedBlocks + 1)}
+                    >
+                      <Plus className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              )}
+
+              {planPreview && (
+                <div className="rounded-lg bg-muted/50 p-4 text-sm space-y-1">
+                  <p>
+                    {planPreview.from.planName} ({planPreview.from.quotaGB} GB) → {planPreview.to.planName} ({planPreview.to.quotaGB} GB)
+                  </p>
+                  {planPreview.possible ? (
+                    <>
+                      {planPreview.prorationAmount !== undefined && planPreview.currency && (
+                        <p className="text-muted-foreground">
+                          {planPreview.prorationAmount >= 0 ? "Anteilige Kosten" : "Gutschrift"} für die laufende Periode:{" "}
+                          {formatPrice(Math.abs(planPreview.prorationAmount), planPreview.currency)}
+                        </p>
+                      )}
+                      {planPreview.nextInvoiceAmount !== undefined && planPreview.currency && (
+                        <p className="text-muted-foreground">
+                          Nächste Rechnung: {formatPrice(planPreview.nextInvoiceAmount, planPreview.currency)}
+                          {planPreview.nextInvoiceAt && ` am ${new Date(planPreview.nextInvoiceAt).toLocaleDateString("de-CH")}`}
+                        </p>
+                      )}
+                    </>
+                  ) : (
+                    <p className="text-destructive">{planPreview.reason}</p>
+                  )}
+                </div>
+              )}
+              {planError && <p className="text-sm text-destructive">{planError}</p>}
+            </CardContent>
+            <CardFooter className="flex gap-3">
+              <Button
+                variant="outline"
+                onClick={handlePreviewPlan}
+                disabled={
+                  !planOverview.canChange ||
+                  actionLoading === "plan-preview" ||
+                  (selectedTier === planOverview.current.tier && selectedBlocks === planOverview.current.addonBlocks)
+                }
+              >
+                {actionLoading === "plan-preview" && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Vorschau
+              </Button>
+              <Button
+                onClick={handleChangePlan}
+                disabled={!planPreview?.possible || actionLoading === "plan-change"}
+              >
+                {actionLoading === "plan-change" && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Änderung bestätigen
+              </Button>
+            </CardFooter>
+          </Card>
+        )}
+
+        {/* Family Plan Household */}
+        {household && (
+          <Card className="mb-6">
+            <CardHeader>
+              <CardTitle className="text-lg flex items-center gap-2">
+                <Users className="h-5 w-5" />
+                Familie
+              </CardTitle>
+              <CardDescription>
+                {household.role === "owner"
+                  ? `Lade bis zu ${household.maxMembers - 1} Personen ein. Jede Person bekommt einen eigenen Account, ihr teilt euch ${household.poolGB} GB Speicher und seht eure Fotos gegenseitig per Partner-Freigabe.`
+                  : `Du bist Mitglied im Familien-Plan von ${household.ownerEmail}. Ihr teilt euch ${household.poolGB} GB Speicher.`}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {household.reason && (
+                <p className={`text-sm ${household.paused ? "text-destructive" : "text-muted-foreground"}`}>{household.reason}</p>
+              )}
+
+              <div>
+                <div className="flex items-center justify-between mb-2 text-sm">
+                  <span className="font-medium">Gemeinsamer Speicher</span>
+                  <span className="text-muted-foreground">{household.usedGB.toFixed(1)} / {household.poolGB} GB</span>
+                </div>
+                <Progress value={household.poolGB > 0 ? Math.min((household.usedGB / household.poolGB) * 100, 100) : 0} />
+              </div>
+
+              <div className="divide-y rounded-lg border">
+                {household.members.map((member) => (
+                  <div key={member.visibleId} className="flex items-center justify-between gap-3 p-3">
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium truncate">
+                        {member.email}
+                        {member.role === "owner" && <Badge variant="secondary" className="ml-2">Inhaber</Badge>}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {member.usedGB.toFixed(1)} GB
+                        {!member.partnerSharing && " · Fotos noch nicht geteilt"}
+                      </p>
+                    </div>
+                    {household.role === "owner" && member.role === "member" && (
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button variant="outline" size="sm" disabled={actionLoading === `household-remove-${member.visibleId}`}>
+                            <X className="h-4 w-4" />
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>{member.email} entfernen?</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              Der Account wird mit allen Fotos in den kostenlosen Plan übertragen. Die Partner-Freigaben
+                              zwischen euch werden aufgehoben.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Abbrechen</AlertDialogCancel>
+                            <AlertDialogAction
+                              onClick={() => householdRequest(`household-remove-${member.visibleId}`, `/portal/household/members/${member.visibleId}`, "DELETE")}
+                            >
+                              Entfernen
+                            </AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    )}
+                  </div>
+                ))}
+                {household.invites.map((invite) => (
+                  <div key={invite.token} className="flex items-center justify-between gap-3 p-3">
+                    <div className="min-w-0">
+                      <p className="text-sm truncate">{invite.email}</p>
+                      <p className="text-xs text-muted-foreground">
+                        Eingeladen · gültig bis {new Date(invite.expiresAt).toLocaleDateString("de-CH")}
+                      </p>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={actionLoading === `household-revoke-${invite.token}`}
+                      onClick={() => householdRequest(`household-revoke-${invite.token}`, `/portal/household/invites/${invite.token}`, "DELETE")}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+
+              {household.role === "owner" && household.canInvite && (
+                <div className="flex gap-2">
+                  <Input
+                    type="email"
+                    placeholder="E-Mail-Adresse"
+                    value={inviteEmail}
+                    onChange={(e) => setInviteEmail(e.target.value)}
+                    onKeyDown={(e) => e.key === "Enter" && inviteEmail && handleInvite()}
+                  />
+                  <Button onClick={handleInvite} disabled={!inviteEmail || actionLoading === "household-invite"}>
+                    {actionLoading === "household-invite" ? (
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                    ) : (
+                      <>
+                        <UserPlus className="h-4 w-4 mr-2" />
+                        Einladen
+                      </>
+                    )}
+                  </Button>
+                </div>
+              )}
+              {householdError && <p className="text-sm text-destructive">{householdError}</p>}
+            </CardContent>
+            {household.members.length > 1 &&
+              household.members.some((member) => member.email === data.email && !member.partnerSharing) && (
+              <CardFooter>
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button variant="outline" className="w-full" disabled={actionLoading === "household-link"}>
+                      {actionLoading === "household-link" && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                      Meine Fotos mit der Familie teilen
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Fotos mit der Familie teilen</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        Bestätige mit deinem SPhoto-Passwort. Wir richten damit die Partner-Freigabe zu allen
+                        Familienmitgliedern ein; das Passwort wird nicht gespeichert.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <Input
+                      type="password"
+                      placeholder="Passwort"
+                      value={householdPassword}
+                      onChange={(e) => setHouseholdPassword(e.target.value)}
+                    />
+                    <AlertDialogFooter>
+                      <AlertDialogCancel onClick={() => setHouseholdPassword("")}>Abbrechen</AlertDialogCancel>
+                      <AlertDialogAction onClick={handleLinkHousehold} disabled={!householdPassword}>
+                        Teilen
+                      </AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              </CardFooter>
+            )}
+          </Card>
+        )}
+
+        {/* Invoices */}
+        {invoices.length > 0 && (
+          <Card className="mb-6">
+            <CardHeader>
+              <CardTitle className="text-lg flex items-center gap-2">
+                <FileText className="h-5 w-5" />
+                Rechnungen
+              </CardTitle>
+              <CardDescription>
+                Rechnungsadresse und MWST-Nummer kannst du unter &quot;Abo verwalten&quot; ändern.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {invoices.map((invoice) => (
+                <div key={invoice.id} className="flex items-center justify-between gap-4 py-2 border-b last:border-0">
+                  <div className="min-w-0">
+                    <p className="font-medium truncate">
+                      {invoice.number || "Rechnung"} · {new Date(invoice.created).toLocaleDateString("de-CH")}
+                    </p>
+                    <p className="text-sm text-muted-foreground">
+                      {formatPrice(invoice.total, invoice.currency)}
+                      {invoice.tax > 0 && ` (inkl. ${formatPrice(invoice.tax, invoice.currency)} MWST)`}
+                      {invoice.periodStart && invoice.periodEnd &&
+                        ` · ${new Date(invoice.periodStart).toLocaleDateString("de-CH")} – ${new Date(invoice.periodEnd).toLocaleDateString("de-CH")}`}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Badge variant={invoice.status === "paid" ? "secondary" : "outline"}>
+                      {INVOICE_STATUS_LABELS[invoice.status] || invoice.status}
+                    </Badge>
+                    {invoice.hasPdf && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleDownloadInvoice(invoice)}
+                        disabled={actionLoading === `invoice-${invoice.id}`}
+                      >
+                        {actionLoading === `invoice-${invoice.id}` ? (
+                          <Loader2 className="h-4 w-4 animate-spin" />
+                        ) : (
+                          <Download className="h-4 w-4" />
+                        )}
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              ))}
+              {invoiceError && <p className="text-sm text-destructive">{invoiceError}</p>}
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Referral */}
+        {referral && (
+          <Card className="mb-6">
+            <CardHeader>
+              <CardTitle className="text-lg flex items-center gap-2">
+                <Gift className="h-5 w-5" />
+                Freunde einladen
+              </CardTitle>
+              <CardDescription>
+                Für jede Anmeldung über deinen Link erhaltet ihr beide {referral.freeBonusGB} GB,
+                bei einem bezahlten Plan {referral.paidBonusGB} GB zusätzlichen Speicher
+                (bis maximal {referral.maxBonusGB} GB).
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex gap-2">
+                <Input readOnly value={referral.link} onFocus={(e) => e.target.select()} />
+                <Button variant="outline" onClick={handleCopyReferral}>
+                  {referralCopied ? <CheckCircle className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+                </Button>
+              </div>
+              <p className="text-sm text-muted-foreground">
+                Code <strong>{referral.code}</strong> · {referral.referred} {referral.referred === 1 ? "Einladung" : "Einladungen"} ·{" "}
+                {referral.bonusGB} GB Bonus erhalten
+              </p>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Actions */}
         <div className="grid gap-4 md:grid-cols-2">
           {/* Export */}
@@ -442,8 +1376,23 @@ function PortalContent() {
                 Lade alle deine Fotos und Videos herunter
               </CardDescription>
             </CardHeader>
-            <CardContent>
-              {data.canRequestExport ? (
+            <CardContent className="space-y-2">
+              {data.export && (data.export.status === "pending" || data.export.status === "exporting") ? (
+                <div className="space-y-2">
+                  <p className="text-sm text-muted-foreground">
+                    Dein Export wird erstellt
+                    {data.export.totalAssets > 0 && ` (${data.export.exportedAssets} von ${data.export.totalAssets} Dateien)`}.
+                    Du erhältst eine E-Mail, sobald er bereit ist.
+                  </p>
+                  {data.export.totalAssets > 0 && (
+                    <Progress value={(data.export.exportedAssets / data.export.totalAssets) * 100} />
+                  )}
+                </div>
+              ) : data.export?.downloadUrl ? (
+                <p className="text-sm text-muted-foreground">
+                  Dein Export ist bereit und kann bis {new Date(data.export.expiresAt!).toLocaleString("de-CH")} heruntergeladen werden.
+                </p>
+              ) : data.canRequestExport ? (
                 <p className="text-sm text-muted-foreground">
                   Du kannst einmal pro Monat einen Export anfordern. Der Download-Link wird dir per E-Mail zugeschickt.
                 </p>
@@ -453,11 +1402,59 @@ function PortalContent() {
                   <br />Nächster Export möglich in {30 - Math.floor((Date.now() - new Date(data.lastExportAt!).getTime()) / (1000 * 60 * 60 * 24))} Tagen.
                 </p>
               )}
+              {data.export?.status === "failed" && (
+                <p className="text-sm text-destructive">Der letzte Export ist fehlgeschlagen. Bitte fordere ihn erneut an.</p>
+              )}
+              {exportError && <p className="text-sm text-destructive">{exportError}</p>}
             </CardContent>
             <CardFooter>
-              <Button variant="outline" disabled={!data.canRequestExport} className="w-full">
-                Export anfordern
-              </Button>
+              {data.export?.downloadUrl ? (
+                <Button variant="outline" className="w-full" asChild>
+                  <a href={data.export.downloadUrl}>
+                    <Download className="mr-2 h-4 w-4" />
+                    Export herunterladen
+                  </a>
+                </Button>
+              ) : (
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button
+                      variant="outline"
+                      className="w-full"
+                      disabled={
+                        !data.canRequestExport ||
+                        actionLoading === "export" ||
+                        data.export?.status === "pending" ||
+                        data.export?.status === "exporting"
+                      }
+                    >
+                      {actionLoading === "export" && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                      Export anfordern
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Export anfordern</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        Bestätige den Export mit deinem SPhoto-Passwort (dem Passwort, mit dem du dich bei deinen Fotos anmeldest).
+                        Der Export enthält alle Originale, Alben, Tags und Personen.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <Input
+                      type="password"
+                      placeholder="Passwort"
+                      value={exportPassword}
+                      onChange={(e) => setExportPassword(e.target.value)}
+                    />
+                    <AlertDialogFooter>
+                      <AlertDialogCancel onClick={() => setExportPassword("")}>Abbrechen</AlertDialogCancel>
+                      <AlertDialogAction onClick={handleRequestExport} disabled={!exportPassword}>
+                        Export starten
+                      </AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              )}
             </CardFooter>
           </Card>
 
@@ -528,6 +1525,242 @@ function PortalContent() {
               <span className="text-muted-foreground">Instance</span>
               <span>{data.instanceUrl}</span>
             </div>
+            <div className="flex justify-between items-center">
+              <span className="text-muted-foreground">Sprache der E-Mails</span>
+              <select
+                className="h-8 rounded-md border border-input bg-background px-2 text-sm"
+                value={data.locale}
+                disabled={actionLoading === "locale"}
+                onChange={(e) => handleLocaleChange(e.target.value as PortalData["locale"])}
+              >
+                <option value="de">Deutsch</option>
+                <option value="en">English</option>
+              </select>
+            </div>
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  )
+}
+
+interface CustomDomain {
+  domain: string
+  token: string
+  status: "pending" | "verified"
+  verifiedAt?: string
+  lastError?: string
+  txtName: string
+  cnameTarget: string
+}
+
+interface InstanceInfo {
+  id: string
+  email: string
+  plan: string
+  storageGB: number
+  status: string
+  url: string
+  customDomains: CustomDomain[]
+  canUseCustomDomains: boolean
+  maxCustomDomains: number
+}
+
+// Portal of siloed customers: their instance and its custom domains
+function InstancePortal({ token, onLogout }: { token: string; onLogout: () => void }) {
+  const [instance, setInstance] = useState<InstanceInfo | null>(null)
+  const [reload, setReload] = useState(0)
+  const [newDomain, setNewDomain] = useState("")
+  const [busyDomain, setBusyDomain] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  async function request(endpoint: string, method: string = "GET", body?: unknown) {
+    const res = await fetch(`${API_URL}${endpoint}`, {
+      method,
+      headers: { Authorization: `Bearer ${token}`, "Content-Type": "application/json" },
+      body: body ? JSON.stringify(body) : undefined,
+    })
+    if (res.status === 401) {
+      onLogout()
+      throw new Error("Session expired. Please login again.")
+    }
+    const result = await res.json().catch(() => ({}))
+    if (!res.ok) throw new Error(result.error || "Aktion fehlgeschlagen")
+    return result
+  }
+
+  useEffect(() => {
+    fetch(`${API_URL}/portal/instance`, { headers: { Authorization: `Bearer ${token}` } })
+      .then(async (res) => {
+        if (res.status === 401) throw new Error("Session expired. Please login again.")
+        if (!res.ok) throw new Error("Failed to load dashboard")
+        setInstance(await res.json())
+      })
+      .catch((err: Error) => setError(err.message))
+  }, [token, reload])
+
+  async function runDomainAction(key: string, action: () => Promise<unknown>) {
+    setBusyDomain(key)
+    setError(null)
+    try {
+      await action()
+    } catch (err) {
+      setError((err as Error).message)
+    } finally {
+      setBusyDomain(null)
+      setReload((n) => n + 1)
+    }
+  }
+
+  async function handleLogout() {
+    await request("/portal/instance/logout", "POST").catch(() => null)
+    onLogout()
+  }
+
+  if (!instance) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center gap-4">
+        {error ? (
+          <>
+            <XCircle className="h-12 w-12 text-destructive" />
+            <p className="text-lg">{error}</p>
+            <Button onClick={onLogout}>Try Again</Button>
+          </>
+        ) : (
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        )}
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b">
+        <div className="container mx-auto flex items-center justify-between px-4 py-4">
+          <Link href="/" className="flex items-center gap-2 text-xl font-bold">
+            <div className="flex h-8 w-8 items-center justify-center rounded-lg bg-primary">
+              <Sparkles className="h-4 w-4 text-primary-foreground" />
+            </div>
+            <span>SPhoto</span>
+          </Link>
+          <div className="flex items-center gap-4">
+            <span className="text-sm text-muted-foreground hidden sm:block">{instance.email}</span>
+            <Button variant="ghost" size="sm" onClick={handleLogout}>
+              <LogOut className="h-4 w-4 mr-2" />
+              Logout
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 max-w-4xl space-y-6">
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <CardTitle className="flex items-center gap-2">
+                <Cloud className="h-5 w-5" />
+                Deine Instanz
+              </CardTitle>
+              <Badge>{instance.plan}</Badge>
+            </div>
+            <CardDescription>{instance.storageGB} GB Speicher</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <a href={instance.url} target="_blank" rel="noopener noreferrer">
+              <Button variant="outline">
+                {instance.url.replace("https://", "")}
+                <ExternalLink className="h-4 w-4 ml-2" />
+              </Button>
+            </a>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Globe className="h-5 w-5" />
+              Eigene Domain
+            </CardTitle>
+            <CardDescription>
+              {instance.canUseCustomDomains
+                ? "Erreiche deine Fotos unter deiner eigenen Domain, z.B. fotos.deinefamilie.ch."
+                : "Eigene Domains sind im Pro- und Family-Plan verfügbar."}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {error && (
+              <div className="p-3 rounded-lg bg-destructive/10 text-destructive text-sm">
+                {error}
+              </div>
+            )}
+
+            {instance.customDomains.map((d) => (
+              <div key={d.domain} className="rounded-lg border p-4 space-y-3">
+                <div className="flex items-center justify-between gap-4">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{d.domain}</span>
+                    {d.status === "verified" ? (
+                      <Badge className="bg-green-600">Aktiv</Badge>
+                    ) : (
+                      <Badge variant="secondary">Wartet auf DNS</Badge>
+                    )}
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => runDomainAction(d.domain, () => request(`/portal/instance/domains/${encodeURIComponent(d.domain)}`, "DELETE"))}
+                    disabled={busyDomain === d.domain}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+
+                {d.status === "pending" ? (
+                  <>
+                    <p className="text-sm text-muted-foreground">
+                      Lege bei deinem Domain-Anbieter diese zwei DNS-Einträge an. Wir prüfen sie automatisch alle paar Minuten.
+                    </p>
+                    <div className="grid gap-2 text-xs font-mono bg-muted rounded-lg p-3 overflow-x-auto">
+                      <span>TXT&nbsp;&nbsp;&nbsp;{d.txtName}&nbsp;&nbsp;&quot;{d.token}&quot;</span>
+                      <span>CNAME&nbsp;{d.domain}&nbsp;&nbsp;{d.cnameTarget}</span>
+                    </div>
+                    {d.lastError && <p className="text-sm text-destructive">{d.lastError}</p>}
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => runDomainAction(d.domain, () => request(`/portal/instance/domains/${encodeURIComponent(d.domain)}/verify`, "POST"))}
+                      disabled={busyDomain === d.domain}
+                    >
+                      {busyDomain === d.domain ? <Loader2 className="h-4 w-4 animate-spin" /> : "Jetzt prüfen"}
+                    </Button>
+                  </>
+                ) : (
+                  <a href={`https://${d.domain}`} target="_blank" rel="noopener noreferrer" className="text-sm text-primary hover:underline">
+                    https://{d.domain}
+                  </a>
+                )}
+              </div>
+            ))}
+
+            {instance.canUseCustomDomains && instance.customDomains.length < instance.maxCustomDomains && (
+              <div className="flex gap-2">
+                <Input
+                  placeholder="fotos.deinefamilie.ch"
+                  value={newDomain}
+                  onChange={(e) => setNewDomain(e.target.value)}
+                />
+                <Button
+                  onClick={() => runDomainAction("new", async () => {
+                    await request("/portal/instance/domains", "POST", { domain: newDomain })
+                    setNewDomain("")
+                  })}
+                  disabled={busyDomain === "new" || !newDomain.trim()}
+                >
+                  <Plus className="h-4 w-4 mr-2" />
+                  Hinzufügen
+                </Button>
+              </div>
+            )}
           </CardContent>
         </Card>
       </main>
@@ -556,7 +1789,9 @@ function LoginForm({ onSuccess }: { onSuccess: (token: string) => void }) {
 
       const result = await res.json()
 
-      if (result.success) {
+      if (res.status === 429) {
+        setError("Zu viele Login-Versuche – bitte versuche es später noch einmal.")
+      } else if (result.success) {
         setSent(true)
         // Dev mode: auto-login with token
         if (result._devToken) {
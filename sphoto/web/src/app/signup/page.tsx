@@ -0,0 +1,214 @@
+"use client"
+
+import { useState, useEffect, useRef, Suspense } from "react"
+import { useSearchParams } from "next/navigation"
+import Link from "next/link"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Loader2, Mail, XCircle } from "lucide-react"
+
+const API_URL = process.env.NEXT_PUBLIC_API_URL || "https://api.sphoto.arturf.ch"
+
+type Challenge =
+  | { provider: "none" }
+  | { provider: "pow"; challenge: string; difficulty: number }
+  | { provider: "turnstile" | "hcaptcha"; siteKey: string }
+
+interface CaptchaWidget {
+  render: (element: HTMLElement, options: { sitekey: string; callback: (token: string) => void }) => void
+}
+
+const CAPTCHA_SCRIPTS = {
+  turnstile: "https://challenges.cloudflare.com/turnstile/v0/api.js?render=explicit",
+  hcaptcha: "https://js.hcaptcha.com/1/api.js?render=explicit",
+}
+
+function leadingZeroBits(bytes: Uint8Array): number {
+  let bits = 0
+  for (const byte of bytes) {
+    if (byte === 0) {
+      bits += 8
+      continue
+    }
+    bits += Math.clz32(byte) - 24
+    break
+  }
+  return bits
+}
+
+// Find a nonce so that sha256(challenge:nonce) starts with `difficulty` zero bits
+async function solveProofOfWork(challenge: string, difficulty: number): Promise<string> {
+  const encoder = new TextEncoder()
+  for (let nonce = 0; ; nonce++) {
+    const hash = await crypto.subtle.digest("SHA-256", encoder.encode(`${challenge}:${nonce}`))
+    if (leadingZeroBits(new Uint8Array(hash)) >= difficulty) {
+      return String(nonce)
+    }
+  }
+}
+
+function SignupContent() {
+  const searchParams = useSearchParams()
+  const [email, setEmail] = useState(searchParams.get("email") || "")
+  const referral = searchParams.get("ref") || ""
+  const [challenge, setChallenge] = useState<Challenge | null>(null)
+  const [captchaToken, setCaptchaToken] = useState<string | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [sent, setSent] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const widgetRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    fetch(`${API_URL}/signup/challenge`)
+      .then(res => res.json())
+      .then(setChallenge)
+      .catch(() => setChallenge({ provider: "none" }))
+  }, [])
+
+  // Turnstile and hCaptcha render their widget into widgetRef
+  useEffect(() => {
+    if (!challenge || (challenge.provider !== "turnstile" && challenge.provider !== "hcaptcha")) return
+    const provider = challenge.provider
+    const script = document.createElement("script")
+    script.src = CAPTCHA_SCRIPTS[provider]
+    script.async = true
+    script.onload = () => {
+      const widget = (window as unknown as Record<string, CaptchaWidget | undefined>)[provider]
+      if (widget && widgetRef.current) {
+        widget.render(widgetRef.current, { sitekey: challenge.siteKey, callback: setCaptchaToken })
+      }
+    }
+    document.body.appendChild(script)
+    return () => {
+      document.body.removeChild(script)
+    }
+  }, [challenge])
+
+  const needsWidget = challenge?.provider === "turnstile" || challenge?.provider === "hcaptcha"
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault()
+    if (!challenge) return
+    setLoading(true)
+    setError(null)
+
+    try {
+      const body: Record<string, string> = { email }
+      if (referral) body.referral = referral
+      if (challenge.provider === "pow") {
+        body.challenge = challenge.challenge
+        body.nonce = await solveProofOfWork(challenge.challenge, challenge.difficulty)
+      } else if (needsWidget && captchaToken) {
+        body.captchaToken = captchaToken
+      }
+
+      const res = await fetch(`${API_URL}/signup/free`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      })
+      const result = await res.json()
+
+      if (res.ok && result.success) {
+        setSent(true)
+      } else if (res.status === 429) {
+        setError("Zu viele Versuche – bitte versuche es später noch einmal.")
+      } else if (res.status === 409) {
+        setError("Diese E-Mail ist bereits registriert. Melde dich im Portal an.")
+      } else {
+        setError(result.error || "Registrierung fehlgeschlagen")
+      }
+
+      // A challenge is only valid once
+      if (challenge.provider === "pow" && !(res.ok && result.success)) {
+        const fresh = await fetch(`${API_URL}/signup/challenge`).then(r => r.json())
+        setChallenge(fresh)
+      }
+    } catch {
+      setError("Registrierung fehlgeschlagen")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  if (sent) {
+    return (
+      <Card className="max-w-md w-full">
+        <CardHeader className="text-center">
+          <div className="mx-auto mb-4 flex h-12 w-12 items-center justify-center rounded-full bg-green-100">
+            <Mail className="h-6 w-6 text-green-600" />
+          </div>
+          <CardTitle>Bestätige deine E-Mail</CardTitle>
+          <CardDescription>
+            Wir haben dir einen Link an <strong>{email}</strong> geschickt. Sobald du ihn öffnest,
+            erstellen wir deinen kostenlosen Account.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="text-center">
+          <Button variant="ghost" onClick={() => setSent(false)}>
+            Andere E-Mail verwenden
+          </Button>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <Card className="max-w-md w-full">
+      <CardHeader className="text-center">
+        <CardTitle>Kostenlos starten</CardTitle>
+        <CardDescription>5 GB für deine Fotos – ohne Kreditkarte.</CardDescription>
+        {referral && (
+          <p className="text-sm text-green-600">Du wurdest eingeladen und erhältst zusätzlichen Speicher.</p>
+        )}
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <Input
+            type="email"
+            placeholder="deine@email.ch"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            required
+          />
+          {needsWidget && <div ref={widgetRef} className="flex justify-center" />}
+          {error && (
+            <p className="text-sm text-destructive flex items-center gap-2">
+              <XCircle className="h-4 w-4" />
+              {error}
+            </p>
+          )}
+          <Button
+            type="submit"
+            className="w-full"
+            disabled={loading || !challenge || (needsWidget && !captchaToken)}
+          >
+            {loading ? <Loader2 className="h-4 w-4 animate-spin" /> : "Account erstellen"}
+          </Button>
+          <p className="text-xs text-center text-muted-foreground">
+            Schon registriert? <Link href="/portal" className="underline">Zum Portal</Link>
+          </p>
+        </form>
+      </CardContent>
+    </Card>
+  )
+}
+
+export default function SignupPage() {
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-b from-primary/5 via-background to-background p-4">
+      <Suspense
+        fallback={
+          <Card className="max-w-md w-full">
+            <CardContent className="py-12 text-center">
+              <Loader2 className="h-10 w-10 animate-spin mx-auto text-primary" />
+            </CardContent>
+          </Card>
+        }
+      >
+        <SignupContent />
+      </Suspense>
+    </div>
+  )
+}
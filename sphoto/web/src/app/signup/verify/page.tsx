@@ -0,0 +1,116 @@
+"use client"
+
+import { useState, useEffect, useRef, Suspense } from "react"
+import { useSearchParams } from "next/navigation"
+import Link from "next/link"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { CheckCircle, ExternalLink, Loader2, XCircle } from "lucide-react"
+
+const API_URL = process.env.NEXT_PUBLIC_API_URL || "https://api.sphoto.arturf.ch"
+
+type VerifyState =
+  | { status: "loading" }
+  | { status: "success"; instanceUrl: string }
+  | { status: "error"; message: string }
+
+function VerifyContent() {
+  const searchParams = useSearchParams()
+  const token = searchParams.get("token")
+  const [state, setState] = useState<VerifyState>({ status: "loading" })
+  // The link is single use - don't send it twice in development StrictMode
+  const submitted = useRef(false)
+
+  useEffect(() => {
+    if (!token) {
+      setState({ status: "error", message: "Der Link ist ungültig." })
+      return
+    }
+    if (submitted.current) return
+    submitted.current = true
+
+    fetch(`${API_URL}/signup/verify`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ token }),
+    })
+      .then(async res => {
+        const result = await res.json()
+        if (res.ok && result.success) {
+          setState({ status: "success", instanceUrl: result.instanceUrl })
+        } else if (res.status === 409) {
+          setState({ status: "error", message: "Diese E-Mail ist bereits registriert." })
+        } else {
+          setState({ status: "error", message: "Der Link ist ungültig oder abgelaufen." })
+        }
+      })
+      .catch(() => setState({ status: "error", message: "Verbindungsfehler – bitte Seite neu laden" }))
+  }, [token])
+
+  if (state.status === "loading") {
+    return (
+      <Card className="max-w-md w-full">
+        <CardHeader className="text-center">
+          <Loader2 className="h-14 w-14 animate-spin mx-auto text-primary mb-4" />
+          <CardTitle>Dein Account wird erstellt...</CardTitle>
+        </CardHeader>
+      </Card>
+    )
+  }
+
+  if (state.status === "error") {
+    return (
+      <Card className="max-w-md border-destructive">
+        <CardHeader className="text-center">
+          <XCircle className="h-12 w-12 text-destructive mx-auto mb-2" />
+          <CardTitle>Bestätigung fehlgeschlagen</CardTitle>
+          <CardDescription>{state.message}</CardDescription>
+        </CardHeader>
+        <CardContent className="flex flex-col gap-2">
+          <Button asChild>
+            <Link href="/signup">Neuen Link anfordern</Link>
+          </Button>
+          <Button variant="ghost" asChild>
+            <Link href="/portal">Zum Portal</Link>
+          </Button>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <Card className="max-w-md w-full">
+      <CardHeader className="text-center">
+        <CheckCircle className="h-16 w-16 text-green-500 mx-auto mb-4" />
+        <CardTitle className="text-2xl">Dein Account ist bereit!</CardTitle>
+        <CardDescription>Deine Login-Daten haben wir dir per E-Mail geschickt.</CardDescription>
+      </CardHeader>
+      <CardContent className="text-center">
+        <Button asChild>
+          <a href={state.instanceUrl} target="_blank" rel="noreferrer">
+            Zu deinen Fotos
+            <ExternalLink className="ml-2 h-4 w-4" />
+          </a>
+        </Button>
+      </CardContent>
+    </Card>
+  )
+}
+
+export default function VerifyPage() {
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-b from-primary/5 via-background to-background p-4">
+      <Suspense
+        fallback={
+          <Card className="max-w-md w-full">
+            <CardContent className="py-12 text-center">
+              <Loader2 className="h-10 w-10 animate-spin mx-auto text-primary" />
+            </CardContent>
+          </Card>
+        }
+      >
+        <VerifyContent />
+      </Suspense>
+    </div>
+  )
+}
@@ -0,0 +1,420 @@
+"use client"
+
+import { useCallback, useEffect, useState, Suspense } from "react"
+import { useSearchParams } from "next/navigation"
+import Link from "next/link"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import {
+  Activity,
+  AlertTriangle,
+  CheckCircle,
+  Loader2,
+  Mail,
+  Rss,
+  Wrench,
+  XCircle,
+} from "lucide-react"
+
+const API_URL = process.env.NEXT_PUBLIC_API_URL || "https://api.sphoto.arturf.ch"
+
+type ComponentId = "free" | "paid" | "portal" | "uploads" | "ml" | "instances"
+type ComponentState = "operational" | "degraded" | "outage" | "maintenance"
+type IncidentStatus = "investigating" | "identified" | "monitoring" | "resolved"
+
+interface StatusComponent {
+  id: ComponentId
+  state: ComponentState
+  message?: string
+  since: string
+  uptime: number | null
+  history: Array<{ date: string; uptime: number | null; degraded: boolean }>
+}
+
+interface Incident {
+  id: string
+  title: string
+  impact: "degraded" | "outage"
+  components: ComponentId[]
+  status: IncidentStatus
+  createdAt: string
+  resolvedAt?: string
+  updates: Array<{ id: string; status: IncidentStatus; message: string; createdAt: string }>
+}
+
+interface ActiveMaintenance {
+  id: string
+  title: string
+  description: string
+  expectedEnd: string
+}
+
+interface ScheduledMaintenance {
+  id: string
+  title: string
+  scheduledStart: string
+  scheduledEnd: string
+}
+
+interface StatusPage {
+  state: ComponentState
+  components: StatusComponent[]
+  activeIncidents: Incident[]
+  recentIncidents: Incident[]
+  activeMaintenance: ActiveMaintenance | null
+  scheduledMaintenance: ScheduledMaintenance[]
+}
+
+const componentLabels: Record<ComponentId, string> = {
+  free: "Free-Instanz",
+  paid: "Bezahlte Instanz",
+  portal: "Kundenportal",
+  uploads: "Uploads",
+  ml: "Gesichts- und Objekterkennung",
+  instances: "Foto-Instanzen",
+}
+
+const stateLabels: Record<ComponentState, string> = {
+  operational: "In Betrieb",
+  degraded: "Beeinträchtigt",
+  outage: "Ausfall",
+  maintenance: "Wartung",
+}
+
+const stateColors: Record<ComponentState, string> = {
+  operational: "bg-green-500/10 text-green-600",
+  degraded: "bg-amber-500/10 text-amber-600",
+  outage: "bg-red-500/10 text-red-600",
+  maintenance: "bg-blue-500/10 text-blue-600",
+}
+
+const overallLabels: Record<ComponentState, string> = {
+  operational: "Alle Systeme in Betrieb",
+  degraded: "Einzelne Dienste beeinträchtigt",
+  outage: "Störung",
+  maintenance: "Wartung läuft",
+}
+
+const incidentStatusLabels: Record<IncidentStatus, string> = {
+  investigating: "Untersuchung",
+  identified: "Ursache gefunden",
+  monitoring: "Beobachtung",
+  resolved: "Behoben",
+}
+
+function formatDateTime(dateStr: string): string {
+  return new Date(dateStr).toLocaleString("de-CH", {
+    day: "2-digit",
+    month: "2-digit",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  })
+}
+
+function formatUptime(uptime: number | null): string {
+  return uptime === null ? "–" : `${(uptime * 100).toFixed(2)} %`
+}
+
+function dayColor(day: StatusComponent["history"][number]): string {
+  if (day.uptime === null) return "bg-muted"
+  if (day.uptime < 0.99) return "bg-red-500"
+  if (day.uptime < 1 || day.degraded) return "bg-amber-500"
+  return "bg-green-500"
+}
+
+function StateIcon({ state, className }: { state: ComponentState; className?: string }) {
+  if (state === "operational") return <CheckCircle className={`text-green-600 ${className}`} />
+  if (state === "maintenance") return <Wrench className={`text-blue-600 ${className}`} />
+  if (state === "degraded") return <AlertTriangle className={`text-amber-600 ${className}`} />
+  return <XCircle className={`text-red-600 ${className}`} />
+}
+
+function IncidentCard({ incident }: { incident: Incident }) {
+  return (
+    <div className="p-4 rounded-lg border">
+      <div className="flex flex-wrap items-center gap-2">
+        <h4 className="font-semibold">{incident.title}</h4>
+        <Badge className={incident.status === "resolved" ? stateColors.operational : stateColors[incident.impact]}>
+          {incidentStatusLabels[incident.status]}
+        </Badge>
+      </div>
+      <p className="text-xs text-muted-foreground mt-1">
+        Betroffen: {incident.components.map(c => componentLabels[c]).join(", ")}
+      </p>
+      <div className="mt-3 space-y-3 border-l pl-4">
+        {[...incident.updates].reverse().map(update => (
+          <div key={update.id}>
+            <p className="text-sm">
+              <span className="font-medium">{incidentStatusLabels[update.status]}</span>
+              <span className="text-muted-foreground"> – {formatDateTime(update.createdAt)}</span>
+            </p>
+            <p className="text-sm text-muted-foreground whitespace-pre-line">{update.message}</p>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+function StatusContent() {
+  const searchParams = useSearchParams()
+  const [status, setStatus] = useState<StatusPage | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
+  const [email, setEmail] = useState("")
+  const [subscribing, setSubscribing] = useState(false)
+
+  const loadStatus = useCallback(async () => {
+    try {
+      const res = await fetch(`${API_URL}/api/status`)
+      if (!res.ok) throw new Error()
+      setStatus(await res.json())
+      setError(null)
+    } catch {
+      setError("Status konnte nicht geladen werden")
+    }
+  }, [])
+
+  useEffect(() => {
+    loadStatus()
+    const interval = setInterval(loadStatus, 60_000)
+    return () => clearInterval(interval)
+  }, [loadStatus])
+
+  // Links from the subscription emails
+  useEffect(() => {
+    const confirm = searchParams.get("confirm")
+    const unsubscribe = searchParams.get("unsubscribe")
+    if (!confirm && !unsubscribe) return
+
+    fetch(`${API_URL}/api/status/${confirm ? "confirm" : "unsubscribe"}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ token: confirm || unsubscribe }),
+    })
+      .then(res => {
+        if (res.ok) {
+          setNotice(confirm ? "Abo bestätigt – wir melden uns bei Störungen." : "Du wurdest abgemeldet.")
+        } else {
+          setNotice(confirm ? "Der Bestätigungslink ist ungültig oder abgelaufen." : "Dieses Abo existiert nicht mehr.")
+        }
+      })
+      .catch(() => setNotice("Anfrage fehlgeschlagen"))
+  }, [searchParams])
+
+  async function handleSubscribe(e: React.FormEvent) {
+    e.preventDefault()
+    setSubscribing(true)
+    try {
+      const res = await fetch(`${API_URL}/api/status/subscribe`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email, locale: "de" }),
+      })
+      if (res.ok) {
+        setNotice(`Wir haben dir einen Bestätigungslink an ${email} geschickt.`)
+        setEmail("")
+      } else if (res.status === 429) {
+        setNotice("Zu viele Versuche – bitte versuche es später noch einmal.")
+      } else {
+        const result = await res.json().catch(() => ({}))
+        setNotice(result.error || "Anmeldung fehlgeschlagen")
+      }
+    } catch {
+      setNotice("Anmeldung fehlgeschlagen")
+    } finally {
+      setSubscribing(false)
+    }
+  }
+
+  if (!status) {
+    return (
+      <div className="py-24 text-center">
+        {error ? (
+          <p className="text-destructive">{error}</p>
+        ) : (
+          <Loader2 className="h-10 w-10 animate-spin mx-auto text-primary" />
+        )}
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      {notice && (
+        <div className="rounded-lg border bg-muted/50 p-4 text-sm flex items-center gap-2">
+          <Mail className="h-4 w-4" />
+          {notice}
+        </div>
+      )}
+
+      <Card className={status.state === "operational" ? "border-green-500/50" : "border-amber-500/50"}>
+        <CardContent className="flex items-center gap-4 pt-6">
+          <StateIcon state={status.state} className="h-10 w-10" />
+          <div>
+            <p className="text-xl font-semibold">{overallLabels[status.state]}</p>
+            {error && <p className="text-sm text-destructive">{error}</p>}
+          </div>
+        </CardContent>
+      </Card>
+
+      {status.activeMaintenance && (
+        <Card className="border-blue-500/50">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-blue-600">
+              <Wrench className="h-5 w-5" />
+              {status.activeMaintenance.title}
+            </CardTitle>
+            <CardDescription>
+              Voraussichtliches Ende: {formatDateTime(status.activeMaintenance.expectedEnd)}
+            </CardDescription>
+          </CardHeader>
+          {status.activeMaintenance.description && (
+            <CardContent>
+              <p className="text-sm text-muted-foreground">{status.activeMaintenance.description}</p>
+            </CardContent>
+          )}
+        </Card>
+      )}
+
+      {status.activeIncidents.length > 0 && (
+        <Card className="border-amber-500/50">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-amber-600">
+              <AlertTriangle className="h-5 w-5" />
+              Aktuelle Störungen
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {status.activeIncidents.map(incident => (
+              <IncidentCard key={incident.id} incident={incident} />
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Activity className="h-5 w-5" />
+            Dienste
+          </CardTitle>
+          <CardDescription>Verfügbarkeit der letzten 90 Tage</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {status.components.map(component => (
+            <div key={component.id}>
+              <div className="flex items-center justify-between gap-2">
+                <div className="flex items-center gap-2">
+                  <StateIcon state={component.state} className="h-4 w-4" />
+                  <span className="font-medium">{componentLabels[component.id]}</span>
+                </div>
+                <div className="flex items-center gap-2">
+                  <span className="text-xs text-muted-foreground">{formatUptime(component.uptime)}</span>
+                  <Badge className={stateColors[component.state]}>{stateLabels[component.state]}</Badge>
+                </div>
+              </div>
+              <div className="mt-2 flex h-8 gap-px">
+                {component.history.map(day => (
+                  <div
+                    key={day.date}
+                    className={`flex-1 rounded-sm ${dayColor(day)}`}
+                    title={`${new Date(day.date).toLocaleDateString("de-CH")}: ${formatUptime(day.uptime)}`}
+                  />
+                ))}
+              </div>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      {status.scheduledMaintenance.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Wrench className="h-5 w-5 text-blue-500" />
+              Geplante Wartungen
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {status.scheduledMaintenance.map(m => (
+              <div key={m.id} className="py-2 border-b last:border-0">
+                <p className="font-medium">{m.title}</p>
+                <p className="text-xs text-muted-foreground">
+                  {formatDateTime(m.scheduledStart)} → {formatDateTime(m.scheduledEnd)}
+                </p>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Vergangene Störungen</CardTitle>
+          <CardDescription>Letzte 14 Tage</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {status.recentIncidents.length === 0 ? (
+            <p className="text-muted-foreground">Keine Störungen</p>
+          ) : (
+            status.recentIncidents.map(incident => <IncidentCard key={incident.id} incident={incident} />)
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Mail className="h-5 w-5" />
+            Benachrichtigungen
+          </CardTitle>
+          <CardDescription>Per E-Mail über Störungen und Wartungen informiert werden</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <form onSubmit={handleSubscribe} className="flex gap-2">
+            <Input
+              type="email"
+              placeholder="deine@email.ch"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              required
+            />
+            <Button type="submit" disabled={subscribing}>
+              {subscribing ? <Loader2 className="h-4 w-4 animate-spin" /> : "Abonnieren"}
+            </Button>
+          </form>
+          <a
+            href={`${API_URL}/api/status/feed.atom`}
+            className="inline-flex items-center gap-2 text-sm text-muted-foreground hover:text-foreground"
+          >
+            <Rss className="h-4 w-4" />
+            Atom-Feed
+          </a>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
+
+export default function StatusPage() {
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b">
+        <div className="container mx-auto max-w-3xl px-4 py-4">
+          <Link href="/" className="text-xl font-semibold">
+            <span className="text-primary">S</span>Photo Status
+          </Link>
+        </div>
+      </header>
+      <main className="container mx-auto max-w-3xl px-4 py-8">
+        <Suspense fallback={<Loader2 className="h-10 w-10 animate-spin mx-auto text-primary" />}>
+          <StatusContent />
+        </Suspense>
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,28 @@
+import { eventManager } from '$lib/managers/event-manager.svelte';
+import { getPrimaryPalette } from '$lib/utils/theme-utils';
+import { getTheme, type ServerThemeDto } from '@immich/sdk';
+
+const DEFAULT_PRODUCT_NAME = 'SPhoto';
+
+class ServerThemeManager {
+  #value?: ServerThemeDto = $state();
+
+  productName = $derived(this.#value?.productName || DEFAULT_PRODUCT_NAME);
+  logoUrl = $derived(this.#value?.logoUrl ?? undefined);
+  faviconUrl = $derived(this.#value?.faviconUrl ?? undefined);
+  palette = $derived(getPrimaryPalette(this.#value?.primaryColor ?? ''));
+
+  constructor() {
+    eventManager.on('SystemConfigUpdate', () => void this.loadTheme());
+  }
+
+  async init() {
+    await this.loadTheme();
+  }
+
+  async loadTheme() {
+    this.#value = await getTheme();
+  }
+}
+
+export const serverThemeManager = new ServerThemeManager();
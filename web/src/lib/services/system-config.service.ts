@@ -1,10 +1,19 @@
 import { downloadManager } from '$lib/managers/download-manager.svelte';
 import { eventManager } from '$lib/managers/event-manager.svelte';
+import { serverThemeManager } from '$lib/managers/server-theme-manager.svelte';
 import { copyToClipboard } from '$lib/utils';
 import { downloadBlob } from '$lib/utils/asset-utils';
 import { handleError } from '$lib/utils/handle-error';
 import { getFormatter } from '$lib/utils/i18n';
-import { getConfig, updateConfig, type ServerFeaturesDto, type SystemConfigDto } from '@immich/sdk';
+import {
+  createThemeAsset,
+  deleteThemeAsset,
+  getConfig,
+  updateConfig,
+  type ServerFeaturesDto,
+  type SystemConfigDto,
+  type ThemeAsset,
+} from '@immich/sdk';
 import { toastManager, type ActionItem } from '@immich/ui';
 import { mdiContentCopy, mdiDownload, mdiUpload } from '@mdi/js';
 import { isEqual } from 'lodash-es';
@@ -114,3 +123,46 @@ export const handleUploadConfig = () => {
   });
   input.remove();
 };
+
+const uploadThemeAsset = async (asset: ThemeAsset, file: File) => {
+  const $t = await getFormatter();
+
+  try {
+    await createThemeAsset({ asset, createThemeAssetDto: { themeData: file } });
+    await serverThemeManager.loadTheme();
+    toastManager.success($t('settings_saved'));
+  } catch (error) {
+    handleError(error, $t('errors.unable_to_save_settings'));
+  }
+};
+
+export const handleUploadThemeAsset = (asset: ThemeAsset) => {
+  const input = globalThis.document.createElement('input');
+  input.type = 'file';
+  input.accept = '.avif,.gif,.ico,.jpeg,.jpg,.png,.webp';
+
+  input.addEventListener(
+    'change',
+    () => {
+      const file = input.files?.[0];
+      if (file) {
+        void uploadThemeAsset(asset, file);
+      }
+    },
+    { passive: true },
+  );
+
+  input.click();
+};
+
+export const handleDeleteThemeAsset = async (asset: ThemeAsset) => {
+  const $t = await getFormatter();
+
+  try {
+    await deleteThemeAsset({ asset });
+    await serverThemeManager.loadTheme();
+    toastManager.success($t('settings_saved'));
+  } catch (error) {
+    handleError(error, $t('errors.unable_to_save_settings'));
+  }
+};
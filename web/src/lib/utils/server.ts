@@ -1,5 +1,6 @@
 import { featureFlagsManager } from '$lib/managers/feature-flags-manager.svelte';
 import { serverConfigManager } from '$lib/managers/server-config-manager.svelte';
+import { serverThemeManager } from '$lib/managers/server-theme-manager.svelte';
 import { initLanguage } from '$lib/utils';
 import { defaults } from '@immich/sdk';
 import { memoize } from 'lodash-es';
@@ -16,6 +17,7 @@ async function _init(fetch: Fetch) {
 
   if (!serverConfigManager.value.maintenanceMode) {
     await featureFlagsManager.init();
+    await serverThemeManager.init();
   }
 }
 
@@ -0,0 +1,20 @@
+import { getPrimaryPalette } from '$lib/utils/theme-utils';
+
+describe('getPrimaryPalette', () => {
+  it('should ignore an empty color', () => {
+    expect(getPrimaryPalette('')).toBeUndefined();
+  });
+
+  it('should ignore invalid colors', () => {
+    expect(getPrimaryPalette('red')).toBeUndefined();
+    expect(getPrimaryPalette('#fff')).toBeUndefined();
+  });
+
+  it('should return the color and a lighter shade for dark mode', () => {
+    expect(getPrimaryPalette('#4250AF')).toEqual({ light: '66 80 175', dark: '170 176 219' });
+  });
+
+  it('should keep white for dark mode', () => {
+    expect(getPrimaryPalette('#ffffff')).toEqual({ light: '255 255 255', dark: '255 255 255' });
+  });
+});
@@ -0,0 +1,47 @@
+export type PrimaryPalette = {
+  /** space separated rgb channels, as used by the `--immich-primary` css variables */
+  light: string;
+  dark: string;
+};
+
+// dark mode needs a lighter shade of the primary color to stay readable
+const DARK_MIX = 0.55;
+
+export const getPrimaryPalette = (hex: string): PrimaryPalette | undefined => {
+  const match = /^#([\da-f]{2})([\da-f]{2})([\da-f]{2})$/i.exec(hex);
+  if (!match) {
+    return;
+  }
+
+  const channels = match.slice(1).map((channel) => Number.parseInt(channel, 16));
+  const lighten = (channel: number) => Math.round(channel + (255 - channel) * DARK_MIX);
+
+  return {
+    light: channels.join(' '),
+    dark: channels.map((channel) => lighten(channel)).join(' '),
+  };
+};
+
+const PRIMARY_VARIABLES = ['--immich-primary', '--immich-dark-primary', '--immich-ui-primary'];
+
+export const applyPrimaryPalette = (palette: PrimaryPalette | undefined, isDark: boolean) => {
+  const style = document.documentElement.style;
+  if (!palette) {
+    for (const variable of PRIMARY_VARIABLES) {
+      style.removeProperty(variable);
+    }
+    return;
+  }
+
+  style.setProperty('--immich-primary', palette.light);
+  style.setProperty('--immich-dark-primary', palette.dark);
+  // @immich/ui switches this variable with the `dark` class, an inline value has to follow the theme itself
+  style.setProperty('--immich-ui-primary', isDark ? palette.dark : palette.light);
+};
+
+export const applyFavicon = (url: string | undefined) => {
+  for (const link of document.querySelectorAll<HTMLLinkElement>('link[rel~="icon"], link[rel="apple-touch-icon"]')) {
+    link.dataset.defaultHref ??= link.getAttribute('href') ?? '';
+    link.href = url ?? link.dataset.defaultHref;
+  }
+};
@@ -1,5 +1,6 @@
 import { goto } from '$app/navigation';
 import { serverConfigManager } from '$lib/managers/server-config-manager.svelte';
+import { serverThemeManager } from '$lib/managers/server-theme-manager.svelte';
 import { maintenanceCreateUrl, maintenanceReturnUrl, maintenanceShouldRedirect } from '$lib/utils/maintenance';
 import { init } from '$lib/utils/server';
 import { commandPaletteManager } from '@immich/ui';
@@ -27,7 +28,7 @@ export const load = (async ({ fetch, url }) => {
   return {
     error,
     meta: {
-      title: 'SPhoto',
+      title: serverThemeManager.productName,
     },
   };
 }) satisfies LayoutLoad;